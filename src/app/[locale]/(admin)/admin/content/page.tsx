@@ -2,10 +2,12 @@
 
 import { useState } from 'react';
 import { useTranslations } from 'next-intl';
-import { FileText, MessageSquare, Plus, MoreHorizontal, Pencil, Trash2, Eye, EyeOff, Pin, PinOff, ExternalLink } from 'lucide-react';
+import { FileText, MessageSquare, Plus, MoreHorizontal, Pencil, Trash2, Eye, EyeOff, Pin, PinOff, ExternalLink, History, Megaphone, VenetianMask } from 'lucide-react';
 import { format } from 'date-fns';
 
 import { cn } from '@/lib/cn';
+import { diffWords } from '@/lib/diff';
+import { isPinActive, toPinnedUntil } from '@/lib/pins';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -49,8 +51,10 @@ import {
   useDeleteProgram,
   useAdminPosts,
   useTogglePinPost,
+  useToggleNoticePost,
   useToggleHidePost,
   useDeletePost,
+  usePostRevisions,
   type ProgramWithAuthor,
   type PostWithAuthor,
 } from '@/features/admin/api/use-content-management';
@@ -94,6 +98,73 @@ const initialProgramForm: ProgramFormData = {
   application_deadline: '',
 };
 
+/**
+ * Edit history of a single post: one entry per edit, showing a word diff
+ * against the version that replaced it and any media changes.
+ */
+function PostRevisionHistory({ post }: { post: PostWithAuthor }) {
+  const t = useTranslations('admin.content');
+  const tCommon = useTranslations('common');
+  const { data: revisions = [], isLoading } = usePostRevisions(post.id);
+
+  if (isLoading) {
+    return <p className="py-6 text-center text-sm text-[#8B95A1]">{tCommon('loading')}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="py-6 text-center text-sm text-[#8B95A1]">{t('noRevisions')}</p>;
+  }
+
+  return (
+    <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+      {revisions.map((revision, index) => {
+        // Each revision is the version replaced by the edit, so compare it
+        // with the next revision, or with the live post for the latest edit.
+        const next = revisions[index + 1] ?? post;
+        const nextMedia = next.media_urls ?? [];
+        const addedMedia = nextMedia.filter((url) => !revision.media_urls.includes(url));
+        const removedMedia = revision.media_urls.filter((url) => !nextMedia.includes(url));
+
+        return (
+          <div key={revision.id} className="rounded-lg border border-white/5 p-3">
+            <div className="mb-2 flex items-center justify-between text-xs text-[#8B95A1]">
+              <span>{revision.editor?.full_name || revision.editor?.email || 'Unknown'}</span>
+              <span>{format(new Date(revision.created_at), 'MMM d, yyyy HH:mm')}</span>
+            </div>
+            <p className="whitespace-pre-wrap break-words text-sm text-white">
+              {diffWords(revision.content, next.content).map((segment, i) => (
+                <span
+                  key={i}
+                  className={cn(
+                    segment.op === 'insert' && 'bg-green-500/20 text-green-300',
+                    segment.op === 'delete' && 'bg-red-500/20 text-red-300 line-through'
+                  )}
+                >
+                  {segment.text}
+                </span>
+              ))}
+            </p>
+            {(addedMedia.length > 0 || removedMedia.length > 0) && (
+              <div className="mt-2 flex gap-2">
+                {addedMedia.length > 0 && (
+                  <Badge variant="success" size="sm">
+                    {t('mediaAdded', { count: addedMedia.length })}
+                  </Badge>
+                )}
+                {removedMedia.length > 0 && (
+                  <Badge variant="error" size="sm">
+                    {t('mediaRemoved', { count: removedMedia.length })}
+                  </Badge>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 /**
  * Content Management Page
  *
@@ -101,7 +172,7 @@ const initialProgramForm: ProgramFormData = {
  * Features:
  * - Tabbed interface for Programs and Posts
  * - CRUD operations for support programs
- * - Moderation actions for posts (pin, hide, delete)
+ * - Moderation actions for posts (pin with expiry, notice, hide, delete, edit history)
  * - Uses Table and Dropdown-menu from @/components/ui/
  * - All labels use translations from useTranslations('admin.content')
  */
@@ -126,6 +197,9 @@ export default function ContentManagementPage() {
   const [hideConfirmPost, setHideConfirmPost] = useState<PostWithAuthor | null>(null);
   const [hideReason, setHideReason] = useState('');
   const [deleteConfirmPost, setDeleteConfirmPost] = useState<PostWithAuthor | null>(null);
+  const [historyPost, setHistoryPost] = useState<PostWithAuthor | null>(null);
+  const [pinningPost, setPinningPost] = useState<PostWithAuthor | null>(null);
+  const [pinUntil, setPinUntil] = useState('');
 
   // Queries
   const {
@@ -148,6 +222,7 @@ export default function ContentManagementPage() {
   const updateProgram = useUpdateProgram();
   const deleteProgram = useDeleteProgram();
   const togglePinPost = useTogglePinPost();
+  const toggleNoticePost = useToggleNoticePost();
   const toggleHidePost = useToggleHidePost();
   const deletePost = useDeletePost();
 
@@ -210,9 +285,33 @@ export default function ContentManagementPage() {
 
   // Post handlers
   const handlePinPost = async (post: PostWithAuthor) => {
+    if (!post.is_pinned) {
+      // Pinning asks for an optional expiry date first
+      setPinningPost(post);
+      return;
+    }
     await togglePinPost.mutateAsync({
       postId: post.id,
-      isPinned: !post.is_pinned,
+      isPinned: false,
+    });
+  };
+
+  const handleConfirmPin = async () => {
+    if (pinningPost) {
+      await togglePinPost.mutateAsync({
+        postId: pinningPost.id,
+        isPinned: true,
+        pinnedUntil: toPinnedUntil(pinUntil),
+      });
+      setPinningPost(null);
+      setPinUntil('');
+    }
+  };
+
+  const handleNoticePost = async (post: PostWithAuthor) => {
+    await toggleNoticePost.mutateAsync({
+      postId: post.id,
+      isNotice: !post.is_notice,
     });
   };
 
@@ -483,10 +582,28 @@ export default function ContentManagementPage() {
                         </TableCell>
                         <TableCell>
                           <div className="flex flex-wrap gap-1">
-                            {post.is_pinned && (
+                            {post.is_notice && (
                               <Badge variant="info" size="sm">
+                                <Megaphone className="mr-1 h-3 w-3" />
+                                {t('notice')}
+                              </Badge>
+                            )}
+                            {post.is_anonymous && (
+                              <Badge variant="muted" size="sm">
+                                <VenetianMask className="mr-1 h-3 w-3" />
+                                {t('anonymous')}
+                              </Badge>
+                            )}
+                            {post.is_pinned && (
+                              <Badge variant={isPinActive(post) ? 'info' : 'muted'} size="sm">
                                 <Pin className="mr-1 h-3 w-3" />
-                                Pinned
+                                {!post.pinned_until
+                                  ? 'Pinned'
+                                  : isPinActive(post)
+                                    ? t('pinnedUntil', {
+                                        date: format(new Date(post.pinned_until), 'MMM d, yyyy'),
+                                      })
+                                    : t('pinExpired')}
                               </Badge>
                             )}
                             {post.is_hidden && (
@@ -500,6 +617,11 @@ export default function ContentManagementPage() {
                                 Visible
                               </Badge>
                             )}
+                            {post.edited_at && (
+                              <Badge variant="muted" size="sm">
+                                {t('edited')}
+                              </Badge>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell className="text-[#8B95A1]">
@@ -532,6 +654,13 @@ export default function ContentManagementPage() {
                                   </>
                                 )}
                               </DropdownMenuItem>
+                              {/* Only posts written by an admin can be notices */}
+                              {(post.is_notice || post.author?.role === 'admin') && (
+                                <DropdownMenuItem onClick={() => handleNoticePost(post)}>
+                                  <Megaphone className="mr-2 h-4 w-4" />
+                                  {post.is_notice ? t('unmarkNotice') : t('markNotice')}
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuItem onClick={() => setHideConfirmPost(post)}>
                                 {post.is_hidden ? (
                                   <>
@@ -545,6 +674,12 @@ export default function ContentManagementPage() {
                                   </>
                                 )}
                               </DropdownMenuItem>
+                              {post.edited_at && (
+                                <DropdownMenuItem onClick={() => setHistoryPost(post)}>
+                                  <History className="mr-2 h-4 w-4" />
+                                  {t('viewHistory')}
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuSeparator />
                               <DropdownMenuItem
                                 variant="destructive"
@@ -701,6 +836,46 @@ export default function ContentManagementPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Pin Post Dialog */}
+      <Dialog
+        open={!!pinningPost}
+        onOpenChange={() => {
+          setPinningPost(null);
+          setPinUntil('');
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('pinPost')}</DialogTitle>
+            <DialogDescription>{t('pinDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Input
+              label={t('pinUntil')}
+              type="date"
+              value={pinUntil}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              helperText={t('pinUntilHint')}
+              onChange={(e) => setPinUntil(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setPinningPost(null);
+                setPinUntil('');
+              }}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button onClick={handleConfirmPin} loading={togglePinPost.isPending}>
+              {t('pinPost')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Hide Post Confirmation Dialog */}
       <Dialog open={!!hideConfirmPost} onOpenChange={() => setHideConfirmPost(null)}>
         <DialogContent>
@@ -762,6 +937,22 @@ export default function ContentManagementPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Post Edit History Dialog */}
+      <Dialog open={!!historyPost} onOpenChange={() => setHistoryPost(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{t('editHistory')}</DialogTitle>
+            <DialogDescription>{t('editHistoryDescription')}</DialogDescription>
+          </DialogHeader>
+          {historyPost && <PostRevisionHistory post={historyPost} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHistoryPost(null)}>
+              {tCommon('close')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -15,6 +15,7 @@ import {
   Download,
   Briefcase,
   Building2,
+  GitCompare,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
@@ -57,6 +58,16 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/cn';
+import {
+  getHistoryChanges,
+  getMaterialChanges,
+  parseProfileSnapshot,
+  type EducationSnapshot,
+  type ExperienceSnapshot,
+  type ExpertHistoryChange,
+  type ExpertProfileChange,
+  type ExpertProfileFieldValue,
+} from '@/lib/expert-profile-changes';
 
 // Status tabs for filtering
 const STATUS_TABS: Array<{ key: ExpertStatus | 'all'; labelKey: string }> = [
@@ -75,6 +86,8 @@ const STATUS_TABS: Array<{ key: ExpertStatus | 'all'; labelKey: string }> = [
  * - Approve button that updates status to 'approved'
  * - Reject button that opens dialog for rejection reason
  * - Document viewer dialog to view verification documents
+ * - Changes dialog comparing a resubmitted profile with its last reviewed version,
+ *   including work history and education entries added or removed
  * - Uses Table, Dialog from @/components/ui/
  * - Labels use translations from useTranslations('admin.experts')
  */
@@ -90,6 +103,7 @@ export default function ExpertsVerificationPage() {
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [verifyDialogOpen, setVerifyDialogOpen] = useState(false);
   const [documentsDialogOpen, setDocumentsDialogOpen] = useState(false);
+  const [changesDialogOpen, setChangesDialogOpen] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
   const [documentUrls, setDocumentUrls] = useState<string[]>([]);
   const [loadingDocuments, setLoadingDocuments] = useState(false);
@@ -157,6 +171,49 @@ export default function ExpertsVerificationPage() {
       .slice(0, 2);
   };
 
+  // Get file name from path
+  const getFileName = (path: string) => {
+    return path.split('/').pop() || path;
+  };
+
+  // Material fields changed since the last approval or rejection
+  const getChanges = (expert: AdminExpertProfile): ExpertProfileChange[] => {
+    const snapshot = parseProfileSnapshot(expert.reviewed_snapshot);
+    return snapshot ? getMaterialChanges(snapshot, expert) : [];
+  };
+
+  // Work history and education entries added or removed since then
+  const getEntryChanges = (expert: AdminExpertProfile): ExpertHistoryChange[] => {
+    const snapshot = parseProfileSnapshot(expert.reviewed_snapshot);
+    return snapshot ? getHistoryChanges(snapshot, expert) : [];
+  };
+
+  // Format a work history or education entry for the changes dialog
+  const formatEntry = (entry: ExperienceSnapshot | EducationSnapshot) => {
+    const title =
+      'company' in entry
+        ? `${entry.position} · ${entry.company}`
+        : `${[entry.degree, entry.field].filter(Boolean).join(', ')} · ${entry.institution}`;
+    return `${title} (${entry.start_date} – ${entry.end_date ?? t('present')})`;
+  };
+
+  // Format a field value for the changes dialog
+  const formatFieldValue = (
+    field: ExpertProfileChange['field'],
+    value: ExpertProfileFieldValue | undefined
+  ) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) {
+      if (value.length === 0) return '—';
+      return field === 'portfolio_files' || field === 'verification_documents'
+        ? value.map(getFileName).join(', ')
+        : value.join(', ');
+    }
+    if (field === 'category') return tCategories(value as AdminExpertProfile['category']);
+    if (typeof value === 'number') return value.toLocaleString();
+    return value;
+  };
+
   // Handle verify/approve
   const handleVerify = async () => {
     if (!selectedExpert) return;
@@ -226,9 +283,10 @@ export default function ExpertsVerificationPage() {
     }
   };
 
-  // Get file name from path
-  const getFileName = (path: string) => {
-    return path.split('/').pop() || path;
+  // Open changes dialog
+  const openChangesDialog = (expert: AdminExpertProfile) => {
+    setSelectedExpert(expert);
+    setChangesDialogOpen(true);
   };
 
   // Get file extension for icon
@@ -355,134 +413,156 @@ export default function ExpertsVerificationPage() {
                 </TableCell>
               </TableRow>
             ) : (
-              filteredExperts?.map((expert) => (
-                <TableRow key={expert.id} className="border-white/5 hover:bg-white/[0.02]">
-                  {/* Expert Info */}
-                  <TableCell>
-                    <div className="flex items-center gap-3">
-                      <Avatar size="sm">
-                        <AvatarImage src={expert.profile?.avatar_url || undefined} />
-                        <AvatarFallback className="bg-violet-600/20 text-violet-400 text-xs">
-                          {getInitials(expert.profile?.full_name || null)}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="min-w-0">
-                        <p className="font-medium text-white truncate">
-                          {expert.profile?.full_name || 'Unnamed Expert'}
-                        </p>
-                        <p className="text-xs text-[#8B95A1] truncate">
-                          {expert.profile?.email}
-                        </p>
+              filteredExperts?.map((expert) => {
+                const hasChanges =
+                  getChanges(expert).length > 0 || getEntryChanges(expert).length > 0;
+
+                return (
+                  <TableRow key={expert.id} className="border-white/5 hover:bg-white/[0.02]">
+                    {/* Expert Info */}
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Avatar size="sm">
+                          <AvatarImage src={expert.profile?.avatar_url || undefined} />
+                          <AvatarFallback className="bg-violet-600/20 text-violet-400 text-xs">
+                            {getInitials(expert.profile?.full_name || null)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <p className="font-medium text-white truncate">
+                            {expert.profile?.full_name || 'Unnamed Expert'}
+                          </p>
+                          <p className="text-xs text-[#8B95A1] truncate">
+                            {expert.profile?.email}
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  </TableCell>
-
-                  {/* Business Name */}
-                  <TableCell className="hidden sm:table-cell">
-                    <div className="flex items-center gap-2 text-[#8B95A1]">
-                      <Building2 className="h-4 w-4 flex-shrink-0" />
-                      <span className="truncate">{expert.business_name}</span>
-                    </div>
-                  </TableCell>
-
-                  {/* Category */}
-                  <TableCell className="hidden md:table-cell">
-                    <Badge variant="outline" size="sm">
-                      {tCategories(expert.category)}
-                    </Badge>
-                  </TableCell>
+                    </TableCell>
 
-                  {/* Status */}
-                  <TableCell>
-                    <Badge variant={getStatusBadgeVariant(expert.status)} size="sm">
-                      {getStatusLabel(expert.status)}
-                    </Badge>
-                  </TableCell>
-
-                  {/* Submitted Date */}
-                  <TableCell className="hidden lg:table-cell">
-                    <span className="text-[#8B95A1] text-sm">
-                      {expert.submitted_at
-                        ? format(new Date(expert.submitted_at), 'MMM d, yyyy')
-                        : '-'}
-                    </span>
-                  </TableCell>
+                    {/* Business Name */}
+                    <TableCell className="hidden sm:table-cell">
+                      <div className="flex items-center gap-2 text-[#8B95A1]">
+                        <Building2 className="h-4 w-4 flex-shrink-0" />
+                        <span className="truncate">{expert.business_name}</span>
+                      </div>
+                    </TableCell>
+
+                    {/* Category */}
+                    <TableCell className="hidden md:table-cell">
+                      <Badge variant="outline" size="sm">
+                        {tCategories(expert.category)}
+                      </Badge>
+                    </TableCell>
+
+                    {/* Status */}
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <Badge variant={getStatusBadgeVariant(expert.status)} size="sm">
+                          {getStatusLabel(expert.status)}
+                        </Badge>
+                        {expert.status === 'pending_review' && hasChanges && (
+                          <Badge variant="info" size="sm">
+                            {t('changed')}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
 
-                  {/* Actions */}
-                  <TableCell className="text-right">
-                    <div className="flex items-center justify-end gap-2">
-                      {/* Quick actions for pending_review experts */}
-                      {expert.status === 'pending_review' && (
-                        <>
-                          <Button
-                            variant="ghost"
-                            size="icon-sm"
-                            onClick={() => openVerifyDialog(expert)}
-                            className="text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/10"
-                            title={t('verify')}
-                          >
-                            <Check className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon-sm"
-                            onClick={() => openRejectDialog(expert)}
-                            className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
-                            title={t('reject')}
-                          >
-                            <X className="h-4 w-4" />
-                          </Button>
-                        </>
-                      )}
+                    {/* Submitted Date */}
+                    <TableCell className="hidden lg:table-cell">
+                      <span className="text-[#8B95A1] text-sm">
+                        {expert.submitted_at
+                          ? format(new Date(expert.submitted_at), 'MMM d, yyyy')
+                          : '-'}
+                      </span>
+                    </TableCell>
 
-                      {/* Dropdown for more actions */}
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="icon-sm" className="text-[#8B95A1]">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end" className="w-48">
-                          <DropdownMenuItem className="gap-2">
-                            <Eye className="h-4 w-4" />
-                            {t('viewProfile')}
-                          </DropdownMenuItem>
-
-                          {expert.verification_documents.length > 0 && (
-                            <DropdownMenuItem
-                              className="gap-2"
-                              onClick={() => openDocumentsDialog(expert)}
+                    {/* Actions */}
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {/* Quick actions for pending_review experts */}
+                        {expert.status === 'pending_review' && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon-sm"
+                              onClick={() => openVerifyDialog(expert)}
+                              className="text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/10"
+                              title={t('verify')}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon-sm"
+                              onClick={() => openRejectDialog(expert)}
+                              className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                              title={t('reject')}
                             >
-                              <FileText className="h-4 w-4" />
-                              {t('viewDocuments')}
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+
+                        {/* Dropdown for more actions */}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon-sm" className="text-[#8B95A1]">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-48">
+                            <DropdownMenuItem className="gap-2">
+                              <Eye className="h-4 w-4" />
+                              {t('viewProfile')}
                             </DropdownMenuItem>
-                          )}
 
-                          {expert.status === 'pending_review' && (
-                            <>
-                              <DropdownMenuSeparator />
+                            {hasChanges && (
                               <DropdownMenuItem
-                                className="gap-2 text-emerald-400 focus:text-emerald-400"
-                                onClick={() => openVerifyDialog(expert)}
+                                className="gap-2"
+                                onClick={() => openChangesDialog(expert)}
                               >
-                                <Check className="h-4 w-4" />
-                                {t('verify')}
+                                <GitCompare className="h-4 w-4" />
+                                {t('viewChanges')}
                               </DropdownMenuItem>
+                            )}
+
+                            {expert.verification_documents.length > 0 && (
                               <DropdownMenuItem
-                                className="gap-2 text-red-400 focus:text-red-400"
-                                onClick={() => openRejectDialog(expert)}
+                                className="gap-2"
+                                onClick={() => openDocumentsDialog(expert)}
                               >
-                                <X className="h-4 w-4" />
-                                {t('reject')}
+                                <FileText className="h-4 w-4" />
+                                {t('viewDocuments')}
                               </DropdownMenuItem>
-                            </>
-                          )}
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))
+                            )}
+
+                            {expert.status === 'pending_review' && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  className="gap-2 text-emerald-400 focus:text-emerald-400"
+                                  onClick={() => openVerifyDialog(expert)}
+                                >
+                                  <Check className="h-4 w-4" />
+                                  {t('verify')}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  className="gap-2 text-red-400 focus:text-red-400"
+                                  onClick={() => openRejectDialog(expert)}
+                                >
+                                  <X className="h-4 w-4" />
+                                  {t('reject')}
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
             )}
           </TableBody>
         </Table>
@@ -568,6 +648,125 @@ export default function ExpertsVerificationPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Changes Dialog */}
+      <Dialog open={changesDialogOpen} onOpenChange={setChangesDialogOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{t('viewChanges')}</DialogTitle>
+            <DialogDescription>
+              {selectedExpert?.profile?.full_name} - {selectedExpert?.business_name}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-y-auto py-4 space-y-4">
+            {selectedExpert?.rejection_reason && (
+              <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+                <p className="text-sm font-medium text-red-400">{t('previousRejection')}</p>
+                <p className="mt-1 text-sm text-white whitespace-pre-wrap">
+                  {selectedExpert.rejection_reason}
+                </p>
+              </div>
+            )}
+
+            {selectedExpert &&
+              getChanges(selectedExpert).map((change) => (
+                <div
+                  key={change.field}
+                  className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-2"
+                >
+                  <p className="text-sm font-semibold text-white">
+                    {t(`fields.${change.field}`)}
+                  </p>
+                  <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                    <div>
+                      <p className="text-xs text-[#8B95A1]">{t('before')}</p>
+                      <p className="text-sm text-[#8B95A1] line-through whitespace-pre-wrap break-words">
+                        {formatFieldValue(change.field, change.before)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-[#8B95A1]">{t('after')}</p>
+                      <p className="text-sm text-white whitespace-pre-wrap break-words">
+                        {formatFieldValue(change.field, change.after)}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+            {selectedExpert &&
+              getEntryChanges(selectedExpert).map((change) => (
+                <div
+                  key={change.field}
+                  className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-2"
+                >
+                  <p className="text-sm font-semibold text-white">
+                    {t(`fields.${change.field}`)}
+                  </p>
+                  <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                    <div>
+                      <p className="text-xs text-[#8B95A1]">{t('removed')}</p>
+                      {change.removed.length > 0 ? (
+                        change.removed.map((entry, index) => (
+                          <p
+                            key={index}
+                            className="text-sm text-[#8B95A1] line-through break-words"
+                          >
+                            {formatEntry(entry)}
+                          </p>
+                        ))
+                      ) : (
+                        <p className="text-sm text-[#8B95A1]">—</p>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-xs text-[#8B95A1]">{t('added')}</p>
+                      {change.added.length > 0 ? (
+                        change.added.map((entry, index) => (
+                          <p key={index} className="text-sm text-white break-words">
+                            {formatEntry(entry)}
+                          </p>
+                        ))
+                      ) : (
+                        <p className="text-sm text-[#8B95A1]">—</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChangesDialogOpen(false)}>
+              {tCommon('close')}
+            </Button>
+            {selectedExpert?.status === 'pending_review' && (
+              <>
+                <Button
+                  variant="destructive"
+                  onClick={() => {
+                    setChangesDialogOpen(false);
+                    openRejectDialog(selectedExpert);
+                  }}
+                >
+                  {t('reject')}
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => {
+                    setChangesDialogOpen(false);
+                    openVerifyDialog(selectedExpert);
+                  }}
+                  className="bg-emerald-600 hover:bg-emerald-700"
+                >
+                  {t('verify')}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Documents Viewer Dialog */}
       <Dialog open={documentsDialogOpen} onOpenChange={setDocumentsDialogOpen}>
         <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
@@ -8,6 +8,7 @@ import {
   Users,
   UserCheck,
   FileText,
+  Flag,
   ChevronLeft,
   ChevronRight,
   Shield,
@@ -54,6 +55,7 @@ const navItems: NavItem[] = [
   { key: 'members', href: '/admin/members', icon: Users },
   { key: 'experts', href: '/admin/experts', icon: UserCheck },
   { key: 'content', href: '/admin/content', icon: FileText },
+  { key: 'reports', href: '/admin/reports', icon: Flag },
 ];
 
 export default function AdminLayout({ children }: AdminLayoutProps) {
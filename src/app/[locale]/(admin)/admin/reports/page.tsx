@@ -0,0 +1,308 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  AlertCircle,
+  Check,
+  X,
+  EyeOff,
+  ExternalLink,
+  Flag,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+import {
+  useReportQueue,
+  useModerateReport,
+  type ReportQueueItem,
+  type ReportQueueStatus,
+  type ModerationAction,
+} from '@/features/admin/api';
+import { Link } from '@/i18n/navigation';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/cn';
+
+// Status tabs for filtering
+const STATUS_TABS: ReportQueueStatus[] = ['pending', 'resolved', 'dismissed'];
+
+/**
+ * Report Moderation Page
+ *
+ * Admin queue of reported content with:
+ * - Reports grouped by target (post, comment, event, expert profile)
+ * - Report count, reason categories and reporter details per target
+ * - Resolve / dismiss actions that close every pending report on the target
+ * - Hide action that records a reason and notifies the author
+ * - Labels use translations from useTranslations('admin.reports')
+ */
+export default function ReportsModerationPage() {
+  const t = useTranslations('admin.reports');
+  const tCommon = useTranslations('common');
+  const tReasons = useTranslations('reports.reasons');
+
+  // State
+  const [activeTab, setActiveTab] = useState<ReportQueueStatus>('pending');
+  const [hideTarget, setHideTarget] = useState<ReportQueueItem | null>(null);
+  const [hideReason, setHideReason] = useState('');
+
+  // API hooks
+  const { data: queue, isLoading, error, refetch } = useReportQueue(activeTab);
+  const moderateMutation = useModerateReport();
+
+  const getTargetKey = (item: ReportQueueItem) => `${item.target_type}:${item.target_id}`;
+
+  const isModerating = (item: ReportQueueItem) =>
+    moderateMutation.isPending &&
+    moderateMutation.variables?.targetType === item.target_type &&
+    moderateMutation.variables?.targetId === item.target_id;
+
+  // Run a moderation action on every pending report for the target
+  const handleModerate = async (
+    item: ReportQueueItem,
+    action: ModerationAction,
+    note?: string
+  ) => {
+    try {
+      await moderateMutation.mutateAsync({
+        targetType: item.target_type,
+        targetId: item.target_id,
+        action,
+        note,
+      });
+      toast.success(t(`${action}Success`));
+      return true;
+    } catch {
+      toast.error(tCommon('error'));
+      return false;
+    }
+  };
+
+  // Handle hide with reason
+  const handleHide = async () => {
+    if (!hideTarget || !hideReason.trim()) return;
+
+    const succeeded = await handleModerate(hideTarget, 'hide', hideReason);
+    if (succeeded) {
+      setHideTarget(null);
+      setHideReason('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-white">{t('title')}</h1>
+        <p className="mt-1 text-sm text-[#8B95A1]">{t('description')}</p>
+      </div>
+
+      {/* Status Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_TABS.map((status) => (
+          <Button
+            key={status}
+            variant={activeTab === status ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setActiveTab(status)}
+            className={cn(
+              'transition-all',
+              activeTab === status &&
+                'bg-violet-600/20 text-violet-400 border-violet-500/30 hover:bg-violet-600/30'
+            )}
+          >
+            {t(status)}
+          </Button>
+        ))}
+      </div>
+
+      {/* Report Queue */}
+      {isLoading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="space-y-3 rounded-2xl border border-white/10 bg-[#121212] p-5">
+              <Skeleton className="h-5 w-24" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-2/3" />
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="flex flex-col items-center gap-2 rounded-2xl border border-white/10 bg-[#121212] py-12 text-[#8B95A1]">
+          <AlertCircle className="h-8 w-8" />
+          <p>{tCommon('error')}</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            {tCommon('retry')}
+          </Button>
+        </div>
+      ) : !queue || queue.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 rounded-2xl border border-white/10 bg-[#121212] py-12 text-[#8B95A1]">
+          <Flag className="h-8 w-8" />
+          <p>{t('empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {queue.map((item) => (
+            <div
+              key={getTargetKey(item)}
+              className="rounded-2xl border border-white/10 bg-[#121212] p-5"
+            >
+              {/* Target summary */}
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" size="sm">
+                  {t(`targetTypes.${item.target_type}`)}
+                </Badge>
+                <Badge variant="error" size="sm">
+                  {t('reportCount', { count: item.report_count })}
+                </Badge>
+                {item.target_is_hidden && (
+                  <Badge variant="muted" size="sm">
+                    <EyeOff />
+                    {t('hidden')}
+                  </Badge>
+                )}
+                <span className="ml-auto text-xs text-[#8B95A1]">
+                  {format(new Date(item.last_reported_at), 'MMM d, yyyy HH:mm')}
+                </span>
+              </div>
+
+              <p className="mt-3 line-clamp-3 whitespace-pre-wrap text-sm text-white">
+                {item.target_preview || t('unavailable')}
+              </p>
+              <p className="mt-1 text-xs text-[#8B95A1]">
+                {t('reported')}: {item.target_author_name || '-'}
+              </p>
+
+              {/* Reasons and details */}
+              <div className="mt-4 space-y-2">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-xs font-medium text-[#8B95A1]">{t('reason')}:</span>
+                  {item.reasons.map((reason) => (
+                    <Badge key={reason} variant="warning" size="sm">
+                      {tReasons(reason)}
+                    </Badge>
+                  ))}
+                </div>
+                {item.details.length > 0 && (
+                  <ul className="space-y-1 border-l-2 border-white/10 pl-3">
+                    {item.details.map((detail, index) => (
+                      <li key={index} className="text-xs text-[#8B95A1]">
+                        {detail}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="mt-4 flex flex-wrap items-center justify-end gap-2 border-t border-white/5 pt-4">
+                {item.target_link && (
+                  <Button variant="ghost" size="sm" asChild className="mr-auto text-[#8B95A1]">
+                    <Link href={item.target_link} target="_blank">
+                      <ExternalLink className="h-4 w-4" />
+                      {t('viewContent')}
+                    </Link>
+                  </Button>
+                )}
+                {activeTab === 'pending' && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleModerate(item, 'dismiss')}
+                      disabled={isModerating(item)}
+                      className="text-[#8B95A1]"
+                    >
+                      <X className="h-4 w-4" />
+                      {t('dismiss')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleModerate(item, 'resolve')}
+                      disabled={isModerating(item)}
+                      className="text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/10"
+                    >
+                      <Check className="h-4 w-4" />
+                      {t('resolve')}
+                    </Button>
+                    {!item.target_is_hidden && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => setHideTarget(item)}
+                        disabled={isModerating(item)}
+                      >
+                        <EyeOff className="h-4 w-4" />
+                        {t('hide')}
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Hide Dialog with Reason */}
+      <Dialog
+        open={!!hideTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setHideTarget(null);
+            setHideReason('');
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t('hideConfirm')}</DialogTitle>
+            <DialogDescription>{t('hideDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Textarea
+              label={t('hideReason')}
+              placeholder={t('hideReasonPlaceholder')}
+              value={hideReason}
+              onChange={(e) => setHideReason(e.target.value)}
+              className="min-h-[100px]"
+            />
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setHideTarget(null);
+                setHideReason('');
+              }}
+              disabled={moderateMutation.isPending}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleHide}
+              loading={moderateMutation.isPending}
+              disabled={!hideReason.trim()}
+            >
+              {t('hide')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@
  */
 
 import * as React from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { Search, X, SlidersHorizontal, Plus, Calendar, Tag, Megaphone, ClipboardList, MoreHorizontal } from 'lucide-react';
 import { useDebouncedCallback } from 'use-debounce';
@@ -55,7 +56,7 @@ import {
   CreateEventModal,
   EventDetailModal,
 } from '@/features/events/components';
-import { useUserEvents, useDeleteEventMutation } from '@/features/events/api/queries';
+import { useUserEvents, useUserEvent, useDeleteEventMutation } from '@/features/events/api/queries';
 import type { EventType, UserEventWithAuthor } from '@/features/events/types';
 
 // Supabase
@@ -218,6 +219,19 @@ export default function EventsPage() {
   const [isDetailModalOpen, setIsDetailModalOpen] = React.useState(false);
   const [deleteEvent, setDeleteEvent] = React.useState<UserEventWithAuthor | null>(null);
 
+  // Event linked from global search (?event=<id>)
+  const searchParams = useSearchParams();
+  const linkedEventId = Number(searchParams.get('event')) || null;
+  const [openedLinkedEventId, setOpenedLinkedEventId] = React.useState<number | null>(null);
+  const { data: linkedEvent } = useUserEvent(linkedEventId ?? 0);
+
+  // Open the linked event once it has loaded (adjusting state during render)
+  if (linkedEvent && linkedEvent.id === linkedEventId && linkedEventId !== openedLinkedEventId) {
+    setOpenedLinkedEventId(linkedEventId);
+    setSelectedEvent(linkedEvent);
+    setIsDetailModalOpen(true);
+  }
+
   // Delete mutation
   const deleteMutation = useDeleteEventMutation();
 
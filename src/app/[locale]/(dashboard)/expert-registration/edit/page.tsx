@@ -0,0 +1,592 @@
+'use client';
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  FileText,
+  Upload,
+  X,
+} from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from '@/components/ui/card';
+import { Link } from '@/i18n/navigation';
+import { supabase } from '@/lib/supabase/client';
+import {
+  getMaterialChanges,
+  type ExpertProfileSnapshot,
+} from '@/lib/expert-profile-changes';
+import {
+  useMyExpertProfile,
+  useUpdateExpertProfile,
+  type ExpertCategory,
+  type ExpertProfile,
+} from '@/features/experts/api';
+import { ExperienceEditor } from '@/features/experts/components';
+
+/**
+ * Edit Expert Profile Page
+ *
+ * Loads the current user's expert profile for editing:
+ * - Availability toggle, saved immediately
+ * - Profile, business and portfolio fields; material edits to an approved
+ *   profile send it back to review and are shown to admins as a diff
+ * - Rejected profiles show the rejection reason and are resubmitted on save
+ * - Work history and education, saved per entry; changes other than the
+ *   order send an approved profile back to review
+ */
+
+// Maximum file size: 10MB
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Allowed file types
+const ALLOWED_FILE_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+];
+
+// Korean business registration number format: 000-00-00000
+const BUSINESS_NUMBER_REGEX = /^\d{3}-\d{2}-\d{5}$/;
+
+const CATEGORIES: ExpertCategory[] = [
+  'marketing',
+  'development',
+  'design',
+  'legal',
+  'finance',
+  'hr',
+  'operations',
+  'strategy',
+  'other',
+];
+
+type UploadKind = 'certificate' | 'portfolio';
+
+interface EditFormValues {
+  category: ExpertCategory;
+  expertiseAreas: string;
+  experienceYears: number;
+  hourlyRate: string;
+  serviceDescription: string;
+  bio: string;
+  collaborationNeeds: string;
+  businessName: string;
+  businessRegistrationNumber: string;
+  portfolioUrl: string;
+}
+
+function toFormValues(profile: ExpertProfile): EditFormValues {
+  return {
+    category: profile.category,
+    expertiseAreas: profile.specialty.join(', '),
+    experienceYears: profile.experience_years ?? 0,
+    hourlyRate: profile.hourly_rate?.toString() ?? '',
+    serviceDescription: profile.service_description ?? '',
+    bio: profile.bio ?? '',
+    collaborationNeeds: profile.collaboration_needs ?? '',
+    businessName: profile.business_name,
+    businessRegistrationNumber: profile.business_registration_number ?? '',
+    portfolioUrl: profile.portfolio_url ?? '',
+  };
+}
+
+/**
+ * Material fields as they would be saved
+ */
+function toSnapshot(
+  profile: ExpertProfile,
+  values: EditFormValues,
+  files: Record<UploadKind, string[]>
+): ExpertProfileSnapshot {
+  return {
+    business_name: values.businessName.trim(),
+    business_registration_number: values.businessRegistrationNumber.trim() || null,
+    category: values.category,
+    subcategories: profile.subcategories,
+    specialty: values.expertiseAreas
+      .split(',')
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0),
+    service_description: values.serviceDescription.trim() || null,
+    bio: values.bio.trim() || null,
+    collaboration_needs: values.collaborationNeeds.trim() || null,
+    experience_years: Number.isFinite(values.experienceYears) ? values.experienceYears : null,
+    hourly_rate: values.hourlyRate ? Number(values.hourlyRate) : null,
+    price_range_min: profile.price_range_min,
+    price_range_max: profile.price_range_max,
+    portfolio_url: values.portfolioUrl.trim() || null,
+    portfolio_files: files.portfolio,
+    verification_documents: files.certificate,
+  };
+}
+
+function getFileName(path: string) {
+  return path.split('/').pop() || path;
+}
+
+export default function EditExpertProfilePage() {
+  const t = useTranslations('experts.edit');
+
+  const { data: profile, isLoading, error } = useMyExpertProfile();
+
+  return (
+    <div className="min-h-screen py-8 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold text-white">{t('title')}</h1>
+          <p className="text-muted">{t('subtitle')}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-20 w-full" rounded="2xl" />
+            <Skeleton className="h-96 w-full" rounded="2xl" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{t('loadFailed')}</AlertDescription>
+          </Alert>
+        ) : !profile ? (
+          <Card variant="elevated" padding="lg">
+            <CardContent className="space-y-4 py-6 text-center">
+              <p className="text-muted">{t('notRegistered')}</p>
+              <Button variant="primary" asChild>
+                <Link href="/expert-registration">{t('register')}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <EditExpertProfileForm profile={profile} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function EditExpertProfileForm({ profile }: { profile: ExpertProfile }) {
+  const t = useTranslations('experts.edit');
+  const tRegistration = useTranslations('experts.registration');
+  const tCategories = useTranslations('experts.categories');
+  const tValidation = useTranslations('validation');
+  const tCommon = useTranslations('common');
+
+  const updateProfile = useUpdateExpertProfile();
+  const updateAvailability = useUpdateExpertProfile();
+
+  const [files, setFiles] = React.useState<Record<UploadKind, string[]>>({
+    certificate: profile.verification_documents,
+    portfolio: profile.portfolio_files,
+  });
+  const [uploading, setUploading] = React.useState<UploadKind | null>(null);
+
+  const formSchema = React.useMemo(
+    () =>
+      z.object({
+        category: z.enum(CATEGORIES as [ExpertCategory, ...ExpertCategory[]]),
+        expertiseAreas: z.string().min(1, tValidation('required')),
+        experienceYears: z
+          .number({ message: tValidation('required') })
+          .min(0, tValidation('min', { min: 0 }))
+          .max(50, tValidation('max', { max: 50 })),
+        hourlyRate: z.string().regex(/^\d*$/, t('wholeNumber')),
+        serviceDescription: z
+          .string()
+          .max(2000, tValidation('maxLength', { max: 2000 })),
+        bio: z
+          .string()
+          .min(1, tValidation('required'))
+          .min(50, tValidation('minLength', { min: 50 })),
+        collaborationNeeds: z
+          .string()
+          .min(1, tValidation('required'))
+          .min(20, tValidation('minLength', { min: 20 })),
+        businessName: z
+          .string()
+          .min(1, tValidation('required'))
+          .min(2, tValidation('minLength', { min: 2 })),
+        businessRegistrationNumber: z
+          .string()
+          .min(1, tValidation('required'))
+          .regex(BUSINESS_NUMBER_REGEX, tValidation('businessNumber')),
+        portfolioUrl: z.union([z.literal(''), z.string().url(tValidation('url'))]),
+      }),
+    [t, tValidation]
+  );
+
+  const form = useForm<EditFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(profile),
+    mode: 'onChange',
+  });
+
+  const values = form.watch();
+  const reviewedSnapshot = React.useMemo(
+    () => toSnapshot(profile, toFormValues(profile), {
+      certificate: profile.verification_documents,
+      portfolio: profile.portfolio_files,
+    }),
+    [profile]
+  );
+  const materialChanges = getMaterialChanges(reviewedSnapshot, toSnapshot(profile, values, files));
+
+  const resubmit = profile.status === 'rejected' || profile.status === 'draft';
+  const sendsToReview = profile.status === 'approved' && materialChanges.length > 0;
+
+  const handleAvailabilityChange = (checked: boolean) => {
+    updateAvailability.mutate(
+      { id: profile.id, is_available: checked },
+      {
+        onSuccess: () =>
+          toast.success(checked ? t('availableOn') : t('availableOff')),
+        onError: () => toast.error(t('saveFailed')),
+      }
+    );
+  };
+
+  const handleFileUpload = async (fileList: FileList | null, kind: UploadKind) => {
+    if (!fileList || fileList.length === 0) return;
+
+    setUploading(kind);
+
+    try {
+      const uploaded: string[] = [];
+
+      for (const file of Array.from(fileList)) {
+        if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+          toast.error(tRegistration('fileTypeError'));
+          continue;
+        }
+
+        if (file.size > MAX_FILE_SIZE) {
+          toast.error(tRegistration('fileSizeError'));
+          continue;
+        }
+
+        const fileExt = file.name.split('.').pop();
+        const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+        const filePath = `${profile.user_id}/${kind}/${fileName}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from('expert-documents')
+          .upload(filePath, file);
+
+        if (uploadError) {
+          console.error('Upload error:', uploadError);
+          toast.error(uploadError.message);
+          continue;
+        }
+
+        uploaded.push(filePath);
+      }
+
+      setFiles((prev) => ({ ...prev, [kind]: [...prev[kind], ...uploaded] }));
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  // Files stay in storage: the reviewed version may still point to them
+  const handleRemoveFile = (path: string, kind: UploadKind) => {
+    setFiles((prev) => ({ ...prev, [kind]: prev[kind].filter((p) => p !== path) }));
+  };
+
+  const onSubmit = (data: EditFormValues) => {
+    updateProfile.mutate(
+      { id: profile.id, ...toSnapshot(profile, data, files), resubmit },
+      {
+        onSuccess: (saved) => {
+          toast.success(
+            saved.status === 'pending_review' && profile.status !== 'pending_review'
+              ? t('submittedForReview')
+              : t('saved')
+          );
+          form.reset(toFormValues(saved));
+        },
+        onError: () => toast.error(t('saveFailed')),
+      }
+    );
+  };
+
+  const renderUploads = (kind: UploadKind, label: string, description: string) => (
+    <div className="space-y-3">
+      <label className="text-sm font-semibold text-white">{label}</label>
+      <p className="text-sm text-muted">{description}</p>
+      <div className="border-2 border-dashed border-white/10 rounded-2xl p-6 text-center hover:border-primary/50 transition-colors">
+        <input
+          type="file"
+          accept=".pdf,.jpg,.jpeg,.png,.webp"
+          multiple
+          className="hidden"
+          id={`${kind}-upload`}
+          onChange={(e) => handleFileUpload(e.target.files, kind)}
+          disabled={uploading !== null}
+        />
+        <label
+          htmlFor={`${kind}-upload`}
+          className="cursor-pointer flex flex-col items-center gap-2"
+        >
+          <Upload className="h-8 w-8 text-muted" />
+          <span className="text-sm text-muted">
+            {uploading === kind ? tCommon('loading') : tRegistration('uploadFile')}
+          </span>
+        </label>
+      </div>
+      {files[kind].length > 0 && (
+        <div className="space-y-2">
+          {files[kind].map((path) => (
+            <div
+              key={path}
+              className="flex items-center justify-between p-3 bg-card rounded-xl"
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <FileText className="h-4 w-4 text-primary" />
+                <span className="text-white truncate max-w-[240px]">{getFileName(path)}</span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                aria-label={tRegistration('removeFile')}
+                onClick={() => handleRemoveFile(path, kind)}
+              >
+                <X className="h-4 w-4 text-error" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {/* Review status */}
+      {profile.status === 'approved' && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>{tRegistration('approved')}</AlertTitle>
+          <AlertDescription>{t('approvedDescription')}</AlertDescription>
+        </Alert>
+      )}
+      {profile.status === 'pending_review' && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertTitle>{tRegistration('pending')}</AlertTitle>
+          <AlertDescription>{t('pendingDescription')}</AlertDescription>
+        </Alert>
+      )}
+      {profile.status === 'rejected' && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>{tRegistration('rejected')}</AlertTitle>
+          <AlertDescription>
+            {profile.rejection_reason && (
+              <span className="block">
+                {t('rejectionReason', { reason: profile.rejection_reason })}
+              </span>
+            )}
+            <span className="block">{t('rejectedDescription')}</span>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Availability: saved immediately */}
+      <Card variant="elevated" padding="lg">
+        <CardContent className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-white">{t('availability')}</p>
+            <p className="text-sm text-muted">{t('availabilityDescription')}</p>
+          </div>
+          <Switch
+            checked={profile.is_available}
+            onCheckedChange={handleAvailabilityChange}
+            disabled={updateAvailability.isPending}
+            aria-label={t('availability')}
+          />
+        </CardContent>
+      </Card>
+
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {/* Expertise */}
+        <Card variant="elevated" padding="lg">
+          <CardHeader className="p-0 pb-6">
+            <CardTitle>{tRegistration('steps.basicInfo')}</CardTitle>
+            <CardDescription>{t('materialHint')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 p-0">
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-white">
+                {tRegistration('category')} <span className="text-error">*</span>
+              </label>
+              <Select
+                value={values.category}
+                onValueChange={(value) =>
+                  form.setValue('category', value as ExpertCategory, { shouldDirty: true })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={tRegistration('categoryPlaceholder')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {tCategories(category)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Input
+              label={`${tRegistration('expertiseAreas')} *`}
+              placeholder={tRegistration('expertiseAreasPlaceholder')}
+              helperText={tRegistration('expertiseAreasHelp')}
+              error={form.formState.errors.expertiseAreas?.message}
+              {...form.register('expertiseAreas')}
+            />
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <Input
+                label={`${tRegistration('experienceYears')} *`}
+                type="number"
+                min={0}
+                max={50}
+                error={form.formState.errors.experienceYears?.message}
+                {...form.register('experienceYears', { valueAsNumber: true })}
+              />
+              <Input
+                label={`${tRegistration('hourlyRate')} (${tCommon('optional')})`}
+                inputMode="numeric"
+                placeholder={tRegistration('hourlyRatePlaceholder')}
+                error={form.formState.errors.hourlyRate?.message}
+                {...form.register('hourlyRate')}
+              />
+            </div>
+
+            <Textarea
+              label={`${t('serviceDescription')} (${tCommon('optional')})`}
+              placeholder={t('serviceDescriptionPlaceholder')}
+              error={form.formState.errors.serviceDescription?.message}
+              className="min-h-[120px]"
+              {...form.register('serviceDescription')}
+            />
+
+            <Textarea
+              label={`${tRegistration('bio')} *`}
+              placeholder={tRegistration('bioPlaceholder')}
+              error={form.formState.errors.bio?.message}
+              className="min-h-[150px]"
+              {...form.register('bio')}
+            />
+
+            <Textarea
+              label={`${tRegistration('collaborationNeeds')} *`}
+              placeholder={tRegistration('collaborationNeedsPlaceholder')}
+              error={form.formState.errors.collaborationNeeds?.message}
+              {...form.register('collaborationNeeds')}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Business */}
+        <Card variant="elevated" padding="lg">
+          <CardHeader className="p-0 pb-6">
+            <CardTitle>{tRegistration('steps.businessInfo')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 p-0">
+            <Input
+              label={`${tRegistration('businessName')} *`}
+              placeholder={tRegistration('businessNamePlaceholder')}
+              error={form.formState.errors.businessName?.message}
+              {...form.register('businessName')}
+            />
+            <Input
+              label={`${tRegistration('businessNumber')} *`}
+              placeholder={tRegistration('businessNumberPlaceholder')}
+              helperText={tRegistration('businessNumberHelp')}
+              error={form.formState.errors.businessRegistrationNumber?.message}
+              {...form.register('businessRegistrationNumber')}
+            />
+            {renderUploads(
+              'certificate',
+              tRegistration('businessCertificate'),
+              tRegistration('businessCertificateDescription')
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Portfolio */}
+        <Card variant="elevated" padding="lg">
+          <CardHeader className="p-0 pb-6">
+            <CardTitle>{tRegistration('steps.portfolioInfo')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6 p-0">
+            <Input
+              label={tRegistration('portfolio')}
+              placeholder={tRegistration('portfolioPlaceholder')}
+              error={form.formState.errors.portfolioUrl?.message}
+              {...form.register('portfolioUrl')}
+            />
+            {renderUploads(
+              'portfolio',
+              tRegistration('portfolioFiles'),
+              tRegistration('portfolioFilesDescription')
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Re-review notice */}
+        {sendsToReview && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{t('reviewNoticeTitle')}</AlertTitle>
+            <AlertDescription>{t('reviewNotice')}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          type="submit"
+          variant="primary-glow"
+          size="lg"
+          className="w-full"
+          loading={updateProfile.isPending}
+          disabled={uploading !== null || (!resubmit && materialChanges.length === 0)}
+        >
+          {resubmit ? t('resubmit') : sendsToReview ? t('saveAndSubmit') : t('save')}
+        </Button>
+      </form>
+
+      {/* Work history and education: saved per entry */}
+      <ExperienceEditor expertProfileId={profile.id} />
+    </>
+  );
+}
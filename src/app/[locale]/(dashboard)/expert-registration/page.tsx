@@ -39,6 +39,8 @@ import {
 } from '@/components/ui/card';
 import { cn } from '@/lib/cn';
 import { supabase } from '@/lib/supabase/client';
+import { useRouter } from '@/i18n/navigation';
+import { useMyExpertProfile } from '@/features/experts/api';
 import type { Database } from '@/types/database';
 
 /**
@@ -49,6 +51,8 @@ import type { Database } from '@/types/database';
  * - Step 2: Business Info (name, registration number)
  * - Step 3: Portfolio & Documents (URLs, file uploads)
  * - Step 4: Review & Submit
+ *
+ * Users who already have an expert profile are sent to the edit page.
  */
 
 type ExpertCategory = Database['public']['Enums']['expert_category'];
@@ -82,6 +86,9 @@ export default function ExpertRegistrationPage() {
   const tCategories = useTranslations('experts.categories');
   const tValidation = useTranslations('validation');
   const tCommon = useTranslations('common');
+  const router = useRouter();
+
+  const { data: existingProfile } = useMyExpertProfile();
 
   // Multi-step state
   const [currentStep, setCurrentStep] = React.useState<RegistrationStep>('basic');
@@ -90,6 +97,13 @@ export default function ExpertRegistrationPage() {
   const [error, setError] = React.useState<string | null>(null);
   const [success, setSuccess] = React.useState(false);
 
+  // Registered experts edit their profile instead of registering again
+  React.useEffect(() => {
+    if (existingProfile && !success) {
+      router.replace('/expert-registration/edit');
+    }
+  }, [existingProfile, success, router]);
+
   // File uploads state
   const [businessCertificates, setBusinessCertificates] = React.useState<UploadedFile[]>([]);
   const [portfolioFiles, setPortfolioFiles] = React.useState<UploadedFile[]>([]);
@@ -13,6 +13,8 @@
  * - CollaborationNeedsSection (what they're looking for)
  * - ExperienceSection (work history, education)
  * - PortfolioSection (links, files)
+ * - ReviewsSection (ratings, reviews, expert replies)
+ * - AvailabilitySection (coffee chat availability, own profile only)
  * - Sticky CTA bar at bottom on mobile
  * - Fixed sidebar CTA on desktop
  * - CollaborationModal and CoffeeChatModal
@@ -28,7 +30,7 @@ import * as React from 'react';
 import { useParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Coffee, Handshake, Share2, UserX } from 'lucide-react';
+import { ArrowLeft, Coffee, Handshake, Pencil, Share2, UserX } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
 import { Link, useRouter } from '@/i18n/navigation';
@@ -51,13 +53,17 @@ import {
   ExpertiseSection,
   CollaborationNeedsSection,
   ExperienceSection,
+  toWorkExperienceItem,
+  toEducationItem,
   PortfolioSection,
+  ReviewsSection,
+  AvailabilitySection,
   CollaborationModal,
   CoffeeChatModal,
 } from '@/features/experts/components';
 
 // Expert API Hooks
-import { useExpert } from '@/features/experts/api/queries';
+import { useExpert, useExpertHistory } from '@/features/experts/api/queries';
 
 // ============================================================================
 // SKELETON COMPONENTS
@@ -317,10 +323,23 @@ function SidebarCTA({
 
           {/* Own Profile Notice */}
           {isOwnProfile ? (
-            <div className="p-3 rounded-2xl bg-white/5 border border-white/10">
-              <p className="text-sm text-muted text-center">
-                {t('ownProfile')}
-              </p>
+            <div className="space-y-3">
+              <div className="p-3 rounded-2xl bg-white/5 border border-white/10">
+                <p className="text-sm text-muted text-center">
+                  {t('ownProfile')}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="lg"
+                className="w-full"
+                asChild
+              >
+                <Link href="/expert-registration/edit">
+                  <Pencil className="h-5 w-5" />
+                  {t('editProfile')}
+                </Link>
+              </Button>
             </div>
           ) : (
             <>
@@ -404,6 +423,17 @@ export default function ExpertProfilePage() {
     isError,
   } = useExpert(expertId ?? '');
 
+  // Fetch work history and education
+  const { data: history, isLoading: isHistoryLoading } = useExpertHistory(expertId ?? '');
+  const workExperience = React.useMemo(
+    () => history?.experiences.map(toWorkExperienceItem) ?? [],
+    [history]
+  );
+  const education = React.useMemo(
+    () => history?.education.map(toEducationItem) ?? [],
+    [history]
+  );
+
   // Check if the logged-in user is viewing their own expert profile
   const isOwnProfile = React.useMemo(() => {
     if (!user || !expert) return false;
@@ -544,10 +574,24 @@ export default function ExpertProfilePage() {
             <CollaborationNeedsSection expert={expert} />
 
             {/* Experience Section */}
-            <ExperienceSection expert={expert} />
+            <ExperienceSection
+              workExperience={workExperience}
+              education={education}
+              isLoading={isHistoryLoading}
+            />
 
             {/* Portfolio Section */}
             <PortfolioSection expert={expert} />
+
+            {/* Reviews Section */}
+            <ReviewsSection
+              expert={expert}
+              currentUserId={user?.id}
+              isOwnProfile={isOwnProfile}
+            />
+
+            {/* Availability Section (own profile) */}
+            {isOwnProfile && <AvailabilitySection expert={expert} />}
           </div>
 
           {/* Right Column - Sidebar CTA (Desktop Only) */}
@@ -7,6 +7,8 @@
  * - Page header with title and subtitle
  * - Search input at top
  * - Filter panel (sidebar on desktop, sheet on mobile)
+ * - Sort by newest or rating
+ * - Minimum years of experience filter
  * - Expert grid with results
  * - Loading state with skeletons
  * - Empty state when no experts found
@@ -17,7 +19,7 @@
 
 import * as React from 'react';
 import { useTranslations } from 'next-intl';
-import { Search, SlidersHorizontal, X, UserPlus, Clock } from 'lucide-react';
+import { Search, SlidersHorizontal, X, UserPlus, Clock, Pencil } from 'lucide-react';
 import { Link } from '@/i18n/navigation';
 import { useDebouncedCallback } from 'use-debounce';
 import { useAuth } from '@/hooks/use-auth';
@@ -26,6 +28,13 @@ import { supabase } from '@/lib/supabase/client';
 // UI Components
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Sheet,
   SheetContent,
@@ -43,6 +52,15 @@ import type { ExpertFilters } from '@/features/experts/types';
 // Skeleton component for loading state
 import { Skeleton } from '@/components/ui/skeleton';
 
+/**
+ * Sort options
+ */
+type SortOption = 'created_at' | 'rating';
+const SORT_OPTIONS: Array<{ value: SortOption; translationKey: string }> = [
+  { value: 'created_at', translationKey: 'sortNewest' },
+  { value: 'rating', translationKey: 'sortRating' },
+];
+
 /**
  * Expert Card Skeleton for loading state
  * Matches the vertical centered layout of ExpertCard
@@ -160,6 +178,7 @@ export default function ExpertSearchPage() {
   // Search and filter state
   const [searchQuery, setSearchQuery] = React.useState('');
   const [filters, setFilters] = React.useState<ExpertFilters>({});
+  const [sortBy, setSortBy] = React.useState<SortOption>('created_at');
 
   // Debounced search to avoid too many requests
   const debouncedSetKeyword = useDebouncedCallback((value: string) => {
@@ -203,12 +222,13 @@ export default function ExpertSearchPage() {
       filters.keyword ||
       filters.minPrice ||
       filters.maxPrice ||
+      filters.minYears ||
       filters.isAvailable !== undefined
     );
   }, [filters]);
 
-  // Fetch experts with current filters
-  const { data, isLoading, isError, refetch } = useExperts(filters);
+  // Fetch experts with current filters and sort order
+  const { data, isLoading, isError, refetch } = useExperts({ ...filters, sortBy });
 
   const experts = data?.experts ?? [];
   const totalCount = data?.totalCount ?? 0;
@@ -223,7 +243,15 @@ export default function ExpertSearchPage() {
           </h1>
           <p className="mt-1 text-muted">{t('subtitle')}</p>
         </div>
-        {userRole !== 'expert' && (
+        {expertStatus && !isPending ? (
+          <Link
+            href="/expert-registration/edit"
+            className="shrink-0 flex items-center gap-2 rounded-full bg-white/10 px-5 py-2.5 text-sm font-semibold text-white transition-all hover:bg-white/15 md:px-6 md:py-3 md:text-base"
+          >
+            <Pencil className="h-4 w-4 md:h-5 md:w-5" />
+            {expertStatus === 'rejected' ? t('registration.resubmit') : t('editProfile')}
+          </Link>
+        ) : userRole !== 'expert' && (
           isPending ? (
             <span
               className="shrink-0 flex items-center gap-2 rounded-full bg-[#8B95A1]/20 px-5 py-2.5 text-sm font-semibold text-[#8B95A1] cursor-not-allowed md:px-6 md:py-3 md:text-base"
@@ -348,12 +376,27 @@ export default function ExpertSearchPage() {
         <div className="min-w-0 flex-1">
           {/* Results Count Header */}
           {!isLoading && (
-            <div className="mb-6 flex items-center justify-between">
+            <div className="mb-6 flex items-center justify-between gap-4">
               <p className="text-base text-muted">
                 {totalCount === 1
                   ? t('resultsCountSingular', { count: totalCount })
                   : t('resultsCount', { count: totalCount })}
               </p>
+              <Select
+                value={sortBy}
+                onValueChange={(value) => setSortBy(value as SortOption)}
+              >
+                <SelectTrigger className="w-[160px]" aria-label={t('filters.sortBy')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {t(`filters.${option.translationKey}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           )}
 
@@ -7,13 +7,14 @@
  * - Hero section with animated floating orbs, gradient text, glowing search bar
  * - Stats bar with animated counters and dividers
  * - Auth-aware content:
- *   - Logged-in: Quick actions, support programs carousel, trending threads, experts CTA, bottom CTA
+ *   - Logged-in: Quick actions, notice summary, support programs carousel, trending threads,
+ *     experts CTA, bottom CTA
  *   - Non-logged-in: Value propositions, programs preview, testimonials, experts CTA, landing CTA
  * - All with premium animations and glow effects following the design system
  */
 
 import * as React from 'react';
-import { useTranslations } from 'next-intl';
+import { useTranslations, useFormatter, useNow } from 'next-intl';
 import { motion } from 'framer-motion';
 import {
   Users,
@@ -29,9 +30,12 @@ import {
   Shield,
   Heart,
   Quote,
+  Megaphone,
+  Pin,
 } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
+import { isPinActive } from '@/lib/pins';
 import { Link } from '@/i18n/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -45,7 +49,7 @@ import {
   SkeletonAvatar,
 } from '@/components/ui/skeleton';
 
-import { usePosts } from '@/features/community/api/queries';
+import { usePosts, useNotices } from '@/features/community/api/queries';
 import { useSupportPrograms } from '@/features/support-programs/api/queries';
 import { PostCard } from '@/features/community/components/post-card';
 import { ProgramCard } from '@/features/support-programs/components/program-card';
@@ -663,6 +667,67 @@ function SectionHeader({
   );
 }
 
+/**
+ * Notices Section Component
+ * Latest admin notices as a compact list linking to their threads
+ */
+function NoticesSection() {
+  const t = useTranslations('home');
+  const format = useFormatter();
+  const now = useNow({ updateInterval: 1000 * 60 });
+  const { data: notices = [], isLoading, error } = useNotices();
+
+  if (error || (!isLoading && notices.length === 0)) {
+    return null;
+  }
+
+  return (
+    <motion.section variants={itemVariants} className="mb-16">
+      <SectionHeader
+        title={t('notices')}
+        viewAllHref="/thread"
+        viewAllLabel={t('viewAll')}
+      />
+
+      <Card variant="elevated" padding="none">
+        <CardContent className="divide-y divide-white/5 p-0">
+          {isLoading
+            ? [1, 2, 3].map((i) => (
+                <div key={i} className="flex items-center gap-3 px-5 py-4">
+                  <Skeleton className="h-8 w-8" rounded="lg" />
+                  <Skeleton className="h-4 flex-1" rounded="md" />
+                  <Skeleton className="h-3 w-16" rounded="md" />
+                </div>
+              ))
+            : notices.map((notice) => (
+                <Link
+                  key={notice.id}
+                  href={`/thread/${notice.id}`}
+                  className="group flex items-center gap-3 px-5 py-4 transition-colors hover:bg-white/[0.03]"
+                >
+                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-info/10 text-info">
+                    <Megaphone className="h-4 w-4" />
+                  </div>
+                  <p className="min-w-0 flex-1 truncate text-base text-white group-hover:text-primary">
+                    {notice.content.split('\n')[0]}
+                  </p>
+                  {isPinActive(notice, now) && (
+                    <Pin className="h-3.5 w-3.5 shrink-0 text-primary" aria-label={t('pinnedNotice')} />
+                  )}
+                  <time dateTime={notice.created_at} className="shrink-0 text-sm text-muted">
+                    {format.dateTime(new Date(notice.created_at), {
+                      month: 'short',
+                      day: 'numeric',
+                    })}
+                  </time>
+                </Link>
+              ))}
+        </CardContent>
+      </Card>
+    </motion.section>
+  );
+}
+
 /**
  * Support Programs Section Component
  * Horizontal scrolling carousel with snap scrolling and gradient fade edges
@@ -791,13 +856,13 @@ function SupportProgramsSection() {
 
 /**
  * Trending Threads Section Component
- * Recent posts with numbered ranking badges and accent borders
+ * Top trending posts with numbered ranking badges and accent borders
  */
 function TrendingThreadsSection() {
   const t = useTranslations('home');
-  const { data, isLoading, error } = usePosts();
+  const { data, isLoading, error } = usePosts({ sort: 'trending' });
 
-  const recentPosts: PostWithAuthor[] =
+  const trendingPosts: PostWithAuthor[] =
     data?.pages.flatMap((page) => page.posts).slice(0, 3) ?? [];
 
   if (error) {
@@ -829,7 +894,7 @@ function TrendingThreadsSection() {
             </Card>
           ))}
         </div>
-      ) : recentPosts.length === 0 ? (
+      ) : trendingPosts.length === 0 ? (
         <Card variant="elevated" padding="lg">
           <CardContent className="py-12 text-center">
             <MessageCircle className="mx-auto mb-4 h-12 w-12 text-muted" />
@@ -838,7 +903,7 @@ function TrendingThreadsSection() {
         </Card>
       ) : (
         <div className="space-y-4">
-          {recentPosts.map((post, index) => (
+          {trendingPosts.map((post, index) => (
             <motion.div
               key={post.id}
               className="relative"
@@ -1397,6 +1462,9 @@ export default function HomePage() {
         {/* Quick Actions */}
         <QuickActionsSection />
 
+        {/* Notices */}
+        <NoticesSection />
+
         {/* Support Programs */}
         <SupportProgramsSection />
 
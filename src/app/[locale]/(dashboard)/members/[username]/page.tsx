@@ -0,0 +1,175 @@
+'use client';
+
+/**
+ * Member Profile Page
+ *
+ * Public profile of a community member, opened from @mentions.
+ *
+ * Features:
+ * - Dynamic route [username] for the member's @handle
+ * - Avatar, display name, username, company and bio
+ * - Follower/following counts and follow button
+ * - The member's posts, comments and likes (ActivityTab)
+ * - Link to My Page when viewing your own profile
+ * - Loading skeleton and not-found state
+ */
+
+import * as React from 'react';
+import { useParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { ArrowLeft, UserCheck, UserPlus, UserX } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Link, useRouter } from '@/i18n/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { useAuthModalStore } from '@/stores/auth-modal-store';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Skeleton, SkeletonAvatar } from '@/components/ui/skeleton';
+
+import { ActivityTab } from '@/features/profile/components';
+import { useMemberProfile, useFollowMutation } from '@/features/profile/api/queries';
+
+function getInitials(name: string | null): string {
+  if (!name) return '?';
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+function ProfileSkeleton() {
+  return (
+    <div className="flex flex-col items-center rounded-2xl border border-white/[0.08] bg-white/[0.02] p-6">
+      <SkeletonAvatar size="xl" />
+      <Skeleton className="mt-4 h-6 w-32" rounded="md" />
+      <Skeleton className="mt-2 h-4 w-20" rounded="md" />
+      <Skeleton className="mt-4 h-4 w-48" rounded="md" />
+    </div>
+  );
+}
+
+export default function MemberProfilePage() {
+  const t = useTranslations('members');
+  const tCommon = useTranslations('common');
+  const router = useRouter();
+  const params = useParams<{ username: string }>();
+  const username = params.username ? decodeURIComponent(params.username) : undefined;
+  const { user } = useAuth();
+  const openLogin = useAuthModalStore((s) => s.openLogin);
+
+  const { data: member, isLoading, isError } = useMemberProfile(username);
+  const followMutation = useFollowMutation();
+
+  const displayName = member?.nickname || member?.full_name || member?.username || '';
+  const isOwnProfile = !!member && member.id === user?.id;
+
+  const handleFollow = () => {
+    if (!user) {
+      openLogin();
+      return;
+    }
+    if (!member) return;
+
+    followMutation.mutate(
+      { member, isCurrentlyFollowing: member.is_following },
+      {
+        onError: () => toast.error(t('followFailed')),
+      }
+    );
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2 text-muted hover:text-white"
+          onClick={() => router.back()}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {tCommon('back')}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <ProfileSkeleton />
+      ) : isError || !member ? (
+        <div className="flex min-h-[40vh] flex-col items-center justify-center gap-3 text-center">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-white/[0.04]">
+            <UserX className="h-8 w-8 text-muted" />
+          </div>
+          <h2 className="text-xl font-semibold text-white">{t('notFound')}</h2>
+          <p className="text-muted">{t('notFoundDescription', { username: username ?? '' })}</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {/* Profile header */}
+          <div className="flex flex-col items-center rounded-2xl border border-white/[0.08] bg-white/[0.02] p-6 text-center">
+            <Avatar size="xl">
+              {member.avatar_url ? (
+                <AvatarImage src={member.avatar_url} alt={displayName} />
+              ) : null}
+              <AvatarFallback>{getInitials(displayName)}</AvatarFallback>
+            </Avatar>
+
+            <h1 className="mt-4 text-xl font-bold text-white">{displayName}</h1>
+            {member.username && (
+              <p className="mt-1 text-sm text-[#8b95a1]">@{member.username}</p>
+            )}
+            {member.company_name && (
+              <p className="mt-2 text-sm text-white/80">{member.company_name}</p>
+            )}
+            {member.bio && (
+              <p className="mt-4 max-w-md text-sm leading-relaxed text-[#8b95a1]">{member.bio}</p>
+            )}
+
+            <div className="mt-4 flex items-center gap-4 text-sm">
+              <span className="text-[#8b95a1]">
+                {t.rich('followers', {
+                  count: member.follower_count,
+                  strong: (chunks) => <strong className="font-semibold text-white">{chunks}</strong>,
+                })}
+              </span>
+              <span className="text-[#8b95a1]">
+                {t.rich('following', {
+                  count: member.following_count,
+                  strong: (chunks) => <strong className="font-semibold text-white">{chunks}</strong>,
+                })}
+              </span>
+            </div>
+
+            {isOwnProfile ? (
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className="mt-6 rounded-xl border-white/10 text-white hover:bg-white/5"
+              >
+                <Link href="/profile">{t('goToMyPage')}</Link>
+              </Button>
+            ) : (
+              <Button
+                variant={member.is_following ? 'outline' : 'primary'}
+                size="sm"
+                className="mt-6 gap-2 rounded-xl"
+                onClick={handleFollow}
+                disabled={followMutation.isPending}
+              >
+                {member.is_following ? (
+                  <UserCheck className="h-4 w-4" />
+                ) : (
+                  <UserPlus className="h-4 w-4" />
+                )}
+                {member.is_following ? t('followingStatus') : t('follow')}
+              </Button>
+            )}
+          </div>
+
+          {/* Activity */}
+          <ActivityTab userId={member.id} />
+        </div>
+      )}
+    </div>
+  );
+}
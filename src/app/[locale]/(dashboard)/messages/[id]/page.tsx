@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * Conversation Page
+ *
+ * An open 1:1 conversation with live messages and read receipts. On large
+ * screens the inbox stays visible next to the conversation.
+ */
+
+import * as React from 'react';
+import { useParams } from 'next/navigation';
+
+import { useAuth } from '@/hooks/use-auth';
+import { Card, CardContent } from '@/components/ui/card';
+import { ConversationList, MessageThread, useConversations } from '@/features/messages';
+
+export default function ConversationPage() {
+  const params = useParams();
+  const conversationId = Number(params.id);
+  const { user } = useAuth();
+
+  const { data: conversations = [], isLoading } = useConversations(!!user);
+
+  return (
+    <div className="grid gap-6 py-6 md:py-8 lg:grid-cols-[340px_1fr]">
+      {/* Inbox (large screens) */}
+      <Card variant="default" padding="sm" className="hidden lg:block">
+        <CardContent className="max-h-[calc(100vh-10rem)] overflow-y-auto">
+          <ConversationList
+            conversations={conversations}
+            isLoading={isLoading || !user}
+            currentUserId={user?.id}
+            activeId={conversationId}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Conversation */}
+      <Card variant="default" padding="md" className="flex h-[calc(100vh-10rem)] flex-col">
+        <MessageThread
+          key={conversationId}
+          conversationId={conversationId}
+          currentUserId={user?.id ?? null}
+          className="h-full"
+        />
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+/**
+ * Messages Inbox Page
+ *
+ * Lists the member's 1:1 conversations with the latest message and unread
+ * counts; the list updates live through useRealtimeMessages.
+ *
+ * `?with=<userId>` (used by the accepted request notification) opens the
+ * conversation with that member directly.
+ */
+
+import * as React from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { motion } from 'framer-motion';
+
+import { useRouter } from '@/i18n/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { Card, CardContent } from '@/components/ui/card';
+import { ConversationList, useConversations, useConversationWith } from '@/features/messages';
+
+export default function MessagesPage() {
+  const t = useTranslations('messages');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
+
+  const withUserId = searchParams.get('with');
+  const { data: conversations = [], isLoading } = useConversations(!!user);
+  const { data: withConversationId } = useConversationWith(user ? withUserId : null);
+
+  React.useEffect(() => {
+    if (withConversationId) {
+      router.replace(`/messages/${withConversationId}`);
+    }
+  }, [withConversationId, router]);
+
+  return (
+    <div className="mx-auto max-w-3xl py-6 md:py-8">
+      {/* Page Header */}
+      <header className="mb-6 md:mb-8">
+        <h1 className="text-2xl font-bold text-white md:text-3xl">{t('title')}</h1>
+        <p className="mt-1 text-muted">{t('subtitle')}</p>
+      </header>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <Card variant="default" padding="sm">
+          <CardContent>
+            <ConversationList
+              conversations={conversations}
+              isLoading={isLoading || !user}
+              currentUserId={user?.id}
+            />
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
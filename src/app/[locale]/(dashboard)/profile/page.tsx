@@ -29,6 +29,7 @@ import {
   EditExpertiseDialog,
   ActivityTab,
   BookmarksTab,
+  CollaborationsTab,
 } from '@/features/profile/components';
 
 import type { Database } from '@/types/database';
@@ -391,6 +392,16 @@ export default function ProfilePage() {
                 <p className="mt-1 text-sm text-[#8b95a1]">@{profile.username}</p>
               )}
 
+              {/* Follow counts */}
+              <div className="mt-3 flex items-center gap-4 text-sm text-[#8b95a1]">
+                <span>
+                  팔로워 <strong className="font-semibold text-white">{profile.follower_count}</strong>
+                </span>
+                <span>
+                  팔로잉 <strong className="font-semibold text-white">{profile.following_count}</strong>
+                </span>
+              </div>
+
               {/* Bio */}
               {profile.bio && (
                 <p className="mt-4 text-sm leading-relaxed text-[#8b95a1] text-center">
@@ -488,6 +499,14 @@ export default function ProfilePage() {
             <ActivityTab userId={profile.id} />
           </section>
 
+          {/* ======================================================== */}
+          {/* 협업 요청 */}
+          {/* ======================================================== */}
+          <section>
+            <h3 className="mb-4 text-lg font-bold text-white">협업 요청</h3>
+            <CollaborationsTab userId={profile.id} />
+          </section>
+
           {/* ======================================================== */}
           {/* 내 관심 */}
           {/* ======================================================== */}
@@ -17,6 +17,7 @@
  */
 
 import * as React from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { Search, X, SlidersHorizontal } from 'lucide-react';
 import { useDebouncedCallback } from 'use-debounce';
@@ -36,7 +37,7 @@ import {
 
 // Support Programs Feature Components
 import { ProgramCard, ProgramDetailModal } from '@/features/support-programs/components';
-import { useSupportPrograms } from '@/features/support-programs/api/queries';
+import { useSupportPrograms, useSupportProgram } from '@/features/support-programs/api/queries';
 import type { SupportProgramWithBookmark } from '@/features/support-programs/types';
 
 /**
@@ -190,6 +191,21 @@ export default function SupportProgramsPage() {
   const [selectedProgramId, setSelectedProgramId] = React.useState<number | null>(null);
   const [isModalOpen, setIsModalOpen] = React.useState(false);
 
+  // Program linked from global search (?program=<id>)
+  const searchParams = useSearchParams();
+  const linkedProgramId = Number(searchParams.get('program')) || null;
+  const [openedLinkedProgramId, setOpenedLinkedProgramId] = React.useState<number | null>(null);
+  const { data: linkedProgram } = useSupportProgram(linkedProgramId ?? 0);
+
+  // Open the linked program once per link (adjusting state during render)
+  if (linkedProgramId !== openedLinkedProgramId) {
+    setOpenedLinkedProgramId(linkedProgramId);
+    if (linkedProgramId) {
+      setSelectedProgramId(linkedProgramId);
+      setIsModalOpen(true);
+    }
+  }
+
   // Debounced search to avoid too many requests
   const debouncedSetKeyword = useDebouncedCallback((value: string) => {
     setDebouncedKeyword(value || undefined);
@@ -251,9 +267,12 @@ export default function SupportProgramsPage() {
   const totalCount = data?.totalCount ?? 0;
 
   // Derive selected program from latest query data so bookmark state stays in sync
+  // Falls back to the separately fetched linked program when it isn't in the current list
   const selectedProgram = React.useMemo(
-    () => programs.find((p) => p.id === selectedProgramId) ?? null,
-    [programs, selectedProgramId]
+    () =>
+      programs.find((p) => p.id === selectedProgramId) ??
+      (linkedProgram?.id === selectedProgramId ? linkedProgram : null),
+    [programs, selectedProgramId, linkedProgram]
   );
 
   return (
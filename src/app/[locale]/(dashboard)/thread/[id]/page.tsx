@@ -6,7 +6,9 @@
  * Displays a single post with full content and comments.
  * Features:
  * - Full post content display
- * - Comments section with CommentList component
+ * - Comments section with CommentList component (edit and delete own comments)
+ * - Live comments, reaction counts and viewers via useRealtimeThread
+ * - Thread pseudonyms and anonymous comments in anonymous threads
  * - Add new comments with CommentForm
  * - Back navigation to feed
  * - Loading skeleton states
@@ -22,16 +24,27 @@ import { useTranslations, useFormatter, useNow } from 'next-intl';
 import { motion } from 'framer-motion';
 import {
   ArrowLeft,
-  Heart,
   MessageCircle,
   Share2,
   Bookmark,
   MoreHorizontal,
+  Pencil,
+  Flag,
+  Repeat2,
+  Megaphone,
+  Pin,
 } from 'lucide-react';
 import Image from 'next/image';
+import { toast } from 'sonner';
 
 import { cn } from '@/lib/cn';
 import { Link, useRouter } from '@/i18n/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { useAuthModalStore } from '@/stores/auth-modal-store';
+import { useRealtimeThread } from '@/hooks/use-realtime-thread';
+import { getPreviewUrl } from '@/lib/links';
+import { isPinActive } from '@/lib/pins';
+import { isAnonymousRateLimitError } from '@/lib/anonymous';
 
 // UI Components
 import { Card, CardContent } from '@/components/ui/card';
@@ -45,16 +58,43 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 // Community Feature Components
-import { CommentList } from '@/features/community/components';
+import {
+  CommentList,
+  RichText,
+  PostComposer,
+  PostPoll,
+  LinkPreviewCard,
+  PostAttachments,
+  QuotedPostCard,
+  QuoteDialog,
+  ReactionBar,
+  ThreadPresence,
+  AnonymousAvatar,
+  usePseudonym,
+} from '@/features/community/components';
 import {
   usePost,
   useComments,
-  useLikeMutation,
+  useReactionMutation,
   useCreateComment,
+  useUpdateComment,
+  useDeleteComment,
   useBookmarkMutation,
 } from '@/features/community/api/queries';
+import type { ReactionType } from '@/features/community/types';
+import { ReportDialog, type ReportTarget } from '@/features/reports';
 
 /**
  * Gets the initials from a full name for avatar fallback
@@ -210,8 +250,16 @@ export default function PostDetailPage() {
   const router = useRouter();
   const t = useTranslations('thread');
   const tPost = useTranslations('thread.post');
+  const tCommon = useTranslations('common');
   const format = useFormatter();
   const now = useNow({ updateInterval: 1000 * 60 }); // Update every minute
+  const pseudonym = usePseudonym();
+  const { user } = useAuth();
+  const openLogin = useAuthModalStore((s) => s.openLogin);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [reportTarget, setReportTarget] = React.useState<ReportTarget | null>(null);
+  const [isQuoting, setIsQuoting] = React.useState(false);
+  const [deletingCommentId, setDeletingCommentId] = React.useState<number | null>(null);
 
   // Parse post ID from params
   const postId = React.useMemo(() => {
@@ -236,10 +284,26 @@ export default function PostDetailPage() {
     isLoading: isLoadingComments,
   } = useComments(postId ?? 0);
 
+  // Live comments and counts, plus who else is viewing. Members stay out of
+  // the viewer list of anonymous threads, where their typing indicator would
+  // give away who writes an anonymous reply.
+  const { viewers, notifyTyping } = useRealtimeThread(postId, {
+    enabled: !!post,
+    viewer: user && !post?.is_anonymous
+      ? {
+          id: user.id,
+          full_name: user.user_metadata?.full_name ?? null,
+          avatar_url: user.user_metadata?.avatar_url ?? user.user_metadata?.picture ?? null,
+        }
+      : null,
+  });
+
   // Mutations
-  const likeMutation = useLikeMutation();
+  const reactionMutation = useReactionMutation();
   const bookmarkMutation = useBookmarkMutation();
   const createCommentMutation = useCreateComment();
+  const updateCommentMutation = useUpdateComment();
+  const deleteCommentMutation = useDeleteComment();
 
   // Format timestamp
   const formattedTime = React.useMemo(() => {
@@ -248,33 +312,81 @@ export default function PostDetailPage() {
     return format.relativeTime(date, now);
   }, [post, format, now]);
 
-  // Handle like action
-  const handleLike = () => {
+  // Link preview for posts without media
+  const previewUrl = React.useMemo(() => {
+    if (!post || post.media_urls?.length) return null;
+    return getPreviewUrl(post.content);
+  }, [post]);
+
+  // Handle reaction change
+  const handleReact = (reaction: ReactionType | null, currentReaction: ReactionType | null) => {
     if (!post) return;
-    likeMutation.mutate({
+    reactionMutation.mutate({
       likeable_type: 'post',
       likeable_id: post.id,
-      isCurrentlyLiked: post.is_liked,
+      reaction,
+      currentReaction,
     });
   };
 
-  // Handle comment like action
-  const handleCommentLike = (commentId: number, isCurrentlyLiked: boolean) => {
-    likeMutation.mutate({
+  // Handle comment reaction change
+  const handleCommentReact = (
+    commentId: number,
+    reaction: ReactionType | null,
+    currentReaction: ReactionType | null
+  ) => {
+    reactionMutation.mutate({
       likeable_type: 'comment',
       likeable_id: commentId,
-      isCurrentlyLiked,
+      reaction,
+      currentReaction,
     });
   };
 
   // Handle new comment submission
-  const handleSubmitComment = (content: string, parentId?: number | null) => {
+  const handleSubmitComment = (
+    content: string,
+    parentId?: number | null,
+    isAnonymous?: boolean
+  ) => {
     if (!postId) return;
-    createCommentMutation.mutate({
-      post_id: postId,
-      content,
-      parent_id: parentId ?? undefined,
-    });
+    createCommentMutation.mutate(
+      {
+        post_id: postId,
+        content,
+        parent_id: parentId ?? undefined,
+        is_anonymous: isAnonymous,
+      },
+      {
+        onError: (error) => {
+          if (isAnonymousRateLimitError(error)) toast.error(t('comments.anonymousRateLimited'));
+        },
+      }
+    );
+  };
+
+  // Handle comment edit; rethrows so the edit form stays open on failure
+  const handleEditComment = async (commentId: number, content: string) => {
+    if (!postId) return;
+    try {
+      await updateCommentMutation.mutateAsync({ id: commentId, post_id: postId, content });
+    } catch (error) {
+      toast.error(t('comments.updateFailed'));
+      throw error;
+    }
+  };
+
+  // Handle confirmed comment deletion
+  const handleConfirmDeleteComment = () => {
+    if (!postId || deletingCommentId === null) return;
+    deleteCommentMutation.mutate(
+      { commentId: deletingCommentId, postId },
+      {
+        onSuccess: () => toast.success(t('comments.deletedToast')),
+        onError: () => toast.error(t('comments.deleteFailed')),
+        onSettled: () => setDeletingCommentId(null),
+      }
+    );
   };
 
   // Handle bookmark action
@@ -305,7 +417,25 @@ export default function PostDetailPage() {
     }
   };
 
+  // Handle quote action - members only
+  const handleQuote = () => {
+    if (!user) {
+      openLogin();
+      return;
+    }
+    setIsQuoting(true);
+  };
+
   // Handle back navigation
+  // Handle report action for the post or one of its comments - members only
+  const handleReport = (target: ReportTarget) => {
+    if (!user) {
+      openLogin();
+      return;
+    }
+    setReportTarget(target);
+  };
+
   const handleBack = () => {
     router.push('/thread');
   };
@@ -355,6 +485,8 @@ export default function PostDetailPage() {
     );
   }
 
+  const authorName = post.is_anonymous ? pseudonym() : post.author?.full_name || 'Unknown User';
+
   return (
     <div className="py-6 md:py-8">
       {/* Back button */}
@@ -381,38 +513,60 @@ export default function PostDetailPage() {
             {/* Header: Author info and timestamp */}
             <div className="flex items-start justify-between gap-3">
               <div className="flex items-center gap-3">
-                <Avatar size="lg">
-                  {post.author.avatar_url ? (
-                    <AvatarImage
-                      src={post.author.avatar_url}
-                      alt={post.author.full_name || 'User avatar'}
-                    />
-                  ) : null}
-                  <AvatarFallback>
-                    {getInitials(post.author.full_name)}
-                  </AvatarFallback>
-                </Avatar>
+                {post.is_anonymous ? (
+                  <AnonymousAvatar size="lg" />
+                ) : (
+                  <Avatar size="lg">
+                    {post.author?.avatar_url ? (
+                      <AvatarImage
+                        src={post.author.avatar_url}
+                        alt={post.author.full_name || 'User avatar'}
+                      />
+                    ) : null}
+                    <AvatarFallback>
+                      {getInitials(post.author?.full_name ?? null)}
+                    </AvatarFallback>
+                  </Avatar>
+                )}
 
                 <div className="flex flex-col gap-0.5">
                   <div className="flex items-center gap-2">
-                    <span className="font-semibold text-white text-xl">
-                      {post.author.full_name || 'Unknown User'}
-                    </span>
-                    {post.is_pinned && (
+                    <span className="font-semibold text-white text-xl">{authorName}</span>
+                    {post.is_notice && (
+                      <Badge variant="info" size="sm">
+                        <Megaphone />
+                        {tPost('notice')}
+                      </Badge>
+                    )}
+                    {isPinActive(post, now) && (
                       <Badge variant="default" size="sm">
-                        {tPost('pinned')}
+                        <Pin />
+                        {post.pinned_until
+                          ? tPost('pinnedUntil', {
+                              date: format.dateTime(new Date(post.pinned_until), {
+                                month: 'short',
+                                day: 'numeric',
+                              }),
+                            })
+                          : tPost('pinned')}
+                      </Badge>
+                    )}
+                    {post.is_quote && !post.content.trim() && (
+                      <Badge variant="muted" size="sm">
+                        <Repeat2 />
+                        {tPost('reposted')}
                       </Badge>
                     )}
                   </div>
                   <div className="flex items-center gap-2 text-base text-muted">
-                    {post.author.company_name && (
+                    {post.author?.company_name && (
                       <>
                         <span>{post.author.company_name}</span>
                         <span className="text-white/20">|</span>
                       </>
                     )}
                     <time dateTime={post.created_at}>{formattedTime}</time>
-                    {post.updated_at !== post.created_at && (
+                    {post.edited_at && (
                       <Badge variant="muted" size="sm">
                         {tPost('edited')}
                       </Badge>
@@ -434,71 +588,112 @@ export default function PostDetailPage() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
+                  {user?.id === post.author_id && (
+                    <DropdownMenuItem onClick={() => setIsEditing(true)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      {tPost('edit')}
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={handleShare}>
                     <Share2 className="mr-2 h-4 w-4" />
                     {tPost('copyLink')}
                   </DropdownMenuItem>
-                  <DropdownMenuItem className="text-error">
-                    {tPost('report')}
-                  </DropdownMenuItem>
+                  {user?.id !== post.author_id && (
+                    <DropdownMenuItem
+                      onClick={() => handleReport({ type: 'post', id: post.id })}
+                      className="text-error"
+                    >
+                      <Flag className="mr-2 h-4 w-4" />
+                      {tPost('report')}
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
 
-            {/* Content - Full display without truncation */}
-            <div className="mt-4">
-              <p className="whitespace-pre-wrap text-white text-lg leading-relaxed">
-                {post.content}
-              </p>
-            </div>
+            {isEditing ? (
+              <div className="mt-4">
+                <PostComposer
+                  post={post}
+                  onSuccess={() => setIsEditing(false)}
+                  onCancel={() => setIsEditing(false)}
+                />
+              </div>
+            ) : (
+              <>
+                {/* Content - Full display without truncation (empty for plain reposts) */}
+                {post.content.trim() && (
+                  <div className="mt-4">
+                    <p className="whitespace-pre-wrap text-white text-lg leading-relaxed">
+                      <RichText content={post.content} mentions={post.mentions} />
+                    </p>
+                  </div>
+                )}
+
+                {/* Media Grid */}
+                {post.media_urls && post.media_urls.length > 0 && (
+                  <MediaGrid
+                    urls={post.media_urls}
+                    alt={`Post by ${authorName}`}
+                  />
+                )}
 
-            {/* Media Grid */}
-            {post.media_urls && post.media_urls.length > 0 && (
-              <MediaGrid
-                urls={post.media_urls}
-                alt={`Post by ${post.author.full_name}`}
-              />
+                {/* Attachments */}
+                <PostAttachments attachments={post.attachments} className="mt-4" />
+
+                {/* Link preview */}
+                {previewUrl && <LinkPreviewCard url={previewUrl} className="mt-4" />}
+
+                {/* Poll */}
+                {post.poll_id && <PostPoll pollId={post.poll_id} className="mt-4" />}
+
+                {/* Quoted post */}
+                {post.is_quote && <QuotedPostCard post={post.quoted_post} className="mt-4" />}
+              </>
             )}
 
             {/* Actions */}
             <div className="mt-6 flex items-center justify-between border-t border-white/[0.08] pt-4">
               <div className="flex items-center gap-2">
-                {/* Like Button */}
+                {/* Reactions */}
+                <ReactionBar
+                  likeableType="post"
+                  likeableId={post.id}
+                  myReaction={post.my_reaction}
+                  counts={post.reaction_counts}
+                  total={post.like_count}
+                  onReact={handleReact}
+                  disabled={
+                    reactionMutation.isPending &&
+                    reactionMutation.variables?.likeable_type === 'post'
+                  }
+                />
+
+                {/* Comment Count */}
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={handleLike}
-                  disabled={likeMutation.isPending}
-                  className={cn(
-                    'gap-2 text-muted hover:text-white hover:bg-white/5',
-                    post.is_liked && 'text-error hover:text-error'
-                  )}
+                  className="gap-2 text-muted hover:text-white hover:bg-white/5"
                 >
-                  <Heart
-                    className={cn(
-                      'h-4 w-4 transition-all duration-200',
-                      post.is_liked && 'fill-current'
-                    )}
-                  />
+                  <MessageCircle className="h-4 w-4" />
                   <span className="tabular-nums">
-                    {post.like_count > 0 && post.like_count}
-                  </span>
-                  <span className="sr-only">
-                    {post.is_liked ? tPost('liked') : tPost('like')}
+                    {post.comment_count > 0 && post.comment_count}
                   </span>
+                  <span className="sr-only">{tPost('comment')}</span>
                 </Button>
 
-                {/* Comment Count */}
+                {/* Quote Button */}
                 <Button
                   variant="ghost"
                   size="sm"
+                  onClick={handleQuote}
                   className="gap-2 text-muted hover:text-white hover:bg-white/5"
                 >
-                  <MessageCircle className="h-4 w-4" />
+                  <Repeat2 className="h-4 w-4" />
                   <span className="tabular-nums">
-                    {post.comment_count > 0 && post.comment_count}
+                    {post.repost_count > 0 && post.repost_count}
                   </span>
-                  <span className="sr-only">{tPost('comment')}</span>
+                  <span className="sr-only">{tPost('quote')}</span>
                 </Button>
 
                 {/* Share Button */}
@@ -565,22 +760,57 @@ export default function PostDetailPage() {
                 </div>
               </div>
             ) : (
-              <CommentList
-                comments={comments ?? []}
-                postId={postId}
-                onLike={handleCommentLike}
-                onSubmitComment={handleSubmitComment}
-                likingCommentId={
-                  likeMutation.isPending && likeMutation.variables?.likeable_type === 'comment'
-                    ? likeMutation.variables.likeable_id
-                    : null
-                }
-                isSubmitting={createCommentMutation.isPending}
-              />
+              <>
+                <ThreadPresence viewers={viewers} className="mb-4" />
+                <CommentList
+                  comments={comments ?? []}
+                  postId={postId}
+                  onReact={handleCommentReact}
+                  onSubmitComment={handleSubmitComment}
+                  onEdit={handleEditComment}
+                  onDelete={setDeletingCommentId}
+                  onReport={(commentId) => handleReport({ type: 'comment', id: commentId })}
+                  currentUser={user ? { id: user.id } : undefined}
+                  reactingCommentId={
+                    reactionMutation.isPending &&
+                    reactionMutation.variables?.likeable_type === 'comment'
+                      ? reactionMutation.variables.likeable_id
+                      : null
+                  }
+                  isSubmitting={createCommentMutation.isPending}
+                  onTyping={notifyTyping}
+                  isAnonymousThread={post.is_anonymous}
+                />
+              </>
             )}
           </CardContent>
         </Card>
       </motion.div>
+
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+
+      {/* Comment Delete Confirmation Dialog */}
+      <AlertDialog
+        open={deletingCommentId !== null}
+        onOpenChange={(open) => !open && setDeletingCommentId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('comments.deleteConfirm')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('comments.deleteDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{tCommon('cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDeleteComment}
+              className="bg-error text-white hover:bg-error/90"
+            >
+              {deleteCommentMutation.isPending ? tCommon('loading') : tCommon('delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <QuoteDialog post={isQuoting ? (post ?? null) : null} onClose={() => setIsQuoting(false)} />
     </div>
   );
 }
@@ -5,8 +5,10 @@
  *
  * Main community feed page with:
  * - Post composer at the top
+ * - All / For you / Following feed tabs (signed-in members)
+ * - Sort tabs (latest, trending, top this week)
  * - Infinite scroll posts feed
- * - Skeleton loading states
+ * - Trending and followed tags sidebar (desktop)
  * - Translations via next-intl
  *
  * Uses customized components from @/components/ui/ and
@@ -15,167 +17,32 @@
 
 import * as React from 'react';
 import { useTranslations } from 'next-intl';
-import { useInView } from 'react-intersection-observer';
-import { RefreshCw } from 'lucide-react';
-import { cn } from '@/lib/cn';
 
 // UI Components
 import { Card, CardContent } from '@/components/ui/card';
-import { Skeleton, SkeletonAvatar, SkeletonText } from '@/components/ui/skeleton';
-import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
 
 // Community Feature Components
-import { PostComposer, PostCard } from '@/features/community/components';
-import { usePosts, useLikeMutation, useBookmarkMutation } from '@/features/community/api/queries';
-import { useRouter } from '@/i18n/navigation';
-
-/**
- * PostCardSkeleton - Loading skeleton for post cards
- */
-function PostCardSkeleton() {
-  return (
-    <Card variant="default" padding="none" className="overflow-hidden">
-      <CardContent className="p-4 sm:p-5">
-        {/* Header skeleton */}
-        <div className="flex items-start gap-3">
-          <SkeletonAvatar size="md" />
-          <div className="flex-1 space-y-2">
-            <Skeleton className="h-4 w-32" rounded="md" />
-            <Skeleton className="h-3 w-48" rounded="md" />
-          </div>
-        </div>
-
-        {/* Content skeleton */}
-        <div className="mt-4">
-          <SkeletonText lines={3} />
-        </div>
-
-        {/* Actions skeleton */}
-        <div className="mt-4 flex items-center gap-4 border-t border-white/[0.08] pt-3">
-          <Skeleton className="h-8 w-16" rounded="lg" />
-          <Skeleton className="h-8 w-16" rounded="lg" />
-          <Skeleton className="h-8 w-16" rounded="lg" />
-        </div>
-      </CardContent>
-    </Card>
-  );
-}
-
-/**
- * FeedLoadingSkeleton - Multiple skeleton cards for initial load
- */
-function FeedLoadingSkeleton({ count = 3 }: { count?: number }) {
-  return (
-    <div className="space-y-4">
-      {Array.from({ length: count }).map((_, index) => (
-        <PostCardSkeleton key={index} />
-      ))}
-    </div>
-  );
-}
-
-/**
- * EmptyFeed - Empty state when no posts exist
- */
-function EmptyFeed({ message }: { message: string }) {
-  return (
-    <Card variant="default" padding="lg" className="text-center">
-      <CardContent className="py-12">
-        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-white/5">
-          <RefreshCw className="h-8 w-8 text-muted" />
-        </div>
-        <p className="text-muted">{message}</p>
-      </CardContent>
-    </Card>
-  );
-}
+import {
+  PostComposer,
+  PostFeed,
+  FeedSortTabs,
+  TrendingTags,
+} from '@/features/community/components';
+import type { FeedScope, FeedSort } from '@/features/community/types';
 
 /**
  * ThreadFeedPage - Main page component
  */
 export default function ThreadFeedPage() {
   const t = useTranslations('thread');
-  const router = useRouter();
-
-  // Fetch posts with infinite scroll
-  const {
-    data,
-    fetchNextPage,
-    hasNextPage,
-    isFetchingNextPage,
-    isLoading,
-    isError,
-    refetch,
-  } = usePosts();
-
-  // Mutations
-  const likeMutation = useLikeMutation();
-  const bookmarkMutation = useBookmarkMutation();
-
-  // Intersection observer for infinite scroll
-  const { ref: loadMoreRef, inView } = useInView({
-    threshold: 0,
-    rootMargin: '100px',
-  });
-
-  // Trigger fetch when load more element is in view
-  React.useEffect(() => {
-    if (inView && hasNextPage && !isFetchingNextPage) {
-      fetchNextPage();
-    }
-  }, [inView, hasNextPage, isFetchingNextPage, fetchNextPage]);
-
-  // Flatten posts from all pages
-  const posts = React.useMemo(() => {
-    return data?.pages.flatMap((page) => page.posts) ?? [];
-  }, [data]);
+  const { isAuthenticated } = useAuth();
+  const [sort, setSort] = React.useState<FeedSort>('latest');
+  const [scope, setScope] = React.useState<FeedScope>('all');
 
-  // Handle like action
-  const handleLike = (postId: number, isCurrentlyLiked: boolean) => {
-    likeMutation.mutate({
-      likeable_type: 'post',
-      likeable_id: postId,
-      isCurrentlyLiked,
-    });
-  };
-
-  // Handle comment action - navigate to post detail
-  const handleComment = (postId: number) => {
-    router.push(`/thread/${postId}`);
-  };
-
-  // Handle post click - navigate to post detail
-  const handlePostClick = (postId: number) => {
-    router.push(`/thread/${postId}`);
-  };
-
-  // Handle bookmark action
-  const handleBookmark = (postId: number) => {
-    const post = posts.find((p) => p.id === postId);
-    if (!post) return;
-    bookmarkMutation.mutate({
-      postId,
-      isCurrentlyBookmarked: post.is_bookmarked,
-    });
-  };
-
-  // Handle share action
-  const handleShare = async (postId: number) => {
-    const url = `${window.location.origin}/thread/${postId}`;
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: t('title'),
-          url,
-        });
-      } catch {
-        // User cancelled or share failed
-      }
-    } else {
-      // Fallback to clipboard
-      await navigator.clipboard.writeText(url);
-    }
-  };
+  // The following and For you feeds need a signed-in member
+  const activeScope = isAuthenticated ? scope : 'all';
 
   return (
     <div className="py-6 md:py-8">
@@ -189,78 +56,49 @@ export default function ThreadFeedPage() {
         </p>
       </header>
 
-      {/* Post Composer */}
-      <Card variant="default" padding="md" className="mb-6">
-        <CardContent>
-          <PostComposer />
-        </CardContent>
-      </Card>
-
-      {/* Feed Content */}
-      <div className="space-y-4">
-        {/* Loading State - Initial load */}
-        {isLoading && <FeedLoadingSkeleton count={5} />}
-
-        {/* Error State */}
-        {isError && !isLoading && (
-          <Card variant="default" padding="lg" className="text-center">
-            <CardContent className="py-8">
-              <p className="mb-4 text-error">{t('loading')}</p>
-              <Button variant="outline" onClick={() => refetch()}>
-                {t('refresh')}
-              </Button>
+      <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_300px] lg:gap-8">
+        <div>
+          {/* Post Composer */}
+          <Card variant="default" padding="md" className="mb-6">
+            <CardContent>
+              <PostComposer />
             </CardContent>
           </Card>
-        )}
-
-        {/* Empty State */}
-        {!isLoading && !isError && posts.length === 0 && (
-          <EmptyFeed message={t('empty')} />
-        )}
-
-        {/* Posts List */}
-        {!isLoading && !isError && posts.length > 0 && (
-          <>
-            {posts.map((post) => (
-              <PostCard
-                key={post.id}
-                post={post}
-                onLike={handleLike}
-                onComment={handleComment}
-                onShare={handleShare}
-                onBookmark={handleBookmark}
-                onClick={handlePostClick}
-                isLiking={
-                  likeMutation.isPending &&
-                  likeMutation.variables?.likeable_id === post.id
-                }
-              />
-            ))}
 
-            {/* Load More Trigger */}
-            <div
-              ref={loadMoreRef}
-              className={cn(
-                'flex items-center justify-center py-4',
-                !hasNextPage && 'hidden'
-              )}
+          {/* Scope Tabs */}
+          {isAuthenticated && (
+            <Tabs
+              value={activeScope}
+              onValueChange={(value) => setScope(value as FeedScope)}
+              className="mb-4"
             >
-              {isFetchingNextPage && (
-                <div className="flex items-center gap-2 text-muted">
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                  <span>{t('loading')}</span>
-                </div>
-              )}
-            </div>
+              <TabsList variant="line">
+                <TabsTrigger value="all">{t('filter.all')}</TabsTrigger>
+                <TabsTrigger value="for_you">{t('filter.forYou')}</TabsTrigger>
+                <TabsTrigger value="following">{t('filter.following')}</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {/* Sort Tabs - the following feed is always newest first, For you has its own ranking */}
+          {activeScope === 'all' && (
+            <FeedSortTabs value={sort} onValueChange={setSort} className="mb-4" />
+          )}
+
+          {/* Feed Content */}
+          <PostFeed
+            sort={sort}
+            scope={activeScope}
+            emptyMessage={activeScope === 'following' ? t('followingEmpty') : undefined}
+          />
+        </div>
 
-            {/* End of Feed */}
-            {!hasNextPage && posts.length > 0 && (
-              <div className="py-8 text-center">
-                <p className="text-sm text-muted">{t('noMore')}</p>
-              </div>
-            )}
-          </>
-        )}
+        {/* Sidebar */}
+        <aside className="hidden lg:block">
+          <div className="sticky top-24">
+            <TrendingTags />
+          </div>
+        </aside>
       </div>
     </div>
   );
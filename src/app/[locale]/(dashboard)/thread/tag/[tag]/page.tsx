@@ -0,0 +1,138 @@
+'use client';
+
+/**
+ * Tag Page
+ *
+ * Thread posts with one hashtag, opened from #tags in posts and the
+ * trending tags sidebar.
+ *
+ * Features:
+ * - Dynamic route [tag] (with or without the leading #, any case)
+ * - Tag header with post count and follow button
+ * - Sort tabs and infinite scroll feed filtered by the tag
+ * - Login modal for anonymous members who try to follow
+ */
+
+import * as React from 'react';
+import { useParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { ArrowLeft, Check, Hash, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { normalizeTag } from '@/lib/hashtags';
+import { useRouter } from '@/i18n/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { useAuthModalStore } from '@/stores/auth-modal-store';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+
+import { PostFeed, FeedSortTabs, TrendingTags } from '@/features/community/components';
+import { useTag, useTagFollowMutation } from '@/features/community/api/queries';
+import type { FeedSort } from '@/features/community/types';
+
+export default function TagPage() {
+  const t = useTranslations('thread.tags');
+  const tCommon = useTranslations('common');
+  const router = useRouter();
+  const params = useParams<{ tag: string }>();
+  const tagName = params.tag ? normalizeTag(decodeURIComponent(params.tag)) : null;
+  const { isAuthenticated } = useAuth();
+  const openLogin = useAuthModalStore((s) => s.openLogin);
+  const [sort, setSort] = React.useState<FeedSort>('latest');
+
+  const { data: tag, isLoading } = useTag(tagName);
+  const followMutation = useTagFollowMutation();
+
+  const handleFollow = () => {
+    if (!isAuthenticated) {
+      openLogin();
+      return;
+    }
+    if (!tag) return;
+
+    followMutation.mutate(
+      { tag, isCurrentlyFollowing: tag.is_following },
+      {
+        onError: () => toast.error(t('followFailed')),
+      }
+    );
+  };
+
+  return (
+    <div className="py-6 md:py-8">
+      <div className="mb-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2 text-muted hover:text-white"
+          onClick={() => router.back()}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {tCommon('back')}
+        </Button>
+      </div>
+
+      {!tagName ? (
+        <div className="flex min-h-[40vh] flex-col items-center justify-center gap-3 text-center">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-white/[0.04]">
+            <Hash className="h-8 w-8 text-muted" />
+          </div>
+          <h2 className="text-xl font-semibold text-white">{t('invalid')}</h2>
+        </div>
+      ) : (
+        <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_300px] lg:gap-8">
+          <div>
+            {/* Tag Header */}
+            <Card variant="default" padding="md" className="mb-6">
+              <CardContent className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h1 className="truncate text-2xl font-bold text-white md:text-3xl">
+                    #{tagName}
+                  </h1>
+                  {isLoading ? (
+                    <Skeleton className="mt-2 h-4 w-20" rounded="md" />
+                  ) : (
+                    <p className="mt-1 text-sm text-muted">
+                      {t('postCount', { count: tag?.post_count ?? 0 })}
+                    </p>
+                  )}
+                </div>
+
+                {tag && (
+                  <Button
+                    variant={tag.is_following ? 'outline' : 'primary'}
+                    size="sm"
+                    className="shrink-0 gap-2 rounded-xl"
+                    onClick={handleFollow}
+                    disabled={followMutation.isPending}
+                  >
+                    {tag.is_following ? (
+                      <Check className="h-4 w-4" />
+                    ) : (
+                      <Plus className="h-4 w-4" />
+                    )}
+                    {tag.is_following ? t('following') : t('follow')}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Sort Tabs */}
+            <FeedSortTabs value={sort} onValueChange={setSort} className="mb-4" />
+
+            {/* Feed Content */}
+            <PostFeed sort={sort} tag={tagName} emptyMessage={t('empty')} />
+          </div>
+
+          {/* Sidebar */}
+          <aside className="hidden lg:block">
+            <div className="sticky top-24">
+              <TrendingTags />
+            </div>
+          </aside>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import {
+  ATTACHMENT_TYPES,
+  getAttachmentType,
+  getMaxAttachmentBytes,
+  sanitizeFileName,
+} from '@/lib/attachments';
+import { validateAttachment, AttachmentRejectedError } from '@/lib/attachment-scan';
+import type { Database } from '@/types/database';
+
+/** Room for the multipart boundaries and headers around the file */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * clamd connection from CLAMAV_HOST / CLAMAV_PORT; null skips the virus scan
+ */
+function getClamAVOptions() {
+  const host = process.env.CLAMAV_HOST;
+  if (!host) return null;
+
+  const port = Number(process.env.CLAMAV_PORT);
+  return { host, port: Number.isInteger(port) && port > 0 ? port : undefined };
+}
+
+/**
+ * POST /api/attachments (multipart/form-data, field "file")
+ *
+ * Validates a document for a post and stores it in the post-attachments
+ * bucket under <user_id>/. The response's attachment is passed to
+ * useCreatePost, which records it in post_attachments.
+ * Checks: allowed extension and MIME type, size limit
+ * (NEXT_PUBLIC_POST_ATTACHMENT_MAX_MB, checked against Content-Length before
+ * the body is read), file signature, no macros or PDF scripts, and a ClamAV
+ * scan when CLAMAV_HOST is set.
+ * Requires: approved member + SUPABASE_SERVICE_ROLE_KEY env var.
+ */
+export async function POST(request: NextRequest) {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    return NextResponse.json(
+      { error: 'SUPABASE_SERVICE_ROLE_KEY not configured' },
+      { status: 500 }
+    );
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('approval_status')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.approval_status !== 'approved') {
+    return NextResponse.json({ error: 'Forbidden: approved members only' }, { status: 403 });
+  }
+
+  const contentLength = Number(request.headers.get('content-length'));
+  if (!Number.isInteger(contentLength) || contentLength <= 0) {
+    return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 });
+  }
+
+  if (contentLength > getMaxAttachmentBytes() + MULTIPART_OVERHEAD_BYTES) {
+    return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+  }
+
+  let file: FormDataEntryValue | null = null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    // Not multipart — handled below
+  }
+
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ error: 'A file is required' }, { status: 400 });
+  }
+
+  if (file.size > getMaxAttachmentBytes()) {
+    return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+  }
+
+  const fileName = sanitizeFileName(file.name);
+  const type = getAttachmentType(fileName, file.type);
+  if (!type) {
+    return NextResponse.json(
+      { error: 'Only PDF, DOCX, PPTX and XLSX files can be attached' },
+      { status: 415 }
+    );
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  try {
+    await validateAttachment(bytes, type, getClamAVOptions());
+  } catch (error) {
+    if (error instanceof AttachmentRejectedError) {
+      return NextResponse.json(
+        { error: error.message, reason: error.reason },
+        { status: 422 }
+      );
+    }
+    console.error('Attachment scan failed:', error);
+    return NextResponse.json(
+      { error: 'The file could not be scanned. Please try again later.' },
+      { status: 503 }
+    );
+  }
+
+  const mimeType = ATTACHMENT_TYPES[type].mimeType;
+  const storagePath = `${user.id}/${Date.now()}-${crypto.randomUUID()}.${type}`;
+
+  const adminClient = createServiceClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey
+  );
+
+  const { error: uploadError } = await adminClient.storage
+    .from('post-attachments')
+    .upload(storagePath, bytes, {
+      contentType: mimeType,
+      cacheControl: '3600',
+      upsert: false,
+    });
+
+  if (uploadError) {
+    return NextResponse.json(
+      { error: `Failed to upload file: ${uploadError.message}` },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    attachment: {
+      file_name: fileName,
+      mime_type: mimeType,
+      size_bytes: bytes.byteLength,
+      storage_path: storagePath,
+    },
+  });
+}
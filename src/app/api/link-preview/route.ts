@@ -0,0 +1,105 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { normalizePreviewUrl } from '@/lib/links';
+import { fetchLinkPreview, LinkPreviewBlockedError } from '@/lib/link-preview';
+import type { Database } from '@/types/database';
+
+type LinkPreviewRow = Database['public']['Tables']['link_previews']['Row'];
+
+/** Refetch successful previews after a week, failed ones after a day */
+const OK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 24 * 60 * 60 * 1000;
+
+function toResponse(row: Pick<LinkPreviewRow, 'url' | 'status' | 'title' | 'description' | 'image_url' | 'site_name'>) {
+  const preview =
+    row.status === 'ok' && row.title
+      ? {
+          url: row.url,
+          title: row.title,
+          description: row.description,
+          image_url: row.image_url,
+          site_name: row.site_name,
+        }
+      : null;
+
+  return NextResponse.json(
+    { preview },
+    { headers: { 'Cache-Control': 'private, max-age=3600' } }
+  );
+}
+
+function isFresh(row: Pick<LinkPreviewRow, 'status' | 'fetched_at'>) {
+  const ttl = row.status === 'ok' ? OK_TTL_MS : FAILED_TTL_MS;
+  return Date.now() - new Date(row.fetched_at).getTime() < ttl;
+}
+
+/**
+ * GET /api/link-preview?url=https://...
+ *
+ * Returns OpenGraph preview metadata for a URL from a post, fetching the page
+ * when the link_previews cache has no fresh entry.
+ * Requires: signed-in member. Writing the cache needs SUPABASE_SERVICE_ROLE_KEY;
+ * without it previews are still returned, just not cached.
+ */
+export async function GET(request: NextRequest) {
+  const url = normalizePreviewUrl(request.nextUrl.searchParams.get('url') ?? '');
+
+  if (!url) {
+    return NextResponse.json({ error: 'A valid http(s) url is required' }, { status: 400 });
+  }
+
+  // Only members can make the server fetch pages
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: cached } = await supabase
+    .from('link_previews')
+    .select('url, status, title, description, image_url, site_name, fetched_at')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (cached && isFresh(cached)) {
+    return toResponse(cached);
+  }
+
+  let row: Database['public']['Tables']['link_previews']['Insert'];
+  try {
+    const preview = await fetchLinkPreview(url);
+    row = preview
+      ? { ...preview, status: 'ok', fetched_at: new Date().toISOString() }
+      : { url, status: 'failed', fetched_at: new Date().toISOString() };
+  } catch (error) {
+    if (error instanceof LinkPreviewBlockedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    row = { url, status: 'failed', fetched_at: new Date().toISOString() };
+  }
+
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (serviceRoleKey) {
+    const adminClient = createServiceClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      serviceRoleKey
+    );
+    const { error } = await adminClient.from('link_previews').upsert(row);
+    if (error) {
+      console.error('Failed to cache link preview:', error.message);
+    }
+  }
+
+  return toResponse({
+    url,
+    status: row.status,
+    title: row.title ?? null,
+    description: row.description ?? null,
+    image_url: row.image_url ?? null,
+    site_name: row.site_name ?? null,
+  });
+}
@@ -10,6 +10,7 @@ const protectedRoutes = [
   '/profile',
   '/clubs',
   '/expert-registration',
+  '/messages',
 ];
 
 /**
@@ -20,6 +20,8 @@ import {
 import { LanguageSwitcher } from '@/components/common/language-switcher';
 import { Logo } from '@/components/common/logo';
 import { NotificationPopover } from '@/features/notifications';
+import { MessagesButton } from '@/features/messages';
+import { SearchCommand } from '@/features/search';
 
 /**
  * Header Component - Desktop Navigation
@@ -31,6 +33,7 @@ import { NotificationPopover } from '@/features/notifications';
  * - Fixed positioning on scroll
  * - Animated active indicator between navigation items
  * - Navigation labels use translations from useTranslations('navigation')
+ * - Global search command palette (Cmd/Ctrl+K)
  * - Language switcher for Korean/English
  * - Notification bell and profile avatar
  *
@@ -129,11 +132,17 @@ export function Header() {
 
         {/* Actions */}
         <div className="flex items-center gap-4 md:gap-5">
+          {/* Global Search */}
+          <SearchCommand />
+
           {/* Language Switcher */}
           <LanguageSwitcher />
 
           {!loading && isAuthenticated ? (
             <>
+              {/* Messages with unread badge */}
+              <MessagesButton />
+
               {/* Notification Bell with Popover */}
               <NotificationPopover />
 
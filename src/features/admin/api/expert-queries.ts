@@ -9,6 +9,8 @@
  * - Fetch pending experts (status = 'pending_review')
  * - Approve expert (status -> 'approved')
  * - Reject expert (status -> 'rejected' with reason)
+ * - Last reviewed version of resubmitted profiles and their current work
+ *   history and education, for the change diff
  * - Create notification for expert
  */
 
@@ -19,6 +21,7 @@ import {
 } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
 import type { Database } from '@/types/database';
+import type { EducationSnapshot, ExperienceSnapshot } from '@/lib/expert-profile-changes';
 
 // Types
 export type ExpertStatus = Database['public']['Enums']['expert_status'];
@@ -40,6 +43,15 @@ export interface AdminExpertProfile {
   rejection_reason: string | null;
   bio: string | null;
   experience_years: number | null;
+  collaboration_needs: string | null;
+  hourly_rate: number | null;
+  price_range_min: number | null;
+  price_range_max: number | null;
+  portfolio_url: string | null;
+  portfolio_files: string[];
+  reviewed_snapshot: Database['public']['Tables']['expert_profiles']['Row']['reviewed_snapshot'];
+  experiences: ExperienceSnapshot[];
+  education: EducationSnapshot[];
   profile: {
     id: string;
     full_name: string | null;
@@ -106,6 +118,30 @@ async function fetchAdminExperts(
       rejection_reason,
       bio,
       experience_years,
+      collaboration_needs,
+      hourly_rate,
+      price_range_min,
+      price_range_max,
+      portfolio_url,
+      portfolio_files,
+      reviewed_snapshot,
+      experiences:expert_experiences(
+        company,
+        position,
+        location,
+        description,
+        category,
+        start_date,
+        end_date
+      ),
+      education:expert_education(
+        institution,
+        degree,
+        field,
+        description,
+        start_date,
+        end_date
+      ),
       profile:profiles!user_id(
         id,
         full_name,
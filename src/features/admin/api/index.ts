@@ -3,3 +3,4 @@ export * from './use-pending-members';
 export * from './expert-queries';
 export * from './use-content-management';
 export * from './use-dashboard-stats';
+export * from './use-reports';
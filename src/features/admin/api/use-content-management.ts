@@ -2,12 +2,15 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
+import { buildIlikeFilter, escapeLikePattern } from '@/lib/search';
+import { postQueryKeys } from '@/features/community/types';
 import type { Database } from '@/types/database';
 
 type SupportProgram = Database['public']['Tables']['support_programs']['Row'];
 type SupportProgramInsert = Database['public']['Tables']['support_programs']['Insert'];
 type SupportProgramUpdate = Database['public']['Tables']['support_programs']['Update'];
 type Post = Database['public']['Tables']['posts']['Row'];
+type PostRevision = Database['public']['Tables']['post_revisions']['Row'];
 type ProgramStatus = Database['public']['Enums']['program_status'];
 type ProgramCategory = Database['public']['Enums']['program_category'];
 
@@ -19,11 +22,25 @@ export interface ProgramWithAuthor extends SupportProgram {
 }
 
 export interface PostWithAuthor extends Post {
+  /** For anonymous posts, the real author (readable by admins only) */
   author?: {
     full_name: string | null;
     email: string;
     avatar_url: string | null;
     company_name: string | null;
+    role: Database['public']['Enums']['user_role'];
+  } | null;
+}
+
+type AdminPostRow = Post & {
+  author: PostWithAuthor['author'];
+  anonymous_authors: { author: PostWithAuthor['author'] }[];
+};
+
+export interface PostRevisionWithEditor extends PostRevision {
+  editor?: {
+    full_name: string | null;
+    email: string;
   } | null;
 }
 
@@ -64,8 +81,9 @@ export function useAdminPrograms(filters: ProgramFilters = {}) {
         query = query.eq('category', category);
       }
 
-      if (search && search.trim()) {
-        query = query.or(`title.ilike.%${search}%,organization.ilike.%${search}%`);
+      const searchFilter = buildIlikeFilter(['title', 'organization'], search);
+      if (searchFilter) {
+        query = query.or(searchFilter);
       }
 
       const { data, error } = await query;
@@ -178,8 +196,13 @@ export function useAdminPosts(filters: PostFilters = {}) {
         .from('posts')
         .select(`
           *,
-          author:profiles!posts_author_id_fkey(full_name, email, avatar_url, company_name)
+          author:profiles!posts_author_id_fkey(full_name, email, avatar_url, company_name, role),
+          anonymous_authors(
+            author:profiles!anonymous_authors_author_id_fkey(full_name, email, avatar_url, company_name, role)
+          )
         `)
+        // Only the post's own row, not those of anonymous comments
+        .is('anonymous_authors.comment_id', null)
         .order('created_at', { ascending: false });
 
       if (!showHidden) {
@@ -191,7 +214,7 @@ export function useAdminPosts(filters: PostFilters = {}) {
       }
 
       if (search && search.trim()) {
-        query = query.ilike('content', `%${search}%`);
+        query = query.ilike('content', `%${escapeLikePattern(search.trim())}%`);
       }
 
       const { data, error } = await query;
@@ -200,22 +223,90 @@ export function useAdminPosts(filters: PostFilters = {}) {
         throw new Error(error.message);
       }
 
-      return data as PostWithAuthor[];
+      return ((data || []) as unknown as AdminPostRow[]).map(({ anonymous_authors, ...post }) => ({
+        ...post,
+        author: post.author ?? anonymous_authors[0]?.author ?? null,
+      }));
+    },
+  });
+}
+
+/**
+ * Hook to fetch the edit history of a post, oldest first.
+ * Each revision holds the version that was replaced by the edit.
+ */
+export function usePostRevisions(postId: number | null) {
+  return useQuery({
+    queryKey: ['admin', 'posts', postId, 'revisions'],
+    queryFn: async (): Promise<PostRevisionWithEditor[]> => {
+      const { data, error } = await supabase
+        .from('post_revisions')
+        .select(`
+          *,
+          editor:profiles!post_revisions_editor_id_fkey(full_name, email)
+        `)
+        .eq('post_id', postId!)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data as PostRevisionWithEditor[];
     },
+    enabled: postId !== null,
   });
 }
 
 /**
- * Hook to pin/unpin a post
+ * Hook to pin/unpin a post, optionally until an expiry time
+ * (pinnedUntil null keeps it pinned until unpinned)
  */
 export function useTogglePinPost() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ postId, isPinned }: { postId: number; isPinned: boolean }) => {
+    mutationFn: async ({
+      postId,
+      isPinned,
+      pinnedUntil = null,
+    }: {
+      postId: number;
+      isPinned: boolean;
+      pinnedUntil?: string | null;
+    }) => {
+      const { error } = await supabase
+        .from('posts')
+        .update({
+          is_pinned: isPinned,
+          pinned_until: isPinned ? pinnedUntil : null,
+        })
+        .eq('id', postId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { success: true };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'posts'] });
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.announcements() });
+    },
+  });
+}
+
+/**
+ * Hook to mark/unmark an admin-authored post as a notice
+ */
+export function useToggleNoticePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ postId, isNotice }: { postId: number; isNotice: boolean }) => {
       const { error } = await supabase
         .from('posts')
-        .update({ is_pinned: isPinned })
+        .update({ is_notice: isNotice })
         .eq('id', postId);
 
       if (error) {
@@ -226,6 +317,7 @@ export function useTogglePinPost() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin', 'posts'] });
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.announcements() });
     },
   });
 }
@@ -2,6 +2,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
+import { buildIlikeFilter } from '@/lib/search';
 import type { Database } from '@/types/database';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -42,8 +43,9 @@ export function useMembers(filters: MemberFilters = {}) {
       }
 
       // Search filter
-      if (search && search.trim()) {
-        query = query.or(`full_name.ilike.%${search}%,email.ilike.%${search}%,company_name.ilike.%${search}%`);
+      const searchFilter = buildIlikeFilter(['full_name', 'email', 'company_name'], search);
+      if (searchFilter) {
+        query = query.or(searchFilter);
       }
 
       const { data, error } = await query;
@@ -0,0 +1,67 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import type { Database } from '@/types/database';
+
+export type ReportQueueStatus = Database['public']['Enums']['report_status'];
+export type ReportQueueItem =
+  Database['public']['Functions']['get_report_queue']['Returns'][number];
+export type ModerationAction =
+  Database['public']['Functions']['moderate_report_target']['Args']['p_action'];
+
+interface ModerateReportInput {
+  targetType: ReportQueueItem['target_type'];
+  targetId: string;
+  action: ModerationAction;
+  note?: string;
+}
+
+/**
+ * Hook to fetch reports grouped by reported content for the moderation queue
+ */
+export function useReportQueue(status: ReportQueueStatus = 'pending') {
+  return useQuery({
+    queryKey: ['admin', 'reports', { status }],
+    queryFn: async (): Promise<ReportQueueItem[]> => {
+      const { data, error } = await supabase.rpc('get_report_queue', {
+        p_status: status,
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data ?? [];
+    },
+  });
+}
+
+/**
+ * Hook to resolve, dismiss or hide reported content.
+ * Hiding also records the note as the hidden reason and notifies the author.
+ */
+export function useModerateReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ targetType, targetId, action, note }: ModerateReportInput) => {
+      const { data, error } = await supabase.rpc('moderate_report_target', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_action: action,
+        p_note: note?.trim() || undefined,
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'reports'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'posts'] });
+    },
+  });
+}
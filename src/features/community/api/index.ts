@@ -8,33 +8,91 @@
 export {
   // Posts
   usePosts,
+  usePersonalizedFeed,
   usePost,
   useCreatePost,
+  useUpdatePost,
   useDeletePost,
+  // Announcements
+  usePinnedPosts,
+  useNotices,
+  // Drafts
+  useDrafts,
   // Comments
   useComments,
   useCreateComment,
+  useUpdateComment,
   useDeleteComment,
-  // Likes
-  useLikeMutation,
+  // Reactions
+  useReactors,
+  useReactionMutation,
   // Bookmarks
   useBookmarkMutation,
+  // Mentions
+  useMentionSuggestions,
+  // Tags
+  useTrendingTags,
+  useFollowedTags,
+  useTag,
+  useTagFollowMutation,
+  // Polls
+  usePoll,
+  usePollVoteMutation,
+  // Link previews
+  useLinkPreview,
 } from './queries';
 
 // Re-export types and query keys for external use
 export type {
   Post,
   PostWithAuthor,
+  PostStatus,
+  DraftPost,
   Comment,
   CommentWithAuthor,
   Author,
+  MentionedUser,
+  MentionSuggestion,
+  Tag,
+  TrendingTag,
+  TagDetail,
+  Poll,
+  PollOption,
+  LinkPreview,
+  PostAttachment,
+  UploadedAttachment,
+  QuotedPost,
+  NoticeSummary,
   Like,
+  Reactor,
+  ReactionType,
+  ReactionCounts,
   FeedCursor,
   FeedPage,
+  FeedSort,
+  FeedScope,
+  FeedRankReason,
+  FeedOptions,
   CreatePostInput,
+  CreatePollInput,
+  PollVoteInput,
+  UpdatePostInput,
   CreateCommentInput,
+  UpdateCommentInput,
   LikeInput,
+  ReactionInput,
   PostDetail,
 } from '../types';
 
-export { postQueryKeys, commentQueryKeys, likeQueryKeys, bookmarkQueryKeys } from '../types';
+export {
+  postQueryKeys,
+  draftQueryKeys,
+  commentQueryKeys,
+  mentionQueryKeys,
+  tagQueryKeys,
+  pollQueryKeys,
+  linkPreviewQueryKeys,
+  reactionQueryKeys,
+  likeQueryKeys,
+  bookmarkQueryKeys,
+} from '../types';
@@ -12,128 +12,418 @@ import {
   useQuery,
   useMutation,
   useQueryClient,
+  keepPreviousData,
   type InfiniteData,
 } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
+import { buildIlikeFilter } from '@/lib/search';
+import { applyReactionChange, toReactionCounts } from '@/lib/reactions';
+import { buildCommentTree } from '@/lib/comment-tree';
+import { canPostAnonymously, withOwnAnonymousAuthor } from '@/lib/anonymous';
 import type {
   PostWithAuthor,
   CommentWithAuthor,
   FeedCursor,
   FeedPage,
+  FeedOptions,
+  FeedRankReason,
   CreatePostInput,
+  UpdatePostInput,
   CreateCommentInput,
+  UpdateCommentInput,
   LikeInput,
+  ReactionInput,
+  ReactionType,
+  Reactor,
   Author,
+  MentionedUser,
+  MentionSuggestion,
+  Tag,
+  TrendingTag,
+  TagDetail,
+  Poll,
+  PollVoteInput,
+  LinkPreview,
+  DraftPost,
+  PostAttachment,
+  QuotedPost,
+  NoticeSummary,
+} from '../types';
+import {
+  postQueryKeys,
+  commentQueryKeys,
+  mentionQueryKeys,
+  tagQueryKeys,
+  pollQueryKeys,
+  linkPreviewQueryKeys,
+  draftQueryKeys,
+  reactionQueryKeys,
 } from '../types';
-import { postQueryKeys, commentQueryKeys, bookmarkQueryKeys } from '../types';
 
 // Constants
 const FEED_PAGE_SIZE = 20;
+const MENTION_SUGGESTION_LIMIT = 6;
+const TRENDING_TAG_DAYS = 7;
+const TRENDING_TAG_LIMIT = 10;
+const REACTOR_LIMIT = 50;
+const PINNED_POST_LIMIT = 3;
+const NOTICE_SUMMARY_LIMIT = 3;
 
-// ============================================================================
-// POSTS QUERIES
-// ============================================================================
+/**
+ * Flattens embedded mention rows into the mentioned members
+ */
+export function toMentionedUsers(mentions: Array<{ user: unknown }> | null): MentionedUser[] {
+  return (mentions ?? []).flatMap(({ user }) => {
+    const mentioned = user as { id: string; username: string | null } | null;
+    return mentioned?.username ? [{ id: mentioned.id, username: mentioned.username }] : [];
+  });
+}
 
 /**
- * Fetches a page of posts for the feed with author information
- * Uses cursor-based pagination for stable infinite scroll
+ * Maps embedded post_attachments rows to attachments with download URLs
  */
-async function fetchPostsPage(cursor?: FeedCursor): Promise<FeedPage> {
-  // Get current user for like status check (gracefully handle anon users)
-  let user = null;
-  try {
-    const { data } = await supabase.auth.getUser();
-    user = data.user;
-  } catch {
-    // Anonymous user — continue without like/bookmark status
-  }
+export function toPostAttachments(
+  rows: Array<{
+    id: number;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    storage_path: string;
+    position: number;
+  }> | null
+): PostAttachment[] {
+  return [...(rows ?? [])]
+    .sort((a, b) => a.position - b.position)
+    .map((row) => ({
+      id: row.id,
+      file_name: row.file_name,
+      mime_type: row.mime_type,
+      size_bytes: row.size_bytes,
+      url: supabase.storage
+        .from('post-attachments')
+        .getPublicUrl(row.storage_path, { download: row.file_name }).data.publicUrl,
+    }));
+}
+
+/**
+ * Maps an embedded quoted post; null when the original is gone or not visible
+ */
+export function toQuotedPost(
+  row: {
+    id: number;
+    content: string;
+    media_urls: string[] | null;
+    created_at: string;
+    is_anonymous: boolean;
+    author: unknown;
+  } | null
+): QuotedPost | null {
+  if (!row) return null;
+  return {
+    id: row.id,
+    content: row.content,
+    media_urls: row.media_urls || [],
+    created_at: row.created_at,
+    is_anonymous: row.is_anonymous,
+    author: row.author as Author | null,
+  };
+}
+
+/**
+ * Filter matching the current user's own posts or comments. Anonymous rows
+ * have no author_id; RLS limits changes to those to their author.
+ */
+function ownRowsFilter(userId: string): string {
+  return `author_id.eq.${userId},is_anonymous.eq.true`;
+}
+
+/**
+ * Ids of the given anonymous posts (or comments) the user wrote. Admins can
+ * read every anonymous author, so the rows are filtered by user as well.
+ */
+async function fetchOwnAnonymousIds(
+  type: 'post' | 'comment',
+  ids: number[],
+  userId: string
+): Promise<Set<number>> {
+  if (ids.length === 0) return new Set();
 
-  // Build the query
   let query = supabase
-    .from('posts')
-    .select(
-      `
+    .from('anonymous_authors')
+    .select('post_id, comment_id')
+    .eq('author_id', userId);
+  query =
+    type === 'post'
+      ? query.is('comment_id', null).in('post_id', ids)
+      : query.in('comment_id', ids);
+
+  const { data } = await query;
+  return new Set(
+    (data || []).map((row) => (type === 'post' ? row.post_id : (row.comment_id as number)))
+  );
+}
+
+// ============================================================================
+// POSTS QUERIES
+// ============================================================================
+
+// Columns selected for feed posts
+const FEED_POST_SELECT = `
       id,
       author_id,
       content,
       media_urls,
       like_count,
+      reaction_counts,
       comment_count,
+      repost_count,
       is_pinned,
+      pinned_until,
+      is_notice,
+      is_anonymous,
       is_hidden,
       created_at,
       updated_at,
+      edited_at,
+      quoted_post_id,
+      is_quote,
       author:profiles!author_id(
         id,
         full_name,
         avatar_url,
         company_name
+      ),
+      quoted_post:posts!quoted_post_id(
+        id,
+        content,
+        media_urls,
+        created_at,
+        is_anonymous,
+        author:profiles!author_id(
+          id,
+          full_name,
+          avatar_url,
+          company_name
+        )
+      ),
+      mentions(
+        user:profiles!mentioned_user_id(
+          id,
+          username
+        )
+      ),
+      poll:polls(id),
+      attachments:post_attachments(
+        id,
+        file_name,
+        mime_type,
+        size_bytes,
+        storage_path,
+        position
       )
-    `
-    )
-    .eq('is_hidden', false)
-    .order('created_at', { ascending: false })
-    .order('id', { ascending: false })
-    .limit(FEED_PAGE_SIZE + 1); // Fetch one extra to check if there's a next page
-
-  // Apply cursor for pagination
-  if (cursor) {
-    query = query.or(
-      `created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`
-    );
-  }
+    `;
+
+/**
+ * Base query for feed posts; sorting and filtering are applied by the caller
+ */
+function selectFeedPosts() {
+  return supabase.from('posts').select(FEED_POST_SELECT);
+}
+
+type FeedPostRow = NonNullable<Awaited<ReturnType<typeof selectFeedPosts>>['data']>[number];
 
-  const { data: rawPosts, error } = await query;
+/**
+ * Fetches feed rows for ranked post ids, keeping the ranking order
+ */
+async function fetchFeedPostsByIds(rankedIds: number[]): Promise<FeedPostRow[]> {
+  if (rankedIds.length === 0) return [];
+
+  const { data: rawPosts, error } = await selectFeedPosts().in('id', rankedIds);
 
   if (error) {
     throw new Error(`Failed to fetch posts: ${error.message}`);
   }
 
-  const posts = rawPosts || [];
-  const hasNextPage = posts.length > FEED_PAGE_SIZE;
-  const postsToReturn = hasNextPage ? posts.slice(0, FEED_PAGE_SIZE) : posts;
+  // Restore the ranking order
+  const postById = new Map((rawPosts || []).map((p) => [p.id, p]));
+  return rankedIds.flatMap((id) => {
+    const post = postById.get(id);
+    return post ? [post] : [];
+  });
+}
 
-  // If user is logged in, batch check like and bookmark status for all posts
-  let likedPostIds = new Set<number>();
+/**
+ * Maps feed rows to posts, with the current user's reaction and bookmark
+ * status batch checked (both unset for anonymous visitors)
+ */
+async function toFeedPosts(
+  posts: FeedPostRow[],
+  userId: string | null
+): Promise<PostWithAuthor[]> {
+  // If user is logged in, batch check reaction and bookmark status for all
+  // posts, and which anonymous posts are their own
+  let reactionByPostId = new Map<number, ReactionType>();
   let bookmarkedPostIds = new Set<number>();
-  if (user && postsToReturn.length > 0) {
-    const postIds = postsToReturn.map((p) => p.id);
-    const [likesResult, bookmarksResult] = await Promise.all([
+  let ownAnonymousPostIds = new Set<number>();
+  if (userId && posts.length > 0) {
+    const postIds = posts.map((p) => p.id);
+    const anonymousPostIds = posts.filter((p) => p.is_anonymous).map((p) => p.id);
+    const [likesResult, bookmarksResult, ownAnonymousIds] = await Promise.all([
       supabase
         .from('likes')
-        .select('likeable_id')
+        .select('likeable_id, reaction')
         .eq('likeable_type', 'post')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .in('likeable_id', postIds),
       supabase
         .from('bookmarks')
         .select('bookmarkable_id')
         .eq('bookmarkable_type', 'post')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .in('bookmarkable_id', postIds),
+      fetchOwnAnonymousIds('post', anonymousPostIds, userId),
     ]);
 
-    likedPostIds = new Set(likesResult.data?.map((l) => l.likeable_id) || []);
+    reactionByPostId = new Map(likesResult.data?.map((l) => [l.likeable_id, l.reaction]) || []);
     bookmarkedPostIds = new Set(bookmarksResult.data?.map((b) => b.bookmarkable_id) || []);
+    ownAnonymousPostIds = ownAnonymousIds;
   }
 
-  // Transform posts to include like and bookmark status
-  const postsWithAuthor: PostWithAuthor[] = postsToReturn.map((post) => ({
+  // Transform posts to include reaction and bookmark status
+  const feedPosts: PostWithAuthor[] = posts.map((post) => ({
     id: post.id,
     author_id: post.author_id,
     content: post.content,
     media_urls: post.media_urls || [],
     like_count: post.like_count,
+    reaction_counts: toReactionCounts(post.reaction_counts),
     comment_count: post.comment_count,
+    repost_count: post.repost_count,
     is_pinned: post.is_pinned,
+    pinned_until: post.pinned_until,
+    is_notice: post.is_notice,
+    is_anonymous: post.is_anonymous,
     is_hidden: post.is_hidden,
     created_at: post.created_at,
     updated_at: post.updated_at,
-    author: post.author as Author,
-    is_liked: likedPostIds.has(post.id),
+    edited_at: post.edited_at,
+    quoted_post_id: post.quoted_post_id,
+    is_quote: post.is_quote,
+    author: post.author as Author | null,
+    is_liked: reactionByPostId.has(post.id),
+    my_reaction: reactionByPostId.get(post.id) ?? null,
     is_bookmarked: bookmarkedPostIds.has(post.id),
+    mentions: toMentionedUsers(post.mentions),
+    poll_id: post.poll?.id ?? null,
+    attachments: toPostAttachments(post.attachments),
+    quoted_post: toQuotedPost(post.quoted_post),
   }));
 
+  return userId ? withOwnAnonymousAuthor(feedPosts, ownAnonymousPostIds, userId) : feedPosts;
+}
+
+/**
+ * Fetches a page of posts for the feed with author information
+ * Uses cursor-based pagination for stable infinite scroll
+ *
+ * - latest: keyset on (created_at, id)
+ * - following: latest, limited to authors the user follows
+ * - trending / top_week / tag filter: ranked ids come from the get_ranked_post_ids
+ *   RPC, keyset on (score, id) with scores fixed to the first page's as_of time
+ */
+async function fetchPostsPage(
+  { sort = 'latest', scope = 'all', tag }: FeedOptions,
+  cursor?: FeedCursor
+): Promise<FeedPage> {
+  // Get current user for like status check (gracefully handle anon users)
+  let user = null;
+  try {
+    const { data } = await supabase.auth.getUser();
+    user = data.user;
+  } catch {
+    // Anonymous user — continue without like/bookmark status
+  }
+
+  let posts: FeedPostRow[];
+  let scoreById = new Map<number, number>();
+  const asOf = cursor?.as_of ?? new Date().toISOString();
+  const isFollowing = scope === 'following';
+  // post_tags can only be filtered through the RPC
+  const isRanked = !isFollowing && (sort !== 'latest' || !!tag);
+
+  // Authors shown in the following feed
+  let followingIds: string[] | null = null;
+  if (isFollowing) {
+    if (!user) {
+      return { posts: [], nextCursor: null, hasNextPage: false };
+    }
+
+    const { data: follows, error: followsError } = await supabase
+      .from('follows')
+      .select('following_id')
+      .eq('follower_id', user.id);
+
+    if (followsError) {
+      throw new Error(`Failed to fetch posts: ${followsError.message}`);
+    }
+
+    followingIds = (follows || []).map((f) => f.following_id);
+    if (followingIds.length === 0) {
+      return { posts: [], nextCursor: null, hasNextPage: false };
+    }
+  }
+
+  if (!isRanked) {
+    // Build the query
+    let query = selectFeedPosts()
+      .eq('is_hidden', false)
+      // RLS shows authors their own drafts; keep those out of the feed
+      .eq('status', 'published')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(FEED_PAGE_SIZE + 1); // Fetch one extra to check if there's a next page
+
+    if (followingIds) {
+      query = query.in('author_id', followingIds);
+    }
+
+    // Apply cursor for pagination
+    if (cursor) {
+      query = query.or(
+        `created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`
+      );
+    }
+
+    const { data: rawPosts, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch posts: ${error.message}`);
+    }
+
+    posts = rawPosts || [];
+  } else {
+    const { data: ranked, error: rankError } = await supabase.rpc('get_ranked_post_ids', {
+      p_sort: sort,
+      p_as_of: asOf,
+      p_cursor_score: cursor?.score,
+      p_cursor_id: cursor?.id,
+      p_limit: FEED_PAGE_SIZE + 1, // Fetch one extra to check if there's a next page
+      p_tag: tag,
+    });
+
+    if (rankError) {
+      throw new Error(`Failed to fetch posts: ${rankError.message}`);
+    }
+
+    scoreById = new Map((ranked || []).map((r) => [r.post_id, r.score]));
+    posts = await fetchFeedPostsByIds((ranked || []).map((r) => r.post_id));
+  }
+
+  const hasNextPage = posts.length > FEED_PAGE_SIZE;
+  const postsToReturn = hasNextPage ? posts.slice(0, FEED_PAGE_SIZE) : posts;
+
+  const postsWithAuthor = await toFeedPosts(postsToReturn, user?.id ?? null);
+
   // Calculate next cursor
   const lastPost = postsToReturn[postsToReturn.length - 1];
   const nextCursor: FeedCursor | null =
@@ -141,6 +431,10 @@ async function fetchPostsPage(cursor?: FeedCursor): Promise<FeedPage> {
       ? {
           created_at: lastPost.created_at,
           id: lastPost.id,
+          ...(isRanked && {
+            score: scoreById.get(lastPost.id),
+            as_of: asOf,
+          }),
         }
       : null;
 
@@ -156,21 +450,212 @@ async function fetchPostsPage(cursor?: FeedCursor): Promise<FeedPage> {
  *
  * Features:
  * - Cursor-based pagination for stable infinite scroll
+ * - Sort by latest (default), trending, or top_week
+ * - Following scope for posts by followed members only
+ * - Optional hashtag filter for tag pages
  * - Posts loaded with author info via JOIN
  * - Like status batch checked per page
+ *
+ * @param enabled - Whether to fetch
  */
-export function usePosts() {
+export function usePosts({ sort = 'latest', scope = 'all', tag }: FeedOptions = {}, enabled = true) {
   return useInfiniteQuery<
     FeedPage,
     Error,
     InfiniteData<FeedPage>,
-    ReturnType<typeof postQueryKeys.lists>,
+    ReturnType<typeof postQueryKeys.list>,
     FeedCursor | undefined
   >({
-    queryKey: postQueryKeys.lists(),
-    queryFn: ({ pageParam }) => fetchPostsPage(pageParam),
+    queryKey: postQueryKeys.list({ sort, scope, tag }),
+    queryFn: ({ pageParam }) => fetchPostsPage({ sort, scope, tag }, pageParam),
     getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
     initialPageParam: undefined,
+    enabled,
+  });
+}
+
+/**
+ * Factors of a For you score, as returned by get_personalized_post_ids
+ */
+interface PersonalizedScore {
+  industry_boost: number;
+  stage_boost: number;
+  engagement_boost: number;
+}
+
+/**
+ * Explains a For you score: every factor that boosted the post
+ */
+export function toRankReasons(score: PersonalizedScore): FeedRankReason[] {
+  const reasons: FeedRankReason[] = [];
+  if (score.industry_boost > 1) reasons.push('same_industry');
+  if (score.stage_boost > 1) reasons.push('same_stage');
+  if (score.engagement_boost > 1) reasons.push('engaged_author');
+  return reasons;
+}
+
+/**
+ * Fetches a page of the For you feed
+ * Ranked ids come from the get_personalized_post_ids RPC, keyset on
+ * (score, id) with scores fixed to the first page's as_of time
+ */
+async function fetchPersonalizedPage(cursor?: FeedCursor): Promise<FeedPage> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { posts: [], nextCursor: null, hasNextPage: false };
+  }
+
+  const asOf = cursor?.as_of ?? new Date().toISOString();
+  const { data: ranked, error } = await supabase.rpc('get_personalized_post_ids', {
+    p_as_of: asOf,
+    p_cursor_score: cursor?.score,
+    p_cursor_id: cursor?.id,
+    p_limit: FEED_PAGE_SIZE + 1, // Fetch one extra to check if there's a next page
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch posts: ${error.message}`);
+  }
+
+  const rows = ranked || [];
+  const hasNextPage = rows.length > FEED_PAGE_SIZE;
+  const rowsToReturn = hasNextPage ? rows.slice(0, FEED_PAGE_SIZE) : rows;
+  const scoreById = new Map(rowsToReturn.map((row) => [row.post_id, row]));
+
+  const posts = await fetchFeedPostsByIds(rowsToReturn.map((row) => row.post_id));
+  const postsWithAuthor = (await toFeedPosts(posts, user.id)).map((post) => {
+    const score = scoreById.get(post.id);
+    return { ...post, rank_reasons: score ? toRankReasons(score) : [] };
+  });
+
+  const lastRow = rowsToReturn[rowsToReturn.length - 1];
+  const lastPost = posts.find((post) => post.id === lastRow?.post_id);
+  const nextCursor: FeedCursor | null =
+    hasNextPage && lastRow
+      ? {
+          created_at: lastPost?.created_at ?? asOf,
+          id: lastRow.post_id,
+          score: lastRow.score,
+          as_of: asOf,
+        }
+      : null;
+
+  return {
+    posts: postsWithAuthor,
+    nextCursor,
+    hasNextPage,
+  };
+}
+
+/**
+ * usePersonalizedFeed - Infinite query hook for the For you feed
+ *
+ * Features:
+ * - Ranks posts for the signed-in member (empty for anonymous visitors):
+ *   same industry or business stage as the member, and authors the member
+ *   engaged with recently, are boosted over time-decayed engagement
+ * - Each post carries the reasons it was recommended (rank_reasons)
+ * - Cursor-based pagination with scores fixed for one scroll session
+ *
+ * @param enabled - Whether to fetch
+ */
+export function usePersonalizedFeed(enabled = true) {
+  return useInfiniteQuery<
+    FeedPage,
+    Error,
+    InfiniteData<FeedPage>,
+    ReturnType<typeof postQueryKeys.list>,
+    FeedCursor | undefined
+  >({
+    queryKey: postQueryKeys.list({ scope: 'for_you' }),
+    queryFn: ({ pageParam }) => fetchPersonalizedPage(pageParam),
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    initialPageParam: undefined,
+    enabled,
+  });
+}
+
+/**
+ * usePinnedPosts - Query hook for the announcements region of the feed
+ *
+ * Pinned, published posts whose pin has not expired, newest first.
+ *
+ * @param enabled - Whether to fetch (only the main feed shows pinned posts)
+ */
+export function usePinnedPosts(enabled = true) {
+  return useQuery({
+    queryKey: postQueryKeys.pinned(),
+    queryFn: async (): Promise<PostWithAuthor[]> => {
+      let user = null;
+      try {
+        const { data } = await supabase.auth.getUser();
+        user = data.user;
+      } catch {
+        // Anonymous user
+      }
+
+      const { data, error } = await selectFeedPosts()
+        .eq('is_pinned', true)
+        .eq('is_hidden', false)
+        .eq('status', 'published')
+        .or(`pinned_until.is.null,pinned_until.gt.${new Date().toISOString()}`)
+        .order('created_at', { ascending: false })
+        .limit(PINNED_POST_LIMIT);
+
+      if (error) {
+        throw new Error(`Failed to fetch pinned posts: ${error.message}`);
+      }
+
+      return toFeedPosts(data || [], user?.id ?? null);
+    },
+    enabled,
+  });
+}
+
+/**
+ * useNotices - Query hook for the latest admin notices (home page summary)
+ *
+ * @param limit - Maximum number of notices
+ */
+export function useNotices(limit = NOTICE_SUMMARY_LIMIT) {
+  return useQuery({
+    queryKey: postQueryKeys.notices(limit),
+    queryFn: async (): Promise<NoticeSummary[]> => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select(
+          `
+          id,
+          content,
+          created_at,
+          is_pinned,
+          pinned_until,
+          author:profiles!author_id(
+            id,
+            full_name,
+            avatar_url,
+            company_name
+          )
+        `
+        )
+        .eq('is_notice', true)
+        .eq('is_hidden', false)
+        .eq('status', 'published')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to fetch notices: ${error.message}`);
+      }
+
+      return (data || []).map((notice) => ({
+        ...notice,
+        author: notice.author as Author,
+      }));
+    },
   });
 }
 
@@ -195,16 +680,52 @@ async function fetchPost(id: number): Promise<PostWithAuthor> {
       content,
       media_urls,
       like_count,
+      reaction_counts,
       comment_count,
+      repost_count,
       is_pinned,
+      pinned_until,
+      is_notice,
+      is_anonymous,
       is_hidden,
       created_at,
       updated_at,
+      edited_at,
+      quoted_post_id,
+      is_quote,
       author:profiles!author_id(
         id,
         full_name,
         avatar_url,
         company_name
+      ),
+      quoted_post:posts!quoted_post_id(
+        id,
+        content,
+        media_urls,
+        created_at,
+        is_anonymous,
+        author:profiles!author_id(
+          id,
+          full_name,
+          avatar_url,
+          company_name
+        )
+      ),
+      mentions(
+        user:profiles!mentioned_user_id(
+          id,
+          username
+        )
+      ),
+      poll:polls(id),
+      attachments:post_attachments(
+        id,
+        file_name,
+        mime_type,
+        size_bytes,
+        storage_path,
+        position
       )
     `
     )
@@ -215,14 +736,16 @@ async function fetchPost(id: number): Promise<PostWithAuthor> {
     throw new Error(`Failed to fetch post: ${error.message}`);
   }
 
-  // Check if user liked and bookmarked this post
-  let isLiked = false;
+  // Check if user reacted to and bookmarked this post, and whether they
+  // wrote it anonymously
+  let myReaction: ReactionType | null = null;
   let isBookmarked = false;
+  let authorId = post.author_id;
   if (user) {
-    const [likeResult, bookmarkResult] = await Promise.all([
+    const [likeResult, bookmarkResult, ownAnonymousIds] = await Promise.all([
       supabase
         .from('likes')
-        .select('id')
+        .select('reaction')
         .eq('likeable_type', 'post')
         .eq('likeable_id', id)
         .eq('user_id', user.id)
@@ -234,26 +757,41 @@ async function fetchPost(id: number): Promise<PostWithAuthor> {
         .eq('bookmarkable_id', id)
         .eq('user_id', user.id)
         .maybeSingle(),
+      fetchOwnAnonymousIds('post', post.is_anonymous ? [post.id] : [], user.id),
     ]);
 
-    isLiked = !!likeResult.data;
+    myReaction = likeResult.data?.reaction ?? null;
     isBookmarked = !!bookmarkResult.data;
+    if (ownAnonymousIds.has(post.id)) authorId = user.id;
   }
 
   return {
     id: post.id,
-    author_id: post.author_id,
+    author_id: authorId,
     content: post.content,
     media_urls: post.media_urls || [],
     like_count: post.like_count,
+    reaction_counts: toReactionCounts(post.reaction_counts),
     comment_count: post.comment_count,
+    repost_count: post.repost_count,
     is_pinned: post.is_pinned,
+    pinned_until: post.pinned_until,
+    is_notice: post.is_notice,
+    is_anonymous: post.is_anonymous,
     is_hidden: post.is_hidden,
     created_at: post.created_at,
     updated_at: post.updated_at,
-    author: post.author as Author,
-    is_liked: isLiked,
+    edited_at: post.edited_at,
+    quoted_post_id: post.quoted_post_id,
+    is_quote: post.is_quote,
+    author: post.author as Author | null,
+    is_liked: myReaction !== null,
+    my_reaction: myReaction,
     is_bookmarked: isBookmarked,
+    mentions: toMentionedUsers(post.mentions),
+    poll_id: post.poll?.id ?? null,
+    attachments: toPostAttachments(post.attachments),
+    quoted_post: toQuotedPost(post.quoted_post),
   };
 }
 
@@ -264,42 +802,509 @@ async function fetchPost(id: number): Promise<PostWithAuthor> {
  */
 export function usePost(id: number) {
   return useQuery({
-    queryKey: postQueryKeys.detail(id),
-    queryFn: () => fetchPost(id),
-    enabled: !!id,
+    queryKey: postQueryKeys.detail(id),
+    queryFn: () => fetchPost(id),
+    enabled: !!id,
+  });
+}
+
+// ============================================================================
+// COMMENTS QUERIES
+// ============================================================================
+
+// Columns selected for comments
+const COMMENT_SELECT = `
+      id,
+      post_id,
+      author_id,
+      parent_id,
+      content,
+      like_count,
+      reaction_counts,
+      is_hidden,
+      created_at,
+      updated_at,
+      edited_at,
+      deleted_at,
+      is_anonymous,
+      anonymous_number,
+      author:profiles!author_id(
+        id,
+        full_name,
+        avatar_url,
+        company_name
+      ),
+      mentions(
+        user:profiles!mentioned_user_id(
+          id,
+          username
+        )
+      )
+    `;
+
+/**
+ * Base query for comments; filtering and ordering are applied by the caller
+ */
+function selectComments() {
+  return supabase.from('comments').select(COMMENT_SELECT);
+}
+
+type CommentRow = NonNullable<Awaited<ReturnType<typeof selectComments>>['data']>[number];
+
+function toCommentWithAuthor(
+  comment: CommentRow,
+  myReaction: ReactionType | null
+): CommentWithAuthor {
+  return {
+    id: comment.id,
+    post_id: comment.post_id,
+    author_id: comment.author_id,
+    parent_id: comment.parent_id,
+    content: comment.content,
+    like_count: comment.like_count,
+    reaction_counts: toReactionCounts(comment.reaction_counts),
+    is_hidden: comment.is_hidden,
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+    edited_at: comment.edited_at,
+    deleted_at: comment.deleted_at,
+    is_anonymous: comment.is_anonymous,
+    anonymous_number: comment.anonymous_number,
+    author: comment.author as Author | null,
+    is_liked: myReaction !== null,
+    my_reaction: myReaction,
+    mentions: toMentionedUsers(comment.mentions),
+  };
+}
+
+/**
+ * Fetches comments for a post, organized with nested replies at any depth
+ */
+async function fetchComments(postId: number): Promise<CommentWithAuthor[]> {
+  let user = null;
+  try {
+    const { data } = await supabase.auth.getUser();
+    user = data.user;
+  } catch {
+    // Anonymous user
+  }
+
+  const { data: rawComments, error } = await selectComments()
+    .eq('post_id', postId)
+    .eq('is_hidden', false)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch comments: ${error.message}`);
+  }
+
+  const comments = rawComments || [];
+
+  // Batch check reaction status for all comments, and which anonymous
+  // comments are the user's own
+  let reactionByCommentId = new Map<number, ReactionType>();
+  let ownAnonymousCommentIds = new Set<number>();
+  if (user && comments.length > 0) {
+    const commentIds = comments.map((c) => c.id);
+    const anonymousCommentIds = comments.filter((c) => c.is_anonymous).map((c) => c.id);
+    const [{ data: userLikes }, ownAnonymousIds] = await Promise.all([
+      supabase
+        .from('likes')
+        .select('likeable_id, reaction')
+        .eq('likeable_type', 'comment')
+        .eq('user_id', user.id)
+        .in('likeable_id', commentIds),
+      fetchOwnAnonymousIds('comment', anonymousCommentIds, user.id),
+    ]);
+
+    reactionByCommentId = new Map(userLikes?.map((l) => [l.likeable_id, l.reaction]) || []);
+    ownAnonymousCommentIds = ownAnonymousIds;
+  }
+
+  // Transform comments with reaction status
+  let commentsWithAuthor = comments.map((comment) =>
+    toCommentWithAuthor(comment, reactionByCommentId.get(comment.id) ?? null)
+  );
+  if (user) {
+    commentsWithAuthor = withOwnAnonymousAuthor(commentsWithAuthor, ownAnonymousCommentIds, user.id);
+  }
+
+  // Organize into nested structure (top-level comments with replies);
+  // deleted comments only remain as placeholders for their replies
+  return buildCommentTree(commentsWithAuthor);
+}
+
+/**
+ * Fetches a single visible comment, without the current user's reaction
+ * (used by the realtime thread subscription, which keeps the cached one)
+ */
+export async function fetchComment(commentId: number): Promise<CommentWithAuthor | null> {
+  const { data, error } = await selectComments()
+    .eq('id', commentId)
+    .eq('is_hidden', false)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch comment: ${error.message}`);
+  }
+
+  return data ? toCommentWithAuthor(data, null) : null;
+}
+
+/**
+ * useComments - Query hook for comments on a post
+ *
+ * @param postId - The post ID to fetch comments for
+ */
+export function useComments(postId: number) {
+  return useQuery({
+    queryKey: commentQueryKeys.list(postId),
+    queryFn: () => fetchComments(postId),
+    enabled: !!postId,
+  });
+}
+
+// ============================================================================
+// MENTION QUERIES
+// ============================================================================
+
+/**
+ * Fetches members whose username, nickname or name contains the query.
+ * Only members with a username can be mentioned.
+ */
+async function fetchMentionSuggestions(query: string): Promise<MentionSuggestion[]> {
+  let request = supabase
+    .from('profiles')
+    .select('id, username, nickname, full_name, avatar_url')
+    .not('username', 'is', null)
+    .order('username', { ascending: true })
+    .limit(MENTION_SUGGESTION_LIMIT);
+
+  const filter = buildIlikeFilter(['username', 'nickname', 'full_name'], query);
+  if (filter) {
+    request = request.or(filter);
+  }
+
+  const { data, error } = await request;
+
+  if (error) {
+    throw new Error(`Failed to fetch mention suggestions: ${error.message}`);
+  }
+
+  return (data || []).flatMap((profile) =>
+    profile.username ? [{ ...profile, username: profile.username }] : []
+  );
+}
+
+/**
+ * useMentionSuggestions - Query hook for @mention autocomplete
+ *
+ * @param query - Text typed after the @, or null when no mention is active
+ */
+export function useMentionSuggestions(query: string | null) {
+  return useQuery({
+    queryKey: mentionQueryKeys.suggestions(query ?? ''),
+    queryFn: () => fetchMentionSuggestions(query ?? ''),
+    enabled: query !== null,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Fetches the most used tags on recent posts
+ */
+async function fetchTrendingTags(): Promise<TrendingTag[]> {
+  const { data, error } = await supabase.rpc('get_trending_tags', {
+    p_days: TRENDING_TAG_DAYS,
+    p_limit: TRENDING_TAG_LIMIT,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch trending tags: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.tag_id,
+    name: row.name,
+    post_count: row.post_count,
+  }));
+}
+
+/**
+ * useTrendingTags - Query hook for the trending tags sidebar
+ */
+export function useTrendingTags() {
+  return useQuery({
+    queryKey: tagQueryKeys.trending(),
+    queryFn: fetchTrendingTags,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetches the tags a user follows, most recently followed first
+ */
+async function fetchFollowedTags(userId: string): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tag_follows')
+    .select('tag:tags!tag_id(id, name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch followed tags: ${error.message}`);
+  }
+
+  return (data || []).flatMap((row) => (row.tag ? [row.tag as Tag] : []));
+}
+
+/**
+ * useFollowedTags - Query hook for the tags a user follows
+ *
+ * @param userId - The user's ID (disabled for anonymous users)
+ */
+export function useFollowedTags(userId: string | undefined) {
+  return useQuery({
+    queryKey: tagQueryKeys.followed(userId ?? ''),
+    queryFn: () => fetchFollowedTags(userId ?? ''),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Fetches a tag with its post count and follow status.
+ * Returns null when no post has used the tag yet.
+ */
+async function fetchTag(name: string): Promise<TagDetail | null> {
+  let user = null;
+  try {
+    const { data } = await supabase.auth.getUser();
+    user = data.user;
+  } catch {
+    // Anonymous user — never following
+  }
+
+  const { data: tag, error } = await supabase
+    .from('tags')
+    .select('id, name')
+    .eq('name', name)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch tag: ${error.message}`);
+  }
+
+  if (!tag) return null;
+
+  const [countResult, followResult] = await Promise.all([
+    supabase
+      .from('post_tags')
+      .select('post_id, post:posts!inner(id)', { count: 'exact', head: true })
+      .eq('tag_id', tag.id)
+      .eq('post.is_hidden', false)
+      .eq('post.status', 'published'),
+    user
+      ? supabase
+          .from('tag_follows')
+          .select('tag_id')
+          .eq('tag_id', tag.id)
+          .eq('user_id', user.id)
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (countResult.error) {
+    throw new Error(`Failed to fetch tag: ${countResult.error.message}`);
+  }
+
+  return {
+    id: tag.id,
+    name: tag.name,
+    post_count: countResult.count ?? 0,
+    is_following: !!followResult.data,
+  };
+}
+
+/**
+ * useTag - Query hook for the tag page header
+ *
+ * @param name - Normalized tag name (lowercase, without #)
+ */
+export function useTag(name: string | null) {
+  return useQuery({
+    queryKey: tagQueryKeys.detail(name ?? ''),
+    queryFn: () => fetchTag(name ?? ''),
+    enabled: !!name,
+  });
+}
+
+// ============================================================================
+// POLL QUERIES
+// ============================================================================
+
+/**
+ * Fetches a poll with its options, vote counts and the current user's votes
+ */
+async function fetchPoll(pollId: number): Promise<Poll> {
+  let user = null;
+  try {
+    const { data } = await supabase.auth.getUser();
+    user = data.user;
+  } catch {
+    // Anonymous user — no votes
+  }
+
+  const [pollResult, votesResult] = await Promise.all([
+    supabase
+      .from('polls')
+      .select(
+        `
+        id,
+        post_id,
+        allows_multiple,
+        closes_at,
+        options:poll_options(
+          id,
+          label,
+          position,
+          vote_count
+        )
+      `
+      )
+      .eq('id', pollId)
+      .single(),
+    user
+      ? supabase
+          .from('poll_votes')
+          .select('option_id')
+          .eq('poll_id', pollId)
+          .eq('user_id', user.id)
+      : Promise.resolve({ data: [] as Array<{ option_id: number }>, error: null }),
+  ]);
+
+  if (pollResult.error) {
+    throw new Error(`Failed to fetch poll: ${pollResult.error.message}`);
+  }
+
+  const poll = pollResult.data;
+
+  return {
+    id: poll.id,
+    post_id: poll.post_id,
+    allows_multiple: poll.allows_multiple,
+    closes_at: poll.closes_at,
+    options: [...(poll.options || [])].sort((a, b) => a.position - b.position),
+    my_option_ids: (votesResult.data || []).map((v) => v.option_id),
+  };
+}
+
+/**
+ * usePoll - Query hook for a post's poll
+ *
+ * Results are kept live by useRealtimePoll, which refreshes this query.
+ *
+ * @param pollId - The poll ID (disabled when null)
+ */
+export function usePoll(pollId: number | null) {
+  return useQuery({
+    queryKey: pollQueryKeys.detail(pollId ?? 0),
+    queryFn: () => fetchPoll(pollId ?? 0),
+    enabled: !!pollId,
+  });
+}
+
+// ============================================================================
+// LINK PREVIEW QUERIES
+// ============================================================================
+
+/**
+ * Fetches the preview for a link through the link preview API route,
+ * which fetches the page server-side and caches it in link_previews
+ */
+async function fetchLinkPreview(url: string): Promise<LinkPreview | null> {
+  const response = await fetch(`/api/link-preview?url=${encodeURIComponent(url)}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch link preview: ${response.status}`);
+  }
+
+  const { preview } = (await response.json()) as { preview: LinkPreview | null };
+  return preview;
+}
+
+/**
+ * useLinkPreview - Query hook for a post's link preview card
+ *
+ * @param url - Normalized URL (disabled when null)
+ */
+export function useLinkPreview(url: string | null) {
+  return useQuery({
+    queryKey: linkPreviewQueryKeys.detail(url ?? ''),
+    queryFn: () => fetchLinkPreview(url ?? ''),
+    enabled: !!url,
+    staleTime: 60 * 60 * 1000,
+    retry: false,
+  });
+}
+
+// ============================================================================
+// DRAFT QUERIES
+// ============================================================================
+
+/**
+ * Fetches a user's drafts and scheduled posts, most recently edited first
+ */
+async function fetchDrafts(userId: string): Promise<DraftPost[]> {
+  const { data, error } = await supabase
+    .from('posts')
+    .select('id, content, media_urls, status, publish_at, created_at, updated_at')
+    .eq('author_id', userId)
+    .neq('status', 'published')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch drafts: ${error.message}`);
+  }
+
+  return (data || []).map((draft) => ({
+    ...draft,
+    media_urls: draft.media_urls || [],
+    status: draft.status as DraftPost['status'],
+  }));
+}
+
+/**
+ * useDrafts - Query hook for the current user's unpublished posts
+ *
+ * @param userId - The current user's ID (RLS only returns the author's own drafts)
+ */
+export function useDrafts(userId: string | undefined) {
+  return useQuery({
+    queryKey: draftQueryKeys.list(userId ?? ''),
+    queryFn: () => fetchDrafts(userId ?? ''),
+    enabled: !!userId,
   });
 }
 
 // ============================================================================
-// COMMENTS QUERIES
+// REACTION QUERIES
 // ============================================================================
 
 /**
- * Fetches comments for a post, organized with nested replies
+ * Fetches the members who reacted to a post or comment, newest first
  */
-async function fetchComments(postId: number): Promise<CommentWithAuthor[]> {
-  let user = null;
-  try {
-    const { data } = await supabase.auth.getUser();
-    user = data.user;
-  } catch {
-    // Anonymous user
-  }
-
-  const { data: rawComments, error } = await supabase
-    .from('comments')
+async function fetchReactors(
+  likeableType: LikeInput['likeable_type'],
+  likeableId: number
+): Promise<Reactor[]> {
+  const { data, error } = await supabase
+    .from('likes')
     .select(
       `
-      id,
-      post_id,
-      author_id,
-      parent_id,
-      content,
-      like_count,
-      is_hidden,
+      reaction,
       created_at,
-      updated_at,
-      author:profiles!author_id(
+      user:profiles!user_id(
         id,
         full_name,
         avatar_url,
@@ -307,81 +1312,38 @@ async function fetchComments(postId: number): Promise<CommentWithAuthor[]> {
       )
     `
     )
-    .eq('post_id', postId)
-    .eq('is_hidden', false)
-    .order('created_at', { ascending: true });
+    .eq('likeable_type', likeableType)
+    .eq('likeable_id', likeableId)
+    .order('created_at', { ascending: false })
+    .limit(REACTOR_LIMIT);
 
   if (error) {
-    throw new Error(`Failed to fetch comments: ${error.message}`);
-  }
-
-  const comments = rawComments || [];
-
-  // Batch check like status for all comments
-  let likedCommentIds = new Set<number>();
-  if (user && comments.length > 0) {
-    const commentIds = comments.map((c) => c.id);
-    const { data: userLikes } = await supabase
-      .from('likes')
-      .select('likeable_id')
-      .eq('likeable_type', 'comment')
-      .eq('user_id', user.id)
-      .in('likeable_id', commentIds);
-
-    likedCommentIds = new Set(userLikes?.map((l) => l.likeable_id) || []);
+    throw new Error(`Failed to fetch reactions: ${error.message}`);
   }
 
-  // Transform comments with like status
-  const commentsWithAuthor: CommentWithAuthor[] = comments.map((comment) => ({
-    id: comment.id,
-    post_id: comment.post_id,
-    author_id: comment.author_id,
-    parent_id: comment.parent_id,
-    content: comment.content,
-    like_count: comment.like_count,
-    is_hidden: comment.is_hidden,
-    created_at: comment.created_at,
-    updated_at: comment.updated_at,
-    author: comment.author as Author,
-    is_liked: likedCommentIds.has(comment.id),
-  }));
-
-  // Organize into nested structure (top-level comments with replies)
-  const commentMap = new Map<number, CommentWithAuthor>();
-  const topLevelComments: CommentWithAuthor[] = [];
-
-  // First pass: index all comments
-  commentsWithAuthor.forEach((comment) => {
-    commentMap.set(comment.id, { ...comment, replies: [] });
-  });
-
-  // Second pass: organize into tree structure
-  commentsWithAuthor.forEach((comment) => {
-    const commentWithReplies = commentMap.get(comment.id)!;
-    if (comment.parent_id === null) {
-      topLevelComments.push(commentWithReplies);
-    } else {
-      const parent = commentMap.get(comment.parent_id);
-      if (parent) {
-        parent.replies = parent.replies || [];
-        parent.replies.push(commentWithReplies);
-      }
-    }
-  });
-
-  return topLevelComments;
+  return (data || []).flatMap((row) =>
+    row.user
+      ? [{ user: row.user as Author, reaction: row.reaction, created_at: row.created_at }]
+      : []
+  );
 }
 
 /**
- * useComments - Query hook for comments on a post
+ * useReactors - Query hook for the "who reacted" list
  *
- * @param postId - The post ID to fetch comments for
+ * @param likeableType - 'post' or 'comment'
+ * @param likeableId - ID of the post or comment
+ * @param enabled - Only fetch while the list is open
  */
-export function useComments(postId: number) {
+export function useReactors(
+  likeableType: LikeInput['likeable_type'],
+  likeableId: number,
+  enabled = true
+) {
   return useQuery({
-    queryKey: commentQueryKeys.list(postId),
-    queryFn: () => fetchComments(postId),
-    enabled: !!postId,
+    queryKey: reactionQueryKeys.reactors(likeableType, likeableId),
+    queryFn: () => fetchReactors(likeableType, likeableId),
+    enabled,
   });
 }
 
@@ -393,6 +1355,12 @@ export function useComments(postId: number) {
  * useCreatePost - Mutation hook for creating a new post
  *
  * Features:
+ * - Publishes right away, or saves a draft / scheduled post (input.status)
+ * - Links uploaded document attachments and attaches a poll (the post is
+ *   removed if either fails)
+ * - Quotes another post when input.quoted_post_id is set
+ * - Posts under a thread pseudonym when input.is_anonymous is set (with a
+ *   poll, but no images or attachments)
  * - Invalidates feed cache on success
  * - Returns the newly created post
  */
@@ -409,12 +1377,20 @@ export function useCreatePost() {
         throw new Error('You must be logged in to create a post');
       }
 
+      if (input.is_anonymous && !canPostAnonymously(input)) {
+        throw new Error('Anonymous posts cannot include images or attachments');
+      }
+
       const { data, error } = await supabase
         .from('posts')
         .insert({
           author_id: user.id,
           content: input.content,
           media_urls: input.media_urls || [],
+          status: input.status ?? 'published',
+          publish_at: input.publish_at ?? null,
+          quoted_post_id: input.quoted_post_id ?? null,
+          is_anonymous: input.is_anonymous ?? false,
         })
         .select(
           `
@@ -423,16 +1399,37 @@ export function useCreatePost() {
           content,
           media_urls,
           like_count,
+          reaction_counts,
           comment_count,
+          repost_count,
           is_pinned,
+          pinned_until,
+          is_notice,
+          is_anonymous,
           is_hidden,
           created_at,
           updated_at,
+          edited_at,
+          quoted_post_id,
+          is_quote,
           author:profiles!author_id(
             id,
             full_name,
             avatar_url,
             company_name
+          ),
+          quoted_post:posts!quoted_post_id(
+            id,
+            content,
+            media_urls,
+            created_at,
+            is_anonymous,
+            author:profiles!author_id(
+              id,
+              full_name,
+              avatar_url,
+              company_name
+            )
           )
         `
         )
@@ -442,17 +1439,129 @@ export function useCreatePost() {
         throw new Error(`Failed to create post: ${error.message}`);
       }
 
+      let attachments: PostAttachment[] = [];
+      if (input.attachments && input.attachments.length > 0) {
+        const { data: attachmentRows, error: attachmentError } = await supabase
+          .from('post_attachments')
+          .insert(
+            input.attachments.map((attachment, index) => ({
+              ...attachment,
+              post_id: data.id,
+              position: index,
+            }))
+          )
+          .select('id, file_name, mime_type, size_bytes, storage_path, position');
+
+        if (attachmentError) {
+          await supabase.from('posts').delete().eq('id', data.id);
+          throw new Error(`Failed to attach files: ${attachmentError.message}`);
+        }
+
+        attachments = toPostAttachments(attachmentRows);
+      }
+
+      let pollId: number | null = null;
+      if (input.poll) {
+        const { data: createdPollId, error: pollError } = await supabase.rpc('create_poll', {
+          p_post_id: data.id,
+          p_options: input.poll.options,
+          p_allows_multiple: input.poll.allows_multiple,
+          p_closes_at: input.poll.closes_at ?? undefined,
+        });
+
+        if (pollError) {
+          // Don't leave a post behind without the poll it was written for
+          await supabase.from('posts').delete().eq('id', data.id);
+          throw new Error(`Failed to create poll: ${pollError.message}`);
+        }
+
+        pollId = createdPollId;
+      }
+
       return {
         ...data,
-        author: data.author as Author,
+        // Anonymous posts come back without author_id
+        author_id: user.id,
+        author: data.author as Author | null,
+        reaction_counts: toReactionCounts(data.reaction_counts),
         is_liked: false,
+        my_reaction: null,
         is_bookmarked: false,
+        // Mentions are stored by trigger; the feed refetch picks them up
+        mentions: [],
+        poll_id: pollId,
+        attachments,
+        quoted_post: toQuotedPost(data.quoted_post),
         media_urls: data.media_urls || [],
       } as PostWithAuthor;
     },
-    onSuccess: () => {
+    onSuccess: (_data, variables) => {
       // Invalidate and refetch posts list
       queryClient.invalidateQueries({ queryKey: postQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.announcements() });
+      // New hashtags may change tag counts
+      queryClient.invalidateQueries({ queryKey: tagQueryKeys.all });
+      queryClient.invalidateQueries({ queryKey: draftQueryKeys.all });
+      // A quote changes the original's repost count
+      if (variables.quoted_post_id) {
+        queryClient.invalidateQueries({ queryKey: postQueryKeys.detail(variables.quoted_post_id) });
+      }
+    },
+  });
+}
+
+/**
+ * useUpdatePost - Mutation hook for editing an existing post
+ *
+ * Features:
+ * - Only updates own posts (RLS enforced)
+ * - Previous version is kept in post_revisions by a database trigger
+ * - Publishes or reschedules a draft when status is given
+ * - Invalidates feed and detail caches on success
+ */
+export function useUpdatePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdatePostInput) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to edit a post');
+      }
+
+      const { data, error } = await supabase
+        .from('posts')
+        .update({
+          content: input.content,
+          media_urls: input.media_urls || [],
+          ...(input.status && { status: input.status }),
+          ...(input.publish_at !== undefined && { publish_at: input.publish_at }),
+        })
+        .eq('id', input.id)
+        .or(ownRowsFilter(user.id))
+        .select('id, content, media_urls, updated_at, edited_at')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update post: ${error.message}`);
+      }
+
+      return {
+        ...data,
+        media_urls: data.media_urls || [],
+      };
+    },
+    onSuccess: (updatedPost) => {
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.announcements() });
+      queryClient.invalidateQueries({
+        queryKey: postQueryKeys.detail(updatedPost.id),
+      });
+      queryClient.invalidateQueries({ queryKey: tagQueryKeys.all });
+      queryClient.invalidateQueries({ queryKey: draftQueryKeys.all });
     },
   });
 }
@@ -461,6 +1570,7 @@ export function useCreatePost() {
  * useCreateComment - Mutation hook for creating a comment
  *
  * Features:
+ * - Comments under the thread pseudonym when input.is_anonymous is set
  * - Invalidates comments cache for the post
  * - Updates post comment_count optimistically
  */
@@ -484,6 +1594,7 @@ export function useCreateComment() {
           author_id: user.id,
           content: input.content,
           parent_id: input.parent_id || null,
+          is_anonymous: input.is_anonymous ?? false,
         })
         .select(
           `
@@ -493,9 +1604,14 @@ export function useCreateComment() {
           parent_id,
           content,
           like_count,
+          reaction_counts,
           is_hidden,
           created_at,
           updated_at,
+          edited_at,
+          deleted_at,
+          is_anonymous,
+          anonymous_number,
           author:profiles!author_id(
             id,
             full_name,
@@ -512,8 +1628,13 @@ export function useCreateComment() {
 
       return {
         ...data,
-        author: data.author as Author,
+        // Anonymous comments come back without author_id
+        author_id: user.id,
+        author: data.author as Author | null,
+        reaction_counts: toReactionCounts(data.reaction_counts),
         is_liked: false,
+        my_reaction: null,
+        mentions: [],
       } as CommentWithAuthor;
     },
     onSuccess: (newComment) => {
@@ -534,32 +1655,77 @@ export function useCreateComment() {
 }
 
 /**
- * useLikeMutation - Mutation hook for liking/unliking posts and comments
+ * useUpdateComment - Mutation hook for editing a comment
  *
  * Features:
- * - Optimistic updates for immediate UI feedback
+ * - Only updates own comments (RLS enforced)
+ * - edited_at is set by a database trigger
+ * - Invalidates comments cache for the post
+ */
+export function useUpdateComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateCommentInput) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to edit a comment');
+      }
+
+      const { data, error } = await supabase
+        .from('comments')
+        .update({ content: input.content })
+        .eq('id', input.id)
+        .or(ownRowsFilter(user.id))
+        .is('deleted_at', null)
+        .select('id, post_id, content, updated_at, edited_at')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update comment: ${error.message}`);
+      }
+
+      return data;
+    },
+    onSuccess: (updatedComment) => {
+      queryClient.invalidateQueries({
+        queryKey: commentQueryKeys.list(updatedComment.post_id),
+      });
+    },
+  });
+}
+
+/**
+ * useReactionMutation - Mutation hook for reacting to posts and comments
+ *
+ * Features:
+ * - Adds, switches or removes (reaction null) the current user's reaction
+ * - Optimistic updates of like_count and reaction_counts for posts
  * - Automatic rollback on error
- * - Handles both like and unlike actions
  */
-export function useLikeMutation() {
+export function useReactionMutation() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({
       likeable_type,
       likeable_id,
-      isCurrentlyLiked,
-    }: LikeInput & { isCurrentlyLiked: boolean }) => {
+      reaction,
+      currentReaction,
+    }: ReactionInput) => {
       const {
         data: { user },
       } = await supabase.auth.getUser();
 
       if (!user) {
-        throw new Error('You must be logged in to like');
+        throw new Error('You must be logged in to react');
       }
 
-      if (isCurrentlyLiked) {
-        // Unlike: delete the like
+      if (reaction === null) {
+        // Remove the reaction
         const { error } = await supabase
           .from('likes')
           .delete()
@@ -568,26 +1734,37 @@ export function useLikeMutation() {
           .eq('likeable_id', likeable_id);
 
         if (error) {
-          throw new Error(`Failed to unlike: ${error.message}`);
+          throw new Error(`Failed to remove reaction: ${error.message}`);
         }
-
-        return { action: 'unliked' as const, likeable_type, likeable_id };
-      } else {
-        // Like: insert a new like
+      } else if (currentReaction === null) {
+        // First reaction: insert a like carrying it
         const { error } = await supabase.from('likes').insert({
           user_id: user.id,
           likeable_type,
           likeable_id,
+          reaction,
         });
 
         if (error) {
-          throw new Error(`Failed to like: ${error.message}`);
+          throw new Error(`Failed to react: ${error.message}`);
         }
+      } else {
+        // Switch the existing reaction
+        const { error } = await supabase
+          .from('likes')
+          .update({ reaction })
+          .eq('user_id', user.id)
+          .eq('likeable_type', likeable_type)
+          .eq('likeable_id', likeable_id);
 
-        return { action: 'liked' as const, likeable_type, likeable_id };
+        if (error) {
+          throw new Error(`Failed to change reaction: ${error.message}`);
+        }
       }
+
+      return { likeable_type, likeable_id, reaction };
     },
-    onMutate: async ({ likeable_type, likeable_id, isCurrentlyLiked }) => {
+    onMutate: async ({ likeable_type, likeable_id, reaction, currentReaction }) => {
       // Cancel any outgoing refetches
       if (likeable_type === 'post') {
         await queryClient.cancelQueries({ queryKey: postQueryKeys.lists() });
@@ -596,18 +1773,30 @@ export function useLikeMutation() {
         });
       }
 
-      // Snapshot previous values
-      const previousPosts = queryClient.getQueryData<InfiniteData<FeedPage>>(
-        postQueryKeys.lists()
-      );
+      // Snapshot previous values (one entry per cached feed sort)
+      const previousPosts = queryClient.getQueriesData<InfiniteData<FeedPage>>({
+        queryKey: postQueryKeys.lists(),
+      });
       const previousPost = queryClient.getQueryData<PostWithAuthor>(
         postQueryKeys.detail(likeable_id)
       );
 
+      // Same change the like count trigger makes
+      const applyReaction = (post: PostWithAuthor): PostWithAuthor => ({
+        ...post,
+        is_liked: reaction !== null,
+        my_reaction: reaction,
+        like_count: Math.max(
+          0,
+          post.like_count + (reaction ? 1 : 0) - (currentReaction ? 1 : 0)
+        ),
+        reaction_counts: applyReactionChange(post.reaction_counts, currentReaction, reaction),
+      });
+
       // Optimistically update posts feed
       if (likeable_type === 'post') {
-        queryClient.setQueryData<InfiniteData<FeedPage>>(
-          postQueryKeys.lists(),
+        queryClient.setQueriesData<InfiniteData<FeedPage>>(
+          { queryKey: postQueryKeys.lists() },
           (old) => {
             if (!old) return old;
 
@@ -616,15 +1805,7 @@ export function useLikeMutation() {
               pages: old.pages.map((page) => ({
                 ...page,
                 posts: page.posts.map((post) =>
-                  post.id === likeable_id
-                    ? {
-                        ...post,
-                        is_liked: !isCurrentlyLiked,
-                        like_count: isCurrentlyLiked
-                          ? Math.max(0, post.like_count - 1)
-                          : post.like_count + 1,
-                      }
-                    : post
+                  post.id === likeable_id ? applyReaction(post) : post
                 ),
               })),
             };
@@ -634,17 +1815,7 @@ export function useLikeMutation() {
         // Optimistically update single post if cached
         queryClient.setQueryData<PostWithAuthor>(
           postQueryKeys.detail(likeable_id),
-          (old) => {
-            if (!old) return old;
-
-            return {
-              ...old,
-              is_liked: !isCurrentlyLiked,
-              like_count: isCurrentlyLiked
-                ? Math.max(0, old.like_count - 1)
-                : old.like_count + 1,
-            };
-          }
+          (old) => (old ? applyReaction(old) : old)
         );
       }
 
@@ -653,9 +1824,9 @@ export function useLikeMutation() {
     },
     onError: (err, variables, context) => {
       // Rollback on error
-      if (context?.previousPosts) {
-        queryClient.setQueryData(postQueryKeys.lists(), context.previousPosts);
-      }
+      context?.previousPosts.forEach(([queryKey, previous]) => {
+        queryClient.setQueryData(queryKey, previous);
+      });
       if (context?.previousPost) {
         queryClient.setQueryData(
           postQueryKeys.detail(variables.likeable_id),
@@ -663,17 +1834,21 @@ export function useLikeMutation() {
         );
       }
     },
-    onSettled: (data) => {
+    onSettled: (data, error, variables) => {
       // Refetch to ensure consistency
-      if (data?.likeable_type === 'post') {
+      if (variables.likeable_type === 'post') {
         queryClient.invalidateQueries({ queryKey: postQueryKeys.lists() });
+        queryClient.invalidateQueries({ queryKey: postQueryKeys.announcements() });
         queryClient.invalidateQueries({
-          queryKey: postQueryKeys.detail(data.likeable_id),
+          queryKey: postQueryKeys.detail(variables.likeable_id),
         });
-      } else if (data?.likeable_type === 'comment') {
+      } else {
         // For comments, we need to know the post_id, but we can invalidate all comment lists
         queryClient.invalidateQueries({ queryKey: commentQueryKeys.all });
       }
+      queryClient.invalidateQueries({
+        queryKey: reactionQueryKeys.reactors(variables.likeable_type, variables.likeable_id),
+      });
     },
   });
 }
@@ -702,7 +1877,7 @@ export function useDeletePost() {
         .from('posts')
         .delete()
         .eq('id', postId)
-        .eq('author_id', user.id);
+        .or(ownRowsFilter(user.id));
 
       if (error) {
         throw new Error(`Failed to delete post: ${error.message}`);
@@ -713,6 +1888,8 @@ export function useDeletePost() {
     onSuccess: () => {
       // Invalidate posts list
       queryClient.invalidateQueries({ queryKey: postQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.announcements() });
+      queryClient.invalidateQueries({ queryKey: draftQueryKeys.all });
     },
   });
 }
@@ -721,6 +1898,8 @@ export function useDeletePost() {
  * useDeleteComment - Mutation hook for deleting a comment
  *
  * Features:
+ * - Soft delete: the comment stays as a placeholder so its replies keep
+ *   their place in the thread (content is cleared by a database trigger)
  * - Invalidates comments cache for the post
  * - Updates post comment_count
  */
@@ -745,9 +1924,9 @@ export function useDeleteComment() {
 
       const { error } = await supabase
         .from('comments')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', commentId)
-        .eq('author_id', user.id);
+        .or(ownRowsFilter(user.id));
 
       if (error) {
         throw new Error(`Failed to delete comment: ${error.message}`);
@@ -832,16 +2011,16 @@ export function useBookmarkMutation() {
         queryKey: postQueryKeys.detail(postId),
       });
 
-      const previousPosts = queryClient.getQueryData<InfiniteData<FeedPage>>(
-        postQueryKeys.lists()
-      );
+      const previousPosts = queryClient.getQueriesData<InfiniteData<FeedPage>>({
+        queryKey: postQueryKeys.lists(),
+      });
       const previousPost = queryClient.getQueryData<PostWithAuthor>(
         postQueryKeys.detail(postId)
       );
 
       // Optimistically update posts feed
-      queryClient.setQueryData<InfiniteData<FeedPage>>(
-        postQueryKeys.lists(),
+      queryClient.setQueriesData<InfiniteData<FeedPage>>(
+        { queryKey: postQueryKeys.lists() },
         (old) => {
           if (!old) return old;
           return {
@@ -870,9 +2049,9 @@ export function useBookmarkMutation() {
       return { previousPosts, previousPost };
     },
     onError: (_err, variables, context) => {
-      if (context?.previousPosts) {
-        queryClient.setQueryData(postQueryKeys.lists(), context.previousPosts);
-      }
+      context?.previousPosts.forEach(([queryKey, previous]) => {
+        queryClient.setQueryData(queryKey, previous);
+      });
       if (context?.previousPost) {
         queryClient.setQueryData(
           postQueryKeys.detail(variables.postId),
@@ -882,6 +2061,7 @@ export function useBookmarkMutation() {
     },
     onSettled: (data) => {
       queryClient.invalidateQueries({ queryKey: postQueryKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.announcements() });
       if (data) {
         queryClient.invalidateQueries({
           queryKey: postQueryKeys.detail(data.postId),
@@ -897,3 +2077,150 @@ export function useBookmarkMutation() {
     },
   });
 }
+
+/**
+ * useTagFollowMutation - Mutation hook for following/unfollowing a tag
+ *
+ * Features:
+ * - Optimistic update of the tag page header
+ * - Automatic rollback on error
+ * - Refetches feeds, since followed tags rank higher in trending
+ */
+export function useTagFollowMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tag,
+      isCurrentlyFollowing,
+    }: {
+      tag: Tag;
+      isCurrentlyFollowing: boolean;
+    }) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to follow tags');
+      }
+
+      if (isCurrentlyFollowing) {
+        const { error } = await supabase
+          .from('tag_follows')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('tag_id', tag.id);
+
+        if (error) {
+          throw new Error(`Failed to unfollow tag: ${error.message}`);
+        }
+
+        return { action: 'unfollowed' as const, tag, userId: user.id };
+      } else {
+        const { error } = await supabase.from('tag_follows').insert({
+          user_id: user.id,
+          tag_id: tag.id,
+        });
+
+        if (error) {
+          throw new Error(`Failed to follow tag: ${error.message}`);
+        }
+
+        return { action: 'followed' as const, tag, userId: user.id };
+      }
+    },
+    onMutate: async ({ tag, isCurrentlyFollowing }) => {
+      const queryKey = tagQueryKeys.detail(tag.name);
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousTag = queryClient.getQueryData<TagDetail | null>(queryKey);
+
+      queryClient.setQueryData<TagDetail | null>(queryKey, (old) =>
+        old ? { ...old, is_following: !isCurrentlyFollowing } : old
+      );
+
+      return { previousTag };
+    },
+    onError: (_err, variables, context) => {
+      if (context?.previousTag !== undefined) {
+        queryClient.setQueryData(tagQueryKeys.detail(variables.tag.name), context.previousTag);
+      }
+    },
+    onSettled: (data, _err, variables) => {
+      queryClient.invalidateQueries({ queryKey: tagQueryKeys.detail(variables.tag.name) });
+      if (data) {
+        queryClient.invalidateQueries({ queryKey: tagQueryKeys.followed(data.userId) });
+      }
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.lists() });
+    },
+  });
+}
+
+/**
+ * usePollVoteMutation - Mutation hook for voting in a poll
+ *
+ * Features:
+ * - Optimistic update of the counts and the user's choices
+ * - Automatic rollback on error (e.g. the poll closed meanwhile)
+ * - One vote per poll, or per option for multiple choice (RLS enforced)
+ */
+export function usePollVoteMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ poll_id, option_ids }: PollVoteInput) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to vote');
+      }
+
+      const { error } = await supabase.from('poll_votes').insert(
+        option_ids.map((option_id) => ({
+          poll_id,
+          option_id,
+          user_id: user.id,
+        }))
+      );
+
+      if (error) {
+        throw new Error(`Failed to vote: ${error.message}`);
+      }
+
+      return { poll_id, option_ids };
+    },
+    onMutate: async ({ poll_id, option_ids }) => {
+      const queryKey = pollQueryKeys.detail(poll_id);
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousPoll = queryClient.getQueryData<Poll>(queryKey);
+
+      queryClient.setQueryData<Poll>(queryKey, (old) =>
+        old
+          ? {
+              ...old,
+              options: old.options.map((option) =>
+                option_ids.includes(option.id)
+                  ? { ...option, vote_count: option.vote_count + 1 }
+                  : option
+              ),
+              my_option_ids: [...old.my_option_ids, ...option_ids],
+            }
+          : old
+      );
+
+      return { previousPoll };
+    },
+    onError: (_err, variables, context) => {
+      if (context?.previousPoll) {
+        queryClient.setQueryData(pollQueryKeys.detail(variables.poll_id), context.previousPoll);
+      }
+    },
+    onSettled: (_data, _err, variables) => {
+      queryClient.invalidateQueries({ queryKey: pollQueryKeys.detail(variables.poll_id) });
+    },
+  });
+}
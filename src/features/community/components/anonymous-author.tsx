@@ -0,0 +1,45 @@
+'use client';
+
+/**
+ * Anonymous Author Components
+ *
+ * Avatar and pseudonym shown in place of the author of anonymous posts and
+ * comments. Pseudonyms are stable within a thread: the original poster is
+ * "Anonymous (OP)", other anonymous members are numbered in the order they
+ * first commented.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { VenetianMask } from 'lucide-react';
+import { Avatar, AvatarFallback, type AvatarProps } from '@/components/ui/avatar';
+import { ORIGINAL_POSTER_NUMBER } from '@/lib/anonymous';
+
+export interface AnonymousAvatarProps {
+  size?: AvatarProps['size'];
+  className?: string;
+}
+
+/**
+ * Returns a function that formats a thread pseudonym number
+ * (defaults to the original poster)
+ */
+export function usePseudonym() {
+  const t = useTranslations('thread.anonymous');
+
+  return React.useCallback(
+    (number: number = ORIGINAL_POSTER_NUMBER) =>
+      number === ORIGINAL_POSTER_NUMBER ? t('op') : t('member', { number }),
+    [t]
+  );
+}
+
+export function AnonymousAvatar({ size = 'md', className }: AnonymousAvatarProps) {
+  return (
+    <Avatar size={size} className={className}>
+      <AvatarFallback>
+        <VenetianMask className="h-1/2 w-1/2" aria-hidden="true" />
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -6,19 +6,23 @@
  * A form for submitting new comments or replies to a post.
  * Features:
  * - Expandable textarea
+ * - @mention autocomplete
  * - Character count
  * - Submit on Ctrl+Enter
+ * - Anonymous toggle in anonymous threads
  * - Loading state
  * - Uses translations from useTranslations('thread.comments')
  */
 
 import * as React from 'react';
 import { useTranslations } from 'next-intl';
-import { SendHorizontal } from 'lucide-react';
+import { SendHorizontal, VenetianMask } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { useMentionAutocomplete, MentionSuggestionList } from './mention-autocomplete';
+import { AnonymousAvatar } from './anonymous-author';
 
 export interface CommentFormProps {
   /** Post ID to comment on */
@@ -32,18 +36,25 @@ export interface CommentFormProps {
   /** Current user's name */
   userName?: string | null;
   /** Callback when form is submitted */
-  onSubmit: (content: string, parentId?: number | null) => void;
+  onSubmit: (content: string, parentId?: number | null, isAnonymous?: boolean) => void;
   /** Whether submission is in progress */
   isSubmitting?: boolean;
   /** Callback to cancel reply mode */
   onCancelReply?: () => void;
   /** Whether this is a reply form (smaller/compact) */
   isReply?: boolean;
+  /** Called on every keystroke (drives the typing indicator) */
+  onTyping?: () => void;
+  /**
+   * Offer commenting under the thread pseudonym (anonymous threads). On by
+   * default so the original poster doesn't reveal themselves by accident.
+   */
+  allowAnonymous?: boolean;
   /** Additional CSS classes */
   className?: string;
 }
 
-const MAX_COMMENT_LENGTH = 2000;
+export const MAX_COMMENT_LENGTH = 2000;
 
 /**
  * Gets the initials from a full name for avatar fallback
@@ -70,11 +81,20 @@ export function CommentForm({
   isSubmitting = false,
   onCancelReply,
   isReply = false,
+  onTyping,
+  allowAnonymous = false,
   className,
 }: CommentFormProps) {
   const t = useTranslations('thread.comments');
   const [content, setContent] = React.useState('');
+  const [isAnonymous, setIsAnonymous] = React.useState(allowAnonymous);
+  const postAnonymously = allowAnonymous && isAnonymous;
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const mention = useMentionAutocomplete({
+    textareaRef,
+    value: content,
+    onValueChange: setContent,
+  });
 
   // Auto-focus when in reply mode
   React.useEffect(() => {
@@ -96,7 +116,7 @@ export function CommentForm({
     e.preventDefault();
     if (!content.trim() || isSubmitting) return;
 
-    onSubmit(content.trim(), parentId);
+    onSubmit(content.trim(), parentId, postAnonymously);
     setContent('');
 
     // Reset textarea height
@@ -106,11 +126,14 @@ export function CommentForm({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Let the mention suggestions use navigation keys first
+    if (mention.handleKeyDown(e)) return;
+
     // Submit on Ctrl+Enter or Cmd+Enter
     if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
       e.preventDefault();
       if (content.trim() && !isSubmitting) {
-        onSubmit(content.trim(), parentId);
+        onSubmit(content.trim(), parentId, postAnonymously);
         setContent('');
         if (textareaRef.current) {
           textareaRef.current.style.height = 'auto';
@@ -134,12 +157,16 @@ export function CommentForm({
       )}
     >
       {/* User Avatar */}
-      <Avatar size={isReply ? 'sm' : 'md'} className="shrink-0">
-        {userAvatarUrl && (
-          <AvatarImage src={userAvatarUrl} alt={userName || 'User avatar'} />
-        )}
-        <AvatarFallback>{getInitials(userName ?? null)}</AvatarFallback>
-      </Avatar>
+      {postAnonymously ? (
+        <AnonymousAvatar size={isReply ? 'sm' : 'md'} className="shrink-0" />
+      ) : (
+        <Avatar size={isReply ? 'sm' : 'md'} className="shrink-0">
+          {userAvatarUrl && (
+            <AvatarImage src={userAvatarUrl} alt={userName || 'User avatar'} />
+          )}
+          <AvatarFallback>{getInitials(userName ?? null)}</AvatarFallback>
+        </Avatar>
+      )}
 
       {/* Input Area */}
       <div className="flex-1 space-y-2">
@@ -165,7 +192,12 @@ export function CommentForm({
             <textarea
               ref={textareaRef}
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={(e) => {
+                setContent(e.target.value);
+                mention.handleCaretChange(e);
+                onTyping?.();
+              }}
+              onSelect={mention.handleCaretChange}
               onKeyDown={handleKeyDown}
               placeholder={placeholder}
               disabled={isSubmitting}
@@ -181,6 +213,15 @@ export function CommentForm({
               )}
               aria-label={placeholder}
             />
+
+            {mention.isOpen && (
+              <MentionSuggestionList
+                suggestions={mention.suggestions}
+                highlightedIndex={mention.highlightedIndex}
+                onHighlight={mention.setHighlightedIndex}
+                onSelect={mention.selectSuggestion}
+              />
+            )}
           </div>
 
           <Button
@@ -196,6 +237,23 @@ export function CommentForm({
           </Button>
         </div>
 
+        {/* Anonymous toggle */}
+        {allowAnonymous && (
+          <button
+            type="button"
+            onClick={() => setIsAnonymous((value) => !value)}
+            disabled={isSubmitting}
+            aria-pressed={isAnonymous}
+            className={cn(
+              'flex items-center gap-1.5 text-xs transition-colors',
+              isAnonymous ? 'text-primary' : 'text-muted hover:text-white'
+            )}
+          >
+            <VenetianMask className="h-3.5 w-3.5" />
+            {t('anonymous')}
+          </button>
+        )}
+
         {/* Character count (show when approaching limit) */}
         {content.length > MAX_COMMENT_LENGTH * 0.8 && (
           <p
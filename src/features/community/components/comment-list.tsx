@@ -6,9 +6,15 @@
  * Displays a list of comments with nested replies for a post.
  * Features:
  * - Chronological display of comments
- * - Nested replies with indentation
- * - Like button with count on each comment
+ * - Nested replies with indentation; branches deeper than the visible limit
+ *   open on their own through "continue this thread"
+ * - Per-branch pagination of long reply lists
+ * - Emoji reactions on each comment
  * - Reply button to show inline reply form
+ * - Inline editing with an "edited" marker and deletion of own comments
+ * - Placeholder for deleted comments that still have replies
+ * - Thread pseudonyms for anonymous comments, and anonymous replies in
+ *   anonymous threads
  * - Uses translations from useTranslations('thread.comments')
  */
 
@@ -16,15 +22,21 @@ import * as React from 'react';
 import { useTranslations, useFormatter, useNow } from 'next-intl';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
-  Heart,
   MessageCircle,
   MoreHorizontal,
   ChevronDown,
   ChevronUp,
+  ChevronRight,
+  ArrowLeft,
+  Flag,
+  Pencil,
+  Trash2,
 } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
+import { countDescendants, findComment } from '@/lib/comment-tree';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -32,8 +44,12 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
-import { CommentForm } from './comment-form';
-import type { CommentWithAuthor } from '../types';
+import { CommentForm, MAX_COMMENT_LENGTH } from './comment-form';
+import { RichText } from './rich-text';
+import { ReactionBar } from './reaction-bar';
+import { useMentionAutocomplete, MentionSuggestionList } from './mention-autocomplete';
+import { AnonymousAvatar, usePseudonym } from './anonymous-author';
+import type { CommentWithAuthor, ReactionType } from '../types';
 
 export interface CommentListProps {
   /** Array of comments (top-level, with nested replies) */
@@ -42,23 +58,45 @@ export interface CommentListProps {
   postId: number;
   /** Current user info for the comment form */
   currentUser?: {
+    id?: string;
     avatarUrl?: string | null;
     name?: string | null;
   };
-  /** Callback when like button is clicked */
-  onLike?: (commentId: number, isCurrentlyLiked: boolean) => void;
+  /** Callback when a reaction is added, switched or removed (null) */
+  onReact?: (
+    commentId: number,
+    reaction: ReactionType | null,
+    currentReaction: ReactionType | null
+  ) => void;
   /** Callback when a new comment is submitted */
-  onSubmitComment?: (content: string, parentId?: number | null) => void;
-  /** Callback when delete is clicked */
+  onSubmitComment?: (content: string, parentId?: number | null, isAnonymous?: boolean) => void;
+  /** Callback when an edit is saved; the edit form closes once it resolves */
+  onEdit?: (commentId: number, content: string) => Promise<void>;
+  /** Callback when delete is clicked; shown on own comments when provided */
   onDelete?: (commentId: number) => void;
-  /** ID of comment currently being liked (for loading state) */
-  likingCommentId?: number | null;
+  /** Callback when report is clicked; shown on other members' comments when provided */
+  onReport?: (commentId: number) => void;
+  /** ID of comment whose reaction is being changed (for loading state) */
+  reactingCommentId?: number | null;
   /** Whether comment submission is in progress */
   isSubmitting?: boolean;
+  /** Called while the member types a comment or reply */
+  onTyping?: () => void;
+  /** Whether the post is anonymous, which allows anonymous comments */
+  isAnonymousThread?: boolean;
   /** Additional CSS classes */
   className?: string;
 }
 
+/** Reply levels shown inline before "continue this thread" takes over */
+const MAX_VISIBLE_DEPTH = 3;
+
+/** Top-level comments shown per page */
+const COMMENTS_PAGE_SIZE = 20;
+
+/** Replies shown per page in each branch */
+const REPLIES_PAGE_SIZE = 3;
+
 /**
  * Gets the initials from a full name for avatar fallback
  */
@@ -71,6 +109,128 @@ function getInitials(name: string | null): string {
   return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
 }
 
+/**
+ * Inline form for editing a comment
+ */
+function CommentEditForm({
+  initialContent,
+  onSave,
+  onCancel,
+}: {
+  initialContent: string;
+  onSave: (content: string) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const t = useTranslations('thread.comments');
+  const [content, setContent] = React.useState(initialContent);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const mention = useMentionAutocomplete({
+    textareaRef,
+    value: content,
+    onValueChange: setContent,
+  });
+
+  // Focus with the caret at the end
+  React.useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, []);
+
+  // Auto-resize textarea
+  React.useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.style.height = 'auto';
+      textarea.style.height = `${Math.min(textarea.scrollHeight, 200)}px`;
+    }
+  }, [content]);
+
+  const trimmed = content.trim();
+  const canSave =
+    trimmed.length > 0 &&
+    content.length <= MAX_COMMENT_LENGTH &&
+    trimmed !== initialContent.trim();
+
+  const handleSave = async () => {
+    if (!canSave || isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSave(trimmed);
+    } catch {
+      // The caller reports the error; keep the form open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mention.handleKeyDown(e)) return;
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  return (
+    <div className="mt-1 space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value);
+            mention.handleCaretChange(e);
+          }}
+          onSelect={mention.handleCaretChange}
+          onKeyDown={handleKeyDown}
+          disabled={isSaving}
+          rows={1}
+          maxLength={MAX_COMMENT_LENGTH}
+          className={cn(
+            'w-full resize-none overflow-hidden rounded-2xl bg-card border border-white/8 px-4 py-2.5',
+            'text-sm text-white placeholder:text-muted',
+            'transition-colors duration-200',
+            'hover:border-white/20 focus:border-primary focus:outline-none focus:ring-0',
+            'disabled:opacity-50 disabled:cursor-not-allowed'
+          )}
+          aria-label={t('edit')}
+        />
+
+        {mention.isOpen && (
+          <MentionSuggestionList
+            suggestions={mention.suggestions}
+            highlightedIndex={mention.highlightedIndex}
+            onHighlight={mention.setHighlightedIndex}
+            onSelect={mention.selectSuggestion}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          {t('cancelEdit')}
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleSave}
+          disabled={!canSave}
+          loading={isSaving}
+        >
+          {t('save')}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Single Comment Item Component
  */
@@ -78,13 +238,23 @@ interface CommentItemProps {
   comment: CommentWithAuthor;
   postId: number;
   currentUser?: {
+    id?: string;
     avatarUrl?: string | null;
     name?: string | null;
   };
-  onLike?: (commentId: number, isCurrentlyLiked: boolean) => void;
-  onSubmitReply?: (content: string, parentId: number) => void;
+  onReact?: (
+    commentId: number,
+    reaction: ReactionType | null,
+    currentReaction: ReactionType | null
+  ) => void;
+  onSubmitReply?: (content: string, parentId: number, isAnonymous?: boolean) => void;
+  onEdit?: (commentId: number, content: string) => Promise<void>;
   onDelete?: (commentId: number) => void;
-  likingCommentId?: number | null;
+  onReport?: (commentId: number) => void;
+  onContinueThread?: (commentId: number) => void;
+  onTyping?: () => void;
+  isAnonymousThread?: boolean;
+  reactingCommentId?: number | null;
   isSubmitting?: boolean;
   depth?: number;
 }
@@ -93,39 +263,58 @@ function CommentItem({
   comment,
   postId,
   currentUser,
-  onLike,
+  onReact,
   onSubmitReply,
+  onEdit,
   onDelete,
-  likingCommentId,
+  onReport,
+  onContinueThread,
+  onTyping,
+  isAnonymousThread,
+  reactingCommentId,
   isSubmitting,
   depth = 0,
 }: CommentItemProps) {
   const t = useTranslations('thread.comments');
   const format = useFormatter();
+  const pseudonym = usePseudonym();
   const now = useNow({ updateInterval: 1000 * 60 }); // Update every minute
   const [showReplyForm, setShowReplyForm] = React.useState(false);
   const [showReplies, setShowReplies] = React.useState(true);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [visibleReplyCount, setVisibleReplyCount] = React.useState(REPLIES_PAGE_SIZE);
 
   const formattedTime = React.useMemo(() => {
     const date = new Date(comment.created_at);
     return format.relativeTime(date, now);
   }, [comment.created_at, format, now]);
 
-  const hasReplies = comment.replies && comment.replies.length > 0;
-  const replyCount = comment.replies?.length || 0;
+  const isDeleted = !!comment.deleted_at;
+  const isOwn = !!currentUser?.id && comment.author_id === currentUser.id;
+  const authorName = comment.is_anonymous
+    ? pseudonym(comment.anonymous_number ?? undefined)
+    : comment.author?.full_name || 'Unknown User';
+  const replies = comment.replies ?? [];
+  const hasReplies = replies.length > 0;
+  const replyCount = replies.length;
+  const hiddenReplyCount = replyCount - visibleReplyCount;
 
-  const handleLike = () => {
-    onLike?.(comment.id, comment.is_liked);
-  };
+  // Deeper branches open on their own instead of indenting further
+  const canNest = depth < MAX_VISIBLE_DEPTH;
+
+  const canEdit = isOwn && !!onEdit;
+  const canDelete = isOwn && !!onDelete;
+  const canReport = !isOwn && !!onReport;
 
-  const handleReplySubmit = (content: string) => {
-    onSubmitReply?.(content, comment.id);
+  const handleReplySubmit = (content: string, _parentId?: number | null, isAnonymous?: boolean) => {
+    onSubmitReply?.(content, comment.id, isAnonymous);
     setShowReplyForm(false);
   };
 
-  // Maximum nesting depth (2 levels)
-  const maxDepth = 2;
-  const canNest = depth < maxDepth;
+  const handleEditSave = async (content: string) => {
+    await onEdit?.(comment.id, content);
+    setIsEditing(false);
+  };
 
   return (
     <motion.div
@@ -140,100 +329,142 @@ function CommentItem({
     >
       <div className="flex gap-3 py-3">
         {/* Avatar */}
-        <Avatar size="sm" className="shrink-0">
-          {comment.author.avatar_url && (
-            <AvatarImage
-              src={comment.author.avatar_url}
-              alt={comment.author.full_name || 'User avatar'}
-            />
-          )}
-          <AvatarFallback>{getInitials(comment.author.full_name)}</AvatarFallback>
-        </Avatar>
+        {comment.is_anonymous && !isDeleted ? (
+          <AnonymousAvatar size="sm" className="shrink-0" />
+        ) : (
+          <Avatar size="sm" className="shrink-0">
+            {!isDeleted && comment.author?.avatar_url && (
+              <AvatarImage
+                src={comment.author.avatar_url}
+                alt={comment.author.full_name || 'User avatar'}
+              />
+            )}
+            <AvatarFallback>
+              {isDeleted ? '?' : getInitials(comment.author?.full_name ?? null)}
+            </AvatarFallback>
+          </Avatar>
+        )}
 
         {/* Content */}
         <div className="flex-1 min-w-0">
-          {/* Header: Name and time */}
-          <div className="flex items-center gap-2 text-sm">
-            <span className="font-semibold text-white truncate">
-              {comment.author.full_name || 'Unknown User'}
-            </span>
-            {comment.author.company_name && (
-              <>
-                <span className="text-white/20">|</span>
-                <span className="text-muted truncate">
-                  {comment.author.company_name}
+          {isDeleted ? (
+            <p className="py-1.5 text-sm italic text-muted">{t('deleted')}</p>
+          ) : (
+            <>
+              {/* Header: Name and time */}
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-semibold text-white truncate">{authorName}</span>
+                {comment.author?.company_name && (
+                  <>
+                    <span className="text-white/20">|</span>
+                    <span className="text-muted truncate">
+                      {comment.author.company_name}
+                    </span>
+                  </>
+                )}
+                <span className="text-muted">
+                  <time dateTime={comment.created_at}>{formattedTime}</time>
                 </span>
-              </>
-            )}
-            <span className="text-muted">
-              <time dateTime={comment.created_at}>{formattedTime}</time>
-            </span>
-          </div>
-
-          {/* Comment content */}
-          <p className="mt-1 text-white text-sm leading-relaxed whitespace-pre-wrap break-words">
-            {comment.content}
-          </p>
-
-          {/* Actions */}
-          <div className="flex items-center gap-3 mt-2">
-            {/* Like button */}
-            <button
-              onClick={handleLike}
-              disabled={likingCommentId === comment.id}
-              className={cn(
-                'flex items-center gap-1 text-xs transition-colors',
-                comment.is_liked
-                  ? 'text-error'
-                  : 'text-muted hover:text-white'
-              )}
-              aria-label={comment.is_liked ? t('liked') : t('like')}
-            >
-              <Heart
-                className={cn(
-                  'h-3.5 w-3.5',
-                  comment.is_liked && 'fill-current'
+                {comment.edited_at && (
+                  <span
+                    className="text-muted"
+                    title={format.dateTime(new Date(comment.edited_at), {
+                      dateStyle: 'medium',
+                      timeStyle: 'short',
+                    })}
+                  >
+                    · {t('edited')}
+                  </span>
                 )}
-              />
-              {comment.like_count > 0 && (
-                <span className="tabular-nums">{comment.like_count}</span>
+              </div>
+
+              {/* Comment content */}
+              {isEditing ? (
+                <CommentEditForm
+                  initialContent={comment.content}
+                  onSave={handleEditSave}
+                  onCancel={() => setIsEditing(false)}
+                />
+              ) : (
+                <p className="mt-1 text-white text-sm leading-relaxed whitespace-pre-wrap break-words">
+                  <RichText content={comment.content} mentions={comment.mentions} />
+                </p>
               )}
-            </button>
 
-            {/* Reply button */}
-            <button
-              onClick={() => setShowReplyForm(!showReplyForm)}
-              className="flex items-center gap-1 text-xs text-muted hover:text-white transition-colors"
-              aria-label={t('reply')}
-            >
-              <MessageCircle className="h-3.5 w-3.5" />
-              <span>{t('reply')}</span>
-            </button>
+              {/* Actions */}
+              {!isEditing && (
+                <div className="flex items-center gap-3 mt-2">
+                  {/* Reactions */}
+                  <ReactionBar
+                    likeableType="comment"
+                    likeableId={comment.id}
+                    myReaction={comment.my_reaction}
+                    counts={comment.reaction_counts}
+                    total={comment.like_count}
+                    onReact={(reaction, currentReaction) =>
+                      onReact?.(comment.id, reaction, currentReaction)
+                    }
+                    disabled={reactingCommentId === comment.id}
+                    compact
+                  />
 
-            {/* More options */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <button
-                  className="text-muted hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
-                  aria-label="More options"
-                >
-                  <MoreHorizontal className="h-3.5 w-3.5" />
-                </button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="start">
-                <DropdownMenuItem
-                  onClick={() => onDelete?.(comment.id)}
-                  className="text-error"
-                >
-                  {t('delete')}
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          </div>
+                  {/* Reply button */}
+                  <button
+                    onClick={() => setShowReplyForm(!showReplyForm)}
+                    className="flex items-center gap-1 text-xs text-muted hover:text-white transition-colors"
+                    aria-label={t('reply')}
+                  >
+                    <MessageCircle className="h-3.5 w-3.5" />
+                    <span>{t('reply')}</span>
+                  </button>
+
+                  {/* More options */}
+                  {(canEdit || canDelete || canReport) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button
+                          className="text-muted hover:text-white opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                          aria-label="More options"
+                        >
+                          <MoreHorizontal className="h-3.5 w-3.5" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        {canEdit && (
+                          <DropdownMenuItem onClick={() => setIsEditing(true)}>
+                            <Pencil className="mr-2 h-3.5 w-3.5" />
+                            {t('edit')}
+                          </DropdownMenuItem>
+                        )}
+                        {canDelete && (
+                          <DropdownMenuItem
+                            onClick={() => onDelete(comment.id)}
+                            className="text-error"
+                          >
+                            <Trash2 className="mr-2 h-3.5 w-3.5" />
+                            {t('delete')}
+                          </DropdownMenuItem>
+                        )}
+                        {canReport && (
+                          <DropdownMenuItem
+                            onClick={() => onReport(comment.id)}
+                            className="text-error"
+                          >
+                            <Flag className="mr-2 h-3.5 w-3.5" />
+                            {t('report')}
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              )}
+            </>
+          )}
 
           {/* Reply form */}
           <AnimatePresence>
-            {showReplyForm && (
+            {showReplyForm && !isDeleted && (
               <motion.div
                 initial={{ opacity: 0, height: 0 }}
                 animate={{ opacity: 1, height: 'auto' }}
@@ -244,12 +475,14 @@ function CommentItem({
                 <CommentForm
                   postId={postId}
                   parentId={comment.id}
-                  replyToName={comment.author.full_name || undefined}
+                  replyToName={authorName}
                   userAvatarUrl={currentUser?.avatarUrl}
                   userName={currentUser?.name}
                   onSubmit={handleReplySubmit}
                   isSubmitting={isSubmitting}
                   onCancelReply={() => setShowReplyForm(false)}
+                  onTyping={onTyping}
+                  allowAnonymous={isAnonymousThread}
                   isReply
                 />
               </motion.div>
@@ -258,28 +491,37 @@ function CommentItem({
         </div>
       </div>
 
+      {/* Continue this thread */}
+      {hasReplies && !canNest && (
+        <button
+          onClick={() => onContinueThread?.(comment.id)}
+          className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 mb-2 ml-12"
+        >
+          <span>{t('continueThread', { count: countDescendants(comment) })}</span>
+          <ChevronRight className="h-3 w-3" />
+        </button>
+      )}
+
       {/* Nested Replies */}
       {hasReplies && canNest && (
         <div className="mt-1">
           {/* Toggle replies button */}
-          {replyCount > 0 && (
-            <button
-              onClick={() => setShowReplies(!showReplies)}
-              className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 mb-2 ml-12"
-            >
-              {showReplies ? (
-                <>
-                  <ChevronUp className="h-3 w-3" />
-                  <span>{t('hideReplies')}</span>
-                </>
-              ) : (
-                <>
-                  <ChevronDown className="h-3 w-3" />
-                  <span>{t('viewReplies', { count: replyCount })}</span>
-                </>
-              )}
-            </button>
-          )}
+          <button
+            onClick={() => setShowReplies(!showReplies)}
+            className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 mb-2 ml-12"
+          >
+            {showReplies ? (
+              <>
+                <ChevronUp className="h-3 w-3" />
+                <span>{t('hideReplies')}</span>
+              </>
+            ) : (
+              <>
+                <ChevronDown className="h-3 w-3" />
+                <span>{t('viewReplies', { count: replyCount })}</span>
+              </>
+            )}
+          </button>
 
           {/* Replies list */}
           <AnimatePresence>
@@ -290,20 +532,36 @@ function CommentItem({
                 exit={{ opacity: 0, height: 0 }}
                 transition={{ duration: 0.2 }}
               >
-                {comment.replies?.map((reply) => (
+                {replies.slice(0, visibleReplyCount).map((reply) => (
                   <CommentItem
                     key={reply.id}
                     comment={reply}
                     postId={postId}
                     currentUser={currentUser}
-                    onLike={onLike}
+                    onReact={onReact}
                     onSubmitReply={onSubmitReply}
+                    onEdit={onEdit}
                     onDelete={onDelete}
-                    likingCommentId={likingCommentId}
+                    onReport={onReport}
+                    onContinueThread={onContinueThread}
+                    onTyping={onTyping}
+                    isAnonymousThread={isAnonymousThread}
+                    reactingCommentId={reactingCommentId}
                     isSubmitting={isSubmitting}
                     depth={depth + 1}
                   />
                 ))}
+
+                {/* More replies in this branch */}
+                {hiddenReplyCount > 0 && (
+                  <button
+                    onClick={() => setVisibleReplyCount((count) => count + REPLIES_PAGE_SIZE)}
+                    className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 mb-2 ml-[4.5rem]"
+                  >
+                    <ChevronDown className="h-3 w-3" />
+                    <span>{t('showMoreReplies', { count: hiddenReplyCount })}</span>
+                  </button>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
@@ -320,23 +578,55 @@ export function CommentList({
   comments,
   postId,
   currentUser,
-  onLike,
+  onReact,
   onSubmitComment,
+  onEdit,
   onDelete,
-  likingCommentId,
+  onReport,
+  reactingCommentId,
   isSubmitting,
+  onTyping,
+  isAnonymousThread = false,
   className,
 }: CommentListProps) {
   const t = useTranslations('thread.comments');
+  const [visibleCount, setVisibleCount] = React.useState(COMMENTS_PAGE_SIZE);
+  const [threadRootId, setThreadRootId] = React.useState<number | null>(null);
+
+  // Falls back to the full list if the opened branch disappears (e.g. deleted)
+  const threadRoot = threadRootId !== null ? findComment(comments, threadRootId) : null;
 
-  const handleSubmitTopLevelComment = (content: string, parentId?: number | null) => {
-    onSubmitComment?.(content, parentId);
+  const handleSubmitTopLevelComment = (
+    content: string,
+    parentId?: number | null,
+    isAnonymous?: boolean
+  ) => {
+    onSubmitComment?.(content, parentId, isAnonymous);
   };
 
-  const handleSubmitReply = (content: string, parentId: number) => {
-    onSubmitComment?.(content, parentId);
+  const handleSubmitReply = (content: string, parentId: number, isAnonymous?: boolean) => {
+    onSubmitComment?.(content, parentId, isAnonymous);
   };
 
+  const renderComment = (comment: CommentWithAuthor) => (
+    <CommentItem
+      key={comment.id}
+      comment={comment}
+      postId={postId}
+      currentUser={currentUser}
+      onReact={onReact}
+      onSubmitReply={handleSubmitReply}
+      onEdit={onEdit}
+      onDelete={onDelete}
+      onReport={onReport}
+      onContinueThread={setThreadRootId}
+      onTyping={onTyping}
+      isAnonymousThread={isAnonymousThread}
+      reactingCommentId={reactingCommentId}
+      isSubmitting={isSubmitting}
+    />
+  );
+
   return (
     <div className={cn('space-y-4', className)}>
       {/* Comment Form */}
@@ -348,29 +638,46 @@ export function CommentList({
           userName={currentUser?.name}
           onSubmit={handleSubmitTopLevelComment}
           isSubmitting={isSubmitting}
+          onTyping={onTyping}
+          allowAnonymous={isAnonymousThread}
         />
       </div>
 
       {/* Comments List */}
       <div className="space-y-1">
-        {comments.length === 0 ? (
+        {threadRoot ? (
+          <>
+            {/* Branch opened through "continue this thread" */}
+            <button
+              onClick={() => setThreadRootId(null)}
+              className="flex items-center gap-1 text-sm text-primary hover:text-primary/80 mb-2"
+            >
+              <ArrowLeft className="h-3.5 w-3.5" />
+              <span>{t('backToAll')}</span>
+            </button>
+            <AnimatePresence initial={false}>{renderComment(threadRoot)}</AnimatePresence>
+          </>
+        ) : comments.length === 0 ? (
           <p className="text-center text-muted py-8">{t('empty')}</p>
         ) : (
-          <AnimatePresence initial={false}>
-            {comments.map((comment) => (
-              <CommentItem
-                key={comment.id}
-                comment={comment}
-                postId={postId}
-                currentUser={currentUser}
-                onLike={onLike}
-                onSubmitReply={handleSubmitReply}
-                onDelete={onDelete}
-                likingCommentId={likingCommentId}
-                isSubmitting={isSubmitting}
-              />
-            ))}
-          </AnimatePresence>
+          <>
+            <AnimatePresence initial={false}>
+              {comments.slice(0, visibleCount).map(renderComment)}
+            </AnimatePresence>
+
+            {comments.length > visibleCount && (
+              <div className="flex justify-center pt-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setVisibleCount((count) => count + COMMENTS_PAGE_SIZE)}
+                  className="text-muted hover:text-white"
+                >
+                  {t('loadMore')}
+                </Button>
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
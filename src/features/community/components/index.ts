@@ -4,7 +4,31 @@
  * Exports all UI components for the Thread/Community feed feature.
  */
 
-export { PostComposer } from './post-composer';
+export { PostComposer, type PostComposerProps } from './post-composer';
 export { PostCard, type PostCardProps } from './post-card';
 export { CommentForm, type CommentFormProps } from './comment-form';
 export { CommentList, type CommentListProps } from './comment-list';
+export { RichText, type RichTextProps } from './rich-text';
+export {
+  useMentionAutocomplete,
+  MentionSuggestionList,
+  type MentionSuggestionListProps,
+} from './mention-autocomplete';
+export { PostFeed, FeedSortTabs, type PostFeedProps, type FeedSortTabsProps } from './post-feed';
+export { TrendingTags } from './trending-tags';
+export { PostPoll, type PostPollProps } from './post-poll';
+export { LinkPreviewCard, type LinkPreviewCardProps } from './link-preview-card';
+export { PostAttachments, type PostAttachmentsProps } from './post-attachments';
+export { QuotedPostCard, type QuotedPostCardProps } from './quoted-post-card';
+export { QuoteDialog, type QuoteDialogProps } from './quote-dialog';
+export { ThreadPresence, type ThreadPresenceProps } from './thread-presence';
+export { AnonymousAvatar, usePseudonym, type AnonymousAvatarProps } from './anonymous-author';
+export { ReactionBar, type ReactionBarProps } from './reaction-bar';
+export {
+  PollComposer,
+  createPollDraft,
+  toCreatePollInput,
+  type PollComposerProps,
+  type PollDraft,
+  type PollDuration,
+} from './poll-composer';
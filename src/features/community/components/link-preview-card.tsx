@@ -0,0 +1,70 @@
+'use client';
+
+/**
+ * Link Preview Card Component
+ *
+ * OpenGraph preview of a link in a post, used by PostCard and the post
+ * detail page. Renders nothing while loading or when the page has no
+ * preview, so posts without one look unchanged.
+ */
+
+import * as React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { cn } from '@/lib/cn';
+import { useLinkPreview } from '../api/queries';
+
+export interface LinkPreviewCardProps {
+  /** Normalized URL to preview */
+  url: string;
+  className?: string;
+}
+
+export function LinkPreviewCard({ url, className }: LinkPreviewCardProps) {
+  const { data: preview } = useLinkPreview(url);
+  const [imageFailed, setImageFailed] = React.useState(false);
+
+  if (!preview) return null;
+
+  const showImage = !!preview.image_url && !imageFailed;
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      onClick={(e) => e.stopPropagation()}
+      className={cn(
+        'group/preview flex overflow-hidden rounded-2xl border border-white/[0.08] bg-white/[0.02] transition-colors hover:bg-white/[0.05]',
+        className
+      )}
+    >
+      {showImage && (
+        <div className="relative w-28 shrink-0 bg-white/5 sm:w-36">
+          {/* eslint-disable-next-line @next/next/no-img-element -- preview images come from arbitrary hosts */}
+          <img
+            src={preview.image_url ?? undefined}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            onError={() => setImageFailed(true)}
+            className="absolute inset-0 h-full w-full object-cover"
+          />
+        </div>
+      )}
+      <div className="min-w-0 flex-1 space-y-1 px-4 py-3">
+        {preview.site_name && (
+          <p className="flex items-center gap-1 truncate text-xs text-muted">
+            <ExternalLink className="h-3 w-3 shrink-0" />
+            {preview.site_name}
+          </p>
+        )}
+        <p className="line-clamp-2 text-sm font-semibold text-white group-hover/preview:underline">
+          {preview.title}
+        </p>
+        {preview.description && (
+          <p className="line-clamp-2 text-xs text-muted">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  );
+}
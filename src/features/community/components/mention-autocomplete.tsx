@@ -0,0 +1,187 @@
+'use client';
+
+/**
+ * Mention Autocomplete
+ *
+ * @username autocomplete for the post composer and comment form textareas.
+ * Features:
+ * - Suggests members by username, nickname or name while typing after @
+ * - Arrow keys to move, Enter/Tab to insert, Escape to dismiss
+ * - Inserts `@username ` and restores the caret after it
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { useDebounce } from 'use-debounce';
+
+import { cn } from '@/lib/cn';
+import { getActiveMention, insertMention } from '@/lib/mentions';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { useMentionSuggestions } from '../api/queries';
+import type { MentionSuggestion } from '../types';
+
+const MENTION_DEBOUNCE_MS = 150;
+
+interface UseMentionAutocompleteOptions {
+  /** Textarea the mentions are typed into */
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  /** Current textarea value */
+  value: string;
+  /** Called with the new value after a mention is inserted */
+  onValueChange: (value: string) => void;
+}
+
+/**
+ * Tracks the @query at the caret and handles keyboard selection.
+ *
+ * Wire `handleCaretChange` to the textarea's onChange and onSelect, and call
+ * `handleKeyDown` first in its onKeyDown; when it returns true the key was
+ * used by the suggestion list.
+ */
+export function useMentionAutocomplete({
+  textareaRef,
+  value,
+  onValueChange,
+}: UseMentionAutocompleteOptions) {
+  const [caret, setCaret] = React.useState<number | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = React.useState(0);
+  const [dismissedStart, setDismissedStart] = React.useState<number | null>(null);
+
+  const activeMention = caret === null ? null : getActiveMention(value, caret);
+  const isDismissed = activeMention !== null && activeMention.start === dismissedStart;
+  const [debouncedQuery] = useDebounce(
+    activeMention && !isDismissed ? activeMention.query : null,
+    MENTION_DEBOUNCE_MS
+  );
+
+  const { data: suggestions = [] } = useMentionSuggestions(debouncedQuery);
+  const isOpen = activeMention !== null && !isDismissed && suggestions.length > 0;
+
+  // Reset the highlight when the query changes
+  const [lastQuery, setLastQuery] = React.useState(debouncedQuery);
+  if (lastQuery !== debouncedQuery) {
+    setLastQuery(debouncedQuery);
+    setHighlightedIndex(0);
+  }
+
+  const handleCaretChange = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    setCaret(e.currentTarget.selectionStart);
+  };
+
+  const selectSuggestion = (suggestion: MentionSuggestion) => {
+    if (!activeMention || caret === null) return;
+
+    const next = insertMention(value, activeMention, caret, suggestion.username);
+    onValueChange(next.text);
+    setCaret(next.caret);
+
+    // Restore the caret once the new value is rendered
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (textarea) {
+        textarea.focus();
+        textarea.setSelectionRange(next.caret, next.caret);
+      }
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!isOpen) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex((prev) => (prev + 1) % suggestions.length);
+        return true;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex((prev) => (prev - 1 + suggestions.length) % suggestions.length);
+        return true;
+      case 'Enter':
+      case 'Tab':
+        if (e.ctrlKey || e.metaKey) return false;
+        e.preventDefault();
+        selectSuggestion(suggestions[Math.min(highlightedIndex, suggestions.length - 1)]);
+        return true;
+      case 'Escape':
+        e.preventDefault();
+        setDismissedStart(activeMention.start);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  return {
+    isOpen,
+    suggestions,
+    highlightedIndex: Math.min(highlightedIndex, Math.max(suggestions.length - 1, 0)),
+    setHighlightedIndex,
+    selectSuggestion,
+    handleCaretChange,
+    handleKeyDown,
+  };
+}
+
+export interface MentionSuggestionListProps {
+  suggestions: MentionSuggestion[];
+  highlightedIndex: number;
+  onHighlight: (index: number) => void;
+  onSelect: (suggestion: MentionSuggestion) => void;
+  className?: string;
+}
+
+/**
+ * Suggestion dropdown, positioned below the textarea's relative container
+ */
+export function MentionSuggestionList({
+  suggestions,
+  highlightedIndex,
+  onHighlight,
+  onSelect,
+  className,
+}: MentionSuggestionListProps) {
+  const t = useTranslations('thread.mentions');
+
+  return (
+    <ul
+      role="listbox"
+      aria-label={t('suggestions')}
+      className={cn(
+        'absolute left-0 top-full z-50 mt-1 w-64 overflow-hidden rounded-xl border border-white/10 bg-[#1a1a1a] py-1 shadow-lg',
+        className
+      )}
+    >
+      {suggestions.map((suggestion, index) => {
+        const displayName = suggestion.nickname || suggestion.full_name;
+
+        return (
+          <li
+            key={suggestion.id}
+            role="option"
+            aria-selected={index === highlightedIndex}
+            // Keep focus in the textarea
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onHighlight(index)}
+            onClick={() => onSelect(suggestion)}
+            className={cn(
+              'flex cursor-pointer items-center gap-2 px-3 py-2 text-sm',
+              index === highlightedIndex ? 'bg-white/10' : 'hover:bg-white/5'
+            )}
+          >
+            <Avatar size="xs">
+              {suggestion.avatar_url && (
+                <AvatarImage src={suggestion.avatar_url} alt={displayName || suggestion.username} />
+              )}
+              <AvatarFallback>{suggestion.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              {displayName && <p className="truncate font-medium text-white">{displayName}</p>}
+              <p className="truncate text-xs text-muted">@{suggestion.username}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
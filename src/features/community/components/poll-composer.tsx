@@ -0,0 +1,200 @@
+'use client';
+
+/**
+ * Poll Composer Component
+ *
+ * Poll editor shown inside PostComposer when a poll is attached.
+ * Features:
+ * - 2-6 options, added and removed inline
+ * - Optional close time (1, 3 or 7 days)
+ * - Single or multiple choice
+ * - Uses translations from thread.poll namespace
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  POLL_MIN_OPTIONS,
+  POLL_MAX_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+  normalizePollOptions,
+} from '@/lib/polls';
+import type { CreatePollInput } from '../types';
+
+const DURATION_OPTIONS = ['none', '1d', '3d', '7d'] as const;
+
+export type PollDuration = (typeof DURATION_OPTIONS)[number];
+
+const DURATION_DAYS: Record<Exclude<PollDuration, 'none'>, number> = {
+  '1d': 1,
+  '3d': 3,
+  '7d': 7,
+};
+
+/**
+ * Poll being edited in the composer
+ */
+export interface PollDraft {
+  options: string[];
+  allows_multiple: boolean;
+  duration: PollDuration;
+}
+
+/**
+ * Empty poll with the minimum number of option fields
+ */
+export function createPollDraft(): PollDraft {
+  return {
+    options: Array.from({ length: POLL_MIN_OPTIONS }, () => ''),
+    allows_multiple: false,
+    duration: 'none',
+  };
+}
+
+/**
+ * Converts a draft to the create input, resolving the close time from now
+ */
+export function toCreatePollInput(draft: PollDraft): CreatePollInput {
+  const closesAt =
+    draft.duration === 'none'
+      ? null
+      : new Date(Date.now() + DURATION_DAYS[draft.duration] * 24 * 60 * 60 * 1000).toISOString();
+
+  return {
+    options: normalizePollOptions(draft.options),
+    allows_multiple: draft.allows_multiple,
+    closes_at: closesAt,
+  };
+}
+
+export interface PollComposerProps {
+  value: PollDraft;
+  onChange: (draft: PollDraft) => void;
+  /** Removes the poll from the post */
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+export function PollComposer({ value, onChange, onRemove, disabled }: PollComposerProps) {
+  const t = useTranslations('thread.poll');
+
+  const handleOptionChange = (index: number, label: string) => {
+    onChange({
+      ...value,
+      options: value.options.map((option, i) => (i === index ? label : option)),
+    });
+  };
+
+  const handleAddOption = () => {
+    if (value.options.length >= POLL_MAX_OPTIONS) return;
+    onChange({ ...value, options: [...value.options, ''] });
+  };
+
+  const handleRemoveOption = (index: number) => {
+    if (value.options.length <= POLL_MIN_OPTIONS) return;
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-white/[0.08] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-white">{t('title')}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={onRemove}
+          disabled={disabled}
+          aria-label={t('remove')}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Options */}
+      <div className="space-y-2">
+        {value.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(e) => handleOptionChange(index, e.target.value)}
+              placeholder={t('optionPlaceholder', { number: index + 1 })}
+              maxLength={POLL_OPTION_MAX_LENGTH}
+              disabled={disabled}
+              aria-label={t('optionPlaceholder', { number: index + 1 })}
+            />
+            {value.options.length > POLL_MIN_OPTIONS && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => handleRemoveOption(index)}
+                disabled={disabled}
+                aria-label={t('removeOption', { number: index + 1 })}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {value.options.length < POLL_MAX_OPTIONS && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleAddOption}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4" />
+          {t('addOption')}
+        </Button>
+      )}
+
+      {/* Settings */}
+      <div className="flex flex-wrap items-center justify-between gap-3 border-t border-white/[0.08] pt-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="poll-allows-multiple"
+            checked={value.allows_multiple}
+            onCheckedChange={(checked) => onChange({ ...value, allows_multiple: checked })}
+            disabled={disabled}
+          />
+          <Label htmlFor="poll-allows-multiple" className="text-sm text-muted">
+            {t('allowMultiple')}
+          </Label>
+        </div>
+
+        <Select
+          value={value.duration}
+          onValueChange={(duration) => onChange({ ...value, duration: duration as PollDuration })}
+          disabled={disabled}
+        >
+          <SelectTrigger size="sm" className="w-[160px]" aria-label={t('duration')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DURATION_OPTIONS.map((duration) => (
+              <SelectItem key={duration} value={duration}>
+                {t(`durations.${duration}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+/**
+ * Post Attachments Component
+ *
+ * Download cards for documents attached to a post, used by PostCard and the
+ * post detail page. Each card shows the file name, type and size.
+ * Uses translations from thread.attachments namespace.
+ */
+
+import { useTranslations } from 'next-intl';
+import { Download, FileSpreadsheet, FileText, Presentation, type LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/cn';
+import {
+  ATTACHMENT_TYPES,
+  formatFileSize,
+  getAttachmentTypeByMime,
+  type AttachmentType,
+} from '@/lib/attachments';
+import type { PostAttachment } from '../types';
+
+const TYPE_ICONS: Record<AttachmentType, LucideIcon> = {
+  pdf: FileText,
+  docx: FileText,
+  pptx: Presentation,
+  xlsx: FileSpreadsheet,
+};
+
+const TYPE_COLORS: Record<AttachmentType, string> = {
+  pdf: 'bg-red-500/15 text-red-400',
+  docx: 'bg-blue-500/15 text-blue-400',
+  pptx: 'bg-orange-500/15 text-orange-400',
+  xlsx: 'bg-emerald-500/15 text-emerald-400',
+};
+
+export interface PostAttachmentsProps {
+  attachments: PostAttachment[];
+  className?: string;
+}
+
+export function PostAttachments({ attachments, className }: PostAttachmentsProps) {
+  const t = useTranslations('thread.attachments');
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className={cn('space-y-2', className)} aria-label={t('title')}>
+      {attachments.map((attachment) => {
+        const type = getAttachmentTypeByMime(attachment.mime_type) ?? 'pdf';
+        const Icon = TYPE_ICONS[type];
+
+        return (
+          <li key={attachment.id}>
+            <a
+              href={attachment.url}
+              download={attachment.file_name}
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              className="group/attachment flex items-center gap-3 rounded-2xl border border-white/[0.08] bg-white/[0.02] px-4 py-3 transition-colors hover:bg-white/[0.05]"
+              aria-label={t('download', { name: attachment.file_name })}
+            >
+              <span
+                className={cn(
+                  'flex h-10 w-10 shrink-0 items-center justify-center rounded-xl',
+                  TYPE_COLORS[type]
+                )}
+                aria-hidden="true"
+              >
+                <Icon className="h-5 w-5" />
+              </span>
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-sm font-medium text-white">
+                  {attachment.file_name}
+                </span>
+                <span className="block text-xs text-muted">
+                  {ATTACHMENT_TYPES[type].label} · {formatFileSize(attachment.size_bytes)}
+                </span>
+              </span>
+              <Download
+                className="h-4 w-4 shrink-0 text-muted transition-colors group-hover/attachment:text-white"
+                aria-hidden="true"
+              />
+            </a>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -4,10 +4,15 @@
  * Post Card Component
  *
  * Displays a single post in the Thread feed with:
- * - Author info (avatar, name, company)
+ * - Author info (avatar, name, company), or the thread pseudonym for
+ *   anonymous posts
  * - Relative timestamp (formatted for locale)
- * - Post content with media grid
- * - Action buttons (like, comment, share)
+ * - Post content with media grid, document attachments and poll
+ * - Notice and pinned (with expiry) badges
+ * - Why the post was recommended (For you feed)
+ * - Embedded card of the quoted post (quotes and reposts)
+ * - Preview card for the first link (posts without media)
+ * - Reactions and action buttons (comment, quote, share)
  * - Hover animation
  *
  * Uses customized UI wrappers from @/components/ui/ and translations.
@@ -18,11 +23,16 @@ import Image from 'next/image';
 import { useTranslations, useFormatter, useNow } from 'next-intl';
 import { motion } from 'framer-motion';
 import {
-  Heart,
   MessageCircle,
   Share2,
   MoreHorizontal,
   Bookmark,
+  Pencil,
+  Flag,
+  Repeat2,
+  Megaphone,
+  Pin,
+  Sparkles,
 } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
@@ -37,23 +47,42 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
-import type { PostWithAuthor } from '../types';
+import { RichText } from './rich-text';
+import { PostPoll } from './post-poll';
+import { LinkPreviewCard } from './link-preview-card';
+import { PostAttachments } from './post-attachments';
+import { QuotedPostCard } from './quoted-post-card';
+import { ReactionBar } from './reaction-bar';
+import { AnonymousAvatar, usePseudonym } from './anonymous-author';
+import { getPreviewUrl } from '@/lib/links';
+import { isPinActive } from '@/lib/pins';
+import type { PostWithAuthor, ReactionType } from '../types';
 
 export interface PostCardProps {
   /** The post data with author information */
   post: PostWithAuthor;
-  /** Callback when like button is clicked */
-  onLike?: (postId: number, isCurrentlyLiked: boolean) => void;
+  /** Callback when a reaction is added, switched or removed (null) */
+  onReact?: (
+    postId: number,
+    reaction: ReactionType | null,
+    currentReaction: ReactionType | null
+  ) => void;
   /** Callback when comment button is clicked */
   onComment?: (postId: number) => void;
   /** Callback when share button is clicked */
   onShare?: (postId: number) => void;
+  /** Callback when quote is clicked; the button is only shown when provided */
+  onQuote?: (postId: number) => void;
   /** Callback when bookmark button is clicked */
   onBookmark?: (postId: number) => void;
+  /** Callback when edit is chosen; the menu item is only shown when provided */
+  onEdit?: (postId: number) => void;
+  /** Callback when report is chosen; the menu item is only shown when provided */
+  onReport?: (postId: number) => void;
   /** Callback when the card is clicked (navigate to detail) */
   onClick?: (postId: number) => void;
-  /** Whether like action is in progress */
-  isLiking?: boolean;
+  /** Whether a reaction change is in progress */
+  isReacting?: boolean;
   /** Additional CSS classes */
   className?: string;
 }
@@ -61,7 +90,7 @@ export interface PostCardProps {
 /**
  * Gets the initials from a full name for avatar fallback
  */
-function getInitials(name: string | null): string {
+function getInitials(name: string | null | undefined): string {
   if (!name) return '?';
   const parts = name.trim().split(/\s+/);
   if (parts.length === 1) {
@@ -172,17 +201,22 @@ function ActionButton({
  */
 export function PostCard({
   post,
-  onLike,
+  onReact,
   onComment,
   onShare,
+  onQuote,
   onBookmark,
+  onEdit,
+  onReport,
   onClick,
-  isLiking,
+  isReacting,
   className,
 }: PostCardProps) {
   const t = useTranslations('thread.post');
   const format = useFormatter();
   const now = useNow({ updateInterval: 1000 * 60 }); // Update every minute
+  const pseudonym = usePseudonym();
+  const authorName = post.is_anonymous ? pseudonym() : post.author?.full_name || 'Unknown User';
 
   // Format the timestamp
   const formattedTime = React.useMemo(() => {
@@ -190,14 +224,16 @@ export function PostCard({
     return format.relativeTime(date, now);
   }, [post.created_at, format, now]);
 
+  // Media already gives the post a visual, so only link-only posts get a card
+  const previewUrl = React.useMemo(
+    () => (post.media_urls?.length ? null : getPreviewUrl(post.content)),
+    [post.content, post.media_urls]
+  );
+
   const handleCardClick = () => {
     onClick?.(post.id);
   };
 
-  const handleLikeClick = () => {
-    onLike?.(post.id, post.is_liked);
-  };
-
   const handleCommentClick = () => {
     onComment?.(post.id);
   };
@@ -206,10 +242,24 @@ export function PostCard({
     onShare?.(post.id);
   };
 
+  const handleQuoteClick = () => {
+    onQuote?.(post.id);
+  };
+
   const handleBookmarkClick = () => {
     onBookmark?.(post.id);
   };
 
+  const handleEditClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onEdit?.(post.id);
+  };
+
+  const handleReportClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onReport?.(post.id);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -222,32 +272,62 @@ export function PostCard({
         className={cn('overflow-hidden hover:!scale-100', className)}
         onClick={handleCardClick}
         role="article"
-        aria-label={`Post by ${post.author?.full_name || 'Unknown'}`}
+        aria-label={`Post by ${authorName}`}
       >
         <CardContent className="p-4 sm:p-5">
+          {/* Why the For you feed recommended the post */}
+          {post.rank_reasons && post.rank_reasons.length > 0 && (
+            <p className="mb-3 flex items-center gap-1.5 text-sm text-muted">
+              <Sparkles className="h-3.5 w-3.5 text-primary" />
+              {post.rank_reasons.map((reason) => t(`rankReasons.${reason}`)).join(' · ')}
+            </p>
+          )}
+
           {/* Header: Author info and timestamp */}
           <div className="flex items-start justify-between gap-3">
             <div className="flex items-center gap-3">
-              <Avatar size="md">
-                {post.author?.avatar_url ? (
-                  <AvatarImage
-                    src={post.author.avatar_url}
-                    alt={post.author?.full_name || 'User avatar'}
-                  />
-                ) : null}
-                <AvatarFallback>
-                  {getInitials(post.author?.full_name)}
-                </AvatarFallback>
-              </Avatar>
+              {post.is_anonymous ? (
+                <AnonymousAvatar size="md" />
+              ) : (
+                <Avatar size="md">
+                  {post.author?.avatar_url ? (
+                    <AvatarImage
+                      src={post.author.avatar_url}
+                      alt={post.author?.full_name || 'User avatar'}
+                    />
+                  ) : null}
+                  <AvatarFallback>
+                    {getInitials(post.author?.full_name)}
+                  </AvatarFallback>
+                </Avatar>
+              )}
 
               <div className="flex flex-col gap-0.5">
                 <div className="flex items-center gap-2">
-                  <span className="font-semibold text-white">
-                    {post.author?.full_name || 'Unknown User'}
-                  </span>
-                  {post.is_pinned && (
+                  <span className="font-semibold text-white">{authorName}</span>
+                  {post.is_notice && (
+                    <Badge variant="info" size="sm">
+                      <Megaphone />
+                      {t('notice')}
+                    </Badge>
+                  )}
+                  {isPinActive(post, now) && (
                     <Badge variant="default" size="sm">
-                      {t('pinned')}
+                      <Pin />
+                      {post.pinned_until
+                        ? t('pinnedUntil', {
+                            date: format.dateTime(new Date(post.pinned_until), {
+                              month: 'short',
+                              day: 'numeric',
+                            }),
+                          })
+                        : t('pinned')}
+                    </Badge>
+                  )}
+                  {post.is_quote && !post.content.trim() && (
+                    <Badge variant="muted" size="sm">
+                      <Repeat2 />
+                      {t('reposted')}
                     </Badge>
                   )}
                 </div>
@@ -259,7 +339,7 @@ export function PostCard({
                     </>
                   )}
                   <time dateTime={post.created_at}>{formattedTime}</time>
-                  {post.updated_at !== post.created_at && (
+                  {post.edited_at && (
                     <Badge variant="muted" size="sm">
                       {t('edited')}
                     </Badge>
@@ -282,6 +362,12 @@ export function PostCard({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                {onEdit && (
+                  <DropdownMenuItem onClick={handleEditClick}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    {t('edit')}
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={handleBookmarkClick}>
                   <Bookmark className="mr-2 h-4 w-4" />
                   {t('bookmark')}
@@ -290,40 +376,59 @@ export function PostCard({
                   <Share2 className="mr-2 h-4 w-4" />
                   {t('copyLink')}
                 </DropdownMenuItem>
-                <DropdownMenuItem className="text-error">
-                  {t('report')}
-                </DropdownMenuItem>
+                {onReport && (
+                  <DropdownMenuItem onClick={handleReportClick} className="text-error">
+                    <Flag className="mr-2 h-4 w-4" />
+                    {t('report')}
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
 
-          {/* Content */}
-          <div className="mt-3">
-            <p className="whitespace-pre-wrap text-white leading-relaxed">
-              {post.content}
-            </p>
-          </div>
+          {/* Content (empty for plain reposts) */}
+          {post.content.trim() && (
+            <div className="mt-3">
+              <p className="whitespace-pre-wrap text-white leading-relaxed">
+                <RichText content={post.content} mentions={post.mentions} />
+              </p>
+            </div>
+          )}
 
           {/* Media Grid */}
           {post.media_urls && post.media_urls.length > 0 && (
             <MediaGrid
               urls={post.media_urls}
-              alt={`Post by ${post.author?.full_name || 'Unknown'}`}
+              alt={`Post by ${authorName}`}
             />
           )}
 
+          {/* Attachments */}
+          <PostAttachments attachments={post.attachments} className="mt-3" />
+
+          {/* Link preview */}
+          {previewUrl && <LinkPreviewCard url={previewUrl} className="mt-3" />}
+
+          {/* Poll */}
+          {post.poll_id && <PostPoll pollId={post.poll_id} className="mt-3" />}
+
+          {/* Quoted post */}
+          {post.is_quote && <QuotedPostCard post={post.quoted_post} className="mt-3" />}
+
           {/* Actions */}
           <div className="mt-4 flex items-center justify-between border-t border-white/[0.08] pt-3">
             <div className="flex items-center gap-1">
-              {/* Like Button */}
-              <ActionButton
-                icon={Heart}
-                label={post.is_liked ? t('liked') : t('like')}
-                count={post.like_count}
-                isActive={post.is_liked}
-                onClick={handleLikeClick}
-                disabled={isLiking}
-                activeClassName="text-error hover:text-error"
+              {/* Reactions */}
+              <ReactionBar
+                likeableType="post"
+                likeableId={post.id}
+                myReaction={post.my_reaction}
+                counts={post.reaction_counts}
+                total={post.like_count}
+                onReact={(reaction, currentReaction) =>
+                  onReact?.(post.id, reaction, currentReaction)
+                }
+                disabled={isReacting}
               />
 
               {/* Comment Button */}
@@ -334,6 +439,16 @@ export function PostCard({
                 onClick={handleCommentClick}
               />
 
+              {/* Quote Button */}
+              {onQuote && (
+                <ActionButton
+                  icon={Repeat2}
+                  label={t('quote')}
+                  count={post.repost_count}
+                  onClick={handleQuoteClick}
+                />
+              )}
+
               {/* Share Button */}
               <ActionButton
                 icon={Share2}
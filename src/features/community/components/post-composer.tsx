@@ -4,26 +4,72 @@
  * PostComposer Component
  *
  * A composer for creating new posts in the Thread feed.
+ * When given an existing post it switches to edit mode; when given a draft
+ * it continues that draft; when given a quoted post it creates a quote.
+ * Quotes may be posted without text (plain repost).
  * Features:
  * - Text input with 5000 character limit
  * - Character count indicator
+ * - @mention autocomplete
  * - Image upload with preview
+ * - Document attachments (PDF, DOCX, PPTX, XLSX; new posts only), validated
+ *   and stored by /api/attachments
+ * - Optional poll (posts published right away only)
+ * - Save as draft, or schedule publishing for a later time
+ * - Post anonymously under a thread pseudonym (published right away only,
+ *   without images or document attachments)
+ * - Quote mode: preview of the quoted post, text optional
+ * - Edit mode: keep, remove, or add media on an existing post (anonymous
+ *   posts take none)
  * - Empty submit disabled
  * - Uses translations from thread.compose namespace
  */
 
 import * as React from 'react';
-import { useTranslations } from 'next-intl';
+import { useTranslations, useFormatter, useNow } from 'next-intl';
 import Image from 'next/image';
-import { ImageIcon, X } from 'lucide-react';
+import {
+  CalendarClock,
+  ChartBar,
+  FileText,
+  ImageIcon,
+  Paperclip,
+  VenetianMask,
+  X,
+} from 'lucide-react';
 import { cn } from '@/lib/cn';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { useCreatePost } from '../api/queries';
+import { Input } from '@/components/ui/input';
+import { useCreatePost, useUpdatePost } from '../api/queries';
+import { useMentionAutocomplete, MentionSuggestionList } from './mention-autocomplete';
+import { QuotedPostCard } from './quoted-post-card';
+import {
+  PollComposer,
+  createPollDraft,
+  toCreatePollInput,
+  type PollDraft,
+} from './poll-composer';
+import { isValidPoll } from '@/lib/polls';
+import { isAnonymousRateLimitError } from '@/lib/anonymous';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  formatFileSize,
+  getAttachmentType,
+  getMaxAttachmentBytes,
+} from '@/lib/attachments';
 import { supabase } from '@/lib/supabase/client';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/use-auth';
 import { useAuthModalStore } from '@/stores/auth-modal-store';
+import type {
+  DraftPost,
+  PostStatus,
+  PostWithAuthor,
+  QuotedPost,
+  UploadedAttachment,
+} from '../types';
 
 // Constants
 const MAX_CHARACTER_COUNT = 5000;
@@ -36,16 +82,67 @@ interface ImagePreview {
   url: string;
 }
 
-export function PostComposer() {
+/**
+ * Formats an ISO timestamp as a datetime-local input value (local time)
+ */
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export interface PostComposerProps {
+  /** Post to edit; when omitted the composer creates a new post */
+  post?: PostWithAuthor;
+  /** Draft or scheduled post to continue */
+  draft?: DraftPost;
+  /** Post to quote in a new post */
+  quotedPost?: QuotedPost;
+  /** Called after the post was created or saved */
+  onSuccess?: () => void;
+  /** Called when the user cancels editing */
+  onCancel?: () => void;
+}
+
+export function PostComposer({
+  post,
+  draft,
+  quotedPost,
+  onSuccess,
+  onCancel,
+}: PostComposerProps = {}) {
   const t = useTranslations('thread.compose');
+  const format = useFormatter();
+  const now = useNow({ updateInterval: 1000 * 30 });
   const { isAuthenticated } = useAuth();
   const openLogin = useAuthModalStore((s) => s.openLogin);
-  const [content, setContent] = React.useState('');
+  const isEditing = !!post;
+  const isQuote = !!quotedPost || !!post?.is_quote;
+  const source = post ?? draft;
+  const [content, setContent] = React.useState(source?.content ?? '');
+  const [existingMedia, setExistingMedia] = React.useState<string[]>(source?.media_urls ?? []);
   const [images, setImages] = React.useState<ImagePreview[]>([]);
+  const [files, setFiles] = React.useState<File[]>([]);
+  const [poll, setPoll] = React.useState<PollDraft | null>(null);
+  // datetime-local value; null when the post is not scheduled
+  const [publishAt, setPublishAt] = React.useState<string | null>(
+    draft?.publish_at ? toDateTimeLocal(draft.publish_at) : null
+  );
+  const [isAnonymous, setIsAnonymous] = React.useState(false);
+  const [isSavingDraft, setIsSavingDraft] = React.useState(false);
   const [isUploading, setIsUploading] = React.useState(false);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const attachmentInputRef = React.useRef<HTMLInputElement>(null);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
 
   const createPost = useCreatePost();
+  const updatePost = useUpdatePost();
+  const isPending = createPost.isPending || updatePost.isPending;
+  const mention = useMentionAutocomplete({
+    textareaRef,
+    value: content,
+    onValueChange: setContent,
+  });
 
   // Show a placeholder that opens the login modal when clicked
   if (!isAuthenticated) {
@@ -64,12 +161,26 @@ export function PostComposer() {
   const characterCount = content.length;
   const isOverLimit = characterCount > MAX_CHARACTER_COUNT;
   const isNearLimit = characterCount > MAX_CHARACTER_COUNT * 0.9;
-  const isEmpty = content.trim().length === 0 && images.length === 0;
-  const canSubmit = !isEmpty && !isOverLimit && !createPost.isPending && !isUploading;
+  const mediaCount = existingMedia.length + images.length;
+  const isEmpty =
+    content.trim().length === 0 && mediaCount === 0 && files.length === 0 && !isQuote;
+  // A poll needs the post text as its question and at least two distinct options
+  const isPollIncomplete =
+    !!poll && (content.trim().length === 0 || !isValidPoll(poll.options));
+  const isScheduling = publishAt !== null;
+  // new Date() parses datetime-local values as local time
+  const isPublishAtInvalid =
+    isScheduling && !(publishAt && new Date(publishAt) > now);
+  const isBusy = isPending || isUploading;
+  // Anonymous posts are published right away
+  const canSaveDraft = !isEmpty && !poll && !isAnonymous && !isOverLimit && !isBusy;
+  const canSubmit =
+    !isEmpty && !isPollIncomplete && !isPublishAtInvalid && !isOverLimit && !isBusy;
 
   // Handle content change
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setContent(e.target.value);
+    mention.handleCaretChange(e);
   };
 
   // Handle image selection
@@ -93,7 +204,7 @@ export function PostComposer() {
       }
 
       // Check image limit
-      if (images.length + newImages.length >= MAX_IMAGES) {
+      if (mediaCount + newImages.length >= MAX_IMAGES) {
         toast.error(`Maximum ${MAX_IMAGES} images allowed`);
         break;
       }
@@ -110,6 +221,45 @@ export function PostComposer() {
     }
   };
 
+  // Handle document selection
+  const handleAttachmentSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files;
+    if (!selected) return;
+
+    const maxBytes = getMaxAttachmentBytes();
+    const newFiles: File[] = [];
+
+    for (const file of Array.from(selected)) {
+      if (!getAttachmentType(file.name, file.type)) {
+        toast.error(t('attachmentInvalidType', { name: file.name }));
+        continue;
+      }
+
+      if (file.size > maxBytes) {
+        toast.error(t('attachmentTooLarge', { name: file.name, max: formatFileSize(maxBytes) }));
+        continue;
+      }
+
+      if (files.length + newFiles.length >= MAX_ATTACHMENTS) {
+        toast.error(t('attachmentLimit', { max: MAX_ATTACHMENTS }));
+        break;
+      }
+
+      newFiles.push(file);
+    }
+
+    setFiles((prev) => [...prev, ...newFiles]);
+
+    // Reset input
+    if (attachmentInputRef.current) {
+      attachmentInputRef.current.value = '';
+    }
+  };
+
+  const handleRemoveAttachment = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+  };
+
   // Handle image removal
   const handleRemoveImage = (index: number) => {
     setImages((prev) => {
@@ -121,6 +271,12 @@ export function PostComposer() {
     });
   };
 
+  // Handle removal of media already attached to the post being edited.
+  // The storage object is kept because post_revisions may still reference it.
+  const handleRemoveExistingMedia = (url: string) => {
+    setExistingMedia((prev) => prev.filter((u) => u !== url));
+  };
+
   // Upload images to Supabase Storage
   const uploadImages = async (): Promise<string[]> => {
     if (images.length === 0) return [];
@@ -160,39 +316,141 @@ export function PostComposer() {
     return uploadedUrls;
   };
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Validate and store documents through the attachments API
+  const uploadAttachments = async (): Promise<UploadedAttachment[]> => {
+    const uploaded: UploadedAttachment[] = [];
 
-    if (!canSubmit) return;
+    for (const file of files) {
+      const body = new FormData();
+      body.append('file', file);
 
+      const response = await fetch('/api/attachments', { method: 'POST', body });
+      const result = await response.json().catch(() => null);
+
+      if (!response.ok || !result?.attachment) {
+        throw new Error(
+          t('attachmentUploadFailed', { name: file.name, reason: result?.error ?? response.statusText })
+        );
+      }
+
+      uploaded.push(result.attachment as UploadedAttachment);
+    }
+
+    return uploaded;
+  };
+
+  // Save the post; asDraft keeps it unpublished without a schedule
+  const savePost = async (asDraft: boolean) => {
     try {
       setIsUploading(true);
+      setIsSavingDraft(asDraft);
 
       // Upload images first
       const mediaUrls = await uploadImages();
 
-      // Create the post
-      await createPost.mutateAsync({
-        content: content.trim(),
-        media_urls: mediaUrls,
-      });
+      if (post) {
+        // Save the edit, keeping the remaining existing media first
+        await updatePost.mutateAsync({
+          id: post.id,
+          content: content.trim(),
+          media_urls: [...existingMedia, ...mediaUrls],
+        });
+
+        images.forEach((img) => URL.revokeObjectURL(img.url));
+        setImages([]);
+
+        toast.success(t('editSuccess'));
+        onSuccess?.();
+        return;
+      }
+
+      const status: PostStatus = asDraft ? 'draft' : publishAt ? 'scheduled' : 'published';
+      const publishAtIso =
+        status === 'scheduled' && publishAt ? new Date(publishAt).toISOString() : null;
+
+      if (draft) {
+        // Continue the draft: save it again, schedule it or publish it
+        await updatePost.mutateAsync({
+          id: draft.id,
+          content: content.trim(),
+          media_urls: [...existingMedia, ...mediaUrls],
+          status,
+          publish_at: publishAtIso,
+        });
+      } else {
+        // Create the post
+        const attachments = await uploadAttachments();
+        await createPost.mutateAsync({
+          content: content.trim(),
+          media_urls: mediaUrls,
+          attachments,
+          quoted_post_id: quotedPost?.id,
+          poll: poll && status === 'published' ? toCreatePollInput(poll) : undefined,
+          status,
+          publish_at: publishAtIso,
+          is_anonymous: isAnonymous,
+        });
+
+        // Clear form on success
+        setContent('');
+        setPoll(null);
+        setPublishAt(null);
+        setIsAnonymous(false);
+        setExistingMedia([]);
+        setFiles([]);
+      }
 
-      // Clear form on success
-      setContent('');
       images.forEach((img) => URL.revokeObjectURL(img.url));
       setImages([]);
 
       // Show success toast
-      toast.success(t('success'));
+      if (status === 'draft') {
+        toast.success(t('draftSaved'));
+      } else if (publishAtIso) {
+        toast.success(
+          t('scheduled', {
+            time: format.dateTime(new Date(publishAtIso), {
+              dateStyle: 'medium',
+              timeStyle: 'short',
+            }),
+          })
+        );
+      } else {
+        toast.success(t('success'));
+      }
+      onSuccess?.();
     } catch (error) {
-      const message = error instanceof Error ? error.message : t('failed');
+      const message = isAnonymousRateLimitError(error)
+        ? t('anonymousRateLimited')
+        : error instanceof Error
+          ? error.message
+          : isEditing
+            ? t('editFailed')
+            : asDraft
+              ? t('draftFailed')
+              : t('failed');
       toast.error(message);
     } finally {
       setIsUploading(false);
+      setIsSavingDraft(false);
     }
   };
 
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!canSubmit) return;
+
+    await savePost(false);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!canSaveDraft) return;
+
+    await savePost(true);
+  };
+
   // Cleanup object URLs on unmount
   React.useEffect(() => {
     return () => {
@@ -206,9 +464,12 @@ export function PostComposer() {
       {/* Textarea */}
       <div className="relative">
         <Textarea
+          ref={textareaRef}
           value={content}
           onChange={handleContentChange}
-          placeholder={t('placeholder')}
+          onSelect={mention.handleCaretChange}
+          onKeyDown={mention.handleKeyDown}
+          placeholder={quotedPost ? t('quotePlaceholder') : t('placeholder')}
           className={cn(
             'min-h-[120px] resize-none pr-4 pb-8',
             isOverLimit && 'border-error focus:border-error focus:ring-error'
@@ -228,11 +489,52 @@ export function PostComposer() {
         >
           {t('characterCount', { current: characterCount, max: MAX_CHARACTER_COUNT })}
         </div>
+
+        {mention.isOpen && (
+          <MentionSuggestionList
+            suggestions={mention.suggestions}
+            highlightedIndex={mention.highlightedIndex}
+            onHighlight={mention.setHighlightedIndex}
+            onSelect={mention.selectSuggestion}
+          />
+        )}
       </div>
 
+      {/* Quoted post */}
+      {isQuote && (
+        <QuotedPostCard post={quotedPost ?? post?.quoted_post ?? null} linked={false} />
+      )}
+
       {/* Image previews */}
-      {images.length > 0 && (
+      {mediaCount > 0 && (
         <div className="flex flex-wrap gap-2">
+          {existingMedia.map((url, index) => (
+            <div
+              key={url}
+              className="relative group rounded-2xl overflow-hidden border border-white/8"
+            >
+              <Image
+                src={url}
+                alt={`Attached image ${index + 1}`}
+                width={120}
+                height={120}
+                className="object-cover w-[120px] h-[120px]"
+              />
+              <button
+                type="button"
+                onClick={() => handleRemoveExistingMedia(url)}
+                className={cn(
+                  'absolute top-2 right-2 p-1 rounded-full',
+                  'bg-black/70 text-white hover:bg-black/90',
+                  'opacity-0 group-hover:opacity-100 transition-opacity',
+                  'focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-primary'
+                )}
+                aria-label={`Remove image ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
           {images.map((image, index) => (
             <div
               key={image.url}
@@ -254,7 +556,7 @@ export function PostComposer() {
                   'opacity-0 group-hover:opacity-100 transition-opacity',
                   'focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-primary'
                 )}
-                aria-label={`Remove image ${index + 1}`}
+                aria-label={`Remove image ${existingMedia.length + index + 1}`}
               >
                 <X className="h-4 w-4" />
               </button>
@@ -263,6 +565,83 @@ export function PostComposer() {
         </div>
       )}
 
+      {/* Attached documents */}
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center gap-3 rounded-2xl border border-white/[0.08] bg-white/[0.02] px-4 py-2.5"
+            >
+              <FileText className="h-4 w-4 shrink-0 text-muted" aria-hidden="true" />
+              <span className="min-w-0 flex-1 truncate text-sm text-white">{file.name}</span>
+              <span className="shrink-0 text-xs text-muted">{formatFileSize(file.size)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => handleRemoveAttachment(index)}
+                disabled={isBusy}
+                aria-label={t('removeAttachment', { name: file.name })}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Poll editor */}
+      {poll && (
+        <PollComposer
+          value={poll}
+          onChange={setPoll}
+          onRemove={() => setPoll(null)}
+          disabled={isBusy}
+        />
+      )}
+
+      {/* Schedule picker */}
+      {isScheduling && (
+        <div className="space-y-1.5 rounded-2xl border border-white/[0.08] bg-white/[0.02] p-4">
+          <div className="flex items-center gap-2">
+            <label htmlFor="post-publish-at" className="shrink-0 text-sm font-medium text-white">
+              {t('publishAt')}
+            </label>
+            <Input
+              id="post-publish-at"
+              type="datetime-local"
+              value={publishAt ?? ''}
+              min={toDateTimeLocal(now.toISOString())}
+              onChange={(e) => setPublishAt(e.target.value)}
+              disabled={isBusy}
+              aria-invalid={isPublishAtInvalid}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setPublishAt(null)}
+              disabled={isBusy}
+              aria-label={t('removeSchedule')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          {isPublishAtInvalid && publishAt && (
+            <p className="text-xs text-error">{t('publishAtPast')}</p>
+          )}
+        </div>
+      )}
+
+      {/* Anonymous notice */}
+      {isAnonymous && (
+        <p className="flex items-center gap-2 text-sm text-muted">
+          <VenetianMask className="h-4 w-4 shrink-0 text-primary" />
+          {t('anonymousHint')}
+        </p>
+      )}
+
       {/* Actions */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -281,30 +660,142 @@ export function PostComposer() {
             variant="ghost"
             size="icon-sm"
             onClick={() => fileInputRef.current?.click()}
-            disabled={images.length >= MAX_IMAGES || createPost.isPending || isUploading}
+            disabled={
+              mediaCount >= MAX_IMAGES ||
+              isAnonymous ||
+              !!post?.is_anonymous ||
+              isPending ||
+              isUploading
+            }
             aria-label={t('attachImage')}
           >
             <ImageIcon className="h-5 w-5" />
           </Button>
 
+          {/* Document button (new posts only) */}
+          {!isEditing && !draft && (
+            <>
+              <input
+                ref={attachmentInputRef}
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                onChange={handleAttachmentSelect}
+                className="hidden"
+                aria-label={t('attachFile')}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => attachmentInputRef.current?.click()}
+                disabled={files.length >= MAX_ATTACHMENTS || isAnonymous || isBusy}
+                aria-label={t('attachFile')}
+              >
+                <Paperclip className="h-5 w-5" />
+              </Button>
+            </>
+          )}
+
+          {/* Poll button (new posts only); polls start when the post goes live */}
+          {!isEditing && !draft && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setPoll(createPollDraft())}
+              disabled={!!poll || isScheduling || isBusy}
+              aria-label={t('addPoll')}
+            >
+              <ChartBar className="h-5 w-5" />
+            </Button>
+          )}
+
+          {/* Schedule button (unpublished posts only) */}
+          {!isEditing && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setPublishAt('')}
+              disabled={isScheduling || !!poll || isAnonymous || isBusy}
+              aria-label={t('schedule')}
+            >
+              <CalendarClock className="h-5 w-5" />
+            </Button>
+          )}
+
+          {/* Anonymous toggle (new posts only) */}
+          {!isEditing && !draft && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setIsAnonymous((value) => !value)}
+              disabled={isScheduling || mediaCount > 0 || files.length > 0 || isBusy}
+              aria-label={t('postAnonymously')}
+              aria-pressed={isAnonymous}
+              className={cn(isAnonymous && 'text-primary')}
+            >
+              <VenetianMask className="h-5 w-5" />
+            </Button>
+          )}
+
           {/* Image count indicator */}
-          {images.length > 0 && (
+          {mediaCount > 0 && (
             <span className="text-sm text-muted">
-              {images.length}/{MAX_IMAGES}
+              {mediaCount}/{MAX_IMAGES}
             </span>
           )}
         </div>
 
-        {/* Submit button */}
-        <Button
-          type="submit"
-          variant="primary-glow"
-          size="md"
-          disabled={!canSubmit}
-          loading={createPost.isPending || isUploading}
-        >
-          {createPost.isPending || isUploading ? t('posting') : t('submit')}
-        </Button>
+        <div className="flex items-center gap-2">
+          {/* Cancel button (edit mode) */}
+          {(isEditing || draft || quotedPost) && onCancel && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="md"
+              onClick={onCancel}
+              disabled={isPending || isUploading}
+            >
+              {t('cancel')}
+            </Button>
+          )}
+
+          {/* Save draft button (unpublished posts only; the drafts list can't show quotes) */}
+          {!isEditing && !quotedPost && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="md"
+              onClick={handleSaveDraft}
+              disabled={!canSaveDraft}
+              loading={isBusy && isSavingDraft}
+            >
+              {t('saveDraft')}
+            </Button>
+          )}
+
+          {/* Submit button */}
+          <Button
+            type="submit"
+            variant="primary-glow"
+            size="md"
+            disabled={!canSubmit}
+            loading={isBusy && !isSavingDraft}
+          >
+            {isEditing
+              ? isBusy
+                ? t('saving')
+                : t('save')
+              : isBusy && !isSavingDraft
+                ? t('posting')
+                : isScheduling
+                  ? t('schedule')
+                  : t('submit')}
+          </Button>
+        </div>
       </div>
     </form>
   );
@@ -0,0 +1,387 @@
+'use client';
+
+/**
+ * Post Feed Component
+ *
+ * Infinite scroll list of thread posts shared by the main feed and tag pages.
+ *
+ * Features:
+ * - Sort tabs (latest, trending, top this week)
+ * - All members, only followed members, or For you (personalized ranking)
+ * - Optional hashtag filter
+ * - Announcements region with pinned posts at the top of the main feed
+ * - Skeleton loading, error and empty states
+ * - Like, bookmark, share, quote and inline editing of own posts
+ * - Reporting other members' posts
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { useInView } from 'react-intersection-observer';
+import { Clock, Flame, Pin, RefreshCw, Trophy } from 'lucide-react';
+import { cn } from '@/lib/cn';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton, SkeletonAvatar, SkeletonText } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useRouter } from '@/i18n/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { useAuthModalStore } from '@/stores/auth-modal-store';
+import { ReportDialog, type ReportTarget } from '@/features/reports';
+
+import { PostComposer } from './post-composer';
+import { PostCard } from './post-card';
+import { QuoteDialog } from './quote-dialog';
+import {
+  usePosts,
+  usePersonalizedFeed,
+  usePinnedPosts,
+  useReactionMutation,
+  useBookmarkMutation,
+} from '../api/queries';
+import type { FeedOptions, FeedSort, PostWithAuthor, ReactionType } from '../types';
+
+const SORT_OPTIONS: Array<{
+  value: FeedSort;
+  translationKey: string;
+  icon: React.ElementType;
+}> = [
+  { value: 'latest', translationKey: 'recent', icon: Clock },
+  { value: 'trending', translationKey: 'trending', icon: Flame },
+  { value: 'top_week', translationKey: 'topWeek', icon: Trophy },
+];
+
+export interface FeedSortTabsProps {
+  value: FeedSort;
+  onValueChange: (sort: FeedSort) => void;
+  className?: string;
+}
+
+/**
+ * FeedSortTabs - Pill tabs for choosing the feed order
+ */
+export function FeedSortTabs({ value, onValueChange, className }: FeedSortTabsProps) {
+  const t = useTranslations('thread');
+
+  return (
+    <Tabs
+      value={value}
+      onValueChange={(next) => onValueChange(next as FeedSort)}
+      className={className}
+    >
+      <TabsList variant="pills">
+        {SORT_OPTIONS.map((option) => {
+          const Icon = option.icon;
+          return (
+            <TabsTrigger key={option.value} value={option.value} className="gap-2 text-sm">
+              <Icon className="h-4 w-4" />
+              {t(`filter.${option.translationKey}`)}
+            </TabsTrigger>
+          );
+        })}
+      </TabsList>
+    </Tabs>
+  );
+}
+
+/**
+ * PostCardSkeleton - Loading skeleton for post cards
+ */
+function PostCardSkeleton() {
+  return (
+    <Card variant="default" padding="none" className="overflow-hidden">
+      <CardContent className="p-4 sm:p-5">
+        {/* Header skeleton */}
+        <div className="flex items-start gap-3">
+          <SkeletonAvatar size="md" />
+          <div className="flex-1 space-y-2">
+            <Skeleton className="h-4 w-32" rounded="md" />
+            <Skeleton className="h-3 w-48" rounded="md" />
+          </div>
+        </div>
+
+        {/* Content skeleton */}
+        <div className="mt-4">
+          <SkeletonText lines={3} />
+        </div>
+
+        {/* Actions skeleton */}
+        <div className="mt-4 flex items-center gap-4 border-t border-white/[0.08] pt-3">
+          <Skeleton className="h-8 w-16" rounded="lg" />
+          <Skeleton className="h-8 w-16" rounded="lg" />
+          <Skeleton className="h-8 w-16" rounded="lg" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * FeedLoadingSkeleton - Multiple skeleton cards for initial load
+ */
+function FeedLoadingSkeleton({ count = 3 }: { count?: number }) {
+  return (
+    <div className="space-y-4">
+      {Array.from({ length: count }).map((_, index) => (
+        <PostCardSkeleton key={index} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * EmptyFeed - Empty state when no posts exist
+ */
+function EmptyFeed({ message }: { message: string }) {
+  return (
+    <Card variant="default" padding="lg" className="text-center">
+      <CardContent className="py-12">
+        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-white/5">
+          <RefreshCw className="h-8 w-8 text-muted" />
+        </div>
+        <p className="text-muted">{message}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export interface PostFeedProps extends FeedOptions {
+  /** Message shown when the feed has no posts */
+  emptyMessage?: string;
+}
+
+export function PostFeed({ sort = 'latest', scope = 'all', tag, emptyMessage }: PostFeedProps) {
+  const t = useTranslations('thread');
+  const router = useRouter();
+  const { user } = useAuth();
+  const openLogin = useAuthModalStore((s) => s.openLogin);
+  const [editingPostId, setEditingPostId] = React.useState<number | null>(null);
+  const [reportTarget, setReportTarget] = React.useState<ReportTarget | null>(null);
+  const [quotingPost, setQuotingPost] = React.useState<PostWithAuthor | null>(null);
+
+  // Fetch posts with infinite scroll; For you has its own ranking
+  const isPersonalized = scope === 'for_you';
+  const postsQuery = usePosts({ sort, scope, tag }, !isPersonalized);
+  const personalizedQuery = usePersonalizedFeed(isPersonalized);
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    isError,
+    refetch,
+  } = isPersonalized ? personalizedQuery : postsQuery;
+
+  // Pinned posts lead the main feed; following and tag feeds stay as they are
+  const showAnnouncements = scope === 'all' && !tag;
+  const { data: pinnedPosts } = usePinnedPosts(showAnnouncements);
+  const announcements = React.useMemo(
+    () => (showAnnouncements && pinnedPosts ? pinnedPosts : []),
+    [showAnnouncements, pinnedPosts]
+  );
+
+  // Mutations
+  const reactionMutation = useReactionMutation();
+  const bookmarkMutation = useBookmarkMutation();
+
+  // Intersection observer for infinite scroll
+  const { ref: loadMoreRef, inView } = useInView({
+    threshold: 0,
+    rootMargin: '100px',
+  });
+
+  // Trigger fetch when load more element is in view
+  React.useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [inView, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Flatten posts from all pages, leaving out posts shown as announcements
+  const posts = React.useMemo(() => {
+    const pinnedIds = new Set(announcements.map((post) => post.id));
+    return (data?.pages.flatMap((page) => page.posts) ?? []).filter(
+      (post) => !pinnedIds.has(post.id)
+    );
+  }, [data, announcements]);
+
+  const findPost = (postId: number) =>
+    posts.find((p) => p.id === postId) ?? announcements.find((p) => p.id === postId);
+
+  // Handle reaction change
+  const handleReact = (
+    postId: number,
+    reaction: ReactionType | null,
+    currentReaction: ReactionType | null
+  ) => {
+    reactionMutation.mutate({
+      likeable_type: 'post',
+      likeable_id: postId,
+      reaction,
+      currentReaction,
+    });
+  };
+
+  // Handle comment action - navigate to post detail
+  const handleComment = (postId: number) => {
+    router.push(`/thread/${postId}`);
+  };
+
+  // Handle post click - navigate to post detail
+  const handlePostClick = (postId: number) => {
+    router.push(`/thread/${postId}`);
+  };
+
+  // Handle bookmark action
+  const handleBookmark = (postId: number) => {
+    const post = findPost(postId);
+    if (!post) return;
+    bookmarkMutation.mutate({
+      postId,
+      isCurrentlyBookmarked: post.is_bookmarked,
+    });
+  };
+
+  // Handle edit action - swap the card for an inline composer
+  const handleEdit = (postId: number) => {
+    setEditingPostId(postId);
+  };
+
+  // Handle report action - members only
+  const handleReport = (postId: number) => {
+    if (!user) {
+      openLogin();
+      return;
+    }
+    setReportTarget({ type: 'post', id: postId });
+  };
+
+  // Handle quote action - members only
+  const handleQuote = (postId: number) => {
+    if (!user) {
+      openLogin();
+      return;
+    }
+    setQuotingPost(findPost(postId) ?? null);
+  };
+
+  // Handle share action
+  const handleShare = async (postId: number) => {
+    const url = `${window.location.origin}/thread/${postId}`;
+    if (navigator.share) {
+      try {
+        await navigator.share({
+          title: t('title'),
+          url,
+        });
+      } catch {
+        // User cancelled or share failed
+      }
+    } else {
+      // Fallback to clipboard
+      await navigator.clipboard.writeText(url);
+    }
+  };
+
+  const renderPost = (post: PostWithAuthor) =>
+    editingPostId === post.id ? (
+      <Card key={post.id} variant="default" padding="md">
+        <CardContent>
+          <PostComposer
+            post={post}
+            onSuccess={() => setEditingPostId(null)}
+            onCancel={() => setEditingPostId(null)}
+          />
+        </CardContent>
+      </Card>
+    ) : (
+      <PostCard
+        key={post.id}
+        post={post}
+        onReact={handleReact}
+        onComment={handleComment}
+        onShare={handleShare}
+        onQuote={handleQuote}
+        onBookmark={handleBookmark}
+        onEdit={user?.id === post.author_id ? handleEdit : undefined}
+        onReport={user?.id !== post.author_id ? handleReport : undefined}
+        onClick={handlePostClick}
+        isReacting={
+          reactionMutation.isPending &&
+          reactionMutation.variables?.likeable_id === post.id
+        }
+      />
+    );
+
+  return (
+    <div className="space-y-4">
+      {/* Loading State - Initial load */}
+      {isLoading && <FeedLoadingSkeleton count={5} />}
+
+      {/* Error State */}
+      {isError && !isLoading && (
+        <Card variant="default" padding="lg" className="text-center">
+          <CardContent className="py-8">
+            <p className="mb-4 text-error">{t('loading')}</p>
+            <Button variant="outline" onClick={() => refetch()}>
+              {t('refresh')}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Announcements - pinned posts */}
+      {!isLoading && !isError && announcements.length > 0 && (
+        <section aria-labelledby="feed-announcements" className="space-y-3">
+          <div className="flex items-center gap-2 px-1">
+            <Pin className="h-4 w-4 text-primary" />
+            <h2 id="feed-announcements" className="text-sm font-semibold text-white">
+              {t('announcements')}
+            </h2>
+          </div>
+          {announcements.map(renderPost)}
+        </section>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !isError && posts.length === 0 && announcements.length === 0 && (
+        <EmptyFeed message={emptyMessage ?? t('empty')} />
+      )}
+
+      {/* Posts List */}
+      {!isLoading && !isError && posts.length > 0 && (
+        <>
+          {posts.map(renderPost)}
+
+          {/* Load More Trigger */}
+          <div
+            ref={loadMoreRef}
+            className={cn(
+              'flex items-center justify-center py-4',
+              !hasNextPage && 'hidden'
+            )}
+          >
+            {isFetchingNextPage && (
+              <div className="flex items-center gap-2 text-muted">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                <span>{t('loading')}</span>
+              </div>
+            )}
+          </div>
+
+          {/* End of Feed */}
+          {!hasNextPage && posts.length > 0 && (
+            <div className="py-8 text-center">
+              <p className="text-sm text-muted">{t('noMore')}</p>
+            </div>
+          )}
+        </>
+      )}
+
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+      <QuoteDialog post={quotingPost} onClose={() => setQuotingPost(null)} />
+    </div>
+  );
+}
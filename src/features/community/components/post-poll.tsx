@@ -0,0 +1,185 @@
+'use client';
+
+/**
+ * Post Poll Component
+ *
+ * Poll attached to a thread post, used by PostCard and the post detail page.
+ * Features:
+ * - Single choice (radio) or multiple choice (checkbox) voting
+ * - Results with percentages after voting or once the poll closed
+ * - Live vote counts via useRealtimePoll while results are shown
+ * - Login prompt for anonymous users
+ * - Uses translations from thread.poll namespace
+ */
+
+import * as React from 'react';
+import { useTranslations, useFormatter, useNow } from 'next-intl';
+import { Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/cn';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/hooks/use-auth';
+import { useRealtimePoll } from '@/hooks/use-realtime-poll';
+import { useAuthModalStore } from '@/stores/auth-modal-store';
+import { getVotePercentages } from '@/lib/polls';
+import { usePoll, usePollVoteMutation } from '../api/queries';
+
+export interface PostPollProps {
+  pollId: number;
+  className?: string;
+}
+
+export function PostPoll({ pollId, className }: PostPollProps) {
+  const t = useTranslations('thread.poll');
+  const format = useFormatter();
+  const now = useNow({ updateInterval: 1000 * 60 });
+  const { isAuthenticated } = useAuth();
+  const openLogin = useAuthModalStore((s) => s.openLogin);
+  const [selectedIds, setSelectedIds] = React.useState<number[]>([]);
+
+  const { data: poll, isLoading } = usePoll(pollId);
+  const voteMutation = usePollVoteMutation();
+
+  const hasVoted = !!poll && poll.my_option_ids.length > 0;
+  const isClosed = !!poll?.closes_at && new Date(poll.closes_at) <= now;
+  const showResults = hasVoted || isClosed;
+
+  // Live counts only matter once results are on screen
+  useRealtimePoll(pollId, { enabled: showResults });
+
+  if (isLoading) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        <Skeleton className="h-10 w-full" rounded="lg" />
+        <Skeleton className="h-10 w-full" rounded="lg" />
+      </div>
+    );
+  }
+
+  if (!poll) return null;
+
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.vote_count, 0);
+  const percentages = getVotePercentages(poll.options.map((option) => option.vote_count));
+
+  const handleToggle = (optionId: number) => {
+    if (!isAuthenticated) {
+      openLogin();
+      return;
+    }
+
+    setSelectedIds((prev) => {
+      if (!poll.allows_multiple) return [optionId];
+      return prev.includes(optionId)
+        ? prev.filter((id) => id !== optionId)
+        : [...prev, optionId];
+    });
+  };
+
+  const handleVote = () => {
+    if (selectedIds.length === 0) return;
+
+    voteMutation.mutate(
+      { poll_id: poll.id, option_ids: selectedIds },
+      {
+        onSuccess: () => setSelectedIds([]),
+        onError: () => toast.error(t('voteFailed')),
+      }
+    );
+  };
+
+  return (
+    <div
+      className={cn('space-y-2', className)}
+      role="group"
+      aria-label={t('title')}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {poll.options.map((option, index) => {
+        const isMine = poll.my_option_ids.includes(option.id);
+        const isSelected = selectedIds.includes(option.id);
+
+        if (showResults) {
+          return (
+            <div
+              key={option.id}
+              className="relative overflow-hidden rounded-xl border border-white/[0.08] px-4 py-2.5"
+            >
+              <div
+                className={cn(
+                  'absolute inset-y-0 left-0 transition-[width] duration-500',
+                  isMine ? 'bg-primary/25' : 'bg-white/[0.06]'
+                )}
+                style={{ width: `${percentages[index]}%` }}
+                aria-hidden="true"
+              />
+              <div className="relative flex items-center justify-between gap-3 text-sm">
+                <span className={cn('flex items-center gap-1.5', isMine ? 'font-semibold text-white' : 'text-white/80')}>
+                  {option.label}
+                  {isMine && <Check className="h-3.5 w-3.5 text-primary" aria-label={t('yourVote')} />}
+                </span>
+                <span className="shrink-0 font-medium text-white/80">{percentages[index]}%</span>
+              </div>
+            </div>
+          );
+        }
+
+        return (
+          <button
+            key={option.id}
+            type="button"
+            role={poll.allows_multiple ? 'checkbox' : 'radio'}
+            aria-checked={isSelected}
+            onClick={() => handleToggle(option.id)}
+            disabled={voteMutation.isPending}
+            className={cn(
+              'flex w-full items-center gap-3 rounded-xl border px-4 py-2.5 text-left text-sm text-white transition-colors',
+              isSelected
+                ? 'border-primary/60 bg-primary/10'
+                : 'border-white/[0.08] hover:bg-white/[0.04]'
+            )}
+          >
+            <span
+              className={cn(
+                'flex h-4 w-4 shrink-0 items-center justify-center border',
+                poll.allows_multiple ? 'rounded' : 'rounded-full',
+                isSelected ? 'border-primary bg-primary' : 'border-white/30'
+              )}
+              aria-hidden="true"
+            >
+              {isSelected && <Check className="h-3 w-3 text-white" />}
+            </span>
+            {option.label}
+          </button>
+        );
+      })}
+
+      <div className="flex items-center justify-between gap-3 pt-1 text-xs text-muted">
+        <span>
+          {t('votes', { count: totalVotes })}
+          {' · '}
+          {isClosed
+            ? t('closed')
+            : poll.closes_at
+              ? t('closesIn', { time: format.relativeTime(new Date(poll.closes_at), now) })
+              : poll.allows_multiple
+                ? t('multipleChoice')
+                : t('singleChoice')}
+        </span>
+
+        {!showResults && (
+          <Button
+            type="button"
+            variant="primary"
+            size="sm"
+            onClick={handleVote}
+            disabled={selectedIds.length === 0}
+            loading={voteMutation.isPending}
+          >
+            {t('vote')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+/**
+ * Quote Dialog Component
+ *
+ * Dialog with a PostComposer in quote mode, used by the feed and the post
+ * detail page. Posting without text shares the post as a plain repost.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+
+import { PostComposer } from './post-composer';
+import type { QuotedPost } from '../types';
+
+export interface QuoteDialogProps {
+  /** Post being quoted; the dialog is open while set */
+  post: QuotedPost | null;
+  /** Called when the dialog closes (cancelled or posted) */
+  onClose: () => void;
+}
+
+export function QuoteDialog({ post, onClose }: QuoteDialogProps) {
+  const t = useTranslations('thread.quote');
+
+  return (
+    <Dialog open={!!post} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{t('title')}</DialogTitle>
+          <DialogDescription>{t('description')}</DialogDescription>
+        </DialogHeader>
+        {post && (
+          <PostComposer key={post.id} quotedPost={post} onSuccess={onClose} onCancel={onClose} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
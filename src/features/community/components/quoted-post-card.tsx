@@ -0,0 +1,111 @@
+'use client';
+
+/**
+ * Quoted Post Card Component
+ *
+ * Compact card of the original post inside a quote, used by PostCard, the
+ * post detail page and the composer while quoting. Shows a placeholder when
+ * the original was deleted, hidden or is otherwise not visible.
+ */
+
+import * as React from 'react';
+import Image from 'next/image';
+import { useTranslations, useFormatter, useNow } from 'next-intl';
+import { EyeOff } from 'lucide-react';
+import { cn } from '@/lib/cn';
+import { Link } from '@/i18n/navigation';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { AnonymousAvatar, usePseudonym } from './anonymous-author';
+import type { QuotedPost } from '../types';
+
+export interface QuotedPostCardProps {
+  /** The original post, or null when it is no longer available */
+  post: QuotedPost | null;
+  /** Link the card to the original's detail page (off in the composer) */
+  linked?: boolean;
+  className?: string;
+}
+
+/**
+ * Gets the initials from a full name for avatar fallback
+ */
+function getInitials(name: string | null | undefined): string {
+  if (!name) return '?';
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return parts[0].slice(0, 2).toUpperCase();
+  }
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+export function QuotedPostCard({ post, linked = true, className }: QuotedPostCardProps) {
+  const t = useTranslations('thread.quote');
+  const format = useFormatter();
+  const now = useNow({ updateInterval: 1000 * 60 });
+  const pseudonym = usePseudonym();
+
+  const containerClassName = cn(
+    'block overflow-hidden rounded-2xl border border-white/[0.08] bg-white/[0.02]',
+    className
+  );
+
+  if (!post) {
+    return (
+      <div className={cn(containerClassName, 'flex items-center gap-2 px-4 py-3 text-sm text-muted')}>
+        <EyeOff className="h-4 w-4 shrink-0" aria-hidden="true" />
+        {t('unavailable')}
+      </div>
+    );
+  }
+
+  const thumbnail = post.media_urls[0];
+  const authorName = post.is_anonymous ? pseudonym() : post.author?.full_name || 'Unknown User';
+
+  const body = (
+    <div className="flex gap-3 px-4 py-3">
+      <div className="min-w-0 flex-1 space-y-1.5">
+        <div className="flex items-center gap-2 text-sm">
+          {post.is_anonymous ? (
+            <AnonymousAvatar size="xs" />
+          ) : (
+            <Avatar size="xs">
+              {post.author?.avatar_url ? (
+                <AvatarImage src={post.author.avatar_url} alt={post.author?.full_name || 'User avatar'} />
+              ) : null}
+              <AvatarFallback>{getInitials(post.author?.full_name)}</AvatarFallback>
+            </Avatar>
+          )}
+          <span className="truncate font-semibold text-white">{authorName}</span>
+          <time dateTime={post.created_at} className="shrink-0 text-muted">
+            {format.relativeTime(new Date(post.created_at), now)}
+          </time>
+        </div>
+        {post.content && (
+          <p className="line-clamp-4 whitespace-pre-wrap text-sm leading-relaxed text-white/80">
+            {post.content}
+          </p>
+        )}
+      </div>
+      {thumbnail && (
+        <div className="relative h-16 w-16 shrink-0 overflow-hidden rounded-xl bg-card-secondary">
+          <Image src={thumbnail} alt="" fill className="object-cover" sizes="64px" />
+        </div>
+      )}
+    </div>
+  );
+
+  if (!linked) {
+    return <div className={containerClassName}>{body}</div>;
+  }
+
+  return (
+    <Link
+      href={`/thread/${post.id}`}
+      onClick={(e) => e.stopPropagation()}
+      aria-label={t('open', { name: authorName })}
+      className={cn(containerClassName, 'transition-colors hover:bg-white/[0.05]')}
+    >
+      {body}
+    </Link>
+  );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+/**
+ * Reaction Bar Component
+ *
+ * Emoji reactions on a post or comment, used by PostCard, CommentList and the
+ * post detail page. Features:
+ * - Toggle button (👍 by default, or removes the member's reaction)
+ * - Picker with the full reaction set to add or switch a reaction
+ * - Summary of the top reactions with a "who reacted" list
+ * - Login prompt for anonymous users
+ * - Uses translations from thread.reactions namespace
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { Heart, SmilePlus } from 'lucide-react';
+import { cn } from '@/lib/cn';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
+import { useAuth } from '@/hooks/use-auth';
+import { useAuthModalStore } from '@/stores/auth-modal-store';
+import { REACTIONS, getReactionEmoji, getTopReactions } from '@/lib/reactions';
+import { useReactors } from '../api/queries';
+import type { LikeInput, ReactionCounts, ReactionType } from '../types';
+
+export interface ReactionBarProps {
+  likeableType: LikeInput['likeable_type'];
+  likeableId: number;
+  /** The current member's reaction, if any */
+  myReaction: ReactionType | null;
+  /** Count per reaction */
+  counts: ReactionCounts;
+  /** Total number of reactions (like_count) */
+  total: number;
+  /** Called with the new reaction, or null to remove it */
+  onReact?: (reaction: ReactionType | null, currentReaction: ReactionType | null) => void;
+  /** Whether a reaction change is in progress */
+  disabled?: boolean;
+  /** Smaller variant for comments */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Gets the initials from a full name for avatar fallback
+ */
+function getInitials(name: string | null): string {
+  if (!name) return '?';
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return parts[0].slice(0, 2).toUpperCase();
+  }
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+/**
+ * "Who reacted" list, fetched while the popover is open
+ */
+function ReactorList({
+  likeableType,
+  likeableId,
+  counts,
+  total,
+}: Pick<ReactionBarProps, 'likeableType' | 'likeableId' | 'counts' | 'total'>) {
+  const t = useTranslations('thread.reactions');
+  const [filter, setFilter] = React.useState<ReactionType | null>(null);
+  const { data: reactors, isLoading, isError } = useReactors(likeableType, likeableId);
+
+  const visibleReactors = (reactors ?? []).filter(
+    (reactor) => !filter || reactor.reaction === filter
+  );
+  const usedReactions = REACTIONS.filter((reaction) => (counts[reaction.type] ?? 0) > 0);
+
+  const filterClassName = (isActive: boolean) =>
+    cn(
+      'shrink-0 rounded-full px-2.5 py-1 text-xs tabular-nums transition-colors',
+      isActive ? 'bg-white/10 text-white' : 'text-muted hover:bg-white/5 hover:text-white'
+    );
+
+  return (
+    <>
+      {/* Filter by reaction */}
+      <div className="flex items-center gap-1 overflow-x-auto border-b border-white/[0.08] px-3 py-2">
+        <button
+          type="button"
+          onClick={() => setFilter(null)}
+          aria-pressed={filter === null}
+          className={filterClassName(filter === null)}
+        >
+          {t('all', { count: total })}
+        </button>
+        {usedReactions.map((reaction) => (
+          <button
+            key={reaction.type}
+            type="button"
+            onClick={() => setFilter(reaction.type)}
+            aria-pressed={filter === reaction.type}
+            aria-label={t(reaction.type)}
+            className={filterClassName(filter === reaction.type)}
+          >
+            {reaction.emoji} {counts[reaction.type]}
+          </button>
+        ))}
+      </div>
+
+      {/* Reactors */}
+      <div className="max-h-72 overflow-y-auto py-1">
+        {isLoading ? (
+          <div className="space-y-2 px-3 py-2">
+            <Skeleton className="h-8 w-full" rounded="lg" />
+            <Skeleton className="h-8 w-full" rounded="lg" />
+          </div>
+        ) : isError ? (
+          <p className="px-3 py-4 text-center text-sm text-muted">{t('loadFailed')}</p>
+        ) : visibleReactors.length === 0 ? (
+          <p className="px-3 py-4 text-center text-sm text-muted">{t('empty')}</p>
+        ) : (
+          <ul>
+            {visibleReactors.map((reactor) => (
+              <li key={reactor.user.id} className="flex items-center gap-3 px-3 py-2">
+                <Avatar size="sm" className="shrink-0">
+                  {reactor.user.avatar_url && (
+                    <AvatarImage
+                      src={reactor.user.avatar_url}
+                      alt={reactor.user.full_name || 'User avatar'}
+                    />
+                  )}
+                  <AvatarFallback>{getInitials(reactor.user.full_name)}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-white">
+                    {reactor.user.full_name || 'Unknown User'}
+                  </p>
+                  {reactor.user.company_name && (
+                    <p className="truncate text-xs text-muted">{reactor.user.company_name}</p>
+                  )}
+                </div>
+                <span className="text-lg" role="img" aria-label={t(reactor.reaction)}>
+                  {getReactionEmoji(reactor.reaction)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
+
+export function ReactionBar({
+  likeableType,
+  likeableId,
+  myReaction,
+  counts,
+  total,
+  onReact,
+  disabled,
+  compact,
+  className,
+}: ReactionBarProps) {
+  const t = useTranslations('thread.reactions');
+  const { isAuthenticated } = useAuth();
+  const openLogin = useAuthModalStore((s) => s.openLogin);
+  const [isPickerOpen, setIsPickerOpen] = React.useState(false);
+  const [isListOpen, setIsListOpen] = React.useState(false);
+
+  const topReactions = getTopReactions(counts);
+
+  const react = (reaction: ReactionType | null) => {
+    if (!isAuthenticated) {
+      openLogin();
+      return;
+    }
+    onReact?.(reaction, myReaction);
+  };
+
+  // Popovers only open for members; anonymous users get the login prompt
+  const guardOpen = (setOpen: (open: boolean) => void) => (open: boolean) => {
+    if (open && !isAuthenticated) {
+      openLogin();
+      return;
+    }
+    setOpen(open);
+  };
+
+  const buttonClassName = cn(
+    'flex items-center rounded-full transition-colors disabled:opacity-50',
+    compact ? 'gap-1 text-xs' : 'gap-1.5 px-3 py-1.5 text-sm hover:bg-white/5'
+  );
+  const iconClassName = compact ? 'h-3.5 w-3.5' : 'h-4 w-4';
+
+  return (
+    <div
+      className={cn('flex items-center', compact ? 'gap-2' : 'gap-0.5', className)}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Toggle: adds 👍 or removes the current reaction */}
+      <button
+        type="button"
+        onClick={() => react(myReaction ? null : 'like')}
+        disabled={disabled}
+        aria-pressed={!!myReaction}
+        aria-label={myReaction ? t('remove', { reaction: t(myReaction) }) : t('like')}
+        className={cn(buttonClassName, myReaction ? 'text-white' : 'text-muted hover:text-white')}
+      >
+        {myReaction ? (
+          <span className={compact ? 'text-sm' : 'text-base'} aria-hidden="true">
+            {getReactionEmoji(myReaction)}
+          </span>
+        ) : (
+          <Heart className={iconClassName} aria-hidden="true" />
+        )}
+        {!compact && <span>{myReaction ? t(myReaction) : t('like')}</span>}
+      </button>
+
+      {/* Picker */}
+      <Popover open={isPickerOpen} onOpenChange={guardOpen(setIsPickerOpen)}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            disabled={disabled}
+            aria-label={t('pick')}
+            className={cn(buttonClassName, 'text-muted hover:text-white', !compact && 'px-2')}
+          >
+            <SmilePlus className={iconClassName} aria-hidden="true" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent
+          align="start"
+          sideOffset={6}
+          className="w-auto rounded-full border border-white/10 !bg-[#1C1C1E] p-1 shadow-2xl shadow-black/80"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center gap-0.5" role="group" aria-label={t('pick')}>
+            {REACTIONS.map((reaction) => {
+              const isMine = myReaction === reaction.type;
+              return (
+                <button
+                  key={reaction.type}
+                  type="button"
+                  title={t(reaction.type)}
+                  aria-label={t(reaction.type)}
+                  aria-pressed={isMine}
+                  onClick={() => {
+                    setIsPickerOpen(false);
+                    react(isMine ? null : reaction.type);
+                  }}
+                  className={cn(
+                    'flex h-9 w-9 items-center justify-center rounded-full text-xl transition-transform hover:scale-125 hover:bg-white/5',
+                    isMine && 'bg-white/10'
+                  )}
+                >
+                  {reaction.emoji}
+                </button>
+              );
+            })}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {/* Summary and who reacted */}
+      {total > 0 && (
+        <Popover open={isListOpen} onOpenChange={guardOpen(setIsListOpen)}>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              aria-label={t('showReactors', { count: total })}
+              className={cn(buttonClassName, 'text-muted hover:text-white', !compact && 'px-2')}
+            >
+              <span className="flex -space-x-0.5" aria-hidden="true">
+                {topReactions.map((reaction) => (
+                  <span key={reaction}>{getReactionEmoji(reaction)}</span>
+                ))}
+              </span>
+              <span className="tabular-nums">{total}</span>
+            </button>
+          </PopoverTrigger>
+          <PopoverContent
+            align="start"
+            sideOffset={6}
+            className="w-72 overflow-hidden rounded-2xl border border-white/10 !bg-[#1C1C1E] p-0 shadow-2xl shadow-black/80"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <ReactorList
+              likeableType={likeableType}
+              likeableId={likeableId}
+              counts={counts}
+              total={total}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * Rich Text Component
+ *
+ * Renders post or comment content with links:
+ * - URLs open in a new tab
+ * - Stored @mentions link to the member's profile
+ * - #hashtags link to the tag page
+ * Handles that match no mentioned member stay plain text.
+ */
+
+import * as React from 'react';
+
+import { splitMentions, type MentionSegment } from '@/lib/mentions';
+import { splitHashtags, type HashtagSegment } from '@/lib/hashtags';
+import { splitLinks, type LinkSegment } from '@/lib/links';
+import { Link } from '@/i18n/navigation';
+import { cn } from '@/lib/cn';
+import type { MentionedUser } from '../types';
+
+export interface RichTextProps {
+  /** Post or comment content */
+  content: string;
+  /** Members mentioned in the content */
+  mentions: MentionedUser[];
+}
+
+const linkClassName = 'font-medium text-[#0079FF] hover:underline';
+
+// Cards navigate on click; keep links from triggering that
+const stopPropagation = (e: React.MouseEvent) => e.stopPropagation();
+
+export function RichText({ content, mentions }: RichTextProps) {
+  const usernames = React.useMemo(
+    () => mentions.map((mention) => mention.username),
+    [mentions]
+  );
+
+  const segments = React.useMemo(
+    () =>
+      // Links first, so "@" and "#" inside URLs stay part of the link
+      splitLinks(content).flatMap<LinkSegment | MentionSegment | HashtagSegment>((linkSegment) =>
+        linkSegment.type === 'text'
+          ? splitMentions(linkSegment.text, usernames).flatMap<MentionSegment | HashtagSegment>(
+              (segment) => (segment.type === 'text' ? splitHashtags(segment.text) : [segment])
+            )
+          : [linkSegment]
+      ),
+    [content, usernames]
+  );
+
+  return (
+    <>
+      {segments.map((segment, index) => {
+        switch (segment.type) {
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={segment.url}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                onClick={stopPropagation}
+                className={cn(linkClassName, 'break-all')}
+              >
+                {segment.text}
+              </a>
+            );
+          case 'mention':
+            return (
+              <Link
+                key={index}
+                href={`/members/${segment.username}`}
+                onClick={stopPropagation}
+                className={linkClassName}
+              >
+                {segment.text}
+              </Link>
+            );
+          case 'hashtag':
+            return (
+              <Link
+                key={index}
+                href={`/thread/tag/${encodeURIComponent(segment.tag)}`}
+                onClick={stopPropagation}
+                className={linkClassName}
+              >
+                {segment.text}
+              </Link>
+            );
+          default:
+            return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+        }
+      })}
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+/**
+ * Thread Presence Component
+ *
+ * Shows the other members viewing a post on its detail page, with a typing
+ * indicator while any of them writes a comment. Fed by useRealtimeThread.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { cn } from '@/lib/cn';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import type { ThreadViewer } from '@/hooks/use-realtime-thread';
+
+export interface ThreadPresenceProps {
+  /** Other members viewing the thread (the current member excluded) */
+  viewers: ThreadViewer[];
+  className?: string;
+}
+
+/** Avatars shown before the rest are summarized in the count */
+const MAX_AVATARS = 4;
+
+/**
+ * Gets the initials from a full name for avatar fallback
+ */
+function getInitials(name: string | null): string {
+  if (!name) return '?';
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return parts[0].slice(0, 2).toUpperCase();
+  }
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+export function ThreadPresence({ viewers, className }: ThreadPresenceProps) {
+  const t = useTranslations('thread.presence');
+
+  if (viewers.length === 0) return null;
+
+  const typingNames = viewers
+    .filter((viewer) => viewer.is_typing)
+    .map((viewer) => viewer.full_name || t('someone'));
+
+  return (
+    <div className={cn('flex items-center gap-3 text-xs text-muted', className)} aria-live="polite">
+      <div className="flex -space-x-2">
+        {viewers.slice(0, MAX_AVATARS).map((viewer) => (
+          <Avatar
+            key={viewer.id}
+            size="xs"
+            className="ring-2 ring-card"
+            title={viewer.full_name || undefined}
+          >
+            {viewer.avatar_url && (
+              <AvatarImage src={viewer.avatar_url} alt={viewer.full_name || 'User avatar'} />
+            )}
+            <AvatarFallback>{getInitials(viewer.full_name)}</AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+
+      {typingNames.length > 0 ? (
+        <span className="flex items-center gap-1.5 text-white/80">
+          <span className="flex gap-0.5" aria-hidden="true">
+            <span className="h-1 w-1 animate-bounce rounded-full bg-current [animation-delay:-0.3s]" />
+            <span className="h-1 w-1 animate-bounce rounded-full bg-current [animation-delay:-0.15s]" />
+            <span className="h-1 w-1 animate-bounce rounded-full bg-current" />
+          </span>
+          {typingNames.length === 1
+            ? t('typingOne', { name: typingNames[0] })
+            : t('typingMany', { count: typingNames.length })}
+        </span>
+      ) : (
+        <span>{t('viewing', { count: viewers.length })}</span>
+      )}
+    </div>
+  );
+}
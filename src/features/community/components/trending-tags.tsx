@@ -0,0 +1,92 @@
+'use client';
+
+/**
+ * Trending Tags Component
+ *
+ * Sidebar card for the thread feed listing the most used hashtags of the
+ * week, plus the tags the current member follows.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { Hash, TrendingUp } from 'lucide-react';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Link } from '@/i18n/navigation';
+import { useAuth } from '@/hooks/use-auth';
+
+import { useTrendingTags, useFollowedTags } from '../api/queries';
+import type { Tag } from '../types';
+
+function TagLink({ tag, children }: { tag: Tag; children?: React.ReactNode }) {
+  return (
+    <Link
+      href={`/thread/tag/${encodeURIComponent(tag.name)}`}
+      className="flex items-center justify-between gap-2 rounded-xl px-3 py-2 text-sm text-white transition-colors hover:bg-white/[0.04]"
+    >
+      <span className="truncate font-medium">#{tag.name}</span>
+      {children}
+    </Link>
+  );
+}
+
+export function TrendingTags() {
+  const t = useTranslations('thread.tags');
+  const { user } = useAuth();
+  const { data: trending, isLoading } = useTrendingTags();
+  const { data: followed } = useFollowedTags(user?.id);
+
+  return (
+    <div className="space-y-4">
+      <Card variant="default" padding="none">
+        <CardContent className="p-4">
+          <h2 className="mb-2 flex items-center gap-2 px-3 text-sm font-semibold text-white">
+            <TrendingUp className="h-4 w-4 text-[#0079FF]" />
+            {t('trending')}
+          </h2>
+
+          {isLoading ? (
+            <div className="space-y-2 px-3 py-1">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-5 w-full" rounded="md" />
+              ))}
+            </div>
+          ) : trending && trending.length > 0 ? (
+            <ul>
+              {trending.map((tag) => (
+                <li key={tag.id}>
+                  <TagLink tag={tag}>
+                    <span className="shrink-0 text-xs text-muted">
+                      {t('postCount', { count: tag.post_count })}
+                    </span>
+                  </TagLink>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-3 py-2 text-sm text-muted">{t('trendingEmpty')}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {followed && followed.length > 0 && (
+        <Card variant="default" padding="none">
+          <CardContent className="p-4">
+            <h2 className="mb-2 flex items-center gap-2 px-3 text-sm font-semibold text-white">
+              <Hash className="h-4 w-4 text-[#0079FF]" />
+              {t('followedTags')}
+            </h2>
+            <ul>
+              {followed.map((tag) => (
+                <li key={tag.id}>
+                  <TagLink tag={tag} />
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,10 @@
  * in the Thread/Community feed feature.
  */
 
+import type { ReactionCounts, ReactionType } from '@/lib/reactions';
+
+export type { ReactionCounts, ReactionType };
+
 /**
  * Author information embedded in posts and comments
  */
@@ -15,29 +19,186 @@ export interface Author {
   company_name: string | null;
 }
 
+/**
+ * Member mentioned with @username in a post or comment
+ */
+export interface MentionedUser {
+  id: string;
+  username: string;
+}
+
+/**
+ * Member suggested while typing an @mention
+ */
+export interface MentionSuggestion {
+  id: string;
+  username: string;
+  nickname: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
 /**
  * Post entity from the database
  */
 export interface Post {
   id: number;
-  author_id: string;
+  /**
+   * Null for anonymous posts, except the current user's own (filled in on
+   * fetch so they can still edit and delete them)
+   */
+  author_id: string | null;
   content: string;
   media_urls: string[];
+  /** Total number of reactions */
   like_count: number;
+  /** Count per reaction */
+  reaction_counts: ReactionCounts;
   comment_count: number;
+  /** Number of published quotes of this post */
+  repost_count: number;
   is_pinned: boolean;
+  /** When the pin expires (null if pinned until unpinned or not pinned) */
+  pinned_until: string | null;
+  /** Admin-authored notice, shown with a badge and on the home page */
+  is_notice: boolean;
+  /** Posted anonymously; the author is only visible to admins */
+  is_anonymous: boolean;
   is_hidden: boolean;
   created_at: string;
   updated_at: string;
+  /** Set when the author last changed the content or media (null if never edited) */
+  edited_at: string | null;
+  /** Post this post quotes (null if not a quote or the original was deleted) */
+  quoted_post_id: number | null;
+  /** Whether the post is a quote; stays true after the original is deleted */
+  is_quote: boolean;
+}
+
+/**
+ * Publication state of a post. Drafts and scheduled posts are only visible
+ * to their author; scheduled posts are published at publish_at by a job.
+ */
+export type PostStatus = 'draft' | 'scheduled' | 'published';
+
+/**
+ * Unpublished post of the current user, listed in the profile Activity tab
+ */
+export interface DraftPost {
+  id: number;
+  content: string;
+  media_urls: string[];
+  status: Exclude<PostStatus, 'published'>;
+  /** When a scheduled post goes live (null for drafts) */
+  publish_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 /**
  * Post with author information (joined from profiles)
  */
 export interface PostWithAuthor extends Post {
-  author: Author;
+  /** Null for anonymous posts */
+  author: Author | null;
+  /** Whether the current user reacted (with any reaction) */
   is_liked: boolean;
+  /** The current user's reaction (null if none) */
+  my_reaction: ReactionType | null;
   is_bookmarked: boolean;
+  /** Members mentioned in the content (from the mentions table) */
+  mentions: MentionedUser[];
+  /** Poll attached to the post, loaded separately with usePoll (null if none) */
+  poll_id: number | null;
+  /** Document attachments, in upload order */
+  attachments: PostAttachment[];
+  /** Quoted original; null when it was deleted, hidden or is not visible */
+  quoted_post: QuotedPost | null;
+  /** Why the post was recommended (For you feed only) */
+  rank_reasons?: FeedRankReason[];
+}
+
+/**
+ * Original post embedded in a quote
+ */
+export interface QuotedPost {
+  id: number;
+  content: string;
+  media_urls: string[];
+  created_at: string;
+  is_anonymous: boolean;
+  /** Null for anonymous posts */
+  author: Author | null;
+}
+
+/**
+ * Admin notice listed in the home page summary
+ */
+export interface NoticeSummary {
+  id: number;
+  content: string;
+  created_at: string;
+  is_pinned: boolean;
+  pinned_until: string | null;
+  author: Author;
+}
+
+/**
+ * Document attached to a post (PDF, DOCX, PPTX, XLSX)
+ */
+export interface PostAttachment {
+  id: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  /** Public URL that downloads the file under its original name */
+  url: string;
+}
+
+/**
+ * File validated and stored by /api/attachments, not yet linked to a post
+ */
+export interface UploadedAttachment {
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_path: string;
+}
+
+/**
+ * Poll choice with its live vote count
+ */
+export interface PollOption {
+  id: number;
+  label: string;
+  position: number;
+  vote_count: number;
+}
+
+/**
+ * Poll attached to a post, with results and the current user's votes
+ */
+export interface Poll {
+  id: number;
+  post_id: number;
+  allows_multiple: boolean;
+  /** Voting closes at this time (null if the poll stays open) */
+  closes_at: string | null;
+  /** Options ordered by position */
+  options: PollOption[];
+  /** Options the current user voted for (empty if not voted) */
+  my_option_ids: number[];
+}
+
+/**
+ * OpenGraph preview of a link in a post (from /api/link-preview)
+ */
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
 }
 
 /**
@@ -46,42 +207,137 @@ export interface PostWithAuthor extends Post {
 export interface Comment {
   id: number;
   post_id: number;
-  author_id: string;
+  /**
+   * Null for anonymous comments, except the current user's own (filled in on
+   * fetch so they can still edit and delete them)
+   */
+  author_id: string | null;
   parent_id: number | null;
   content: string;
+  /** Total number of reactions */
   like_count: number;
+  /** Count per reaction */
+  reaction_counts: ReactionCounts;
   is_hidden: boolean;
   created_at: string;
   updated_at: string;
+  /** Set when the author last changed the content (null if never edited) */
+  edited_at: string | null;
+  /** Set when the author deleted the comment; the content is then empty */
+  deleted_at: string | null;
+  /** Commented anonymously (only possible in anonymous threads) */
+  is_anonymous: boolean;
+  /** Pseudonym of the anonymous author within the thread (0 = original poster) */
+  anonymous_number: number | null;
 }
 
 /**
  * Comment with author information (joined from profiles)
  */
 export interface CommentWithAuthor extends Comment {
-  author: Author;
+  /** Null for anonymous comments */
+  author: Author | null;
+  /** Whether the current user reacted (with any reaction) */
   is_liked: boolean;
+  /** The current user's reaction (null if none) */
+  my_reaction: ReactionType | null;
+  /** Members mentioned in the content (from the mentions table) */
+  mentions: MentionedUser[];
   replies?: CommentWithAuthor[];
 }
 
 /**
- * Like entity for polymorphic likes (posts and comments)
+ * Like entity for polymorphic likes (posts and comments); each like carries
+ * the member's reaction
  */
 export interface Like {
   id: number;
   user_id: string;
   likeable_type: 'post' | 'comment';
   likeable_id: number;
+  reaction: ReactionType;
+  created_at: string;
+}
+
+/**
+ * Member who reacted to a post or comment
+ */
+export interface Reactor {
+  user: Author;
+  reaction: ReactionType;
   created_at: string;
 }
 
 /**
  * Cursor for feed pagination
- * Uses (created_at, id) for stable cursor-based pagination
+ * Uses (created_at, id) for the latest sort and (score, id) for ranked sorts
  */
 export interface FeedCursor {
   created_at: string;
   id: number;
+  /** Ranking score of the last post (trending and top_week sorts only) */
+  score?: number;
+  /** Reference time scores are computed against, fixed for one scroll session */
+  as_of?: string;
+}
+
+/**
+ * Feed ordering
+ * - latest: newest first
+ * - trending: engagement with time decay
+ * - top_week: most likes + comments in the last 7 days
+ */
+export type FeedSort = 'trending' | 'latest' | 'top_week';
+
+/**
+ * Whose posts the feed shows
+ * - all: every member
+ * - following: members the current user follows (always newest first)
+ * - for_you: every member, ranked for the current user (usePersonalizedFeed)
+ */
+export type FeedScope = 'all' | 'following' | 'for_you';
+
+/**
+ * Why the For you feed recommended a post
+ * - same_industry: the author shares the member's industry
+ * - same_stage: the author shares the member's business stage
+ * - engaged_author: the member recently reacted to or commented on the author
+ */
+export type FeedRankReason = 'same_industry' | 'same_stage' | 'engaged_author';
+
+/**
+ * Options for the feed query
+ */
+export interface FeedOptions {
+  sort?: FeedSort;
+  scope?: FeedScope;
+  /** Only posts with this hashtag (normalized, without the #) */
+  tag?: string;
+}
+
+/**
+ * Hashtag parsed from post content
+ */
+export interface Tag {
+  id: number;
+  name: string;
+}
+
+/**
+ * Tag with the number of recent posts using it
+ */
+export interface TrendingTag extends Tag {
+  post_count: number;
+}
+
+/**
+ * Tag page header data
+ */
+export interface TagDetail extends Tag {
+  /** Number of visible posts with the tag */
+  post_count: number;
+  /** Whether the current user follows the tag */
+  is_following: boolean;
 }
 
 /**
@@ -99,6 +355,49 @@ export interface FeedPage {
 export interface CreatePostInput {
   content: string;
   media_urls?: string[];
+  /** Poll to attach to the new post */
+  poll?: CreatePollInput;
+  /** Documents uploaded through /api/attachments */
+  attachments?: UploadedAttachment[];
+  /** Post to quote; the content may then be empty (plain repost) */
+  quoted_post_id?: number;
+  /** Defaults to 'published' */
+  status?: PostStatus;
+  /** ISO timestamp to publish at (required when status is 'scheduled') */
+  publish_at?: string | null;
+  /** Hide the author behind a thread pseudonym (published posts only) */
+  is_anonymous?: boolean;
+}
+
+/**
+ * Poll settings chosen in the composer
+ */
+export interface CreatePollInput {
+  /** 2-6 option labels, in display order */
+  options: string[];
+  allows_multiple: boolean;
+  /** ISO timestamp when voting closes (null keeps the poll open) */
+  closes_at: string | null;
+}
+
+/**
+ * Input for voting in a poll
+ */
+export interface PollVoteInput {
+  poll_id: number;
+  option_ids: number[];
+}
+
+/**
+ * Input for editing an existing post
+ */
+export interface UpdatePostInput {
+  id: number;
+  content: string;
+  media_urls?: string[];
+  /** Publish or reschedule a draft; published posts stay published */
+  status?: PostStatus;
+  publish_at?: string | null;
 }
 
 /**
@@ -108,6 +407,17 @@ export interface CreateCommentInput {
   post_id: number;
   content: string;
   parent_id?: number;
+  /** Comment under a pseudonym (anonymous threads only) */
+  is_anonymous?: boolean;
+}
+
+/**
+ * Input for editing an existing comment
+ */
+export interface UpdateCommentInput {
+  id: number;
+  post_id: number;
+  content: string;
 }
 
 /**
@@ -118,6 +428,16 @@ export interface LikeInput {
   likeable_id: number;
 }
 
+/**
+ * Input for reacting: adds, switches or (with reaction null) removes the
+ * current user's reaction
+ */
+export interface ReactionInput extends LikeInput {
+  reaction: ReactionType | null;
+  /** The user's reaction before this change (null if none) */
+  currentReaction: ReactionType | null;
+}
+
 /**
  * Post detail with comments
  */
@@ -135,6 +455,14 @@ export const postQueryKeys = {
     [...postQueryKeys.lists(), filters] as const,
   details: () => [...postQueryKeys.all, 'detail'] as const,
   detail: (id: number) => [...postQueryKeys.details(), id] as const,
+  announcements: () => [...postQueryKeys.all, 'announcements'] as const,
+  pinned: () => [...postQueryKeys.announcements(), 'pinned'] as const,
+  notices: (limit: number) => [...postQueryKeys.announcements(), 'notices', limit] as const,
+} as const;
+
+export const draftQueryKeys = {
+  all: ['drafts'] as const,
+  list: (userId: string) => [...draftQueryKeys.all, userId] as const,
 } as const;
 
 export const commentQueryKeys = {
@@ -143,6 +471,34 @@ export const commentQueryKeys = {
   list: (postId: number) => [...commentQueryKeys.lists(), postId] as const,
 } as const;
 
+export const mentionQueryKeys = {
+  all: ['mentions'] as const,
+  suggestions: (query: string) => [...mentionQueryKeys.all, 'suggestions', query] as const,
+} as const;
+
+export const tagQueryKeys = {
+  all: ['tags'] as const,
+  trending: () => [...tagQueryKeys.all, 'trending'] as const,
+  followed: (userId: string) => [...tagQueryKeys.all, 'followed', userId] as const,
+  detail: (name: string) => [...tagQueryKeys.all, 'detail', name] as const,
+} as const;
+
+export const pollQueryKeys = {
+  all: ['polls'] as const,
+  detail: (pollId: number) => [...pollQueryKeys.all, 'detail', pollId] as const,
+} as const;
+
+export const linkPreviewQueryKeys = {
+  all: ['link-previews'] as const,
+  detail: (url: string) => [...linkPreviewQueryKeys.all, url] as const,
+} as const;
+
+export const reactionQueryKeys = {
+  all: ['reactions'] as const,
+  reactors: (likeableType: LikeInput['likeable_type'], likeableId: number) =>
+    [...reactionQueryKeys.all, 'reactors', likeableType, likeableId] as const,
+} as const;
+
 export const likeQueryKeys = {
   all: ['likes'] as const,
   userLikes: (userId: string) => [...likeQueryKeys.all, 'user', userId] as const,
@@ -20,6 +20,7 @@ import {
   useQueryClient,
 } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
+import { buildIlikeFilter } from '@/lib/search';
 import type {
   UserEvent,
   UserEventWithAuthor,
@@ -107,11 +108,9 @@ async function fetchUserEvents(
   }
 
   // Apply keyword search (searches title and description)
-  if (keyword && keyword.trim()) {
-    const searchTerm = `%${keyword.trim()}%`;
-    query = query.or(
-      `title.ilike.${searchTerm},description.ilike.${searchTerm}`
-    );
+  const keywordFilter = buildIlikeFilter(['title', 'description'], keyword);
+  if (keywordFilter) {
+    query = query.or(keywordFilter);
   }
 
   // Apply upcoming filter - show only events with future dates
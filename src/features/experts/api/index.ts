@@ -10,6 +10,9 @@ export {
   useExperts,
   useExpertsInfinite,
   useExpert,
+  // Own expert profile
+  useMyExpertProfile,
+  useUpdateExpertProfile,
   // Collaboration queries
   useSentCollaborations,
   useReceivedCollaborations,
@@ -18,6 +21,23 @@ export {
   useRespondToCollaboration,
   useCancelCollaborationRequest,
   useExpertMutations,
+  // Collaboration lifecycle
+  useTransitionCollaboration,
+  useUpdateCollaborationProposal,
+  useCollaborationEvents,
+  // Review queries and mutations
+  useExpertReviews,
+  useReviewableCollaborations,
+  useCreateExpertReview,
+  useReplyToExpertReview,
+  useDeleteExpertReview,
+  // Coffee chat scheduling
+  useExpertSchedule,
+  useAvailableSlots,
+  useScheduleMutations,
+  // Work history and education
+  useExpertHistory,
+  useExpertHistoryMutations,
 } from './queries';
 
 // Re-export types and query keys for external use
@@ -36,6 +56,29 @@ export type {
   CollaborationStatus,
   CreateCollaborationInput,
   RespondCollaborationInput,
+  ExpertReview,
+  ExpertReviewWithReviewer,
+  CreateExpertReviewInput,
+  ReplyExpertReviewInput,
+  MeetingFormat,
+  ExpertAvailability,
+  ExpertBlackoutDate,
+  ExpertSchedule,
+  CreateAvailabilityInput,
+  CreateBlackoutDateInput,
+  CollaborationProposal,
+  TransitionCollaborationInput,
+  UpdateCollaborationProposalInput,
+  CollaborationEvent,
+  CollaborationEventWithActor,
+  EditableExpertProfileFields,
+  UpdateExpertProfileInput,
+  ExpertExperience,
+  ExpertEducation,
+  ExpertHistory,
+  SaveExperienceInput,
+  SaveEducationInput,
+  ReorderHistoryInput,
 } from '../types';
 
 export { expertQueryKeys, collaborationQueryKeys } from '../types';
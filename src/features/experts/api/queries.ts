@@ -11,7 +11,14 @@
  * - Keyword search (business_name, service_description, specialty)
  * - Price range filter (hourly_rate)
  * - Availability filter
+ * - Minimum years of experience, in the selected category if any
  * - Multiple filters combine with AND logic
+ * - Sorting by rating
+ * - Expert reviews and replies
+ * - Coffee chat availability, blackout dates and bookable slots
+ * - Collaboration lifecycle (status transitions, proposals, timeline)
+ * - Editing and resubmitting the current user's expert profile
+ * - Work history and education
  */
 
 import {
@@ -22,21 +29,84 @@ import {
   type InfiniteData,
 } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
+import { buildIlikeFilter } from '@/lib/search';
+import { toSeoulDateKey, type TimeSlot } from '@/lib/scheduling';
+import { ENGAGED_COLLABORATION_STATUSES } from '@/lib/collaboration-lifecycle';
+import { sortHistoryEntries } from '@/lib/expert-experience';
 import type {
+  ExpertProfile,
   ExpertWithProfile,
-  ExpertFilters,
   ExpertSearchParams,
   ExpertListResponse,
   ExpertProfileUser,
   CreateCollaborationInput,
   RespondCollaborationInput,
   CollaborationRequest,
+  ExpertReviewWithReviewer,
+  CreateExpertReviewInput,
+  ReplyExpertReviewInput,
+  ExpertSchedule,
+  ExpertAvailability,
+  ExpertBlackoutDate,
+  CreateAvailabilityInput,
+  CreateBlackoutDateInput,
+  TransitionCollaborationInput,
+  UpdateCollaborationProposalInput,
+  CollaborationEventWithActor,
+  UpdateExpertProfileInput,
+  ExpertHistory,
+  ExpertExperience,
+  ExpertEducation,
+  SaveExperienceInput,
+  SaveEducationInput,
+  ReorderHistoryInput,
 } from '../types';
 import { expertQueryKeys, collaborationQueryKeys } from '../types';
 
 // Constants
 const DEFAULT_PAGE_SIZE = 20;
 
+// Columns of the expert list
+const EXPERT_LIST_SELECT = `
+  id,
+  user_id,
+  business_name,
+  business_registration_number,
+  category,
+  subcategories,
+  service_description,
+  specialty,
+  price_range_min,
+  price_range_max,
+  service_regions,
+  portfolio_url,
+  portfolio_files,
+  status,
+  verification_documents,
+  verified_at,
+  verified_by,
+  rejection_reason,
+  is_featured,
+  is_available,
+  view_count,
+  contact_count,
+  created_at,
+  updated_at,
+  submitted_at,
+  collaboration_needs,
+  bio,
+  experience_years,
+  hourly_rate,
+  rating_average,
+  review_count,
+  profile:profiles!user_id(
+    id,
+    full_name,
+    avatar_url,
+    company_name
+  )
+`;
+
 // ============================================================================
 // EXPERT QUERIES
 // ============================================================================
@@ -56,6 +126,7 @@ async function fetchExperts(
     minPrice,
     maxPrice,
     regions,
+    minYears,
     isAvailable = true,
     limit = DEFAULT_PAGE_SIZE,
     offset = 0,
@@ -63,50 +134,20 @@ async function fetchExperts(
     sortOrder = 'desc',
   } = params;
 
-  // Build the base query - only fetch approved experts
-  let query = supabase
-    .from('expert_profiles')
-    .select(
-      `
-      id,
-      user_id,
-      business_name,
-      business_registration_number,
-      category,
-      subcategories,
-      service_description,
-      specialty,
-      price_range_min,
-      price_range_max,
-      service_regions,
-      portfolio_url,
-      portfolio_files,
-      status,
-      verification_documents,
-      verified_at,
-      verified_by,
-      rejection_reason,
-      is_featured,
-      is_available,
-      view_count,
-      contact_count,
-      created_at,
-      updated_at,
-      submitted_at,
-      collaboration_needs,
-      bio,
-      experience_years,
-      hourly_rate,
-      profile:profiles!user_id(
-        id,
-        full_name,
-        avatar_url,
-        company_name
-      )
-    `,
-      { count: 'exact' }
-    )
-    .eq('status', 'approved');
+  // Build the base query - only fetch approved experts. The experience
+  // filter (years of work history, counted in the database) selects from
+  // get_experts_by_experience() so paging and counts cover its result
+  const baseQuery = minYears
+    ? supabase
+        .rpc(
+          'get_experts_by_experience',
+          { p_min_years: minYears, p_category: category ?? null },
+          { count: 'exact' }
+        )
+        .select(EXPERT_LIST_SELECT)
+    : supabase.from('expert_profiles').select(EXPERT_LIST_SELECT, { count: 'exact' });
+
+  let query = baseQuery.eq('status', 'approved');
 
   // Apply availability filter
   if (isAvailable !== undefined) {
@@ -120,11 +161,9 @@ async function fetchExperts(
 
   // Apply keyword search (searches business_name, service_description)
   // Using ilike for case-insensitive partial matching
-  if (keyword && keyword.trim()) {
-    const searchTerm = `%${keyword.trim()}%`;
-    query = query.or(
-      `business_name.ilike.${searchTerm},service_description.ilike.${searchTerm}`
-    );
+  const keywordFilter = buildIlikeFilter(['business_name', 'service_description'], keyword);
+  if (keywordFilter) {
+    query = query.or(keywordFilter);
   }
 
   // Apply price range filter (using hourly_rate)
@@ -141,9 +180,15 @@ async function fetchExperts(
   }
 
   // Apply sorting - featured experts first, then by specified sort
-  query = query
-    .order('is_featured', { ascending: false })
-    .order(sortBy, { ascending: sortOrder === 'asc' });
+  query = query.order('is_featured', { ascending: false });
+  if (sortBy === 'rating') {
+    // Unrated experts last; more reviews win a tie
+    query = query
+      .order('rating_average', { ascending: sortOrder === 'asc', nullsFirst: false })
+      .order('review_count', { ascending: false });
+  } else {
+    query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+  }
 
   // Apply pagination
   query = query.range(offset, offset + limit - 1);
@@ -189,6 +234,8 @@ async function fetchExperts(
     bio: expert.bio,
     experience_years: expert.experience_years,
     hourly_rate: expert.hourly_rate,
+    rating_average: expert.rating_average,
+    review_count: expert.review_count,
     profile: expert.profile as ExpertProfileUser,
   }));
 
@@ -208,9 +255,9 @@ async function fetchExperts(
  * - Price range filter works
  * - Multiple filters combine correctly (AND logic)
  *
- * @param filters - Optional filters to apply
+ * @param filters - Optional filters and sort order to apply
  */
-export function useExperts(filters: ExpertFilters = {}) {
+export function useExperts(filters: ExpertSearchParams = {}) {
   return useQuery({
     queryKey: expertQueryKeys.list(filters),
     queryFn: () => fetchExperts(filters),
@@ -220,9 +267,9 @@ export function useExperts(filters: ExpertFilters = {}) {
 /**
  * useExpertsInfinite - Infinite query hook for expert search with pagination
  *
- * @param filters - Optional filters to apply
+ * @param filters - Optional filters and sort order to apply
  */
-export function useExpertsInfinite(filters: ExpertFilters = {}) {
+export function useExpertsInfinite(filters: ExpertSearchParams = {}) {
   return useInfiniteQuery<
     ExpertListResponse,
     Error,
@@ -281,6 +328,8 @@ async function fetchExpert(id: string): Promise<ExpertWithProfile> {
       bio,
       experience_years,
       hourly_rate,
+      rating_average,
+      review_count,
       profile:profiles!user_id(
         id,
         full_name,
@@ -326,6 +375,8 @@ async function fetchExpert(id: string): Promise<ExpertWithProfile> {
     bio: expert.bio,
     experience_years: expert.experience_years,
     hourly_rate: expert.hourly_rate,
+    rating_average: expert.rating_average,
+    review_count: expert.review_count,
     profile: expert.profile as ExpertProfileUser,
   };
 }
@@ -343,6 +394,85 @@ export function useExpert(id: string) {
   });
 }
 
+// ============================================================================
+// OWN EXPERT PROFILE
+// ============================================================================
+
+/**
+ * Fetches the current user's expert profile, whatever its status
+ *
+ * @returns The profile, or null if the user has not registered as an expert
+ */
+async function fetchMyExpertProfile(): Promise<ExpertProfile | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('You must be logged in to edit your expert profile');
+  }
+
+  const { data, error } = await supabase
+    .from('expert_profiles')
+    .select('*')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch expert profile: ${error.message}`);
+  }
+
+  return data as ExpertProfile | null;
+}
+
+/**
+ * useMyExpertProfile - Query hook for the current user's expert profile
+ *
+ * @param enabled - Whether to run the query
+ */
+export function useMyExpertProfile(enabled = true) {
+  return useQuery({
+    queryKey: expertQueryKeys.mine(),
+    queryFn: fetchMyExpertProfile,
+    enabled,
+  });
+}
+
+/**
+ * useUpdateExpertProfile - Mutation hook for editing the current user's expert profile
+ *
+ * The database sends an approved profile back to pending_review when a
+ * material field changes; availability and service regions update in place.
+ */
+export function useUpdateExpertProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, resubmit, ...fields }: UpdateExpertProfileInput) => {
+      const { data, error } = await supabase
+        .from('expert_profiles')
+        .update({
+          ...fields,
+          ...(resubmit ? { status: 'pending_review' as const } : {}),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update expert profile: ${error.message}`);
+      }
+
+      return data as ExpertProfile;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(expertQueryKeys.mine(), data);
+      queryClient.invalidateQueries({ queryKey: expertQueryKeys.detail(data.id) });
+      queryClient.invalidateQueries({ queryKey: expertQueryKeys.lists() });
+    },
+  });
+}
+
 // ============================================================================
 // COLLABORATION MUTATIONS
 // ============================================================================
@@ -375,6 +505,14 @@ export function useCreateCollaborationRequest() {
           subject: input.subject,
           message: input.message,
           contact_info: input.contact_info || null,
+          meeting_format: input.meeting_format ?? null,
+          scheduled_start: input.scheduled_start ?? null,
+          scheduled_end: input.scheduled_end ?? null,
+          scope: input.proposal?.scope?.trim() || null,
+          budget_min: input.proposal?.budget_min ?? null,
+          budget_max: input.proposal?.budget_max ?? null,
+          timeline_start: input.proposal?.timeline_start || null,
+          timeline_end: input.proposal?.timeline_end || null,
           status: 'pending',
         })
         .select()
@@ -396,7 +534,9 @@ export function useCreateCollaborationRequest() {
 /**
  * useRespondToCollaboration - Mutation hook for responding to collaboration requests
  *
- * Allows the recipient to accept or decline a request.
+ * Allows the recipient to accept or decline a request. Accepting a coffee
+ * chat books its slot; the database rejects the accept if an overlapping
+ * slot of the expert is already booked.
  */
 export function useRespondToCollaboration() {
   const queryClient = useQueryClient();
@@ -425,16 +565,28 @@ export function useRespondToCollaboration() {
         .single();
 
       if (error) {
+        // exclusion_violation: another accepted coffee chat holds the slot
+        if (error.code === '23P01') {
+          throw new Error('Failed to respond to request: The requested slot is already booked');
+        }
         throw new Error(`Failed to respond to request: ${error.message}`);
       }
 
       return data as CollaborationRequest;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       // Invalidate collaboration queries
       queryClient.invalidateQueries({
         queryKey: collaborationQueryKeys.received(),
       });
+      queryClient.invalidateQueries({
+        queryKey: collaborationQueryKeys.detail(data.id),
+      });
+      if (data.scheduled_start && data.expert_profile_id) {
+        queryClient.invalidateQueries({
+          queryKey: expertQueryKeys.slotLists(data.expert_profile_id),
+        });
+      }
     },
   });
 }
@@ -498,6 +650,127 @@ export function useExpertMutations() {
   };
 }
 
+// ============================================================================
+// COLLABORATION LIFECYCLE
+// ============================================================================
+
+/**
+ * useTransitionCollaboration - Mutation hook for moving a request along its lifecycle
+ *
+ * The database enforces which side may make which transition; the update
+ * only applies if the request still has the status the member saw.
+ */
+export function useTransitionCollaboration() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: TransitionCollaborationInput) => {
+      const { data, error } = await supabase
+        .from('collaboration_requests')
+        .update({ status: input.to })
+        .eq('id', input.request_id)
+        .eq('status', input.from)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update request status: ${error.message}`);
+      }
+
+      return data as CollaborationRequest;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: collaborationQueryKeys.all });
+      if (data.scheduled_start && data.expert_profile_id) {
+        queryClient.invalidateQueries({
+          queryKey: expertQueryKeys.slotLists(data.expert_profile_id),
+        });
+      }
+    },
+  });
+}
+
+/**
+ * useUpdateCollaborationProposal - Mutation hook for proposing scope, budget and timeline
+ *
+ * Either side can make a new proposal until work starts.
+ */
+export function useUpdateCollaborationProposal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateCollaborationProposalInput) => {
+      const { data, error } = await supabase
+        .from('collaboration_requests')
+        .update({
+          scope: input.scope?.trim() || null,
+          budget_min: input.budget_min,
+          budget_max: input.budget_max,
+          timeline_start: input.timeline_start || null,
+          timeline_end: input.timeline_end || null,
+        })
+        .eq('id', input.request_id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update proposal: ${error.message}`);
+      }
+
+      return data as CollaborationRequest;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: collaborationQueryKeys.all });
+    },
+  });
+}
+
+/**
+ * Fetches the timeline of a request, oldest first
+ *
+ * @param requestId - The collaboration request ID
+ */
+async function fetchCollaborationEvents(
+  requestId: number
+): Promise<CollaborationEventWithActor[]> {
+  const { data, error } = await supabase
+    .from('collaboration_request_events')
+    .select(
+      `
+      *,
+      actor:profiles!collaboration_request_events_actor_id_fkey(
+        id,
+        full_name,
+        avatar_url,
+        company_name
+      )
+    `
+    )
+    .eq('collaboration_request_id', requestId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch request timeline: ${error.message}`);
+  }
+
+  return (data || []) as unknown as CollaborationEventWithActor[];
+}
+
+/**
+ * useCollaborationEvents - Query hook for the timeline of a request
+ *
+ * @param requestId - The collaboration request ID
+ * @param enabled - Whether to run the query
+ */
+export function useCollaborationEvents(requestId: number, enabled = true) {
+  return useQuery({
+    queryKey: collaborationQueryKeys.events(requestId),
+    queryFn: () => fetchCollaborationEvents(requestId),
+    enabled,
+  });
+}
+
 // ============================================================================
 // COLLABORATION QUERIES
 // ============================================================================
@@ -571,3 +844,579 @@ export function useReceivedCollaborations() {
     queryFn: fetchReceivedCollaborations,
   });
 }
+
+// ============================================================================
+// EXPERT REVIEWS
+// ============================================================================
+
+/**
+ * Fetches the reviews of an expert, newest first
+ *
+ * @param expertProfileId - The expert profile ID
+ */
+async function fetchExpertReviews(
+  expertProfileId: string
+): Promise<ExpertReviewWithReviewer[]> {
+  const { data, error } = await supabase
+    .from('expert_reviews')
+    .select(
+      `
+      *,
+      reviewer:profiles!expert_reviews_reviewer_id_fkey(
+        id,
+        full_name,
+        avatar_url,
+        company_name
+      )
+    `
+    )
+    .eq('expert_profile_id', expertProfileId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch reviews: ${error.message}`);
+  }
+
+  return (data || []) as ExpertReviewWithReviewer[];
+}
+
+/**
+ * useExpertReviews - Query hook for the reviews of an expert
+ *
+ * @param expertProfileId - The expert profile ID
+ */
+export function useExpertReviews(expertProfileId: string) {
+  return useQuery({
+    queryKey: expertQueryKeys.reviews(expertProfileId),
+    queryFn: () => fetchExpertReviews(expertProfileId),
+    enabled: !!expertProfileId,
+  });
+}
+
+/**
+ * Fetches the current user's requests the expert took on (accepted or later)
+ * that have not been reviewed yet
+ *
+ * @param expertProfileId - The expert profile ID
+ */
+async function fetchReviewableCollaborations(
+  expertProfileId: string
+): Promise<CollaborationRequest[]> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const [requestsResult, reviewsResult] = await Promise.all([
+    supabase
+      .from('collaboration_requests')
+      .select('*')
+      .eq('sender_id', user.id)
+      .eq('expert_profile_id', expertProfileId)
+      .in('status', [...ENGAGED_COLLABORATION_STATUSES])
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('expert_reviews')
+      .select('collaboration_request_id')
+      .eq('reviewer_id', user.id)
+      .eq('expert_profile_id', expertProfileId),
+  ]);
+
+  if (requestsResult.error) {
+    throw new Error(`Failed to fetch accepted requests: ${requestsResult.error.message}`);
+  }
+  if (reviewsResult.error) {
+    throw new Error(`Failed to fetch reviews: ${reviewsResult.error.message}`);
+  }
+
+  const reviewed = new Set(
+    (reviewsResult.data || []).map((review) => review.collaboration_request_id)
+  );
+
+  return ((requestsResult.data || []) as CollaborationRequest[]).filter(
+    (request) => !reviewed.has(request.id)
+  );
+}
+
+/**
+ * useReviewableCollaborations - Query hook for the accepted requests the
+ * current user can still review
+ *
+ * @param expertProfileId - The expert profile ID
+ * @param enabled - Whether to run the query (e.g. only for logged-in visitors)
+ */
+export function useReviewableCollaborations(expertProfileId: string, enabled = true) {
+  return useQuery({
+    queryKey: expertQueryKeys.reviewable(expertProfileId),
+    queryFn: () => fetchReviewableCollaborations(expertProfileId),
+    enabled: enabled && !!expertProfileId,
+  });
+}
+
+/**
+ * useCreateExpertReview - Mutation hook for reviewing an expert
+ *
+ * Only the sender of an accepted request can review, once per request.
+ */
+export function useCreateExpertReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateExpertReviewInput) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to write a review');
+      }
+
+      const { data, error } = await supabase
+        .from('expert_reviews')
+        .insert({
+          collaboration_request_id: input.collaboration_request_id,
+          expert_profile_id: input.expert_profile_id,
+          reviewer_id: user.id,
+          rating: input.rating,
+          content: input.content.trim(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create review: ${error.message}`);
+      }
+
+      return data;
+    },
+    onSuccess: (_data, input) => {
+      // Also refreshes the reviews and the rating shown on the profile
+      queryClient.invalidateQueries({
+        queryKey: expertQueryKeys.detail(input.expert_profile_id),
+      });
+      queryClient.invalidateQueries({ queryKey: expertQueryKeys.lists() });
+    },
+  });
+}
+
+/**
+ * useReplyToExpertReview - Mutation hook for the expert's public reply
+ *
+ * Posting, editing and removing (reply: null) the reply all go through here.
+ */
+export function useReplyToExpertReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReplyExpertReviewInput) => {
+      const { data, error } = await supabase
+        .from('expert_reviews')
+        .update({ expert_reply: input.reply?.trim() || null })
+        .eq('id', input.review_id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to reply to review: ${error.message}`);
+      }
+
+      return data;
+    },
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({
+        queryKey: expertQueryKeys.reviews(input.expert_profile_id),
+      });
+    },
+  });
+}
+
+/**
+ * useDeleteExpertReview - Mutation hook for deleting the current user's review
+ */
+export function useDeleteExpertReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { review_id: number; expert_profile_id: string }) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to delete a review');
+      }
+
+      const { error } = await supabase
+        .from('expert_reviews')
+        .delete()
+        .eq('id', input.review_id)
+        .eq('reviewer_id', user.id);
+
+      if (error) {
+        throw new Error(`Failed to delete review: ${error.message}`);
+      }
+    },
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({
+        queryKey: expertQueryKeys.detail(input.expert_profile_id),
+      });
+      queryClient.invalidateQueries({ queryKey: expertQueryKeys.lists() });
+    },
+  });
+}
+
+// ============================================================================
+// COFFEE CHAT SCHEDULING
+// ============================================================================
+
+/**
+ * Fetches an expert's weekly availability and upcoming blackout dates
+ *
+ * @param expertProfileId - The expert profile ID
+ */
+async function fetchExpertSchedule(expertProfileId: string): Promise<ExpertSchedule> {
+  const [availabilityResult, blackoutResult] = await Promise.all([
+    supabase
+      .from('expert_availability')
+      .select('*')
+      .eq('expert_profile_id', expertProfileId)
+      .order('weekday', { ascending: true })
+      .order('start_time', { ascending: true }),
+    supabase
+      .from('expert_blackout_dates')
+      .select('*')
+      .eq('expert_profile_id', expertProfileId)
+      .gte('date', toSeoulDateKey(new Date()))
+      .order('date', { ascending: true }),
+  ]);
+
+  if (availabilityResult.error) {
+    throw new Error(`Failed to fetch availability: ${availabilityResult.error.message}`);
+  }
+
+  if (blackoutResult.error) {
+    throw new Error(`Failed to fetch blackout dates: ${blackoutResult.error.message}`);
+  }
+
+  return {
+    availability: (availabilityResult.data || []) as ExpertAvailability[],
+    blackout_dates: (blackoutResult.data || []) as ExpertBlackoutDate[],
+  };
+}
+
+/**
+ * useExpertSchedule - Query hook for an expert's availability and blackout dates
+ *
+ * @param expertProfileId - The expert profile ID
+ * @param enabled - Whether to run the query
+ */
+export function useExpertSchedule(expertProfileId: string, enabled = true) {
+  return useQuery({
+    queryKey: expertQueryKeys.schedule(expertProfileId),
+    queryFn: () => fetchExpertSchedule(expertProfileId),
+    enabled: !!expertProfileId && enabled,
+  });
+}
+
+/**
+ * Fetches the free coffee chat slots of an expert
+ *
+ * @param expertProfileId - The expert profile ID
+ * @param from - First Seoul date ("2026-03-02")
+ * @param to - Last Seoul date, inclusive
+ */
+async function fetchAvailableSlots(
+  expertProfileId: string,
+  from: string,
+  to: string
+): Promise<TimeSlot[]> {
+  const { data, error } = await supabase.rpc('get_available_slots', {
+    p_expert_profile_id: expertProfileId,
+    p_from: from,
+    p_to: to,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch available slots: ${error.message}`);
+  }
+
+  return (data || []).map((slot) => ({ start: slot.slot_start, end: slot.slot_end }));
+}
+
+/**
+ * useAvailableSlots - Query hook for the free coffee chat slots of an expert
+ *
+ * @param expertProfileId - The expert profile ID
+ * @param from - First Seoul date ("2026-03-02")
+ * @param to - Last Seoul date, inclusive
+ * @param enabled - Whether to run the query
+ */
+export function useAvailableSlots(
+  expertProfileId: string,
+  from: string,
+  to: string,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: expertQueryKeys.slots(expertProfileId, from, to),
+    queryFn: () => fetchAvailableSlots(expertProfileId, from, to),
+    enabled: !!expertProfileId && enabled,
+  });
+}
+
+/**
+ * useScheduleMutations - Mutation hooks for the expert's own availability
+ *
+ * Adding and removing weekly windows and blackout dates; RLS limits these to
+ * the owner of the expert profile.
+ */
+export function useScheduleMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = (expertProfileId: string) => {
+    queryClient.invalidateQueries({ queryKey: expertQueryKeys.schedule(expertProfileId) });
+    queryClient.invalidateQueries({ queryKey: expertQueryKeys.slotLists(expertProfileId) });
+  };
+
+  const addAvailability = useMutation({
+    mutationFn: async (input: CreateAvailabilityInput) => {
+      const { data, error } = await supabase
+        .from('expert_availability')
+        .insert({
+          expert_profile_id: input.expert_profile_id,
+          weekday: input.weekday,
+          start_time: input.start_time,
+          end_time: input.end_time,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to add availability: ${error.message}`);
+      }
+
+      return data as ExpertAvailability;
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  const removeAvailability = useMutation({
+    mutationFn: async (input: { id: number; expert_profile_id: string }) => {
+      const { error } = await supabase.from('expert_availability').delete().eq('id', input.id);
+
+      if (error) {
+        throw new Error(`Failed to remove availability: ${error.message}`);
+      }
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  const addBlackoutDate = useMutation({
+    mutationFn: async (input: CreateBlackoutDateInput) => {
+      const { data, error } = await supabase
+        .from('expert_blackout_dates')
+        .insert({
+          expert_profile_id: input.expert_profile_id,
+          date: input.date,
+          reason: input.reason?.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to add blackout date: ${error.message}`);
+      }
+
+      return data as ExpertBlackoutDate;
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  const removeBlackoutDate = useMutation({
+    mutationFn: async (input: { id: number; expert_profile_id: string }) => {
+      const { error } = await supabase.from('expert_blackout_dates').delete().eq('id', input.id);
+
+      if (error) {
+        throw new Error(`Failed to remove blackout date: ${error.message}`);
+      }
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  return {
+    addAvailability,
+    removeAvailability,
+    addBlackoutDate,
+    removeBlackoutDate,
+  };
+}
+
+// ============================================================================
+// WORK HISTORY AND EDUCATION
+// ============================================================================
+
+/**
+ * Fetches an expert's work history and education, in display order
+ *
+ * @param expertProfileId - The expert profile ID
+ */
+async function fetchExpertHistory(expertProfileId: string): Promise<ExpertHistory> {
+  const [experienceResult, educationResult] = await Promise.all([
+    supabase.from('expert_experiences').select('*').eq('expert_profile_id', expertProfileId),
+    supabase.from('expert_education').select('*').eq('expert_profile_id', expertProfileId),
+  ]);
+
+  if (experienceResult.error) {
+    throw new Error(`Failed to fetch work history: ${experienceResult.error.message}`);
+  }
+
+  if (educationResult.error) {
+    throw new Error(`Failed to fetch education: ${educationResult.error.message}`);
+  }
+
+  return {
+    experiences: sortHistoryEntries((experienceResult.data || []) as ExpertExperience[]),
+    education: sortHistoryEntries((educationResult.data || []) as ExpertEducation[]),
+  };
+}
+
+/**
+ * useExpertHistory - Query hook for an expert's work history and education
+ *
+ * @param expertProfileId - The expert profile ID
+ * @param enabled - Whether to run the query
+ */
+export function useExpertHistory(expertProfileId: string, enabled = true) {
+  return useQuery({
+    queryKey: expertQueryKeys.history(expertProfileId),
+    queryFn: () => fetchExpertHistory(expertProfileId),
+    enabled: !!expertProfileId && enabled,
+  });
+}
+
+/**
+ * useExpertHistoryMutations - Mutation hooks for the expert's own work history and education
+ *
+ * Adding, editing, removing and reordering entries; RLS limits these to the
+ * owner of the expert profile. Dates are validated by the caller and by the
+ * table constraints. Changes other than the order send an approved profile
+ * back to review.
+ */
+export function useExpertHistoryMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = (expertProfileId: string) => {
+    queryClient.invalidateQueries({ queryKey: expertQueryKeys.history(expertProfileId) });
+    // Years of experience feed the expert list filter
+    queryClient.invalidateQueries({ queryKey: expertQueryKeys.lists() });
+    // The profile may be back in review
+    queryClient.invalidateQueries({ queryKey: expertQueryKeys.mine() });
+  };
+
+  const saveExperience = useMutation({
+    mutationFn: async ({ id, expert_profile_id, ...input }: SaveExperienceInput) => {
+      const fields = {
+        company: input.company.trim(),
+        position: input.position.trim(),
+        location: input.location?.trim() || null,
+        description: input.description?.trim() || null,
+        category: input.category ?? null,
+        start_date: input.start_date,
+        end_date: input.is_current ? null : input.end_date,
+        is_current: input.is_current,
+        ...(input.sort_order !== undefined && { sort_order: input.sort_order }),
+      };
+
+      const { data, error } = id
+        ? await supabase.from('expert_experiences').update(fields).eq('id', id).select().single()
+        : await supabase
+            .from('expert_experiences')
+            .insert({ expert_profile_id, ...fields })
+            .select()
+            .single();
+
+      if (error) {
+        throw new Error(`Failed to save work history: ${error.message}`);
+      }
+
+      return data as ExpertExperience;
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  const removeExperience = useMutation({
+    mutationFn: async (input: { id: number; expert_profile_id: string }) => {
+      const { error } = await supabase.from('expert_experiences').delete().eq('id', input.id);
+
+      if (error) {
+        throw new Error(`Failed to remove work history: ${error.message}`);
+      }
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  const saveEducation = useMutation({
+    mutationFn: async ({ id, expert_profile_id, ...input }: SaveEducationInput) => {
+      const fields = {
+        institution: input.institution.trim(),
+        degree: input.degree.trim(),
+        field: input.field?.trim() || null,
+        description: input.description?.trim() || null,
+        start_date: input.start_date,
+        end_date: input.end_date,
+        ...(input.sort_order !== undefined && { sort_order: input.sort_order }),
+      };
+
+      const { data, error } = id
+        ? await supabase.from('expert_education').update(fields).eq('id', id).select().single()
+        : await supabase
+            .from('expert_education')
+            .insert({ expert_profile_id, ...fields })
+            .select()
+            .single();
+
+      if (error) {
+        throw new Error(`Failed to save education: ${error.message}`);
+      }
+
+      return data as ExpertEducation;
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  const removeEducation = useMutation({
+    mutationFn: async (input: { id: number; expert_profile_id: string }) => {
+      const { error } = await supabase.from('expert_education').delete().eq('id', input.id);
+
+      if (error) {
+        throw new Error(`Failed to remove education: ${error.message}`);
+      }
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  const reorder = useMutation({
+    mutationFn: async ({ table, order }: ReorderHistoryInput) => {
+      const results = await Promise.all(
+        order.map(({ id, sort_order }) =>
+          supabase.from(table).update({ sort_order }).eq('id', id)
+        )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed?.error) {
+        throw new Error(`Failed to reorder entries: ${failed.error.message}`);
+      }
+    },
+    onSuccess: (_data, input) => invalidate(input.expert_profile_id),
+  });
+
+  return {
+    saveExperience,
+    removeExperience,
+    saveEducation,
+    removeEducation,
+    reorder,
+  };
+}
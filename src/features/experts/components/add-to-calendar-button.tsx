@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * Add To Calendar Button Component
+ *
+ * Downloads a booked coffee chat as an .ics file. The event is written in
+ * Asia/Seoul time with its VTIMEZONE, so calendar apps show it at the right
+ * local time wherever the member is.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { CalendarPlus } from 'lucide-react';
+
+import { buildIcsCalendar } from '@/lib/scheduling';
+import { Button, type ButtonProps } from '@/components/ui/button';
+
+import type { CollaborationRequest } from '../types';
+
+export interface AddToCalendarButtonProps {
+  /** The accepted coffee chat */
+  request: Pick<
+    CollaborationRequest,
+    'id' | 'subject' | 'meeting_format' | 'scheduled_start' | 'scheduled_end'
+  >;
+  /** Name of the other participant, used in the event title */
+  otherName: string;
+  variant?: ButtonProps['variant'];
+  size?: ButtonProps['size'];
+  className?: string;
+}
+
+const MEETING_FORMAT_KEYS = {
+  video_call: 'videoCall',
+  phone: 'phone',
+  in_person: 'inPerson',
+} as const;
+
+export function AddToCalendarButton({
+  request,
+  otherName,
+  variant = 'outline',
+  size = 'sm',
+  className,
+}: AddToCalendarButtonProps) {
+  const t = useTranslations('experts.coffeeChat');
+
+  if (!request.scheduled_start || !request.scheduled_end) return null;
+
+  const handleDownload = () => {
+    const format = request.meeting_format
+      ? t(`formatOptions.${MEETING_FORMAT_KEYS[request.meeting_format]}`)
+      : null;
+
+    const ics = buildIcsCalendar({
+      uid: `coffee-chat-${request.id}@the-potential`,
+      start: request.scheduled_start!,
+      end: request.scheduled_end!,
+      summary: t('calendarEventTitle', { name: otherName }),
+      description: [request.subject, format].filter(Boolean).join('\n'),
+      url: `${window.location.origin}/messages`,
+    });
+
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `coffee-chat-${request.id}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={variant}
+      size={size}
+      className={className}
+      leftIcon={<CalendarPlus className="h-3.5 w-3.5" />}
+      onClick={handleDownload}
+    >
+      {t('addToCalendar')}
+    </Button>
+  );
+}
+
+export default AddToCalendarButton;
@@ -0,0 +1,298 @@
+'use client';
+
+/**
+ * Availability Section Component
+ *
+ * Lets an expert manage when members can book coffee chats, on their own
+ * profile page:
+ * - Weekly availability windows (weekday, start and end time)
+ * - Blackout dates with an optional reason
+ *
+ * Times are Asia/Seoul wall-clock times; members book 30-minute slots
+ * inside the windows.
+ */
+
+import * as React from 'react';
+import { useTranslations, useFormatter } from 'next-intl';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { CalendarClock, CalendarOff, Plus, Trash2 } from 'lucide-react';
+
+import { cn } from '@/lib/cn';
+import {
+  isValidAvailabilityWindow,
+  pickerDateFromDateKey,
+  toSeoulDateKey,
+} from '@/lib/scheduling';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+import { useExpertSchedule, useScheduleMutations } from '../api/queries';
+import type { ExpertWithProfile } from '../types';
+
+export interface AvailabilitySectionProps {
+  /** The expert's own profile */
+  expert: ExpertWithProfile;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * A Sunday, to name weekdays through the formatter (0 = Sunday)
+ */
+const SUNDAY_UTC = Date.UTC(2026, 0, 4);
+
+/**
+ * "09:00:00" -> "09:00"
+ */
+function formatTime(value: string): string {
+  return value.slice(0, 5);
+}
+
+export function AvailabilitySection({ expert, className }: AvailabilitySectionProps) {
+  const t = useTranslations('experts.availability');
+  const format = useFormatter();
+
+  const { data: schedule, isLoading } = useExpertSchedule(expert.id);
+  const { addAvailability, removeAvailability, addBlackoutDate, removeBlackoutDate } =
+    useScheduleMutations();
+
+  const [weekday, setWeekday] = React.useState('1');
+  const [startTime, setStartTime] = React.useState('09:00');
+  const [endTime, setEndTime] = React.useState('12:00');
+  const [blackoutDate, setBlackoutDate] = React.useState('');
+  const [blackoutReason, setBlackoutReason] = React.useState('');
+  const [today] = React.useState(() => toSeoulDateKey(new Date()));
+
+  const weekdayName = (day: number) =>
+    format.dateTime(new Date(SUNDAY_UTC + day * 24 * 60 * 60 * 1000), {
+      weekday: 'long',
+      timeZone: 'UTC',
+    });
+
+  const handleAddWindow = () => {
+    if (!isValidAvailabilityWindow(startTime, endTime)) {
+      toast.error(t('invalidWindow'));
+      return;
+    }
+
+    addAvailability.mutate(
+      {
+        expert_profile_id: expert.id,
+        weekday: Number(weekday),
+        start_time: startTime,
+        end_time: endTime,
+      },
+      {
+        onSuccess: () => toast.success(t('windowAdded')),
+        onError: () => toast.error(t('saveFailed')),
+      }
+    );
+  };
+
+  const handleAddBlackout = () => {
+    if (!blackoutDate || blackoutDate < today) {
+      toast.error(t('invalidDate'));
+      return;
+    }
+
+    addBlackoutDate.mutate(
+      { expert_profile_id: expert.id, date: blackoutDate, reason: blackoutReason },
+      {
+        onSuccess: () => {
+          setBlackoutDate('');
+          setBlackoutReason('');
+          toast.success(t('blackoutAdded'));
+        },
+        onError: () => toast.error(t('saveFailed')),
+      }
+    );
+  };
+
+  const availability = schedule?.availability ?? [];
+  const blackoutDates = schedule?.blackout_dates ?? [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, delay: 0.3 }}
+    >
+      <Card variant="default" padding="md" className={cn('', className)}>
+        <CardHeader className="pb-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            {t('title')}
+          </CardTitle>
+          <p className="text-sm text-muted">{t('description')}</p>
+        </CardHeader>
+
+        <CardContent className="space-y-8">
+          {/* Weekly windows */}
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold text-white">{t('weekly')}</h3>
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" rounded="2xl" />
+            ) : availability.length === 0 ? (
+              <p className="text-sm text-muted italic">{t('noWindows')}</p>
+            ) : (
+              <ul className="divide-y divide-white/[0.06] rounded-2xl border border-white/10">
+                {availability.map((window) => (
+                  <li key={window.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                    <span className="text-sm text-white">
+                      <span className="inline-block w-28 font-medium">
+                        {weekdayName(window.weekday)}
+                      </span>
+                      {formatTime(window.start_time)} – {formatTime(window.end_time)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={t('remove')}
+                      className="text-muted hover:text-error"
+                      disabled={removeAvailability.isPending}
+                      onClick={() =>
+                        removeAvailability.mutate(
+                          { id: window.id, expert_profile_id: expert.id },
+                          { onError: () => toast.error(t('saveFailed')) }
+                        )
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-[1fr_auto_auto_auto] sm:items-end">
+              <Select value={weekday} onValueChange={setWeekday}>
+                <SelectTrigger aria-label={t('weekday')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day) => (
+                    <SelectItem key={day} value={String(day)}>
+                      {weekdayName(day)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="time"
+                step={1800}
+                aria-label={t('startTime')}
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+              <Input
+                type="time"
+                step={1800}
+                aria-label={t('endTime')}
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                leftIcon={<Plus className="h-4 w-4" />}
+                loading={addAvailability.isPending}
+                onClick={handleAddWindow}
+              >
+                {t('add')}
+              </Button>
+            </div>
+          </section>
+
+          {/* Blackout dates */}
+          <section className="space-y-3">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-white">
+              <CalendarOff className="h-4 w-4 text-muted" />
+              {t('blackoutDates')}
+            </h3>
+            {isLoading ? (
+              <Skeleton className="h-16 w-full" rounded="2xl" />
+            ) : blackoutDates.length === 0 ? (
+              <p className="text-sm text-muted italic">{t('noBlackoutDates')}</p>
+            ) : (
+              <ul className="divide-y divide-white/[0.06] rounded-2xl border border-white/10">
+                {blackoutDates.map((blackout) => (
+                  <li
+                    key={blackout.id}
+                    className="flex items-center justify-between gap-3 px-4 py-2"
+                  >
+                    <span className="min-w-0 text-sm text-white">
+                      <span className="font-medium">
+                        {format.dateTime(pickerDateFromDateKey(blackout.date), {
+                          dateStyle: 'medium',
+                        })}
+                      </span>
+                      {blackout.reason && (
+                        <span className="ml-2 text-muted">{blackout.reason}</span>
+                      )}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={t('remove')}
+                      className="text-muted hover:text-error"
+                      disabled={removeBlackoutDate.isPending}
+                      onClick={() =>
+                        removeBlackoutDate.mutate(
+                          { id: blackout.id, expert_profile_id: expert.id },
+                          { onError: () => toast.error(t('saveFailed')) }
+                        )
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-[auto_1fr_auto] sm:items-end">
+              <Input
+                type="date"
+                min={today}
+                aria-label={t('date')}
+                value={blackoutDate}
+                onChange={(e) => setBlackoutDate(e.target.value)}
+              />
+              <Input
+                placeholder={t('reasonPlaceholder')}
+                maxLength={200}
+                value={blackoutReason}
+                onChange={(e) => setBlackoutReason(e.target.value)}
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                leftIcon={<Plus className="h-4 w-4" />}
+                loading={addBlackoutDate.isPending}
+                onClick={handleAddBlackout}
+              >
+                {t('add')}
+              </Button>
+            </div>
+          </section>
+
+          <p className="text-xs text-muted">{t('timeZoneNote')}</p>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+export default AvailabilitySection;
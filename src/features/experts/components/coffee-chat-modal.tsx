@@ -1,13 +1,15 @@
 'use client';
 
 import * as React from 'react';
-import { useTranslations } from 'next-intl';
+import { useTranslations, useFormatter } from 'next-intl';
 import { useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import { Skeleton } from '@/components/ui/skeleton';
 import {
   Dialog,
   DialogContent,
@@ -23,8 +25,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { useCreateCollaborationRequest } from '../api/queries';
-import type { ExpertWithProfile } from '../types';
+import {
+  BOOKING_WINDOW_DAYS,
+  SEOUL_TIME_ZONE,
+  addDaysToDateKey,
+  dateKeyFromPickerDate,
+  groupSlotsByDate,
+  pickerDateFromDateKey,
+  toSeoulDateKey,
+} from '@/lib/scheduling';
+import { useAvailableSlots, useCreateCollaborationRequest } from '../api/queries';
+import type { ExpertWithProfile, MeetingFormat } from '../types';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 
@@ -38,7 +49,8 @@ import { Badge } from '@/components/ui/badge';
  * - Topic/purpose of the chat (required)
  * - Brief message (optional, 500 char max)
  * - Preferred meeting format (video call, phone, in-person)
- * - Preferred time slots (morning, afternoon, evening)
+ * - Concrete 30-minute slot from the expert's published availability,
+ *   picked as a date in the calendar and a time on that date (Seoul time)
  * - Shows loading state during submission
  * - Shows success message on complete
  * - Closes modal after success
@@ -58,8 +70,9 @@ export interface CoffeeChatModalProps {
 interface CoffeeChatFormData {
   topic: string;
   message?: string;
-  meetingFormat: 'video_call' | 'phone' | 'in_person';
-  preferredTime: 'morning' | 'afternoon' | 'evening';
+  meetingFormat: MeetingFormat;
+  /** Start of the picked slot (ISO timestamp) */
+  slotStart: string;
 }
 
 export function CoffeeChatModal({
@@ -70,10 +83,23 @@ export function CoffeeChatModal({
   const t = useTranslations('experts.coffeeChat');
   const tCommon = useTranslations('common');
   const tValidation = useTranslations('validation');
+  const format = useFormatter();
 
   const [isSuccess, setIsSuccess] = React.useState(false);
+  // Seoul date picked in the calendar ("2026-03-02")
+  const [selectedDateKey, setSelectedDateKey] = React.useState<string | null>(null);
+  const [today] = React.useState(() => toSeoulDateKey(new Date()));
+  const lastBookableDay = addDaysToDateKey(today, BOOKING_WINDOW_DAYS);
 
   const createCollaboration = useCreateCollaborationRequest();
+  const {
+    data: slots = [],
+    isLoading: isSlotsLoading,
+    isError: isSlotsError,
+    refetch: refetchSlots,
+  } = useAvailableSlots(expert.id, today, lastBookableDay, open);
+
+  const slotsByDate = React.useMemo(() => groupSlotsByDate(slots), [slots]);
 
   // Create validation schema with translated messages
   const coffeeChatSchema = React.useMemo(
@@ -89,9 +115,9 @@ export function CoffeeChatModal({
           .optional()
           .or(z.literal('')),
         meetingFormat: z.enum(['video_call', 'phone', 'in_person'] as const),
-        preferredTime: z.enum(['morning', 'afternoon', 'evening'] as const),
+        slotStart: z.string().min(1, t('slotRequired')),
       }),
-    [tValidation]
+    [t, tValidation]
   );
 
   const {
@@ -107,12 +133,13 @@ export function CoffeeChatModal({
       topic: '',
       message: '',
       meetingFormat: 'video_call',
-      preferredTime: 'afternoon',
+      slotStart: '',
     },
   });
 
   const meetingFormat = watch('meetingFormat');
-  const preferredTime = watch('preferredTime');
+  const slotStart = watch('slotStart');
+  const daySlots = selectedDateKey ? (slotsByDate.get(selectedDateKey) ?? []) : [];
 
   // Reset form when modal opens/closes
   React.useEffect(() => {
@@ -121,6 +148,7 @@ export function CoffeeChatModal({
       const timer = setTimeout(() => {
         reset();
         setIsSuccess(false);
+        setSelectedDateKey(null);
         createCollaboration.reset();
       }, 200);
       return () => clearTimeout(timer);
@@ -128,24 +156,25 @@ export function CoffeeChatModal({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open, reset]);
 
+  const handleSelectDate = (date: Date | undefined) => {
+    setSelectedDateKey(date ? dateKeyFromPickerDate(date) : null);
+    setValue('slotStart', '');
+  };
+
   const onSubmit: SubmitHandler<CoffeeChatFormData> = async (data) => {
-    try {
-      // Build message with all form data
-      const message = [
-        data.message || '',
-        '',
-        `Meeting format: ${data.meetingFormat.replace('_', ' ')}`,
-        `Preferred time: ${data.preferredTime}`,
-      ]
-        .filter(Boolean)
-        .join('\n');
+    const slot = slots.find((s) => s.start === data.slotStart);
+    if (!slot) return;
 
+    try {
       await createCollaboration.mutateAsync({
         expert_profile_id: expert.id,
         recipient_id: expert.user_id,
         type: 'coffee_chat',
         subject: data.topic,
-        message: message,
+        message: data.message || '',
+        meeting_format: data.meetingFormat,
+        scheduled_start: slot.start,
+        scheduled_end: slot.end,
       });
 
       setIsSuccess(true);
@@ -155,10 +184,14 @@ export function CoffeeChatModal({
         onOpenChange(false);
       }, 2000);
     } catch {
-      // Error is handled by the mutation
+      // Error is handled by the mutation; the slot may have been taken meanwhile
+      setValue('slotStart', '');
+      refetchSlots();
     }
   };
 
+  const mutationError = createCollaboration.error?.message;
+
   const expertName = expert.profile?.full_name || expert.business_name;
   const expertInitials = expertName
     ?.split(' ')
@@ -231,13 +264,17 @@ export function CoffeeChatModal({
             {createCollaboration.error && (
               <div className="p-3 rounded-2xl bg-[#FF453A]/10 border border-[#FF453A]/20">
                 <p className="text-sm text-[#FF453A] text-center">
-                  {createCollaboration.error.message?.includes('is_approved_member') ||
-                   createCollaboration.error.message?.includes('row-level security') ||
-                   createCollaboration.error.message?.includes('new row violates')
+                  {mutationError?.includes('is_approved_member') ||
+                   mutationError?.includes('row-level security') ||
+                   mutationError?.includes('new row violates')
                     ? t('notApprovedMember')
-                    : t('failedDetail', {
-                        error: createCollaboration.error.message || t('failed'),
-                      })}
+                    : mutationError?.includes('already booked') ||
+                        mutationError?.includes('not available') ||
+                        mutationError?.includes('in the past')
+                      ? t('slotTaken')
+                      : t('failedDetail', {
+                          error: mutationError || t('failed'),
+                        })}
                 </p>
               </div>
             )}
@@ -267,10 +304,7 @@ export function CoffeeChatModal({
               <Select
                 value={meetingFormat}
                 onValueChange={(value) =>
-                  setValue(
-                    'meetingFormat',
-                    value as 'video_call' | 'phone' | 'in_person'
-                  )
+                  setValue('meetingFormat', value as MeetingFormat)
                 }
               >
                 <SelectTrigger>
@@ -295,38 +329,60 @@ export function CoffeeChatModal({
               )}
             </div>
 
-            {/* Preferred Time */}
+            {/* Slot */}
             <div className="space-y-2">
               <label className="text-sm font-semibold text-white">
-                {t('preferredTime')}
+                {t('slot')}
               </label>
-              <Select
-                value={preferredTime}
-                onValueChange={(value) =>
-                  setValue(
-                    'preferredTime',
-                    value as 'morning' | 'afternoon' | 'evening'
-                  )
-                }
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="morning">
-                    {t('timeOptions.morning')}
-                  </SelectItem>
-                  <SelectItem value="afternoon">
-                    {t('timeOptions.afternoon')}
-                  </SelectItem>
-                  <SelectItem value="evening">
-                    {t('timeOptions.evening')}
-                  </SelectItem>
-                </SelectContent>
-              </Select>
-              {errors.preferredTime && (
+              {isSlotsLoading ? (
+                <Skeleton className="h-72 w-full" rounded="2xl" />
+              ) : isSlotsError ? (
+                <p className="text-sm text-muted">{t('slotsFailed')}</p>
+              ) : slots.length === 0 ? (
+                <p className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-muted">
+                  {t('noAvailability')}
+                </p>
+              ) : (
+                <>
+                  <Calendar
+                    mode="single"
+                    selected={selectedDateKey ? pickerDateFromDateKey(selectedDateKey) : undefined}
+                    onSelect={handleSelectDate}
+                    disabled={(date) => !slotsByDate.has(dateKeyFromPickerDate(date))}
+                    startMonth={pickerDateFromDateKey(today)}
+                    endMonth={pickerDateFromDateKey(lastBookableDay)}
+                    className="mx-auto rounded-2xl border border-white/10 bg-transparent"
+                  />
+                  {selectedDateKey ? (
+                    <div className="grid grid-cols-3 gap-2">
+                      {daySlots.map((slot) => (
+                        <Button
+                          key={slot.start}
+                          type="button"
+                          size="sm"
+                          variant={slot.start === slotStart ? 'primary' : 'outline'}
+                          aria-pressed={slot.start === slotStart}
+                          className="px-2 text-sm"
+                          onClick={() =>
+                            setValue('slotStart', slot.start, { shouldValidate: true })
+                          }
+                        >
+                          {format.dateTime(new Date(slot.start), {
+                            timeStyle: 'short',
+                            timeZone: SEOUL_TIME_ZONE,
+                          })}
+                        </Button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted">{t('selectDate')}</p>
+                  )}
+                  <p className="text-xs text-muted">{t('timeZoneNote')}</p>
+                </>
+              )}
+              {errors.slotStart && (
                 <p className="text-sm font-medium text-[#FF453A]">
-                  {errors.preferredTime.message}
+                  {errors.slotStart.message}
                 </p>
               )}
             </div>
@@ -344,6 +400,7 @@ export function CoffeeChatModal({
                 type="submit"
                 variant="primary-glow"
                 loading={createCollaboration.isPending}
+                disabled={slots.length === 0}
               >
                 {t('submit')}
               </Button>
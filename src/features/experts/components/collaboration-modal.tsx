@@ -27,6 +27,11 @@ import { useCreateCollaborationRequest } from '../api/queries';
 import type { ExpertWithProfile } from '../types';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import {
+  MAX_SCOPE_LENGTH,
+  parseProposalForm,
+  validateProposal,
+} from '@/lib/collaboration-lifecycle';
 
 /**
  * Collaboration Modal Component
@@ -38,8 +43,8 @@ import { Badge } from '@/components/ui/badge';
  * - Form validates required fields
  * - Project title (required)
  * - Project description (required, min 50 chars)
- * - Expected timeline
- * - Budget range (optional)
+ * - Proposed scope, budget range (KRW) and timeline (optional), stored as
+ *   structured fields either side can update until work starts
  * - Contact preference (email/phone/messaging)
  * - Shows loading state during submission
  * - Shows success message on complete
@@ -55,12 +60,23 @@ export interface CollaborationModalProps {
   onOpenChange: (open: boolean) => void;
 }
 
+// Form field that shows each proposal validation error
+const PROPOSAL_ERROR_FIELDS = {
+  scopeTooLong: 'scope',
+  invalidBudget: 'budgetMin',
+  budgetRange: 'budgetMax',
+  timelineRange: 'timelineEnd',
+} as const;
+
 // Form data interface
 interface CollaborationFormData {
   projectTitle: string;
   description: string;
-  timeline: string;
-  budget: string;
+  scope: string;
+  budgetMin: string;
+  budgetMax: string;
+  timelineStart: string;
+  timelineEnd: string;
   contactPreference: 'email' | 'phone' | 'messaging';
 }
 
@@ -72,6 +88,7 @@ export function CollaborationModal({
   const t = useTranslations('experts.collaboration');
   const tCommon = useTranslations('common');
   const tValidation = useTranslations('validation');
+  const tProposal = useTranslations('experts.proposal');
 
   const [isSuccess, setIsSuccess] = React.useState(false);
 
@@ -90,11 +107,24 @@ export function CollaborationModal({
           .min(1, tValidation('required'))
           .min(50, tValidation('minLength', { min: 50 }))
           .max(5000, tValidation('maxLength', { max: 5000 })),
-        timeline: z.string().min(1, tValidation('required')),
-        budget: z.string(),
+        scope: z.string(),
+        budgetMin: z.string(),
+        budgetMax: z.string(),
+        timelineStart: z.string(),
+        timelineEnd: z.string(),
         contactPreference: z.enum(['email', 'phone', 'messaging'] as const),
+      })
+      .superRefine((data, ctx) => {
+        const error = validateProposal(parseProposalForm(data));
+        if (error) {
+          ctx.addIssue({
+            code: 'custom',
+            path: [PROPOSAL_ERROR_FIELDS[error]],
+            message: tProposal(`errors.${error}`, { max: MAX_SCOPE_LENGTH }),
+          });
+        }
       }),
-    [tValidation]
+    [tValidation, tProposal]
   );
 
   const {
@@ -109,8 +139,11 @@ export function CollaborationModal({
     defaultValues: {
       projectTitle: '',
       description: '',
-      timeline: '',
-      budget: '',
+      scope: '',
+      budgetMin: '',
+      budgetMax: '',
+      timelineStart: '',
+      timelineEnd: '',
       contactPreference: 'email',
     },
   });
@@ -133,16 +166,12 @@ export function CollaborationModal({
 
   const onSubmit: SubmitHandler<CollaborationFormData> = async (data) => {
     try {
-      // Build message with all form data
+      // Scope, budget and timeline go into their own fields
       const message = [
         data.description,
         '',
-        `Timeline: ${data.timeline}`,
-        data.budget ? `Budget: ${data.budget}` : '',
         `Preferred contact: ${data.contactPreference}`,
-      ]
-        .filter(Boolean)
-        .join('\n');
+      ].join('\n');
 
       await createCollaboration.mutateAsync({
         expert_profile_id: expert.id,
@@ -151,6 +180,7 @@ export function CollaborationModal({
         subject: data.projectTitle,
         message: message,
         contact_info: data.contactPreference,
+        proposal: parseProposalForm(data),
       });
 
       setIsSuccess(true);
@@ -264,21 +294,48 @@ export function CollaborationModal({
               {...register('description')}
             />
 
-            {/* Timeline */}
-            <Input
-              label={t('timeline')}
-              placeholder={t('timelinePlaceholder')}
-              error={errors.timeline?.message}
-              {...register('timeline')}
+            {/* Scope (Optional) */}
+            <Textarea
+              label={`${tProposal('scope')} (${tCommon('optional')})`}
+              placeholder={tProposal('scopePlaceholder')}
+              error={errors.scope?.message}
+              className="min-h-[100px]"
+              {...register('scope')}
             />
 
             {/* Budget (Optional) */}
-            <Input
-              label={`${t('budget')} (${tCommon('optional')})`}
-              placeholder={t('budgetPlaceholder')}
-              error={errors.budget?.message}
-              {...register('budget')}
-            />
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <Input
+                label={`${tProposal('budgetMin')} (${tCommon('optional')})`}
+                inputMode="numeric"
+                placeholder={tProposal('budgetPlaceholder')}
+                error={errors.budgetMin?.message}
+                {...register('budgetMin')}
+              />
+              <Input
+                label={`${tProposal('budgetMax')} (${tCommon('optional')})`}
+                inputMode="numeric"
+                placeholder={tProposal('budgetPlaceholder')}
+                error={errors.budgetMax?.message}
+                {...register('budgetMax')}
+              />
+            </div>
+
+            {/* Timeline (Optional) */}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <Input
+                type="date"
+                label={`${tProposal('timelineStart')} (${tCommon('optional')})`}
+                error={errors.timelineStart?.message}
+                {...register('timelineStart')}
+              />
+              <Input
+                type="date"
+                label={`${tProposal('timelineEnd')} (${tCommon('optional')})`}
+                error={errors.timelineEnd?.message}
+                {...register('timelineEnd')}
+              />
+            </div>
 
             {/* Contact Preference */}
             <div className="space-y-2">
@@ -0,0 +1,738 @@
+'use client';
+
+/**
+ * Experience Editor Component
+ *
+ * Lets an expert manage the work history and education on their profile,
+ * from the profile edit page:
+ * - Add, edit and remove entries in a dialog
+ * - Move entries up or down to set the display order
+ * - Dates are validated before saving (past positions need an end date,
+ *   education may end in the future)
+ *
+ * Changes are saved immediately. Adding, editing or removing an entry sends
+ * an approved profile back to review; reordering does not.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { useForm, useWatch, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import {
+  ArrowDown,
+  ArrowUp,
+  Briefcase,
+  GraduationCap,
+  Pencil,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+
+import {
+  getNextSortOrder,
+  moveHistoryEntry,
+  validateEducationDates,
+  validateExperienceDates,
+  type HistoryDateError,
+} from '@/lib/expert-experience';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+import { useExpertHistory, useExpertHistoryMutations } from '../api/queries';
+import type {
+  ExpertCategory,
+  ExpertEducation,
+  ExpertExperience,
+} from '../types';
+
+export interface ExperienceEditorProps {
+  /** The expert's own profile ID */
+  expertProfileId: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const CATEGORIES: ExpertCategory[] = [
+  'marketing',
+  'development',
+  'design',
+  'legal',
+  'finance',
+  'hr',
+  'operations',
+  'strategy',
+  'other',
+];
+
+/** Select value for entries that count toward the profile category */
+const PROFILE_CATEGORY = 'profile';
+
+/** Form field each date error is shown on */
+const DATE_ERROR_FIELDS: Record<HistoryDateError, 'startDate' | 'endDate'> = {
+  startInFuture: 'startDate',
+  endRequired: 'endDate',
+  endBeforeStart: 'endDate',
+  endInFuture: 'endDate',
+};
+
+/**
+ * "2020-03-01" -> "2020.03"
+ */
+function formatMonth(date: string): string {
+  return date.slice(0, 7).replace('-', '.');
+}
+
+export function ExperienceEditor({ expertProfileId, className }: ExperienceEditorProps) {
+  const t = useTranslations('experts.history');
+
+  const { data: history, isLoading } = useExpertHistory(expertProfileId);
+  const { removeExperience, removeEducation, reorder } = useExpertHistoryMutations();
+
+  const [editingExperience, setEditingExperience] = React.useState<
+    ExpertExperience | 'new' | null
+  >(null);
+  const [editingEducation, setEditingEducation] = React.useState<
+    ExpertEducation | 'new' | null
+  >(null);
+
+  const experiences = history?.experiences ?? [];
+  const education = history?.education ?? [];
+
+  const handleMove = (
+    table: 'expert_experiences' | 'expert_education',
+    entries: (ExpertExperience | ExpertEducation)[],
+    id: number,
+    direction: 'up' | 'down'
+  ) => {
+    const order = moveHistoryEntry(entries, id, direction);
+    if (!order) return;
+
+    reorder.mutate(
+      { table, expert_profile_id: expertProfileId, order },
+      { onError: () => toast.error(t('saveFailed')) }
+    );
+  };
+
+  const handleRemove = (table: 'expert_experiences' | 'expert_education', id: number) => {
+    const mutation = table === 'expert_experiences' ? removeExperience : removeEducation;
+    mutation.mutate(
+      { id, expert_profile_id: expertProfileId },
+      {
+        onSuccess: () => toast.success(t('removed')),
+        onError: () => toast.error(t('saveFailed')),
+      }
+    );
+  };
+
+  const renderEntry = (
+    table: 'expert_experiences' | 'expert_education',
+    entries: (ExpertExperience | ExpertEducation)[],
+    index: number,
+    title: string,
+    subtitle: string,
+    period: string,
+    onEdit: () => void
+  ) => {
+    const entry = entries[index];
+
+    return (
+      <li
+        key={entry.id}
+        className="flex items-start justify-between gap-3 rounded-xl bg-white/5 px-4 py-3"
+      >
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold text-white">{title}</p>
+          <p className="truncate text-sm text-white/70">{subtitle}</p>
+          <p className="text-xs text-muted">{period}</p>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            aria-label={t('moveUp')}
+            disabled={index === 0 || reorder.isPending}
+            onClick={() => handleMove(table, entries, entry.id, 'up')}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            aria-label={t('moveDown')}
+            disabled={index === entries.length - 1 || reorder.isPending}
+            onClick={() => handleMove(table, entries, entry.id, 'down')}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon-sm" aria-label={t('edit')} onClick={onEdit}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            aria-label={t('remove')}
+            onClick={() => handleRemove(table, entry.id)}
+          >
+            <Trash2 className="h-4 w-4 text-error" />
+          </Button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Card variant="elevated" padding="lg" className={className}>
+      <CardHeader className="p-0 pb-6">
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8 p-0">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" rounded="xl" />
+            <Skeleton className="h-16 w-full" rounded="xl" />
+          </div>
+        ) : (
+          <>
+            {/* Work experience */}
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-sm font-semibold text-white">
+                  <Briefcase className="h-4 w-4 text-primary" />
+                  {t('workExperience')}
+                </h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Plus className="h-4 w-4" />}
+                  onClick={() => setEditingExperience('new')}
+                >
+                  {t('addExperience')}
+                </Button>
+              </div>
+              {experiences.length === 0 ? (
+                <p className="text-sm text-muted">{t('noExperience')}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {experiences.map((entry, index) =>
+                    renderEntry(
+                      'expert_experiences',
+                      experiences,
+                      index,
+                      entry.position,
+                      entry.company,
+                      `${formatMonth(entry.start_date)} - ${
+                        entry.end_date ? formatMonth(entry.end_date) : t('present')
+                      }`,
+                      () => setEditingExperience(entry)
+                    )
+                  )}
+                </ul>
+              )}
+            </section>
+
+            {/* Education */}
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-sm font-semibold text-white">
+                  <GraduationCap className="h-4 w-4 text-primary" />
+                  {t('education')}
+                </h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Plus className="h-4 w-4" />}
+                  onClick={() => setEditingEducation('new')}
+                >
+                  {t('addEducation')}
+                </Button>
+              </div>
+              {education.length === 0 ? (
+                <p className="text-sm text-muted">{t('noEducation')}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {education.map((entry, index) =>
+                    renderEntry(
+                      'expert_education',
+                      education,
+                      index,
+                      entry.degree,
+                      entry.field ? `${entry.institution} · ${entry.field}` : entry.institution,
+                      `${formatMonth(entry.start_date)} - ${
+                        entry.end_date ? formatMonth(entry.end_date) : t('present')
+                      }`,
+                      () => setEditingEducation(entry)
+                    )
+                  )}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </CardContent>
+
+      <ExperienceDialog
+        expertProfileId={expertProfileId}
+        entry={editingExperience === 'new' ? null : editingExperience}
+        nextSortOrder={getNextSortOrder(experiences)}
+        open={editingExperience !== null}
+        onOpenChange={(open) => !open && setEditingExperience(null)}
+      />
+      <EducationDialog
+        expertProfileId={expertProfileId}
+        entry={editingEducation === 'new' ? null : editingEducation}
+        nextSortOrder={getNextSortOrder(education)}
+        open={editingEducation !== null}
+        onOpenChange={(open) => !open && setEditingEducation(null)}
+      />
+    </Card>
+  );
+}
+
+// ============================================================================
+// WORK EXPERIENCE DIALOG
+// ============================================================================
+
+interface ExperienceFormData {
+  company: string;
+  position: string;
+  category: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+  description: string;
+}
+
+function toExperienceFormData(entry: ExpertExperience | null): ExperienceFormData {
+  return {
+    company: entry?.company ?? '',
+    position: entry?.position ?? '',
+    category: entry?.category ?? PROFILE_CATEGORY,
+    location: entry?.location ?? '',
+    startDate: entry?.start_date ?? '',
+    endDate: entry?.end_date ?? '',
+    isCurrent: entry?.is_current ?? false,
+    description: entry?.description ?? '',
+  };
+}
+
+interface HistoryDialogProps<T> {
+  expertProfileId: string;
+  /** The entry to edit, or null to add one */
+  entry: T | null;
+  /** sort_order for a new entry */
+  nextSortOrder: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ExperienceDialog({
+  expertProfileId,
+  entry,
+  nextSortOrder,
+  open,
+  onOpenChange,
+}: HistoryDialogProps<ExpertExperience>) {
+  const t = useTranslations('experts.history');
+  const tCategories = useTranslations('experts.categories');
+  const tValidation = useTranslations('validation');
+  const tCommon = useTranslations('common');
+
+  const { saveExperience } = useExpertHistoryMutations();
+
+  const schema = React.useMemo(
+    () =>
+      z
+        .object({
+          company: z
+            .string()
+            .trim()
+            .min(1, tValidation('required'))
+            .max(100, tValidation('maxLength', { max: 100 })),
+          position: z
+            .string()
+            .trim()
+            .min(1, tValidation('required'))
+            .max(100, tValidation('maxLength', { max: 100 })),
+          category: z.string(),
+          location: z.string().max(100, tValidation('maxLength', { max: 100 })),
+          startDate: z.string().min(1, tValidation('required')),
+          endDate: z.string(),
+          isCurrent: z.boolean(),
+          description: z.string().max(1000, tValidation('maxLength', { max: 1000 })),
+        })
+        .superRefine((data, ctx) => {
+          if (!data.startDate) return;
+          const error = validateExperienceDates({
+            start_date: data.startDate,
+            end_date: data.endDate || null,
+            is_current: data.isCurrent,
+          });
+          if (error) {
+            ctx.addIssue({
+              code: 'custom',
+              path: [DATE_ERROR_FIELDS[error]],
+              message: t(`errors.${error}`),
+            });
+          }
+        }),
+    [t, tValidation]
+  );
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    setValue,
+    formState: { errors },
+  } = useForm<ExperienceFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: toExperienceFormData(entry),
+  });
+
+  // Start from the entry being edited each time the dialog opens
+  React.useEffect(() => {
+    if (open) reset(toExperienceFormData(entry));
+  }, [open, entry, reset]);
+
+  const isCurrent = useWatch({ control, name: 'isCurrent' });
+  const category = useWatch({ control, name: 'category' });
+
+  const onSubmit: SubmitHandler<ExperienceFormData> = (data) => {
+    saveExperience.mutate(
+      {
+        id: entry?.id,
+        expert_profile_id: expertProfileId,
+        company: data.company,
+        position: data.position,
+        category: data.category === PROFILE_CATEGORY ? null : (data.category as ExpertCategory),
+        location: data.location,
+        description: data.description,
+        start_date: data.startDate,
+        end_date: data.isCurrent ? null : data.endDate,
+        is_current: data.isCurrent,
+        ...(!entry && { sort_order: nextSortOrder }),
+      },
+      {
+        onSuccess: () => {
+          toast.success(t('saved'));
+          onOpenChange(false);
+        },
+        onError: () => toast.error(t('saveFailed')),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry ? t('editExperience') : t('addExperience')}</DialogTitle>
+          <DialogDescription>{t('experienceDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <Input
+              label={`${t('position')} *`}
+              placeholder={t('positionPlaceholder')}
+              error={errors.position?.message}
+              {...register('position')}
+            />
+            <Input
+              label={`${t('company')} *`}
+              placeholder={t('companyPlaceholder')}
+              error={errors.company?.message}
+              {...register('company')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-white">{t('category')}</label>
+              <Select
+                value={category}
+                onValueChange={(value) => setValue('category', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PROFILE_CATEGORY}>{t('profileCategory')}</SelectItem>
+                  {CATEGORIES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {tCategories(value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              label={`${t('location')} (${tCommon('optional')})`}
+              placeholder={t('locationPlaceholder')}
+              error={errors.location?.message}
+              {...register('location')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <Input
+              type="date"
+              label={`${t('startDate')} *`}
+              error={errors.startDate?.message}
+              {...register('startDate')}
+            />
+            <Input
+              type="date"
+              label={t('endDate')}
+              disabled={isCurrent}
+              error={errors.endDate?.message}
+              {...register('endDate')}
+            />
+          </div>
+
+          <label className="flex cursor-pointer items-center gap-3">
+            <Checkbox
+              checked={isCurrent}
+              onCheckedChange={(checked) => {
+                setValue('isCurrent', checked === true);
+                if (checked === true) setValue('endDate', '');
+              }}
+            />
+            <span className="text-sm text-white">{t('isCurrent')}</span>
+          </label>
+
+          <Textarea
+            label={`${t('entryDescription')} (${tCommon('optional')})`}
+            placeholder={t('entryDescriptionPlaceholder')}
+            error={errors.description?.message}
+            {...register('description')}
+          />
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveExperience.isPending}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button type="submit" variant="primary" loading={saveExperience.isPending}>
+              {tCommon('save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================================================
+// EDUCATION DIALOG
+// ============================================================================
+
+interface EducationFormData {
+  institution: string;
+  degree: string;
+  field: string;
+  startDate: string;
+  endDate: string;
+  description: string;
+}
+
+function toEducationFormData(entry: ExpertEducation | null): EducationFormData {
+  return {
+    institution: entry?.institution ?? '',
+    degree: entry?.degree ?? '',
+    field: entry?.field ?? '',
+    startDate: entry?.start_date ?? '',
+    endDate: entry?.end_date ?? '',
+    description: entry?.description ?? '',
+  };
+}
+
+function EducationDialog({
+  expertProfileId,
+  entry,
+  nextSortOrder,
+  open,
+  onOpenChange,
+}: HistoryDialogProps<ExpertEducation>) {
+  const t = useTranslations('experts.history');
+  const tValidation = useTranslations('validation');
+  const tCommon = useTranslations('common');
+
+  const { saveEducation } = useExpertHistoryMutations();
+
+  const schema = React.useMemo(
+    () =>
+      z
+        .object({
+          institution: z
+            .string()
+            .trim()
+            .min(1, tValidation('required'))
+            .max(100, tValidation('maxLength', { max: 100 })),
+          degree: z
+            .string()
+            .trim()
+            .min(1, tValidation('required'))
+            .max(100, tValidation('maxLength', { max: 100 })),
+          field: z.string().max(100, tValidation('maxLength', { max: 100 })),
+          startDate: z.string().min(1, tValidation('required')),
+          endDate: z.string(),
+          description: z.string().max(1000, tValidation('maxLength', { max: 1000 })),
+        })
+        .superRefine((data, ctx) => {
+          if (!data.startDate) return;
+          const error = validateEducationDates({
+            start_date: data.startDate,
+            end_date: data.endDate || null,
+          });
+          if (error) {
+            ctx.addIssue({
+              code: 'custom',
+              path: [DATE_ERROR_FIELDS[error]],
+              message: t(`errors.${error}`),
+            });
+          }
+        }),
+    [t, tValidation]
+  );
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<EducationFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: toEducationFormData(entry),
+  });
+
+  // Start from the entry being edited each time the dialog opens
+  React.useEffect(() => {
+    if (open) reset(toEducationFormData(entry));
+  }, [open, entry, reset]);
+
+  const onSubmit: SubmitHandler<EducationFormData> = (data) => {
+    saveEducation.mutate(
+      {
+        id: entry?.id,
+        expert_profile_id: expertProfileId,
+        institution: data.institution,
+        degree: data.degree,
+        field: data.field,
+        description: data.description,
+        start_date: data.startDate,
+        end_date: data.endDate || null,
+        ...(!entry && { sort_order: nextSortOrder }),
+      },
+      {
+        onSuccess: () => {
+          toast.success(t('saved'));
+          onOpenChange(false);
+        },
+        onError: () => toast.error(t('saveFailed')),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry ? t('editEducation') : t('addEducation')}</DialogTitle>
+          <DialogDescription>{t('educationDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <Input
+            label={`${t('institution')} *`}
+            placeholder={t('institutionPlaceholder')}
+            error={errors.institution?.message}
+            {...register('institution')}
+          />
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <Input
+              label={`${t('degree')} *`}
+              placeholder={t('degreePlaceholder')}
+              error={errors.degree?.message}
+              {...register('degree')}
+            />
+            <Input
+              label={`${t('field')} (${tCommon('optional')})`}
+              placeholder={t('fieldPlaceholder')}
+              error={errors.field?.message}
+              {...register('field')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <Input
+              type="date"
+              label={`${t('startDate')} *`}
+              error={errors.startDate?.message}
+              {...register('startDate')}
+            />
+            <Input
+              type="date"
+              label={t('graduationDate')}
+              helperText={t('graduationDateHelp')}
+              error={errors.endDate?.message}
+              {...register('endDate')}
+            />
+          </div>
+
+          <Textarea
+            label={`${t('entryDescription')} (${tCommon('optional')})`}
+            placeholder={t('entryDescriptionPlaceholder')}
+            error={errors.description?.message}
+            {...register('description')}
+          />
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveEducation.isPending}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button type="submit" variant="primary" loading={saveEducation.isPending}>
+              {tCommon('save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExperienceEditor;
@@ -9,6 +9,9 @@
  * - Education history
  * - Animated reveal on scroll
  *
+ * Entries come from the expert's work history and education (see
+ * useExpertHistory), already in display order.
+ *
  * Uses customized UI wrappers from @/components/ui/ and translations.
  */
 
@@ -24,6 +27,7 @@ import {
 } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
+import { getExperienceYears } from '@/lib/expert-experience';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Accordion,
@@ -32,16 +36,17 @@ import {
   AccordionTrigger,
 } from '@/components/ui/accordion';
 import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
 
-import type { ExpertWithProfile } from '../types';
+import type { ExpertEducation, ExpertExperience } from '../types';
 
 export interface ExperienceSectionProps {
-  /** Expert data with profile information */
-  expert: ExpertWithProfile;
-  /** Work experience items (optional - can be passed from profile extension) */
+  /** Work experience items, in display order */
   workExperience?: WorkExperienceItem[];
-  /** Education items (optional - can be passed from profile extension) */
+  /** Education items, in display order */
   education?: EducationItem[];
+  /** Whether the entries are still loading */
+  isLoading?: boolean;
   /** Additional CSS classes */
   className?: string;
 }
@@ -73,6 +78,37 @@ export interface EducationItem {
   description?: string;
 }
 
+/**
+ * Maps a work history entry to a timeline item
+ */
+export function toWorkExperienceItem(entry: ExpertExperience): WorkExperienceItem {
+  return {
+    id: String(entry.id),
+    company: entry.company,
+    position: entry.position,
+    location: entry.location ?? undefined,
+    startDate: entry.start_date,
+    endDate: entry.end_date ?? undefined,
+    description: entry.description ?? undefined,
+    isCurrent: entry.is_current,
+  };
+}
+
+/**
+ * Maps an education entry to a timeline item
+ */
+export function toEducationItem(entry: ExpertEducation): EducationItem {
+  return {
+    id: String(entry.id),
+    institution: entry.institution,
+    degree: entry.degree,
+    field: entry.field ?? undefined,
+    startDate: entry.start_date,
+    endDate: entry.end_date ?? undefined,
+    description: entry.description ?? undefined,
+  };
+}
+
 /**
  * Timeline Item Component
  */
@@ -95,6 +131,7 @@ function TimelineItem({
   isCurrent?: boolean;
   index: number;
 }) {
+  const t = useTranslations('experts.profile.experienceSection');
   const ref = React.useRef<HTMLDivElement>(null);
   const isInView = useInView(ref, { once: true, margin: '-50px' });
 
@@ -124,7 +161,7 @@ function TimelineItem({
           <h4 className="font-semibold text-white">{title}</h4>
           {isCurrent && (
             <Badge variant="success" size="sm">
-              Current
+              {t('current')}
             </Badge>
           )}
         </div>
@@ -164,36 +201,20 @@ function TimelineItem({
  * Experience Section Component
  */
 export function ExperienceSection({
-  expert,
   workExperience = [],
   education = [],
+  isLoading = false,
   className,
 }: ExperienceSectionProps) {
   const t = useTranslations('experts.profile.experienceSection');
 
-  // Generate demo data based on expert info if none provided
-  const displayWorkExperience: WorkExperienceItem[] =
-    workExperience.length > 0
-      ? workExperience
-      : expert.experience_years
-        ? [
-            {
-              id: '1',
-              company: expert.business_name || expert.profile.company_name || 'Company',
-              position: expert.category
-                ? `${expert.category.charAt(0).toUpperCase() + expert.category.slice(1)} Expert`
-                : 'Expert',
-              startDate: new Date(
-                new Date().getFullYear() - (expert.experience_years || 0),
-                0
-              ).toISOString(),
-              isCurrent: true,
-              description: expert.service_description || undefined,
-            },
-          ]
-        : [];
-
-  const hasWorkExperience = displayWorkExperience.length > 0;
+  const hasWorkExperience = workExperience.length > 0;
+  const totalYears = getExperienceYears(
+    workExperience.map((item) => ({
+      start_date: item.startDate,
+      end_date: item.isCurrent ? null : item.endDate ?? null,
+    }))
+  );
   const hasEducation = education.length > 0;
   const hasContent = hasWorkExperience || hasEducation;
 
@@ -228,11 +249,21 @@ export function ExperienceSection({
           <CardTitle className="flex items-center gap-2 text-lg">
             <Briefcase className="h-5 w-5 text-primary" />
             {t('title')}
+            {!isLoading && totalYears > 0 && (
+              <Badge variant="muted" size="sm">
+                {t('totalYears', { years: totalYears })}
+              </Badge>
+            )}
           </CardTitle>
         </CardHeader>
 
         <CardContent>
-          {hasContent ? (
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-16 w-full" rounded="xl" />
+              <Skeleton className="h-16 w-full" rounded="xl" />
+            </div>
+          ) : hasContent ? (
             <Accordion
               type="multiple"
               defaultValue={['work', 'education']}
@@ -246,13 +277,13 @@ export function ExperienceSection({
                       <Briefcase className="h-4 w-4 text-primary/70" />
                       {t('workExperience')}
                       <Badge variant="muted" size="sm">
-                        {displayWorkExperience.length}
+                        {workExperience.length}
                       </Badge>
                     </span>
                   </AccordionTrigger>
                   <AccordionContent className="pt-4">
                     <div className="space-y-0">
-                      {displayWorkExperience.map((item, index) => (
+                      {workExperience.map((item, index) => (
                         <TimelineItem
                           key={item.id}
                           icon={Briefcase}
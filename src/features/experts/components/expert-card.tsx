@@ -8,6 +8,7 @@
  * - Name, company, and category
  * - Expertise tags (badges)
  * - Hourly rate and experience
+ * - Average rating and review count
  * - Verified badge for approved experts
  * - Featured highlight (subtle)
  * - Subtle hover effect (border color change only)
@@ -21,6 +22,7 @@ import { useTranslations } from 'next-intl';
 import { BadgeCheck, Star, Clock, ArrowUpRight } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
+import { formatRating } from '@/lib/reviews';
 import { Link } from '@/i18n/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
@@ -68,8 +70,9 @@ function formatHourlyRate(rate: number | null): string {
  * 3. Name + verified badge
  * 4. Company name
  * 5. Category badge
- * 6. Specialty tags
- * 7. Bottom stats: experience + hourly rate
+ * 6. Rating (when reviewed)
+ * 7. Specialty tags
+ * 8. Bottom stats: experience + hourly rate
  */
 export function ExpertCard({ expert, className }: ExpertCardProps) {
   const t = useTranslations('experts.card');
@@ -85,6 +88,8 @@ export function ExpertCard({ expert, className }: ExpertCardProps) {
     is_featured,
     status,
     experience_years,
+    rating_average,
+    review_count,
   } = expert;
 
   const isVerified = status === 'approved';
@@ -168,6 +173,22 @@ export function ExpertCard({ expert, className }: ExpertCardProps) {
                 </Badge>
               )}
             </div>
+
+            {/* Rating */}
+            {rating_average !== null && review_count > 0 && (
+              <div
+                className="mt-2 flex items-center justify-center gap-1 text-sm"
+                aria-label={t('rating', { rating: formatRating(rating_average) })}
+              >
+                <Star className="h-3.5 w-3.5 fill-warning text-warning" />
+                <span className="font-semibold text-white">
+                  {formatRating(rating_average)}
+                </span>
+                <span className="text-[#8B95A1]">
+                  ({t('reviews', { count: review_count })})
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Specialty Tags */}
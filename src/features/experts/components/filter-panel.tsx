@@ -7,6 +7,7 @@
  * - Category filter (Select dropdown)
  * - Availability toggle (Checkbox)
  * - Price range slider/inputs
+ * - Minimum years of experience (in the selected category if any)
  * - Clear all filters button
  *
  * Uses customized UI wrappers from @/components/ui/ and translations.
@@ -17,6 +18,7 @@ import { useTranslations } from 'next-intl';
 import { X, SlidersHorizontal } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
+import { MIN_YEARS_OPTIONS } from '@/lib/expert-experience';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
@@ -100,6 +102,7 @@ export function FilterPanel({
       filters.keyword ||
       filters.minPrice ||
       filters.maxPrice ||
+      filters.minYears ||
       filters.isAvailable !== undefined ||
       (filters.regions && filters.regions.length > 0)
     );
@@ -130,6 +133,14 @@ export function FilterPanel({
     });
   };
 
+  // Handle minimum years change
+  const handleMinYearsChange = (value: string) => {
+    onFiltersChange({
+      ...filters,
+      minYears: value === 'any' ? undefined : Number(value),
+    });
+  };
+
   // Clear all filters
   const handleClearFilters = () => {
     onFiltersChange({});
@@ -181,7 +192,7 @@ export function FilterPanel({
       {/* Filters */}
       <Accordion
         type="multiple"
-        defaultValue={['category', 'availability', 'price']}
+        defaultValue={['category', 'availability', 'price', 'experience']}
         className="w-full"
       >
         {/* Category Filter */}
@@ -259,6 +270,33 @@ export function FilterPanel({
             </div>
           </AccordionContent>
         </AccordionItem>
+
+        {/* Experience Filter */}
+        <AccordionItem value="experience" className="border-white/[0.08]">
+          <AccordionTrigger className="py-3 text-white hover:no-underline">
+            {filters.category
+              ? t('experienceInCategory', { category: tCategories(filters.category) })
+              : t('experience')}
+          </AccordionTrigger>
+          <AccordionContent className="pb-4">
+            <Select
+              value={filters.minYears?.toString() ?? 'any'}
+              onValueChange={handleMinYearsChange}
+            >
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue placeholder={t('anyExperience')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">{t('anyExperience')}</SelectItem>
+                {MIN_YEARS_OPTIONS.map((years) => (
+                  <SelectItem key={years} value={years.toString()}>
+                    {t('minYears', { years })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </AccordionContent>
+        </AccordionItem>
       </Accordion>
 
       {/* Apply button for mobile */}
@@ -302,6 +340,9 @@ export function FilterSummary({
     const max = filters.maxPrice ? formatPrice(filters.maxPrice) : formatPrice(MAX_PRICE);
     activeFilters.push(`${min} - ${max}`);
   }
+  if (filters.minYears) {
+    activeFilters.push(t('minYears', { years: filters.minYears }));
+  }
 
   if (activeFilters.length === 0) return null;
 
@@ -28,7 +28,11 @@ export type { ExpertiseSectionProps } from './expertise-section';
 export { CollaborationNeedsSection } from './collaboration-needs-section';
 export type { CollaborationNeedsSectionProps } from './collaboration-needs-section';
 
-export { ExperienceSection } from './experience-section';
+export {
+  ExperienceSection,
+  toWorkExperienceItem,
+  toEducationItem,
+} from './experience-section';
 export type {
   ExperienceSectionProps,
   WorkExperienceItem,
@@ -37,3 +41,24 @@ export type {
 
 export { PortfolioSection } from './portfolio-section';
 export type { PortfolioSectionProps } from './portfolio-section';
+
+export { ReviewsSection } from './reviews-section';
+export type { ReviewsSectionProps } from './reviews-section';
+
+export { ReviewModal } from './review-modal';
+export type { ReviewModalProps } from './review-modal';
+
+export { RatingStars, RatingInput } from './rating-stars';
+export type { RatingStarsProps, RatingInputProps } from './rating-stars';
+
+export { AvailabilitySection } from './availability-section';
+export type { AvailabilitySectionProps } from './availability-section';
+
+export { AddToCalendarButton } from './add-to-calendar-button';
+export type { AddToCalendarButtonProps } from './add-to-calendar-button';
+
+export { ProposalDialog } from './proposal-dialog';
+export type { ProposalDialogProps } from './proposal-dialog';
+
+export { ExperienceEditor } from './experience-editor';
+export type { ExperienceEditorProps } from './experience-editor';
@@ -0,0 +1,208 @@
+'use client';
+
+/**
+ * Proposal Dialog Component
+ *
+ * Lets either side of a collaboration request propose scope, budget (KRW)
+ * and timeline while the request is pending or accepted. The last proposal
+ * wins; every change shows up in the request timeline.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+
+import {
+  MAX_SCOPE_LENGTH,
+  parseProposalForm,
+  validateProposal,
+} from '@/lib/collaboration-lifecycle';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+import { useUpdateCollaborationProposal } from '../api/queries';
+import type { CollaborationProposal, CollaborationRequest } from '../types';
+
+export interface ProposalDialogProps {
+  /** The request and its current proposal */
+  request: Pick<CollaborationRequest, 'id'> & CollaborationProposal;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Called after the proposal was saved */
+  onSaved?: () => void;
+}
+
+interface ProposalFormData {
+  scope: string;
+  budgetMin: string;
+  budgetMax: string;
+  timelineStart: string;
+  timelineEnd: string;
+}
+
+const ERROR_FIELDS = {
+  scopeTooLong: 'scope',
+  invalidBudget: 'budgetMin',
+  budgetRange: 'budgetMax',
+  timelineRange: 'timelineEnd',
+} as const;
+
+function toFormData(proposal: CollaborationProposal): ProposalFormData {
+  return {
+    scope: proposal.scope ?? '',
+    budgetMin: proposal.budget_min?.toString() ?? '',
+    budgetMax: proposal.budget_max?.toString() ?? '',
+    timelineStart: proposal.timeline_start ?? '',
+    timelineEnd: proposal.timeline_end ?? '',
+  };
+}
+
+export function ProposalDialog({ request, open, onOpenChange, onSaved }: ProposalDialogProps) {
+  const t = useTranslations('experts.proposal');
+  const tCommon = useTranslations('common');
+
+  const updateProposal = useUpdateCollaborationProposal();
+
+  const proposalSchema = React.useMemo(
+    () =>
+      z
+        .object({
+          scope: z.string(),
+          budgetMin: z.string(),
+          budgetMax: z.string(),
+          timelineStart: z.string(),
+          timelineEnd: z.string(),
+        })
+        .superRefine((data, ctx) => {
+          const error = validateProposal(parseProposalForm(data));
+          if (error) {
+            ctx.addIssue({
+              code: 'custom',
+              path: [ERROR_FIELDS[error]],
+              message: t(`errors.${error}`, { max: MAX_SCOPE_LENGTH }),
+            });
+          }
+        }),
+    [t]
+  );
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ProposalFormData>({
+    resolver: zodResolver(proposalSchema),
+    defaultValues: toFormData(request),
+  });
+
+  // Start from the latest proposal each time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      reset(toFormData(request));
+      updateProposal.reset();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, reset]);
+
+  const onSubmit: SubmitHandler<ProposalFormData> = (data) => {
+    updateProposal.mutate(
+      { request_id: request.id, ...parseProposalForm(data) },
+      {
+        onSuccess: () => {
+          toast.success(t('saved'));
+          onOpenChange(false);
+          onSaved?.();
+        },
+        onError: (error) => {
+          toast.error(
+            error.message.includes('before work starts') ? t('locked') : t('saveFailed')
+          );
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('editTitle')}</DialogTitle>
+          <DialogDescription>{t('editDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <Textarea
+            label={t('scope')}
+            placeholder={t('scopePlaceholder')}
+            error={errors.scope?.message}
+            className="min-h-[120px]"
+            {...register('scope')}
+          />
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <Input
+              label={t('budgetMin')}
+              inputMode="numeric"
+              placeholder={t('budgetPlaceholder')}
+              error={errors.budgetMin?.message}
+              {...register('budgetMin')}
+            />
+            <Input
+              label={t('budgetMax')}
+              inputMode="numeric"
+              placeholder={t('budgetPlaceholder')}
+              error={errors.budgetMax?.message}
+              {...register('budgetMax')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <Input
+              type="date"
+              label={t('timelineStart')}
+              error={errors.timelineStart?.message}
+              {...register('timelineStart')}
+            />
+            <Input
+              type="date"
+              label={t('timelineEnd')}
+              error={errors.timelineEnd?.message}
+              {...register('timelineEnd')}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={updateProposal.isPending}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button type="submit" variant="primary" loading={updateProposal.isPending}>
+              {t('save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ProposalDialog;
@@ -0,0 +1,108 @@
+'use client';
+
+/**
+ * Rating Stars Components
+ *
+ * Star rating display (rounded to the nearest half star) and a star picker
+ * for writing reviews.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { Star, StarHalf } from 'lucide-react';
+
+import { cn } from '@/lib/cn';
+import { MAX_RATING, MIN_RATING } from '@/lib/reviews';
+
+const STAR_SIZES = {
+  sm: 'h-3.5 w-3.5',
+  md: 'h-4 w-4',
+  lg: 'h-6 w-6',
+} as const;
+
+export interface RatingStarsProps {
+  /** Rating from 0 to 5 (fractions show as half stars) */
+  rating: number;
+  size?: keyof typeof STAR_SIZES;
+  className?: string;
+}
+
+/**
+ * Read-only star rating
+ */
+export function RatingStars({ rating, size = 'md', className }: RatingStarsProps) {
+  const t = useTranslations('experts.reviews');
+  const halves = Math.round(rating * 2);
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-0.5', className)}
+      role="img"
+      aria-label={t('starsLabel', { rating })}
+    >
+      {Array.from({ length: MAX_RATING }, (_, index) => {
+        const filled = halves - index * 2;
+        return (
+          <span key={index} className={cn('relative', STAR_SIZES[size])}>
+            <Star className={cn('absolute inset-0 text-white/20', STAR_SIZES[size])} />
+            {filled >= 2 ? (
+              <Star className={cn('absolute inset-0 fill-warning text-warning', STAR_SIZES[size])} />
+            ) : filled === 1 ? (
+              <StarHalf className={cn('absolute inset-0 fill-warning text-warning', STAR_SIZES[size])} />
+            ) : null}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+export interface RatingInputProps {
+  /** Selected rating (0 = none) */
+  value: number;
+  onChange: (rating: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Star picker; hovering previews the rating
+ */
+export function RatingInput({ value, onChange, disabled = false, className }: RatingInputProps) {
+  const t = useTranslations('experts.reviews');
+  const [hovered, setHovered] = React.useState(0);
+  const shown = hovered || value;
+
+  return (
+    <div
+      className={cn('flex items-center gap-1', className)}
+      role="radiogroup"
+      aria-label={t('ratingLabel')}
+      onMouseLeave={() => setHovered(0)}
+    >
+      {Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, index) => {
+        const rating = MIN_RATING + index;
+        return (
+          <button
+            key={rating}
+            type="button"
+            role="radio"
+            aria-checked={value === rating}
+            aria-label={t('starsLabel', { rating })}
+            disabled={disabled}
+            onClick={() => onChange(rating)}
+            onMouseEnter={() => setHovered(rating)}
+            className="rounded-md p-0.5 transition-transform hover:scale-110 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Star
+              className={cn(
+                'h-7 w-7 transition-colors',
+                rating <= shown ? 'fill-warning text-warning' : 'text-white/20'
+              )}
+            />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MAX_RATING, MAX_REVIEW_LENGTH, MIN_RATING } from '@/lib/reviews';
+import { useCreateExpertReview } from '../api/queries';
+import type { CollaborationRequest, ExpertWithProfile } from '../types';
+import { RatingInput } from './rating-stars';
+
+/**
+ * Review Modal Component
+ *
+ * Modal for reviewing an expert after an accepted collaboration or coffee
+ * chat request. Uses react-hook-form with zod validation.
+ *
+ * Features:
+ * - Request picker when several accepted requests are not reviewed yet
+ * - 1-5 star rating (required)
+ * - Review text (required)
+ * - Closes modal after success
+ */
+
+export interface ReviewModalProps {
+  /** The expert being reviewed */
+  expert: ExpertWithProfile;
+  /** Accepted requests to this expert that the user has not reviewed yet */
+  requests: CollaborationRequest[];
+  /** Whether the modal is open */
+  open: boolean;
+  /** Callback when the modal open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+// Form data interface
+interface ReviewFormData {
+  requestId: string;
+  rating: number;
+  content: string;
+}
+
+export function ReviewModal({
+  expert,
+  requests,
+  open,
+  onOpenChange,
+}: ReviewModalProps) {
+  const t = useTranslations('experts.reviews');
+  const tCommon = useTranslations('common');
+  const tValidation = useTranslations('validation');
+
+  const createReview = useCreateExpertReview();
+
+  // Create validation schema with translated messages
+  const reviewSchema = React.useMemo(
+    () =>
+      z.object({
+        requestId: z.string().min(1, tValidation('required')),
+        rating: z
+          .number()
+          .int()
+          .min(MIN_RATING, t('ratingRequired'))
+          .max(MAX_RATING),
+        content: z
+          .string()
+          .trim()
+          .min(1, tValidation('required'))
+          .max(MAX_REVIEW_LENGTH, tValidation('maxLength', { max: MAX_REVIEW_LENGTH })),
+      }),
+    [t, tValidation]
+  );
+
+  const defaultRequestId = requests[0] ? String(requests[0].id) : '';
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<ReviewFormData>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: {
+      requestId: defaultRequestId,
+      rating: 0,
+      content: '',
+    },
+  });
+
+  const requestId = watch('requestId');
+  const rating = watch('rating');
+
+  // Start from the first reviewable request each time the modal opens
+  React.useEffect(() => {
+    if (open) {
+      reset({ requestId: defaultRequestId, rating: 0, content: '' });
+      createReview.reset();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, reset]);
+
+  const onSubmit: SubmitHandler<ReviewFormData> = async (data) => {
+    try {
+      await createReview.mutateAsync({
+        collaboration_request_id: Number(data.requestId),
+        expert_profile_id: expert.id,
+        rating: data.rating,
+        content: data.content,
+      });
+      toast.success(t('created'));
+      onOpenChange(false);
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
+  const expertName = expert.profile?.full_name || expert.business_name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('writeTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('writeSubtitle', { name: expertName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          {/* Error Message from Mutation */}
+          {createReview.error && (
+            <div className="p-3 rounded-2xl bg-[#FF453A]/10 border border-[#FF453A]/20">
+              <p className="text-sm text-[#FF453A] text-center">{t('failed')}</p>
+            </div>
+          )}
+
+          {/* Request (only when there is a choice) */}
+          {requests.length > 1 && (
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-white">
+                {t('request')}
+              </label>
+              <Select
+                value={requestId}
+                onValueChange={(value) => setValue('requestId', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {requests.map((request) => (
+                    <SelectItem key={request.id} value={String(request.id)}>
+                      {request.subject}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.requestId && (
+                <p className="text-sm font-medium text-[#FF453A]">
+                  {errors.requestId.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Rating */}
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-white">
+              {t('ratingLabel')}
+            </label>
+            <RatingInput
+              value={rating}
+              onChange={(value) => setValue('rating', value, { shouldValidate: true })}
+              disabled={createReview.isPending}
+            />
+            {errors.rating && (
+              <p className="text-sm font-medium text-[#FF453A]">
+                {errors.rating.message}
+              </p>
+            )}
+          </div>
+
+          {/* Review Text */}
+          <Textarea
+            label={t('content')}
+            placeholder={t('contentPlaceholder')}
+            error={errors.content?.message}
+            maxLength={MAX_REVIEW_LENGTH}
+            className="min-h-[150px]"
+            {...register('content')}
+          />
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={createReview.isPending}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button
+              type="submit"
+              variant="primary-glow"
+              loading={createReview.isPending}
+            >
+              {t('submit')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
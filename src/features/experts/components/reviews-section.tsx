@@ -0,0 +1,377 @@
+'use client';
+
+/**
+ * Reviews Section Component
+ *
+ * Displays the reviews of an expert including:
+ * - Average rating, review count and per-star distribution
+ * - Review list with reviewer, stars, date and text
+ * - Public expert replies (the expert can post, edit and remove them)
+ * - "Write a review" for members with an accepted request not reviewed yet
+ * - Reviewers can delete their own review
+ *
+ * Uses customized UI wrappers from @/components/ui/ and translations.
+ */
+
+import * as React from 'react';
+import { useTranslations, useFormatter } from 'next-intl';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { MessageSquareQuote, PenLine, Reply, Trash2 } from 'lucide-react';
+
+import { cn } from '@/lib/cn';
+import { formatRating, getRatingDistribution, MAX_REVIEW_LENGTH } from '@/lib/reviews';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+import {
+  useExpertReviews,
+  useReviewableCollaborations,
+  useReplyToExpertReview,
+  useDeleteExpertReview,
+} from '../api/queries';
+import type { ExpertReviewWithReviewer, ExpertWithProfile } from '../types';
+import { RatingStars } from './rating-stars';
+import { ReviewModal } from './review-modal';
+
+export interface ReviewsSectionProps {
+  /** Expert data with profile information */
+  expert: ExpertWithProfile;
+  /** ID of the logged-in user, if any */
+  currentUserId?: string | null;
+  /** Whether the logged-in user is this expert */
+  isOwnProfile?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Gets the initials from a full name for avatar fallback
+ */
+function getInitials(name: string | null | undefined): string {
+  if (!name) return '?';
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return parts[0].slice(0, 2).toUpperCase();
+  }
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+// ============================================================================
+// REVIEW ITEM
+// ============================================================================
+
+interface ReviewItemProps {
+  review: ExpertReviewWithReviewer;
+  expertName: string;
+  isOwnReview: boolean;
+  canReply: boolean;
+  onDelete: (review: ExpertReviewWithReviewer) => void;
+}
+
+function ReviewItem({ review, expertName, isOwnReview, canReply, onDelete }: ReviewItemProps) {
+  const t = useTranslations('experts.reviews');
+  const tCommon = useTranslations('common');
+  const format = useFormatter();
+  const replyToReview = useReplyToExpertReview();
+  const [isReplying, setIsReplying] = React.useState(false);
+  const [reply, setReply] = React.useState('');
+
+  const reviewerName = review.reviewer?.full_name || t('formerMember');
+
+  const startReply = () => {
+    setReply(review.expert_reply ?? '');
+    setIsReplying(true);
+  };
+
+  const saveReply = (value: string | null) => {
+    replyToReview.mutate(
+      { review_id: review.id, expert_profile_id: review.expert_profile_id, reply: value },
+      {
+        onSuccess: () => {
+          setIsReplying(false);
+          toast.success(value ? t('replySaved') : t('replyRemoved'));
+        },
+        onError: () => toast.error(t('replyFailed')),
+      }
+    );
+  };
+
+  return (
+    <li className="space-y-3 py-5 first:pt-0 last:pb-0">
+      {/* Reviewer, rating and date */}
+      <div className="flex items-start gap-3">
+        <Avatar size="md" className="shrink-0">
+          {review.reviewer?.avatar_url && (
+            <AvatarImage src={review.reviewer.avatar_url} alt={reviewerName} />
+          )}
+          <AvatarFallback>{getInitials(review.reviewer?.full_name)}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center justify-between gap-2">
+            <p className="truncate font-semibold text-white">{reviewerName}</p>
+            {isOwnReview && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => onDelete(review)}
+                aria-label={t('delete')}
+                className="text-muted hover:text-error"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <div className="mt-0.5 flex items-center gap-2 text-sm text-muted">
+            <RatingStars rating={review.rating} size="sm" />
+            <time dateTime={review.created_at}>
+              {format.dateTime(new Date(review.created_at), { dateStyle: 'medium' })}
+            </time>
+          </div>
+        </div>
+      </div>
+
+      <p className="whitespace-pre-wrap break-words text-base text-white/90">{review.content}</p>
+
+      {/* Expert reply */}
+      {isReplying ? (
+        <div className="space-y-2 rounded-2xl border border-white/10 bg-white/5 p-4">
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder={t('replyPlaceholder')}
+            maxLength={MAX_REVIEW_LENGTH}
+            disabled={replyToReview.isPending}
+            aria-label={t('replyPlaceholder')}
+            className="min-h-[96px]"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsReplying(false)}
+              disabled={replyToReview.isPending}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => saveReply(reply)}
+              disabled={!reply.trim()}
+              loading={replyToReview.isPending}
+            >
+              {t('replySubmit')}
+            </Button>
+          </div>
+        </div>
+      ) : review.expert_reply ? (
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+          <div className="mb-1 flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold text-white">
+              {t('replyFrom', { name: expertName })}
+            </p>
+            {canReply && (
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={startReply}>
+                  {t('editReply')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => saveReply(null)}
+                  disabled={replyToReview.isPending}
+                >
+                  {t('removeReply')}
+                </Button>
+              </div>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap break-words text-sm text-white/80">
+            {review.expert_reply}
+          </p>
+        </div>
+      ) : (
+        canReply && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={startReply}
+            leftIcon={<Reply className="h-4 w-4" />}
+          >
+            {t('reply')}
+          </Button>
+        )
+      )}
+    </li>
+  );
+}
+
+// ============================================================================
+// REVIEWS SECTION
+// ============================================================================
+
+/**
+ * Reviews Section Component
+ */
+export function ReviewsSection({
+  expert,
+  currentUserId,
+  isOwnProfile = false,
+  className,
+}: ReviewsSectionProps) {
+  const t = useTranslations('experts.reviews');
+  const tProfile = useTranslations('experts.profile');
+  const tCommon = useTranslations('common');
+
+  const { data: reviews = [], isLoading } = useExpertReviews(expert.id);
+  const { data: reviewable = [] } = useReviewableCollaborations(
+    expert.id,
+    !!currentUserId && !isOwnProfile
+  );
+  const deleteReview = useDeleteExpertReview();
+
+  const [isReviewModalOpen, setIsReviewModalOpen] = React.useState(false);
+  const [deletingReview, setDeletingReview] =
+    React.useState<ExpertReviewWithReviewer | null>(null);
+
+  const expertName = expert.profile?.full_name || expert.business_name;
+  const distribution = React.useMemo(() => getRatingDistribution(reviews), [reviews]);
+
+  const handleConfirmDelete = () => {
+    if (!deletingReview) return;
+    deleteReview.mutate(
+      { review_id: deletingReview.id, expert_profile_id: expert.id },
+      {
+        onSuccess: () => toast.success(t('deleted')),
+        onError: () => toast.error(t('deleteFailed')),
+        onSettled: () => setDeletingReview(null),
+      }
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, delay: 0.3 }}
+    >
+      <Card variant="default" padding="md" className={cn('', className)}>
+        <CardHeader className="flex-row items-center justify-between gap-3 space-y-0 pb-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <MessageSquareQuote className="h-5 w-5 text-primary" />
+            {tProfile('reviews')}
+          </CardTitle>
+          {reviewable.length > 0 && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setIsReviewModalOpen(true)}
+              leftIcon={<PenLine className="h-4 w-4" />}
+            >
+              {t('write')}
+            </Button>
+          )}
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-16 w-full" rounded="2xl" />
+              <Skeleton className="h-24 w-full" rounded="2xl" />
+            </div>
+          ) : reviews.length === 0 ? (
+            <p className="text-sm text-muted italic">{tProfile('noReviews')}</p>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="flex flex-col gap-5 sm:flex-row sm:items-center">
+                <div className="flex flex-col items-center gap-1 sm:w-36">
+                  <span className="text-4xl font-bold text-white">
+                    {formatRating(expert.rating_average)}
+                  </span>
+                  <RatingStars rating={expert.rating_average ?? 0} />
+                  <span className="text-sm text-muted">
+                    {t('count', { count: expert.review_count })}
+                  </span>
+                </div>
+                <ul className="flex-1 space-y-1.5">
+                  {distribution.map(({ rating, count }) => (
+                    <li key={rating} className="flex items-center gap-2 text-sm text-muted">
+                      <span className="w-3 text-right">{rating}</span>
+                      <div className="h-2 flex-1 overflow-hidden rounded-full bg-white/10">
+                        <div
+                          className="h-full rounded-full bg-warning"
+                          style={{ width: `${(count / reviews.length) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-6 text-right">{count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Review list */}
+              <ul className="divide-y divide-white/[0.06]">
+                {reviews.map((review) => (
+                  <ReviewItem
+                    key={review.id}
+                    review={review}
+                    expertName={expertName}
+                    isOwnReview={!!currentUserId && review.reviewer_id === currentUserId}
+                    canReply={isOwnProfile}
+                    onDelete={setDeletingReview}
+                  />
+                ))}
+              </ul>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReviewModal
+        expert={expert}
+        requests={reviewable}
+        open={isReviewModalOpen}
+        onOpenChange={setIsReviewModalOpen}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog
+        open={!!deletingReview}
+        onOpenChange={(open) => !open && setDeletingReview(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('deleteConfirm')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('deleteDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{tCommon('cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-error text-white hover:bg-error/90"
+            >
+              {deleteReview.isPending ? tCommon('loading') : tCommon('delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
+
+export default ReviewsSection;
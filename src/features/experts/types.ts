@@ -5,6 +5,7 @@
  */
 
 import type { Database } from '@/types/database';
+import type { MaterialExpertProfileField } from '@/lib/expert-profile-changes';
 
 /**
  * Expert category enum type from database
@@ -27,6 +28,11 @@ export type CollaborationType = Database['public']['Enums']['collaboration_type'
 export type CollaborationStatus =
   Database['public']['Enums']['collaboration_status'];
 
+/**
+ * Meeting format of a coffee chat
+ */
+export type MeetingFormat = 'video_call' | 'phone' | 'in_person';
+
 /**
  * Profile information for expert's user profile
  */
@@ -70,6 +76,32 @@ export interface ExpertProfile {
   bio: string | null;
   experience_years: number | null;
   hourly_rate: number | null;
+  /** Average review rating (1-5), null without reviews */
+  rating_average: number | null;
+  review_count: number;
+}
+
+/**
+ * Fields an expert can edit on their own profile
+ */
+export type EditableExpertProfileFields = Pick<
+  ExpertProfile,
+  | MaterialExpertProfileField
+  | 'is_available'
+  | 'service_regions'
+>;
+
+/**
+ * Input for updating the current user's expert profile
+ *
+ * Material fields of an approved profile send it back to review; a rejected
+ * profile is resubmitted with `resubmit`.
+ */
+export interface UpdateExpertProfileInput extends Partial<EditableExpertProfileFields> {
+  /** ID of the expert profile */
+  id: string;
+  /** Move a draft or rejected profile to pending_review */
+  resubmit?: boolean;
 }
 
 /**
@@ -97,6 +129,8 @@ export interface ExpertFilters {
   isAvailable?: boolean;
   /** Filter by featured status */
   isFeatured?: boolean;
+  /** Minimum years of work experience, in the selected category if any */
+  minYears?: number;
 }
 
 /**
@@ -107,8 +141,8 @@ export interface ExpertPaginationOptions {
   limit?: number;
   /** Offset for pagination */
   offset?: number;
-  /** Sort by field */
-  sortBy?: 'created_at' | 'view_count' | 'contact_count';
+  /** Sort by field ('rating' = best rated first, unrated last) */
+  sortBy?: 'created_at' | 'view_count' | 'contact_count' | 'rating';
   /** Sort direction */
   sortOrder?: 'asc' | 'desc';
 }
@@ -142,10 +176,32 @@ export interface CollaborationRequest {
   status: CollaborationStatus;
   response_message: string | null;
   responded_at: string | null;
+  meeting_format: MeetingFormat | null;
+  /** Start of the booked coffee chat slot */
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  scope: string | null;
+  /** Budget range in KRW */
+  budget_min: number | null;
+  budget_max: number | null;
+  /** Timeline as dates ("2026-03-02") */
+  timeline_start: string | null;
+  timeline_end: string | null;
+  /** Party who made the current proposal */
+  proposed_by: string | null;
+  proposal_updated_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Structured proposal of a collaboration: scope, budget and timeline
+ */
+export type CollaborationProposal = Pick<
+  CollaborationRequest,
+  'scope' | 'budget_min' | 'budget_max' | 'timeline_start' | 'timeline_end'
+>;
+
 /**
  * Input for creating a collaboration request
  */
@@ -162,6 +218,14 @@ export interface CreateCollaborationInput {
   message: string;
   /** Optional contact information */
   contact_info?: string;
+  /** Coffee chats: requested meeting format */
+  meeting_format?: MeetingFormat;
+  /** Coffee chats: start of the requested slot (ISO timestamp) */
+  scheduled_start?: string;
+  /** Coffee chats: end of the requested slot (ISO timestamp) */
+  scheduled_end?: string;
+  /** Collaborations: initial proposal */
+  proposal?: Partial<CollaborationProposal>;
 }
 
 /**
@@ -176,6 +240,215 @@ export interface RespondCollaborationInput {
   response_message?: string;
 }
 
+/**
+ * Input for moving a request along its lifecycle
+ */
+export interface TransitionCollaborationInput {
+  request_id: number;
+  /** Status the member saw, so concurrent changes are not overwritten */
+  from: CollaborationStatus;
+  to: CollaborationStatus;
+}
+
+/**
+ * Input for proposing a new scope, budget and timeline
+ */
+export interface UpdateCollaborationProposalInput extends CollaborationProposal {
+  request_id: number;
+}
+
+/**
+ * Entry in the timeline of a collaboration request
+ */
+export interface CollaborationEvent {
+  id: number;
+  collaboration_request_id: number;
+  actor_id: string | null;
+  kind: 'created' | 'status_changed' | 'proposal_updated';
+  from_status: CollaborationStatus | null;
+  to_status: CollaborationStatus;
+  /** Response message of an accept or decline */
+  note: string | null;
+  /** Proposal snapshot of a proposal_updated event */
+  metadata: Partial<CollaborationProposal>;
+  created_at: string;
+}
+
+/**
+ * Timeline entry with the member who made the change
+ */
+export interface CollaborationEventWithActor extends CollaborationEvent {
+  actor: ExpertProfileUser | null;
+}
+
+/**
+ * Review of an expert, left after an accepted collaboration request
+ */
+export interface ExpertReview {
+  id: number;
+  collaboration_request_id: number;
+  expert_profile_id: string;
+  reviewer_id: string;
+  rating: number;
+  content: string;
+  expert_reply: string | null;
+  replied_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Expert review with the reviewer's profile (joined from profiles)
+ */
+export interface ExpertReviewWithReviewer extends ExpertReview {
+  reviewer: ExpertProfileUser | null;
+}
+
+/**
+ * Input for reviewing an expert
+ */
+export interface CreateExpertReviewInput {
+  /** ID of the accepted collaboration request being reviewed */
+  collaboration_request_id: number;
+  /** ID of the reviewed expert profile */
+  expert_profile_id: string;
+  /** Star rating from 1 to 5 */
+  rating: number;
+  /** Review text */
+  content: string;
+}
+
+/**
+ * Input for the expert's public reply to a review
+ */
+export interface ReplyExpertReviewInput {
+  review_id: number;
+  expert_profile_id: string;
+  /** Reply text, or null to remove the reply */
+  reply: string | null;
+}
+
+/**
+ * Weekly availability window of an expert, wall-clock time in Asia/Seoul
+ */
+export interface ExpertAvailability {
+  id: number;
+  expert_profile_id: string;
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+  /** "HH:MM:SS" */
+  start_time: string;
+  /** "HH:MM:SS" */
+  end_time: string;
+  created_at: string;
+}
+
+/**
+ * Date on which an expert takes no coffee chats
+ */
+export interface ExpertBlackoutDate {
+  id: number;
+  expert_profile_id: string;
+  /** Calendar date in Asia/Seoul ("2026-03-02") */
+  date: string;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * An expert's weekly availability and upcoming blackout dates
+ */
+export interface ExpertSchedule {
+  availability: ExpertAvailability[];
+  blackout_dates: ExpertBlackoutDate[];
+}
+
+/**
+ * Input for adding a weekly availability window
+ */
+export interface CreateAvailabilityInput {
+  expert_profile_id: string;
+  weekday: number;
+  /** "HH:MM" in Asia/Seoul */
+  start_time: string;
+  /** "HH:MM" in Asia/Seoul */
+  end_time: string;
+}
+
+/**
+ * Input for adding a blackout date
+ */
+export interface CreateBlackoutDateInput {
+  expert_profile_id: string;
+  /** Calendar date in Asia/Seoul ("2026-03-02") */
+  date: string;
+  reason?: string;
+}
+
+/**
+ * Work history entry on an expert profile
+ */
+export type ExpertExperience = Database['public']['Tables']['expert_experiences']['Row'];
+
+/**
+ * Education entry on an expert profile
+ */
+export type ExpertEducation = Database['public']['Tables']['expert_education']['Row'];
+
+/**
+ * An expert's work history and education, in display order
+ */
+export interface ExpertHistory {
+  experiences: ExpertExperience[];
+  education: ExpertEducation[];
+}
+
+/**
+ * Input for adding or editing a work history entry (edits when id is set)
+ */
+export interface SaveExperienceInput {
+  id?: number;
+  expert_profile_id: string;
+  company: string;
+  position: string;
+  location?: string | null;
+  description?: string | null;
+  /** Category the years count toward; null counts toward the profile category */
+  category?: ExpertCategory | null;
+  /** ISO date ("2020-03-01") */
+  start_date: string;
+  /** ISO date, null for current positions */
+  end_date: string | null;
+  is_current: boolean;
+  sort_order?: number;
+}
+
+/**
+ * Input for adding or editing an education entry (edits when id is set)
+ */
+export interface SaveEducationInput {
+  id?: number;
+  expert_profile_id: string;
+  institution: string;
+  degree: string;
+  field?: string | null;
+  description?: string | null;
+  /** ISO date ("2012-03-01") */
+  start_date: string;
+  /** ISO date, null or in the future while still enrolled */
+  end_date: string | null;
+  sort_order?: number;
+}
+
+/**
+ * Input for reordering work history or education entries
+ */
+export interface ReorderHistoryInput {
+  table: 'expert_experiences' | 'expert_education';
+  expert_profile_id: string;
+  order: { id: number; sort_order: number }[];
+}
+
 /**
  * Query keys for TanStack Query cache management
  */
@@ -183,8 +456,16 @@ export const expertQueryKeys = {
   all: ['experts'] as const,
   lists: () => [...expertQueryKeys.all, 'list'] as const,
   list: (filters?: ExpertFilters) => [...expertQueryKeys.lists(), filters] as const,
+  mine: () => [...expertQueryKeys.all, 'mine'] as const,
   details: () => [...expertQueryKeys.all, 'detail'] as const,
   detail: (id: string) => [...expertQueryKeys.details(), id] as const,
+  reviews: (id: string) => [...expertQueryKeys.detail(id), 'reviews'] as const,
+  reviewable: (id: string) => [...expertQueryKeys.detail(id), 'reviewable'] as const,
+  schedule: (id: string) => [...expertQueryKeys.detail(id), 'schedule'] as const,
+  history: (id: string) => [...expertQueryKeys.detail(id), 'history'] as const,
+  slotLists: (id: string) => [...expertQueryKeys.detail(id), 'slots'] as const,
+  slots: (id: string, from: string, to: string) =>
+    [...expertQueryKeys.slotLists(id), from, to] as const,
 } as const;
 
 export const collaborationQueryKeys = {
@@ -192,4 +473,5 @@ export const collaborationQueryKeys = {
   sent: () => [...collaborationQueryKeys.all, 'sent'] as const,
   received: () => [...collaborationQueryKeys.all, 'received'] as const,
   detail: (id: number) => [...collaborationQueryKeys.all, 'detail', id] as const,
+  events: (id: number) => [...collaborationQueryKeys.detail(id), 'events'] as const,
 } as const;
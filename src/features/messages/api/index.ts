@@ -0,0 +1,33 @@
+/**
+ * Messages API Exports
+ *
+ * Central export point for all direct message API hooks and utilities.
+ */
+
+// Query hooks
+export {
+  // Conversation queries
+  useConversations,
+  useConversation,
+  useConversationWith,
+  // Message queries
+  useMessages,
+  // Mutations
+  useSendMessage,
+  useMarkConversationRead,
+  // Utilities
+  withImageUrls,
+} from './queries';
+
+// Re-export types and query keys for external use
+export type {
+  Conversation,
+  ConversationSummary,
+  ConversationDetail,
+  Message,
+  MessageRow,
+  MessageParticipant,
+  SendMessageInput,
+} from '../types';
+
+export { messageQueryKeys } from '../types';
@@ -0,0 +1,358 @@
+'use client';
+
+/**
+ * Message API Queries
+ *
+ * TanStack Query hooks for 1:1 conversations.
+ * Works alongside useRealtimeMessages and useRealtimeConversation for live
+ * delivery and read receipts.
+ *
+ * Features:
+ * - Inbox with last message and unread count per conversation
+ * - Conversation with the other participant, read pointers and the booked
+ *   coffee chat slot
+ * - Messages of a conversation with signed image URLs
+ * - Send text and image messages
+ * - Mark a conversation as read
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import { STORAGE_BUCKETS } from '@/lib/image';
+import { generateFilePath, validateFile } from '@/lib/supabase/storage';
+import { mergeMessage } from '@/lib/messages';
+import type {
+  ConversationDetail,
+  ConversationRequest,
+  ConversationSummary,
+  Message,
+  MessageParticipant,
+  MessageRow,
+  SendMessageInput,
+} from '../types';
+import { messageQueryKeys } from '../types';
+
+// Constants
+const MESSAGES_PAGE_SIZE = 200;
+const SIGNED_URL_EXPIRES_IN = 60 * 60;
+
+// ============================================================================
+// ATTACHMENTS
+// ============================================================================
+
+/**
+ * Adds signed URLs for image attachments; the bucket is private
+ *
+ * @param rows - Messages as stored in the database
+ */
+export async function withImageUrls(rows: MessageRow[]): Promise<Message[]> {
+  const paths = rows.map((row) => row.image_path).filter((path): path is string => !!path);
+
+  if (paths.length === 0) {
+    return rows.map((row) => ({ ...row, image_url: null }));
+  }
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKETS.messageAttachments)
+    .createSignedUrls(paths, SIGNED_URL_EXPIRES_IN);
+
+  if (error) {
+    console.error('[Messages] Failed to sign attachment URLs:', error.message);
+  }
+
+  const urls = new Map((data || []).map((item) => [item.path, item.signedUrl]));
+
+  return rows.map((row) => ({
+    ...row,
+    image_url: row.image_path ? (urls.get(row.image_path) ?? null) : null,
+  }));
+}
+
+// ============================================================================
+// CONVERSATION QUERIES
+// ============================================================================
+
+/**
+ * Fetches the current user's inbox, most recent conversation first
+ */
+async function fetchConversations(): Promise<ConversationSummary[]> {
+  const { data, error } = await supabase.rpc('get_conversations');
+
+  if (error) {
+    throw new Error(`Failed to fetch conversations: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * useConversations - Query hook for the current user's inbox
+ *
+ * @param enabled - Whether to run the query
+ */
+export function useConversations(enabled = true) {
+  return useQuery({
+    queryKey: messageQueryKeys.conversations(),
+    queryFn: fetchConversations,
+    enabled,
+  });
+}
+
+/**
+ * Fetches a conversation as seen by the current user
+ *
+ * @param conversationId - The conversation ID
+ */
+async function fetchConversation(conversationId: number): Promise<ConversationDetail> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('You must be logged in to view messages');
+  }
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(
+      `
+      *,
+      user_one:profiles!conversations_user_one_id_fkey(
+        id,
+        full_name,
+        avatar_url,
+        company_name
+      ),
+      user_two:profiles!conversations_user_two_id_fkey(
+        id,
+        full_name,
+        avatar_url,
+        company_name
+      ),
+      collaboration_request:collaboration_requests(
+        id,
+        type,
+        subject,
+        status,
+        meeting_format,
+        scheduled_start,
+        scheduled_end
+      )
+    `
+    )
+    .eq('id', conversationId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch conversation: ${error.message}`);
+  }
+
+  const isUserOne = data.user_one_id === user.id;
+
+  return {
+    id: data.id,
+    collaboration_request_id: data.collaboration_request_id,
+    collaboration_request: (data.collaboration_request ?? null) as ConversationRequest | null,
+    other_user: ((isUserOne ? data.user_two : data.user_one) ?? null) as MessageParticipant | null,
+    my_last_read_at: isUserOne ? data.user_one_last_read_at : data.user_two_last_read_at,
+    other_last_read_at: isUserOne ? data.user_two_last_read_at : data.user_one_last_read_at,
+    last_message_at: data.last_message_at,
+  };
+}
+
+/**
+ * useConversation - Query hook for a single conversation
+ *
+ * @param conversationId - The conversation ID
+ */
+export function useConversation(conversationId: number) {
+  return useQuery({
+    queryKey: messageQueryKeys.conversation(conversationId),
+    queryFn: () => fetchConversation(conversationId),
+    enabled: Number.isFinite(conversationId) && conversationId > 0,
+  });
+}
+
+/**
+ * Finds the current user's conversation with another member
+ *
+ * @param userId - The other member's profile ID
+ * @returns The conversation ID, or null if they have none yet
+ */
+async function fetchConversationWith(userId: string): Promise<number | null> {
+  // RLS only returns the current user's conversations, so any match is with them
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id')
+    .or(`user_one_id.eq.${userId},user_two_id.eq.${userId}`)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to find conversation: ${error.message}`);
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * useConversationWith - Query hook for the conversation with another member
+ *
+ * @param userId - The other member's profile ID
+ */
+export function useConversationWith(userId: string | null) {
+  return useQuery({
+    queryKey: messageQueryKeys.withUser(userId ?? ''),
+    queryFn: () => fetchConversationWith(userId!),
+    enabled: !!userId,
+  });
+}
+
+// ============================================================================
+// MESSAGE QUERIES
+// ============================================================================
+
+/**
+ * Fetches the latest messages of a conversation, oldest first
+ *
+ * @param conversationId - The conversation ID
+ */
+async function fetchMessages(conversationId: number): Promise<Message[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(MESSAGES_PAGE_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to fetch messages: ${error.message}`);
+  }
+
+  return withImageUrls(((data || []) as MessageRow[]).reverse());
+}
+
+/**
+ * useMessages - Query hook for the messages of a conversation
+ *
+ * @param conversationId - The conversation ID
+ */
+export function useMessages(conversationId: number) {
+  return useQuery({
+    queryKey: messageQueryKeys.list(conversationId),
+    queryFn: () => fetchMessages(conversationId),
+    enabled: Number.isFinite(conversationId) && conversationId > 0,
+  });
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * useSendMessage - Mutation hook for sending a message
+ *
+ * Uploads the image attachment (if any) to the conversation's folder in the
+ * private bucket, then inserts the message.
+ */
+export function useSendMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SendMessageInput) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to send a message');
+      }
+
+      const content = input.content?.trim() || null;
+      let imagePath: string | null = null;
+
+      if (input.image) {
+        const validation = validateFile(input.image);
+        if (!validation.valid) {
+          throw new Error(validation.message);
+        }
+
+        imagePath = `${input.conversation_id}/${generateFilePath(
+          'messageAttachments',
+          user.id,
+          input.image.name
+        )}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(STORAGE_BUCKETS.messageAttachments)
+          .upload(imagePath, input.image, { cacheControl: '3600', upsert: false });
+
+        if (uploadError) {
+          throw new Error(`Failed to upload image: ${uploadError.message}`);
+        }
+      }
+
+      if (!content && !imagePath) {
+        throw new Error('Message is empty');
+      }
+
+      const { data, error } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: input.conversation_id,
+          sender_id: user.id,
+          content,
+          image_path: imagePath,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to send message: ${error.message}`);
+      }
+
+      const [message] = await withImageUrls([data as MessageRow]);
+      return message;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<Message[]>(messageQueryKeys.list(message.conversation_id), (old) =>
+        old ? mergeMessage(old, message) : old
+      );
+      queryClient.invalidateQueries({
+        queryKey: messageQueryKeys.conversations(),
+        exact: true,
+      });
+    },
+  });
+}
+
+/**
+ * useMarkConversationRead - Mutation hook for marking a conversation as read
+ *
+ * The other participant receives the new read pointer through realtime.
+ */
+export function useMarkConversationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (conversationId: number) => {
+      const { error } = await supabase.rpc('mark_conversation_read', {
+        p_conversation_id: conversationId,
+      });
+
+      if (error) {
+        throw new Error(`Failed to mark conversation as read: ${error.message}`);
+      }
+
+      return conversationId;
+    },
+    onSuccess: (conversationId) => {
+      queryClient.setQueryData<ConversationSummary[]>(messageQueryKeys.conversations(), (old) =>
+        old?.map((conversation) =>
+          conversation.id === conversationId ? { ...conversation, unread_count: 0 } : conversation
+        )
+      );
+    },
+  });
+}
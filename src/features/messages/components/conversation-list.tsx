@@ -0,0 +1,156 @@
+'use client';
+
+/**
+ * Conversation List Component
+ *
+ * The inbox: one row per conversation with the other participant, a preview
+ * of the latest message, its time and the unread count.
+ */
+
+import * as React from 'react';
+import { useTranslations, useFormatter, useNow } from 'next-intl';
+import { ImageIcon, MessageCircle } from 'lucide-react';
+
+import { cn } from '@/lib/cn';
+import { getMessagePreview } from '@/lib/messages';
+import { Link } from '@/i18n/navigation';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EmptyState } from '@/components/common/empty-state';
+
+import type { ConversationSummary } from '../types';
+
+export interface ConversationListProps {
+  conversations: ConversationSummary[];
+  isLoading?: boolean;
+  /** ID of the logged-in user */
+  currentUserId?: string | null;
+  /** Highlighted conversation */
+  activeId?: number | null;
+  className?: string;
+}
+
+/**
+ * Gets the initials from a full name for avatar fallback
+ */
+function getInitials(name: string | null | undefined): string {
+  if (!name) return '?';
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return parts[0].slice(0, 2).toUpperCase();
+  }
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+export function ConversationList({
+  conversations,
+  isLoading = false,
+  currentUserId,
+  activeId,
+  className,
+}: ConversationListProps) {
+  const t = useTranslations('messages');
+  const format = useFormatter();
+  const now = useNow({ updateInterval: 60_000 });
+
+  if (isLoading) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        {Array.from({ length: 4 }, (_, index) => (
+          <div key={index} className="flex items-center gap-3 p-3">
+            <Skeleton className="h-12 w-12" rounded="full" />
+            <div className="flex-1 space-y-2">
+              <Skeleton className="h-4 w-1/3" rounded="md" />
+              <Skeleton className="h-3 w-2/3" rounded="md" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <EmptyState
+        icon={MessageCircle}
+        title={t('empty')}
+        description={t('emptyDescription')}
+        size="sm"
+        className={className}
+      />
+    );
+  }
+
+  return (
+    <ul className={cn('space-y-1', className)}>
+      {conversations.map((conversation) => {
+        const name = conversation.other_user_name || t('formerMember');
+        const isOwnLastMessage = conversation.last_message_sender_id === currentUserId;
+        const preview = conversation.last_message_content
+          ? getMessagePreview(conversation.last_message_content)
+          : conversation.last_message_has_image
+            ? t('photo')
+            : '';
+        const hasUnread = conversation.unread_count > 0;
+
+        return (
+          <li key={conversation.id}>
+            <Link
+              href={`/messages/${conversation.id}`}
+              className={cn(
+                'flex items-center gap-3 rounded-2xl p-3 transition-colors hover:bg-white/5',
+                activeId === conversation.id && 'bg-white/10 hover:bg-white/10'
+              )}
+            >
+              <Avatar size="md" className="shrink-0">
+                {conversation.other_user_avatar_url && (
+                  <AvatarImage src={conversation.other_user_avatar_url} alt={name} />
+                )}
+                <AvatarFallback>{getInitials(conversation.other_user_name)}</AvatarFallback>
+              </Avatar>
+
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className={cn('truncate text-white', hasUnread ? 'font-bold' : 'font-semibold')}>
+                    {name}
+                  </p>
+                  <time
+                    dateTime={conversation.last_message_at}
+                    className="shrink-0 text-xs text-muted"
+                  >
+                    {format.relativeTime(new Date(conversation.last_message_at), now)}
+                  </time>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p
+                    className={cn(
+                      'flex min-w-0 items-center gap-1 truncate text-sm',
+                      hasUnread ? 'text-white' : 'text-muted'
+                    )}
+                  >
+                    {conversation.last_message_has_image && !conversation.last_message_content && (
+                      <ImageIcon className="h-3.5 w-3.5 shrink-0" />
+                    )}
+                    <span className="truncate">
+                      {isOwnLastMessage ? t('youPrefix', { message: preview }) : preview}
+                    </span>
+                  </p>
+                  {hasUnread && (
+                    <span
+                      className="flex h-5 min-w-5 shrink-0 items-center justify-center rounded-full bg-primary px-1.5 text-[11px] font-bold text-white"
+                      aria-label={t('unread', { count: conversation.unread_count })}
+                    >
+                      {conversation.unread_count > 99 ? '99+' : conversation.unread_count}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default ConversationList;
@@ -0,0 +1,19 @@
+/**
+ * Messages Feature Components
+ *
+ * This file exports all components for the messages feature.
+ */
+
+export { ConversationList } from './conversation-list';
+export type { ConversationListProps } from './conversation-list';
+
+export { MessageThread } from './message-thread';
+export type { MessageThreadProps } from './message-thread';
+
+export { MessageBubble } from './message-bubble';
+export type { MessageBubbleProps } from './message-bubble';
+
+export { MessageComposer } from './message-composer';
+export type { MessageComposerProps } from './message-composer';
+
+export { MessagesButton } from './messages-button';
@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * Message Bubble Component
+ *
+ * A single message: text and/or image attachment, the time it was sent and,
+ * under the latest own message, whether the other participant has read it.
+ */
+
+import * as React from 'react';
+import { useTranslations, useFormatter } from 'next-intl';
+import { Check, CheckCheck } from 'lucide-react';
+
+import { cn } from '@/lib/cn';
+import type { Message } from '../types';
+
+export interface MessageBubbleProps {
+  message: Message;
+  /** Whether the current user sent the message */
+  isOwn: boolean;
+  /** Read receipt shown under the message (latest own message only) */
+  receipt?: 'sent' | 'read' | null;
+  className?: string;
+}
+
+export function MessageBubble({ message, isOwn, receipt = null, className }: MessageBubbleProps) {
+  const t = useTranslations('messages');
+  const format = useFormatter();
+
+  return (
+    <div className={cn('flex flex-col', isOwn ? 'items-end' : 'items-start', className)}>
+      <div
+        className={cn(
+          'max-w-[80%] overflow-hidden rounded-2xl sm:max-w-[70%]',
+          isOwn ? 'rounded-br-md bg-primary text-white' : 'rounded-bl-md bg-white/10 text-white'
+        )}
+      >
+        {message.image_path &&
+          (message.image_url ? (
+            <a href={message.image_url} target="_blank" rel="noopener noreferrer">
+              {/* eslint-disable-next-line @next/next/no-img-element -- signed URLs expire */}
+              <img
+                src={message.image_url}
+                alt={t('photo')}
+                className="max-h-80 w-full object-cover"
+                loading="lazy"
+              />
+            </a>
+          ) : (
+            <div className="flex h-32 w-48 items-center justify-center text-sm text-white/60">
+              {t('photoUnavailable')}
+            </div>
+          ))}
+        {message.content && (
+          <p className="whitespace-pre-wrap break-words px-4 py-2.5 text-[15px] leading-relaxed">
+            {message.content}
+          </p>
+        )}
+      </div>
+
+      <div className="mt-1 flex items-center gap-1 px-1 text-[11px] text-muted">
+        <time dateTime={message.created_at}>
+          {format.dateTime(new Date(message.created_at), { timeStyle: 'short' })}
+        </time>
+        {receipt === 'read' && (
+          <span className="flex items-center gap-0.5 text-primary">
+            <CheckCheck className="h-3.5 w-3.5" />
+            {t('read')}
+          </span>
+        )}
+        {receipt === 'sent' && (
+          <span className="flex items-center gap-0.5">
+            <Check className="h-3.5 w-3.5" />
+            {t('sent')}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MessageBubble;
@@ -0,0 +1,150 @@
+'use client';
+
+/**
+ * Message Composer Component
+ *
+ * Text input with an image attachment for a conversation.
+ * Enter sends, Shift+Enter adds a line break.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ImageIcon, SendHorizontal, X } from 'lucide-react';
+
+import { cn } from '@/lib/cn';
+import { MAX_MESSAGE_LENGTH } from '@/lib/messages';
+import { ALLOWED_IMAGE_TYPES, validateFile } from '@/lib/supabase/storage';
+import { Button } from '@/components/ui/button';
+
+import { useSendMessage } from '../api/queries';
+
+export interface MessageComposerProps {
+  conversationId: number;
+  className?: string;
+}
+
+export function MessageComposer({ conversationId, className }: MessageComposerProps) {
+  const t = useTranslations('messages.composer');
+  const sendMessage = useSendMessage();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [content, setContent] = React.useState('');
+  const [image, setImage] = React.useState<{ file: File; url: string } | null>(null);
+
+  // Release the preview URL when the image changes or the composer unmounts
+  React.useEffect(() => {
+    return () => {
+      if (image) URL.revokeObjectURL(image.url);
+    };
+  }, [image]);
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      toast.error(validation.error === 'file_too_large' ? t('imageTooLarge') : t('imageInvalid'));
+      return;
+    }
+
+    setImage({ file, url: URL.createObjectURL(file) });
+  };
+
+  const canSend = (!!content.trim() || !!image) && !sendMessage.isPending;
+
+  const handleSend = () => {
+    if (!canSend) return;
+
+    sendMessage.mutate(
+      { conversation_id: conversationId, content, image: image?.file ?? null },
+      {
+        onSuccess: () => {
+          setContent('');
+          setImage(null);
+        },
+        onError: () => toast.error(t('failed')),
+      }
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {/* Image preview */}
+      {image && (
+        <div className="relative inline-block">
+          {/* eslint-disable-next-line @next/next/no-img-element -- local object URL */}
+          <img
+            src={image.url}
+            alt={t('imagePreview')}
+            className="h-20 w-20 rounded-xl object-cover"
+          />
+          <button
+            type="button"
+            onClick={() => setImage(null)}
+            className="absolute -top-2 -right-2 flex h-6 w-6 items-center justify-center rounded-full bg-black/80 text-white"
+            aria-label={t('removeImage')}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ALLOWED_IMAGE_TYPES.join(',')}
+          onChange={handleImageSelect}
+          className="hidden"
+          aria-label={t('attachImage')}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={sendMessage.isPending}
+          aria-label={t('attachImage')}
+        >
+          <ImageIcon className="h-5 w-5" />
+        </Button>
+
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('placeholder')}
+          aria-label={t('placeholder')}
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={1}
+          className="max-h-40 min-h-10 flex-1 resize-none rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-[15px] text-white placeholder:text-muted focus:border-primary focus:outline-none [field-sizing:content]"
+        />
+
+        <Button
+          type="button"
+          variant="primary"
+          size="icon-sm"
+          onClick={handleSend}
+          disabled={!canSend}
+          loading={sendMessage.isPending}
+          aria-label={t('send')}
+        >
+          <SendHorizontal className="h-5 w-5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default MessageComposer;
@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * Message Thread Component
+ *
+ * An open conversation including:
+ * - The other participant in the header, with the booked coffee chat slot
+ *   and its .ics download
+ * - Messages grouped by day, newest at the bottom
+ * - Read receipt under the latest own message
+ * - Composer with image attachment
+ *
+ * New messages arrive through useRealtimeConversation; the conversation is
+ * marked as read when it is opened and whenever a message arrives.
+ */
+
+import * as React from 'react';
+import { useTranslations, useFormatter } from 'next-intl';
+import { ArrowLeft, CalendarClock } from 'lucide-react';
+
+import { cn } from '@/lib/cn';
+import { getLastReadMessageId } from '@/lib/messages';
+import { SEOUL_TIME_ZONE } from '@/lib/scheduling';
+import { isEngagedStatus } from '@/lib/collaboration-lifecycle';
+import { Link } from '@/i18n/navigation';
+import { useRealtimeConversation } from '@/hooks/use-realtime-conversation';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AddToCalendarButton } from '@/features/experts/components/add-to-calendar-button';
+
+import { useConversation, useMessages, useMarkConversationRead } from '../api/queries';
+import { MessageBubble } from './message-bubble';
+import { MessageComposer } from './message-composer';
+
+export interface MessageThreadProps {
+  conversationId: number;
+  /** ID of the logged-in user */
+  currentUserId: string | null;
+  className?: string;
+}
+
+/**
+ * Gets the initials from a full name for avatar fallback
+ */
+function getInitials(name: string | null | undefined): string {
+  if (!name) return '?';
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return parts[0].slice(0, 2).toUpperCase();
+  }
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+export function MessageThread({ conversationId, currentUserId, className }: MessageThreadProps) {
+  const t = useTranslations('messages');
+  const format = useFormatter();
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+
+  const { data: conversation, isLoading: isConversationLoading, isError } =
+    useConversation(conversationId);
+  const { data: messages = [], isLoading: isMessagesLoading } = useMessages(conversationId);
+  const { mutate: markRead } = useMarkConversationRead();
+
+  const handleNewMessage = React.useCallback(() => {
+    markRead(conversationId);
+  }, [markRead, conversationId]);
+
+  useRealtimeConversation(conversationId, {
+    enabled: !!currentUserId,
+    currentUserId,
+    onNewMessage: handleNewMessage,
+  });
+
+  // Mark as read when opened with unread messages
+  const myLastReadAt = conversation?.my_last_read_at;
+  const latestIncomingAt = React.useMemo(
+    () => [...messages].reverse().find((m) => m.sender_id !== currentUserId)?.created_at,
+    [messages, currentUserId]
+  );
+  React.useEffect(() => {
+    if (!myLastReadAt || !latestIncomingAt) return;
+    if (new Date(latestIncomingAt).getTime() > new Date(myLastReadAt).getTime()) {
+      markRead(conversationId);
+    }
+  }, [myLastReadAt, latestIncomingAt, markRead, conversationId]);
+
+  // Keep the newest message in view
+  React.useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages.length]);
+
+  const lastReadId = getLastReadMessageId(
+    messages,
+    currentUserId,
+    conversation?.other_last_read_at
+  );
+  const lastOwnId = [...messages].reverse().find((m) => m.sender_id === currentUserId)?.id;
+
+  const other = conversation?.other_user;
+  const otherName = other?.full_name || t('formerMember');
+  const booking =
+    conversation?.collaboration_request &&
+    isEngagedStatus(conversation.collaboration_request.status) &&
+    conversation.collaboration_request.scheduled_start
+      ? conversation.collaboration_request
+      : null;
+
+  if (isError) {
+    return (
+      <div className={cn('flex flex-col items-center justify-center gap-4 p-8 text-center', className)}>
+        <p className="text-muted">{t('notFound')}</p>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/messages">{t('backToInbox')}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex min-h-0 flex-col', className)}>
+      {/* Header */}
+      <div className="flex items-center gap-3 border-b border-white/[0.08] pb-4">
+        <Button variant="ghost" size="icon-sm" asChild className="lg:hidden">
+          <Link href="/messages" aria-label={t('backToInbox')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        {isConversationLoading ? (
+          <>
+            <Skeleton className="h-12 w-12" rounded="full" />
+            <Skeleton className="h-5 w-40" rounded="md" />
+          </>
+        ) : (
+          <>
+            <Avatar size="md" className="shrink-0">
+              {other?.avatar_url && <AvatarImage src={other.avatar_url} alt={otherName} />}
+              <AvatarFallback>{getInitials(other?.full_name)}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="truncate font-semibold text-white">{otherName}</p>
+              {other?.company_name && (
+                <p className="truncate text-sm text-muted">{other.company_name}</p>
+              )}
+            </div>
+            {booking && (
+              <div className="ml-auto flex shrink-0 items-center gap-3">
+                <p className="hidden items-center gap-1.5 text-sm text-white sm:flex">
+                  <CalendarClock className="h-4 w-4 text-primary" />
+                  {format.dateTime(new Date(booking.scheduled_start!), {
+                    dateStyle: 'medium',
+                    timeStyle: 'short',
+                    timeZone: SEOUL_TIME_ZONE,
+                  })}
+                </p>
+                <AddToCalendarButton request={booking} otherName={otherName} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Messages */}
+      <div ref={scrollRef} className="min-h-0 flex-1 space-y-3 overflow-y-auto py-4">
+        {isMessagesLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-2/3" rounded="2xl" />
+            <Skeleton className="ml-auto h-12 w-1/2" rounded="2xl" />
+            <Skeleton className="h-20 w-3/5" rounded="2xl" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted">{t('noMessages')}</p>
+        ) : (
+          messages.map((message, index) => {
+            const day = new Date(message.created_at).toDateString();
+            const showDay =
+              index === 0 || new Date(messages[index - 1].created_at).toDateString() !== day;
+            const isOwn = message.sender_id === currentUserId;
+
+            return (
+              <React.Fragment key={message.id}>
+                {showDay && (
+                  <p className="py-2 text-center text-xs text-muted">
+                    {format.dateTime(new Date(message.created_at), { dateStyle: 'medium' })}
+                  </p>
+                )}
+                <MessageBubble
+                  message={message}
+                  isOwn={isOwn}
+                  receipt={
+                    isOwn && message.id === lastOwnId
+                      ? message.id === lastReadId
+                        ? 'read'
+                        : 'sent'
+                      : null
+                  }
+                />
+              </React.Fragment>
+            );
+          })
+        )}
+      </div>
+
+      {/* Composer */}
+      <MessageComposer
+        conversationId={conversationId}
+        className="border-t border-white/[0.08] pt-4"
+      />
+    </div>
+  );
+}
+
+export default MessageThread;
@@ -0,0 +1,34 @@
+'use client';
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { MessageCircle } from 'lucide-react';
+import { Link } from '@/i18n/navigation';
+import { useRealtimeMessages } from '@/hooks/use-realtime-messages';
+
+/**
+ * MessagesButton
+ *
+ * Header link to the inbox with the unread message count from the realtime
+ * subscription.
+ */
+export function MessagesButton() {
+  const navT = useTranslations('navigation');
+  const { unreadCount } = useRealtimeMessages();
+
+  return (
+    <Link
+      href="/messages"
+      className="relative inline-flex h-10 w-10 items-center justify-center rounded-full text-[#8B95A1] transition-colors hover:text-white"
+      aria-label={navT('messages')}
+    >
+      <MessageCircle className="h-6 w-6" />
+      {/* Unread badge - shows unread count from realtime subscription */}
+      {unreadCount > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 h-5 w-5 bg-[#FF453A] rounded-full text-[11px] font-bold flex items-center justify-center text-white">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+}
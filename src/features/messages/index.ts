@@ -0,0 +1,38 @@
+/**
+ * Messages Feature
+ *
+ * 1:1 conversations between members. A conversation opens when a
+ * collaboration or coffee chat request is accepted.
+ */
+
+// Components
+export {
+  ConversationList,
+  MessageThread,
+  MessageBubble,
+  MessageComposer,
+  MessagesButton,
+} from './components';
+
+// API hooks
+export {
+  useConversations,
+  useConversation,
+  useConversationWith,
+  useMessages,
+  useSendMessage,
+  useMarkConversationRead,
+} from './api';
+
+// Types
+export type {
+  Conversation,
+  ConversationSummary,
+  ConversationDetail,
+  Message,
+  MessageRow,
+  MessageParticipant,
+  SendMessageInput,
+} from './types';
+
+export { messageQueryKeys } from './types';
@@ -0,0 +1,86 @@
+/**
+ * Messages Feature Types
+ *
+ * TypeScript types for 1:1 conversations between members.
+ */
+
+import type { Database } from '@/types/database';
+
+/**
+ * Conversation entity from the database
+ */
+export type Conversation = Database['public']['Tables']['conversations']['Row'];
+
+/**
+ * Message entity from the database
+ */
+export type MessageRow = Database['public']['Tables']['messages']['Row'];
+
+/**
+ * Message with a signed URL for its image attachment
+ */
+export interface Message extends MessageRow {
+  image_url: string | null;
+}
+
+/**
+ * Public profile of a conversation participant
+ */
+export interface MessageParticipant {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  company_name: string | null;
+}
+
+/**
+ * Inbox entry: the other participant, the latest message and unread count
+ */
+export type ConversationSummary =
+  Database['public']['Functions']['get_conversations']['Returns'][number];
+
+/**
+ * Conversation as seen by the current user
+ */
+export interface ConversationDetail {
+  id: number;
+  collaboration_request_id: number | null;
+  /** The accepted request that opened the conversation, with its booked slot */
+  collaboration_request: ConversationRequest | null;
+  other_user: MessageParticipant | null;
+  /** When the current user last read the conversation */
+  my_last_read_at: string;
+  /** When the other participant last read the conversation (read receipts) */
+  other_last_read_at: string;
+  last_message_at: string;
+}
+
+/**
+ * The request behind a conversation; coffee chats carry the booked slot
+ */
+export type ConversationRequest = Pick<
+  Database['public']['Tables']['collaboration_requests']['Row'],
+  'id' | 'type' | 'subject' | 'status' | 'meeting_format' | 'scheduled_start' | 'scheduled_end'
+>;
+
+/**
+ * Input for sending a message (text, image or both)
+ */
+export interface SendMessageInput {
+  conversation_id: number;
+  content?: string;
+  image?: File | null;
+}
+
+/**
+ * Query key factory for messages
+ */
+export const messageQueryKeys = {
+  all: ['messages'] as const,
+  conversations: () => [...messageQueryKeys.all, 'conversations'] as const,
+  conversation: (id: number) => [...messageQueryKeys.conversations(), id] as const,
+  list: (conversationId: number) =>
+    [...messageQueryKeys.conversation(conversationId), 'messages'] as const,
+  withUser: (userId: string) => [...messageQueryKeys.all, 'with', userId] as const,
+  unreadCount: () => [...messageQueryKeys.all, 'unread-count'] as const,
+} as const;
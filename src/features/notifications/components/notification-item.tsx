@@ -3,13 +3,18 @@
 import * as React from 'react';
 import { useTranslations } from 'next-intl';
 import {
+  AtSign,
   MessageCircle,
+  Reply,
   Heart,
+  Repeat2,
+  UserPlus,
   Users,
   CheckCircle,
   XCircle,
   Bell,
   Megaphone,
+  EyeOff,
   type LucideIcon,
 } from 'lucide-react';
 import { cn } from '@/lib/cn';
@@ -30,7 +35,12 @@ const notificationConfig: Record<
   expert_approved: { icon: CheckCircle, color: 'text-emerald-400' },
   expert_rejected: { icon: XCircle, color: 'text-[#FF453A]' },
   new_comment: { icon: MessageCircle, color: 'text-[#0079FF]' },
+  new_reply: { icon: Reply, color: 'text-[#0079FF]' },
   new_like: { icon: Heart, color: 'text-pink-400' },
+  new_repost: { icon: Repeat2, color: 'text-emerald-400' },
+  mention: { icon: AtSign, color: 'text-[#0079FF]' },
+  new_follower: { icon: UserPlus, color: 'text-[#0079FF]' },
+  content_hidden: { icon: EyeOff, color: 'text-orange-400' },
   new_collaboration_request: { icon: Users, color: 'text-[#0079FF]' },
   collaboration_accepted: { icon: CheckCircle, color: 'text-emerald-400' },
   collaboration_declined: { icon: XCircle, color: 'text-orange-400' },
@@ -9,7 +9,11 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
-import type { Author, PostWithAuthor } from '@/features/community/types';
+import { toMentionedUsers, toPostAttachments, toQuotedPost } from '@/features/community/api/queries';
+import { postQueryKeys } from '@/features/community/types';
+import type { Author, PostWithAuthor, ReactionType } from '@/features/community/types';
+import { toReactionCounts } from '@/lib/reactions';
+import type { CollaborationStatus } from '@/lib/collaboration-lifecycle';
 
 // ============================================================================
 // TYPES
@@ -32,6 +36,23 @@ export interface UserComment {
   post_author_name: string | null;
 }
 
+/**
+ * Public profile of another member, looked up by username
+ */
+export interface MemberProfile {
+  id: string;
+  username: string | null;
+  nickname: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  company_name: string | null;
+  follower_count: number;
+  following_count: number;
+  /** Whether the current user follows this member */
+  is_following: boolean;
+}
+
 export interface BookmarkedProgram {
   id: number;
   bookmarkable_id: number;
@@ -88,7 +109,8 @@ export interface LikedPost extends LikedItem {
     like_count: number;
     comment_count: number;
     created_at: string;
-    author: Author;
+    /** Null for anonymous posts */
+    author: Author | null;
   } | null;
 }
 
@@ -96,22 +118,42 @@ export interface LikedPost extends LikedItem {
 // QUERY KEYS
 // ============================================================================
 
-export interface ReceivedCollaborationRequest {
+interface CollaborationParticipant {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  company_name: string | null;
+}
+
+interface ProfileCollaborationRequest {
   id: number;
   sender_id: string;
+  recipient_id: string;
   type: 'coffee_chat' | 'collaboration';
   subject: string;
   message: string;
   contact_info: string | null;
-  status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+  status: CollaborationStatus;
   response_message: string | null;
+  meeting_format: 'video_call' | 'phone' | 'in_person' | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  scope: string | null;
+  budget_min: number | null;
+  budget_max: number | null;
+  timeline_start: string | null;
+  timeline_end: string | null;
+  proposed_by: string | null;
+  proposal_updated_at: string | null;
   created_at: string;
-  sender: {
-    id: string;
-    full_name: string | null;
-    avatar_url: string | null;
-    company_name: string | null;
-  };
+}
+
+export interface ReceivedCollaborationRequest extends ProfileCollaborationRequest {
+  sender: CollaborationParticipant;
+}
+
+export interface SentCollaborationRequest extends ProfileCollaborationRequest {
+  recipient: CollaborationParticipant;
 }
 
 export const profileQueryKeys = {
@@ -122,8 +164,65 @@ export const profileQueryKeys = {
   likes: (userId: string) => [...profileQueryKeys.all, 'likes', userId] as const,
   bookmarks: (userId: string) => [...profileQueryKeys.all, 'bookmarks', userId] as const,
   collaborations: (userId: string) => [...profileQueryKeys.all, 'collaborations', userId] as const,
+  member: (username: string) => [...profileQueryKeys.all, 'member', username] as const,
 } as const;
 
+// ============================================================================
+// MEMBER PROFILE
+// ============================================================================
+
+/**
+ * Fetches a member's public profile by username (null if not found)
+ */
+async function fetchMemberProfile(username: string): Promise<MemberProfile | null> {
+  let user = null;
+  try {
+    const { data } = await supabase.auth.getUser();
+    user = data.user;
+  } catch {
+    // Anonymous user — never following
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(
+      'id, username, nickname, full_name, avatar_url, bio, company_name, follower_count, following_count'
+    )
+    .eq('username', username.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch member profile: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  let isFollowing = false;
+  if (user && user.id !== data.id) {
+    const { data: follow } = await supabase
+      .from('follows')
+      .select('following_id')
+      .eq('follower_id', user.id)
+      .eq('following_id', data.id)
+      .maybeSingle();
+
+    isFollowing = !!follow;
+  }
+
+  return { ...data, is_following: isFollowing };
+}
+
+/**
+ * useMemberProfile - Query hook for a member's public profile
+ */
+export function useMemberProfile(username: string | undefined) {
+  return useQuery({
+    queryKey: profileQueryKeys.member(username ?? ''),
+    queryFn: () => fetchMemberProfile(username!),
+    enabled: !!username,
+  });
+}
+
 // ============================================================================
 // ACTIVITY STATS
 // ============================================================================
@@ -138,12 +237,14 @@ async function fetchUserActivity(userId: string): Promise<UserActivityStats> {
       .from('posts')
       .select('id', { count: 'exact', head: true })
       .eq('author_id', userId)
-      .eq('is_hidden', false),
+      .eq('is_hidden', false)
+      .eq('status', 'published'),
     supabase
       .from('comments')
       .select('id', { count: 'exact', head: true })
       .eq('author_id', userId)
-      .eq('is_hidden', false),
+      .eq('is_hidden', false)
+      .is('deleted_at', null),
     supabase
       .from('likes')
       .select('id', { count: 'exact', head: true })
@@ -190,21 +291,59 @@ async function fetchUserPosts(userId: string): Promise<PostWithAuthor[]> {
       content,
       media_urls,
       like_count,
+      reaction_counts,
       comment_count,
+      repost_count,
       is_pinned,
+      pinned_until,
+      is_notice,
+      is_anonymous,
       is_hidden,
       created_at,
       updated_at,
+      edited_at,
+      quoted_post_id,
+      is_quote,
       author:profiles!author_id(
         id,
         full_name,
         avatar_url,
         company_name
+      ),
+      quoted_post:posts!quoted_post_id(
+        id,
+        content,
+        media_urls,
+        created_at,
+        is_anonymous,
+        author:profiles!author_id(
+          id,
+          full_name,
+          avatar_url,
+          company_name
+        )
+      ),
+      mentions(
+        user:profiles!mentioned_user_id(
+          id,
+          username
+        )
+      ),
+      poll:polls(id),
+      attachments:post_attachments(
+        id,
+        file_name,
+        mime_type,
+        size_bytes,
+        storage_path,
+        position
       )
     `
     )
     .eq('author_id', userId)
     .eq('is_hidden', false)
+    // Drafts are listed separately (useDrafts)
+    .eq('status', 'published')
     .order('created_at', { ascending: false })
     .limit(50);
 
@@ -212,15 +351,15 @@ async function fetchUserPosts(userId: string): Promise<PostWithAuthor[]> {
     throw new Error(`Failed to fetch user posts: ${error.message}`);
   }
 
-  // Check which posts the user has liked and bookmarked
+  // Check which posts the user has reacted to and bookmarked
   const postIds = (rawPosts || []).map((p) => p.id);
-  let likedPostIds = new Set<number>();
+  let reactionByPostId = new Map<number, ReactionType>();
   let bookmarkedPostIds = new Set<number>();
   if (postIds.length > 0) {
     const [likesResult, bookmarksResult] = await Promise.all([
       supabase
         .from('likes')
-        .select('likeable_id')
+        .select('likeable_id, reaction')
         .eq('likeable_type', 'post')
         .eq('user_id', userId)
         .in('likeable_id', postIds),
@@ -231,7 +370,7 @@ async function fetchUserPosts(userId: string): Promise<PostWithAuthor[]> {
         .eq('user_id', userId)
         .in('bookmarkable_id', postIds),
     ]);
-    likedPostIds = new Set(likesResult.data?.map((l) => l.likeable_id) || []);
+    reactionByPostId = new Map(likesResult.data?.map((l) => [l.likeable_id, l.reaction]) || []);
     bookmarkedPostIds = new Set(bookmarksResult.data?.map((b) => b.bookmarkable_id) || []);
   }
 
@@ -241,14 +380,27 @@ async function fetchUserPosts(userId: string): Promise<PostWithAuthor[]> {
     content: post.content,
     media_urls: post.media_urls || [],
     like_count: post.like_count,
+    reaction_counts: toReactionCounts(post.reaction_counts),
     comment_count: post.comment_count,
+    repost_count: post.repost_count,
     is_pinned: post.is_pinned,
+    pinned_until: post.pinned_until,
+    is_notice: post.is_notice,
+    is_anonymous: post.is_anonymous,
     is_hidden: post.is_hidden,
     created_at: post.created_at,
     updated_at: post.updated_at,
-    author: post.author as Author,
-    is_liked: likedPostIds.has(post.id),
+    edited_at: post.edited_at,
+    quoted_post_id: post.quoted_post_id,
+    is_quote: post.is_quote,
+    author: post.author as Author | null,
+    is_liked: reactionByPostId.has(post.id),
+    my_reaction: reactionByPostId.get(post.id) ?? null,
     is_bookmarked: bookmarkedPostIds.has(post.id),
+    mentions: toMentionedUsers(post.mentions),
+    poll_id: post.poll?.id ?? null,
+    attachments: toPostAttachments(post.attachments),
+    quoted_post: toQuotedPost(post.quoted_post),
   }));
 }
 
@@ -290,6 +442,7 @@ async function fetchUserComments(userId: string): Promise<UserComment[]> {
     )
     .eq('author_id', userId)
     .eq('is_hidden', false)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false })
     .limit(50);
 
@@ -385,7 +538,7 @@ async function fetchUserLikes(userId: string): Promise<LikedPost[]> {
         like_count: p.like_count,
         comment_count: p.comment_count,
         created_at: p.created_at,
-        author: p.author as Author,
+        author: p.author as Author | null,
       },
     ])
   );
@@ -480,16 +633,52 @@ async function fetchUserBookmarks(userId: string): Promise<UserBookmarks> {
         content,
         media_urls,
         like_count,
+        reaction_counts,
         comment_count,
+        repost_count,
         is_pinned,
+        pinned_until,
+        is_notice,
+        is_anonymous,
         is_hidden,
         created_at,
         updated_at,
+        edited_at,
+        quoted_post_id,
+        is_quote,
         author:profiles!author_id(
           id,
           full_name,
           avatar_url,
           company_name
+        ),
+        quoted_post:posts!quoted_post_id(
+          id,
+          content,
+          media_urls,
+          created_at,
+          is_anonymous,
+          author:profiles!author_id(
+            id,
+            full_name,
+            avatar_url,
+            company_name
+          )
+        ),
+        mentions(
+          user:profiles!mentioned_user_id(
+            id,
+            username
+          )
+        ),
+        poll:polls(id),
+        attachments:post_attachments(
+          id,
+          file_name,
+          mime_type,
+          size_bytes,
+          storage_path,
+          position
         )
       `
       )
@@ -505,14 +694,27 @@ async function fetchUserBookmarks(userId: string): Promise<UserBookmarks> {
           content: p.content,
           media_urls: p.media_urls || [],
           like_count: p.like_count,
+          reaction_counts: toReactionCounts(p.reaction_counts),
           comment_count: p.comment_count,
+          repost_count: p.repost_count,
           is_pinned: p.is_pinned,
+          pinned_until: p.pinned_until,
+          is_notice: p.is_notice,
+          is_anonymous: p.is_anonymous,
           is_hidden: p.is_hidden,
           created_at: p.created_at,
           updated_at: p.updated_at,
-          author: p.author as Author,
+          edited_at: p.edited_at,
+          quoted_post_id: p.quoted_post_id,
+          is_quote: p.is_quote,
+          author: p.author as Author | null,
           is_liked: false,
+          my_reaction: null,
           is_bookmarked: true,
+          mentions: toMentionedUsers(p.mentions),
+          poll_id: p.poll?.id ?? null,
+          attachments: toPostAttachments(p.attachments),
+          quoted_post: toQuotedPost(p.quoted_post),
         } as PostWithAuthor,
       ])
     );
@@ -542,9 +744,32 @@ export function useUserBookmarks(userId: string | undefined) {
 }
 
 // ============================================================================
-// RECEIVED COLLABORATION REQUESTS (for expert profiles)
+// COLLABORATION REQUESTS (received by experts, sent by members)
 // ============================================================================
 
+const COLLABORATION_REQUEST_COLUMNS = `
+  id,
+  sender_id,
+  recipient_id,
+  type,
+  subject,
+  message,
+  contact_info,
+  status,
+  response_message,
+  meeting_format,
+  scheduled_start,
+  scheduled_end,
+  scope,
+  budget_min,
+  budget_max,
+  timeline_start,
+  timeline_end,
+  proposed_by,
+  proposal_updated_at,
+  created_at
+`;
+
 /**
  * Fetches collaboration requests received by the user, with sender profile info
  */
@@ -555,15 +780,7 @@ async function fetchReceivedCollaborationRequests(
     .from('collaboration_requests')
     .select(
       `
-      id,
-      sender_id,
-      type,
-      subject,
-      message,
-      contact_info,
-      status,
-      response_message,
-      created_at,
+      ${COLLABORATION_REQUEST_COLUMNS},
       sender:profiles!sender_id(
         id,
         full_name,
@@ -579,18 +796,36 @@ async function fetchReceivedCollaborationRequests(
     throw new Error(`Failed to fetch collaboration requests: ${error.message}`);
   }
 
-  return (data || []).map((item) => ({
-    id: item.id,
-    sender_id: item.sender_id,
-    type: item.type as 'coffee_chat' | 'collaboration',
-    subject: item.subject,
-    message: item.message,
-    contact_info: item.contact_info,
-    status: item.status as 'pending' | 'accepted' | 'declined' | 'cancelled',
-    response_message: item.response_message,
-    created_at: item.created_at,
-    sender: item.sender as unknown as ReceivedCollaborationRequest['sender'],
-  }));
+  return (data || []) as unknown as ReceivedCollaborationRequest[];
+}
+
+/**
+ * Fetches collaboration requests the user sent, with recipient profile info
+ */
+async function fetchSentCollaborationRequests(
+  userId: string
+): Promise<SentCollaborationRequest[]> {
+  const { data, error } = await supabase
+    .from('collaboration_requests')
+    .select(
+      `
+      ${COLLABORATION_REQUEST_COLUMNS},
+      recipient:profiles!recipient_id(
+        id,
+        full_name,
+        avatar_url,
+        company_name
+      )
+    `
+    )
+    .eq('sender_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch sent collaboration requests: ${error.message}`);
+  }
+
+  return (data || []) as unknown as SentCollaborationRequest[];
 }
 
 /**
@@ -604,6 +839,17 @@ export function useReceivedCollaborationRequests(userId: string | undefined) {
   });
 }
 
+/**
+ * useSentCollaborationRequests - Query hook for the user's sent collaboration requests
+ */
+export function useSentCollaborationRequests(userId: string | undefined) {
+  return useQuery({
+    queryKey: [...profileQueryKeys.collaborations(userId ?? ''), 'sent'],
+    queryFn: () => fetchSentCollaborationRequests(userId!),
+    enabled: !!userId,
+  });
+}
+
 // ============================================================================
 // UNBOOKMARK MUTATION
 // ============================================================================
@@ -654,3 +900,98 @@ export function useUnbookmarkMutation() {
     },
   });
 }
+
+// ============================================================================
+// FOLLOW MUTATION
+// ============================================================================
+
+/**
+ * useFollowMutation - Mutation for following/unfollowing a member
+ *
+ * Features:
+ * - Optimistic update of the member profile (status and follower count)
+ * - Automatic rollback on error
+ * - Refetches the feeds so the Following tab picks up the change
+ */
+export function useFollowMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      member,
+      isCurrentlyFollowing,
+    }: {
+      member: Pick<MemberProfile, 'id' | 'username'>;
+      isCurrentlyFollowing: boolean;
+    }) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to follow members');
+      }
+
+      if (isCurrentlyFollowing) {
+        const { error } = await supabase
+          .from('follows')
+          .delete()
+          .eq('follower_id', user.id)
+          .eq('following_id', member.id);
+
+        if (error) {
+          throw new Error(`Failed to unfollow: ${error.message}`);
+        }
+
+        return { action: 'unfollowed' as const, member };
+      } else {
+        const { error } = await supabase.from('follows').insert({
+          follower_id: user.id,
+          following_id: member.id,
+        });
+
+        if (error) {
+          throw new Error(`Failed to follow: ${error.message}`);
+        }
+
+        return { action: 'followed' as const, member };
+      }
+    },
+    onMutate: async ({ member, isCurrentlyFollowing }) => {
+      if (!member.username) return { previousMember: undefined };
+
+      const queryKey = profileQueryKeys.member(member.username);
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousMember = queryClient.getQueryData<MemberProfile | null>(queryKey);
+
+      queryClient.setQueryData<MemberProfile | null>(queryKey, (old) =>
+        old
+          ? {
+              ...old,
+              is_following: !isCurrentlyFollowing,
+              follower_count: Math.max(0, old.follower_count + (isCurrentlyFollowing ? -1 : 1)),
+            }
+          : old
+      );
+
+      return { previousMember };
+    },
+    onError: (_err, variables, context) => {
+      if (variables.member.username && context?.previousMember !== undefined) {
+        queryClient.setQueryData(
+          profileQueryKeys.member(variables.member.username),
+          context.previousMember
+        );
+      }
+    },
+    onSettled: (_data, _err, variables) => {
+      if (variables.member.username) {
+        queryClient.invalidateQueries({
+          queryKey: profileQueryKeys.member(variables.member.username),
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: postQueryKeys.lists() });
+    },
+  });
+}
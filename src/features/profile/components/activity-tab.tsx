@@ -7,12 +7,15 @@
  * - My Posts: posts created by the user
  * - My Comments: comments on posts with parent post reference
  * - My Likes: posts liked by the user
+ * - Drafts: the user's own drafts and scheduled posts (own profile only),
+ *   continued in PostComposer
  *
  * Includes loading skeletons and empty states.
  */
 
 import * as React from 'react';
-import { useTranslations } from 'next-intl';
+import { useTranslations, useFormatter } from 'next-intl';
+import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
 import {
   MessageCircle,
@@ -20,6 +23,10 @@ import {
   FileText,
   ThumbsUp,
   ArrowRight,
+  FilePen,
+  CalendarClock,
+  Pencil,
+  Trash2,
 } from 'lucide-react';
 
 import { cn } from '@/lib/cn';
@@ -27,17 +34,37 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { EmptyState } from '@/components/common/empty-state';
+import { useAuth } from '@/hooks/use-auth';
 
 import { useUserPosts, useUserComments, useUserLikes } from '../api/queries';
-import type { PostWithAuthor } from '@/features/community/types';
+import { useDrafts, useDeletePost } from '@/features/community/api';
+import { PostComposer } from '@/features/community/components';
+import type { DraftPost, PostWithAuthor } from '@/features/community/types';
 import type { UserComment, LikedPost } from '../api/queries';
 
 // ============================================================================
 // HELPERS
 // ============================================================================
 
-function getInitials(name: string | null): string {
+function getInitials(name: string | null | undefined): string {
   if (!name) return '?';
   const parts = name.trim().split(/\s+/);
   if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
@@ -195,6 +222,68 @@ function LikedPostItem({ item }: { item: LikedPost }) {
   );
 }
 
+// ============================================================================
+// DRAFT ITEM
+// ============================================================================
+
+interface DraftItemProps {
+  draft: DraftPost;
+  onEdit: (draft: DraftPost) => void;
+  onDelete: (draft: DraftPost) => void;
+}
+
+function DraftItem({ draft, onEdit, onDelete }: DraftItemProps) {
+  const t = useTranslations('profile.activityTab');
+  const format = useFormatter();
+
+  return (
+    <div className="rounded-2xl border border-white/[0.08] bg-white/[0.02] p-4 transition-colors hover:bg-white/[0.04]">
+      <div className="flex items-center gap-2">
+        {draft.status === 'scheduled' && draft.publish_at ? (
+          <Badge variant="info" size="sm">
+            <CalendarClock />
+            {t('scheduledFor', {
+              time: format.dateTime(new Date(draft.publish_at), {
+                dateStyle: 'medium',
+                timeStyle: 'short',
+              }),
+            })}
+          </Badge>
+        ) : (
+          <Badge variant="muted" size="sm">
+            {t('draft')}
+          </Badge>
+        )}
+        <span className="text-xs text-muted">{timeAgo(draft.updated_at)}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onEdit(draft)}
+            aria-label={t('editDraft')}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onDelete(draft)}
+            aria-label={t('deleteDraft')}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <p className="mt-2 whitespace-pre-wrap text-sm text-gray-300 line-clamp-3">{draft.content}</p>
+      {draft.media_urls.length > 0 && (
+        <p className="mt-2 text-xs text-muted">
+          {t('draftImages', { count: draft.media_urls.length })}
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -207,10 +296,29 @@ interface ActivityTabProps {
 export function ActivityTab({ userId, className }: ActivityTabProps) {
   const t = useTranslations('profile');
   const tCommon = useTranslations('common');
+  const { user } = useAuth();
+  // Drafts are private; only the owner sees the tab
+  const isOwnProfile = !!user && user.id === userId;
+  const [editingDraft, setEditingDraft] = React.useState<DraftPost | null>(null);
+  const [deletingDraft, setDeletingDraft] = React.useState<DraftPost | null>(null);
 
   const { data: posts, isLoading: postsLoading } = useUserPosts(userId);
   const { data: comments, isLoading: commentsLoading } = useUserComments(userId);
   const { data: likes, isLoading: likesLoading } = useUserLikes(userId);
+  const { data: drafts, isLoading: draftsLoading } = useDrafts(
+    isOwnProfile ? userId : undefined
+  );
+  const deletePost = useDeletePost();
+
+  const handleConfirmDelete = () => {
+    if (!deletingDraft) return;
+
+    deletePost.mutate(deletingDraft.id, {
+      onSuccess: () => toast.success(t('activityTab.draftDeleted')),
+      onError: () => toast.error(tCommon('error')),
+      onSettled: () => setDeletingDraft(null),
+    });
+  };
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -237,6 +345,15 @@ export function ActivityTab({ userId, className }: ActivityTabProps) {
               <Badge variant="default" size="sm">{likes.length}</Badge>
             )}
           </TabsTrigger>
+          {isOwnProfile && (
+            <TabsTrigger value="drafts" className="flex items-center gap-2">
+              <FilePen className="h-4 w-4" />
+              {t('activity.drafts')}
+              {drafts && drafts.length > 0 && (
+                <Badge variant="default" size="sm">{drafts.length}</Badge>
+              )}
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* Posts Tab */}
@@ -302,7 +419,76 @@ export function ActivityTab({ userId, className }: ActivityTabProps) {
             />
           )}
         </TabsContent>
+
+        {/* Drafts Tab */}
+        {isOwnProfile && (
+          <TabsContent value="drafts" className="mt-4">
+            {draftsLoading ? (
+              <ActivityListSkeleton />
+            ) : drafts && drafts.length > 0 ? (
+              <div className="space-y-3">
+                {drafts.map((draft) => (
+                  <DraftItem
+                    key={draft.id}
+                    draft={draft}
+                    onEdit={setEditingDraft}
+                    onDelete={setDeletingDraft}
+                  />
+                ))}
+              </div>
+            ) : (
+              <EmptyState
+                type="posts"
+                title={t('activityTab.noDrafts')}
+                description={t('activityTab.noDraftsDescription')}
+                size="sm"
+                bordered
+              />
+            )}
+          </TabsContent>
+        )}
       </Tabs>
+
+      {/* Continue a draft */}
+      <Dialog open={!!editingDraft} onOpenChange={(open) => !open && setEditingDraft(null)}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{t('activityTab.editDraft')}</DialogTitle>
+          </DialogHeader>
+          {editingDraft && (
+            <PostComposer
+              key={editingDraft.id}
+              draft={editingDraft}
+              onSuccess={() => setEditingDraft(null)}
+              onCancel={() => setEditingDraft(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog
+        open={!!deletingDraft}
+        onOpenChange={(open) => !open && setDeletingDraft(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('activityTab.deleteDraftConfirm')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('activityTab.deleteDraftDescription')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{tCommon('cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-error text-white hover:bg-error/90"
+            >
+              {deletePost.isPending ? tCommon('loading') : tCommon('delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -40,7 +40,7 @@ import type { BookmarkedProgram, BookmarkedPost } from '../api/queries';
 // HELPERS
 // ============================================================================
 
-function getInitials(name: string | null): string {
+function getInitials(name: string | null | undefined): string {
   if (!name) return '?';
   const parts = name.trim().split(/\s+/);
   if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
@@ -3,15 +3,22 @@
 /**
  * Collaborations Tab Component
  *
- * Displays collaboration requests received by expert users:
- * - Pending: requests awaiting response with Accept/Decline actions
- * - All: all requests regardless of status
+ * Displays the user's collaboration requests and moves them through their
+ * lifecycle:
+ * - Pending: received requests awaiting response with Accept/Decline actions
+ * - Received: all received requests regardless of status
+ * - Sent: requests the user sent to experts
+ * - Status actions for each side (start work, complete, dispute, cancel)
+ * - Structured proposal (scope, budget, timeline) either side can update
+ *   until work starts
+ * - Timeline of every state change with who made it
+ * - Booked coffee chat slots (Seoul time) with an .ics download once accepted
  *
  * Includes loading skeletons, empty states, and toast feedback.
  */
 
 import * as React from 'react';
-import { useTranslations } from 'next-intl';
+import { useTranslations, useFormatter } from 'next-intl';
 import { formatDistanceToNow } from 'date-fns';
 import {
   Coffee,
@@ -20,25 +27,73 @@ import {
   CheckCircle,
   XCircle,
   Ban,
+  MessageCircle,
+  CalendarClock,
+  PlayCircle,
+  CheckCheck,
+  AlertTriangle,
+  History,
+  Pencil,
+  Send,
+  Inbox,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { cn } from '@/lib/cn';
+import { SEOUL_TIME_ZONE, pickerDateFromDateKey } from '@/lib/scheduling';
+import {
+  canEditProposal,
+  getAllowedTransitions,
+  isEngagedStatus,
+  type CollaborationRole,
+  type CollaborationStatus,
+} from '@/lib/collaboration-lifecycle';
+import { Link } from '@/i18n/navigation';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { EmptyState } from '@/components/common/empty-state';
 
 import {
   useReceivedCollaborationRequests,
+  useSentCollaborationRequests,
   profileQueryKeys,
 } from '../api/queries';
-import type { ReceivedCollaborationRequest } from '../api/queries';
-import { useRespondToCollaboration } from '@/features/experts/api/queries';
+import type {
+  ReceivedCollaborationRequest,
+  SentCollaborationRequest,
+} from '../api/queries';
+import {
+  useRespondToCollaboration,
+  useTransitionCollaboration,
+  useCollaborationEvents,
+} from '@/features/experts/api/queries';
+import { AddToCalendarButton } from '@/features/experts/components/add-to-calendar-button';
+import { ProposalDialog } from '@/features/experts/components/proposal-dialog';
 import { useQueryClient } from '@tanstack/react-query';
 
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type CollaborationListRequest = ReceivedCollaborationRequest | SentCollaborationRequest;
+
+type Counterpart = ReceivedCollaborationRequest['sender'];
+
+type ProfileTranslations = ReturnType<typeof useTranslations<'profile'>>;
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -63,6 +118,51 @@ function timeAgo(date: string): string {
   }
 }
 
+function getCounterpart(request: CollaborationListRequest): Counterpart {
+  return 'sender' in request ? request.sender : request.recipient;
+}
+
+const STATUS_LABEL_KEYS = {
+  pending: 'pendingStatus',
+  accepted: 'accepted',
+  in_progress: 'inProgress',
+  completed: 'completed',
+  disputed: 'disputed',
+  declined: 'declined',
+  cancelled: 'cancelled',
+} as const satisfies Record<CollaborationStatus, string>;
+
+function statusLabel(status: CollaborationStatus, t: ProfileTranslations): string {
+  return t(`collaborationsTab.${STATUS_LABEL_KEYS[status]}`);
+}
+
+/**
+ * Label of the button that moves a request to a status
+ */
+function transitionLabel(
+  from: CollaborationStatus,
+  to: CollaborationStatus,
+  role: CollaborationRole,
+  t: ProfileTranslations
+): string {
+  switch (to) {
+    case 'in_progress':
+      return from === 'disputed'
+        ? t('collaborationsTab.actions.resume')
+        : t('collaborationsTab.actions.start');
+    case 'completed':
+      return t('collaborationsTab.actions.complete');
+    case 'disputed':
+      return t('collaborationsTab.actions.dispute');
+    case 'cancelled':
+      return role === 'sender' && from === 'pending'
+        ? t('collaborationsTab.actions.withdraw')
+        : t('collaborationsTab.actions.cancel');
+    default:
+      return statusLabel(to, t);
+  }
+}
+
 // ============================================================================
 // SKELETON
 // ============================================================================
@@ -103,41 +203,31 @@ function StatusBadge({
   status,
   t,
 }: {
-  status: ReceivedCollaborationRequest['status'];
-  t: ReturnType<typeof useTranslations<'profile'>>;
+  status: CollaborationStatus;
+  t: ProfileTranslations;
 }) {
   const config: Record<
-    ReceivedCollaborationRequest['status'],
-    { variant: 'warning' | 'success' | 'error' | 'muted'; icon: React.ElementType; label: string }
+    CollaborationStatus,
+    {
+      variant: 'warning' | 'success' | 'error' | 'muted' | 'info' | 'default';
+      icon: React.ElementType;
+    }
   > = {
-    pending: {
-      variant: 'warning',
-      icon: Clock,
-      label: t('collaborationsTab.pendingStatus'),
-    },
-    accepted: {
-      variant: 'success',
-      icon: CheckCircle,
-      label: t('collaborationsTab.accepted'),
-    },
-    declined: {
-      variant: 'error',
-      icon: XCircle,
-      label: t('collaborationsTab.declined'),
-    },
-    cancelled: {
-      variant: 'muted',
-      icon: Ban,
-      label: t('collaborationsTab.cancelled'),
-    },
+    pending: { variant: 'warning', icon: Clock },
+    accepted: { variant: 'success', icon: CheckCircle },
+    in_progress: { variant: 'info', icon: PlayCircle },
+    completed: { variant: 'default', icon: CheckCheck },
+    disputed: { variant: 'error', icon: AlertTriangle },
+    declined: { variant: 'error', icon: XCircle },
+    cancelled: { variant: 'muted', icon: Ban },
   };
 
-  const { variant, icon: Icon, label } = config[status];
+  const { variant, icon: Icon } = config[status];
 
   return (
     <Badge variant={variant} size="sm" className="gap-1">
       <Icon className="h-3 w-3" />
-      {label}
+      {statusLabel(status, t)}
     </Badge>
   );
 }
@@ -151,7 +241,7 @@ function TypeBadge({
   t,
 }: {
   type: 'coffee_chat' | 'collaboration';
-  t: ReturnType<typeof useTranslations<'profile'>>;
+  t: ProfileTranslations;
 }) {
   if (type === 'coffee_chat') {
     return (
@@ -169,50 +259,203 @@ function TypeBadge({
   );
 }
 
+// ============================================================================
+// PROPOSAL SUMMARY
+// ============================================================================
+
+function ProposalSummary({
+  request,
+  userId,
+  counterpart,
+}: {
+  request: CollaborationListRequest;
+  userId: string;
+  counterpart: Counterpart;
+}) {
+  const t = useTranslations('profile');
+  const format = useFormatter();
+
+  const formatWon = (amount: number) =>
+    format.number(amount, { style: 'currency', currency: 'KRW', maximumFractionDigits: 0 });
+  const formatDate = (dateKey: string) =>
+    format.dateTime(pickerDateFromDateKey(dateKey), { dateStyle: 'medium' });
+
+  const { budget_min: min, budget_max: max, timeline_start: start, timeline_end: end } = request;
+
+  const budget =
+    min !== null && max !== null
+      ? min === max
+        ? formatWon(min)
+        : t('collaborationsTab.proposal.range', { from: formatWon(min), to: formatWon(max) })
+      : min !== null
+        ? t('collaborationsTab.proposal.from', { value: formatWon(min) })
+        : max !== null
+          ? t('collaborationsTab.proposal.upTo', { value: formatWon(max) })
+          : null;
+
+  const timeline =
+    start && end
+      ? t('collaborationsTab.proposal.range', { from: formatDate(start), to: formatDate(end) })
+      : start
+        ? t('collaborationsTab.proposal.from', { value: formatDate(start) })
+        : end
+          ? t('collaborationsTab.proposal.upTo', { value: formatDate(end) })
+          : null;
+
+  if (!request.scope && !budget && !timeline) return null;
+
+  return (
+    <dl className="mt-3 space-y-1.5 rounded-xl border border-white/[0.06] bg-white/[0.02] p-3 text-sm">
+      {request.scope && (
+        <div>
+          <dt className="text-xs text-muted">{t('collaborationsTab.proposal.scope')}</dt>
+          <dd className="whitespace-pre-line text-gray-300">{request.scope}</dd>
+        </div>
+      )}
+      {budget && (
+        <div className="flex gap-2">
+          <dt className="text-xs leading-5 text-muted">{t('collaborationsTab.proposal.budget')}</dt>
+          <dd className="text-white">{budget}</dd>
+        </div>
+      )}
+      {timeline && (
+        <div className="flex gap-2">
+          <dt className="text-xs leading-5 text-muted">
+            {t('collaborationsTab.proposal.timeline')}
+          </dt>
+          <dd className="text-white">{timeline}</dd>
+        </div>
+      )}
+      {request.proposed_by && (
+        <p className="pt-1 text-xs text-muted">
+          {request.proposed_by === userId
+            ? t('collaborationsTab.proposal.proposedByYou')
+            : t('collaborationsTab.proposal.proposedBy', {
+                name: counterpart?.full_name || 'Anonymous',
+              })}
+          {request.proposal_updated_at && ` · ${timeAgo(request.proposal_updated_at)}`}
+        </p>
+      )}
+    </dl>
+  );
+}
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+function CollaborationTimeline({ requestId, userId }: { requestId: number; userId: string }) {
+  const t = useTranslations('profile');
+  const format = useFormatter();
+
+  const { data: events, isLoading, isError } = useCollaborationEvents(requestId);
+
+  if (isLoading) {
+    return (
+      <div className="mt-3 space-y-2">
+        <Skeleton className="h-4 w-2/3" rounded="md" />
+        <Skeleton className="h-4 w-1/2" rounded="md" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="mt-3 text-xs text-error">{t('collaborationsTab.timeline.failed')}</p>;
+  }
+
+  return (
+    <ol className="mt-3 space-y-3 border-l border-white/10 pl-4">
+      {events?.map((event) => {
+        const actorName =
+          event.actor_id === userId
+            ? t('collaborationsTab.timeline.you')
+            : event.actor?.full_name || t('collaborationsTab.timeline.someone');
+
+        const action =
+          event.kind === 'created'
+            ? t('collaborationsTab.timeline.created')
+            : event.kind === 'proposal_updated'
+              ? t('collaborationsTab.timeline.proposalUpdated')
+              : t('collaborationsTab.timeline.statusChanged', {
+                  status: statusLabel(event.to_status, t),
+                });
+
+        return (
+          <li key={event.id} className="relative text-sm">
+            <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+            <p className="text-gray-300">
+              <span className="font-medium text-white">{actorName}</span> · {action}
+            </p>
+            {event.note && (
+              <p className="mt-0.5 text-xs text-muted italic">&ldquo;{event.note}&rdquo;</p>
+            )}
+            <time dateTime={event.created_at} className="text-xs text-muted">
+              {format.dateTime(new Date(event.created_at), {
+                dateStyle: 'medium',
+                timeStyle: 'short',
+              })}
+            </time>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
 // ============================================================================
 // COLLABORATION REQUEST ITEM
 // ============================================================================
 
 function CollaborationRequestItem({
   request,
-  showActions,
-  onAccept,
-  onDecline,
-  isResponding,
+  role,
+  userId,
+  onRespond,
+  onTransition,
+  onEditProposal,
+  isUpdating,
 }: {
-  request: ReceivedCollaborationRequest;
-  showActions: boolean;
-  onAccept: (id: number) => void;
-  onDecline: (id: number) => void;
-  isResponding: boolean;
+  request: CollaborationListRequest;
+  role: CollaborationRole;
+  userId: string;
+  onRespond: (id: number, status: 'accepted' | 'declined') => void;
+  onTransition: (request: CollaborationListRequest, to: CollaborationStatus) => void;
+  onEditProposal: (request: CollaborationListRequest) => void;
+  isUpdating: boolean;
 }) {
   const t = useTranslations('profile');
+  const format = useFormatter();
+  const [showTimeline, setShowTimeline] = React.useState(false);
+
+  const counterpart = getCounterpart(request);
+  const counterpartId = role === 'recipient' ? request.sender_id : request.recipient_id;
+  const transitions = getAllowedTransitions(request.status, role).filter(
+    // Accept and decline have their own buttons with the response flow
+    (to) => !(request.status === 'pending' && (to === 'accepted' || to === 'declined'))
+  );
+  const canRespond = role === 'recipient' && request.status === 'pending';
 
   return (
     <div className="rounded-2xl border border-white/[0.08] bg-white/[0.02] p-4 transition-colors hover:bg-white/[0.04]">
-      {/* Header: Sender + Status */}
+      {/* Header: Counterpart + Status */}
       <div className="flex items-start justify-between gap-3">
         <div className="flex items-start gap-3 flex-1 min-w-0">
           <Avatar size="sm">
-            {request.sender?.avatar_url ? (
-              <AvatarImage
-                src={request.sender.avatar_url}
-                alt={request.sender.full_name || ''}
-              />
+            {counterpart?.avatar_url ? (
+              <AvatarImage src={counterpart.avatar_url} alt={counterpart.full_name || ''} />
             ) : null}
-            <AvatarFallback>
-              {getInitials(request.sender?.full_name)}
-            </AvatarFallback>
+            <AvatarFallback>{getInitials(counterpart?.full_name)}</AvatarFallback>
           </Avatar>
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs text-muted">
+                {role === 'recipient' ? t('collaborationsTab.from') : t('collaborationsTab.to')}
+              </span>
               <p className="text-sm font-medium text-white truncate">
-                {request.sender?.full_name || 'Anonymous'}
+                {counterpart?.full_name || 'Anonymous'}
               </p>
-              {request.sender?.company_name && (
-                <span className="text-xs text-muted truncate">
-                  {request.sender.company_name}
-                </span>
+              {counterpart?.company_name && (
+                <span className="text-xs text-muted truncate">{counterpart.company_name}</span>
               )}
             </div>
             <div className="mt-1 flex items-center gap-2 flex-wrap">
@@ -229,38 +472,123 @@ function CollaborationRequestItem({
       </div>
 
       {/* Message preview */}
-      <p className="mt-1 text-sm text-gray-300 line-clamp-2">
-        {truncate(request.message, 200)}
-      </p>
+      {request.message && (
+        <p className="mt-1 text-sm text-gray-300 line-clamp-2">
+          {truncate(request.message, 200)}
+        </p>
+      )}
+
+      {/* Requested slot */}
+      {request.scheduled_start && (
+        <p className="mt-2 flex items-center gap-1.5 text-sm text-white">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          {t('collaborationsTab.scheduledFor', {
+            time: format.dateTime(new Date(request.scheduled_start), {
+              dateStyle: 'medium',
+              timeStyle: 'short',
+              timeZone: SEOUL_TIME_ZONE,
+            }),
+          })}
+        </p>
+      )}
+
+      {/* Proposal */}
+      {request.type === 'collaboration' && (
+        <ProposalSummary request={request} userId={userId} counterpart={counterpart} />
+      )}
 
       {/* Footer: Time + Actions */}
-      <div className="mt-3 flex items-center justify-between gap-3">
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
         <span className="text-xs text-muted">
-          {t('collaborationsTab.receivedAt')} {timeAgo(request.created_at)}
+          {role === 'recipient'
+            ? t('collaborationsTab.receivedAt')
+            : t('collaborationsTab.sentAt')}{' '}
+          {timeAgo(request.created_at)}
         </span>
 
-        {showActions && request.status === 'pending' && (
-          <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {request.type === 'collaboration' && canEditProposal(request.status) && (
             <Button
-              variant="outline"
+              variant="ghost"
               size="sm"
-              onClick={() => onDecline(request.id)}
-              disabled={isResponding}
+              onClick={() => onEditProposal(request)}
+              disabled={isUpdating}
               className="text-xs"
             >
-              {t('collaborationsTab.decline')}
+              <Pencil className="h-3.5 w-3.5" />
+              {t('collaborationsTab.proposal.edit')}
             </Button>
+          )}
+
+          {transitions.map((to) => (
             <Button
-              variant="primary"
+              key={to}
+              variant={to === 'cancelled' || to === 'disputed' ? 'outline' : 'secondary'}
               size="sm"
-              onClick={() => onAccept(request.id)}
-              disabled={isResponding}
+              onClick={() => onTransition(request, to)}
+              disabled={isUpdating}
               className="text-xs"
             >
-              {t('collaborationsTab.accept')}
+              {transitionLabel(request.status, to, role, t)}
             </Button>
-          </div>
-        )}
+          ))}
+
+          {canRespond && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRespond(request.id, 'declined')}
+                disabled={isUpdating}
+                className="text-xs"
+              >
+                {t('collaborationsTab.decline')}
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={() => onRespond(request.id, 'accepted')}
+                disabled={isUpdating}
+                className="text-xs"
+              >
+                {t('collaborationsTab.accept')}
+              </Button>
+            </>
+          )}
+
+          {isEngagedStatus(request.status) && (
+            <>
+              <AddToCalendarButton
+                request={request}
+                otherName={counterpart?.full_name || 'Anonymous'}
+                className="text-xs"
+              />
+              <Button variant="secondary" size="sm" asChild className="text-xs">
+                <Link href={`/messages?with=${counterpartId}`}>
+                  <MessageCircle className="h-3.5 w-3.5" />
+                  {t('collaborationsTab.message')}
+                </Link>
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div className="mt-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowTimeline((open) => !open)}
+          aria-expanded={showTimeline}
+          className="-ml-2 text-xs text-muted"
+        >
+          <History className="h-3.5 w-3.5" />
+          {showTimeline
+            ? t('collaborationsTab.timeline.hide')
+            : t('collaborationsTab.timeline.show')}
+        </Button>
+        {showTimeline && <CollaborationTimeline requestId={request.id} userId={userId} />}
       </div>
     </div>
   );
@@ -277,52 +605,105 @@ interface CollaborationsTabProps {
 
 export function CollaborationsTab({ userId, className }: CollaborationsTabProps) {
   const t = useTranslations('profile');
+  const tCommon = useTranslations('common');
   const queryClient = useQueryClient();
 
   const { data: requests, isLoading } = useReceivedCollaborationRequests(userId);
+  const { data: sentRequests, isLoading: isSentLoading } = useSentCollaborationRequests(userId);
   const respondMutation = useRespondToCollaboration();
+  const transitionMutation = useTransitionCollaboration();
+
+  const [confirming, setConfirming] = React.useState<{
+    request: CollaborationListRequest;
+    to: CollaborationStatus;
+  } | null>(null);
+  const [editing, setEditing] = React.useState<CollaborationListRequest | null>(null);
 
   const pendingRequests = React.useMemo(
     () => requests?.filter((r) => r.status === 'pending') ?? [],
     [requests]
   );
 
-  const handleAccept = (requestId: number) => {
+  const invalidateRequests = () => {
+    queryClient.invalidateQueries({
+      queryKey: profileQueryKeys.collaborations(userId),
+    });
+  };
+
+  const handleRespond = (requestId: number, status: 'accepted' | 'declined') => {
     respondMutation.mutate(
-      { request_id: requestId, status: 'accepted' },
+      { request_id: requestId, status },
       {
         onSuccess: () => {
           toast.success(t('collaborationsTab.respondSuccess'));
-          queryClient.invalidateQueries({
-            queryKey: profileQueryKeys.collaborations(userId),
-          });
+          invalidateRequests();
         },
-        onError: () => {
-          toast.error(t('collaborationsTab.respondFailed'));
+        onError: (error) => {
+          toast.error(
+            error.message.includes('already booked')
+              ? t('collaborationsTab.slotTaken')
+              : t('collaborationsTab.respondFailed')
+          );
         },
       }
     );
   };
 
-  const handleDecline = (requestId: number) => {
-    respondMutation.mutate(
-      { request_id: requestId, status: 'declined' },
+  const runTransition = (request: CollaborationListRequest, to: CollaborationStatus) => {
+    transitionMutation.mutate(
+      { request_id: request.id, from: request.status, to },
       {
         onSuccess: () => {
-          toast.success(t('collaborationsTab.respondSuccess'));
-          queryClient.invalidateQueries({
-            queryKey: profileQueryKeys.collaborations(userId),
-          });
+          toast.success(t('collaborationsTab.statusUpdated'));
+          invalidateRequests();
         },
         onError: () => {
-          toast.error(t('collaborationsTab.respondFailed'));
+          toast.error(t('collaborationsTab.statusFailed'));
+          invalidateRequests();
         },
       }
     );
   };
 
+  // Cancelling and disputing are hard to undo, so they ask first
+  const handleTransition = (request: CollaborationListRequest, to: CollaborationStatus) => {
+    if (to === 'cancelled' || to === 'disputed') {
+      setConfirming({ request, to });
+      return;
+    }
+    runTransition(request, to);
+  };
+
+  const handleConfirm = () => {
+    if (confirming) runTransition(confirming.request, confirming.to);
+    setConfirming(null);
+  };
+
+  const isUpdating = respondMutation.isPending || transitionMutation.isPending;
+
+  const renderList = (
+    list: CollaborationListRequest[],
+    role: CollaborationRole
+  ) => (
+    <div className="space-y-3">
+      {list.map((request) => (
+        <CollaborationRequestItem
+          key={request.id}
+          request={request}
+          role={role}
+          userId={userId}
+          onRespond={handleRespond}
+          onTransition={handleTransition}
+          onEditProposal={setEditing}
+          isUpdating={isUpdating}
+        />
+      ))}
+    </div>
+  );
+
   const pendingCount = pendingRequests.length;
   const allCount = requests?.length ?? 0;
+  const sentCount = sentRequests?.length ?? 0;
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -338,7 +719,7 @@ export function CollaborationsTab({ userId, className }: CollaborationsTabProps)
             )}
           </TabsTrigger>
           <TabsTrigger value="all" className="flex items-center gap-2">
-            <Handshake className="h-4 w-4" />
+            <Inbox className="h-4 w-4" />
             {t('collaborationsTab.all')}
             {allCount > 0 && (
               <Badge variant="default" size="sm">
@@ -346,6 +727,15 @@ export function CollaborationsTab({ userId, className }: CollaborationsTabProps)
               </Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="sent" className="flex items-center gap-2">
+            <Send className="h-4 w-4" />
+            {t('collaborationsTab.sent')}
+            {sentCount > 0 && (
+              <Badge variant="default" size="sm">
+                {sentCount}
+              </Badge>
+            )}
+          </TabsTrigger>
         </TabsList>
 
         {/* Pending Tab */}
@@ -353,18 +743,7 @@ export function CollaborationsTab({ userId, className }: CollaborationsTabProps)
           {isLoading ? (
             <CollaborationListSkeleton />
           ) : pendingRequests.length > 0 ? (
-            <div className="space-y-3">
-              {pendingRequests.map((request) => (
-                <CollaborationRequestItem
-                  key={request.id}
-                  request={request}
-                  showActions={true}
-                  onAccept={handleAccept}
-                  onDecline={handleDecline}
-                  isResponding={respondMutation.isPending}
-                />
-              ))}
-            </div>
+            renderList(pendingRequests, 'recipient')
           ) : (
             <EmptyState
               type="default"
@@ -377,23 +756,12 @@ export function CollaborationsTab({ userId, className }: CollaborationsTabProps)
           )}
         </TabsContent>
 
-        {/* All Tab */}
+        {/* Received Tab */}
         <TabsContent value="all" className="mt-4">
           {isLoading ? (
             <CollaborationListSkeleton />
           ) : requests && requests.length > 0 ? (
-            <div className="space-y-3">
-              {requests.map((request) => (
-                <CollaborationRequestItem
-                  key={request.id}
-                  request={request}
-                  showActions={true}
-                  onAccept={handleAccept}
-                  onDecline={handleDecline}
-                  isResponding={respondMutation.isPending}
-                />
-              ))}
-            </div>
+            renderList(requests, 'recipient')
           ) : (
             <EmptyState
               type="default"
@@ -405,7 +773,62 @@ export function CollaborationsTab({ userId, className }: CollaborationsTabProps)
             />
           )}
         </TabsContent>
+
+        {/* Sent Tab */}
+        <TabsContent value="sent" className="mt-4">
+          {isSentLoading ? (
+            <CollaborationListSkeleton />
+          ) : sentRequests && sentRequests.length > 0 ? (
+            renderList(sentRequests, 'sender')
+          ) : (
+            <EmptyState
+              type="default"
+              icon={Send}
+              title={t('collaborationsTab.noSentRequests')}
+              description={t('collaborationsTab.noSentDescription')}
+              size="sm"
+              bordered
+            />
+          )}
+        </TabsContent>
       </Tabs>
+
+      {/* Confirm cancel / dispute */}
+      <AlertDialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming?.to === 'disputed'
+                ? t('collaborationsTab.confirmDispute')
+                : t('collaborationsTab.confirmCancel')}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming?.to === 'disputed'
+                ? t('collaborationsTab.confirmDisputeDescription')
+                : t('collaborationsTab.confirmCancelDescription')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{tCommon('cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className="bg-error text-white hover:bg-error/90"
+            >
+              {tCommon('confirm')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Edit proposal */}
+      {editing && (
+        <ProposalDialog
+          request={editing}
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          onSaved={invalidateRequests}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,19 @@
+/**
+ * Reports API Exports
+ *
+ * Central export point for the reports API hooks.
+ */
+
+export { useCreateReport } from './queries';
+
+export type {
+  Report,
+  ReportTarget,
+  ReportTargetType,
+  ReportReason,
+  ReportStatus,
+  CreateReportInput,
+  CreateReportResult,
+} from '../types';
+
+export { REPORT_REASONS, REPORT_DETAILS_MAX_LENGTH } from '../types';
@@ -0,0 +1,50 @@
+'use client';
+
+/**
+ * Reports API Queries
+ *
+ * TanStack Query hooks for reporting content.
+ * Reports are handled by admins in the moderation queue.
+ */
+
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import type { CreateReportInput, CreateReportResult } from '../types';
+
+/**
+ * useCreateReport - Mutation hook for reporting a post, comment, event or expert profile
+ *
+ * Reporting the same target twice is not an error; the result tells the
+ * caller the earlier report is still on file.
+ */
+export function useCreateReport() {
+  return useMutation({
+    mutationFn: async ({ target, reason, details }: CreateReportInput): Promise<CreateReportResult> => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to report content');
+      }
+
+      const { error } = await supabase.from('reports').insert({
+        reporter_id: user.id,
+        target_type: target.type,
+        target_id: String(target.id),
+        reason,
+        details: details?.trim() || null,
+      });
+
+      if (error) {
+        // 23505 = unique_violation: one report per member per target
+        if (error.code === '23505') {
+          return { alreadyReported: true };
+        }
+        throw new Error(`Failed to submit report: ${error.message}`);
+      }
+
+      return { alreadyReported: false };
+    },
+  });
+}
@@ -0,0 +1,7 @@
+/**
+ * Reports Components
+ *
+ * Export all report components for easier imports.
+ */
+
+export { ReportDialog, type ReportDialogProps } from './report-dialog';
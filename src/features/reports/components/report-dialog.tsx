@@ -0,0 +1,129 @@
+'use client';
+
+/**
+ * Report Dialog Component
+ *
+ * Dialog for reporting a post, comment, event or expert profile.
+ * Members pick a reason category and can add optional details.
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { Flag } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+
+import { useCreateReport } from '../api/queries';
+import {
+  REPORT_REASONS,
+  REPORT_DETAILS_MAX_LENGTH,
+  type ReportReason,
+  type ReportTarget,
+} from '../types';
+
+export interface ReportDialogProps {
+  /** Content being reported; the dialog is open while set */
+  target: ReportTarget | null;
+  /** Called when the dialog closes (cancelled or submitted) */
+  onClose: () => void;
+}
+
+export function ReportDialog({ target, onClose }: ReportDialogProps) {
+  const t = useTranslations('reports');
+  const tCommon = useTranslations('common');
+  const [reason, setReason] = React.useState<ReportReason | null>(null);
+  const [details, setDetails] = React.useState('');
+  const createReport = useCreateReport();
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    setReason(null);
+    setDetails('');
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!target || !reason) return;
+
+    createReport.mutate(
+      { target, reason, details },
+      {
+        onSuccess: ({ alreadyReported }) => {
+          toast.success(alreadyReported ? t('alreadyReported') : t('success'));
+          handleOpenChange(false);
+        },
+        onError: () => toast.error(t('failed')),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-error" />
+            {target ? t(`title.${target.type}`) : null}
+          </DialogTitle>
+          <DialogDescription>{t('description')}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason ?? ''}
+          onValueChange={(value) => setReason(value as ReportReason)}
+          className="gap-2"
+        >
+          {REPORT_REASONS.map((option) => (
+            <Label
+              key={option}
+              htmlFor={`report-reason-${option}`}
+              className="flex cursor-pointer items-center gap-3 rounded-xl border border-white/[0.08] px-4 py-3 text-sm text-white transition-colors hover:bg-white/[0.04] has-[[data-state=checked]]:border-[#0079FF]/50"
+            >
+              <RadioGroupItem id={`report-reason-${option}`} value={option} />
+              {t(`reasons.${option}`)}
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="report-details" className="text-sm text-muted">
+            {t('detailsLabel')}
+          </Label>
+          <Textarea
+            id="report-details"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder={t('detailsPlaceholder')}
+            maxLength={REPORT_DETAILS_MAX_LENGTH}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+            {tCommon('cancel')}
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            disabled={!reason || createReport.isPending}
+          >
+            {createReport.isPending ? t('submitting') : t('submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
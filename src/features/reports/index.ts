@@ -0,0 +1,27 @@
+/**
+ * Reports Feature
+ *
+ * Member reports of posts, comments, events and expert profiles.
+ *
+ * Members submit reports with a reason category; admins handle them in the
+ * moderation queue (see useReportQueue in @/features/admin/api).
+ */
+
+// Components
+export { ReportDialog } from './components';
+
+// API hooks
+export { useCreateReport } from './api';
+
+// Types
+export type {
+  Report,
+  ReportTarget,
+  ReportTargetType,
+  ReportReason,
+  ReportStatus,
+  CreateReportInput,
+  CreateReportResult,
+} from './types';
+
+export { REPORT_REASONS, REPORT_DETAILS_MAX_LENGTH } from './types';
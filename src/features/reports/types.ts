@@ -0,0 +1,54 @@
+/**
+ * Reports Feature Types
+ *
+ * TypeScript types for member reports of posts, comments, events and
+ * expert profiles.
+ */
+
+import type { Database } from '@/types/database';
+
+export type Report = Database['public']['Tables']['reports']['Row'];
+export type ReportTargetType = Database['public']['Enums']['report_target_type'];
+export type ReportReason = Database['public']['Enums']['report_reason'];
+export type ReportStatus = Database['public']['Enums']['report_status'];
+
+/**
+ * Reason categories in the order they are offered to members
+ */
+export const REPORT_REASONS: ReportReason[] = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'misinformation',
+  'inappropriate',
+  'other',
+];
+
+/** Maximum length of the optional report details */
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+
+/**
+ * Content being reported
+ */
+export interface ReportTarget {
+  type: ReportTargetType;
+  /** Row ID (numbers for posts, comments and events; UUID for expert profiles) */
+  id: number | string;
+}
+
+/**
+ * Input for reporting content
+ */
+export interface CreateReportInput {
+  target: ReportTarget;
+  reason: ReportReason;
+  details?: string;
+}
+
+/**
+ * Result of a report submission
+ */
+export interface CreateReportResult {
+  /** True when the member had already reported this target */
+  alreadyReported: boolean;
+}
@@ -0,0 +1,5 @@
+/**
+ * Search API Exports
+ */
+
+export { useGlobalSearch, MIN_SEARCH_QUERY_LENGTH } from './queries';
@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * Search API Queries
+ *
+ * TanStack Query hook for the global search across posts, comments,
+ * experts, support programs and events (search_all RPC).
+ */
+
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import {
+  SEARCH_ENTITY_TYPES,
+  searchQueryKeys,
+  type SearchEntityType,
+  type SearchHit,
+  type SearchResults,
+} from '../types';
+
+// Constants
+const SEARCH_LIMIT_PER_TYPE = 5;
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+/**
+ * Fetches search hits and groups them by entity type
+ */
+async function fetchSearchResults(query: string): Promise<SearchResults> {
+  const { data, error } = await supabase.rpc('search_all', {
+    p_query: query,
+    p_limit_per_type: SEARCH_LIMIT_PER_TYPE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search: ${error.message}`);
+  }
+
+  const hits = (data || []) as SearchHit[];
+  const groups = SEARCH_ENTITY_TYPES.map((type: SearchEntityType) => ({
+    type,
+    hits: hits
+      .filter((hit) => hit.entity_type === type)
+      .sort((a, b) => b.rank - a.rank),
+  })).filter((group) => group.hits.length > 0);
+
+  return {
+    query,
+    groups,
+    totalCount: hits.length,
+  };
+}
+
+/**
+ * useGlobalSearch - Query hook for the global search
+ *
+ * Disabled until the trimmed query has at least MIN_SEARCH_QUERY_LENGTH
+ * characters. Keeps the previous results while the next query loads so the
+ * list doesn't flicker while typing.
+ *
+ * @param query - Search text (debounce it before passing it in)
+ */
+export function useGlobalSearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: searchQueryKeys.query(trimmed),
+    queryFn: () => fetchSearchResults(trimmed),
+    enabled: trimmed.length >= MIN_SEARCH_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+}
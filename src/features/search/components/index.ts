@@ -0,0 +1,5 @@
+/**
+ * Search Components
+ */
+
+export { SearchCommand } from './search-command';
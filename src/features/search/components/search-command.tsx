@@ -0,0 +1,179 @@
+'use client';
+
+/**
+ * SearchCommand Component
+ *
+ * Global command-palette search opened from the Header.
+ * Features:
+ * - Opens with the search button or Cmd/Ctrl+K
+ * - Debounced server-side search via the search_all RPC
+ * - Hits grouped by entity type with highlighted matches
+ * - Selecting a hit navigates to it and closes the palette
+ */
+
+import * as React from 'react';
+import { useTranslations } from 'next-intl';
+import { useDebounce } from 'use-debounce';
+import {
+  Calendar,
+  FileText,
+  Gift,
+  MessageSquare,
+  Search,
+  UserRound,
+  type LucideIcon,
+} from 'lucide-react';
+import { cn } from '@/lib/cn';
+import { splitHighlights } from '@/lib/search';
+import { useRouter } from '@/i18n/navigation';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useGlobalSearch, MIN_SEARCH_QUERY_LENGTH } from '../api/queries';
+import type { SearchEntityType, SearchHit } from '../types';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** Icon per entity type */
+const entityIcons: Record<SearchEntityType, LucideIcon> = {
+  post: FileText,
+  comment: MessageSquare,
+  expert: UserRound,
+  program: Gift,
+  event: Calendar,
+};
+
+/**
+ * Renders a server-highlighted snippet as text nodes
+ */
+function Highlighted({ text, className }: { text: string; className?: string }) {
+  return (
+    <span className={className}>
+      {splitHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-[#0079FF]/25 px-0.5 text-white">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
+
+function SearchHitItem({ hit, onSelect }: { hit: SearchHit; onSelect: (hit: SearchHit) => void }) {
+  const Icon = entityIcons[hit.entity_type];
+
+  return (
+    <CommandItem
+      value={`${hit.entity_type}-${hit.entity_id}`}
+      onSelect={() => onSelect(hit)}
+      className="items-start gap-3"
+    >
+      <Icon className="mt-0.5" />
+      <div className="flex min-w-0 flex-col gap-0.5">
+        {hit.title && <Highlighted text={hit.title} className="truncate font-medium text-white" />}
+        {hit.snippet && (
+          <Highlighted text={hit.snippet} className="line-clamp-2 text-xs text-[#8B95A1]" />
+        )}
+      </div>
+    </CommandItem>
+  );
+}
+
+export function SearchCommand() {
+  const t = useTranslations('search');
+  const router = useRouter();
+  const [open, setOpen] = React.useState(false);
+  const [query, setQuery] = React.useState('');
+  const [debouncedQuery] = useDebounce(query, SEARCH_DEBOUNCE_MS);
+
+  const { data, isFetching, isError } = useGlobalSearch(debouncedQuery);
+
+  // Cmd/Ctrl+K toggles the palette
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setQuery('');
+    }
+  };
+
+  const handleSelect = (hit: SearchHit) => {
+    handleOpenChange(false);
+    router.push(hit.link);
+  };
+
+  const isQueryTooShort = query.trim().length < MIN_SEARCH_QUERY_LENGTH;
+  const groups = isQueryTooShort ? [] : (data?.groups ?? []);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 rounded-full border border-white/10 px-3 py-2 text-sm text-[#8B95A1] transition-colors hover:border-white/20 hover:text-white"
+        aria-label={t('open')}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden lg:inline">{t('open')}</span>
+        <kbd className="hidden rounded border border-white/10 px-1.5 text-[10px] lg:inline">⌘K</kbd>
+      </button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        title={t('title')}
+        description={t('description')}
+        shouldFilter={false}
+        className="sm:max-w-xl"
+      >
+        <CommandInput value={query} onValueChange={setQuery} placeholder={t('placeholder')} />
+        <CommandList className="max-h-[60vh]">
+          {isQueryTooShort ? (
+            <p className="py-6 text-center text-sm text-[#8B95A1]">
+              {t('minLength', { count: MIN_SEARCH_QUERY_LENGTH })}
+            </p>
+          ) : isError ? (
+            <p className="py-6 text-center text-sm text-error">{t('error')}</p>
+          ) : (
+            <CommandEmpty>{isFetching ? t('searching') : t('empty')}</CommandEmpty>
+          )}
+
+          {groups.map((group) => (
+            <CommandGroup
+              key={group.type}
+              heading={t(`groups.${group.type}`)}
+              className={cn(isFetching && 'opacity-60')}
+            >
+              {group.hits.map((hit) => (
+                <SearchHitItem
+                  key={`${hit.entity_type}-${hit.entity_id}`}
+                  hit={hit}
+                  onSelect={handleSelect}
+                />
+              ))}
+            </CommandGroup>
+          ))}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * Search Feature
+ *
+ * Global search across posts, comments, experts, support programs and
+ * events, exposed as a command palette in the Header.
+ */
+
+// Components
+export { SearchCommand } from './components';
+
+// API / Queries
+export { useGlobalSearch, MIN_SEARCH_QUERY_LENGTH } from './api';
+
+// Types
+export type { SearchEntityType, SearchHit, SearchResults } from './types';
+export { SEARCH_ENTITY_TYPES, searchQueryKeys } from './types';
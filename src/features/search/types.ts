@@ -0,0 +1,47 @@
+/**
+ * Search Feature Types
+ *
+ * TypeScript types for the global search (search_all RPC).
+ */
+
+/**
+ * Entity types returned by search_all, in display order
+ */
+export const SEARCH_ENTITY_TYPES = ['post', 'comment', 'expert', 'program', 'event'] as const;
+
+export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
+
+/**
+ * A single search hit
+ *
+ * `title` and `snippet` may contain <mark></mark> highlight markers;
+ * render them with splitHighlights() from @/lib/search.
+ */
+export interface SearchHit {
+  entity_type: SearchEntityType;
+  entity_id: string;
+  title: string;
+  snippet: string;
+  /** App path of the hit (without locale prefix) */
+  link: string;
+  rank: number;
+  created_at: string;
+}
+
+/**
+ * Search hits grouped by entity type, each group ordered by rank
+ */
+export interface SearchResults {
+  query: string;
+  groups: { type: SearchEntityType; hits: SearchHit[] }[];
+  totalCount: number;
+}
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+export const searchQueryKeys = {
+  all: ['search'] as const,
+  query: (query: string) => [...searchQueryKeys.all, query] as const,
+} as const;
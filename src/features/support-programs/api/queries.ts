@@ -20,6 +20,7 @@ import {
   type InfiniteData,
 } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
+import { buildIlikeFilter } from '@/lib/search';
 import type {
   SupportProgram,
   SupportProgramWithBookmark,
@@ -104,11 +105,9 @@ async function fetchSupportPrograms(
 
   // Apply keyword search (searches title, organization, description)
   // Using ilike for case-insensitive partial matching
-  if (keyword && keyword.trim()) {
-    const searchTerm = `%${keyword.trim()}%`;
-    query = query.or(
-      `title.ilike.${searchTerm},organization.ilike.${searchTerm},description.ilike.${searchTerm}`
-    );
+  const keywordFilter = buildIlikeFilter(['title', 'organization', 'description'], keyword);
+  if (keywordFilter) {
+    query = query.or(keywordFilter);
   }
 
   // Apply deadline filter - show only programs with future deadlines
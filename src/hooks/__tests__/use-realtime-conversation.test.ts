@@ -0,0 +1,256 @@
+/**
+ * useRealtimeConversation Hook Tests
+ *
+ * Tests the Supabase Realtime subscription hook for an open conversation.
+ * Tests cover:
+ * - Subscription setup filtered by conversation
+ * - Disabled and missing conversation states
+ * - New messages merged into the message cache
+ * - Read receipts written into the conversation cache
+ * - Refetch when a newly accepted request reopens the conversation
+ * - Cleanup on unmount
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRealtimeConversation } from '../use-realtime-conversation';
+import { supabase } from '@/lib/supabase/client';
+import { withImageUrls } from '@/features/messages/api/queries';
+import {
+  messageQueryKeys,
+  type ConversationDetail,
+  type Message,
+  type MessageRow,
+} from '@/features/messages/types';
+import React from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+// The shared setup stubs useQueryClient; this hook writes to the real cache
+vi.mock('@tanstack/react-query', async () => vi.importActual('@tanstack/react-query'));
+
+vi.mock('@/features/messages/api/queries', () => ({
+  withImageUrls: vi.fn(),
+}));
+
+type Listener = {
+  filter: { event?: string; table?: string; filter?: string };
+  callback: (payload?: unknown) => void;
+};
+
+function makeRow(id: number, overrides: Partial<MessageRow> = {}): MessageRow {
+  return {
+    id,
+    conversation_id: 7,
+    sender_id: 'u2',
+    content: `Message ${id}`,
+    image_path: null,
+    created_at: `2026-02-11T10:0${id}:00Z`,
+    ...overrides,
+  };
+}
+
+const makeMessage = (id: number, overrides: Partial<MessageRow> = {}): Message => ({
+  ...makeRow(id, overrides),
+  image_url: null,
+});
+
+describe('useRealtimeConversation Hook', () => {
+  let mockChannel: {
+    on: ReturnType<typeof vi.fn>;
+    subscribe: ReturnType<typeof vi.fn>;
+  };
+  let listeners: Listener[];
+  let queryClient: QueryClient;
+
+  const emit = (table: string, payload: unknown) => {
+    listeners.filter((l) => l.filter.table === table).forEach((l) => l.callback(payload));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listeners = [];
+
+    mockChannel = {
+      on: vi.fn().mockImplementation((_type, filter, callback) => {
+        listeners.push({ filter, callback });
+        return mockChannel;
+      }),
+      subscribe: vi.fn().mockImplementation((callback) => {
+        setTimeout(() => callback?.('SUBSCRIBED'), 0);
+        return mockChannel;
+      }),
+    };
+
+    vi.mocked(supabase.channel).mockReturnValue(
+      mockChannel as unknown as ReturnType<typeof supabase.channel>
+    );
+    vi.mocked(supabase.removeChannel).mockReturnValue(Promise.resolve('ok'));
+    vi.mocked(withImageUrls).mockImplementation(async (rows) =>
+      rows.map((row) => ({
+        ...row,
+        image_url: row.image_path ? `https://signed/${row.image_path}` : null,
+      }))
+    );
+
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+      },
+    });
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+  const cachedMessages = () => queryClient.getQueryData<Message[]>(messageQueryKeys.list(7));
+
+  it('subscribes to messages and updates of the conversation', () => {
+    renderHook(() => useRealtimeConversation(7), { wrapper });
+
+    expect(supabase.channel).toHaveBeenCalledWith('realtime-conversation-7');
+    expect(mockChannel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({
+        event: 'INSERT',
+        table: 'messages',
+        filter: 'conversation_id=eq.7',
+      }),
+      expect.any(Function)
+    );
+    expect(mockChannel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({ event: 'UPDATE', table: 'conversations', filter: 'id=eq.7' }),
+      expect.any(Function)
+    );
+  });
+
+  it('does not subscribe when disabled or without a conversation', () => {
+    renderHook(() => useRealtimeConversation(7, { enabled: false }), { wrapper });
+    renderHook(() => useRealtimeConversation(null), { wrapper });
+
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+
+  it('merges new messages with signed image URLs into the cache', async () => {
+    const onNewMessage = vi.fn();
+    queryClient.setQueryData(messageQueryKeys.list(7), [makeMessage(1), makeMessage(3)]);
+
+    renderHook(() => useRealtimeConversation(7, { currentUserId: 'u1', onNewMessage }), {
+      wrapper,
+    });
+
+    act(() => {
+      emit('messages', {
+        eventType: 'INSERT',
+        new: makeRow(2, { content: null, image_path: '7/u2/photo.png' }),
+      });
+    });
+
+    await waitFor(() => {
+      expect(cachedMessages()?.map((m) => m.id)).toEqual([1, 2, 3]);
+    });
+    expect(cachedMessages()?.[1].image_url).toBe('https://signed/7/u2/photo.png');
+    expect(onNewMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 2 }));
+  });
+
+  it('does not duplicate own messages already added by the sender', async () => {
+    const onNewMessage = vi.fn();
+    queryClient.setQueryData(messageQueryKeys.list(7), [makeMessage(1, { sender_id: 'u1' })]);
+
+    renderHook(() => useRealtimeConversation(7, { currentUserId: 'u1', onNewMessage }), {
+      wrapper,
+    });
+
+    act(() => {
+      emit('messages', { eventType: 'INSERT', new: makeRow(1, { sender_id: 'u1' }) });
+    });
+
+    await waitFor(() => {
+      expect(withImageUrls).toHaveBeenCalled();
+    });
+    expect(cachedMessages()).toHaveLength(1);
+    expect(onNewMessage).not.toHaveBeenCalled();
+  });
+
+  it('writes read pointers of both participants into the conversation', () => {
+    const detail: ConversationDetail = {
+      id: 7,
+      collaboration_request_id: 3,
+      collaboration_request: null,
+      other_user: { id: 'u1', full_name: 'Jane Kim', avatar_url: null, company_name: null },
+      my_last_read_at: '2026-02-11T10:00:00Z',
+      other_last_read_at: '2026-02-11T10:00:00Z',
+      last_message_at: '2026-02-11T10:00:00Z',
+    };
+    queryClient.setQueryData(messageQueryKeys.conversation(7), detail);
+
+    renderHook(() => useRealtimeConversation(7, { currentUserId: 'u2' }), { wrapper });
+
+    act(() => {
+      emit('conversations', {
+        eventType: 'UPDATE',
+        new: {
+          id: 7,
+          user_one_id: 'u1',
+          user_two_id: 'u2',
+          collaboration_request_id: 3,
+          user_one_last_read_at: '2026-02-11T10:05:00Z',
+          user_two_last_read_at: '2026-02-11T10:01:00Z',
+          last_message_at: '2026-02-11T10:04:00Z',
+        },
+      });
+    });
+
+    expect(
+      queryClient.getQueryData<ConversationDetail>(messageQueryKeys.conversation(7))
+    ).toMatchObject({
+      my_last_read_at: '2026-02-11T10:01:00Z',
+      other_last_read_at: '2026-02-11T10:05:00Z',
+      last_message_at: '2026-02-11T10:04:00Z',
+      other_user: { id: 'u1' },
+    });
+  });
+
+  it('refetches the conversation when another request reopens it', () => {
+    const detail: ConversationDetail = {
+      id: 7,
+      collaboration_request_id: 3,
+      collaboration_request: null,
+      other_user: { id: 'u1', full_name: 'Jane Kim', avatar_url: null, company_name: null },
+      my_last_read_at: '2026-02-11T10:00:00Z',
+      other_last_read_at: '2026-02-11T10:00:00Z',
+      last_message_at: '2026-02-11T10:00:00Z',
+    };
+    queryClient.setQueryData(messageQueryKeys.conversation(7), detail);
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries');
+
+    renderHook(() => useRealtimeConversation(7, { currentUserId: 'u2' }), { wrapper });
+
+    act(() => {
+      emit('conversations', {
+        eventType: 'UPDATE',
+        new: {
+          id: 7,
+          user_one_id: 'u1',
+          user_two_id: 'u2',
+          collaboration_request_id: 9,
+          user_one_last_read_at: '2026-02-11T10:05:00Z',
+          user_two_last_read_at: '2026-02-11T10:05:00Z',
+          last_message_at: '2026-02-11T10:05:00Z',
+        },
+      });
+    });
+
+    expect(invalidateSpy).toHaveBeenCalledWith({
+      queryKey: messageQueryKeys.conversation(7),
+    });
+  });
+
+  it('removes channel on unmount', () => {
+    const { unmount } = renderHook(() => useRealtimeConversation(7), { wrapper });
+
+    unmount();
+
+    expect(supabase.removeChannel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * useRealtimeMessages Hook Tests
+ *
+ * Tests the Supabase Realtime subscription hook for direct messages.
+ * Tests cover:
+ * - Subscription setup and cleanup
+ * - Unread count from the database
+ * - Counting messages from other members only
+ * - Refetching the count when conversations are read
+ * - Auth state changes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRealtimeMessages } from '../use-realtime-messages';
+import { supabase } from '@/lib/supabase/client';
+import React from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+// The shared setup stubs useQueryClient; this hook invalidates the real cache
+vi.mock('@tanstack/react-query', async () => vi.importActual('@tanstack/react-query'));
+
+type Listener = {
+  filter: { event?: string; table?: string };
+  callback: (payload?: unknown) => void;
+};
+
+describe('useRealtimeMessages Hook', () => {
+  let mockChannel: {
+    on: ReturnType<typeof vi.fn>;
+    subscribe: ReturnType<typeof vi.fn>;
+  };
+  let listeners: Listener[];
+  let authStateCallback: ((event: string, session: unknown) => void) | null;
+  let queryClient: QueryClient;
+
+  const mockUser = { id: 'user-123', email: 'test@example.com' };
+
+  const emit = (table: string, payload: unknown) => {
+    listeners.filter((l) => l.filter.table === table).forEach((l) => l.callback(payload));
+  };
+
+  const newMessage = (senderId: string) => ({
+    eventType: 'INSERT',
+    new: {
+      id: 1,
+      conversation_id: 7,
+      sender_id: senderId,
+      content: 'Hello',
+      image_path: null,
+      created_at: '2026-02-11T10:00:00Z',
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listeners = [];
+    authStateCallback = null;
+
+    mockChannel = {
+      on: vi.fn().mockImplementation((_type, filter, callback) => {
+        listeners.push({ filter, callback });
+        return mockChannel;
+      }),
+      subscribe: vi.fn().mockImplementation((callback) => {
+        setTimeout(() => callback?.('SUBSCRIBED'), 0);
+        return mockChannel;
+      }),
+    };
+
+    vi.mocked(supabase.channel).mockReturnValue(
+      mockChannel as unknown as ReturnType<typeof supabase.channel>
+    );
+    vi.mocked(supabase.removeChannel).mockReturnValue(Promise.resolve('ok'));
+
+    vi.mocked(supabase.auth.getUser).mockResolvedValue({
+      data: { user: mockUser },
+      error: null,
+    } as unknown as Awaited<ReturnType<typeof supabase.auth.getUser>>);
+
+    vi.mocked(supabase.auth.onAuthStateChange).mockImplementation((callback) => {
+      authStateCallback = callback as typeof authStateCallback;
+      return {
+        data: { subscription: { unsubscribe: vi.fn() } },
+      } as unknown as ReturnType<typeof supabase.auth.onAuthStateChange>;
+    });
+
+    vi.mocked(supabase.rpc).mockResolvedValue({
+      data: 2,
+      error: null,
+    } as unknown as Awaited<ReturnType<typeof supabase.rpc>>);
+
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+      },
+    });
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+  it('loads the unread count and subscribes to messages and conversations', async () => {
+    const { result } = renderHook(() => useRealtimeMessages(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(2);
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_unread_message_count');
+    expect(supabase.channel).toHaveBeenCalledWith('realtime-messages-user-123');
+    expect(mockChannel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({ event: 'INSERT', table: 'messages' }),
+      expect.any(Function)
+    );
+    expect(mockChannel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({ table: 'conversations' }),
+      expect.any(Function)
+    );
+  });
+
+  it('counts messages from other members only', async () => {
+    const onNewMessage = vi.fn();
+    const { result } = renderHook(() => useRealtimeMessages({ onNewMessage }), { wrapper });
+
+    await waitFor(() => {
+      expect(supabase.channel).toHaveBeenCalled();
+    });
+
+    act(() => {
+      emit('messages', newMessage('user-123'));
+    });
+    expect(result.current.unreadCount).toBe(2);
+    expect(onNewMessage).not.toHaveBeenCalled();
+
+    act(() => {
+      emit('messages', newMessage('user-456'));
+    });
+    expect(result.current.unreadCount).toBe(3);
+    expect(onNewMessage).toHaveBeenCalledWith(expect.objectContaining({ sender_id: 'user-456' }));
+  });
+
+  it('refetches the count when a conversation is read', async () => {
+    const { result } = renderHook(() => useRealtimeMessages(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(2);
+    });
+
+    vi.mocked(supabase.rpc).mockResolvedValue({
+      data: 0,
+      error: null,
+    } as unknown as Awaited<ReturnType<typeof supabase.rpc>>);
+
+    act(() => {
+      emit('conversations', { eventType: 'UPDATE', new: { id: 7 } });
+    });
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(0);
+    });
+  });
+
+  it('does not subscribe when disabled', async () => {
+    renderHook(() => useRealtimeMessages({ enabled: false }), { wrapper });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(supabase.channel).not.toHaveBeenCalled();
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('resets the count on sign out', async () => {
+    const { result } = renderHook(() => useRealtimeMessages(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(2);
+    });
+
+    act(() => {
+      authStateCallback?.('SIGNED_OUT', null);
+    });
+
+    expect(result.current.unreadCount).toBe(0);
+    expect(supabase.removeChannel).toHaveBeenCalled();
+  });
+
+  it('removes channel on unmount', async () => {
+    const { unmount } = renderHook(() => useRealtimeMessages(), { wrapper });
+
+    await waitFor(() => {
+      expect(supabase.channel).toHaveBeenCalled();
+    });
+
+    unmount();
+
+    expect(supabase.removeChannel).toHaveBeenCalled();
+  });
+});
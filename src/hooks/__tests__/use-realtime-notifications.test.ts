@@ -4,7 +4,7 @@
  * Tests the Supabase Realtime subscription hook for notifications.
  * Tests cover:
  * - Subscription setup and cleanup
- * - Unread count management
+ * - Unread count management (refetched on updates and deletes)
  * - Handling new notifications
  * - Mark all as read functionality
  * - Auth state changes
@@ -17,6 +17,9 @@ import { supabase } from '@/lib/supabase/client';
 import React from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 
+// The shared setup stubs useQueryClient; this hook reads the real cache
+vi.mock('@tanstack/react-query', async () => vi.importActual('@tanstack/react-query'));
+
 describe('useRealtimeNotifications Hook', () => {
   let mockChannel: any;
   let subscribeCallback: ((status: string) => void) | null = null;
@@ -71,19 +74,28 @@ describe('useRealtimeNotifications Hook', () => {
     } as any);
   });
 
+  // Count query resolving to the given unread count
+  const mockUnreadCount = (count: number) => {
+    vi.mocked(supabase.from).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      then: (resolve: (value: unknown) => void) => resolve({ count, error: null }),
+    } as unknown as ReturnType<typeof supabase.from>);
+  };
+
   afterEach(() => {
     subscribeCallback = null;
     postgresCallback = null;
     authStateCallback = null;
   });
 
-  const createWrapper = () => {
-    const queryClient = new QueryClient({
+  const createWrapper = (
+    queryClient = new QueryClient({
       defaultOptions: {
         queries: { retry: false },
       },
-    });
-
+    })
+  ) => {
     return ({ children }: { children: React.ReactNode }) =>
       React.createElement(QueryClientProvider, { client: queryClient }, children);
   };
@@ -231,18 +243,154 @@ describe('useRealtimeNotifications Hook', () => {
 
       expect(result.current.unreadCount).toBe(1);
 
-      // Mark as read
-      if (postgresCallback) {
-        act(() => {
-          postgresCallback({
-            eventType: 'UPDATE',
-            old: { id: 1, is_read: false },
-            new: { id: 1, is_read: true },
-          });
+      // Mark as read; Realtime only sends the primary key of the old row
+      mockUnreadCount(0);
+      act(() => {
+        postgresCallback?.({
+          eventType: 'UPDATE',
+          old: { id: 1 },
+          new: { id: 1, is_read: true },
         });
-      }
+      });
 
-      expect(result.current.unreadCount).toBe(0);
+      await waitFor(() => {
+        expect(result.current.unreadCount).toBe(0);
+      });
+    });
+
+    it('increments count when a notification is marked unread again', async () => {
+      const onNewNotification = vi.fn();
+      const { result } = renderHook(() => useRealtimeNotifications({ onNewNotification }), {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(mockChannel.subscribe).toHaveBeenCalled();
+      });
+
+      // A new like on a read, collapsed like notification
+      const notification = { id: 1, user_id: 'user-123', is_read: false, type: 'new_like' };
+      mockUnreadCount(1);
+      act(() => {
+        postgresCallback?.({
+          eventType: 'UPDATE',
+          old: { id: 1 },
+          new: notification,
+        });
+      });
+
+      await waitFor(() => {
+        expect(result.current.unreadCount).toBe(1);
+      });
+      expect(onNewNotification).toHaveBeenCalledWith(notification);
+    });
+
+    it('does not call onNewNotification when an unread notification is only retitled', async () => {
+      const onNewNotification = vi.fn();
+      const { result } = renderHook(() => useRealtimeNotifications({ onNewNotification }), {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(mockChannel.subscribe).toHaveBeenCalled();
+      });
+
+      act(() => {
+        postgresCallback?.({
+          eventType: 'INSERT',
+          new: { id: 1, user_id: 'user-123', is_read: false },
+        });
+      });
+
+      // An unlike rewrites the title; the notification stays unread
+      mockUnreadCount(1);
+      act(() => {
+        postgresCallback?.({
+          eventType: 'UPDATE',
+          old: { id: 1 },
+          new: { id: 1, user_id: 'user-123', is_read: false },
+        });
+      });
+
+      await waitFor(() => {
+        expect(supabase.from).toHaveBeenCalledTimes(2);
+      });
+      expect(result.current.unreadCount).toBe(1);
+      expect(onNewNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('refetches count when a notification is deleted', async () => {
+      const queryClient = new QueryClient();
+      queryClient.setQueryData(
+        ['notifications', 'list'],
+        [
+          { id: 1, user_id: 'user-123', is_read: false },
+          { id: 2, user_id: 'user-123', is_read: false },
+        ]
+      );
+
+      const { result } = renderHook(() => useRealtimeNotifications(), {
+        wrapper: createWrapper(queryClient),
+      });
+
+      await waitFor(() => {
+        expect(mockChannel.subscribe).toHaveBeenCalled();
+      });
+
+      act(() => {
+        postgresCallback?.({
+          eventType: 'INSERT',
+          new: { id: 1, user_id: 'user-123', is_read: false },
+        });
+        postgresCallback?.({
+          eventType: 'INSERT',
+          new: { id: 2, user_id: 'user-123', is_read: false },
+        });
+      });
+
+      expect(result.current.unreadCount).toBe(2);
+
+      // Every like withdrawn; the old row only carries the id
+      mockUnreadCount(1);
+      act(() => {
+        postgresCallback?.({
+          eventType: 'DELETE',
+          old: { id: 1 },
+          new: {},
+        });
+      });
+
+      await waitFor(() => {
+        expect(result.current.unreadCount).toBe(1);
+      });
+    });
+
+    it("ignores deletes of notifications that aren't in the list", async () => {
+      const queryClient = new QueryClient();
+      queryClient.setQueryData(['notifications', 'list'], [
+        { id: 1, user_id: 'user-123', is_read: false },
+      ]);
+
+      renderHook(() => useRealtimeNotifications(), {
+        wrapper: createWrapper(queryClient),
+      });
+
+      await waitFor(() => {
+        expect(mockChannel.subscribe).toHaveBeenCalled();
+      });
+      const fetchesBefore = vi.mocked(supabase.from).mock.calls.length;
+
+      // Another member's notification: deletes arrive unfiltered
+      act(() => {
+        postgresCallback?.({
+          eventType: 'DELETE',
+          old: { id: 99 },
+          new: {},
+        });
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(supabase.from).toHaveBeenCalledTimes(fetchesBefore);
     });
 
     it('does not go below 0', async () => {
@@ -0,0 +1,130 @@
+/**
+ * useRealtimePoll Hook Tests
+ *
+ * Tests the Supabase Realtime subscription hook for poll results.
+ * Tests cover:
+ * - Subscription setup filtered by poll
+ * - Disabled and missing poll states
+ * - Vote counts written into the poll cache
+ * - Cleanup on unmount
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRealtimePoll } from '../use-realtime-poll';
+import { supabase } from '@/lib/supabase/client';
+import { pollQueryKeys, type Poll } from '@/features/community/types';
+import React from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+// The shared setup stubs useQueryClient; this hook writes to the real cache
+vi.mock('@tanstack/react-query', async () => vi.importActual('@tanstack/react-query'));
+
+// Type for mocked functions
+type MockChannel = {
+  on: ReturnType<typeof vi.fn>;
+  subscribe: ReturnType<typeof vi.fn>;
+};
+
+const poll: Poll = {
+  id: 7,
+  post_id: 1,
+  allows_multiple: false,
+  closes_at: null,
+  options: [
+    { id: 70, label: 'Yes', position: 0, vote_count: 1 },
+    { id: 71, label: 'No', position: 1, vote_count: 2 },
+  ],
+  my_option_ids: [70],
+};
+
+describe('useRealtimePoll Hook', () => {
+  let mockChannel: MockChannel;
+  let postgresCallback: ((payload: unknown) => void) | null = null;
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockChannel = {
+      on: vi.fn().mockImplementation((event, config, callback) => {
+        postgresCallback = callback;
+        return mockChannel;
+      }),
+      subscribe: vi.fn().mockImplementation((callback) => {
+        setTimeout(() => callback?.('SUBSCRIBED'), 0);
+        return mockChannel;
+      }),
+    };
+
+    vi.mocked(supabase.channel).mockReturnValue(
+      mockChannel as unknown as ReturnType<typeof supabase.channel>
+    );
+    vi.mocked(supabase.removeChannel).mockReturnValue(Promise.resolve('ok'));
+
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+      },
+    });
+  });
+
+  afterEach(() => {
+    postgresCallback = null;
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+  it('subscribes to option updates of the poll', () => {
+    renderHook(() => useRealtimePoll(7), { wrapper });
+
+    expect(supabase.channel).toHaveBeenCalledWith('realtime-poll-7');
+    expect(mockChannel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'poll_options',
+        filter: 'poll_id=eq.7',
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it('does not subscribe when disabled or without a poll', () => {
+    renderHook(() => useRealtimePoll(7, { enabled: false }), { wrapper });
+    renderHook(() => useRealtimePoll(null), { wrapper });
+
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+
+  it('writes the new vote count into the cached poll', async () => {
+    queryClient.setQueryData(pollQueryKeys.detail(7), poll);
+
+    renderHook(() => useRealtimePoll(7), { wrapper });
+
+    await waitFor(() => {
+      expect(mockChannel.subscribe).toHaveBeenCalled();
+    });
+
+    act(() => {
+      postgresCallback?.({
+        eventType: 'UPDATE',
+        new: { id: 71, poll_id: 7, label: 'No', position: 1, vote_count: 5 },
+      });
+    });
+
+    const updated = queryClient.getQueryData<Poll>(pollQueryKeys.detail(7));
+    expect(updated?.options.map((option) => option.vote_count)).toEqual([1, 5]);
+    expect(updated?.my_option_ids).toEqual([70]);
+  });
+
+  it('removes channel on unmount', () => {
+    const { unmount } = renderHook(() => useRealtimePoll(7), { wrapper });
+
+    unmount();
+
+    expect(supabase.removeChannel).toHaveBeenCalled();
+  });
+});
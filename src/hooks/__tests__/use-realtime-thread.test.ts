@@ -0,0 +1,335 @@
+/**
+ * useRealtimeThread Hook Tests
+ *
+ * Tests the Supabase Realtime subscription hook for the thread detail page.
+ * Tests cover:
+ * - Subscription setup filtered by post
+ * - Disabled and missing post states
+ * - New, updated and deleted comments written into the comment cache
+ * - Post counters written into the detail cache
+ * - Presence of other viewers and typing
+ * - Cleanup on unmount
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRealtimeThread } from '../use-realtime-thread';
+import { supabase } from '@/lib/supabase/client';
+import { fetchComment } from '@/features/community/api/queries';
+import {
+  commentQueryKeys,
+  postQueryKeys,
+  type CommentWithAuthor,
+  type PostWithAuthor,
+} from '@/features/community/types';
+import React from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+// The shared setup stubs useQueryClient; this hook writes to the real cache
+vi.mock('@tanstack/react-query', async () => vi.importActual('@tanstack/react-query'));
+
+vi.mock('@/features/community/api/queries', () => ({
+  fetchComment: vi.fn(),
+}));
+
+type Listener = {
+  type: string;
+  filter: { event?: string; table?: string; filter?: string };
+  callback: (payload?: unknown) => void;
+};
+
+type MockChannel = {
+  on: ReturnType<typeof vi.fn>;
+  subscribe: ReturnType<typeof vi.fn>;
+  track: ReturnType<typeof vi.fn>;
+  presenceState: ReturnType<typeof vi.fn>;
+};
+
+const author = { id: 'u2', full_name: 'Jane Kim', avatar_url: null, company_name: null };
+
+function makeComment(id: number, overrides: Partial<CommentWithAuthor> = {}): CommentWithAuthor {
+  return {
+    id,
+    post_id: 1,
+    author_id: author.id,
+    parent_id: null,
+    content: `Comment ${id}`,
+    like_count: 0,
+    reaction_counts: {},
+    is_hidden: false,
+    created_at: '2026-02-11T00:00:00Z',
+    updated_at: '2026-02-11T00:00:00Z',
+    edited_at: null,
+    deleted_at: null,
+    is_anonymous: false,
+    anonymous_number: null,
+    author,
+    is_liked: false,
+    my_reaction: null,
+    mentions: [],
+    replies: [],
+    ...overrides,
+  };
+}
+
+function commentRow(comment: CommentWithAuthor, overrides: Record<string, unknown> = {}) {
+  return {
+    id: comment.id,
+    post_id: comment.post_id,
+    author_id: comment.author_id,
+    parent_id: comment.parent_id,
+    content: comment.content,
+    like_count: comment.like_count,
+    reaction_counts: comment.reaction_counts,
+    is_hidden: false,
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+    edited_at: null,
+    deleted_at: null,
+    is_anonymous: false,
+    anonymous_number: null,
+    hidden_reason: null,
+    hidden_by: null,
+    ...overrides,
+  };
+}
+
+describe('useRealtimeThread Hook', () => {
+  let mockChannel: MockChannel;
+  let listeners: Listener[];
+  let queryClient: QueryClient;
+
+  const emit = (table: string, payload: unknown) => {
+    listeners
+      .filter((l) => l.type === 'postgres_changes' && l.filter.table === table && l.filter.filter)
+      .forEach((l) => l.callback(payload));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listeners = [];
+
+    mockChannel = {
+      on: vi.fn().mockImplementation((type, filter, callback) => {
+        listeners.push({ type, filter, callback });
+        return mockChannel;
+      }),
+      subscribe: vi.fn().mockImplementation((callback) => {
+        setTimeout(() => callback?.('SUBSCRIBED'), 0);
+        return mockChannel;
+      }),
+      track: vi.fn().mockResolvedValue('ok'),
+      presenceState: vi.fn().mockReturnValue({}),
+    };
+
+    vi.mocked(supabase.channel).mockReturnValue(
+      mockChannel as unknown as ReturnType<typeof supabase.channel>
+    );
+    vi.mocked(supabase.removeChannel).mockReturnValue(Promise.resolve('ok'));
+
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+      },
+    });
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+  const cachedComments = () =>
+    queryClient.getQueryData<CommentWithAuthor[]>(commentQueryKeys.list(1));
+
+  it('subscribes to comment and post changes of the thread', () => {
+    renderHook(() => useRealtimeThread(1), { wrapper });
+
+    expect(supabase.channel).toHaveBeenCalledWith('realtime-thread-1', expect.any(Object));
+    expect(mockChannel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({ event: '*', table: 'comments', filter: 'post_id=eq.1' }),
+      expect.any(Function)
+    );
+    expect(mockChannel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({ event: 'UPDATE', table: 'posts', filter: 'id=eq.1' }),
+      expect.any(Function)
+    );
+  });
+
+  it('does not subscribe when disabled or without a post', () => {
+    renderHook(() => useRealtimeThread(1, { enabled: false }), { wrapper });
+    renderHook(() => useRealtimeThread(null), { wrapper });
+
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+
+  it('adds a new reply fetched by id under its parent', async () => {
+    const parent = makeComment(10);
+    const reply = makeComment(11, { parent_id: 10 });
+    queryClient.setQueryData(commentQueryKeys.list(1), [parent]);
+    vi.mocked(fetchComment).mockResolvedValue(reply);
+
+    renderHook(() => useRealtimeThread(1), { wrapper });
+
+    act(() => {
+      emit('comments', { eventType: 'INSERT', new: commentRow(reply) });
+    });
+
+    await waitFor(() => {
+      expect(cachedComments()?.[0].replies?.map((c) => c.id)).toEqual([11]);
+    });
+    expect(fetchComment).toHaveBeenCalledWith(11);
+  });
+
+  it('writes reaction counts without fetching and keeps the own reaction', () => {
+    const comment = makeComment(10, { my_reaction: 'love', is_liked: true });
+    queryClient.setQueryData(commentQueryKeys.list(1), [comment]);
+
+    renderHook(() => useRealtimeThread(1), { wrapper });
+
+    act(() => {
+      emit('comments', {
+        eventType: 'UPDATE',
+        new: commentRow(comment, { like_count: 3, reaction_counts: { love: 1, like: 2 } }),
+      });
+    });
+
+    const [updated] = cachedComments() ?? [];
+    expect(updated.like_count).toBe(3);
+    expect(updated.reaction_counts).toEqual({ love: 1, like: 2 });
+    expect(updated.my_reaction).toBe('love');
+    expect(fetchComment).not.toHaveBeenCalled();
+  });
+
+  it('turns deleted comments into placeholders or drops them', () => {
+    const parent = makeComment(10, { replies: [makeComment(11, { parent_id: 10 })] });
+    queryClient.setQueryData(commentQueryKeys.list(1), [parent, makeComment(12)]);
+
+    renderHook(() => useRealtimeThread(1), { wrapper });
+
+    act(() => {
+      const deletedAt = '2026-02-11T01:00:00Z';
+      emit('comments', {
+        eventType: 'UPDATE',
+        new: commentRow(parent, { content: '', deleted_at: deletedAt }),
+      });
+      emit('comments', {
+        eventType: 'UPDATE',
+        new: commentRow(makeComment(12), { content: '', deleted_at: deletedAt }),
+      });
+    });
+
+    const comments = cachedComments() ?? [];
+    expect(comments.map((c) => c.id)).toEqual([10]);
+    expect(comments[0].deleted_at).not.toBeNull();
+    expect(comments[0].replies?.map((c) => c.id)).toEqual([11]);
+    expect(fetchComment).not.toHaveBeenCalled();
+  });
+
+  it('writes post counters into the cached post', () => {
+    const post = {
+      id: 1,
+      like_count: 1,
+      reaction_counts: { like: 1 },
+      comment_count: 2,
+      repost_count: 0,
+      edited_at: null,
+      my_reaction: 'like',
+    } as unknown as PostWithAuthor;
+    queryClient.setQueryData(postQueryKeys.detail(1), post);
+
+    renderHook(() => useRealtimeThread(1), { wrapper });
+
+    act(() => {
+      emit('posts', {
+        eventType: 'UPDATE',
+        new: {
+          id: 1,
+          like_count: 2,
+          reaction_counts: { like: 1, funny: 1 },
+          comment_count: 3,
+          repost_count: 1,
+          edited_at: null,
+          is_hidden: false,
+        },
+      });
+    });
+
+    const updated = queryClient.getQueryData<PostWithAuthor>(postQueryKeys.detail(1));
+    expect(updated).toMatchObject({
+      like_count: 2,
+      reaction_counts: { like: 1, funny: 1 },
+      comment_count: 3,
+      repost_count: 1,
+      my_reaction: 'like',
+    });
+  });
+
+  it('lists other viewers and who is typing', () => {
+    mockChannel.presenceState.mockReturnValue({
+      u1: [{ id: 'u1', full_name: 'Me', avatar_url: null, is_typing: false }],
+      u2: [
+        { id: 'u2', full_name: 'Jane Kim', avatar_url: null, is_typing: false },
+        { id: 'u2', full_name: 'Jane Kim', avatar_url: null, is_typing: true },
+      ],
+    });
+
+    const { result } = renderHook(
+      () =>
+        useRealtimeThread(1, { viewer: { id: 'u1', full_name: 'Me', avatar_url: null } }),
+      { wrapper }
+    );
+
+    act(() => {
+      listeners.find((l) => l.type === 'presence')?.callback();
+    });
+
+    expect(result.current.viewers).toEqual([
+      { id: 'u2', full_name: 'Jane Kim', avatar_url: null, is_typing: true },
+    ]);
+  });
+
+  it('tracks the member and their typing state', async () => {
+    vi.useFakeTimers();
+    try {
+      const { result } = renderHook(
+        () =>
+          useRealtimeThread(1, { viewer: { id: 'u1', full_name: 'Me', avatar_url: null } }),
+        { wrapper }
+      );
+
+      await act(async () => {
+        vi.advanceTimersByTime(0);
+      });
+      expect(mockChannel.track).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'u1', is_typing: false })
+      );
+
+      act(() => {
+        result.current.notifyTyping();
+        result.current.notifyTyping();
+      });
+      expect(mockChannel.track).toHaveBeenCalledTimes(2);
+      expect(mockChannel.track).toHaveBeenLastCalledWith(
+        expect.objectContaining({ is_typing: true })
+      );
+
+      act(() => {
+        vi.advanceTimersByTime(4000);
+      });
+      expect(mockChannel.track).toHaveBeenLastCalledWith(
+        expect.objectContaining({ is_typing: false })
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('removes channel on unmount', () => {
+    const { unmount } = renderHook(() => useRealtimeThread(1), { wrapper });
+
+    unmount();
+
+    expect(supabase.removeChannel).toHaveBeenCalled();
+  });
+});
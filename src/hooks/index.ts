@@ -9,6 +9,10 @@ export { useAuth } from './use-auth';
 // Realtime hooks for Supabase subscriptions
 export { useRealtimePosts } from './use-realtime-posts';
 export { useRealtimeNotifications } from './use-realtime-notifications';
+export { useRealtimePoll } from './use-realtime-poll';
+export { useRealtimeThread, type ThreadViewer } from './use-realtime-thread';
+export { useRealtimeMessages } from './use-realtime-messages';
+export { useRealtimeConversation } from './use-realtime-conversation';
 
 // Re-export all hooks from subdirectories as they are created
 // Example: export * from './use-media-query';
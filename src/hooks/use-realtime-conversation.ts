@@ -0,0 +1,188 @@
+'use client';
+
+/**
+ * useRealtimeConversation Hook
+ *
+ * Supabase Realtime subscription for an open conversation.
+ * Messages from the other participant appear immediately and read receipts
+ * update when they read the conversation.
+ *
+ * Features:
+ * - Subscribes to new messages filtered by conversation_id and to updates of
+ *   the conversation (read pointers)
+ * - Writes changes straight into the message list and conversation caches;
+ *   only image attachments need a signed URL fetched
+ * - Handles reconnection on disconnect
+ * - Cleans up subscription on unmount
+ */
+
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { mergeMessage } from '@/lib/messages';
+import { withImageUrls } from '@/features/messages/api/queries';
+import {
+  messageQueryKeys,
+  type ConversationDetail,
+  type Message,
+} from '@/features/messages/types';
+
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+type ConversationRow = Database['public']['Tables']['conversations']['Row'];
+
+interface UseRealtimeConversationOptions {
+  /** Whether the subscription should be active */
+  enabled?: boolean;
+  /** The current member, to tell their read pointer from the other one */
+  currentUserId?: string | null;
+  /** Callback when a message from the other participant is received */
+  onNewMessage?: (message: Message) => void;
+}
+
+export function useRealtimeConversation(
+  conversationId: number | null,
+  options: UseRealtimeConversationOptions = {}
+) {
+  const { enabled = true, currentUserId = null, onNewMessage } = options;
+  const queryClient = useQueryClient();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const onNewMessageRef = useRef(onNewMessage);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+
+  useEffect(() => {
+    onNewMessageRef.current = onNewMessage;
+  }, [onNewMessage]);
+
+  const handleNewMessage = useCallback(
+    async (payload: RealtimePostgresChangesPayload<MessageRow>) => {
+      if (payload.eventType !== 'INSERT' || !conversationId) return;
+
+      try {
+        const [message] = await withImageUrls([payload.new]);
+        queryClient.setQueryData<Message[]>(messageQueryKeys.list(conversationId), (old) =>
+          old ? mergeMessage(old, message) : old
+        );
+        if (message.sender_id !== currentUserId) {
+          onNewMessageRef.current?.(message);
+        }
+      } catch (error) {
+        console.error('[Realtime] Failed to load message:', error);
+      }
+    },
+    [queryClient, conversationId, currentUserId]
+  );
+
+  const handleConversationUpdate = useCallback(
+    (payload: RealtimePostgresChangesPayload<ConversationRow>) => {
+      if (payload.eventType !== 'UPDATE' || !conversationId) return;
+
+      const row = payload.new;
+      if (!currentUserId) {
+        queryClient.invalidateQueries({ queryKey: messageQueryKeys.conversation(conversationId) });
+        return;
+      }
+
+      // A newly accepted request reopened the conversation; refetch its slot
+      const key = messageQueryKeys.conversation(conversationId);
+      const previous = queryClient.getQueryData<ConversationDetail>(key);
+      if (previous && previous.collaboration_request_id !== row.collaboration_request_id) {
+        queryClient.invalidateQueries({ queryKey: key });
+        return;
+      }
+
+      const isUserOne = row.user_one_id === currentUserId;
+      queryClient.setQueryData<ConversationDetail>(
+        key,
+        (old) =>
+          old && {
+            ...old,
+            my_last_read_at: isUserOne ? row.user_one_last_read_at : row.user_two_last_read_at,
+            other_last_read_at: isUserOne ? row.user_two_last_read_at : row.user_one_last_read_at,
+            last_message_at: row.last_message_at,
+          }
+      );
+    },
+    [queryClient, conversationId, currentUserId]
+  );
+
+  useEffect(() => {
+    if (!enabled || !conversationId) {
+      // Clean up if disabled
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+      return;
+    }
+
+    const subscribe = () => {
+      // Clean up existing channel
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+
+      channelRef.current = supabase
+        .channel(`realtime-conversation-${conversationId}`)
+        .on<MessageRow>(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'messages',
+            filter: `conversation_id=eq.${conversationId}`,
+          },
+          handleNewMessage
+        )
+        .on<ConversationRow>(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'conversations',
+            filter: `id=eq.${conversationId}`,
+          },
+          handleConversationUpdate
+        )
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            setIsSubscribed(true);
+            console.log(`[Realtime] Conversation ${conversationId} subscription active`);
+          } else if (status === 'CHANNEL_ERROR') {
+            setIsSubscribed(false);
+            console.error('[Realtime] Conversation subscription error, attempting reconnect...');
+            // Attempt reconnection after a delay
+            if (reconnectTimeoutRef.current) {
+              clearTimeout(reconnectTimeoutRef.current);
+            }
+            reconnectTimeoutRef.current = setTimeout(subscribe, 5000);
+          } else if (status === 'CLOSED') {
+            setIsSubscribed(false);
+            console.log(`[Realtime] Conversation ${conversationId} subscription closed`);
+          }
+        });
+    };
+
+    subscribe();
+
+    // Cleanup on unmount
+    return () => {
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+    };
+  }, [enabled, conversationId, handleNewMessage, handleConversationUpdate]);
+
+  return {
+    isSubscribed,
+  };
+}
+
+export default useRealtimeConversation;
@@ -0,0 +1,218 @@
+'use client';
+
+/**
+ * useRealtimeMessages Hook
+ *
+ * Supabase Realtime subscription for direct messages.
+ * The unread message badge and the inbox update live without a refresh.
+ *
+ * Features:
+ * - Subscribes to new messages and conversation updates; RLS limits both to
+ *   the current user's conversations
+ * - Maintains unread count state (read receipts move it down)
+ * - Refreshes the inbox when a message arrives or a conversation is read
+ * - Handles reconnection on disconnect
+ * - Cleans up subscription on unmount
+ */
+
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { messageQueryKeys } from '@/features/messages/types';
+
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+
+interface UseRealtimeMessagesOptions {
+  /** Whether the subscription should be active */
+  enabled?: boolean;
+  /** Callback when a message from another member is received */
+  onNewMessage?: (message: MessageRow) => void;
+}
+
+interface UseRealtimeMessagesReturn {
+  /** Current unread message count */
+  unreadCount: number;
+  /** Whether the subscription is active */
+  isSubscribed: boolean;
+  /** Refetch the unread count */
+  refetchCount: () => Promise<void>;
+}
+
+export function useRealtimeMessages(
+  options: UseRealtimeMessagesOptions = {}
+): UseRealtimeMessagesReturn {
+  const { enabled = true, onNewMessage } = options;
+  const queryClient = useQueryClient();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const userIdRef = useRef<string | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+
+  // Fetch unread count
+  const fetchUnreadCount = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_unread_message_count');
+
+    if (error) {
+      console.error('[Realtime] Failed to fetch unread message count:', error.message);
+      return;
+    }
+
+    setUnreadCount(data ?? 0);
+  }, []);
+
+  // Handle new message
+  const handleNewMessage = useCallback(
+    (payload: RealtimePostgresChangesPayload<MessageRow>) => {
+      if (payload.eventType !== 'INSERT') return;
+
+      const message = payload.new;
+      queryClient.invalidateQueries({ queryKey: messageQueryKeys.conversations(), exact: true });
+
+      // Own messages (e.g. from another tab) are never unread
+      if (message.sender_id === userIdRef.current) return;
+
+      setUnreadCount((prev) => prev + 1);
+      onNewMessage?.(message);
+    },
+    [queryClient, onNewMessage]
+  );
+
+  // Read pointers moved or a conversation was opened
+  const handleConversationChange = useCallback(() => {
+    fetchUnreadCount();
+    queryClient.invalidateQueries({ queryKey: messageQueryKeys.conversations(), exact: true });
+  }, [fetchUnreadCount, queryClient]);
+
+  // Setup realtime subscription
+  const setupSubscription = useCallback(
+    (userId: string) => {
+      const subscribe = () => {
+        // Clean up existing channel
+        if (channelRef.current) {
+          supabase.removeChannel(channelRef.current);
+          channelRef.current = null;
+        }
+
+        const channel = supabase
+          .channel(`realtime-messages-${userId}`)
+          .on<MessageRow>(
+            'postgres_changes',
+            {
+              event: 'INSERT',
+              schema: 'public',
+              table: 'messages',
+            },
+            handleNewMessage
+          )
+          .on(
+            'postgres_changes',
+            {
+              event: '*',
+              schema: 'public',
+              table: 'conversations',
+            },
+            handleConversationChange
+          )
+          .subscribe((status) => {
+            if (status === 'SUBSCRIBED') {
+              setIsSubscribed(true);
+              console.log('[Realtime] Messages subscription active');
+            } else if (status === 'CHANNEL_ERROR') {
+              setIsSubscribed(false);
+              console.error('[Realtime] Messages subscription error, attempting reconnect...');
+              // Attempt reconnection after a delay
+              if (reconnectTimeoutRef.current) {
+                clearTimeout(reconnectTimeoutRef.current);
+              }
+              reconnectTimeoutRef.current = setTimeout(subscribe, 5000);
+            } else if (status === 'CLOSED') {
+              setIsSubscribed(false);
+              console.log('[Realtime] Messages subscription closed');
+            }
+          });
+
+        channelRef.current = channel;
+      };
+
+      subscribe();
+    },
+    [handleNewMessage, handleConversationChange]
+  );
+
+  // Initialize on mount
+  useEffect(() => {
+    if (!enabled) {
+      // Clean up if disabled
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+      return;
+    }
+
+    const init = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return;
+      }
+
+      userIdRef.current = user.id;
+      await fetchUnreadCount();
+      setupSubscription(user.id);
+    };
+
+    init();
+
+    // Cleanup on unmount
+    return () => {
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+    };
+  }, [enabled, fetchUnreadCount, setupSubscription]);
+
+  // Listen for auth state changes
+  useEffect(() => {
+    if (!enabled) return;
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange(async (event, session) => {
+      if (event === 'SIGNED_IN' && session?.user) {
+        userIdRef.current = session.user.id;
+        await fetchUnreadCount();
+        setupSubscription(session.user.id);
+      } else if (event === 'SIGNED_OUT') {
+        userIdRef.current = null;
+        setUnreadCount(0);
+        setIsSubscribed(false);
+        if (channelRef.current) {
+          supabase.removeChannel(channelRef.current);
+          channelRef.current = null;
+        }
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [enabled, fetchUnreadCount, setupSubscription]);
+
+  return {
+    unreadCount,
+    isSubscribed,
+    refetchCount: fetchUnreadCount,
+  };
+}
+
+export default useRealtimeMessages;
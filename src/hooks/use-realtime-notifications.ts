@@ -7,9 +7,12 @@
  * Notification count updates live without requiring a refresh.
  *
  * Features:
- * - Subscribes to INSERT events on the notifications table
+ * - Subscribes to INSERT, UPDATE and DELETE events on the notifications table
  * - Filters notifications to current user only
- * - Maintains unread count state
+ * - Maintains unread count state; updates and deletes refetch the count, as
+ *   Realtime only sends the primary key of the old row. Deletes are only
+ *   acted on for notifications in the cached list (they can't be filtered by
+ *   user_id, so other members' deletes arrive too)
  * - Handles reconnection on disconnect
  * - Cleans up subscription on unmount
  */
@@ -19,6 +22,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
 import type { RealtimeChannel, RealtimePostgresChangesPayload, User } from '@supabase/supabase-js';
 import type { Database } from '@/types/database';
+import { notificationQueryKeys } from '@/features/notifications/api/queries';
 
 type NotificationRow = Database['public']['Tables']['notifications']['Row'];
 
@@ -48,17 +52,22 @@ export function useRealtimeNotifications(
   const channelRef = useRef<RealtimeChannel | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [unreadCount, setUnreadCount] = useState(0);
+  const unreadCountRef = useRef(0);
   const [user, setUser] = useState<User | null>(null);
 
-  // Fetch initial unread count
-  const fetchUnreadCount = useCallback(async () => {
+  useEffect(() => {
+    unreadCountRef.current = unreadCount;
+  }, [unreadCount]);
+
+  // Fetch the unread count; resolves to null if the query failed
+  const fetchUnreadCount = useCallback(async (): Promise<number | null> => {
     const {
       data: { user: currentUser },
     } = await supabase.auth.getUser();
 
     if (!currentUser) {
       setUnreadCount(0);
-      return;
+      return 0;
     }
 
     setUser(currentUser);
@@ -71,10 +80,11 @@ export function useRealtimeNotifications(
 
     if (error) {
       console.error('[Realtime] Failed to fetch notification count:', error.message);
-      return;
+      return null;
     }
 
     setUnreadCount(count ?? 0);
+    return count ?? 0;
   }, []);
 
   // Handle new notification
@@ -92,16 +102,40 @@ export function useRealtimeNotifications(
         // Invalidate notifications query if it exists
         queryClient.invalidateQueries({ queryKey: ['notifications'] });
       } else if (payload.eventType === 'UPDATE') {
-        // If a notification was marked as read, decrement count
+        // payload.old only holds the id (RLS is enabled on notifications), so
+        // the previous read state is unknown: refetch the count instead
         const notification = payload.new;
-        const oldNotification = payload.old as NotificationRow;
+        const countBefore = unreadCountRef.current;
+
+        fetchUnreadCount().then((count) => {
+          // A collapsed like notification marked unread again by a new like
+          if (count !== null && count > countBefore && !notification.is_read) {
+            onNewNotification?.(notification);
+          }
+        });
 
-        if (!oldNotification.is_read && notification.is_read) {
-          setUnreadCount((prev) => Math.max(0, prev - 1));
+        // Unread rows are only updated by likes (new title and actor);
+        // marking as read invalidates the list where it happens
+        if (!notification.is_read) {
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+        }
+      } else if (payload.eventType === 'DELETE') {
+        // A collapsed like notification is removed once every like is
+        // withdrawn. Deletes can't be filtered by user_id and payload.old only
+        // holds the id, so skip ids that aren't in this user's list rather
+        // than refetching the count for every member's deletes
+        const deletedId = payload.old.id;
+        const isOwn = queryClient
+          .getQueryData<NotificationRow[]>(notificationQueryKeys.list())
+          ?.some((row) => row.id === deletedId);
+
+        if (isOwn) {
+          fetchUnreadCount();
+          queryClient.invalidateQueries({ queryKey: notificationQueryKeys.all });
         }
       }
     },
-    [queryClient, onNewNotification]
+    [queryClient, onNewNotification, fetchUnreadCount]
   );
 
   // Setup realtime subscription
@@ -119,7 +153,7 @@ export function useRealtimeNotifications(
         .on<NotificationRow>(
           'postgres_changes',
           {
-            event: '*', // Listen to all events (INSERT, UPDATE)
+            event: '*', // Listen to all events (INSERT, UPDATE, DELETE)
             schema: 'public',
             table: 'notifications',
             filter: `user_id=eq.${userId}`,
@@ -236,7 +270,9 @@ export function useRealtimeNotifications(
   return {
     unreadCount,
     isSubscribed: !!channelRef.current,
-    refetchCount: fetchUnreadCount,
+    refetchCount: async () => {
+      await fetchUnreadCount();
+    },
     markAllAsRead,
   };
 }
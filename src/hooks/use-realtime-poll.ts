@@ -0,0 +1,118 @@
+'use client';
+
+/**
+ * useRealtimePoll Hook
+ *
+ * Supabase Realtime subscription for one poll's results.
+ * Vote counts update live while the results are on screen.
+ *
+ * Features:
+ * - Subscribes to UPDATE events on poll_options filtered by poll_id
+ * - Writes the new vote counts straight into the React Query cache
+ * - Handles reconnection on disconnect
+ * - Cleans up subscription on unmount
+ */
+
+import { useEffect, useRef, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { pollQueryKeys, type Poll } from '@/features/community/types';
+
+type PollOptionRow = Database['public']['Tables']['poll_options']['Row'];
+
+interface UseRealtimePollOptions {
+  /** Whether the subscription should be active */
+  enabled?: boolean;
+}
+
+export function useRealtimePoll(pollId: number | null, options: UseRealtimePollOptions = {}) {
+  const { enabled = true } = options;
+  const queryClient = useQueryClient();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const handleOptionUpdate = useCallback(
+    (payload: RealtimePostgresChangesPayload<PollOptionRow>) => {
+      if (payload.eventType !== 'UPDATE' || !pollId) return;
+
+      const updated = payload.new;
+
+      // The payload has the new count, so no refetch is needed
+      queryClient.setQueryData<Poll>(pollQueryKeys.detail(pollId), (old) =>
+        old
+          ? {
+              ...old,
+              options: old.options.map((option) =>
+                option.id === updated.id ? { ...option, vote_count: updated.vote_count } : option
+              ),
+            }
+          : old
+      );
+    },
+    [queryClient, pollId]
+  );
+
+  useEffect(() => {
+    if (!enabled || !pollId) {
+      // Clean up if disabled
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+      return;
+    }
+
+    const subscribe = () => {
+      // Clean up existing channel
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+
+      // Create new channel for this poll's options
+      channelRef.current = supabase
+        .channel(`realtime-poll-${pollId}`)
+        .on<PollOptionRow>(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'poll_options',
+            filter: `poll_id=eq.${pollId}`,
+          },
+          handleOptionUpdate
+        )
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            console.log(`[Realtime] Poll ${pollId} subscription active`);
+          } else if (status === 'CHANNEL_ERROR') {
+            console.error('[Realtime] Poll subscription error, attempting reconnect...');
+            // Attempt reconnection after a delay
+            if (reconnectTimeoutRef.current) {
+              clearTimeout(reconnectTimeoutRef.current);
+            }
+            reconnectTimeoutRef.current = setTimeout(subscribe, 5000);
+          } else if (status === 'CLOSED') {
+            console.log(`[Realtime] Poll ${pollId} subscription closed`);
+          }
+        });
+    };
+
+    subscribe();
+
+    // Cleanup on unmount
+    return () => {
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+    };
+  }, [enabled, pollId, handleOptionUpdate]);
+}
+
+export default useRealtimePoll;
@@ -0,0 +1,326 @@
+'use client';
+
+/**
+ * useRealtimeThread Hook
+ *
+ * Supabase Realtime subscription for the thread detail page.
+ * Comments, deletions and reaction counts of one post update live, and
+ * members see who else is viewing or typing a comment.
+ *
+ * Features:
+ * - Subscribes to comment changes filtered by post_id and to updates of the post
+ * - Writes changes straight into the comment list and post detail caches;
+ *   only new or edited comments are fetched (for author and mentions)
+ * - Presence of other viewers with a typing indicator
+ * - Handles reconnection on disconnect
+ * - Cleans up subscription on unmount
+ */
+
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/client';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { findComment, insertComment, removeComment, updateComment } from '@/lib/comment-tree';
+import { toReactionCounts } from '@/lib/reactions';
+import { fetchComment } from '@/features/community/api/queries';
+import {
+  commentQueryKeys,
+  postQueryKeys,
+  type CommentWithAuthor,
+  type PostWithAuthor,
+} from '@/features/community/types';
+
+type CommentRow = Database['public']['Tables']['comments']['Row'];
+type PostRow = Database['public']['Tables']['posts']['Row'];
+
+/** How long a member counts as typing after their last keystroke */
+const TYPING_TIMEOUT_MS = 4000;
+
+/**
+ * Member viewing the thread
+ */
+export interface ThreadViewer {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  is_typing: boolean;
+}
+
+interface UseRealtimeThreadOptions {
+  /** Whether the subscription should be active */
+  enabled?: boolean;
+  /** The current member, shown to other viewers; anonymous visitors only watch */
+  viewer?: Omit<ThreadViewer, 'is_typing'> | null;
+}
+
+export function useRealtimeThread(postId: number | null, options: UseRealtimeThreadOptions = {}) {
+  const { enabled = true, viewer = null } = options;
+  const queryClient = useQueryClient();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const isTypingRef = useRef(false);
+  const [viewers, setViewers] = useState<ThreadViewer[]>([]);
+
+  const viewerId = viewer?.id ?? null;
+  const viewerName = viewer?.full_name ?? null;
+  const viewerAvatar = viewer?.avatar_url ?? null;
+
+  const setComments = useCallback(
+    (update: (comments: CommentWithAuthor[]) => CommentWithAuthor[]) => {
+      if (!postId) return;
+      queryClient.setQueryData<CommentWithAuthor[]>(commentQueryKeys.list(postId), (old) =>
+        old ? update(old) : old
+      );
+    },
+    [queryClient, postId]
+  );
+
+  // New and edited comments need their author and mentions, which the
+  // payload does not carry; the cached reaction of the current user is kept
+  const loadComment = useCallback(
+    async (commentId: number) => {
+      try {
+        const comment = await fetchComment(commentId);
+        if (!comment) return;
+        setComments((comments) =>
+          findComment(comments, commentId)
+            ? updateComment(comments, commentId, (cached) => ({
+                ...comment,
+                // Own anonymous comments are only recognized by fetchComments
+                author_id: cached.author_id,
+                is_liked: cached.is_liked,
+                my_reaction: cached.my_reaction,
+                replies: cached.replies,
+              }))
+            : insertComment(comments, comment)
+        );
+      } catch (error) {
+        console.error('[Realtime] Failed to load comment:', error);
+      }
+    },
+    [setComments]
+  );
+
+  const handleCommentChange = useCallback(
+    (payload: RealtimePostgresChangesPayload<CommentRow>) => {
+      if (payload.eventType === 'INSERT') {
+        if (!payload.new.is_hidden) loadComment(payload.new.id);
+        return;
+      }
+
+      if (payload.eventType === 'DELETE') {
+        const id = payload.old.id;
+        if (id) setComments((comments) => removeComment(comments, id));
+        return;
+      }
+
+      const row = payload.new;
+      if (row.is_hidden) {
+        setComments((comments) => removeComment(comments, row.id));
+        return;
+      }
+
+      let contentChanged = false;
+      setComments((comments) =>
+        updateComment(comments, row.id, (cached) => {
+          contentChanged = !row.deleted_at && cached.content !== row.content;
+          return {
+            ...cached,
+            content: row.content,
+            like_count: row.like_count,
+            reaction_counts: toReactionCounts(row.reaction_counts),
+            edited_at: row.edited_at,
+            deleted_at: row.deleted_at,
+            mentions: row.deleted_at ? [] : cached.mentions,
+          };
+        })
+      );
+      if (contentChanged) loadComment(row.id);
+    },
+    [loadComment, setComments]
+  );
+
+  const handlePostUpdate = useCallback(
+    (payload: RealtimePostgresChangesPayload<PostRow>) => {
+      if (payload.eventType !== 'UPDATE' || !postId) return;
+
+      const row = payload.new;
+      const cached = queryClient.getQueryData<PostWithAuthor>(postQueryKeys.detail(postId));
+      if (!cached) return;
+
+      // Edits change content, mentions and attachments; refetch those
+      if (row.edited_at !== cached.edited_at || row.is_hidden) {
+        queryClient.invalidateQueries({ queryKey: postQueryKeys.detail(postId) });
+        return;
+      }
+
+      queryClient.setQueryData<PostWithAuthor>(postQueryKeys.detail(postId), {
+        ...cached,
+        like_count: row.like_count,
+        reaction_counts: toReactionCounts(row.reaction_counts),
+        comment_count: row.comment_count,
+        repost_count: row.repost_count,
+      });
+    },
+    [queryClient, postId]
+  );
+
+  useEffect(() => {
+    if (!enabled || !postId) {
+      // Clean up if disabled
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+      return;
+    }
+
+    const subscribe = () => {
+      // Clean up existing channel
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+
+      const channel = supabase.channel(`realtime-thread-${postId}`, {
+        config: { presence: { key: viewerId ?? '' } },
+      });
+
+      channel
+        .on<CommentRow>(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'comments',
+            filter: `post_id=eq.${postId}`,
+          },
+          handleCommentChange
+        )
+        // Delete events cannot be filtered; ids of other posts' comments are
+        // simply not found in the cache
+        .on<CommentRow>(
+          'postgres_changes',
+          {
+            event: 'DELETE',
+            schema: 'public',
+            table: 'comments',
+          },
+          handleCommentChange
+        )
+        .on<PostRow>(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'posts',
+            filter: `id=eq.${postId}`,
+          },
+          handlePostUpdate
+        )
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<ThreadViewer>();
+          setViewers(
+            Object.entries(state).flatMap(([key, presences]) => {
+              const latest = presences[presences.length - 1];
+              if (!latest || key === viewerId) return [];
+              return [
+                {
+                  id: latest.id,
+                  full_name: latest.full_name,
+                  avatar_url: latest.avatar_url,
+                  // Typing in any of the member's open tabs
+                  is_typing: presences.some((presence) => presence.is_typing),
+                },
+              ];
+            })
+          );
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            console.log(`[Realtime] Thread ${postId} subscription active`);
+            if (viewerId) {
+              channel.track({
+                id: viewerId,
+                full_name: viewerName,
+                avatar_url: viewerAvatar,
+                is_typing: isTypingRef.current,
+              });
+            }
+          } else if (status === 'CHANNEL_ERROR') {
+            console.error('[Realtime] Thread subscription error, attempting reconnect...');
+            // Attempt reconnection after a delay
+            if (reconnectTimeoutRef.current) {
+              clearTimeout(reconnectTimeoutRef.current);
+            }
+            reconnectTimeoutRef.current = setTimeout(subscribe, 5000);
+          } else if (status === 'CLOSED') {
+            console.log(`[Realtime] Thread ${postId} subscription closed`);
+          }
+        });
+
+      channelRef.current = channel;
+    };
+
+    subscribe();
+
+    // Cleanup on unmount
+    return () => {
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+      }
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+      setViewers([]);
+    };
+  }, [
+    enabled,
+    postId,
+    viewerId,
+    viewerName,
+    viewerAvatar,
+    handleCommentChange,
+    handlePostUpdate,
+  ]);
+
+  const trackTyping = useCallback(
+    (isTyping: boolean) => {
+      if (isTypingRef.current === isTyping) return;
+      isTypingRef.current = isTyping;
+      if (!viewerId || !channelRef.current) return;
+      channelRef.current.track({
+        id: viewerId,
+        full_name: viewerName,
+        avatar_url: viewerAvatar,
+        is_typing: isTyping,
+      });
+    },
+    [viewerId, viewerName, viewerAvatar]
+  );
+
+  /**
+   * Marks the current member as typing until they pause for a few seconds
+   */
+  const notifyTyping = useCallback(() => {
+    trackTyping(true);
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    typingTimeoutRef.current = setTimeout(() => trackTyping(false), TYPING_TIMEOUT_MS);
+  }, [trackTyping]);
+
+  return {
+    /** Other members viewing the thread */
+    viewers,
+    notifyTyping,
+  };
+}
+
+export default useRealtimeThread;
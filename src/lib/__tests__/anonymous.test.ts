@@ -0,0 +1,90 @@
+/**
+ * Anonymous posting utility tests
+ *
+ * Tests rate limit error detection, what anonymous posts may carry, and
+ * restoring the author of the current user's own anonymous posts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isAnonymousRateLimitError,
+  canPostAnonymously,
+  withOwnAnonymousAuthor,
+} from '../anonymous';
+
+describe('isAnonymousRateLimitError', () => {
+  it('should detect rate limit errors', () => {
+    expect(
+      isAnonymousRateLimitError(
+        new Error('Failed to create post: anonymous_rate_limit: Too many anonymous posts, try again later')
+      )
+    ).toBe(true);
+  });
+
+  it('should ignore other errors', () => {
+    expect(isAnonymousRateLimitError(new Error('Failed to create post: permission denied'))).toBe(false);
+    expect(isAnonymousRateLimitError('anonymous_rate_limit')).toBe(false);
+    expect(isAnonymousRateLimitError(null)).toBe(false);
+  });
+});
+
+describe('canPostAnonymously', () => {
+  it('should allow polls on anonymous posts', () => {
+    const input = {
+      content: 'Which round was hardest to close?',
+      poll: { options: ['Seed', 'Series A'], allows_multiple: false, closes_at: null },
+      media_urls: [],
+      attachments: [],
+    };
+    expect(canPostAnonymously(input)).toBe(true);
+    expect(canPostAnonymously({})).toBe(true);
+  });
+
+  it('should reject images on anonymous posts', () => {
+    expect(
+      canPostAnonymously({
+        media_urls: ['https://example.supabase.co/storage/v1/object/public/post-media/user-1/a.png'],
+      })
+    ).toBe(false);
+  });
+
+  it('should reject attachments on anonymous posts', () => {
+    expect(
+      canPostAnonymously({
+        attachments: [
+          {
+            file_name: 'deck.pdf',
+            mime_type: 'application/pdf',
+            size_bytes: 1024,
+            storage_path: 'user-1/deck.pdf',
+          },
+        ],
+      })
+    ).toBe(false);
+  });
+});
+
+describe('withOwnAnonymousAuthor', () => {
+  const rows = [
+    { id: 1, author_id: null, is_anonymous: true },
+    { id: 2, author_id: null, is_anonymous: true },
+    { id: 3, author_id: 'user-2', is_anonymous: false },
+  ];
+
+  it('should fill in the author of own anonymous rows only', () => {
+    expect(withOwnAnonymousAuthor(rows, new Set([1]), 'user-1')).toEqual([
+      { id: 1, author_id: 'user-1', is_anonymous: true },
+      { id: 2, author_id: null, is_anonymous: true },
+      { id: 3, author_id: 'user-2', is_anonymous: false },
+    ]);
+  });
+
+  it('should not touch rows that are not anonymous', () => {
+    const result = withOwnAnonymousAuthor(rows, new Set([3]), 'user-1');
+    expect(result[2].author_id).toBe('user-2');
+  });
+
+  it('should return the rows as is without own anonymous rows', () => {
+    expect(withOwnAnonymousAuthor(rows, new Set(), 'user-1')).toBe(rows);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Attachment validation tests
+ *
+ * Tests file signature and active content checks, and the ClamAV INSTREAM
+ * client against a local clamd stub (no real daemon needed).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import {
+  inspectAttachment,
+  scanWithClamAV,
+  validateAttachment,
+  AttachmentRejectedError,
+} from '../attachment-scan';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/** Minimal stand-in for a zip package listing the given entry names */
+function fakeOoxml(...entries: string[]) {
+  return encode(`PK\u0003\u0004${['[Content_Types].xml', ...entries].join('PK\u0003\u0004')}`);
+}
+
+function rejectionReason(run: () => void) {
+  try {
+    run();
+  } catch (error) {
+    return error instanceof AttachmentRejectedError ? error.reason : 'other';
+  }
+  return null;
+}
+
+describe('inspectAttachment', () => {
+  it('should accept plain PDFs and Office documents of the claimed kind', () => {
+    expect(() => inspectAttachment(encode('%PDF-1.7\n1 0 obj << /Type /Catalog >>'), 'pdf')).not.toThrow();
+    expect(() => inspectAttachment(fakeOoxml('word/document.xml'), 'docx')).not.toThrow();
+    expect(() => inspectAttachment(fakeOoxml('ppt/presentation.xml'), 'pptx')).not.toThrow();
+    expect(() => inspectAttachment(fakeOoxml('xl/workbook.xml'), 'xlsx')).not.toThrow();
+  });
+
+  it('should reject renamed files', () => {
+    expect(rejectionReason(() => inspectAttachment(encode('MZ\u0090\u0000'), 'pdf'))).toBe('type');
+    expect(rejectionReason(() => inspectAttachment(encode('%PDF-1.4'), 'docx'))).toBe('type');
+    expect(rejectionReason(() => inspectAttachment(fakeOoxml('xl/workbook.xml'), 'pptx'))).toBe('type');
+  });
+
+  it('should reject scripts in PDFs and macros in Office documents', () => {
+    expect(
+      rejectionReason(() =>
+        inspectAttachment(encode('%PDF-1.7\n<< /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>'), 'pdf')
+      )
+    ).toBe('active_content');
+    expect(
+      rejectionReason(() => inspectAttachment(fakeOoxml('word/document.xml', 'word/vbaProject.bin'), 'docx'))
+    ).toBe('active_content');
+  });
+
+  it('should not treat longer PDF names as scripts', () => {
+    expect(() => inspectAttachment(encode('%PDF-1.7\n<< /JSON 1 /Launcher 2 >>'), 'pdf')).not.toThrow();
+  });
+});
+
+describe('scanWithClamAV', () => {
+  let server: Server;
+  let port: number;
+  const received: Buffer[] = [];
+
+  beforeAll(async () => {
+    server = createServer((socket) => {
+      const chunks: Buffer[] = [];
+      socket.on('data', (chunk) => {
+        chunks.push(chunk);
+        const data = Buffer.concat(chunks);
+        // Wait for the zero-length terminating chunk
+        if (!data.subarray(-4).equals(Buffer.alloc(4))) return;
+
+        received.push(data);
+        const infected = data.includes('EICAR');
+        socket.end(infected ? 'stream: Eicar-Test-Signature FOUND\0' : 'stream: OK\0');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should stream the file with INSTREAM framing and report clean files', async () => {
+    const result = await scanWithClamAV(encode('%PDF-1.7 clean'), { host: '127.0.0.1', port });
+
+    expect(result).toEqual({ infected: false, signature: null });
+
+    const request = received[received.length - 1];
+    expect(request.subarray(0, 10).toString()).toBe('zINSTREAM\0');
+    expect(request.readUInt32BE(10)).toBe(14);
+    expect(request.subarray(14, 28).toString()).toBe('%PDF-1.7 clean');
+  });
+
+  it('should report the signature of infected files', async () => {
+    await expect(
+      scanWithClamAV(encode('%PDF-1.7 EICAR'), { host: '127.0.0.1', port })
+    ).resolves.toEqual({ infected: true, signature: 'Eicar-Test-Signature' });
+
+    await expect(
+      validateAttachment(encode('%PDF-1.7 EICAR'), 'pdf', { host: '127.0.0.1', port })
+    ).rejects.toMatchObject({ reason: 'infected' });
+  });
+
+  it('should fail when clamd is unreachable', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    await expect(
+      scanWithClamAV(encode('%PDF-1.7'), { host: '127.0.0.1', port: closedPort, timeoutMs: 1000 })
+    ).rejects.toThrow('ClamAV unavailable');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Post attachment helper tests
+ *
+ * Tests type detection from file name and MIME type, the configurable size
+ * limit, file name sanitizing and size formatting.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  formatFileSize,
+  getAttachmentType,
+  getAttachmentTypeByMime,
+  getMaxAttachmentBytes,
+  sanitizeFileName,
+  ATTACHMENT_TYPES,
+} from '../attachments';
+
+describe('getAttachmentType', () => {
+  it('should accept allowed extensions with matching or unknown MIME types', () => {
+    expect(getAttachmentType('IR deck.pdf', 'application/pdf')).toBe('pdf');
+    expect(getAttachmentType('재무제표.XLSX', ATTACHMENT_TYPES.xlsx.mimeType)).toBe('xlsx');
+    expect(getAttachmentType('pitch.pptx', '')).toBe('pptx');
+    expect(getAttachmentType('contract.docx', 'application/octet-stream')).toBe('docx');
+  });
+
+  it('should reject other extensions and contradicting MIME types', () => {
+    expect(getAttachmentType('macro.docm', '')).toBeNull();
+    expect(getAttachmentType('setup.exe', 'application/pdf')).toBeNull();
+    expect(getAttachmentType('pdf', 'application/pdf')).toBeNull();
+    expect(getAttachmentType('invoice.pdf', 'application/x-msdownload')).toBeNull();
+  });
+});
+
+describe('getAttachmentTypeByMime', () => {
+  it('should map stored MIME types back to a type', () => {
+    expect(getAttachmentTypeByMime(ATTACHMENT_TYPES.pptx.mimeType)).toBe('pptx');
+    expect(getAttachmentTypeByMime('image/png')).toBeNull();
+  });
+});
+
+describe('getMaxAttachmentBytes', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should default to 10 MB', () => {
+    vi.stubEnv('NEXT_PUBLIC_POST_ATTACHMENT_MAX_MB', '');
+    expect(getMaxAttachmentBytes()).toBe(10 * 1024 * 1024);
+  });
+
+  it('should use the configured limit up to the bucket limit', () => {
+    vi.stubEnv('NEXT_PUBLIC_POST_ATTACHMENT_MAX_MB', '5');
+    expect(getMaxAttachmentBytes()).toBe(5 * 1024 * 1024);
+
+    vi.stubEnv('NEXT_PUBLIC_POST_ATTACHMENT_MAX_MB', '100');
+    expect(getMaxAttachmentBytes()).toBe(25 * 1024 * 1024);
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('should drop directories and control characters', () => {
+    expect(sanitizeFileName('C:\\Users\\me\\report.pdf')).toBe('report.pdf');
+    expect(sanitizeFileName('../../etc/pitch\u0000.pptx')).toBe('pitch.pptx');
+  });
+
+  it('should shorten long names and keep the extension', () => {
+    const name = sanitizeFileName(`${'a'.repeat(300)}.xlsx`);
+    expect(name).toHaveLength(255);
+    expect(name.endsWith('.xlsx')).toBe(true);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('should format bytes, kilobytes and megabytes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(820 * 1024)).toBe('820 KB');
+    expect(formatFileSize(2.44 * 1024 * 1024)).toBe('2.4 MB');
+    expect(formatFileSize(12.6 * 1024 * 1024)).toBe('13 MB');
+  });
+});
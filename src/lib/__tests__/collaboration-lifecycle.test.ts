@@ -0,0 +1,121 @@
+/**
+ * Collaboration lifecycle utility tests
+ *
+ * Tests status transitions per side of the request and proposal validation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getAllowedTransitions,
+  canTransition,
+  isFinalStatus,
+  isEngagedStatus,
+  canEditProposal,
+  parseProposalForm,
+  validateProposal,
+} from '../collaboration-lifecycle';
+
+describe('getAllowedTransitions', () => {
+  it('should let only the recipient respond to a pending request', () => {
+    expect(getAllowedTransitions('pending', 'recipient')).toEqual(['accepted', 'declined']);
+    expect(getAllowedTransitions('pending', 'sender')).toEqual(['cancelled']);
+  });
+
+  it('should let either side move accepted work along', () => {
+    for (const role of ['sender', 'recipient'] as const) {
+      expect(getAllowedTransitions('accepted', role)).toEqual(['in_progress', 'cancelled']);
+      expect(getAllowedTransitions('in_progress', role)).toEqual(['completed', 'disputed']);
+      expect(getAllowedTransitions('disputed', role)).toEqual(['in_progress', 'completed']);
+    }
+  });
+
+  it('should have no transitions out of final statuses', () => {
+    for (const status of ['completed', 'declined', 'cancelled'] as const) {
+      expect(getAllowedTransitions(status, 'sender')).toEqual([]);
+      expect(getAllowedTransitions(status, 'recipient')).toEqual([]);
+      expect(isFinalStatus(status)).toBe(true);
+    }
+    expect(isFinalStatus('disputed')).toBe(false);
+  });
+});
+
+describe('canTransition', () => {
+  it('should reject skipping states', () => {
+    expect(canTransition('pending', 'in_progress', 'recipient')).toBe(false);
+    expect(canTransition('accepted', 'completed', 'sender')).toBe(false);
+    expect(canTransition('in_progress', 'cancelled', 'sender')).toBe(false);
+    expect(canTransition('in_progress', 'disputed', 'sender')).toBe(true);
+  });
+});
+
+describe('status groups', () => {
+  it('should treat taken-on requests as engaged', () => {
+    expect(isEngagedStatus('accepted')).toBe(true);
+    expect(isEngagedStatus('completed')).toBe(true);
+    expect(isEngagedStatus('pending')).toBe(false);
+    expect(isEngagedStatus('declined')).toBe(false);
+  });
+
+  it('should allow proposals until work starts', () => {
+    expect(canEditProposal('pending')).toBe(true);
+    expect(canEditProposal('accepted')).toBe(true);
+    expect(canEditProposal('in_progress')).toBe(false);
+  });
+});
+
+describe('parseProposalForm', () => {
+  it('should turn blank fields into null and strip amount separators', () => {
+    expect(
+      parseProposalForm({
+        scope: '  Market research  ',
+        budgetMin: '1,000,000',
+        budgetMax: '',
+        timelineStart: '2026-04-01',
+        timelineEnd: '',
+      })
+    ).toEqual({
+      scope: 'Market research',
+      budget_min: 1000000,
+      budget_max: null,
+      timeline_start: '2026-04-01',
+      timeline_end: null,
+    });
+  });
+
+  it('should leave invalid amounts to validation', () => {
+    const proposal = parseProposalForm({
+      scope: '',
+      budgetMin: 'abc',
+      budgetMax: '',
+      timelineStart: '',
+      timelineEnd: '',
+    });
+
+    expect(validateProposal(proposal)).toBe('invalidBudget');
+  });
+});
+
+describe('validateProposal', () => {
+  it('should accept empty and well-formed proposals', () => {
+    expect(validateProposal({})).toBeNull();
+    expect(
+      validateProposal({
+        scope: 'Landing page',
+        budget_min: 1_000_000,
+        budget_max: 3_000_000,
+        timeline_start: '2026-03-01',
+        timeline_end: '2026-04-15',
+      })
+    ).toBeNull();
+  });
+
+  it('should reject inverted ranges and bad amounts', () => {
+    expect(validateProposal({ budget_min: 5, budget_max: 1 })).toBe('budgetRange');
+    expect(validateProposal({ budget_min: -1 })).toBe('invalidBudget');
+    expect(validateProposal({ budget_max: 1.5 })).toBe('invalidBudget');
+    expect(
+      validateProposal({ timeline_start: '2026-04-01', timeline_end: '2026-03-01' })
+    ).toBe('timelineRange');
+    expect(validateProposal({ scope: 'x'.repeat(2001) })).toBe('scopeTooLong');
+  });
+});
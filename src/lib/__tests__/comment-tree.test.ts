@@ -0,0 +1,139 @@
+/**
+ * Comment tree utility tests
+ *
+ * Tests nesting, pruning of deleted comments, reply counts, lookup and the
+ * live insert/update/remove helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCommentTree,
+  countDescendants,
+  findComment,
+  insertComment,
+  removeComment,
+  updateComment,
+  type TreeComment,
+} from '../comment-tree';
+
+function comment(id: number, parentId: number | null, deleted = false): TreeComment {
+  return { id, parent_id: parentId, deleted_at: deleted ? '2026-02-11T00:00:00Z' : null };
+}
+
+function ids(comments: TreeComment[]): unknown[] {
+  return comments.map((c) => (c.replies?.length ? [c.id, ids(c.replies)] : c.id));
+}
+
+describe('buildCommentTree', () => {
+  it('should nest replies at any depth in input order', () => {
+    const tree = buildCommentTree([
+      comment(1, null),
+      comment(2, 1),
+      comment(3, 2),
+      comment(4, 3),
+      comment(5, null),
+      comment(6, 1),
+    ]);
+    expect(ids(tree)).toEqual([[1, [[2, [[3, [4]]]], 6]], 5]);
+  });
+
+  it('should drop replies whose parent is missing', () => {
+    const tree = buildCommentTree([comment(1, null), comment(3, 2), comment(4, 3)]);
+    expect(ids(tree)).toEqual([1]);
+  });
+
+  it('should keep deleted comments that still have replies', () => {
+    const tree = buildCommentTree([comment(1, null, true), comment(2, 1)]);
+    expect(ids(tree)).toEqual([[1, [2]]]);
+    expect(tree[0].deleted_at).not.toBeNull();
+  });
+
+  it('should prune deleted comments without replies, including whole deleted branches', () => {
+    const tree = buildCommentTree([
+      comment(1, null),
+      comment(2, 1, true),
+      comment(3, 2, true),
+      comment(4, null, true),
+    ]);
+    expect(ids(tree)).toEqual([1]);
+  });
+
+  it('should not mutate the input', () => {
+    const input = [comment(1, null), comment(2, 1)];
+    buildCommentTree(input);
+    expect(input[0].replies).toBeUndefined();
+  });
+});
+
+describe('countDescendants', () => {
+  it('should count replies at every depth', () => {
+    const [root] = buildCommentTree([
+      comment(1, null),
+      comment(2, 1),
+      comment(3, 2),
+      comment(4, 1),
+    ]);
+    expect(countDescendants(root)).toBe(3);
+  });
+
+  it('should return 0 without replies', () => {
+    expect(countDescendants(comment(1, null))).toBe(0);
+  });
+});
+
+describe('findComment', () => {
+  const tree = buildCommentTree([comment(1, null), comment(2, 1), comment(3, 2), comment(4, null)]);
+
+  it('should find nested comments', () => {
+    expect(findComment(tree, 3)?.id).toBe(3);
+    expect(findComment(tree, 4)?.id).toBe(4);
+  });
+
+  it('should return null for unknown ids', () => {
+    expect(findComment(tree, 99)).toBeNull();
+  });
+});
+
+describe('insertComment', () => {
+  const tree = buildCommentTree([comment(1, null), comment(2, 1)]);
+
+  it('should append replies under their parent', () => {
+    expect(ids(insertComment(tree, comment(3, 2)))).toEqual([[1, [[2, [3]]]]]);
+  });
+
+  it('should append top-level comments', () => {
+    expect(ids(insertComment(tree, comment(3, null)))).toEqual([[1, [2]], 3]);
+  });
+
+  it('should ignore comments already in the tree or without a known parent', () => {
+    expect(insertComment(tree, comment(2, 1))).toBe(tree);
+    expect(insertComment(tree, comment(5, 4))).toBe(tree);
+  });
+});
+
+describe('updateComment', () => {
+  const tree = buildCommentTree([comment(1, null), comment(2, 1), comment(3, 2)]);
+
+  it('should replace a nested comment and keep its replies', () => {
+    const updated = updateComment(tree, 2, (c) => ({ ...c, deleted_at: '2026-02-11T00:00:00Z' }));
+    expect(findComment(updated, 2)?.deleted_at).not.toBeNull();
+    expect(ids(updated)).toEqual([[1, [[2, [3]]]]]);
+  });
+
+  it('should prune a comment deleted without replies', () => {
+    const updated = updateComment(tree, 3, (c) => ({ ...c, deleted_at: '2026-02-11T00:00:00Z' }));
+    expect(ids(updated)).toEqual([[1, [2]]]);
+  });
+});
+
+describe('removeComment', () => {
+  it('should remove a comment with its replies', () => {
+    const tree = buildCommentTree([comment(1, null), comment(2, 1), comment(3, 2), comment(4, 1)]);
+    expect(ids(removeComment(tree, 2))).toEqual([[1, [4]]]);
+  });
+
+  it('should prune deleted parents left without replies', () => {
+    const tree = buildCommentTree([comment(1, null, true), comment(2, 1)]);
+    expect(removeComment(tree, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * diffWords utility tests
+ *
+ * Tests the word-level diff used for post revision history.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffWords, type DiffSegment } from '../diff';
+
+function join(segments: DiffSegment[], skip: 'insert' | 'delete') {
+  return segments
+    .filter((s) => s.op !== skip)
+    .map((s) => s.text)
+    .join('');
+}
+
+describe('diffWords', () => {
+  it('should return a single equal segment for identical text', () => {
+    expect(diffWords('hello world', 'hello world')).toEqual([
+      { op: 'equal', text: 'hello world' },
+    ]);
+  });
+
+  it('should return nothing for two empty strings', () => {
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('should mark everything inserted when before is empty', () => {
+    expect(diffWords('', 'new post')).toEqual([{ op: 'insert', text: 'new post' }]);
+  });
+
+  it('should mark everything deleted when after is empty', () => {
+    expect(diffWords('old post', '')).toEqual([{ op: 'delete', text: 'old post' }]);
+  });
+
+  it('should detect a replaced word', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { op: 'equal', text: 'the ' },
+      { op: 'delete', text: 'quick' },
+      { op: 'insert', text: 'slow' },
+      { op: 'equal', text: ' fox' },
+    ]);
+  });
+
+  it('should merge adjacent segments with the same op', () => {
+    const segments = diffWords('a b', 'a b c d');
+    expect(segments).toEqual([
+      { op: 'equal', text: 'a b' },
+      { op: 'insert', text: ' c d' },
+    ]);
+  });
+
+  it('should reproduce both inputs including whitespace and newlines', () => {
+    const before = 'Line one\n\nLine  two with   spaces';
+    const after = 'Line one\nLine two with more spaces\n';
+    const segments = diffWords(before, after);
+
+    expect(join(segments, 'insert')).toBe(before);
+    expect(join(segments, 'delete')).toBe(after);
+  });
+});
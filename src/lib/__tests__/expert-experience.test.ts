@@ -0,0 +1,80 @@
+/**
+ * Expert experience utility tests
+ *
+ * Tests date validation, display order and years of experience.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateExperienceDates,
+  validateEducationDates,
+  sortHistoryEntries,
+  getNextSortOrder,
+  moveHistoryEntry,
+  getExperienceYears,
+} from '../expert-experience';
+
+const AS_OF = '2026-02-11';
+
+describe('validateExperienceDates', () => {
+  it('should require an end date in the past unless the position is current', () => {
+    expect(validateExperienceDates({ start_date: '2020-01-01', end_date: null, is_current: true }, AS_OF)).toBeNull();
+    expect(validateExperienceDates({ start_date: '2020-01-01', end_date: '2023-06-30' }, AS_OF)).toBeNull();
+    expect(validateExperienceDates({ start_date: '2020-01-01', end_date: null }, AS_OF)).toBe('endRequired');
+    expect(validateExperienceDates({ start_date: '2020-01-01', end_date: '2027-01-01' }, AS_OF)).toBe('endInFuture');
+  });
+
+  it('should reject periods that end before they start or start in the future', () => {
+    expect(validateExperienceDates({ start_date: '2022-01-01', end_date: '2021-01-01' }, AS_OF)).toBe('endBeforeStart');
+    expect(validateExperienceDates({ start_date: '2026-03-01', end_date: null, is_current: true }, AS_OF)).toBe('startInFuture');
+  });
+});
+
+describe('validateEducationDates', () => {
+  it('should allow ongoing studies and expected graduation dates', () => {
+    expect(validateEducationDates({ start_date: '2024-03-01', end_date: null }, AS_OF)).toBeNull();
+    expect(validateEducationDates({ start_date: '2024-03-01', end_date: '2028-02-28' }, AS_OF)).toBeNull();
+    expect(validateEducationDates({ start_date: '2024-03-01', end_date: '2023-02-28' }, AS_OF)).toBe('endBeforeStart');
+    expect(validateEducationDates({ start_date: '2026-09-01', end_date: null }, AS_OF)).toBe('startInFuture');
+  });
+});
+
+describe('ordering', () => {
+  const entries = [
+    { id: 1, sort_order: 1, start_date: '2015-01-01' },
+    { id: 2, sort_order: 0, start_date: '2010-01-01' },
+    { id: 3, sort_order: 1, start_date: '2020-01-01' },
+  ];
+
+  it('should order by sort_order, then most recent start first', () => {
+    expect(sortHistoryEntries(entries).map((e) => e.id)).toEqual([2, 3, 1]);
+    expect(getNextSortOrder(entries)).toBe(2);
+    expect(getNextSortOrder([])).toBe(0);
+  });
+
+  it('should renumber entries when one moves', () => {
+    expect(moveHistoryEntry(entries, 1, 'up')).toEqual([
+      { id: 2, sort_order: 0 },
+      { id: 1, sort_order: 1 },
+      { id: 3, sort_order: 2 },
+    ]);
+    expect(moveHistoryEntry(entries, 2, 'up')).toBeNull();
+    expect(moveHistoryEntry(entries, 1, 'down')).toBeNull();
+  });
+});
+
+describe('getExperienceYears', () => {
+  it('should count overlapping periods once and current positions up to today', () => {
+    expect(
+      getExperienceYears(
+        [
+          { start_date: '2016-02-11', end_date: '2020-02-11' },
+          { start_date: '2019-02-11', end_date: '2021-02-11' },
+          { start_date: '2023-02-11', end_date: null, is_current: true },
+        ],
+        AS_OF
+      )
+    ).toBe(8);
+    expect(getExperienceYears([], AS_OF)).toBe(0);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Expert profile change utility tests
+ *
+ * Tests the material field and work history diffs used for re-review of
+ * edited profiles.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getHistoryChanges,
+  getMaterialChanges,
+  hasMaterialChanges,
+  parseProfileSnapshot,
+  type ExpertHistorySnapshot,
+  type ExpertProfileSnapshot,
+} from '../expert-profile-changes';
+
+const reviewed: ExpertProfileSnapshot = {
+  business_name: 'Potential Labs',
+  business_registration_number: '123-45-67890',
+  category: 'marketing',
+  subcategories: [],
+  specialty: ['SEO', 'Growth'],
+  service_description: null,
+  bio: 'Ten years of growth marketing for early-stage startups.',
+  collaboration_needs: 'Seed-stage B2B SaaS teams',
+  experience_years: 10,
+  hourly_rate: 150000,
+  price_range_min: null,
+  price_range_max: null,
+  portfolio_url: 'https://example.com',
+  portfolio_files: ['user/portfolio/a.pdf'],
+  verification_documents: ['user/certificate/b.pdf'],
+};
+
+describe('getMaterialChanges', () => {
+  it('should list changed fields in display order', () => {
+    const changes = getMaterialChanges(reviewed, {
+      ...reviewed,
+      hourly_rate: 200000,
+      specialty: ['SEO', 'Growth', 'CRM'],
+    });
+
+    expect(changes).toEqual([
+      { field: 'specialty', before: ['SEO', 'Growth'], after: ['SEO', 'Growth', 'CRM'] },
+      { field: 'hourly_rate', before: 150000, after: 200000 },
+    ]);
+  });
+
+  it('should treat empty values alike', () => {
+    expect(
+      getMaterialChanges(
+        { ...reviewed, service_description: '', subcategories: [] },
+        { ...reviewed, service_description: null, subcategories: [] }
+      )
+    ).toEqual([]);
+  });
+
+  it('should compare missing snapshot fields as empty', () => {
+    const partial = { ...reviewed, portfolio_url: undefined };
+    expect(getMaterialChanges(partial, reviewed).map((c) => c.field)).toEqual(['portfolio_url']);
+    expect(hasMaterialChanges(reviewed, { ...reviewed })).toBe(false);
+  });
+});
+
+describe('getHistoryChanges', () => {
+  const history: ExpertHistorySnapshot = {
+    experiences: [
+      {
+        company: 'Potential Labs',
+        position: 'Head of Growth',
+        location: 'Seoul',
+        description: null,
+        category: null,
+        start_date: '2021-03-01',
+        end_date: null,
+      },
+      {
+        company: 'Startup Co',
+        position: 'Marketer',
+        location: null,
+        description: null,
+        category: 'marketing',
+        start_date: '2016-01-01',
+        end_date: '2021-02-28',
+      },
+    ],
+    education: [
+      {
+        institution: 'Seoul National University',
+        degree: "Bachelor's",
+        field: 'Business Administration',
+        description: null,
+        start_date: '2010-03-01',
+        end_date: '2015-02-28',
+      },
+    ],
+  };
+
+  it('should ignore the order of entries and empty values', () => {
+    expect(
+      getHistoryChanges(history, {
+        ...history,
+        experiences: [
+          history.experiences[1],
+          { ...history.experiences[0], description: '' },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it('should show an edited entry as removed and added', () => {
+    const edited = { ...history.experiences[1], end_date: '2020-12-31' };
+    expect(
+      getHistoryChanges(history, { ...history, experiences: [history.experiences[0], edited] })
+    ).toEqual([{ field: 'experiences', added: [edited], removed: [history.experiences[1]] }]);
+  });
+
+  it('should compare missing snapshot lists as empty', () => {
+    expect(getHistoryChanges({ experiences: history.experiences }, history)).toEqual([
+      { field: 'education', added: history.education, removed: [] },
+    ]);
+    expect(getHistoryChanges(history, { ...history, education: [] })).toEqual([
+      { field: 'education', added: [], removed: history.education },
+    ]);
+  });
+});
+
+describe('parseProfileSnapshot', () => {
+  it('should only accept objects', () => {
+    expect(parseProfileSnapshot(null)).toBeNull();
+    expect(parseProfileSnapshot(['a'])).toBeNull();
+    expect(parseProfileSnapshot({ bio: 'x' })).toEqual({ bio: 'x' });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Hashtag utility tests
+ *
+ * Tests hashtag parsing, segment splitting and tag normalization.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractHashtags, normalizeTag, splitHashtags } from '../hashtags';
+
+describe('extractHashtags', () => {
+  it('should find distinct lowercased Korean and English tags', () => {
+    expect(extractHashtags('시드 라운드 후기 #투자 #SaaS #투자')).toEqual(['투자', 'saas']);
+  });
+
+  it('should stop a tag at punctuation', () => {
+    expect(extractHashtags('#채용, #정부지원!')).toEqual(['채용', '정부지원']);
+  });
+
+  it('should ignore numbers, URL fragments and HTML entities', () => {
+    expect(extractHashtags('#1 priority')).toEqual([]);
+    expect(extractHashtags('https://example.com/#section and page#top')).toEqual([]);
+    expect(extractHashtags('&#123;')).toEqual([]);
+  });
+
+  it('should ignore tags longer than 30 characters', () => {
+    expect(extractHashtags(`#${'a'.repeat(31)}`)).toEqual([]);
+  });
+});
+
+describe('splitHashtags', () => {
+  it('should split text and hashtag segments', () => {
+    expect(splitHashtags('공고 공유 #정부지원 확인하세요')).toEqual([
+      { type: 'text', text: '공고 공유 ' },
+      { type: 'hashtag', text: '#정부지원', tag: '정부지원' },
+      { type: 'text', text: ' 확인하세요' },
+    ]);
+  });
+
+  it('should return the text as is without hashtags', () => {
+    expect(splitHashtags('no tags here')).toEqual([{ type: 'text', text: 'no tags here' }]);
+  });
+});
+
+describe('normalizeTag', () => {
+  it('should strip the # and lowercase', () => {
+    expect(normalizeTag(' #SaaS ')).toBe('saas');
+    expect(normalizeTag('투자')).toBe('투자');
+  });
+
+  it('should reject invalid tags', () => {
+    expect(normalizeTag('')).toBeNull();
+    expect(normalizeTag('123')).toBeNull();
+    expect(normalizeTag('two words')).toBeNull();
+  });
+});
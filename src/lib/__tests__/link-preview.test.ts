@@ -0,0 +1,227 @@
+/**
+ * Link preview fetching tests
+ *
+ * Tests OpenGraph parsing, private address detection, and fetching against
+ * a local HTTP stub server (never the live internet). DNS answers for the
+ * .test hosts are mocked.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { lookup } from 'node:dns/promises';
+import {
+  fetchLinkPreview,
+  isPrivateAddress,
+  parseOpenGraph,
+  LinkPreviewBlockedError,
+} from '../link-preview';
+
+vi.mock('node:dns/promises', async () => {
+  const actual = await vi.importActual<typeof import('node:dns/promises')>('node:dns/promises');
+  const mocked = { ...actual, lookup: vi.fn(actual.lookup) };
+  return { ...mocked, default: mocked };
+});
+
+/** Answers the next DNS lookup with the given address */
+function mockLookupOnce(address: string) {
+  vi.mocked(lookup).mockResolvedValueOnce([{ address, family: 4 }] as never);
+}
+
+describe('parseOpenGraph', () => {
+  it('should read og tags in either attribute order', () => {
+    const html = `
+      <head>
+        <meta property="og:title" content="Seed &amp; Series A guide">
+        <meta content="How to raise" property="og:description" />
+        <meta property="og:image" content="/images/cover.png">
+        <meta property="og:site_name" content="Startup Blog">
+        <title>Ignored</title>
+      </head>`;
+
+    expect(parseOpenGraph(html, 'https://blog.example.com/posts/1')).toEqual({
+      title: 'Seed & Series A guide',
+      description: 'How to raise',
+      image_url: 'https://blog.example.com/images/cover.png',
+      site_name: 'Startup Blog',
+    });
+  });
+
+  it('should fall back to twitter tags, <title> and the host name', () => {
+    const html = `
+      <title> 2026 예비창업패키지 공고 </title>
+      <meta name="description" content="모집 안내">
+      <meta name="twitter:image" content="https://cdn.example.com/a.jpg">`;
+
+    expect(parseOpenGraph(html, 'https://www.k-startup.go.kr/notice')).toEqual({
+      title: '2026 예비창업패키지 공고',
+      description: '모집 안내',
+      image_url: 'https://cdn.example.com/a.jpg',
+      site_name: 'k-startup.go.kr',
+    });
+  });
+
+  it('should return null without a title', () => {
+    expect(parseOpenGraph('<meta name="description" content="x">', 'https://a.com')).toBeNull();
+  });
+
+  it('should ignore non-http image URLs', () => {
+    const html = '<meta property="og:title" content="T"><meta property="og:image" content="javascript:alert(1)">';
+    expect(parseOpenGraph(html, 'https://a.com')?.image_url).toBeNull();
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('should flag loopback, private and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.0.10', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should flag IPv4-mapped addresses in hex form', () => {
+    // new URL('http://[::ffff:127.0.0.1]/').hostname is '[::ffff:7f00:1]'
+    for (const address of ['::ffff:7f00:1', '::ffff:a9fe:a9fe', '::FFFF:0A00:0001', '0:0:0:0:0:ffff:c0a8:1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should flag IPv4-compatible, NAT64 and 6to4 forms of private addresses', () => {
+    for (const address of ['::7f00:1', '::127.0.0.1', '64:ff9b::7f00:1', '64:ff9b::169.254.169.254', '2002:a9fe:a9fe::1', '64:ff9b:1::1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should treat unparseable addresses as private', () => {
+    for (const address of ['not-an-ip', '']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '211.234.10.5', '2001:4860:4860::8888', '::ffff:808:808', '64:ff9b::808:808', '2002:808:808::1']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('fetchLinkPreview', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case '/article':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(
+            '<html><head><meta property="og:title" content="Local article"><meta property="og:image" content="/cover.png"></head><body></body></html>'
+          );
+          break;
+        case '/euc-kr':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=euc-kr' });
+          // "공고" in EUC-KR
+          res.end(Buffer.from([0x3c, 0x74, 0x69, 0x74, 0x6c, 0x65, 0x3e, 0xb0, 0xf8, 0xb0, 0xed, 0x3c, 0x2f, 0x74, 0x69, 0x74, 0x6c, 0x65, 0x3e]));
+          break;
+        case '/redirect':
+          res.writeHead(302, { Location: '/article' });
+          res.end();
+          break;
+        case '/loop':
+          res.writeHead(302, { Location: '/loop' });
+          res.end();
+          break;
+        case '/image.png':
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.end(Buffer.alloc(10));
+          break;
+        case '/slow':
+          setTimeout(() => {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end('<title>Too late</title>');
+          }, 500);
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const local = { allowPrivateHosts: true };
+
+  it('should read the preview from the stub page', async () => {
+    expect(await fetchLinkPreview(`${baseUrl}/article#comments`, local)).toEqual({
+      url: `${baseUrl}/article`,
+      title: 'Local article',
+      description: null,
+      image_url: `${baseUrl}/cover.png`,
+      site_name: '127.0.0.1',
+    });
+  });
+
+  it('should follow redirects and keep the requested URL', async () => {
+    const preview = await fetchLinkPreview(`${baseUrl}/redirect`, local);
+    expect(preview?.url).toBe(`${baseUrl}/redirect`);
+    expect(preview?.title).toBe('Local article');
+  });
+
+  it('should decode the charset from the Content-Type header', async () => {
+    expect((await fetchLinkPreview(`${baseUrl}/euc-kr`, local))?.title).toBe('공고');
+  });
+
+  it('should return null for non-HTML responses', async () => {
+    expect(await fetchLinkPreview(`${baseUrl}/image.png`, local)).toBeNull();
+  });
+
+  it('should fail on error statuses, redirect loops and timeouts', async () => {
+    await expect(fetchLinkPreview(`${baseUrl}/missing`, local)).rejects.toThrow('404');
+    await expect(fetchLinkPreview(`${baseUrl}/loop`, local)).rejects.toThrow('Too many redirects');
+    await expect(
+      fetchLinkPreview(`${baseUrl}/slow`, { ...local, timeoutMs: 100 })
+    ).rejects.toThrow();
+  });
+
+  it('should refuse private hosts unless explicitly allowed', async () => {
+    await expect(fetchLinkPreview(`${baseUrl}/article`)).rejects.toBeInstanceOf(
+      LinkPreviewBlockedError
+    );
+    await expect(fetchLinkPreview('http://localhost/article')).rejects.toBeInstanceOf(
+      LinkPreviewBlockedError
+    );
+    const port = (server.address() as AddressInfo).port;
+    await expect(
+      fetchLinkPreview(`http://[::ffff:127.0.0.1]:${port}/article`)
+    ).rejects.toBeInstanceOf(LinkPreviewBlockedError);
+  });
+
+  it('should connect to the checked address instead of resolving the host again', async () => {
+    const port = (server.address() as AddressInfo).port;
+    mockLookupOnce('127.0.0.1');
+
+    // A second lookup would fail: .test names don't resolve
+    const preview = await fetchLinkPreview(`http://rebind.test:${port}/article`, local);
+    expect(preview?.title).toBe('Local article');
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse hosts that resolve to private addresses', async () => {
+    mockLookupOnce('10.0.0.5');
+    await expect(fetchLinkPreview('http://rebind.test/article')).rejects.toBeInstanceOf(
+      LinkPreviewBlockedError
+    );
+  });
+
+  it('should refuse unsupported URLs', async () => {
+    await expect(fetchLinkPreview('file:///etc/passwd')).rejects.toBeInstanceOf(
+      LinkPreviewBlockedError
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Mention utility tests
+ *
+ * Tests @username parsing, segment splitting and autocomplete editing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractMentions, getActiveMention, insertMention, splitMentions } from '../mentions';
+
+describe('extractMentions', () => {
+  it('should find distinct lowercased usernames', () => {
+    expect(extractMentions('@kim_ceo 님, @Park-dev 확인 부탁드려요 @kim_ceo')).toEqual([
+      'kim_ceo',
+      'park-dev',
+    ]);
+  });
+
+  it('should ignore e-mail addresses and short or long handles', () => {
+    expect(extractMentions('mail me at founder@startup.kr')).toEqual([]);
+    expect(extractMentions('@ab')).toEqual([]);
+    expect(extractMentions('@abcdefghijklmnopqrstu')).toEqual([]);
+  });
+
+  it('should allow a mention right after Korean text', () => {
+    expect(extractMentions('안녕하세요@jisoo')).toEqual(['jisoo']);
+  });
+});
+
+describe('splitMentions', () => {
+  it('should link only known usernames', () => {
+    expect(splitMentions('thanks @jisoo and @nobody!', ['jisoo'])).toEqual([
+      { type: 'text', text: 'thanks ' },
+      { type: 'mention', text: '@jisoo', username: 'jisoo' },
+      { type: 'text', text: ' and @nobody!' },
+    ]);
+  });
+
+  it('should match case-insensitively', () => {
+    expect(splitMentions('@JiSoo', ['jisoo'])).toEqual([
+      { type: 'mention', text: '@JiSoo', username: 'jisoo' },
+    ]);
+  });
+
+  it('should return the text as is without known usernames', () => {
+    expect(splitMentions('hi @jisoo', [])).toEqual([{ type: 'text', text: 'hi @jisoo' }]);
+  });
+});
+
+describe('getActiveMention', () => {
+  it('should return the query being typed at the caret', () => {
+    expect(getActiveMention('hello @ji', 9)).toEqual({ query: 'ji', start: 6 });
+    expect(getActiveMention('@', 1)).toEqual({ query: '', start: 0 });
+  });
+
+  it('should return null outside of a mention', () => {
+    expect(getActiveMention('hello @jisoo done', 17)).toBeNull();
+    expect(getActiveMention('me@mail', 7)).toBeNull();
+  });
+});
+
+describe('insertMention', () => {
+  it('should replace the query with the username and move the caret', () => {
+    const text = 'hello @ji';
+    const mention = getActiveMention(text, text.length)!;
+
+    expect(insertMention(text, mention, text.length, 'jisoo')).toEqual({
+      text: 'hello @jisoo ',
+      caret: 13,
+    });
+  });
+
+  it('should replace the rest of a partially typed handle', () => {
+    const text = 'hello @jis there';
+    const mention = getActiveMention(text, 9)!;
+
+    expect(insertMention(text, mention, 9, 'jisoo')).toEqual({
+      text: 'hello @jisoo there',
+      caret: 13,
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Direct message utility tests
+ *
+ * Tests merging realtime messages, read receipts and inbox previews.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mergeMessage,
+  isMessageRead,
+  getLastReadMessageId,
+  getMessagePreview,
+} from '../messages';
+
+const message = (id: number, created_at: string, sender_id = 'me') => ({
+  id,
+  created_at,
+  sender_id,
+});
+
+describe('mergeMessage', () => {
+  it('should insert messages in chronological order', () => {
+    const messages = [message(1, '2026-02-11T10:00:00Z'), message(3, '2026-02-11T10:02:00Z')];
+
+    expect(mergeMessage(messages, message(2, '2026-02-11T10:01:00Z')).map((m) => m.id)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(mergeMessage(messages, message(4, '2026-02-11T10:03:00Z')).map((m) => m.id)).toEqual([
+      1, 3, 4,
+    ]);
+  });
+
+  it('should replace a message that is already loaded', () => {
+    const messages = [message(1, '2026-02-11T10:00:00Z'), message(2, '2026-02-11T10:01:00Z')];
+    const merged = mergeMessage(messages, { ...message(2, '2026-02-11T10:01:00Z'), sender_id: 'x' });
+
+    expect(merged).toHaveLength(2);
+    expect(merged[1].sender_id).toBe('x');
+  });
+
+  it('should order messages with the same time by id', () => {
+    const messages = [message(5, '2026-02-11T10:00:00Z')];
+
+    expect(mergeMessage(messages, message(4, '2026-02-11T10:00:00Z')).map((m) => m.id)).toEqual([
+      4, 5,
+    ]);
+  });
+});
+
+describe('isMessageRead', () => {
+  it('should compare the message time with the read pointer', () => {
+    const sent = message(1, '2026-02-11T10:00:00Z');
+
+    expect(isMessageRead(sent, '2026-02-11T10:00:00Z')).toBe(true);
+    expect(isMessageRead(sent, '2026-02-11T10:05:00+00:00')).toBe(true);
+    expect(isMessageRead(sent, '2026-02-11T09:59:59Z')).toBe(false);
+    expect(isMessageRead(sent, null)).toBe(false);
+  });
+});
+
+describe('getLastReadMessageId', () => {
+  const messages = [
+    message(1, '2026-02-11T10:00:00Z'),
+    message(2, '2026-02-11T10:01:00Z', 'other'),
+    message(3, '2026-02-11T10:02:00Z'),
+    message(4, '2026-02-11T10:03:00Z'),
+  ];
+
+  it('should pick the newest own message that was read', () => {
+    expect(getLastReadMessageId(messages, 'me', '2026-02-11T10:02:30Z')).toBe(3);
+    expect(getLastReadMessageId(messages, 'me', '2026-02-11T10:05:00Z')).toBe(4);
+  });
+
+  it('should be null when nothing was read or without a user', () => {
+    expect(getLastReadMessageId(messages, 'me', '2026-02-11T09:00:00Z')).toBeNull();
+    expect(getLastReadMessageId(messages, null, '2026-02-11T10:05:00Z')).toBeNull();
+  });
+});
+
+describe('getMessagePreview', () => {
+  it('should collapse whitespace into one line', () => {
+    expect(getMessagePreview('Hello\n\n  there ')).toBe('Hello there');
+    expect(getMessagePreview(null)).toBe('');
+  });
+
+  it('should truncate long messages', () => {
+    const preview = getMessagePreview('a'.repeat(100), 10);
+    expect(preview).toHaveLength(10);
+    expect(preview.endsWith('…')).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Pin utility tests
+ *
+ * Tests pin expiry and the conversion of picked expiry dates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isPinActive, toPinnedUntil } from '../pins';
+
+describe('isPinActive', () => {
+  const now = new Date('2026-02-11T12:00:00Z');
+
+  it('should be inactive for unpinned posts', () => {
+    expect(isPinActive({ is_pinned: false, pinned_until: null }, now)).toBe(false);
+  });
+
+  it('should stay active without an expiry', () => {
+    expect(isPinActive({ is_pinned: true, pinned_until: null }, now)).toBe(true);
+  });
+
+  it('should expire once pinned_until has passed', () => {
+    expect(isPinActive({ is_pinned: true, pinned_until: '2026-02-12T00:00:00Z' }, now)).toBe(true);
+    expect(isPinActive({ is_pinned: true, pinned_until: '2026-02-11T12:00:00Z' }, now)).toBe(false);
+    expect(isPinActive({ is_pinned: true, pinned_until: '2026-02-10T00:00:00Z' }, now)).toBe(false);
+  });
+});
+
+describe('toPinnedUntil', () => {
+  it('should return the end of the picked day in local time', () => {
+    const result = toPinnedUntil('2026-02-20');
+    expect(result).not.toBeNull();
+
+    const date = new Date(result!);
+    expect(date.getFullYear()).toBe(2026);
+    expect(date.getMonth()).toBe(1);
+    expect(date.getDate()).toBe(20);
+    expect(date.getHours()).toBe(23);
+    expect(date.getMinutes()).toBe(59);
+  });
+
+  it('should return null for empty or invalid dates', () => {
+    expect(toPinnedUntil('')).toBeNull();
+    expect(toPinnedUntil('20-02-2026')).toBeNull();
+    expect(toPinnedUntil('2026-02-30')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Poll utility tests
+ *
+ * Tests option normalization, poll validation and vote percentages.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getVotePercentages, isValidPoll, normalizePollOptions } from '../polls';
+
+describe('normalizePollOptions', () => {
+  it('should trim options and drop blank ones', () => {
+    expect(normalizePollOptions(['  시드 ', '', '   ', '시리즈 A'])).toEqual(['시드', '시리즈 A']);
+  });
+
+  it('should drop case-insensitive duplicates keeping the first', () => {
+    expect(normalizePollOptions(['SaaS', 'saas ', 'B2C'])).toEqual(['SaaS', 'B2C']);
+  });
+});
+
+describe('isValidPoll', () => {
+  it('should need at least two distinct options', () => {
+    expect(isValidPoll(['Yes', ''])).toBe(false);
+    expect(isValidPoll(['Yes', 'yes'])).toBe(false);
+    expect(isValidPoll(['Yes', 'No'])).toBe(true);
+  });
+
+  it('should allow at most six options', () => {
+    expect(isValidPoll(['1', '2', '3', '4', '5', '6'])).toBe(true);
+    expect(isValidPoll(['1', '2', '3', '4', '5', '6', '7'])).toBe(false);
+  });
+
+  it('should reject options longer than 80 characters', () => {
+    expect(isValidPoll(['a'.repeat(81), 'b'])).toBe(false);
+  });
+});
+
+describe('getVotePercentages', () => {
+  it('should return zeros when nobody voted', () => {
+    expect(getVotePercentages([0, 0, 0])).toEqual([0, 0, 0]);
+  });
+
+  it('should always add up to 100', () => {
+    const percentages = getVotePercentages([1, 1, 1]);
+    expect(percentages.reduce((sum, value) => sum + value, 0)).toBe(100);
+    expect(percentages).toEqual([34, 33, 33]);
+  });
+
+  it('should give the rounding remainder to the largest fractions', () => {
+    expect(getVotePercentages([2, 1])).toEqual([67, 33]);
+    expect(getVotePercentages([5, 0])).toEqual([100, 0]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Reaction utility tests
+ *
+ * Tests parsing reaction counts, switching reactions and the top reactions
+ * summary.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyReactionChange,
+  getReactionEmoji,
+  getTopReactions,
+  isReactionType,
+  toReactionCounts,
+} from '../reactions';
+
+describe('isReactionType', () => {
+  it('should accept the reaction set only', () => {
+    expect(isReactionType('celebrate')).toBe(true);
+    expect(isReactionType('angry')).toBe(false);
+    expect(isReactionType(null)).toBe(false);
+  });
+});
+
+describe('getReactionEmoji', () => {
+  it('should return the emoji of a reaction', () => {
+    expect(getReactionEmoji('like')).toBe('👍');
+    expect(getReactionEmoji('insightful')).toBe('💡');
+  });
+});
+
+describe('toReactionCounts', () => {
+  it('should keep known reactions with positive counts', () => {
+    expect(toReactionCounts({ like: 3, love: 0, angry: 2, funny: 1 })).toEqual({
+      like: 3,
+      funny: 1,
+    });
+  });
+
+  it('should return no counts for non-object values', () => {
+    expect(toReactionCounts(null)).toEqual({});
+    expect(toReactionCounts('{"like":1}')).toEqual({});
+    expect(toReactionCounts([1, 2])).toEqual({});
+  });
+
+  it('should ignore non-numeric counts', () => {
+    expect(toReactionCounts({ like: '2', love: 1 })).toEqual({ love: 1 });
+  });
+});
+
+describe('applyReactionChange', () => {
+  it('should add a reaction', () => {
+    expect(applyReactionChange({ like: 1 }, null, 'love')).toEqual({ like: 1, love: 1 });
+  });
+
+  it('should remove a reaction and drop zero counts', () => {
+    expect(applyReactionChange({ like: 1, love: 2 }, 'like', null)).toEqual({ love: 2 });
+  });
+
+  it('should move a count when switching reactions', () => {
+    expect(applyReactionChange({ like: 2 }, 'like', 'thanks')).toEqual({ like: 1, thanks: 1 });
+  });
+
+  it('should not change counts for the same reaction', () => {
+    const counts = { like: 2 };
+    expect(applyReactionChange(counts, 'like', 'like')).toBe(counts);
+  });
+
+  it('should not mutate the input', () => {
+    const counts = { like: 1 };
+    applyReactionChange(counts, 'like', 'love');
+    expect(counts).toEqual({ like: 1 });
+  });
+});
+
+describe('getTopReactions', () => {
+  it('should order by count', () => {
+    expect(getTopReactions({ like: 1, funny: 5, love: 3 })).toEqual(['funny', 'love', 'like']);
+  });
+
+  it('should keep display order for ties and respect the limit', () => {
+    expect(getTopReactions({ thanks: 2, like: 2, love: 2, celebrate: 2 }, 2)).toEqual([
+      'like',
+      'love',
+    ]);
+  });
+
+  it('should return nothing without reactions', () => {
+    expect(getTopReactions({})).toEqual([]);
+  });
+});
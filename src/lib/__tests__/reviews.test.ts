@@ -0,0 +1,51 @@
+/**
+ * Review utility tests
+ *
+ * Tests rating validation, average formatting and the per-star distribution.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isValidRating, formatRating, getRatingDistribution } from '../reviews';
+
+describe('isValidRating', () => {
+  it('should accept whole stars from 1 to 5', () => {
+    expect([1, 2, 3, 4, 5].every(isValidRating)).toBe(true);
+  });
+
+  it('should reject out of range and fractional ratings', () => {
+    expect(isValidRating(0)).toBe(false);
+    expect(isValidRating(6)).toBe(false);
+    expect(isValidRating(4.5)).toBe(false);
+    expect(isValidRating(NaN)).toBe(false);
+  });
+});
+
+describe('formatRating', () => {
+  it('should format averages with one decimal', () => {
+    expect(formatRating(4.67)).toBe('4.7');
+    expect(formatRating(4.25)).toBe('4.3');
+    expect(formatRating(5)).toBe('5.0');
+  });
+
+  it('should be empty without a rating', () => {
+    expect(formatRating(null)).toBe('');
+    expect(formatRating(undefined)).toBe('');
+  });
+});
+
+describe('getRatingDistribution', () => {
+  it('should count reviews per star from 5 down to 1', () => {
+    expect(getRatingDistribution([{ rating: 5 }, { rating: 4 }, { rating: 5 }, { rating: 1 }])).toEqual([
+      { rating: 5, count: 2 },
+      { rating: 4, count: 1 },
+      { rating: 3, count: 0 },
+      { rating: 2, count: 0 },
+      { rating: 1, count: 1 },
+    ]);
+  });
+
+  it('should ignore invalid ratings', () => {
+    const distribution = getRatingDistribution([{ rating: 0 }, { rating: 3.5 }, { rating: 3 }]);
+    expect(distribution.reduce((sum, { count }) => sum + count, 0)).toBe(1);
+  });
+});
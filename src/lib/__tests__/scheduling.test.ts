@@ -0,0 +1,116 @@
+/**
+ * Scheduling utility tests
+ *
+ * Tests Seoul date keys, slot grouping, availability windows and .ics output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  toSeoulDateKey,
+  dateKeyFromPickerDate,
+  pickerDateFromDateKey,
+  addDaysToDateKey,
+  groupSlotsByDate,
+  parseTimeOfDay,
+  isValidAvailabilityWindow,
+  escapeIcsText,
+  foldIcsLine,
+  buildIcsCalendar,
+} from '../scheduling';
+
+describe('toSeoulDateKey', () => {
+  it('should use the Seoul calendar date', () => {
+    // 15:30 UTC is already the next day in Seoul
+    expect(toSeoulDateKey('2026-03-01T15:30:00Z')).toBe('2026-03-02');
+    expect(toSeoulDateKey('2026-03-01T14:59:00Z')).toBe('2026-03-01');
+  });
+});
+
+describe('picker date keys', () => {
+  it('should round-trip local picker dates', () => {
+    const date = pickerDateFromDateKey('2026-12-31');
+    expect(date.getFullYear()).toBe(2026);
+    expect(date.getMonth()).toBe(11);
+    expect(date.getDate()).toBe(31);
+    expect(dateKeyFromPickerDate(date)).toBe('2026-12-31');
+  });
+
+  it('should add days across months and years', () => {
+    expect(addDaysToDateKey('2026-12-30', 3)).toBe('2027-01-02');
+    expect(addDaysToDateKey('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
+
+describe('groupSlotsByDate', () => {
+  it('should group slots by Seoul date in order', () => {
+    const slots = [
+      { start: '2026-03-02T00:00:00Z', end: '2026-03-02T00:30:00Z' },
+      { start: '2026-03-02T00:30:00Z', end: '2026-03-02T01:00:00Z' },
+      { start: '2026-03-02T15:00:00Z', end: '2026-03-02T15:30:00Z' },
+    ];
+
+    const groups = groupSlotsByDate(slots);
+
+    expect([...groups.keys()]).toEqual(['2026-03-02', '2026-03-03']);
+    expect(groups.get('2026-03-02')).toEqual(slots.slice(0, 2));
+    expect(groups.get('2026-03-03')).toEqual([slots[2]]);
+  });
+});
+
+describe('availability windows', () => {
+  it('should parse times of day', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('18:00:00')).toBe(1080);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('9:30')).toBeNull();
+  });
+
+  it('should require a window that fits a slot', () => {
+    expect(isValidAvailabilityWindow('09:00', '12:00')).toBe(true);
+    expect(isValidAvailabilityWindow('09:00', '09:30')).toBe(true);
+    expect(isValidAvailabilityWindow('09:00', '09:15')).toBe(false);
+    expect(isValidAvailabilityWindow('12:00', '09:00')).toBe(false);
+  });
+});
+
+describe('iCalendar', () => {
+  it('should escape text values', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('should fold long lines without splitting characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'커피'.repeat(20)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(
+      `SUMMARY:${'커피'.repeat(20)}`
+    );
+  });
+
+  it('should build an event in Seoul time', () => {
+    const ics = buildIcsCalendar(
+      {
+        uid: 'coffee-chat-42@thepotential',
+        start: '2026-03-02T05:00:00Z',
+        end: '2026-03-02T05:30:00Z',
+        summary: 'Coffee chat: pricing, strategy',
+        description: 'Line one\nLine two',
+      },
+      new Date('2026-02-20T01:02:03.456Z')
+    );
+
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('TZID:Asia/Seoul');
+    expect(lines).toContain('DTSTAMP:20260220T010203Z');
+    expect(lines).toContain('DTSTART;TZID=Asia/Seoul:20260302T140000');
+    expect(lines).toContain('DTEND;TZID=Asia/Seoul:20260302T143000');
+    expect(lines).toContain('SUMMARY:Coffee chat: pricing\\, strategy');
+    expect(lines).toContain('DESCRIPTION:Line one\\nLine two');
+    expect(lines.some((line) => line.startsWith('LOCATION'))).toBe(false);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Search utility tests
+ *
+ * Tests keyword filter building and snippet highlight parsing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildIlikeFilter, escapeLikePattern, splitHighlights } from '../search';
+
+describe('escapeLikePattern', () => {
+  it('should leave plain text untouched', () => {
+    expect(escapeLikePattern('스타트업 funding')).toBe('스타트업 funding');
+  });
+
+  it('should escape LIKE wildcards and backslashes', () => {
+    expect(escapeLikePattern('100%_off\\')).toBe('100\\%\\_off\\\\');
+  });
+});
+
+describe('buildIlikeFilter', () => {
+  it('should return null for blank keywords', () => {
+    expect(buildIlikeFilter(['title'], undefined)).toBeNull();
+    expect(buildIlikeFilter(['title'], '   ')).toBeNull();
+  });
+
+  it('should build a quoted ilike filter for each column', () => {
+    expect(buildIlikeFilter(['title', 'description'], ' seed ')).toBe(
+      'title.ilike."%seed%",description.ilike."%seed%"'
+    );
+  });
+
+  it('should keep commas and parentheses inside the quoted value', () => {
+    expect(buildIlikeFilter(['title'], 'a,b (c)')).toBe('title.ilike."%a,b (c)%"');
+  });
+
+  it('should escape quotes and backslashes for PostgREST', () => {
+    expect(buildIlikeFilter(['title'], 'say "hi"')).toBe('title.ilike."%say \\"hi\\"%"');
+    expect(buildIlikeFilter(['title'], '50%')).toBe('title.ilike."%50\\\\%%"');
+  });
+});
+
+describe('splitHighlights', () => {
+  it('should return a single plain segment without markers', () => {
+    expect(splitHighlights('no match here')).toEqual([
+      { text: 'no match here', highlighted: false },
+    ]);
+  });
+
+  it('should split highlighted terms', () => {
+    expect(splitHighlights('…raising a <mark>seed</mark> round with <mark>VC</mark>s')).toEqual([
+      { text: '…raising a ', highlighted: false },
+      { text: 'seed', highlighted: true },
+      { text: ' round with ', highlighted: false },
+      { text: 'VC', highlighted: true },
+      { text: 's', highlighted: false },
+    ]);
+  });
+
+  it('should treat an unclosed marker as plain text', () => {
+    expect(splitHighlights('a <mark>b')).toEqual([{ text: 'a <mark>b', highlighted: false }]);
+  });
+
+  it('should return nothing for an empty snippet', () => {
+    expect(splitHighlights('')).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Anonymous Posting Utilities
+ *
+ * Helpers for posts and comments written under a thread pseudonym.
+ *
+ * Features:
+ * - Anonymous rows come without author_id; the database keeps the real
+ *   author in anonymous_authors, readable by admins and the author only
+ * - Pseudonym numbers are stable within a thread (0 = original poster)
+ * - The author's own anonymous rows get their author_id back on the client
+ * - Anonymous posts may carry a poll, but no images or attachments
+ */
+
+/** Pseudonym number of the original poster of an anonymous thread */
+export const ORIGINAL_POSTER_NUMBER = 0;
+
+/** Prefix of the errors raised by the anonymous posting rate limits */
+const RATE_LIMIT_ERROR_PREFIX = 'anonymous_rate_limit';
+
+/**
+ * Post or comment that may have been written anonymously
+ */
+export interface AnonymousAuthorship {
+  id: number;
+  author_id: string | null;
+  is_anonymous: boolean;
+}
+
+/**
+ * Whether a failed insert was rejected by the anonymous posting rate limits
+ */
+export function isAnonymousRateLimitError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes(RATE_LIMIT_ERROR_PREFIX);
+}
+
+/**
+ * Whether a new post can be published anonymously with what it carries.
+ * Polls are fine; images and attachments are stored under the uploader's
+ * id, which would reveal the author.
+ */
+export function canPostAnonymously(input: {
+  media_urls?: string[];
+  attachments?: unknown[];
+}): boolean {
+  return !input.media_urls?.length && !input.attachments?.length;
+}
+
+/**
+ * Fills in the author_id of the current user's own anonymous posts or
+ * comments, so ownership checks (edit, delete, report) keep working.
+ * Other rows are returned unchanged.
+ *
+ * @param rows - Posts or comments as fetched
+ * @param ownIds - Ids of the rows the user wrote anonymously
+ * @param userId - The current user's ID
+ */
+export function withOwnAnonymousAuthor<T extends AnonymousAuthorship>(
+  rows: T[],
+  ownIds: ReadonlySet<number>,
+  userId: string
+): T[] {
+  if (ownIds.size === 0) return rows;
+  return rows.map((row) =>
+    row.is_anonymous && row.author_id === null && ownIds.has(row.id)
+      ? { ...row, author_id: userId }
+      : row
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Attachment Validation (server only)
+ *
+ * Checks uploaded post attachments before they are stored. Used by the
+ * /api/attachments route.
+ *
+ * Features:
+ * - File signature check: the bytes must really be a PDF or an Office
+ *   Open XML package of the claimed kind (not just a renamed file)
+ * - Rejects active content: PDF JavaScript/launch actions and embedded
+ *   files, Office macros
+ * - Virus scan through a clamd daemon (INSTREAM) when one is configured
+ */
+
+import { Socket } from 'node:net';
+
+import type { AttachmentType } from './attachments';
+
+const DEFAULT_CLAMAV_PORT = 3310;
+const DEFAULT_CLAMAV_TIMEOUT_MS = 15000;
+const CLAMAV_CHUNK_SIZE = 64 * 1024;
+
+export interface ClamAVOptions {
+  host: string;
+  port?: number;
+  timeoutMs?: number;
+}
+
+export type AttachmentRejectionReason = 'type' | 'active_content' | 'infected';
+
+/**
+ * Raised when an attachment must not be stored
+ */
+export class AttachmentRejectedError extends Error {
+  constructor(
+    public readonly reason: AttachmentRejectionReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AttachmentRejectedError';
+  }
+}
+
+// ============================================================================
+// CONTENT CHECKS
+// ============================================================================
+
+/** Folder of the main document part inside each OOXML package */
+const OOXML_MAIN_PART: Record<Exclude<AttachmentType, 'pdf'>, string> = {
+  docx: 'word/',
+  pptx: 'ppt/',
+  xlsx: 'xl/',
+};
+
+// Names in uncompressed objects only; compressed object streams are left to
+// the virus scan
+const PDF_ACTIVE_CONTENT = /\/(?:JavaScript|JS|Launch|EmbeddedFile)(?![A-Za-z])/;
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Checks the file signature and structure for the claimed attachment type.
+ * Zip entry names are stored uncompressed, so OOXML parts can be found in
+ * the raw bytes without unpacking the archive.
+ *
+ * @throws AttachmentRejectedError when the content doesn't match or carries
+ *   active content
+ */
+export function inspectAttachment(bytes: Uint8Array, type: AttachmentType): void {
+  // latin1 maps every byte to one character, so offsets and ASCII match up
+  const text = new TextDecoder('latin1').decode(bytes);
+
+  if (type === 'pdf') {
+    if (!startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+      throw new AttachmentRejectedError('type', 'File is not a PDF');
+    }
+    if (PDF_ACTIVE_CONTENT.test(text)) {
+      throw new AttachmentRejectedError(
+        'active_content',
+        'PDFs with scripts, launch actions or embedded files are not allowed'
+      );
+    }
+    return;
+  }
+
+  if (!startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    throw new AttachmentRejectedError('type', `File is not a .${type} document`);
+  }
+  if (!text.includes('[Content_Types].xml') || !text.includes(OOXML_MAIN_PART[type])) {
+    throw new AttachmentRejectedError('type', `File is not a .${type} document`);
+  }
+  if (/vbaProject\.bin/i.test(text)) {
+    throw new AttachmentRejectedError('active_content', 'Documents with macros are not allowed');
+  }
+}
+
+// ============================================================================
+// VIRUS SCAN
+// ============================================================================
+
+export interface ScanResult {
+  infected: boolean;
+  /** Signature name reported by ClamAV when infected */
+  signature: string | null;
+}
+
+/**
+ * Scans bytes with clamd using the INSTREAM command
+ *
+ * @throws Error when clamd is unreachable, times out or reports an error
+ */
+export function scanWithClamAV(bytes: Uint8Array, options: ClamAVOptions): Promise<ScanResult> {
+  const { host, port = DEFAULT_CLAMAV_PORT, timeoutMs = DEFAULT_CLAMAV_TIMEOUT_MS } = options;
+
+  return new Promise((resolve, reject) => {
+    const socket = new Socket();
+    const chunks: Buffer[] = [];
+    let settled = false;
+
+    const finish = (error: Error | null, result?: ScanResult) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(new Error('ClamAV scan timed out')));
+    socket.on('error', (error) => finish(new Error(`ClamAV unavailable: ${error.message}`)));
+    socket.on('data', (chunk) => chunks.push(chunk));
+    socket.on('end', () => {
+      // Replies look like "stream: OK" or "stream: Eicar-Signature FOUND"
+      const reply = Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim();
+
+      if (/^stream: OK$/.test(reply)) {
+        finish(null, { infected: false, signature: null });
+        return;
+      }
+
+      const found = reply.match(/^stream: (.+) FOUND$/);
+      if (found) {
+        finish(null, { infected: true, signature: found[1] });
+        return;
+      }
+
+      finish(new Error(`ClamAV scan failed: ${reply || 'empty reply'}`));
+    });
+
+    socket.connect(port, host, () => {
+      socket.write('zINSTREAM\0');
+      for (let offset = 0; offset < bytes.length; offset += CLAMAV_CHUNK_SIZE) {
+        const chunk = bytes.subarray(offset, offset + CLAMAV_CHUNK_SIZE);
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        socket.write(length);
+        socket.write(chunk);
+      }
+      // Zero-length chunk ends the stream
+      socket.write(Buffer.alloc(4));
+    });
+  });
+}
+
+/**
+ * Runs every check on an attachment: content inspection, then a virus scan
+ * when clamd is configured
+ *
+ * @throws AttachmentRejectedError when the attachment must not be stored
+ * @throws Error when the virus scan could not be completed
+ */
+export async function validateAttachment(
+  bytes: Uint8Array,
+  type: AttachmentType,
+  clamav?: ClamAVOptions | null
+): Promise<void> {
+  inspectAttachment(bytes, type);
+
+  if (!clamav) return;
+
+  const result = await scanWithClamAV(bytes, clamav);
+  if (result.infected) {
+    throw new AttachmentRejectedError('infected', `Malware detected: ${result.signature}`);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Post File Attachments
+ *
+ * Allowed document types and limits for files attached to posts, shared by
+ * PostComposer (early feedback) and the /api/attachments route (enforced).
+ *
+ * The size limit is configured with NEXT_PUBLIC_POST_ATTACHMENT_MAX_MB
+ * (default 10, capped by the post-attachments bucket limit of 25 MB).
+ */
+
+export const MAX_ATTACHMENTS = 3;
+
+const DEFAULT_MAX_ATTACHMENT_MB = 10;
+const BUCKET_MAX_ATTACHMENT_MB = 25;
+
+/**
+ * Attachment kinds, keyed by file extension
+ */
+export const ATTACHMENT_TYPES = {
+  pdf: {
+    mimeType: 'application/pdf',
+    label: 'PDF',
+  },
+  docx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    label: 'Word',
+  },
+  pptx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    label: 'PowerPoint',
+  },
+  xlsx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    label: 'Excel',
+  },
+} as const;
+
+export type AttachmentType = keyof typeof ATTACHMENT_TYPES;
+
+/** Value for <input accept>, extensions and MIME types */
+export const ATTACHMENT_ACCEPT = Object.entries(ATTACHMENT_TYPES)
+  .flatMap(([extension, { mimeType }]) => [`.${extension}`, mimeType])
+  .join(',');
+
+/**
+ * Largest allowed attachment in bytes
+ */
+export function getMaxAttachmentBytes(): number {
+  const configured = Number(process.env.NEXT_PUBLIC_POST_ATTACHMENT_MAX_MB);
+  const megabytes =
+    Number.isFinite(configured) && configured > 0
+      ? Math.min(configured, BUCKET_MAX_ATTACHMENT_MB)
+      : DEFAULT_MAX_ATTACHMENT_MB;
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * Returns the attachment type for a file, or null when the extension is not
+ * allowed or the browser-reported MIME type contradicts it. An empty or
+ * generic MIME type is accepted since browsers often don't know Office types.
+ */
+export function getAttachmentType(fileName: string, mimeType: string): AttachmentType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (!Object.hasOwn(ATTACHMENT_TYPES, extension) || !fileName.includes('.')) {
+    return null;
+  }
+
+  const type = extension as AttachmentType;
+  const normalizedMime = mimeType.split(';')[0].trim().toLowerCase();
+  if (
+    normalizedMime &&
+    normalizedMime !== 'application/octet-stream' &&
+    normalizedMime !== ATTACHMENT_TYPES[type].mimeType
+  ) {
+    return null;
+  }
+
+  return type;
+}
+
+/**
+ * Returns the attachment type for a stored MIME type
+ */
+export function getAttachmentTypeByMime(mimeType: string): AttachmentType | null {
+  const entry = Object.entries(ATTACHMENT_TYPES).find(([, value]) => value.mimeType === mimeType);
+  return entry ? (entry[0] as AttachmentType) : null;
+}
+
+/**
+ * Strips path segments and control characters from an uploaded file name
+ * and shortens it to 255 characters, keeping the extension
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  if (cleaned.length <= 255) return cleaned;
+
+  const dot = cleaned.lastIndexOf('.');
+  const extension = dot > 0 ? cleaned.slice(dot) : '';
+  return cleaned.slice(0, 255 - extension.length) + extension;
+}
+
+/**
+ * Human readable file size, e.g. "820 KB" or "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  const megabytes = bytes / (1024 * 1024);
+  return `${megabytes < 10 ? megabytes.toFixed(1) : Math.round(megabytes)} MB`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Collaboration Lifecycle Utilities
+ *
+ * Status transitions of collaboration requests, mirroring
+ * is_valid_collaboration_transition() in the database, and helpers for the
+ * structured proposal (scope, budget, timeline).
+ *
+ * Features:
+ * - pending -> accepted/declined (recipient) or cancelled (sender)
+ * - accepted -> in_progress or cancelled, in_progress -> completed or
+ *   disputed, disputed -> in_progress or completed (either side)
+ * - declined, cancelled and completed are final
+ * - The proposal can change until work starts
+ */
+
+import type { Database } from '@/types/database';
+
+export type CollaborationStatus = Database['public']['Enums']['collaboration_status'];
+
+/** Which side of the request the current member is on */
+export type CollaborationRole = 'sender' | 'recipient';
+
+/** Maximum length of the proposed scope */
+export const MAX_SCOPE_LENGTH = 2000;
+
+/**
+ * Statuses of requests the expert took on; these keep a booked slot and can
+ * be reviewed
+ */
+export const ENGAGED_COLLABORATION_STATUSES = [
+  'accepted',
+  'in_progress',
+  'completed',
+  'disputed',
+] as const satisfies readonly CollaborationStatus[];
+
+const TRANSITIONS: Record<
+  CollaborationStatus,
+  { to: CollaborationStatus; roles: CollaborationRole[] }[]
+> = {
+  pending: [
+    { to: 'accepted', roles: ['recipient'] },
+    { to: 'declined', roles: ['recipient'] },
+    { to: 'cancelled', roles: ['sender'] },
+  ],
+  accepted: [
+    { to: 'in_progress', roles: ['sender', 'recipient'] },
+    { to: 'cancelled', roles: ['sender', 'recipient'] },
+  ],
+  in_progress: [
+    { to: 'completed', roles: ['sender', 'recipient'] },
+    { to: 'disputed', roles: ['sender', 'recipient'] },
+  ],
+  disputed: [
+    { to: 'in_progress', roles: ['sender', 'recipient'] },
+    { to: 'completed', roles: ['sender', 'recipient'] },
+  ],
+  completed: [],
+  declined: [],
+  cancelled: [],
+};
+
+/**
+ * Statuses the member can move the request to, in display order
+ */
+export function getAllowedTransitions(
+  status: CollaborationStatus,
+  role: CollaborationRole
+): CollaborationStatus[] {
+  return TRANSITIONS[status]
+    .filter((transition) => transition.roles.includes(role))
+    .map((transition) => transition.to);
+}
+
+/**
+ * Whether the member can move the request from one status to another
+ */
+export function canTransition(
+  from: CollaborationStatus,
+  to: CollaborationStatus,
+  role: CollaborationRole
+): boolean {
+  return getAllowedTransitions(from, role).includes(to);
+}
+
+/**
+ * Whether no further status changes are possible
+ */
+export function isFinalStatus(status: CollaborationStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Whether the expert took the request on
+ */
+export function isEngagedStatus(status: CollaborationStatus): boolean {
+  return (ENGAGED_COLLABORATION_STATUSES as readonly CollaborationStatus[]).includes(status);
+}
+
+/**
+ * Whether scope, budget and timeline can still be proposed
+ */
+export function canEditProposal(status: CollaborationStatus): boolean {
+  return status === 'pending' || status === 'accepted';
+}
+
+export interface ProposalValues {
+  scope: string | null;
+  budget_min: number | null;
+  budget_max: number | null;
+  timeline_start: string | null;
+  timeline_end: string | null;
+}
+
+/**
+ * Converts proposal form input to column values; blank fields become null
+ */
+export function parseProposalForm(form: {
+  scope: string;
+  budgetMin: string;
+  budgetMax: string;
+  timelineStart: string;
+  timelineEnd: string;
+}): ProposalValues {
+  const amount = (value: string) => {
+    const digits = value.replace(/[,\s]/g, '');
+    return digits === '' ? null : Number(digits);
+  };
+
+  return {
+    scope: form.scope.trim() || null,
+    budget_min: amount(form.budgetMin),
+    budget_max: amount(form.budgetMax),
+    timeline_start: form.timelineStart || null,
+    timeline_end: form.timelineEnd || null,
+  };
+}
+
+/**
+ * Checks a proposal against the database constraints
+ *
+ * @returns An error key, or null when the proposal is valid
+ */
+export function validateProposal(
+  proposal: Partial<ProposalValues>
+): 'scopeTooLong' | 'invalidBudget' | 'budgetRange' | 'timelineRange' | null {
+  if (proposal.scope && proposal.scope.length > MAX_SCOPE_LENGTH) return 'scopeTooLong';
+
+  for (const amount of [proposal.budget_min, proposal.budget_max]) {
+    if (typeof amount === 'number' && (!Number.isInteger(amount) || amount < 0)) {
+      return 'invalidBudget';
+    }
+  }
+
+  if (
+    typeof proposal.budget_min === 'number' &&
+    typeof proposal.budget_max === 'number' &&
+    proposal.budget_max < proposal.budget_min
+  ) {
+    return 'budgetRange';
+  }
+
+  // ISO dates compare correctly as strings
+  if (
+    proposal.timeline_start &&
+    proposal.timeline_end &&
+    proposal.timeline_end < proposal.timeline_start
+  ) {
+    return 'timelineRange';
+  }
+
+  return null;
+}
@@ -0,0 +1,119 @@
+/**
+ * Comment Tree Utilities
+ *
+ * Builds the threaded view of a post's comments from the flat list.
+ *
+ * Features:
+ * - Nesting by parent_id at any depth
+ * - Deleted comments stay as placeholders only while they still have replies
+ * - Reply counts for collapsed branches and "continue this thread" links
+ * - Immutable inserts, updates and removals for live cache updates
+ */
+
+export interface TreeComment {
+  id: number;
+  parent_id: number | null;
+  deleted_at: string | null;
+  replies?: this[];
+}
+
+/**
+ * Nests comments under their parents, keeping the input order within each
+ * branch. Replies whose parent is not in the list (e.g. hidden) are dropped
+ * along with their branch, and deleted comments without remaining replies
+ * are pruned.
+ */
+export function buildCommentTree<T extends TreeComment>(comments: T[]): T[] {
+  const byId = new Map<number, T>();
+  comments.forEach((comment) => byId.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: T[] = [];
+  comments.forEach((comment) => {
+    const node = byId.get(comment.id)!;
+    if (comment.parent_id === null) {
+      roots.push(node);
+    } else {
+      byId.get(comment.parent_id)?.replies?.push(node);
+    }
+  });
+
+  return pruneDeleted(roots);
+}
+
+function pruneDeleted<T extends TreeComment>(comments: T[]): T[] {
+  return comments.flatMap((comment) => {
+    const replies = pruneDeleted(comment.replies ?? []);
+    if (comment.deleted_at && replies.length === 0) return [];
+    return [{ ...comment, replies }];
+  });
+}
+
+/**
+ * Number of comments below a comment, at any depth
+ */
+export function countDescendants(comment: TreeComment): number {
+  return (comment.replies ?? []).reduce(
+    (total, reply) => total + 1 + countDescendants(reply),
+    0
+  );
+}
+
+/**
+ * Finds a comment anywhere in the tree
+ */
+export function findComment<T extends TreeComment>(comments: T[], id: number): T | null {
+  for (const comment of comments) {
+    if (comment.id === id) return comment;
+    const found = findComment(comment.replies ?? [], id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Adds a comment under its parent (or as a top-level comment). Comments that
+ * are already in the tree, or whose parent is not, leave the tree unchanged.
+ */
+export function insertComment<T extends TreeComment>(comments: T[], comment: T): T[] {
+  if (findComment(comments, comment.id)) return comments;
+
+  const node = { ...comment, replies: comment.replies ?? [] };
+  if (comment.parent_id === null) return [...comments, node];
+  if (!findComment(comments, comment.parent_id)) return comments;
+
+  return updateComment(comments, comment.parent_id, (parent) => ({
+    ...parent,
+    replies: [...(parent.replies ?? []), node],
+  }));
+}
+
+/**
+ * Replaces a comment wherever it is in the tree; a comment that becomes
+ * deleted without replies is pruned
+ */
+export function updateComment<T extends TreeComment>(
+  comments: T[],
+  id: number,
+  update: (comment: T) => T
+): T[] {
+  const apply = (nodes: T[]): T[] =>
+    nodes.map((node) => {
+      if (node.id === id) return update(node);
+      return node.replies?.length ? { ...node, replies: apply(node.replies) } : node;
+    });
+
+  return pruneDeleted(apply(comments));
+}
+
+/**
+ * Removes a comment and its replies; deleted parents left without replies
+ * are pruned
+ */
+export function removeComment<T extends TreeComment>(comments: T[], id: number): T[] {
+  const remove = (nodes: T[]): T[] =>
+    nodes
+      .filter((node) => node.id !== id)
+      .map((node) => (node.replies?.length ? { ...node, replies: remove(node.replies) } : node));
+
+  return pruneDeleted(remove(comments));
+}
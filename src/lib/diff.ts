@@ -0,0 +1,83 @@
+/**
+ * Text Diff Utilities
+ *
+ * Word-level diff used to show what changed between two versions of a post.
+ *
+ * Features:
+ * - Whitespace is kept as its own token so the output reproduces both inputs
+ * - Adjacent segments with the same operation are merged
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+/**
+ * Splits text into alternating word and whitespace tokens
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+/**
+ * Appends a segment, merging it into the previous one when the op matches
+ */
+function pushSegment(segments: DiffSegment[], op: DiffOp, text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/**
+ * Computes a word-level diff between two strings using the longest common
+ * subsequence of their tokens.
+ *
+ * Joining the `equal` and `delete` segments gives `before`; joining the
+ * `equal` and `insert` segments gives `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, 'delete', a[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'insert', b[j]);
+      j++;
+    }
+  }
+  while (i < a.length) {
+    pushSegment(segments, 'delete', a[i++]);
+  }
+  while (j < b.length) {
+    pushSegment(segments, 'insert', b[j++]);
+  }
+
+  return segments;
+}
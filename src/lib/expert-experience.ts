@@ -0,0 +1,141 @@
+/**
+ * Expert Experience Utilities
+ *
+ * Work history and education entries on expert profiles: date validation,
+ * display order, and years of experience as counted by
+ * get_experts_by_experience() in the database.
+ *
+ * Features:
+ * - Dates are ISO (YYYY-MM-DD) strings, which compare correctly as strings
+ * - Past positions need an end date; current ones have none
+ * - Education may end in the future (expected graduation)
+ * - Entries are ordered by sort_order, then most recent start first
+ * - Overlapping work periods count once
+ */
+
+import { format } from 'date-fns';
+
+/** Years of experience offered by the expert list filter */
+export const MIN_YEARS_OPTIONS = [1, 3, 5, 10] as const;
+
+export type HistoryDateError = 'startInFuture' | 'endRequired' | 'endBeforeStart' | 'endInFuture';
+
+export interface HistoryDates {
+  start_date: string;
+  end_date: string | null;
+  is_current?: boolean;
+}
+
+export interface OrderedHistoryEntry {
+  id: number;
+  sort_order: number;
+  start_date: string;
+}
+
+function today(): string {
+  return format(new Date(), 'yyyy-MM-dd');
+}
+
+/**
+ * Validates the period of a work experience entry
+ *
+ * @param asOf - Today's date (ISO), for tests
+ */
+export function validateExperienceDates(
+  dates: HistoryDates,
+  asOf: string = today()
+): HistoryDateError | null {
+  if (dates.start_date > asOf) return 'startInFuture';
+  if (dates.is_current) return null;
+  if (!dates.end_date) return 'endRequired';
+  if (dates.end_date < dates.start_date) return 'endBeforeStart';
+  if (dates.end_date > asOf) return 'endInFuture';
+  return null;
+}
+
+/**
+ * Validates the period of an education entry; the end date is optional
+ *
+ * @param asOf - Today's date (ISO), for tests
+ */
+export function validateEducationDates(
+  dates: HistoryDates,
+  asOf: string = today()
+): HistoryDateError | null {
+  if (dates.start_date > asOf) return 'startInFuture';
+  if (dates.end_date && dates.end_date < dates.start_date) return 'endBeforeStart';
+  return null;
+}
+
+/**
+ * Entries in display order: sort_order, then most recent start first
+ */
+export function sortHistoryEntries<T extends OrderedHistoryEntry>(entries: T[]): T[] {
+  return [...entries].sort(
+    (a, b) =>
+      a.sort_order - b.sort_order ||
+      b.start_date.localeCompare(a.start_date) ||
+      a.id - b.id
+  );
+}
+
+/**
+ * sort_order for a new entry, placing it last
+ */
+export function getNextSortOrder(entries: Pick<OrderedHistoryEntry, 'sort_order'>[]): number {
+  return entries.reduce((max, entry) => Math.max(max, entry.sort_order + 1), 0);
+}
+
+/**
+ * Moves an entry one place up or down
+ *
+ * @returns The new sort_order of every entry, or null if the entry cannot move
+ */
+export function moveHistoryEntry<T extends OrderedHistoryEntry>(
+  entries: T[],
+  id: number,
+  direction: 'up' | 'down'
+): { id: number; sort_order: number }[] | null {
+  const ordered = sortHistoryEntries(entries);
+  const index = ordered.findIndex((entry) => entry.id === id);
+  const target = direction === 'up' ? index - 1 : index + 1;
+
+  if (index === -1 || target < 0 || target >= ordered.length) return null;
+
+  [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+  return ordered.map((entry, i) => ({ id: entry.id, sort_order: i }));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Years of work experience, rounded down to one decimal
+ *
+ * Current positions count up to today; overlapping periods count once.
+ *
+ * @param asOf - Today's date (ISO), for tests
+ */
+export function getExperienceYears(entries: HistoryDates[], asOf: string = today()): number {
+  const periods = entries
+    .map((entry) => {
+      const end = !entry.end_date || entry.end_date > asOf ? asOf : entry.end_date;
+      return [Date.parse(entry.start_date), Date.parse(end)] as const;
+    })
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let days = 0;
+  let current: [number, number] | null = null;
+
+  for (const [start, end] of periods) {
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+    } else {
+      if (current) days += (current[1] - current[0]) / DAY_MS;
+      current = [start, end];
+    }
+  }
+  if (current) days += (current[1] - current[0]) / DAY_MS;
+
+  return Math.floor((days / 365.25) * 10) / 10;
+}
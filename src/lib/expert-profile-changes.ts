@@ -0,0 +1,190 @@
+/**
+ * Expert Profile Change Utilities
+ *
+ * Material fields of an expert profile, mirroring
+ * expert_profile_material_snapshot() in the database, and the diff shown to
+ * admins when an edited profile comes back for review.
+ *
+ * Features:
+ * - Editing a material field of an approved profile sends it back to review
+ * - So does adding, editing or removing work history and education
+ * - Other fields (availability, service regions) update immediately
+ * - Field-by-field diff against the last reviewed version; entries are
+ *   compared as added and removed, ignoring their display order
+ */
+
+import type { Database } from '@/types/database';
+
+type ExpertProfileRow = Database['public']['Tables']['expert_profiles']['Row'];
+type ExpertExperienceRow = Database['public']['Tables']['expert_experiences']['Row'];
+type ExpertEducationRow = Database['public']['Tables']['expert_education']['Row'];
+
+/** Fields whose edits require admin review, in display order */
+export const MATERIAL_EXPERT_PROFILE_FIELDS = [
+  'business_name',
+  'business_registration_number',
+  'category',
+  'subcategories',
+  'specialty',
+  'service_description',
+  'bio',
+  'collaboration_needs',
+  'experience_years',
+  'hourly_rate',
+  'price_range_min',
+  'price_range_max',
+  'portfolio_url',
+  'portfolio_files',
+  'verification_documents',
+] as const satisfies readonly (keyof ExpertProfileRow)[];
+
+export type MaterialExpertProfileField = (typeof MATERIAL_EXPERT_PROFILE_FIELDS)[number];
+
+export type ExpertProfileSnapshot = Pick<ExpertProfileRow, MaterialExpertProfileField>;
+
+export type ExpertProfileFieldValue = ExpertProfileSnapshot[MaterialExpertProfileField];
+
+export interface ExpertProfileChange {
+  field: MaterialExpertProfileField;
+  before: ExpertProfileFieldValue | undefined;
+  after: ExpertProfileFieldValue;
+}
+
+/**
+ * Treats null, empty strings and empty lists alike, as the form does
+ */
+function normalize(value: ExpertProfileFieldValue | undefined): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (Array.isArray(value)) return value.length > 0 ? JSON.stringify(value) : '';
+  return String(value);
+}
+
+/**
+ * Material fields that differ between two versions of a profile
+ *
+ * @param before - The reviewed version; missing fields count as empty
+ * @param after - The current version
+ */
+export function getMaterialChanges(
+  before: Partial<ExpertProfileSnapshot>,
+  after: ExpertProfileSnapshot
+): ExpertProfileChange[] {
+  return MATERIAL_EXPERT_PROFILE_FIELDS.filter(
+    (field) => normalize(before[field]) !== normalize(after[field])
+  ).map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Whether saving the edit sends an approved profile back to review
+ */
+export function hasMaterialChanges(
+  before: ExpertProfileSnapshot,
+  after: ExpertProfileSnapshot
+): boolean {
+  return getMaterialChanges(before, after).length > 0;
+}
+
+/** Reviewed fields of a work history entry */
+export type ExperienceSnapshot = Pick<
+  ExpertExperienceRow,
+  'company' | 'position' | 'location' | 'description' | 'category' | 'start_date' | 'end_date'
+>;
+
+/** Reviewed fields of an education entry */
+export type EducationSnapshot = Pick<
+  ExpertEducationRow,
+  'institution' | 'degree' | 'field' | 'description' | 'start_date' | 'end_date'
+>;
+
+/** Work history and education as stored in reviewed_snapshot */
+export interface ExpertHistorySnapshot {
+  experiences: ExperienceSnapshot[];
+  education: EducationSnapshot[];
+}
+
+export type ExpertHistoryChange =
+  | { field: 'experiences'; added: ExperienceSnapshot[]; removed: ExperienceSnapshot[] }
+  | { field: 'education'; added: EducationSnapshot[]; removed: EducationSnapshot[] };
+
+const EXPERIENCE_KEYS = [
+  'company',
+  'position',
+  'location',
+  'description',
+  'category',
+  'start_date',
+  'end_date',
+] as const satisfies readonly (keyof ExperienceSnapshot)[];
+
+const EDUCATION_KEYS = [
+  'institution',
+  'degree',
+  'field',
+  'description',
+  'start_date',
+  'end_date',
+] as const satisfies readonly (keyof EducationSnapshot)[];
+
+/**
+ * Entries only in `from`, comparing the given keys (empty values alike)
+ */
+function missingEntries<T>(from: T[], other: T[], keys: readonly (keyof T)[]): T[] {
+  const toKey = (entry: T) =>
+    JSON.stringify(keys.map((key) => normalize(entry[key] as ExpertProfileFieldValue)));
+
+  const remaining = new Map<string, number>();
+  for (const entry of other) {
+    const key = toKey(entry);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  return from.filter((entry) => {
+    const key = toKey(entry);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return true;
+    remaining.set(key, count - 1);
+    return false;
+  });
+}
+
+/**
+ * Work history and education entries added or removed since the review.
+ * An edited entry shows as removed and added.
+ *
+ * @param before - The reviewed version; missing lists count as empty
+ * @param after - The current entries
+ */
+export function getHistoryChanges(
+  before: Partial<ExpertHistorySnapshot>,
+  after: ExpertHistorySnapshot
+): ExpertHistoryChange[] {
+  const changes: ExpertHistoryChange[] = [];
+
+  const experiences = {
+    added: missingEntries(after.experiences, before.experiences ?? [], EXPERIENCE_KEYS),
+    removed: missingEntries(before.experiences ?? [], after.experiences, EXPERIENCE_KEYS),
+  };
+  if (experiences.added.length > 0 || experiences.removed.length > 0) {
+    changes.push({ field: 'experiences', ...experiences });
+  }
+
+  const education = {
+    added: missingEntries(after.education, before.education ?? [], EDUCATION_KEYS),
+    removed: missingEntries(before.education ?? [], after.education, EDUCATION_KEYS),
+  };
+  if (education.added.length > 0 || education.removed.length > 0) {
+    changes.push({ field: 'education', ...education });
+  }
+
+  return changes;
+}
+
+/**
+ * Reads a reviewed_snapshot column; anything but an object is treated as missing
+ */
+export function parseProfileSnapshot(
+  value: unknown
+): Partial<ExpertProfileSnapshot & ExpertHistorySnapshot> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  return value as Partial<ExpertProfileSnapshot & ExpertHistorySnapshot>;
+}
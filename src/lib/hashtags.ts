@@ -0,0 +1,73 @@
+/**
+ * Hashtag Utilities
+ *
+ * Parsing helpers for #hashtags in thread posts.
+ *
+ * Features:
+ * - Same tag rules as the extract_hashtags SQL function
+ * - Splitting content into text and hashtag segments for rendering
+ * - Normalizing tags from URLs and user input
+ */
+
+const TAG_CHARS = '0-9A-Za-z_가-힣';
+
+/**
+ * 1-30 tag characters after #, not preceded by a tag character, &, # or /
+ * (URL fragments, HTML entities) and not running into more tag characters
+ */
+const HASHTAG_PATTERN = new RegExp(
+  `(?<![${TAG_CHARS}&#/])#([${TAG_CHARS}]{1,30})(?![${TAG_CHARS}])`,
+  'g'
+);
+
+const NUMERIC_PATTERN = /^[0-9]+$/;
+const TAG_PATTERN = new RegExp(`^[${TAG_CHARS}]{1,30}$`);
+
+export type HashtagSegment =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string };
+
+/**
+ * Normalizes a tag from a URL or user input: strips a leading #, trims and
+ * lowercases. Returns null when the result is not a valid tag.
+ */
+export function normalizeTag(input: string): string | null {
+  const tag = input.trim().replace(/^#/, '').toLowerCase();
+  if (!TAG_PATTERN.test(tag) || NUMERIC_PATTERN.test(tag)) return null;
+  return tag;
+}
+
+/**
+ * Splits text into plain and hashtag segments
+ */
+export function splitHashtags(text: string): HashtagSegment[] {
+  const segments: HashtagSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    if (NUMERIC_PATTERN.test(match[1])) continue;
+
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'hashtag', text: match[0], tag: match[1].toLowerCase() });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Returns the distinct, lowercased hashtags in the text
+ */
+export function extractHashtags(text: string): string[] {
+  const tags = new Set<string>();
+  for (const segment of splitHashtags(text)) {
+    if (segment.type === 'hashtag') tags.add(segment.tag);
+  }
+  return [...tags];
+}
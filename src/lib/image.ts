@@ -51,10 +51,12 @@ export const RESPONSIVE_BREAKPOINTS = [640, 768, 1024, 1280, 1536] as const;
 export const STORAGE_BUCKETS = {
   avatars: 'avatars',
   postMedia: 'post-media',
+  postAttachments: 'post-attachments',
   expertDocuments: 'expert-documents',
   expertPortfolio: 'expert-portfolio',
   programImages: 'program-images',
   eventImages: 'event-images',
+  messageAttachments: 'message-attachments',
 } as const;
 
 type StorageBucket = (typeof STORAGE_BUCKETS)[keyof typeof STORAGE_BUCKETS];
@@ -0,0 +1,433 @@
+/**
+ * Link Preview Fetching (server only)
+ *
+ * Fetches a web page and reads its OpenGraph metadata for link preview
+ * cards. Used by the /api/link-preview route.
+ *
+ * Features:
+ * - og:* tags with twitter:* and <title>/<meta name="description"> fallbacks
+ * - Relative og:image URLs resolved against the final page URL
+ * - Charset from the Content-Type header or <meta charset> (e.g. EUC-KR)
+ * - Time and size limits, redirects followed manually
+ * - Every hop checked against private and loopback addresses, and connected
+ *   to the checked address (no second DNS lookup to rebind)
+ */
+
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { isIP, type LookupFunction } from 'node:net';
+import { Agent, fetch, type Response } from 'undici';
+
+import { normalizePreviewUrl } from './links';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_BYTES = 512 * 1024;
+const DEFAULT_MAX_REDIRECTS = 3;
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface LinkPreviewData {
+  /** Normalized URL the preview was requested for */
+  url: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export interface FetchLinkPreviewOptions {
+  timeoutMs?: number;
+  /** Stop reading the page after this many bytes */
+  maxBytes?: number;
+  maxRedirects?: number;
+  /**
+   * Skip the private address check. Only for tests against a local stub;
+   * the API route never sets this.
+   */
+  allowPrivateHosts?: boolean;
+}
+
+/**
+ * Raised when a URL must not be fetched (unsupported scheme, private host)
+ */
+export class LinkPreviewBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LinkPreviewBlockedError';
+  }
+}
+
+// ============================================================================
+// ADDRESS CHECKS
+// ============================================================================
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split('.')
+    .reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+
+/**
+ * Expands an IPv6 address into its eight 16-bit groups, including a trailing
+ * dotted IPv4 part and dropping any zone id. Null if it doesn't parse.
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (isIP(dotted[2]) !== 4) return null;
+    const value = ipv4ToNumber(dotted[2]);
+    text = `${dotted[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function groupsToIPv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on
+ * the public internet. IPv6 forms that carry an IPv4 address (mapped,
+ * IPv4-compatible, NAT64, 6to4) are judged by that IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+      return ((value & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0);
+    });
+  }
+
+  if (version === 6) {
+    const groups = parseIPv6(address);
+    if (!groups) return true;
+
+    const [first, second] = groups;
+    const prefixIsZero = (length: number) => groups.slice(0, length).every((group) => group === 0);
+
+    // ::ffff:0:0/96 mapped and ::/96 IPv4-compatible (includes :: and ::1)
+    if (prefixIsZero(5) && (groups[5] === 0xffff || groups[5] === 0)) {
+      return isPrivateAddress(groupsToIPv4(groups[6], groups[7]));
+    }
+    // 64:ff9b::/96 well-known NAT64 prefix
+    if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+      return isPrivateAddress(groupsToIPv4(groups[6], groups[7]));
+    }
+    // 2002::/16 6to4
+    if (first === 0x2002) {
+      return isPrivateAddress(groupsToIPv4(second, groups[2]));
+    }
+
+    return (
+      (first === 0x64 && second === 0xff9b && groups[2] === 1) || // 64:ff9b:1::/48 local NAT64
+      (first & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+      (first & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+      (first & 0xffc0) === 0xfec0 || // fec0::/10 site-local (deprecated)
+      (first & 0xff00) === 0xff00 // multicast
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Resolves the URL's host. Throws LinkPreviewBlockedError unless it resolves
+ * only to public addresses (or allowPrivate is set).
+ */
+async function resolveHost(url: URL, allowPrivate: boolean): Promise<LookupAddress[]> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  if (!allowPrivate && (hostname === 'localhost' || hostname.endsWith('.localhost'))) {
+    throw new LinkPreviewBlockedError(`Blocked host: ${hostname}`);
+  }
+
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true });
+
+  if (
+    addresses.length === 0 ||
+    (!allowPrivate && addresses.some((entry) => isPrivateAddress(entry.address)))
+  ) {
+    throw new LinkPreviewBlockedError(`Blocked host: ${hostname}`);
+  }
+
+  return addresses;
+}
+
+/**
+ * Dispatcher that connects to the given addresses instead of resolving the
+ * host again, so DNS can't answer differently after the check. TLS still
+ * verifies the certificate against the hostname.
+ */
+function createPinnedAgent(addresses: LookupAddress[]): Agent {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+
+  return new Agent({ connect: { lookup: pinnedLookup } });
+}
+
+// ============================================================================
+// HTML PARSING
+// ============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Reads name="value" pairs of one tag's attributes (keys lowercased)
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+/**
+ * Extracts preview metadata from a page's HTML. Returns null when the page
+ * has no usable title.
+ *
+ * @param html - Page HTML (only the <head> is needed)
+ * @param pageUrl - Final URL of the page, for resolving relative image URLs
+ */
+export function parseOpenGraph(
+  html: string,
+  pageUrl: string
+): Omit<LinkPreviewData, 'url'> | null {
+  const meta: Record<string, string> = {};
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    // First occurrence wins, like crawlers do
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  const title = clean(meta['og:title'] ?? meta['twitter:title'] ?? titleTag, MAX_TITLE_LENGTH);
+  if (!title) return null;
+
+  const description = clean(
+    meta['og:description'] ?? meta['twitter:description'] ?? meta['description'],
+    MAX_DESCRIPTION_LENGTH
+  );
+
+  let imageUrl: string | null = null;
+  const rawImage = clean(
+    meta['og:image:secure_url'] ?? meta['og:image'] ?? meta['og:image:url'] ?? meta['twitter:image'],
+    2048
+  );
+  if (rawImage) {
+    try {
+      const resolved = new URL(rawImage, pageUrl);
+      if (resolved.protocol === 'https:' || resolved.protocol === 'http:') {
+        imageUrl = resolved.toString();
+      }
+    } catch {
+      // Unparseable image URL — show the card without an image
+    }
+  }
+
+  return {
+    title,
+    description,
+    image_url: imageUrl,
+    site_name: clean(meta['og:site_name'], 100) ?? new URL(pageUrl).hostname.replace(/^www\./, ''),
+  };
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Reads at most maxBytes of the response body
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const body = new Uint8Array(Math.min(total, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, body.length - offset);
+    body.set(part, offset);
+    offset += part.length;
+    if (offset >= body.length) break;
+  }
+  return body;
+}
+
+/**
+ * Decodes the page using the charset from the header or a <meta charset>,
+ * falling back to UTF-8
+ */
+function decodeHtml(bytes: Uint8Array, contentType: string): string {
+  const headerCharset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  // ASCII-compatible sniff of the first bytes for <meta charset="...">
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const metaCharset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+
+  for (const charset of [headerCharset, metaCharset, 'utf-8']) {
+    if (!charset) continue;
+    try {
+      return new TextDecoder(charset).decode(bytes);
+    } catch {
+      // Unknown charset label — try the next one
+    }
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Fetches a page and returns its preview metadata, or null when the URL is
+ * not an HTML page with a title.
+ *
+ * @throws LinkPreviewBlockedError for unsupported or private URLs
+ * @throws Error on network errors, timeouts and error responses
+ */
+export async function fetchLinkPreview(
+  rawUrl: string,
+  options: FetchLinkPreviewOptions = {}
+): Promise<LinkPreviewData | null> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    allowPrivateHosts = false,
+  } = options;
+
+  const url = normalizePreviewUrl(rawUrl);
+  if (!url) {
+    throw new LinkPreviewBlockedError('Only http(s) URLs can be previewed');
+  }
+
+  const signal = AbortSignal.timeout(timeoutMs);
+  let current = new URL(url);
+
+  for (let hop = 0; ; hop += 1) {
+    const agent = createPinnedAgent(await resolveHost(current, allowPrivateHosts));
+
+    try {
+      const response = await fetch(current, {
+        redirect: 'manual',
+        signal,
+        dispatcher: agent,
+        headers: {
+          Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+          'User-Agent': 'ThePotentialBot/1.0 (+link preview)',
+        },
+      });
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get('location');
+        await response.body?.cancel().catch(() => undefined);
+        if (!location || hop >= maxRedirects) {
+          throw new Error(`Too many redirects for ${url}`);
+        }
+
+        const next = new URL(location, current);
+        if (next.protocol !== 'http:' && next.protocol !== 'https:') {
+          throw new LinkPreviewBlockedError('Redirected to an unsupported URL');
+        }
+        current = next;
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new Error(`Failed to fetch ${url}: ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+        await response.body?.cancel().catch(() => undefined);
+        return null;
+      }
+
+      const html = decodeHtml(await readLimited(response, maxBytes), contentType);
+      const metadata = parseOpenGraph(html, current.toString());
+
+      return metadata ? { url, ...metadata } : null;
+    } finally {
+      // The body has been read or cancelled; drop the pinned connection
+      agent.destroy().catch(() => undefined);
+    }
+  }
+}
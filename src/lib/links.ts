@@ -0,0 +1,109 @@
+/**
+ * Link Utilities
+ *
+ * Parsing helpers for web links in thread posts and comments.
+ *
+ * Features:
+ * - Splitting content into text and link segments for rendering
+ * - Picking the link a post shows a preview card for
+ * - Normalizing URLs into link preview cache keys
+ */
+
+/** http(s) URLs up to the next whitespace or angle bracket */
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/gi;
+
+/** Sentence punctuation that usually follows a link rather than belonging to it */
+const TRAILING_PUNCTUATION = '.,;:!?\'"’”]';
+
+export const MAX_PREVIEW_URL_LENGTH = 2048;
+
+export type LinkSegment =
+  | { type: 'text'; text: string }
+  | { type: 'link'; text: string; url: string };
+
+const countChar = (text: string, char: string) => text.split(char).length - 1;
+
+/**
+ * Trims trailing punctuation, keeping a closing parenthesis that balances one
+ * in the URL, e.g. https://en.wikipedia.org/wiki/Seed_(startup)
+ */
+function trimTrailing(url: string): string {
+  let end = url.length;
+
+  while (end > 0) {
+    const char = url[end - 1];
+    if (char === ')') {
+      const candidate = url.slice(0, end);
+      if (countChar(candidate, ')') <= countChar(candidate, '(')) break;
+    } else if (!TRAILING_PUNCTUATION.includes(char)) {
+      break;
+    }
+    end -= 1;
+  }
+
+  return url.slice(0, end);
+}
+
+/**
+ * Splits text into plain and link segments
+ */
+export function splitLinks(text: string): LinkSegment[] {
+  const segments: LinkSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = trimTrailing(match[0]);
+    if (!normalizePreviewUrl(url)) continue;
+
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'link', text: url, url });
+    lastIndex = match.index + url.length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Returns the distinct URLs in the text, in order of appearance
+ */
+export function extractUrls(text: string): string[] {
+  const urls = new Set<string>();
+  for (const segment of splitLinks(text)) {
+    if (segment.type === 'link') urls.add(segment.url);
+  }
+  return [...urls];
+}
+
+/**
+ * Normalizes a URL into a link preview cache key: http(s) only, no
+ * credentials, no #fragment. Returns null for anything else.
+ */
+export function normalizePreviewUrl(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  if (url.username || url.password) return null;
+
+  url.hash = '';
+  const normalized = url.toString();
+  return normalized.length <= MAX_PREVIEW_URL_LENGTH ? normalized : null;
+}
+
+/**
+ * URL of the preview card shown for a post: its first link
+ */
+export function getPreviewUrl(text: string): string | null {
+  const [first] = extractUrls(text);
+  return first ? normalizePreviewUrl(first) : null;
+}
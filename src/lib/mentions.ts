@@ -0,0 +1,100 @@
+/**
+ * Mention Utilities
+ *
+ * Parsing and editing helpers for @username mentions in posts and comments.
+ *
+ * Features:
+ * - Same handle rules as the extract_mention_usernames SQL function
+ * - Splitting content into text and mention segments for rendering
+ * - Detecting the @query being typed at the caret for autocomplete
+ * - Replacing that query with the selected username
+ */
+
+/** Handle rules match onboarding usernames: 3-20 of a-z, 0-9, _ and - */
+const MENTION_PATTERN = /(?<![A-Za-z0-9_@.-])@([A-Za-z0-9_-]{3,20})(?![A-Za-z0-9_-])/g;
+
+/** Partial handle directly before the caret, e.g. "hello @ki|" */
+const ACTIVE_MENTION_PATTERN = /(?<![A-Za-z0-9_@.-])@([A-Za-z0-9_-]{0,20})$/;
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; username: string };
+
+export interface ActiveMention {
+  /** Characters typed after the @ */
+  query: string;
+  /** Index of the @ in the text */
+  start: number;
+}
+
+/**
+ * Returns the distinct, lowercased usernames mentioned in the text
+ */
+export function extractMentions(text: string): string[] {
+  const usernames = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[1].toLowerCase());
+  }
+  return [...usernames];
+}
+
+/**
+ * Splits text into plain and mention segments.
+ *
+ * Only handles in `usernames` (the stored mentions) become mention segments;
+ * anything else, such as an @handle that matches no member, stays plain text.
+ */
+export function splitMentions(text: string, usernames: Iterable<string>): MentionSegment[] {
+  const known = new Set([...usernames].map((username) => username.toLowerCase()));
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  if (known.size > 0) {
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+      const username = match[1].toLowerCase();
+      if (!known.has(username)) continue;
+
+      if (match.index > lastIndex) {
+        segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+      }
+      segments.push({ type: 'mention', text: match[0], username });
+      lastIndex = match.index + match[0].length;
+    }
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Returns the mention being typed at the caret, or null when the caret is
+ * not right after an @handle
+ */
+export function getActiveMention(text: string, caret: number): ActiveMention | null {
+  const match = ACTIVE_MENTION_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { query: match[1], start: match.index };
+}
+
+/**
+ * Replaces the active mention with `@username ` and returns the new text and
+ * caret position
+ */
+export function insertMention(
+  text: string,
+  mention: ActiveMention,
+  caret: number,
+  username: string
+): { text: string; caret: number } {
+  const inserted = `@${username} `;
+  const after = text.slice(caret).replace(/^[A-Za-z0-9_-]*/, '');
+
+  return {
+    text: text.slice(0, mention.start) + inserted + after.replace(/^ /, ''),
+    caret: mention.start + inserted.length,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Direct Message Utilities
+ *
+ * Helpers for 1:1 conversations: merging realtime messages into the loaded
+ * list, read receipts and inbox previews.
+ */
+
+/** Maximum message length, matches the messages.content check constraint */
+export const MAX_MESSAGE_LENGTH = 4000;
+
+interface MessageLike {
+  id: number;
+  created_at: string;
+}
+
+/**
+ * Adds or replaces a message in a list ordered oldest first.
+ * Realtime events may arrive after the sender's own refetch, so messages
+ * already in the list are replaced instead of duplicated.
+ */
+export function mergeMessage<T extends MessageLike>(messages: T[], message: T): T[] {
+  const others = messages.filter((m) => m.id !== message.id);
+  const index = others.findIndex(
+    (m) => m.created_at > message.created_at || (m.created_at === message.created_at && m.id > message.id)
+  );
+  if (index === -1) return [...others, message];
+  return [...others.slice(0, index), message, ...others.slice(index)];
+}
+
+/**
+ * Whether the other participant has read a message
+ *
+ * @param message - A message sent by the current user
+ * @param otherLastReadAt - When the other participant last read the conversation
+ */
+export function isMessageRead(
+  message: Pick<MessageLike, 'created_at'>,
+  otherLastReadAt: string | null | undefined
+): boolean {
+  if (!otherLastReadAt) return false;
+  return new Date(otherLastReadAt).getTime() >= new Date(message.created_at).getTime();
+}
+
+/**
+ * Id of the newest own message the other participant has read; the read
+ * receipt is shown under that message only.
+ */
+export function getLastReadMessageId<T extends MessageLike & { sender_id: string }>(
+  messages: T[],
+  currentUserId: string | null | undefined,
+  otherLastReadAt: string | null | undefined
+): number | null {
+  if (!currentUserId) return null;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.sender_id === currentUserId && isMessageRead(message, otherLastReadAt)) {
+      return message.id;
+    }
+  }
+  return null;
+}
+
+/**
+ * Single-line inbox preview of a message
+ */
+export function getMessagePreview(content: string | null | undefined, maxLength = 80): string {
+  const text = (content ?? '').replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength - 1).trimEnd()}…`;
+}
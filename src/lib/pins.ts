@@ -0,0 +1,41 @@
+/**
+ * Pin Utilities
+ *
+ * Helpers for posts pinned to the announcements region of the feed.
+ *
+ * Features:
+ * - Pins expire once pinned_until has passed (no expiry when null)
+ * - Expiry dates picked by admins last through the end of that day
+ */
+
+/**
+ * Pin state of a post
+ */
+export interface PinState {
+  is_pinned: boolean;
+  pinned_until: string | null;
+}
+
+/**
+ * Whether the post is pinned and its pin has not expired
+ */
+export function isPinActive(post: PinState, now: Date = new Date()): boolean {
+  if (!post.is_pinned) return false;
+  return !post.pinned_until || new Date(post.pinned_until).getTime() > now.getTime();
+}
+
+/**
+ * Converts a date input value (yyyy-mm-dd) to the end of that day in local
+ * time as an ISO timestamp. Returns null for an empty or invalid value.
+ */
+export function toPinnedUntil(date: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const endOfDay = new Date(year, month - 1, day, 23, 59, 59, 999);
+  // Rejects dates like 2026-02-30 that roll over into the next month
+  if (endOfDay.getMonth() !== month - 1 || endOfDay.getDate() !== day) return null;
+
+  return endOfDay.toISOString();
+}
@@ -0,0 +1,70 @@
+/**
+ * Poll Utilities
+ *
+ * Helpers for thread post polls.
+ *
+ * Features:
+ * - Same option limits as the create_poll SQL function
+ * - Cleaning up options typed in the composer
+ * - Vote percentages that always add up to 100
+ */
+
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 6;
+export const POLL_OPTION_MAX_LENGTH = 80;
+
+/**
+ * Trims options and drops blank and duplicate (case-insensitive) ones,
+ * keeping the first occurrence
+ */
+export function normalizePollOptions(options: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const option of options) {
+    const label = option.trim();
+    const key = label.toLowerCase();
+    if (!label || seen.has(key)) continue;
+    seen.add(key);
+    normalized.push(label);
+  }
+
+  return normalized;
+}
+
+/**
+ * Whether the options make a valid poll once normalized
+ */
+export function isValidPoll(options: string[]): boolean {
+  const normalized = normalizePollOptions(options);
+  return (
+    normalized.length >= POLL_MIN_OPTIONS &&
+    normalized.length <= POLL_MAX_OPTIONS &&
+    normalized.every((label) => label.length <= POLL_OPTION_MAX_LENGTH)
+  );
+}
+
+/**
+ * Converts vote counts to whole percentages that sum to 100 (largest
+ * remainder method). Returns all zeros when there are no votes.
+ */
+export function getVotePercentages(counts: number[]): number[] {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return counts.map(() => 0);
+
+  const exact = counts.map((count) => (count / total) * 100);
+  const percentages = exact.map(Math.floor);
+  let remaining = 100 - percentages.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    percentages[index] += 1;
+    remaining -= 1;
+  }
+
+  return percentages;
+}
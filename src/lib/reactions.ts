@@ -0,0 +1,93 @@
+/**
+ * Reaction Utilities
+ *
+ * Emoji reactions on thread posts and comments.
+ *
+ * Features:
+ * - Reaction set in display order (same values as the reaction_type enum)
+ * - Parsing reaction_counts JSON from the database
+ * - Count changes that mirror the adjust_reaction_counts SQL function, for
+ *   optimistic updates
+ */
+
+export const REACTIONS = [
+  { type: 'like', emoji: '👍' },
+  { type: 'love', emoji: '❤️' },
+  { type: 'celebrate', emoji: '🎉' },
+  { type: 'insightful', emoji: '💡' },
+  { type: 'thanks', emoji: '🙏' },
+  { type: 'funny', emoji: '😂' },
+] as const;
+
+export type ReactionType = (typeof REACTIONS)[number]['type'];
+
+/**
+ * Count per reaction; reactions nobody used are left out
+ */
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+const REACTION_TYPES: readonly string[] = REACTIONS.map((reaction) => reaction.type);
+
+export function isReactionType(value: unknown): value is ReactionType {
+  return typeof value === 'string' && REACTION_TYPES.includes(value);
+}
+
+export function getReactionEmoji(type: ReactionType): string {
+  return REACTIONS.find((reaction) => reaction.type === type)?.emoji ?? '👍';
+}
+
+/**
+ * Reads a reaction_counts column, ignoring unknown keys and non-positive
+ * or non-numeric counts
+ */
+export function toReactionCounts(value: unknown): ReactionCounts {
+  const counts: ReactionCounts = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return counts;
+
+  for (const [key, count] of Object.entries(value)) {
+    if (isReactionType(key) && typeof count === 'number' && count > 0) {
+      counts[key] = Math.floor(count);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Applies a member switching from one reaction to another; null means no
+ * reaction (adding or removing one)
+ */
+export function applyReactionChange(
+  counts: ReactionCounts,
+  from: ReactionType | null,
+  to: ReactionType | null
+): ReactionCounts {
+  if (from === to) return counts;
+
+  const next: ReactionCounts = { ...counts };
+
+  if (from) {
+    const count = (next[from] ?? 0) - 1;
+    if (count > 0) {
+      next[from] = count;
+    } else {
+      delete next[from];
+    }
+  }
+
+  if (to) {
+    next[to] = (next[to] ?? 0) + 1;
+  }
+
+  return next;
+}
+
+/**
+ * Most used reactions first (ties keep the display order), for the summary
+ * next to the reaction button
+ */
+export function getTopReactions(counts: ReactionCounts, limit = 3): ReactionType[] {
+  return REACTIONS.map((reaction) => reaction.type)
+    .filter((type) => (counts[type] ?? 0) > 0)
+    .sort((a, b) => (counts[b] ?? 0) - (counts[a] ?? 0))
+    .slice(0, limit);
+}
@@ -0,0 +1,55 @@
+/**
+ * Review Utilities
+ *
+ * Helpers for expert reviews left after accepted collaboration requests.
+ *
+ * Features:
+ * - Ratings are whole stars from 1 to 5
+ * - Averages display with one decimal
+ * - Per-star counts for the rating summary
+ */
+
+/** Lowest star rating */
+export const MIN_RATING = 1;
+
+/** Highest star rating */
+export const MAX_RATING = 5;
+
+/** Maximum length of review texts and expert replies */
+export const MAX_REVIEW_LENGTH = 2000;
+
+/**
+ * Whether the value is a valid star rating
+ */
+export function isValidRating(rating: number): boolean {
+  return Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING;
+}
+
+/**
+ * Formats an average rating with one decimal ("4.5"); empty without a rating
+ */
+export function formatRating(average: number | null | undefined): string {
+  if (average === null || average === undefined) return '';
+  return (Math.round(average * 10) / 10).toFixed(1);
+}
+
+/**
+ * Counts reviews per star rating, from 5 stars down to 1 star.
+ * Invalid ratings are ignored.
+ */
+export function getRatingDistribution(
+  reviews: ReadonlyArray<{ rating: number }>
+): Array<{ rating: number; count: number }> {
+  const counts = new Map<number, number>();
+  for (const { rating } of reviews) {
+    if (isValidRating(rating)) {
+      counts.set(rating, (counts.get(rating) ?? 0) + 1);
+    }
+  }
+
+  const distribution: Array<{ rating: number; count: number }> = [];
+  for (let rating = MAX_RATING; rating >= MIN_RATING; rating--) {
+    distribution.push({ rating, count: counts.get(rating) ?? 0 });
+  }
+  return distribution;
+}
@@ -0,0 +1,233 @@
+/**
+ * Scheduling Utilities
+ *
+ * Helpers for coffee chat slots booked against an expert's weekly availability.
+ *
+ * Features:
+ * - Availability and slots are wall-clock times in Asia/Seoul, whatever the
+ *   browser's time zone
+ * - Calendar date keys ("2026-03-02") for the date picker and slot grouping
+ * - Availability window validation ("09:00" - "12:00")
+ * - iCalendar (.ics) events with an Asia/Seoul VTIMEZONE
+ */
+
+/** Time zone of expert availability and booked slots */
+export const SEOUL_TIME_ZONE = 'Asia/Seoul';
+
+/** Korea has not observed daylight saving time since 1988 */
+const SEOUL_UTC_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** Length of a coffee chat slot */
+export const COFFEE_CHAT_SLOT_MINUTES = 30;
+
+/** How many days ahead coffee chats can be booked */
+export const BOOKING_WINDOW_DAYS = 60;
+
+/**
+ * A bookable slot, as ISO timestamps
+ */
+export interface TimeSlot {
+  start: string;
+  end: string;
+}
+
+/**
+ * An event for an .ics file
+ */
+export interface IcsEvent {
+  /** Globally unique, stable ID so re-importing updates the same event */
+  uid: string;
+  start: Date | string;
+  end: Date | string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * Calendar date in Seoul of an instant ("2026-03-02")
+ */
+export function toSeoulDateKey(date: Date | string): string {
+  return new Date(new Date(date).getTime() + SEOUL_UTC_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Date key of a date picked in the calendar. The picker works with local
+ * midnights, and the picked day is meant as that day in Seoul.
+ */
+export function dateKeyFromPickerDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local midnight of a date key, for the calendar picker
+ */
+export function pickerDateFromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Moves a date key by a number of days
+ */
+export function addDaysToDateKey(key: string, days: number): string {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Groups slots by their Seoul calendar date, keeping the order within a day
+ */
+export function groupSlotsByDate(slots: TimeSlot[]): Map<string, TimeSlot[]> {
+  const groups = new Map<string, TimeSlot[]>();
+
+  for (const slot of slots) {
+    const key = toSeoulDateKey(slot.start);
+    const group = groups.get(key);
+    if (group) {
+      group.push(slot);
+    } else {
+      groups.set(key, [slot]);
+    }
+  }
+
+  return groups;
+}
+
+// ============================================================================
+// AVAILABILITY WINDOWS
+// ============================================================================
+
+/**
+ * Minutes since midnight of a "HH:MM" (or "HH:MM:SS") time, or null if invalid
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})(?::\d{2})?$/.exec(value);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether an availability window is valid and fits at least one slot
+ */
+export function isValidAvailabilityWindow(start: string, end: string): boolean {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null) return false;
+
+  return endMinutes - startMinutes >= COFFEE_CHAT_SLOT_MINUTES;
+}
+
+// ============================================================================
+// ICALENDAR
+// ============================================================================
+
+/**
+ * Escapes a TEXT value (RFC 5545, 3.3.11)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line to at most 75 octets per line (RFC 5545, 3.1),
+ * never splitting a multi-byte character
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = lines.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      lines.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+/**
+ * Seoul wall-clock time of an instant in iCalendar form ("20260302T140000")
+ */
+function formatIcsSeoulDateTime(date: Date | string): string {
+  const seoul = new Date(new Date(date).getTime() + SEOUL_UTC_OFFSET_MS);
+  return (
+    `${seoul.getUTCFullYear()}${pad(seoul.getUTCMonth() + 1)}${pad(seoul.getUTCDate())}` +
+    `T${pad(seoul.getUTCHours())}${pad(seoul.getUTCMinutes())}${pad(seoul.getUTCSeconds())}`
+  );
+}
+
+/**
+ * UTC time in iCalendar form ("20260302T050000Z")
+ */
+function formatIcsUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Builds an .ics calendar with a single event in Asia/Seoul time
+ *
+ * @param event - The event
+ * @param now - Creation time (DTSTAMP), injectable for tests
+ */
+export function buildIcsCalendar(event: IcsEvent, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//The Potential//Coffee Chat//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VTIMEZONE',
+    `TZID:${SEOUL_TIME_ZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0900',
+    'TZOFFSETTO:+0900',
+    'TZNAME:KST',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsUtcDateTime(now)}`,
+    `DTSTART;TZID=${SEOUL_TIME_ZONE}:${formatIcsSeoulDateTime(event.start)}`,
+    `DTEND;TZID=${SEOUL_TIME_ZONE}:${formatIcsSeoulDateTime(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
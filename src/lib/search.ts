@@ -0,0 +1,79 @@
+/**
+ * Search Utilities
+ *
+ * Shared helpers for keyword filtering and rendering search hits.
+ *
+ * Features:
+ * - ILIKE pattern escaping so %, _ and \ in user input match literally
+ * - PostgREST `.or()` filter builder that quotes values containing , ( ) or "
+ * - Splitting server-highlighted snippets (<mark>…</mark>) into text segments
+ */
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Escapes LIKE wildcards so the term is matched literally
+ */
+export function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Builds a PostgREST `or` filter matching the keyword as a case-insensitive
+ * substring of any of the given columns.
+ *
+ * Returns null for a blank keyword so callers can skip the filter.
+ *
+ * @example
+ * ```ts
+ * const filter = buildIlikeFilter(['title', 'description'], keyword);
+ * if (filter) query = query.or(filter);
+ * ```
+ */
+export function buildIlikeFilter(columns: string[], keyword: string | undefined): string | null {
+  const term = keyword?.trim();
+  if (!term) return null;
+
+  // Double-quoted values may contain commas and parentheses; inside the
+  // quotes PostgREST treats backslash as an escape character.
+  const pattern = `%${escapeLikePattern(term)}%`;
+  const quoted = `"${pattern.replace(/[\\"]/g, '\\$&')}"`;
+
+  return columns.map((column) => `${column}.ilike.${quoted}`).join(',');
+}
+
+/**
+ * Splits a snippet highlighted by the search_all RPC into plain text segments.
+ * Render each segment as a text node; the snippet itself is never HTML.
+ */
+export function splitHighlights(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_END, start);
+
+    if (start === -1 || end === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    const text = rest.slice(start + HIGHLIGHT_START.length, end);
+    if (text) {
+      segments.push({ text, highlighted: true });
+    }
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return segments;
+}
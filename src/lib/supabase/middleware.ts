@@ -61,7 +61,7 @@ export async function createClient(request: NextRequest) {
  */
 export const routeConfig = {
   // Routes that require authentication
-  protectedRoutes: ['/experts', '/profile', '/clubs', '/expert-registration'],
+  protectedRoutes: ['/experts', '/profile', '/clubs', '/expert-registration', '/messages'],
   // Routes that are only accessible when NOT authenticated
   authRoutes: ['/login', '/signup'],
   // Routes that require authentication but should NOT redirect to /home
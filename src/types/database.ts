@@ -40,6 +40,8 @@ export interface Database {
           business_type: string | null;
           business_stage: string | null;
           onboarding_completed: boolean;
+          follower_count: number;
+          following_count: number;
           created_at: string;
           updated_at: string;
         };
@@ -63,6 +65,8 @@ export interface Database {
           business_type?: string | null;
           business_stage?: string | null;
           onboarding_completed?: boolean;
+          follower_count?: number;
+          following_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -86,6 +90,8 @@ export interface Database {
           business_type?: string | null;
           business_stage?: string | null;
           onboarding_completed?: boolean;
+          follower_count?: number;
+          following_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -122,6 +128,12 @@ export interface Database {
           bio: string | null;
           experience_years: number | null;
           hourly_rate: number | null;
+          is_hidden: boolean;
+          hidden_reason: string | null;
+          hidden_by: string | null;
+          rating_average: number | null;
+          review_count: number;
+          reviewed_snapshot: Json | null;
         };
         Insert: {
           id?: string;
@@ -153,6 +165,12 @@ export interface Database {
           bio?: string | null;
           experience_years?: number | null;
           hourly_rate?: number | null;
+          is_hidden?: boolean;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
+          rating_average?: number | null;
+          review_count?: number;
+          reviewed_snapshot?: Json | null;
         };
         Update: {
           id?: string;
@@ -178,235 +196,1097 @@ export interface Database {
           view_count?: number;
           contact_count?: number;
           created_at?: string;
-          updated_at?: string;
-          submitted_at?: string | null;
-          collaboration_needs?: string | null;
-          bio?: string | null;
-          experience_years?: number | null;
-          hourly_rate?: number | null;
+          updated_at?: string;
+          submitted_at?: string | null;
+          collaboration_needs?: string | null;
+          bio?: string | null;
+          experience_years?: number | null;
+          hourly_rate?: number | null;
+          is_hidden?: boolean;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
+          rating_average?: number | null;
+          review_count?: number;
+          reviewed_snapshot?: Json | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expert_profiles_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expert_profiles_verified_by_fkey';
+            columns: ['verified_by'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      posts: {
+        Row: {
+          id: number;
+          author_id: string | null;
+          content: string;
+          media_urls: string[];
+          like_count: number;
+          comment_count: number;
+          is_pinned: boolean;
+          is_hidden: boolean;
+          hidden_reason: string | null;
+          hidden_by: string | null;
+          created_at: string;
+          updated_at: string;
+          edited_at: string | null;
+          status: Database['public']['Enums']['post_status'];
+          publish_at: string | null;
+          quoted_post_id: number | null;
+          is_quote: boolean;
+          repost_count: number;
+          reaction_counts: Json;
+          pinned_until: string | null;
+          is_notice: boolean;
+          is_anonymous: boolean;
+        };
+        Insert: {
+          id?: number;
+          author_id?: string | null;
+          content: string;
+          media_urls?: string[];
+          like_count?: number;
+          comment_count?: number;
+          is_pinned?: boolean;
+          is_hidden?: boolean;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          edited_at?: string | null;
+          status?: Database['public']['Enums']['post_status'];
+          publish_at?: string | null;
+          quoted_post_id?: number | null;
+          is_quote?: boolean;
+          repost_count?: number;
+          reaction_counts?: Json;
+          pinned_until?: string | null;
+          is_notice?: boolean;
+          is_anonymous?: boolean;
+        };
+        Update: {
+          id?: number;
+          author_id?: string | null;
+          content?: string;
+          media_urls?: string[];
+          like_count?: number;
+          comment_count?: number;
+          is_pinned?: boolean;
+          is_hidden?: boolean;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          edited_at?: string | null;
+          status?: Database['public']['Enums']['post_status'];
+          publish_at?: string | null;
+          quoted_post_id?: number | null;
+          is_quote?: boolean;
+          repost_count?: number;
+          reaction_counts?: Json;
+          pinned_until?: string | null;
+          is_notice?: boolean;
+          is_anonymous?: boolean;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'posts_author_id_fkey';
+            columns: ['author_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'posts_hidden_by_fkey';
+            columns: ['hidden_by'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'posts_quoted_post_id_fkey';
+            columns: ['quoted_post_id'];
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      post_attachments: {
+        Row: {
+          id: number;
+          post_id: number;
+          file_name: string;
+          mime_type: string;
+          size_bytes: number;
+          storage_path: string;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          post_id: number;
+          file_name: string;
+          mime_type: string;
+          size_bytes: number;
+          storage_path: string;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          post_id?: number;
+          file_name?: string;
+          mime_type?: string;
+          size_bytes?: number;
+          storage_path?: string;
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'post_attachments_post_id_fkey';
+            columns: ['post_id'];
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      post_revisions: {
+        Row: {
+          id: number;
+          post_id: number;
+          editor_id: string | null;
+          content: string;
+          media_urls: string[];
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          post_id: number;
+          editor_id?: string | null;
+          content: string;
+          media_urls?: string[];
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          post_id?: number;
+          editor_id?: string | null;
+          content?: string;
+          media_urls?: string[];
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'post_revisions_post_id_fkey';
+            columns: ['post_id'];
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_revisions_editor_id_fkey';
+            columns: ['editor_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      comments: {
+        Row: {
+          id: number;
+          post_id: number;
+          author_id: string | null;
+          parent_id: number | null;
+          content: string;
+          like_count: number;
+          reaction_counts: Json;
+          is_hidden: boolean;
+          created_at: string;
+          updated_at: string;
+          hidden_reason: string | null;
+          hidden_by: string | null;
+          edited_at: string | null;
+          deleted_at: string | null;
+          is_anonymous: boolean;
+          anonymous_number: number | null;
+        };
+        Insert: {
+          id?: number;
+          post_id: number;
+          author_id?: string | null;
+          parent_id?: number | null;
+          content: string;
+          like_count?: number;
+          reaction_counts?: Json;
+          is_hidden?: boolean;
+          created_at?: string;
+          updated_at?: string;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+          is_anonymous?: boolean;
+          anonymous_number?: number | null;
+        };
+        Update: {
+          id?: number;
+          post_id?: number;
+          author_id?: string | null;
+          parent_id?: number | null;
+          content?: string;
+          like_count?: number;
+          reaction_counts?: Json;
+          is_hidden?: boolean;
+          created_at?: string;
+          updated_at?: string;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+          is_anonymous?: boolean;
+          anonymous_number?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comments_post_id_fkey';
+            columns: ['post_id'];
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_author_id_fkey';
+            columns: ['author_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_parent_id_fkey';
+            columns: ['parent_id'];
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      anonymous_authors: {
+        Row: {
+          id: number;
+          post_id: number;
+          comment_id: number | null;
+          author_id: string;
+          pseudonym_number: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          post_id: number;
+          comment_id?: number | null;
+          author_id: string;
+          pseudonym_number: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          post_id?: number;
+          comment_id?: number | null;
+          author_id?: string;
+          pseudonym_number?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'anonymous_authors_post_id_fkey';
+            columns: ['post_id'];
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'anonymous_authors_comment_id_fkey';
+            columns: ['comment_id'];
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'anonymous_authors_author_id_fkey';
+            columns: ['author_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      follows: {
+        Row: {
+          follower_id: string;
+          following_id: string;
+          created_at: string;
+        };
+        Insert: {
+          follower_id: string;
+          following_id: string;
+          created_at?: string;
+        };
+        Update: {
+          follower_id?: string;
+          following_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'follows_follower_id_fkey';
+            columns: ['follower_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'follows_following_id_fkey';
+            columns: ['following_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      tags: {
+        Row: {
+          id: number;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      post_tags: {
+        Row: {
+          post_id: number;
+          tag_id: number;
+        };
+        Insert: {
+          post_id: number;
+          tag_id: number;
+        };
+        Update: {
+          post_id?: number;
+          tag_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'post_tags_post_id_fkey';
+            columns: ['post_id'];
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_tags_tag_id_fkey';
+            columns: ['tag_id'];
+            referencedRelation: 'tags';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      tag_follows: {
+        Row: {
+          user_id: string;
+          tag_id: number;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          tag_id: number;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          tag_id?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'tag_follows_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tag_follows_tag_id_fkey';
+            columns: ['tag_id'];
+            referencedRelation: 'tags';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      polls: {
+        Row: {
+          id: number;
+          post_id: number;
+          allows_multiple: boolean;
+          closes_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          post_id: number;
+          allows_multiple?: boolean;
+          closes_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          post_id?: number;
+          allows_multiple?: boolean;
+          closes_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'polls_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: true;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      poll_options: {
+        Row: {
+          id: number;
+          poll_id: number;
+          label: string;
+          position: number;
+          vote_count: number;
+        };
+        Insert: {
+          id?: number;
+          poll_id: number;
+          label: string;
+          position: number;
+          vote_count?: number;
+        };
+        Update: {
+          id?: number;
+          poll_id?: number;
+          label?: string;
+          position?: number;
+          vote_count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'poll_options_poll_id_fkey';
+            columns: ['poll_id'];
+            referencedRelation: 'polls';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      poll_votes: {
+        Row: {
+          poll_id: number;
+          option_id: number;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          poll_id: number;
+          option_id: number;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          poll_id?: number;
+          option_id?: number;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'poll_votes_poll_id_fkey';
+            columns: ['poll_id'];
+            referencedRelation: 'polls';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'poll_votes_option_id_poll_id_fkey';
+            columns: ['option_id', 'poll_id'];
+            referencedRelation: 'poll_options';
+            referencedColumns: ['id', 'poll_id'];
+          },
+          {
+            foreignKeyName: 'poll_votes_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      mentions: {
+        Row: {
+          id: number;
+          mentioned_user_id: string;
+          author_id: string | null;
+          post_id: number | null;
+          comment_id: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          mentioned_user_id: string;
+          author_id?: string | null;
+          post_id?: number | null;
+          comment_id?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          mentioned_user_id?: string;
+          author_id?: string | null;
+          post_id?: number | null;
+          comment_id?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'mentions_mentioned_user_id_fkey';
+            columns: ['mentioned_user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'mentions_author_id_fkey';
+            columns: ['author_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'mentions_post_id_fkey';
+            columns: ['post_id'];
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'mentions_comment_id_fkey';
+            columns: ['comment_id'];
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      likes: {
+        Row: {
+          id: number;
+          user_id: string;
+          likeable_type: Database['public']['Enums']['likeable_type'];
+          likeable_id: number;
+          reaction: Database['public']['Enums']['reaction_type'];
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: string;
+          likeable_type: Database['public']['Enums']['likeable_type'];
+          likeable_id: number;
+          reaction?: Database['public']['Enums']['reaction_type'];
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: string;
+          likeable_type?: Database['public']['Enums']['likeable_type'];
+          likeable_id?: number;
+          reaction?: Database['public']['Enums']['reaction_type'];
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'likes_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      collaboration_requests: {
+        Row: {
+          id: number;
+          sender_id: string;
+          recipient_id: string;
+          expert_profile_id: string | null;
+          type: Database['public']['Enums']['collaboration_type'];
+          subject: string;
+          message: string;
+          contact_info: string | null;
+          status: Database['public']['Enums']['collaboration_status'];
+          response_message: string | null;
+          responded_at: string | null;
+          meeting_format: 'video_call' | 'phone' | 'in_person' | null;
+          scheduled_start: string | null;
+          scheduled_end: string | null;
+          scope: string | null;
+          budget_min: number | null;
+          budget_max: number | null;
+          timeline_start: string | null;
+          timeline_end: string | null;
+          proposed_by: string | null;
+          proposal_updated_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          sender_id: string;
+          recipient_id: string;
+          expert_profile_id?: string | null;
+          type: Database['public']['Enums']['collaboration_type'];
+          subject: string;
+          message: string;
+          contact_info?: string | null;
+          status?: Database['public']['Enums']['collaboration_status'];
+          response_message?: string | null;
+          responded_at?: string | null;
+          meeting_format?: 'video_call' | 'phone' | 'in_person' | null;
+          scheduled_start?: string | null;
+          scheduled_end?: string | null;
+          scope?: string | null;
+          budget_min?: number | null;
+          budget_max?: number | null;
+          timeline_start?: string | null;
+          timeline_end?: string | null;
+          proposed_by?: string | null;
+          proposal_updated_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          sender_id?: string;
+          recipient_id?: string;
+          expert_profile_id?: string | null;
+          type?: Database['public']['Enums']['collaboration_type'];
+          subject?: string;
+          message?: string;
+          contact_info?: string | null;
+          status?: Database['public']['Enums']['collaboration_status'];
+          response_message?: string | null;
+          responded_at?: string | null;
+          meeting_format?: 'video_call' | 'phone' | 'in_person' | null;
+          scheduled_start?: string | null;
+          scheduled_end?: string | null;
+          scope?: string | null;
+          budget_min?: number | null;
+          budget_max?: number | null;
+          timeline_start?: string | null;
+          timeline_end?: string | null;
+          proposed_by?: string | null;
+          proposal_updated_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'collaboration_requests_sender_id_fkey';
+            columns: ['sender_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'collaboration_requests_recipient_id_fkey';
+            columns: ['recipient_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'collaboration_requests_expert_profile_id_fkey';
+            columns: ['expert_profile_id'];
+            referencedRelation: 'expert_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'collaboration_requests_proposed_by_fkey';
+            columns: ['proposed_by'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      collaboration_request_events: {
+        Row: {
+          id: number;
+          collaboration_request_id: number;
+          actor_id: string | null;
+          kind: 'created' | 'status_changed' | 'proposal_updated';
+          from_status: Database['public']['Enums']['collaboration_status'] | null;
+          to_status: Database['public']['Enums']['collaboration_status'];
+          note: string | null;
+          metadata: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          collaboration_request_id: number;
+          actor_id?: string | null;
+          kind: 'created' | 'status_changed' | 'proposal_updated';
+          from_status?: Database['public']['Enums']['collaboration_status'] | null;
+          to_status: Database['public']['Enums']['collaboration_status'];
+          note?: string | null;
+          metadata?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          collaboration_request_id?: number;
+          actor_id?: string | null;
+          kind?: 'created' | 'status_changed' | 'proposal_updated';
+          from_status?: Database['public']['Enums']['collaboration_status'] | null;
+          to_status?: Database['public']['Enums']['collaboration_status'];
+          note?: string | null;
+          metadata?: Json;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'collaboration_request_events_collaboration_request_id_fkey';
+            columns: ['collaboration_request_id'];
+            referencedRelation: 'collaboration_requests';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'collaboration_request_events_actor_id_fkey';
+            columns: ['actor_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      expert_availability: {
+        Row: {
+          id: number;
+          expert_profile_id: string;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          expert_profile_id: string;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          expert_profile_id?: string;
+          weekday?: number;
+          start_time?: string;
+          end_time?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expert_availability_expert_profile_id_fkey';
+            columns: ['expert_profile_id'];
+            referencedRelation: 'expert_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      expert_blackout_dates: {
+        Row: {
+          id: number;
+          expert_profile_id: string;
+          date: string;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          expert_profile_id: string;
+          date: string;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          expert_profile_id?: string;
+          date?: string;
+          reason?: string | null;
+          created_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: 'expert_profiles_user_id_fkey';
-            columns: ['user_id'];
-            referencedRelation: 'profiles';
-            referencedColumns: ['id'];
-          },
-          {
-            foreignKeyName: 'expert_profiles_verified_by_fkey';
-            columns: ['verified_by'];
-            referencedRelation: 'profiles';
+            foreignKeyName: 'expert_blackout_dates_expert_profile_id_fkey';
+            columns: ['expert_profile_id'];
+            referencedRelation: 'expert_profiles';
             referencedColumns: ['id'];
           }
         ];
       };
-      posts: {
+      expert_reviews: {
         Row: {
           id: number;
-          author_id: string;
+          collaboration_request_id: number;
+          expert_profile_id: string;
+          reviewer_id: string;
+          rating: number;
           content: string;
-          media_urls: string[];
-          like_count: number;
-          comment_count: number;
-          is_pinned: boolean;
-          is_hidden: boolean;
-          hidden_reason: string | null;
-          hidden_by: string | null;
+          expert_reply: string | null;
+          replied_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: number;
-          author_id: string;
+          collaboration_request_id: number;
+          expert_profile_id: string;
+          reviewer_id: string;
+          rating: number;
           content: string;
-          media_urls?: string[];
-          like_count?: number;
-          comment_count?: number;
-          is_pinned?: boolean;
-          is_hidden?: boolean;
-          hidden_reason?: string | null;
-          hidden_by?: string | null;
+          expert_reply?: string | null;
+          replied_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: number;
-          author_id?: string;
+          collaboration_request_id?: number;
+          expert_profile_id?: string;
+          reviewer_id?: string;
+          rating?: number;
           content?: string;
-          media_urls?: string[];
-          like_count?: number;
-          comment_count?: number;
-          is_pinned?: boolean;
-          is_hidden?: boolean;
-          hidden_reason?: string | null;
-          hidden_by?: string | null;
+          expert_reply?: string | null;
+          replied_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: 'posts_author_id_fkey';
-            columns: ['author_id'];
-            referencedRelation: 'profiles';
+            foreignKeyName: 'expert_reviews_collaboration_request_id_fkey';
+            columns: ['collaboration_request_id'];
+            referencedRelation: 'collaboration_requests';
             referencedColumns: ['id'];
           },
           {
-            foreignKeyName: 'posts_hidden_by_fkey';
-            columns: ['hidden_by'];
+            foreignKeyName: 'expert_reviews_expert_profile_id_fkey';
+            columns: ['expert_profile_id'];
+            referencedRelation: 'expert_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expert_reviews_reviewer_id_fkey';
+            columns: ['reviewer_id'];
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
           }
         ];
       };
-      comments: {
+      expert_experiences: {
         Row: {
           id: number;
-          post_id: number;
-          author_id: string;
-          parent_id: number | null;
-          content: string;
-          like_count: number;
-          is_hidden: boolean;
+          expert_profile_id: string;
+          company: string;
+          position: string;
+          location: string | null;
+          description: string | null;
+          category: Database['public']['Enums']['expert_category'] | null;
+          start_date: string;
+          end_date: string | null;
+          is_current: boolean;
+          sort_order: number;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: number;
-          post_id: number;
-          author_id: string;
-          parent_id?: number | null;
-          content: string;
-          like_count?: number;
-          is_hidden?: boolean;
+          expert_profile_id: string;
+          company: string;
+          position: string;
+          location?: string | null;
+          description?: string | null;
+          category?: Database['public']['Enums']['expert_category'] | null;
+          start_date: string;
+          end_date?: string | null;
+          is_current?: boolean;
+          sort_order?: number;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: number;
-          post_id?: number;
-          author_id?: string;
-          parent_id?: number | null;
-          content?: string;
-          like_count?: number;
-          is_hidden?: boolean;
+          expert_profile_id?: string;
+          company?: string;
+          position?: string;
+          location?: string | null;
+          description?: string | null;
+          category?: Database['public']['Enums']['expert_category'] | null;
+          start_date?: string;
+          end_date?: string | null;
+          is_current?: boolean;
+          sort_order?: number;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: 'comments_post_id_fkey';
-            columns: ['post_id'];
-            referencedRelation: 'posts';
-            referencedColumns: ['id'];
-          },
-          {
-            foreignKeyName: 'comments_author_id_fkey';
-            columns: ['author_id'];
-            referencedRelation: 'profiles';
-            referencedColumns: ['id'];
-          },
-          {
-            foreignKeyName: 'comments_parent_id_fkey';
-            columns: ['parent_id'];
-            referencedRelation: 'comments';
+            foreignKeyName: 'expert_experiences_expert_profile_id_fkey';
+            columns: ['expert_profile_id'];
+            referencedRelation: 'expert_profiles';
             referencedColumns: ['id'];
           }
         ];
       };
-      likes: {
+      expert_education: {
         Row: {
           id: number;
-          user_id: string;
-          likeable_type: Database['public']['Enums']['likeable_type'];
-          likeable_id: number;
+          expert_profile_id: string;
+          institution: string;
+          degree: string;
+          field: string | null;
+          description: string | null;
+          start_date: string;
+          end_date: string | null;
+          sort_order: number;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: number;
-          user_id: string;
-          likeable_type: Database['public']['Enums']['likeable_type'];
-          likeable_id: number;
+          expert_profile_id: string;
+          institution: string;
+          degree: string;
+          field?: string | null;
+          description?: string | null;
+          start_date: string;
+          end_date?: string | null;
+          sort_order?: number;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: number;
-          user_id?: string;
-          likeable_type?: Database['public']['Enums']['likeable_type'];
-          likeable_id?: number;
+          expert_profile_id?: string;
+          institution?: string;
+          degree?: string;
+          field?: string | null;
+          description?: string | null;
+          start_date?: string;
+          end_date?: string | null;
+          sort_order?: number;
           created_at?: string;
+          updated_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: 'likes_user_id_fkey';
-            columns: ['user_id'];
-            referencedRelation: 'profiles';
+            foreignKeyName: 'expert_education_expert_profile_id_fkey';
+            columns: ['expert_profile_id'];
+            referencedRelation: 'expert_profiles';
             referencedColumns: ['id'];
           }
         ];
       };
-      collaboration_requests: {
+      conversations: {
         Row: {
           id: number;
-          sender_id: string;
-          recipient_id: string;
-          expert_profile_id: string | null;
-          type: Database['public']['Enums']['collaboration_type'];
-          subject: string;
-          message: string;
-          contact_info: string | null;
-          status: Database['public']['Enums']['collaboration_status'];
-          response_message: string | null;
-          responded_at: string | null;
+          user_one_id: string;
+          user_two_id: string;
+          collaboration_request_id: number | null;
+          user_one_last_read_at: string;
+          user_two_last_read_at: string;
+          last_message_at: string;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: number;
-          sender_id: string;
-          recipient_id: string;
-          expert_profile_id?: string | null;
-          type: Database['public']['Enums']['collaboration_type'];
-          subject: string;
-          message: string;
-          contact_info?: string | null;
-          status?: Database['public']['Enums']['collaboration_status'];
-          response_message?: string | null;
-          responded_at?: string | null;
+          user_one_id: string;
+          user_two_id: string;
+          collaboration_request_id?: number | null;
+          user_one_last_read_at?: string;
+          user_two_last_read_at?: string;
+          last_message_at?: string;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: number;
-          sender_id?: string;
-          recipient_id?: string;
-          expert_profile_id?: string | null;
-          type?: Database['public']['Enums']['collaboration_type'];
-          subject?: string;
-          message?: string;
-          contact_info?: string | null;
-          status?: Database['public']['Enums']['collaboration_status'];
-          response_message?: string | null;
-          responded_at?: string | null;
+          user_one_id?: string;
+          user_two_id?: string;
+          collaboration_request_id?: number | null;
+          user_one_last_read_at?: string;
+          user_two_last_read_at?: string;
+          last_message_at?: string;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: 'collaboration_requests_sender_id_fkey';
-            columns: ['sender_id'];
+            foreignKeyName: 'conversations_user_one_id_fkey';
+            columns: ['user_one_id'];
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
           },
           {
-            foreignKeyName: 'collaboration_requests_recipient_id_fkey';
-            columns: ['recipient_id'];
+            foreignKeyName: 'conversations_user_two_id_fkey';
+            columns: ['user_two_id'];
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
           },
           {
-            foreignKeyName: 'collaboration_requests_expert_profile_id_fkey';
-            columns: ['expert_profile_id'];
-            referencedRelation: 'expert_profiles';
+            foreignKeyName: 'conversations_collaboration_request_id_fkey';
+            columns: ['collaboration_request_id'];
+            referencedRelation: 'collaboration_requests';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      messages: {
+        Row: {
+          id: number;
+          conversation_id: number;
+          sender_id: string;
+          content: string | null;
+          image_path: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          conversation_id: number;
+          sender_id: string;
+          content?: string | null;
+          image_path?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          conversation_id?: number;
+          sender_id?: string;
+          content?: string | null;
+          image_path?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_conversation_id_fkey';
+            columns: ['conversation_id'];
+            referencedRelation: 'conversations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey';
+            columns: ['sender_id'];
+            referencedRelation: 'profiles';
             referencedColumns: ['id'];
           }
         ];
@@ -570,6 +1450,91 @@ export interface Database {
           }
         ];
       };
+      link_previews: {
+        Row: {
+          url: string;
+          status: Database['public']['Enums']['link_preview_status'];
+          title: string | null;
+          description: string | null;
+          image_url: string | null;
+          site_name: string | null;
+          fetched_at: string;
+        };
+        Insert: {
+          url: string;
+          status: Database['public']['Enums']['link_preview_status'];
+          title?: string | null;
+          description?: string | null;
+          image_url?: string | null;
+          site_name?: string | null;
+          fetched_at?: string;
+        };
+        Update: {
+          url?: string;
+          status?: Database['public']['Enums']['link_preview_status'];
+          title?: string | null;
+          description?: string | null;
+          image_url?: string | null;
+          site_name?: string | null;
+          fetched_at?: string;
+        };
+        Relationships: [];
+      };
+      reports: {
+        Row: {
+          id: number;
+          reporter_id: string;
+          target_type: Database['public']['Enums']['report_target_type'];
+          target_id: string;
+          reason: Database['public']['Enums']['report_reason'];
+          details: string | null;
+          status: Database['public']['Enums']['report_status'];
+          resolved_by: string | null;
+          resolved_at: string | null;
+          resolution_note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          reporter_id: string;
+          target_type: Database['public']['Enums']['report_target_type'];
+          target_id: string;
+          reason: Database['public']['Enums']['report_reason'];
+          details?: string | null;
+          status?: Database['public']['Enums']['report_status'];
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          resolution_note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          reporter_id?: string;
+          target_type?: Database['public']['Enums']['report_target_type'];
+          target_id?: string;
+          reason?: Database['public']['Enums']['report_reason'];
+          details?: string | null;
+          status?: Database['public']['Enums']['report_status'];
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          resolution_note?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reports_reporter_id_fkey';
+            columns: ['reporter_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reports_resolved_by_fkey';
+            columns: ['resolved_by'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       user_events: {
         Row: {
           id: number;
@@ -586,6 +1551,9 @@ export interface Database {
           view_count: number;
           created_at: string;
           updated_at: string;
+          is_hidden: boolean;
+          hidden_reason: string | null;
+          hidden_by: string | null;
         };
         Insert: {
           id?: number;
@@ -602,6 +1570,9 @@ export interface Database {
           view_count?: number;
           created_at?: string;
           updated_at?: string;
+          is_hidden?: boolean;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
         };
         Update: {
           id?: number;
@@ -618,6 +1589,9 @@ export interface Database {
           view_count?: number;
           created_at?: string;
           updated_at?: string;
+          is_hidden?: boolean;
+          hidden_reason?: string | null;
+          hidden_by?: string | null;
         };
         Relationships: [
           {
@@ -630,7 +1604,152 @@ export interface Database {
       };
     };
     Views: Record<string, never>;
-    Functions: Record<string, never>;
+    Functions: {
+      create_poll: {
+        Args: {
+          p_post_id: number;
+          p_options: string[];
+          p_allows_multiple?: boolean;
+          p_closes_at?: string;
+        };
+        Returns: number;
+      };
+      get_personalized_post_ids: {
+        Args: {
+          p_as_of?: string;
+          p_cursor_score?: number;
+          p_cursor_id?: number;
+          p_limit?: number;
+        };
+        Returns: {
+          post_id: number;
+          score: number;
+          base_score: number;
+          industry_boost: number;
+          stage_boost: number;
+          engagement_boost: number;
+        }[];
+      };
+      get_ranked_post_ids: {
+        Args: {
+          p_sort: string;
+          p_as_of?: string;
+          p_cursor_score?: number;
+          p_cursor_id?: number;
+          p_limit?: number;
+          p_tag?: string;
+        };
+        Returns: {
+          post_id: number;
+          score: number;
+        }[];
+      };
+      get_report_queue: {
+        Args: {
+          p_status?: Database['public']['Enums']['report_status'];
+        };
+        Returns: {
+          target_type: Database['public']['Enums']['report_target_type'];
+          target_id: string;
+          report_count: number;
+          reasons: Database['public']['Enums']['report_reason'][];
+          details: string[];
+          first_reported_at: string;
+          last_reported_at: string;
+          target_author_id: string | null;
+          target_author_name: string | null;
+          target_preview: string | null;
+          target_is_hidden: boolean;
+          target_link: string | null;
+        }[];
+      };
+      moderate_report_target: {
+        Args: {
+          p_target_type: Database['public']['Enums']['report_target_type'];
+          p_target_id: string;
+          p_action: 'resolve' | 'dismiss' | 'hide';
+          p_note?: string;
+        };
+        Returns: number;
+      };
+      get_trending_tags: {
+        Args: {
+          p_days?: number;
+          p_limit?: number;
+        };
+        Returns: {
+          tag_id: number;
+          name: string;
+          post_count: number;
+        }[];
+      };
+      get_conversations: {
+        Args: Record<string, never>;
+        Returns: {
+          id: number;
+          collaboration_request_id: number | null;
+          other_user_id: string;
+          other_user_name: string | null;
+          other_user_avatar_url: string | null;
+          other_user_company: string | null;
+          other_last_read_at: string;
+          last_message_content: string | null;
+          last_message_has_image: boolean | null;
+          last_message_sender_id: string | null;
+          last_message_at: string;
+          unread_count: number;
+        }[];
+      };
+      get_unread_message_count: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      get_available_slots: {
+        Args: {
+          p_expert_profile_id: string;
+          p_from: string;
+          p_to: string;
+        };
+        Returns: {
+          slot_start: string;
+          slot_end: string;
+        }[];
+      };
+      mark_conversation_read: {
+        Args: {
+          p_conversation_id: number;
+        };
+        Returns: undefined;
+      };
+      get_experts_by_experience: {
+        Args: {
+          p_min_years: number;
+          p_category?: Database['public']['Enums']['expert_category'] | null;
+        };
+        Returns: Database['public']['Tables']['expert_profiles']['Row'][];
+        SetofOptions: {
+          from: '*';
+          to: 'expert_profiles';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      search_all: {
+        Args: {
+          p_query: string;
+          p_limit_per_type?: number;
+        };
+        Returns: {
+          entity_type: string;
+          entity_id: string;
+          title: string;
+          snippet: string;
+          link: string;
+          rank: number;
+          created_at: string;
+        }[];
+      };
+    };
     Enums: {
       user_role: 'member' | 'expert' | 'admin';
       approval_status: 'pending' | 'approved' | 'rejected' | 'suspended';
@@ -648,7 +1767,14 @@ export interface Database {
         | 'strategy'
         | 'other';
       collaboration_type: 'coffee_chat' | 'collaboration';
-      collaboration_status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+      collaboration_status:
+        | 'pending'
+        | 'accepted'
+        | 'in_progress'
+        | 'completed'
+        | 'disputed'
+        | 'declined'
+        | 'cancelled';
       program_status: 'draft' | 'published' | 'archived';
       program_category:
         | 'funding'
@@ -658,13 +1784,30 @@ export interface Database {
         | 'space'
         | 'other';
       bookmarkable_type: 'expert_profile' | 'support_program' | 'post';
+      report_target_type: 'post' | 'comment' | 'event' | 'expert_profile';
+      report_reason:
+        | 'spam'
+        | 'harassment'
+        | 'hate_speech'
+        | 'misinformation'
+        | 'inappropriate'
+        | 'other';
+      report_status: 'pending' | 'resolved' | 'dismissed';
+      link_preview_status: 'ok' | 'failed';
+      post_status: 'draft' | 'scheduled' | 'published';
+      reaction_type: 'like' | 'love' | 'celebrate' | 'insightful' | 'thanks' | 'funny';
       notification_type:
         | 'member_approved'
         | 'member_rejected'
         | 'expert_approved'
         | 'expert_rejected'
         | 'new_comment'
+        | 'new_reply'
         | 'new_like'
+        | 'new_repost'
+        | 'mention'
+        | 'new_follower'
+        | 'content_hidden'
         | 'new_collaboration_request'
         | 'collaboration_accepted'
         | 'collaboration_declined'
@@ -0,0 +1,97 @@
+-- Migration: Add Post Editing and Revision History
+-- Purpose: Let authors edit their posts (content and media) while keeping every
+-- prior version in post_revisions so admins can review what changed.
+
+-- ============================================
+-- posts.edited_at
+-- ============================================
+-- updated_at is also bumped by the like/comment count triggers, so it cannot be
+-- used to tell whether the author actually changed the post.
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN posts.edited_at IS 'Timestamp of the last content or media edit by the author (NULL if never edited)';
+
+-- ============================================
+-- TABLE: post_revisions
+-- ============================================
+-- Purpose: One row per edit, holding the version of the post that was replaced.
+
+CREATE TABLE post_revisions (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  post_id BIGINT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  editor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+
+  -- Snapshot of the post before the edit
+  content TEXT NOT NULL,
+  media_urls TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+
+  -- When the edit happened
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX post_revisions_post_id_idx ON post_revisions (post_id, created_at ASC);
+CREATE INDEX post_revisions_editor_id_idx ON post_revisions (editor_id) WHERE editor_id IS NOT NULL;
+
+COMMENT ON TABLE post_revisions IS 'Prior versions of edited posts';
+COMMENT ON COLUMN post_revisions.content IS 'Post content before the edit';
+COMMENT ON COLUMN post_revisions.media_urls IS 'Post media URLs before the edit';
+COMMENT ON COLUMN post_revisions.editor_id IS 'User who made the edit';
+
+-- ============================================
+-- Trigger: snapshot the previous version on edit
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_post_revision()
+RETURNS trigger AS $$
+BEGIN
+  -- Only content and media edits create a revision; counters and moderation
+  -- flags are updated through the same table and must not be recorded.
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.media_urls IS DISTINCT FROM OLD.media_urls THEN
+    INSERT INTO post_revisions (post_id, editor_id, content, media_urls)
+    VALUES (
+      OLD.id,
+      auth.uid(),
+      OLD.content,
+      COALESCE(OLD.media_urls, ARRAY[]::TEXT[])
+    );
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_revision_trigger ON posts;
+
+CREATE TRIGGER posts_revision_trigger
+  BEFORE UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION handle_post_revision();
+
+COMMENT ON FUNCTION handle_post_revision() IS 'Stores the previous version of a post in post_revisions when its content or media change';
+
+-- ============================================
+-- RLS: post_revisions
+-- ============================================
+
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Post authors can see the history of their own posts, admins see all
+CREATE POLICY post_revisions_select ON post_revisions
+  FOR SELECT TO authenticated
+  USING (
+    (SELECT is_admin())
+    OR EXISTS (
+      SELECT 1 FROM posts
+      WHERE posts.id = post_revisions.post_id
+      AND posts.author_id = (SELECT auth.uid())
+    )
+  );
+
+-- INSERT/UPDATE/DELETE: None - rows are only written by handle_post_revision()
+
+COMMENT ON POLICY post_revisions_select ON post_revisions IS 'Authors can see revisions of their own posts, admins can see all';
@@ -0,0 +1,82 @@
+-- Migration: Add Post Feed Ranking
+-- Purpose: Server-side ranking for the thread feed ("trending" and "top this
+-- week") with keyset pagination that stays stable while the user scrolls.
+
+-- ============================================
+-- FUNCTION: post_trending_score
+-- ============================================
+-- Engagement divided by a power of the post age (Hacker News style gravity).
+-- Comments weigh double because they take more effort than a like.
+-- The reference time is a parameter rather than now() so the same post gets
+-- the same score on every page of one scroll session.
+
+CREATE OR REPLACE FUNCTION post_trending_score(
+  p_like_count INTEGER,
+  p_comment_count INTEGER,
+  p_created_at TIMESTAMPTZ,
+  p_as_of TIMESTAMPTZ
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT (p_like_count + 2 * p_comment_count)::DOUBLE PRECISION
+    / power(
+        GREATEST(EXTRACT(EPOCH FROM (p_as_of - p_created_at)) / 3600.0, 0) + 2,
+        1.5
+      );
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION post_trending_score(INTEGER, INTEGER, TIMESTAMPTZ, TIMESTAMPTZ) IS 'Time-decayed engagement score of a post as of a reference time';
+
+-- ============================================
+-- FUNCTION: get_ranked_post_ids
+-- ============================================
+-- Returns one page of visible post ids with their score, ordered by
+-- (score DESC, id DESC). Pass the score and id of the last row of the previous
+-- page as the cursor, and the same p_as_of for every page.
+--
+-- Sorts:
+--   trending  - post_trending_score() over all visible posts
+--   top_week  - like_count + comment_count for posts created in the 7 days
+--               before p_as_of
+--
+-- Runs as SECURITY INVOKER so the posts RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION get_ranked_post_ids(
+  p_sort TEXT,
+  p_as_of TIMESTAMPTZ DEFAULT now(),
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (post_id BIGINT, score DOUBLE PRECISION) AS $$
+BEGIN
+  IF p_sort NOT IN ('trending', 'top_week') THEN
+    RAISE EXCEPTION 'Unsupported sort: %', p_sort;
+  END IF;
+
+  RETURN QUERY
+  SELECT ranked.id, ranked.rank_score
+  FROM (
+    SELECT
+      p.id,
+      CASE p_sort
+        WHEN 'trending' THEN post_trending_score(p.like_count, p.comment_count, p.created_at, p_as_of)
+        ELSE (p.like_count + p.comment_count)::DOUBLE PRECISION
+      END AS rank_score
+    FROM posts p
+    WHERE p.is_hidden = false
+      AND p.created_at <= p_as_of
+      AND (p_sort <> 'top_week' OR p.created_at > p_as_of - INTERVAL '7 days')
+  ) ranked
+  WHERE p_cursor_id IS NULL
+    OR ranked.rank_score < p_cursor_score
+    OR (ranked.rank_score = p_cursor_score AND ranked.id < p_cursor_id)
+  ORDER BY ranked.rank_score DESC, ranked.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+COMMENT ON FUNCTION get_ranked_post_ids(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, BIGINT, INTEGER) IS 'Keyset-paginated post ids for the trending and top_week feed sorts';
+
+GRANT EXECUTE ON FUNCTION post_trending_score(INTEGER, INTEGER, TIMESTAMPTZ, TIMESTAMPTZ) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_ranked_post_ids(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, BIGINT, INTEGER) TO anon, authenticated;
+
@@ -0,0 +1,252 @@
+-- Migration: Add Unified Search
+-- Purpose: One search entry point across posts, comments, experts, support
+-- programs and events, returning ranked hits with highlighted snippets.
+--
+-- Matching uses pg_trgm rather than tsvector: the 'simple' text search config
+-- only splits on whitespace, so a Korean word with a particle attached
+-- (e.g. "스타트업에서") never matches "스타트업". Trigram indexes speed up
+-- ILIKE substring matching for both Korean and English, and also back the
+-- existing per-list keyword filters.
+
+-- ============================================
+-- Trigram indexes
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS posts_content_trgm_idx
+  ON posts USING GIN (content gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS comments_content_trgm_idx
+  ON comments USING GIN (content gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS expert_profiles_business_name_trgm_idx
+  ON expert_profiles USING GIN (business_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS expert_profiles_service_description_trgm_idx
+  ON expert_profiles USING GIN (service_description gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS support_programs_title_trgm_idx
+  ON support_programs USING GIN (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS support_programs_organization_trgm_idx
+  ON support_programs USING GIN (organization gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS support_programs_description_trgm_idx
+  ON support_programs USING GIN (description gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS user_events_title_trgm_idx
+  ON user_events USING GIN (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS user_events_description_trgm_idx
+  ON user_events USING GIN (description gin_trgm_ops);
+
+-- ============================================
+-- FUNCTION: search_like_patterns
+-- ============================================
+-- Turns the search terms into ILIKE patterns with %, _ and \ escaped.
+
+CREATE OR REPLACE FUNCTION search_like_patterns(p_terms TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(
+    array_agg('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%'),
+    ARRAY[]::TEXT[]
+  )
+  FROM unnest(p_terms) AS term;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION search_like_patterns(TEXT[]) IS 'Escaped ILIKE substring patterns for a list of search terms';
+
+-- ============================================
+-- FUNCTION: search_highlight
+-- ============================================
+-- Returns a single-line excerpt of p_text centred on the first matching term,
+-- with every term occurrence wrapped in <mark></mark>. The result is plain
+-- text with markers, not HTML: clients split on the markers and render text
+-- nodes, so user content is never interpreted as markup.
+
+CREATE OR REPLACE FUNCTION search_highlight(
+  p_text TEXT,
+  p_terms TEXT[],
+  p_radius INTEGER DEFAULT 60
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_text TEXT := regexp_replace(COALESCE(p_text, ''), '\s+', ' ', 'g');
+  v_pos INTEGER := 0;
+  v_start INTEGER;
+  v_snippet TEXT;
+  v_pattern TEXT;
+  v_term TEXT;
+  v_term_pos INTEGER;
+BEGIN
+  IF v_text = '' THEN
+    RETURN '';
+  END IF;
+
+  -- Earliest match of any term
+  FOREACH v_term IN ARRAY p_terms LOOP
+    v_term_pos := strpos(lower(v_text), lower(v_term));
+    IF v_term_pos > 0 AND (v_pos = 0 OR v_term_pos < v_pos) THEN
+      v_pos := v_term_pos;
+    END IF;
+  END LOOP;
+
+  v_start := GREATEST(v_pos - p_radius, 1);
+  v_snippet := substr(v_text, v_start, p_radius * 3);
+
+  IF v_start > 1 THEN
+    v_snippet := '…' || v_snippet;
+  END IF;
+  IF v_start + p_radius * 3 <= char_length(v_text) THEN
+    v_snippet := v_snippet || '…';
+  END IF;
+
+  -- Regex alternation of the terms with metacharacters escaped
+  SELECT string_agg(regexp_replace(term, '([.^$*+?()\[\]{}|\\])', '\\\1', 'g'), '|')
+  INTO v_pattern
+  FROM unnest(p_terms) AS term;
+
+  IF v_pattern IS NULL THEN
+    RETURN v_snippet;
+  END IF;
+
+  RETURN regexp_replace(v_snippet, '(' || v_pattern || ')', '<mark>\1</mark>', 'gi');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION search_highlight(TEXT, TEXT[], INTEGER) IS 'Excerpt around the first match with matched terms wrapped in <mark></mark>';
+
+-- ============================================
+-- FUNCTION: search_all
+-- ============================================
+-- Every whitespace-separated term must appear (AND). Each entity type returns
+-- at most p_limit_per_type hits ordered by rank, where rank is the pg_trgm
+-- word_similarity of the whole query with the best matching field
+-- (title-like fields weigh more than body text).
+--
+-- Visibility mirrors the list pages: non-hidden posts and comments, approved
+-- experts, published programs and active events. Runs as SECURITY INVOKER so
+-- RLS still applies on top.
+
+CREATE OR REPLACE FUNCTION search_all(
+  p_query TEXT,
+  p_limit_per_type INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id TEXT,
+  title TEXT,
+  snippet TEXT,
+  link TEXT,
+  rank REAL,
+  created_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query TEXT := btrim(regexp_replace(COALESCE(p_query, ''), '\s+', ' ', 'g'));
+  v_terms TEXT[];
+  v_patterns TEXT[];
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit_per_type, 5), 1), 20);
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  v_terms := string_to_array(v_query, ' ');
+  v_patterns := search_like_patterns(v_terms);
+
+  RETURN QUERY
+  (
+    SELECT
+      'post'::TEXT,
+      p.id::TEXT,
+      COALESCE(author.full_name, '')::TEXT,
+      search_highlight(p.content, v_terms),
+      ('/thread/' || p.id)::TEXT,
+      word_similarity(v_query, p.content),
+      p.created_at
+    FROM posts p
+    LEFT JOIN profiles author ON author.id = p.author_id
+    WHERE p.is_hidden = false
+      AND p.content ILIKE ALL (v_patterns)
+    ORDER BY 6 DESC, p.created_at DESC
+    LIMIT v_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'comment'::TEXT,
+      c.id::TEXT,
+      COALESCE(author.full_name, '')::TEXT,
+      search_highlight(c.content, v_terms),
+      ('/thread/' || c.post_id)::TEXT,
+      word_similarity(v_query, c.content),
+      c.created_at
+    FROM comments c
+    LEFT JOIN profiles author ON author.id = c.author_id
+    WHERE c.is_hidden = false
+      AND c.content ILIKE ALL (v_patterns)
+    ORDER BY 6 DESC, c.created_at DESC
+    LIMIT v_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'expert'::TEXT,
+      e.id::TEXT,
+      search_highlight(e.business_name, v_terms),
+      search_highlight(COALESCE(e.service_description, ''), v_terms),
+      ('/experts/' || e.id)::TEXT,
+      GREATEST(
+        word_similarity(v_query, e.business_name) * 1.5,
+        word_similarity(v_query, COALESCE(e.service_description, ''))
+      )::REAL,
+      e.created_at
+    FROM expert_profiles e
+    WHERE e.status = 'approved'
+      AND (e.business_name || ' ' || COALESCE(e.service_description, '')) ILIKE ALL (v_patterns)
+    ORDER BY 6 DESC, e.created_at DESC
+    LIMIT v_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'program'::TEXT,
+      sp.id::TEXT,
+      search_highlight(sp.title, v_terms),
+      search_highlight(sp.organization || ' · ' || sp.description, v_terms),
+      ('/support-programs?program=' || sp.id)::TEXT,
+      GREATEST(
+        word_similarity(v_query, sp.title) * 1.5,
+        word_similarity(v_query, sp.organization),
+        word_similarity(v_query, sp.description)
+      )::REAL,
+      sp.created_at
+    FROM support_programs sp
+    WHERE sp.status = 'published'
+      AND (sp.title || ' ' || sp.organization || ' ' || sp.description) ILIKE ALL (v_patterns)
+    ORDER BY 6 DESC, sp.created_at DESC
+    LIMIT v_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'event'::TEXT,
+      ue.id::TEXT,
+      search_highlight(ue.title, v_terms),
+      search_highlight(COALESCE(ue.description, ''), v_terms),
+      ('/events?event=' || ue.id)::TEXT,
+      GREATEST(
+        word_similarity(v_query, ue.title) * 1.5,
+        word_similarity(v_query, COALESCE(ue.description, ''))
+      )::REAL,
+      ue.created_at
+    FROM user_events ue
+    WHERE ue.is_active = true
+      AND (ue.title || ' ' || COALESCE(ue.description, '')) ILIKE ALL (v_patterns)
+    ORDER BY 6 DESC, ue.created_at DESC
+    LIMIT v_limit
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+COMMENT ON FUNCTION search_all(TEXT, INTEGER) IS 'Ranked, highlighted search hits across posts, comments, experts, programs and events';
+
+GRANT EXECUTE ON FUNCTION search_like_patterns(TEXT[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_highlight(TEXT, TEXT[], INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_all(TEXT, INTEGER) TO anon, authenticated;
@@ -0,0 +1,233 @@
+-- Migration: Add Comment, Reply and Like Notification Triggers
+-- Purpose: Notify authors when their post is commented on, their comment is
+-- replied to, or their post/comment is liked. Nobody is notified about their
+-- own activity, and likes on the same target collapse into one notification
+-- ("X and 4 others liked your post") that is updated in place.
+
+-- ============================================
+-- notification_type: new_reply
+-- ============================================
+-- Only referenced inside function bodies below, so it is safe to add in the
+-- same migration.
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'new_reply' AFTER 'new_comment';
+
+-- ============================================
+-- notifications: collapsed like notifications
+-- ============================================
+-- One new_like notification per recipient and liked target, so the like
+-- trigger can upsert into it.
+
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_like_target_unique_idx
+  ON notifications (user_id, reference_type, reference_id)
+  WHERE type = 'new_like';
+
+-- ============================================
+-- Trigger function for comment and reply notifications
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_comment_notification()
+RETURNS trigger AS $$
+DECLARE
+  commenter_name TEXT;
+  post_author_id UUID;
+  parent_author_id UUID;
+  comment_preview TEXT;
+BEGIN
+  SELECT COALESCE(full_name, 'Someone') INTO commenter_name
+  FROM profiles WHERE id = NEW.author_id;
+
+  SELECT author_id INTO post_author_id
+  FROM posts WHERE id = NEW.post_id;
+
+  comment_preview := left(NEW.content, 100);
+
+  -- Reply: notify the author of the parent comment
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT author_id INTO parent_author_id
+    FROM comments WHERE id = NEW.parent_id;
+
+    IF parent_author_id IS NOT NULL AND parent_author_id <> NEW.author_id THEN
+      INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+      VALUES (
+        parent_author_id,
+        'new_reply',
+        commenter_name || ' replied to your comment',
+        comment_preview,
+        'comment',
+        NEW.id::text,
+        jsonb_build_object(
+          'actor_id', NEW.author_id,
+          'post_id', NEW.post_id,
+          'parent_id', NEW.parent_id,
+          'link', '/thread/' || NEW.post_id
+        )
+      );
+    END IF;
+  END IF;
+
+  -- Comment: notify the post author, unless they commented themselves or
+  -- already got a reply notification for this comment
+  IF post_author_id IS NOT NULL
+    AND post_author_id <> NEW.author_id
+    AND post_author_id IS DISTINCT FROM parent_author_id THEN
+    INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+    VALUES (
+      post_author_id,
+      'new_comment',
+      commenter_name || ' commented on your post',
+      comment_preview,
+      'comment',
+      NEW.id::text,
+      jsonb_build_object(
+        'actor_id', NEW.author_id,
+        'post_id', NEW.post_id,
+        'link', '/thread/' || NEW.post_id
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS comment_notification_trigger ON comments;
+
+CREATE TRIGGER comment_notification_trigger
+  AFTER INSERT ON comments
+  FOR EACH ROW EXECUTE FUNCTION handle_comment_notification();
+
+-- ============================================
+-- Trigger function for like notifications
+-- ============================================
+-- INSERT: upsert the collapsed notification with the newest liker as actor,
+--         mark it unread and move it to the top.
+-- DELETE: recount; remove the notification when no other likers remain,
+--         otherwise refresh the title without changing the read state.
+
+CREATE OR REPLACE FUNCTION handle_like_notification()
+RETURNS trigger AS $$
+DECLARE
+  like_row likes%ROWTYPE;
+  target_author_id UUID;
+  target_post_id BIGINT;
+  target_label TEXT;
+  target_preview TEXT;
+  actor_id UUID;
+  actor_name TEXT;
+  liker_count INTEGER;
+  notification_title TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    like_row := OLD;
+  ELSE
+    like_row := NEW;
+  END IF;
+
+  -- Resolve the liked target
+  IF like_row.likeable_type = 'post' THEN
+    SELECT author_id, id, left(content, 100)
+    INTO target_author_id, target_post_id, target_preview
+    FROM posts WHERE id = like_row.likeable_id;
+    target_label := 'post';
+  ELSE
+    SELECT author_id, post_id, left(content, 100)
+    INTO target_author_id, target_post_id, target_preview
+    FROM comments WHERE id = like_row.likeable_id;
+    target_label := 'comment';
+  END IF;
+
+  -- Target gone (cascade delete) or self-like: nothing to do
+  IF target_author_id IS NULL OR target_author_id = like_row.user_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT count(*) INTO liker_count
+  FROM likes
+  WHERE likeable_type = like_row.likeable_type
+    AND likeable_id = like_row.likeable_id
+    AND user_id <> target_author_id;
+
+  IF TG_OP = 'DELETE' AND liker_count = 0 THEN
+    DELETE FROM notifications
+    WHERE type = 'new_like'
+      AND user_id = target_author_id
+      AND reference_type = target_label
+      AND reference_id = like_row.likeable_id::text;
+    RETURN NULL;
+  END IF;
+
+  -- Actor: the liker on insert, the most recent remaining liker on delete
+  IF TG_OP = 'INSERT' THEN
+    actor_id := like_row.user_id;
+  ELSE
+    SELECT user_id INTO actor_id
+    FROM likes
+    WHERE likeable_type = like_row.likeable_type
+      AND likeable_id = like_row.likeable_id
+      AND user_id <> target_author_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(full_name, 'Someone') INTO actor_name
+  FROM profiles WHERE id = actor_id;
+
+  IF liker_count = 1 THEN
+    notification_title := actor_name || ' liked your ' || target_label;
+  ELSIF liker_count = 2 THEN
+    notification_title := actor_name || ' and 1 other liked your ' || target_label;
+  ELSE
+    notification_title := actor_name || ' and ' || (liker_count - 1) || ' others liked your ' || target_label;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+    VALUES (
+      target_author_id,
+      'new_like',
+      notification_title,
+      target_preview,
+      target_label,
+      like_row.likeable_id::text,
+      jsonb_build_object(
+        'actor_id', actor_id,
+        'actor_count', liker_count,
+        'post_id', target_post_id,
+        'link', '/thread/' || target_post_id
+      )
+    )
+    ON CONFLICT (user_id, reference_type, reference_id) WHERE type = 'new_like'
+    DO UPDATE SET
+      title = EXCLUDED.title,
+      body = EXCLUDED.body,
+      metadata = EXCLUDED.metadata,
+      is_read = false,
+      read_at = NULL,
+      created_at = now();
+  ELSE
+    UPDATE notifications
+    SET
+      title = notification_title,
+      metadata = metadata || jsonb_build_object('actor_id', actor_id, 'actor_count', liker_count)
+    WHERE type = 'new_like'
+      AND user_id = target_author_id
+      AND reference_type = target_label
+      AND reference_id = like_row.likeable_id::text;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS like_notification_trigger ON likes;
+
+CREATE TRIGGER like_notification_trigger
+  AFTER INSERT OR DELETE ON likes
+  FOR EACH ROW EXECUTE FUNCTION handle_like_notification();
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON FUNCTION handle_comment_notification() IS 'Notifies post authors about new comments and comment authors about replies, skipping self-notifications';
+COMMENT ON FUNCTION handle_like_notification() IS 'Maintains one collapsed new_like notification per liked post or comment, skipping self-likes';
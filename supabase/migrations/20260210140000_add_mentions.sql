@@ -0,0 +1,206 @@
+-- Migration: Add @mentions
+-- Purpose: Store @username mentions in posts and comments as structured
+-- records and notify the mentioned members.
+--
+-- Mentions are parsed from the content in the database, so the stored records
+-- always match what was saved and clients cannot notify arbitrary users.
+-- A handle follows the onboarding username rules (3-20 of a-z, 0-9, _ and -)
+-- and must not be preceded by an ASCII letter, digit or one of _ @ . - so that
+-- e-mail addresses are not treated as mentions.
+
+-- ============================================
+-- notification_type: mention
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'mention' AFTER 'new_like';
+
+-- ============================================
+-- TABLE: mentions
+-- ============================================
+-- One row per mentioned member per post or comment. Exactly one of post_id
+-- and comment_id is set.
+
+CREATE TABLE IF NOT EXISTS mentions (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  mentioned_user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  post_id BIGINT REFERENCES posts(id) ON DELETE CASCADE,
+  comment_id BIGINT REFERENCES comments(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT mentions_single_target CHECK (num_nonnulls(post_id, comment_id) = 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS mentions_post_user_unique_idx
+  ON mentions (post_id, mentioned_user_id)
+  WHERE post_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS mentions_comment_user_unique_idx
+  ON mentions (comment_id, mentioned_user_id)
+  WHERE comment_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS mentions_mentioned_user_id_idx
+  ON mentions (mentioned_user_id, created_at DESC);
+
+-- ============================================
+-- RLS: mentions
+-- ============================================
+-- Rows are written only by the sync trigger below. A mention reveals nothing
+-- beyond the @handle already visible in the content.
+
+ALTER TABLE mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY mentions_select ON mentions
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+-- ============================================
+-- FUNCTION: extract_mention_usernames
+-- ============================================
+
+CREATE OR REPLACE FUNCTION extract_mention_usernames(p_content TEXT)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), ARRAY[]::TEXT[])
+  FROM regexp_matches(
+    COALESCE(p_content, ''),
+    '(?<![A-Za-z0-9_@.-])@([A-Za-z0-9_-]{3,20})(?![A-Za-z0-9_-])',
+    'g'
+  ) AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- Trigger function: keep mentions in sync with content
+-- ============================================
+-- Runs after insert and after content edits. Mentions that were removed from
+-- the content are deleted; new ones are inserted (and notified below).
+
+CREATE OR REPLACE FUNCTION sync_mentions()
+RETURNS trigger AS $$
+DECLARE
+  v_usernames TEXT[] := extract_mention_usernames(NEW.content);
+BEGIN
+  IF TG_TABLE_NAME = 'posts' THEN
+    DELETE FROM mentions m
+    WHERE m.post_id = NEW.id
+      AND NOT EXISTS (
+        SELECT 1 FROM profiles p
+        WHERE p.id = m.mentioned_user_id AND p.username = ANY (v_usernames)
+      );
+
+    INSERT INTO mentions (mentioned_user_id, author_id, post_id)
+    SELECT p.id, NEW.author_id, NEW.id
+    FROM profiles p
+    WHERE p.username = ANY (v_usernames)
+      AND p.approval_status = 'approved'
+    ON CONFLICT DO NOTHING;
+  ELSE
+    DELETE FROM mentions m
+    WHERE m.comment_id = NEW.id
+      AND NOT EXISTS (
+        SELECT 1 FROM profiles p
+        WHERE p.id = m.mentioned_user_id AND p.username = ANY (v_usernames)
+      );
+
+    INSERT INTO mentions (mentioned_user_id, author_id, comment_id)
+    SELECT p.id, NEW.author_id, NEW.id
+    FROM profiles p
+    WHERE p.username = ANY (v_usernames)
+      AND p.approval_status = 'approved'
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_post_mentions_trigger ON posts;
+
+CREATE TRIGGER sync_post_mentions_trigger
+  AFTER INSERT OR UPDATE OF content ON posts
+  FOR EACH ROW EXECUTE FUNCTION sync_mentions();
+
+-- Named to fire after comment_notification_trigger (triggers run in name
+-- order), so the mention notification can be skipped when the member was
+-- already notified about the same comment.
+DROP TRIGGER IF EXISTS sync_comment_mentions_trigger ON comments;
+
+CREATE TRIGGER sync_comment_mentions_trigger
+  AFTER INSERT OR UPDATE OF content ON comments
+  FOR EACH ROW EXECUTE FUNCTION sync_mentions();
+
+-- ============================================
+-- Trigger function: mention notifications
+-- ============================================
+-- Skips self-mentions, and comment mentions of members who already received
+-- a new_comment or new_reply notification for that comment.
+
+CREATE OR REPLACE FUNCTION handle_mention_notification()
+RETURNS trigger AS $$
+DECLARE
+  author_name TEXT;
+  target_label TEXT;
+  target_post_id BIGINT;
+  target_content TEXT;
+BEGIN
+  IF NEW.mentioned_user_id = NEW.author_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.comment_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM notifications
+      WHERE user_id = NEW.mentioned_user_id
+        AND type IN ('new_comment', 'new_reply')
+        AND reference_type = 'comment'
+        AND reference_id = NEW.comment_id::text
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT post_id, content INTO target_post_id, target_content
+    FROM comments WHERE id = NEW.comment_id;
+    target_label := 'comment';
+  ELSE
+    SELECT id, content INTO target_post_id, target_content
+    FROM posts WHERE id = NEW.post_id;
+    target_label := 'post';
+  END IF;
+
+  SELECT COALESCE(full_name, 'Someone') INTO author_name
+  FROM profiles WHERE id = NEW.author_id;
+
+  INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+  VALUES (
+    NEW.mentioned_user_id,
+    'mention',
+    author_name || ' mentioned you in a ' || target_label,
+    left(target_content, 100),
+    target_label,
+    COALESCE(NEW.comment_id, NEW.post_id)::text,
+    jsonb_build_object(
+      'actor_id', NEW.author_id,
+      'post_id', target_post_id,
+      'link', '/thread/' || target_post_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS mention_notification_trigger ON mentions;
+
+CREATE TRIGGER mention_notification_trigger
+  AFTER INSERT ON mentions
+  FOR EACH ROW EXECUTE FUNCTION handle_mention_notification();
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TABLE mentions IS '@username mentions in posts and comments, maintained by trigger from the content';
+COMMENT ON COLUMN mentions.author_id IS 'Author of the post or comment containing the mention';
+COMMENT ON FUNCTION extract_mention_usernames(TEXT) IS 'Lowercased, distinct @username handles found in the text';
+COMMENT ON FUNCTION sync_mentions() IS 'Keeps mentions in sync with post and comment content';
+COMMENT ON FUNCTION handle_mention_notification() IS 'Notifies mentioned members, skipping self-mentions and already-notified commenters';
+
+GRANT EXECUTE ON FUNCTION extract_mention_usernames(TEXT) TO anon, authenticated;
@@ -0,0 +1,255 @@
+-- Migration: Add Hashtags
+-- Purpose: Group thread posts by topic. Hashtags (#투자, #채용, #정부지원) are
+-- parsed from post content into post_tags, members can follow tags, and the
+-- trending feed ranks posts with followed tags higher.
+--
+-- A tag is 1-30 of a-z, 0-9, _ and Hangul syllables, not purely numeric
+-- (so "#1" is not a tag), and must not follow a letter, digit, &, # or /
+-- (so URL fragments and HTML entities are not tags). Tags are lowercased.
+
+-- ============================================
+-- TABLE: tags
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS tags (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT tags_name_format CHECK (name = lower(name) AND char_length(name) BETWEEN 1 AND 30)
+);
+
+-- ============================================
+-- TABLE: post_tags
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS post_tags (
+  post_id BIGINT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  tag_id BIGINT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+
+  PRIMARY KEY (post_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS post_tags_tag_id_idx ON post_tags (tag_id, post_id);
+
+-- ============================================
+-- TABLE: tag_follows
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS tag_follows (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  tag_id BIGINT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (user_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS tag_follows_tag_id_idx ON tag_follows (tag_id);
+
+-- ============================================
+-- RLS
+-- ============================================
+-- tags and post_tags are written only by the sync trigger below. A post's
+-- tags are visible wherever the post is (the posts policies apply inside the
+-- EXISTS), so hidden posts and other members' drafts don't show theirs. A tag
+-- is visible once a visible post uses it, or to the members following it.
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tag_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tags_select ON tags
+  FOR SELECT TO anon, authenticated
+  USING (
+    EXISTS (SELECT 1 FROM post_tags pt WHERE pt.tag_id = tags.id)
+    OR EXISTS (
+      SELECT 1 FROM tag_follows tf
+      WHERE tf.tag_id = tags.id AND tf.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY post_tags_select ON post_tags
+  FOR SELECT TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM posts p WHERE p.id = post_tags.post_id));
+
+CREATE POLICY tag_follows_select_own ON tag_follows
+  FOR SELECT TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY tag_follows_insert_own ON tag_follows
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY tag_follows_delete_own ON tag_follows
+  FOR DELETE TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+-- ============================================
+-- FUNCTION: extract_hashtags
+-- ============================================
+
+CREATE OR REPLACE FUNCTION extract_hashtags(p_content TEXT)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), ARRAY[]::TEXT[])
+  FROM regexp_matches(
+    COALESCE(p_content, ''),
+    '(?<![0-9A-Za-z_가-힣&#/])#([0-9A-Za-z_가-힣]{1,30})(?![0-9A-Za-z_가-힣])',
+    'g'
+  ) AS m
+  WHERE m[1] !~ '^[0-9]+$';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- Trigger function: keep post_tags in sync with content
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_post_tags()
+RETURNS trigger AS $$
+DECLARE
+  v_tags TEXT[] := extract_hashtags(NEW.content);
+BEGIN
+  INSERT INTO tags (name)
+  SELECT unnest(v_tags)
+  ON CONFLICT (name) DO NOTHING;
+
+  DELETE FROM post_tags pt
+  USING tags t
+  WHERE pt.post_id = NEW.id
+    AND t.id = pt.tag_id
+    AND NOT (t.name = ANY (v_tags));
+
+  INSERT INTO post_tags (post_id, tag_id)
+  SELECT NEW.id, t.id
+  FROM tags t
+  WHERE t.name = ANY (v_tags)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_post_tags_trigger ON posts;
+
+CREATE TRIGGER sync_post_tags_trigger
+  AFTER INSERT OR UPDATE OF content ON posts
+  FOR EACH ROW EXECUTE FUNCTION sync_post_tags();
+
+-- Backfill existing posts
+INSERT INTO tags (name)
+SELECT DISTINCT unnest(extract_hashtags(content))
+FROM posts
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO post_tags (post_id, tag_id)
+SELECT p.id, t.id
+FROM posts p
+CROSS JOIN LATERAL unnest(extract_hashtags(p.content)) AS tag_name
+JOIN tags t ON t.name = tag_name
+ON CONFLICT DO NOTHING;
+
+-- ============================================
+-- FUNCTION: get_trending_tags
+-- ============================================
+-- Tags used by the most visible posts created in the last p_days days.
+
+CREATE OR REPLACE FUNCTION get_trending_tags(
+  p_days INTEGER DEFAULT 7,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (tag_id BIGINT, name TEXT, post_count BIGINT) AS $$
+  SELECT t.id, t.name, count(*) AS post_count
+  FROM post_tags pt
+  JOIN tags t ON t.id = pt.tag_id
+  JOIN posts p ON p.id = pt.post_id
+  WHERE p.is_hidden = false
+    AND p.created_at > now() - make_interval(days => GREATEST(p_days, 1))
+  GROUP BY t.id, t.name
+  ORDER BY post_count DESC, t.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ============================================
+-- FUNCTION: get_ranked_post_ids (tag filter, latest sort, followed tags)
+-- ============================================
+-- Replaces the version from 20260210110000 with:
+--   p_tag    - only posts carrying this tag
+--   latest   - created_at as the score, so tag pages can page through the
+--              newest posts the same way as the ranked sorts
+--   trending - posts with a tag the viewer follows score 1.5x
+--
+-- Runs as SECURITY INVOKER so the posts RLS policies still apply.
+
+DROP FUNCTION IF EXISTS get_ranked_post_ids(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_ranked_post_ids(
+  p_sort TEXT,
+  p_as_of TIMESTAMPTZ DEFAULT now(),
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (post_id BIGINT, score DOUBLE PRECISION) AS $$
+DECLARE
+  v_viewer_id UUID := auth.uid();
+BEGIN
+  IF p_sort NOT IN ('latest', 'trending', 'top_week') THEN
+    RAISE EXCEPTION 'Unsupported sort: %', p_sort;
+  END IF;
+
+  RETURN QUERY
+  SELECT ranked.id, ranked.rank_score
+  FROM (
+    SELECT
+      p.id,
+      CASE p_sort
+        WHEN 'latest' THEN EXTRACT(EPOCH FROM p.created_at)::DOUBLE PRECISION
+        WHEN 'trending' THEN
+          post_trending_score(p.like_count, p.comment_count, p.created_at, p_as_of)
+          * CASE
+              WHEN v_viewer_id IS NOT NULL AND EXISTS (
+                SELECT 1
+                FROM post_tags pt
+                JOIN tag_follows tf ON tf.tag_id = pt.tag_id
+                WHERE pt.post_id = p.id AND tf.user_id = v_viewer_id
+              ) THEN 1.5
+              ELSE 1
+            END
+        ELSE (p.like_count + p.comment_count)::DOUBLE PRECISION
+      END AS rank_score
+    FROM posts p
+    WHERE p.is_hidden = false
+      AND p.created_at <= p_as_of
+      AND (p_sort <> 'top_week' OR p.created_at > p_as_of - INTERVAL '7 days')
+      AND (
+        p_tag IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM post_tags pt
+          JOIN tags t ON t.id = pt.tag_id
+          WHERE pt.post_id = p.id AND t.name = lower(p_tag)
+        )
+      )
+  ) ranked
+  WHERE p_cursor_id IS NULL
+    OR ranked.rank_score < p_cursor_score
+    OR (ranked.rank_score = p_cursor_score AND ranked.id < p_cursor_id)
+  ORDER BY ranked.rank_score DESC, ranked.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TABLE tags IS 'Hashtags used in thread posts (lowercased)';
+COMMENT ON TABLE post_tags IS 'Hashtags of each post, maintained by trigger from the content';
+COMMENT ON TABLE tag_follows IS 'Tags a member follows; boosts those posts in their trending feed';
+COMMENT ON FUNCTION extract_hashtags(TEXT) IS 'Lowercased, distinct hashtags found in the text';
+COMMENT ON FUNCTION sync_post_tags() IS 'Keeps post_tags in sync with post content';
+COMMENT ON FUNCTION get_trending_tags(INTEGER, INTEGER) IS 'Most used tags on visible posts over the last p_days days';
+COMMENT ON FUNCTION get_ranked_post_ids(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, BIGINT, INTEGER, TEXT) IS 'Keyset-paginated post ids for the latest, trending and top_week feed sorts, optionally filtered by tag';
+
+GRANT EXECUTE ON FUNCTION extract_hashtags(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_trending_tags(INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_ranked_post_ids(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, BIGINT, INTEGER, TEXT) TO anon, authenticated;
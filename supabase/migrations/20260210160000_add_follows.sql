@@ -0,0 +1,145 @@
+-- Migration: Add Follows
+-- Purpose: Let members follow each other. Adds the follows table,
+-- denormalized follower/following counts on profiles, a new_follower
+-- notification, and indexes for the "Following" feed (posts by the people
+-- you follow, newest first).
+
+-- ============================================
+-- notification_type: new_follower
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'new_follower' AFTER 'mention';
+
+-- ============================================
+-- TABLE: follows
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS follows (
+  follower_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (follower_id, following_id),
+  CONSTRAINT follows_no_self_follow CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS follows_following_id_idx
+  ON follows (following_id, created_at DESC);
+
+-- Following feed: newest posts of a set of authors
+CREATE INDEX IF NOT EXISTS posts_author_id_created_at_idx
+  ON posts (author_id, created_at DESC, id DESC);
+
+-- ============================================
+-- profiles: follower_count / following_count
+-- ============================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS follower_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS following_count INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================
+-- RLS: follows
+-- ============================================
+-- The follow graph is public, like the counts on profiles. Members can only
+-- follow and unfollow as themselves.
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY follows_select ON follows
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY follows_insert_own ON follows
+  FOR INSERT TO authenticated
+  WITH CHECK (follower_id = (SELECT auth.uid()));
+
+CREATE POLICY follows_delete_own ON follows
+  FOR DELETE TO authenticated
+  USING (follower_id = (SELECT auth.uid()));
+
+-- ============================================
+-- Trigger function: follow counts
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_follow_counts()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE profiles SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+    UPDATE profiles SET follower_count = follower_count + 1 WHERE id = NEW.following_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE profiles SET following_count = GREATEST(0, following_count - 1) WHERE id = OLD.follower_id;
+    UPDATE profiles SET follower_count = GREATEST(0, follower_count - 1) WHERE id = OLD.following_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS follows_count_trigger ON follows;
+
+CREATE TRIGGER follows_count_trigger
+  AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW EXECUTE FUNCTION update_follow_counts();
+
+-- ============================================
+-- Trigger function: new_follower notification
+-- ============================================
+-- One notification per follower; following again after an unfollow brings
+-- the existing one back to unread instead of adding another.
+
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_follower_unique_idx
+  ON notifications (user_id, reference_type, reference_id)
+  WHERE type = 'new_follower';
+
+CREATE OR REPLACE FUNCTION handle_follow_notification()
+RETURNS trigger AS $$
+DECLARE
+  follower_name TEXT;
+  follower_username TEXT;
+BEGIN
+  SELECT COALESCE(full_name, 'Someone'), username
+  INTO follower_name, follower_username
+  FROM profiles WHERE id = NEW.follower_id;
+
+  INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+  VALUES (
+    NEW.following_id,
+    'new_follower',
+    follower_name || ' started following you',
+    NULL,
+    'profile',
+    NEW.follower_id::text,
+    jsonb_build_object(
+      'actor_id', NEW.follower_id,
+      'link', CASE WHEN follower_username IS NOT NULL THEN '/members/' || follower_username END
+    )
+  )
+  ON CONFLICT (user_id, reference_type, reference_id) WHERE type = 'new_follower'
+  DO UPDATE SET
+    title = EXCLUDED.title,
+    metadata = EXCLUDED.metadata,
+    is_read = false,
+    read_at = NULL,
+    created_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS follow_notification_trigger ON follows;
+
+CREATE TRIGGER follow_notification_trigger
+  AFTER INSERT ON follows
+  FOR EACH ROW EXECUTE FUNCTION handle_follow_notification();
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TABLE follows IS 'Member follow graph; follower_id follows following_id';
+COMMENT ON COLUMN profiles.follower_count IS 'Number of members following this member (maintained by trigger)';
+COMMENT ON COLUMN profiles.following_count IS 'Number of members this member follows (maintained by trigger)';
+COMMENT ON FUNCTION update_follow_counts() IS 'Maintains denormalized follower/following counts on profiles';
+COMMENT ON FUNCTION handle_follow_notification() IS 'Notifies a member when someone follows them';
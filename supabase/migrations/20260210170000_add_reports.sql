@@ -0,0 +1,314 @@
+-- Migration: Add Reports and Moderation Queue
+-- Purpose: Let members report posts, comments, events and expert profiles,
+-- and give admins a queue that groups open reports by target with
+-- resolve / dismiss / hide actions.
+--
+-- Hiding fills is_hidden, hidden_reason and hidden_by on the target (the
+-- columns posts already had are added to comments, user_events and
+-- expert_profiles) and notifies the author with a content_hidden
+-- notification.
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+CREATE TYPE report_target_type AS ENUM ('post', 'comment', 'event', 'expert_profile');
+
+CREATE TYPE report_reason AS ENUM (
+  'spam',
+  'harassment',
+  'hate_speech',
+  'misinformation',
+  'inappropriate',
+  'other'
+);
+
+CREATE TYPE report_status AS ENUM ('pending', 'resolved', 'dismissed');
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'content_hidden' AFTER 'new_follower';
+
+-- ============================================
+-- TABLE: reports
+-- ============================================
+-- target_id is TEXT because expert profiles use UUID keys and the other
+-- targets BIGINT (same convention as notifications.reference_id).
+
+CREATE TABLE IF NOT EXISTS reports (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  target_type report_target_type NOT NULL,
+  target_id TEXT NOT NULL,
+  reason report_reason NOT NULL,
+  details TEXT,
+  status report_status NOT NULL DEFAULT 'pending',
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  resolution_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT reports_details_length CHECK (details IS NULL OR char_length(details) <= 500),
+  -- One report per member per target
+  CONSTRAINT reports_reporter_target_unique UNIQUE (reporter_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS reports_status_target_idx
+  ON reports (status, target_type, target_id);
+
+-- ============================================
+-- Hidden columns for the other report targets
+-- ============================================
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES profiles(id);
+
+ALTER TABLE user_events
+  ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES profiles(id);
+
+ALTER TABLE expert_profiles
+  ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES profiles(id);
+
+-- Hidden events and expert profiles stay visible to their owner and admins
+DROP POLICY IF EXISTS "Anyone can view active events" ON public.user_events;
+CREATE POLICY "Anyone can view active events"
+  ON public.user_events
+  FOR SELECT
+  USING (is_active = true AND is_hidden = false);
+
+CREATE POLICY "Owners and admins can view hidden events"
+  ON public.user_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    author_id = (SELECT auth.uid())
+    OR (SELECT is_admin())
+  );
+
+DROP POLICY IF EXISTS expert_profiles_select ON expert_profiles;
+CREATE POLICY expert_profiles_select ON expert_profiles
+  FOR SELECT
+  TO authenticated
+  USING (
+    (status = 'approved' AND is_hidden = false AND (SELECT is_approved_member()))
+    OR user_id = (SELECT auth.uid())
+    OR (SELECT is_admin())
+  );
+
+-- ============================================
+-- RLS: reports
+-- ============================================
+-- Members create and see their own reports. Admins read everything and
+-- handle reports through moderate_report_target().
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY reports_insert_own ON reports
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    reporter_id = (SELECT auth.uid())
+    AND status = 'pending'
+    AND (SELECT is_approved_member())
+  );
+
+CREATE POLICY reports_select ON reports
+  FOR SELECT TO authenticated
+  USING (
+    reporter_id = (SELECT auth.uid())
+    OR (SELECT is_admin())
+  );
+
+-- ============================================
+-- FUNCTION: get_report_queue
+-- ============================================
+-- Reports with the given status grouped by target, most reported first,
+-- with a preview of the target and its author.
+
+CREATE OR REPLACE FUNCTION get_report_queue(p_status report_status DEFAULT 'pending')
+RETURNS TABLE (
+  target_type report_target_type,
+  target_id TEXT,
+  report_count BIGINT,
+  reasons report_reason[],
+  details TEXT[],
+  first_reported_at TIMESTAMPTZ,
+  last_reported_at TIMESTAMPTZ,
+  target_author_id UUID,
+  target_author_name TEXT,
+  target_preview TEXT,
+  target_is_hidden BOOLEAN,
+  target_link TEXT
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the report queue';
+  END IF;
+
+  RETURN QUERY
+  WITH grouped AS (
+    SELECT
+      r.target_type,
+      r.target_id,
+      count(*) AS report_count,
+      array_agg(DISTINCT r.reason) AS reasons,
+      array_remove(array_agg(r.details ORDER BY r.created_at), NULL) AS details,
+      min(r.created_at) AS first_reported_at,
+      max(r.created_at) AS last_reported_at
+    FROM reports r
+    WHERE r.status = p_status
+    GROUP BY r.target_type, r.target_id
+  ),
+  targets AS (
+    SELECT
+      g.*,
+      CASE g.target_type
+        WHEN 'post' THEN (SELECT p.author_id FROM posts p WHERE p.id::text = g.target_id)
+        WHEN 'comment' THEN (SELECT c.author_id FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN (SELECT e.author_id FROM user_events e WHERE e.id::text = g.target_id)
+        WHEN 'expert_profile' THEN (SELECT ep.user_id FROM expert_profiles ep WHERE ep.id::text = g.target_id)
+      END AS author_id,
+      CASE g.target_type
+        WHEN 'post' THEN (SELECT left(p.content, 200) FROM posts p WHERE p.id::text = g.target_id)
+        WHEN 'comment' THEN (SELECT left(c.content, 200) FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN (SELECT e.title FROM user_events e WHERE e.id::text = g.target_id)
+        WHEN 'expert_profile' THEN (SELECT ep.business_name FROM expert_profiles ep WHERE ep.id::text = g.target_id)
+      END AS preview,
+      CASE g.target_type
+        WHEN 'post' THEN (SELECT p.is_hidden FROM posts p WHERE p.id::text = g.target_id)
+        WHEN 'comment' THEN (SELECT c.is_hidden FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN (SELECT e.is_hidden FROM user_events e WHERE e.id::text = g.target_id)
+        WHEN 'expert_profile' THEN (SELECT ep.is_hidden FROM expert_profiles ep WHERE ep.id::text = g.target_id)
+      END AS is_hidden,
+      CASE g.target_type
+        WHEN 'post' THEN '/thread/' || g.target_id
+        WHEN 'comment' THEN (SELECT '/thread/' || c.post_id FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN '/events'
+        WHEN 'expert_profile' THEN '/experts/' || g.target_id
+      END AS link
+    FROM grouped g
+  )
+  SELECT
+    t.target_type,
+    t.target_id,
+    t.report_count,
+    t.reasons,
+    t.details,
+    t.first_reported_at,
+    t.last_reported_at,
+    t.author_id,
+    pr.full_name,
+    t.preview,
+    COALESCE(t.is_hidden, false),
+    t.link
+  FROM targets t
+  LEFT JOIN profiles pr ON pr.id = t.author_id
+  ORDER BY t.report_count DESC, t.last_reported_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- FUNCTION: moderate_report_target
+-- ============================================
+-- Closes every pending report on a target:
+--   resolve - the reports were valid and handled (e.g. the author was contacted)
+--   dismiss - the reports were not valid
+--   hide    - hides the target with p_note as hidden_reason, notifies the
+--             author and marks the reports resolved
+-- Returns the number of reports closed.
+
+CREATE OR REPLACE FUNCTION moderate_report_target(
+  p_target_type report_target_type,
+  p_target_id TEXT,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_author_id UUID;
+  v_post_id BIGINT;
+  v_label TEXT;
+  v_closed INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can moderate reports';
+  END IF;
+
+  IF p_action NOT IN ('resolve', 'dismiss', 'hide') THEN
+    RAISE EXCEPTION 'Unsupported moderation action: %', p_action;
+  END IF;
+
+  IF p_action = 'hide' THEN
+    CASE p_target_type
+      WHEN 'post' THEN
+        UPDATE posts
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING author_id, id INTO v_author_id, v_post_id;
+        v_label := 'post';
+      WHEN 'comment' THEN
+        UPDATE comments
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING author_id, post_id INTO v_author_id, v_post_id;
+        v_label := 'comment';
+      WHEN 'event' THEN
+        UPDATE user_events
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING author_id INTO v_author_id;
+        v_label := 'event';
+      WHEN 'expert_profile' THEN
+        UPDATE expert_profiles
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING user_id INTO v_author_id;
+        v_label := 'expert profile';
+    END CASE;
+
+    IF v_author_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+      VALUES (
+        v_author_id,
+        'content_hidden',
+        'Your ' || v_label || ' was hidden by a moderator',
+        p_note,
+        p_target_type::text,
+        p_target_id,
+        jsonb_build_object(
+          'actor_id', v_admin_id,
+          'post_id', v_post_id,
+          'link', CASE WHEN v_post_id IS NOT NULL THEN '/thread/' || v_post_id END
+        )
+      );
+    END IF;
+  END IF;
+
+  UPDATE reports
+  SET
+    status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'resolved' END::report_status,
+    resolved_by = v_admin_id,
+    resolved_at = now(),
+    resolution_note = p_note
+  WHERE target_type = p_target_type
+    AND target_id = p_target_id
+    AND status = 'pending';
+
+  GET DIAGNOSTICS v_closed = ROW_COUNT;
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TABLE reports IS 'Member reports of posts, comments, events and expert profiles';
+COMMENT ON COLUMN reports.target_id IS 'ID of the reported row as text (UUID for expert profiles)';
+COMMENT ON FUNCTION get_report_queue(report_status) IS 'Admin only: reports grouped by target with a target preview';
+COMMENT ON FUNCTION moderate_report_target(report_target_type, TEXT, TEXT, TEXT) IS 'Admin only: resolve, dismiss or hide a reported target and close its pending reports';
+
+GRANT EXECUTE ON FUNCTION get_report_queue(report_status) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_report_target(report_target_type, TEXT, TEXT, TEXT) TO authenticated;
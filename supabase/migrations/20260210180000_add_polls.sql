@@ -0,0 +1,236 @@
+-- Migration: Add Polls
+-- Purpose: Let a post carry a poll with 2-6 options, an optional close time,
+-- and single or multiple choice. Votes live in poll_votes; RLS and the vote
+-- count trigger allow one vote per member (one per option for multiple choice
+-- polls) while the poll is open. Option vote counts are denormalized by
+-- trigger and published to Realtime so results update live; options start at
+-- zero and can't be added once voting has started.
+
+-- ============================================
+-- TABLE: polls
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS polls (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  post_id BIGINT NOT NULL UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+  allows_multiple BOOLEAN NOT NULL DEFAULT false,
+  closes_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ============================================
+-- TABLE: poll_options
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  poll_id BIGINT NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  position SMALLINT NOT NULL,
+  vote_count INTEGER NOT NULL DEFAULT 0,
+
+  CONSTRAINT poll_options_label_length CHECK (char_length(label) BETWEEN 1 AND 80),
+  CONSTRAINT poll_options_position_range CHECK (position BETWEEN 0 AND 5),
+  CONSTRAINT poll_options_poll_position_unique UNIQUE (poll_id, position),
+  -- Lets poll_votes reference (option, poll) so a vote can't mix polls
+  CONSTRAINT poll_options_id_poll_unique UNIQUE (id, poll_id)
+);
+
+-- ============================================
+-- TABLE: poll_votes
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  poll_id BIGINT NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id BIGINT NOT NULL,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (option_id, user_id),
+  FOREIGN KEY (option_id, poll_id) REFERENCES poll_options(id, poll_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS poll_votes_poll_user_idx
+  ON poll_votes (poll_id, user_id);
+
+-- ============================================
+-- RLS: polls / poll_options
+-- ============================================
+-- Polls are visible wherever their post is (the posts policy applies inside
+-- the EXISTS), to visitors as well. Only the post author can attach a poll
+-- and its options, and only options with no votes to a poll nobody has voted
+-- in yet.
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY polls_select ON polls
+  FOR SELECT TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM posts p WHERE p.id = polls.post_id));
+
+CREATE POLICY polls_insert_own ON polls
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM posts p
+      WHERE p.id = polls.post_id AND p.author_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY poll_options_select ON poll_options
+  FOR SELECT TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM polls pl WHERE pl.id = poll_options.poll_id));
+
+CREATE POLICY poll_options_insert_own ON poll_options
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    vote_count = 0
+    AND EXISTS (
+      SELECT 1 FROM polls pl
+      JOIN posts p ON p.id = pl.post_id
+      WHERE pl.id = poll_options.poll_id AND p.author_id = (SELECT auth.uid())
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM poll_options o
+      WHERE o.poll_id = poll_options.poll_id AND o.vote_count > 0
+    )
+  );
+
+-- ============================================
+-- RLS: poll_votes
+-- ============================================
+-- Ballots are private: members only read their own votes, results come from
+-- poll_options.vote_count. A vote is accepted while the poll is open, and for
+-- single choice polls only if the member has not voted yet.
+
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY poll_votes_select_own ON poll_votes
+  FOR SELECT TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY poll_votes_insert_own ON poll_votes
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (SELECT is_approved_member())
+    AND EXISTS (
+      SELECT 1 FROM polls pl
+      WHERE pl.id = poll_votes.poll_id
+        AND (pl.closes_at IS NULL OR pl.closes_at > now())
+        AND (
+          pl.allows_multiple
+          OR NOT EXISTS (
+            SELECT 1 FROM poll_votes v
+            WHERE v.poll_id = pl.id AND v.user_id = (SELECT auth.uid())
+          )
+        )
+    )
+  );
+
+-- ============================================
+-- Trigger function: option vote counts
+-- ============================================
+-- Also enforces one vote per member in single choice polls. The RLS check
+-- alone misses rows of the same statement and concurrent inserts (neither
+-- sees the other's row), so the count is taken under a per poll and member
+-- advisory lock: a second transaction waits for the first to commit, then
+-- counts its vote too.
+
+CREATE OR REPLACE FUNCTION update_poll_vote_counts()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT (SELECT allows_multiple FROM polls WHERE id = NEW.poll_id) THEN
+      PERFORM pg_advisory_xact_lock(
+        hashtextextended(format('poll_vote:%s:%s', NEW.poll_id, NEW.user_id), 0)
+      );
+
+      IF (
+        SELECT count(*) FROM poll_votes
+        WHERE poll_id = NEW.poll_id AND user_id = NEW.user_id
+      ) > 1 THEN
+        RAISE EXCEPTION 'Only one vote is allowed in this poll';
+      END IF;
+    END IF;
+
+    UPDATE poll_options SET vote_count = vote_count + 1 WHERE id = NEW.option_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE poll_options SET vote_count = GREATEST(0, vote_count - 1) WHERE id = OLD.option_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS poll_votes_count_trigger ON poll_votes;
+
+CREATE TRIGGER poll_votes_count_trigger
+  AFTER INSERT OR DELETE ON poll_votes
+  FOR EACH ROW EXECUTE FUNCTION update_poll_vote_counts();
+
+-- ============================================
+-- Function: create_poll
+-- ============================================
+-- Attaches a poll to a post in one call. Runs as the caller, so the insert
+-- policies above still decide who may do it.
+
+CREATE OR REPLACE FUNCTION create_poll(
+  p_post_id BIGINT,
+  p_options TEXT[],
+  p_allows_multiple BOOLEAN DEFAULT false,
+  p_closes_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+  v_poll_id BIGINT;
+BEGIN
+  IF coalesce(array_length(p_options, 1), 0) NOT BETWEEN 2 AND 6 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 6 options';
+  END IF;
+
+  IF p_closes_at IS NOT NULL AND p_closes_at <= now() THEN
+    RAISE EXCEPTION 'Poll close time must be in the future';
+  END IF;
+
+  INSERT INTO polls (post_id, allows_multiple, closes_at)
+  VALUES (p_post_id, p_allows_multiple, p_closes_at)
+  RETURNING id INTO v_poll_id;
+
+  INSERT INTO poll_options (poll_id, label, position)
+  SELECT v_poll_id, btrim(opt.label), (opt.ord - 1)::SMALLINT
+  FROM unnest(p_options) WITH ORDINALITY AS opt(label, ord);
+
+  RETURN v_poll_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_poll(BIGINT, TEXT[], BOOLEAN, TIMESTAMPTZ) TO authenticated;
+
+-- ============================================
+-- Realtime: live poll results
+-- ============================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'poll_options'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE poll_options;
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TABLE polls IS 'Poll attached to a post (at most one per post)';
+COMMENT ON COLUMN polls.closes_at IS 'Voting closes at this time; NULL keeps the poll open';
+COMMENT ON TABLE poll_options IS 'Choices of a poll, ordered by position';
+COMMENT ON COLUMN poll_options.vote_count IS 'Number of votes for this option (maintained by trigger)';
+COMMENT ON TABLE poll_votes IS 'Member votes; one per poll, or one per option for multiple choice polls';
+COMMENT ON FUNCTION update_poll_vote_counts() IS 'Maintains poll_options.vote_count and enforces single choice';
+COMMENT ON FUNCTION create_poll(BIGINT, TEXT[], BOOLEAN, TIMESTAMPTZ) IS 'Creates a poll with its options for one of the caller''s posts';
@@ -0,0 +1,52 @@
+-- Migration: Add Link Previews
+-- Purpose: Cache of OpenGraph metadata (title, description, image) for URLs
+-- found in posts, filled by the /api/link-preview route so each page is
+-- fetched once instead of by every reader. Failed lookups are cached too so
+-- broken links are not retried on every view.
+
+-- ============================================
+-- ENUM: link_preview_status
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE link_preview_status AS ENUM ('ok', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- ============================================
+-- TABLE: link_previews
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS link_previews (
+  -- Normalized URL (http/https, no fragment)
+  url TEXT PRIMARY KEY,
+  status link_preview_status NOT NULL,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT link_previews_url_length CHECK (char_length(url) <= 2048),
+  CONSTRAINT link_previews_ok_has_title CHECK (status = 'failed' OR title IS NOT NULL)
+);
+
+-- ============================================
+-- RLS: link_previews
+-- ============================================
+-- Members can read cached previews. Only the API route writes, using the
+-- service role, so there are no insert/update policies.
+
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY link_previews_select ON link_previews
+  FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TABLE link_previews IS 'Cached OpenGraph metadata for URLs in posts (written by the link preview API route)';
+COMMENT ON COLUMN link_previews.status IS 'ok: metadata found; failed: fetch failed or the page has no title';
+COMMENT ON COLUMN link_previews.fetched_at IS 'When the page was last fetched; the route refetches stale entries';
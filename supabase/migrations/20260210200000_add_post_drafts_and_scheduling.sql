@@ -0,0 +1,272 @@
+-- Migration: Add Post Drafts and Scheduled Publishing
+-- Purpose: Let authors save a post as a draft or schedule it for a future
+-- time. posts.status is 'published' for every existing post; drafts and
+-- scheduled posts are visible to their author only, and a pg_cron job
+-- publishes scheduled posts once publish_at has passed.
+--
+-- A post's created_at becomes its publish time when it is published, so it
+-- lands at the top of the latest feed. Mentions are only stored (and
+-- notified) once the post is published, and draft edits are not recorded
+-- as revisions.
+
+-- ============================================
+-- ENUM: post_status
+-- ============================================
+
+CREATE TYPE post_status AS ENUM ('draft', 'scheduled', 'published');
+
+-- ============================================
+-- posts.status / posts.publish_at
+-- ============================================
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS status post_status NOT NULL DEFAULT 'published',
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+
+ALTER TABLE posts
+  ADD CONSTRAINT posts_scheduled_publish_at
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+-- Due scheduled posts, for the publish job
+CREATE INDEX IF NOT EXISTS posts_scheduled_publish_at_idx
+  ON posts (publish_at)
+  WHERE status = 'scheduled';
+
+-- An author's drafts and scheduled posts
+CREATE INDEX IF NOT EXISTS posts_author_unpublished_idx
+  ON posts (author_id, updated_at DESC)
+  WHERE status <> 'published';
+
+-- ============================================
+-- RLS: posts
+-- ============================================
+-- Unpublished posts are visible to their author only (admins included).
+
+DROP POLICY IF EXISTS posts_select ON posts;
+CREATE POLICY posts_select ON posts
+  FOR SELECT TO authenticated
+  USING (
+    author_id = (SELECT auth.uid())
+    OR (
+      status = 'published'
+      AND (is_hidden = false OR (SELECT is_admin()))
+    )
+  );
+
+DROP POLICY IF EXISTS posts_select_anon ON posts;
+CREATE POLICY posts_select_anon ON posts
+  FOR SELECT TO anon
+  USING (is_hidden = false AND status = 'published');
+
+-- ============================================
+-- Trigger function: publishing
+-- ============================================
+-- Moves created_at to the publish time and keeps published posts published.
+
+CREATE OR REPLACE FUNCTION handle_post_status_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'published' THEN
+      RAISE EXCEPTION 'A published post cannot be moved back to %', NEW.status;
+    END IF;
+
+    IF NEW.status = 'published' THEN
+      NEW.created_at := now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_status_trigger ON posts;
+
+CREATE TRIGGER posts_status_trigger
+  BEFORE UPDATE OF status ON posts
+  FOR EACH ROW EXECUTE FUNCTION handle_post_status_change();
+
+-- ============================================
+-- Trigger function: revisions (published posts only)
+-- ============================================
+-- Replaces the version from 20260210100000: editing a draft is not an edit.
+
+CREATE OR REPLACE FUNCTION handle_post_revision()
+RETURNS trigger AS $$
+BEGIN
+  -- Only content and media edits of published posts create a revision;
+  -- counters and moderation flags are updated through the same table and
+  -- must not be recorded.
+  IF OLD.status = 'published' AND (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.media_urls IS DISTINCT FROM OLD.media_urls
+  ) THEN
+    INSERT INTO post_revisions (post_id, editor_id, content, media_urls)
+    VALUES (
+      OLD.id,
+      auth.uid(),
+      OLD.content,
+      COALESCE(OLD.media_urls, ARRAY[]::TEXT[])
+    );
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Mentions: sync once published
+-- ============================================
+-- Re-created so drafts don't notify mentioned members; publishing (a status
+-- change) stores the mentions and sends the notifications.
+
+DROP TRIGGER IF EXISTS sync_post_mentions_trigger ON posts;
+
+CREATE TRIGGER sync_post_mentions_trigger
+  AFTER INSERT OR UPDATE OF content, status ON posts
+  FOR EACH ROW
+  WHEN (NEW.status = 'published')
+  EXECUTE FUNCTION sync_mentions();
+
+-- ============================================
+-- FUNCTION: get_trending_tags (published posts only)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_trending_tags(
+  p_days INTEGER DEFAULT 7,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (tag_id BIGINT, name TEXT, post_count BIGINT) AS $$
+  SELECT t.id, t.name, count(*) AS post_count
+  FROM post_tags pt
+  JOIN tags t ON t.id = pt.tag_id
+  JOIN posts p ON p.id = pt.post_id
+  WHERE p.is_hidden = false
+    AND p.status = 'published'
+    AND p.created_at > now() - make_interval(days => GREATEST(p_days, 1))
+  GROUP BY t.id, t.name
+  ORDER BY post_count DESC, t.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ============================================
+-- FUNCTION: get_ranked_post_ids (published posts only)
+-- ============================================
+-- Same as the version from 20260210150000 plus the status filter: RLS lets
+-- authors see their own drafts, which must still stay out of the feed.
+
+CREATE OR REPLACE FUNCTION get_ranked_post_ids(
+  p_sort TEXT,
+  p_as_of TIMESTAMPTZ DEFAULT now(),
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (post_id BIGINT, score DOUBLE PRECISION) AS $$
+DECLARE
+  v_viewer_id UUID := auth.uid();
+BEGIN
+  IF p_sort NOT IN ('latest', 'trending', 'top_week') THEN
+    RAISE EXCEPTION 'Unsupported sort: %', p_sort;
+  END IF;
+
+  RETURN QUERY
+  SELECT ranked.id, ranked.rank_score
+  FROM (
+    SELECT
+      p.id,
+      CASE p_sort
+        WHEN 'latest' THEN EXTRACT(EPOCH FROM p.created_at)::DOUBLE PRECISION
+        WHEN 'trending' THEN
+          post_trending_score(p.like_count, p.comment_count, p.created_at, p_as_of)
+          * CASE
+              WHEN v_viewer_id IS NOT NULL AND EXISTS (
+                SELECT 1
+                FROM post_tags pt
+                JOIN tag_follows tf ON tf.tag_id = pt.tag_id
+                WHERE pt.post_id = p.id AND tf.user_id = v_viewer_id
+              ) THEN 1.5
+              ELSE 1
+            END
+        ELSE (p.like_count + p.comment_count)::DOUBLE PRECISION
+      END AS rank_score
+    FROM posts p
+    WHERE p.is_hidden = false
+      AND p.status = 'published'
+      AND p.created_at <= p_as_of
+      AND (p_sort <> 'top_week' OR p.created_at > p_as_of - INTERVAL '7 days')
+      AND (
+        p_tag IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM post_tags pt
+          JOIN tags t ON t.id = pt.tag_id
+          WHERE pt.post_id = p.id AND t.name = lower(p_tag)
+        )
+      )
+  ) ranked
+  WHERE p_cursor_id IS NULL
+    OR ranked.rank_score < p_cursor_score
+    OR (ranked.rank_score = p_cursor_score AND ranked.id < p_cursor_id)
+  ORDER BY ranked.rank_score DESC, ranked.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- ============================================
+-- FUNCTION: publish_due_posts
+-- ============================================
+-- Publishes scheduled posts whose publish_at has passed. Called by the
+-- pg_cron job below; not exposed to clients.
+
+CREATE OR REPLACE FUNCTION publish_due_posts()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE posts
+  SET status = 'published'
+  WHERE status = 'scheduled'
+    AND publish_at <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_due_posts() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Job: publish scheduled posts every minute
+-- ============================================
+-- pg_cron is available on hosted Supabase; local databases without it skip
+-- the job (run SELECT publish_due_posts() by hand there).
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+    PERFORM cron.schedule(
+      'publish-scheduled-posts',
+      '* * * * *',
+      'SELECT public.publish_due_posts()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; scheduled posts will not be published automatically';
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON COLUMN posts.status IS 'draft and scheduled posts are visible to their author only';
+COMMENT ON COLUMN posts.publish_at IS 'When a scheduled post is published (required for scheduled posts)';
+COMMENT ON POLICY posts_select ON posts IS 'Published non-hidden posts for members, authors see all their own posts, admins see published hidden posts';
+COMMENT ON FUNCTION handle_post_status_change() IS 'Sets created_at on publish and prevents unpublishing';
+COMMENT ON FUNCTION handle_post_revision() IS 'Stores the previous version of a published post in post_revisions when its content or media change';
+COMMENT ON FUNCTION get_trending_tags(INTEGER, INTEGER) IS 'Most used tags on visible published posts over the last p_days days';
+COMMENT ON FUNCTION publish_due_posts() IS 'Publishes scheduled posts whose publish_at has passed; run every minute by pg_cron';
@@ -0,0 +1,115 @@
+-- Migration: Add Post Attachments
+-- Purpose: Let posts carry document attachments (PDF, DOCX, PPTX, XLSX) with
+-- their file name, MIME type and size, next to the existing media_urls
+-- images.
+--
+-- Files are validated (type, macros/scripts, virus scan) by the
+-- /api/attachments route, which stores them in their own post-attachments
+-- bucket under <user_id>/ with the service role. The bucket has no write
+-- policies, so members can't upload to it directly, and post-media keeps its
+-- image/video types and 10MB limit. An attachment row must point at an object
+-- the route stored for the same member, with the size and type it recorded.
+
+-- ============================================
+-- STORAGE: post-attachments
+-- ============================================
+-- Public read, like post-media. Only the service role writes.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'post-attachments',
+  'post-attachments',
+  true,  -- Public: viewable by anyone
+  26214400,  -- 25MB, the ceiling for NEXT_PUBLIC_POST_ATTACHMENT_MAX_MB
+  ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- SELECT: Attachments are publicly accessible (bucket is public). Also lets
+-- post_attachments_insert_own see the stored object.
+CREATE POLICY "Post attachments are publicly accessible"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'post-attachments');
+
+-- No INSERT/UPDATE/DELETE policies: files only arrive through /api/attachments
+
+-- ============================================
+-- TABLE: post_attachments
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS post_attachments (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  post_id BIGINT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  -- Object name in the post-attachments bucket
+  storage_path TEXT NOT NULL UNIQUE,
+  position SMALLINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT post_attachments_file_name_length CHECK (char_length(file_name) BETWEEN 1 AND 255),
+  CONSTRAINT post_attachments_mime_type CHECK (mime_type IN (
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  )),
+  CONSTRAINT post_attachments_size_positive CHECK (size_bytes > 0),
+  CONSTRAINT post_attachments_position_range CHECK (position BETWEEN 0 AND 2),
+  CONSTRAINT post_attachments_post_position_unique UNIQUE (post_id, position)
+);
+
+-- ============================================
+-- RLS: post_attachments
+-- ============================================
+-- Attachments are visible wherever their post is (the posts policies apply
+-- inside the EXISTS).
+
+ALTER TABLE post_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY post_attachments_select ON post_attachments
+  FOR SELECT TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM posts p WHERE p.id = post_attachments.post_id));
+
+CREATE POLICY post_attachments_insert_own ON post_attachments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (SELECT is_approved_member())
+    AND EXISTS (
+      SELECT 1 FROM posts p
+      WHERE p.id = post_attachments.post_id AND p.author_id = (SELECT auth.uid())
+    )
+    AND storage_path LIKE (SELECT auth.uid())::text || '/%'
+    AND EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'post-attachments'
+        AND o.name = post_attachments.storage_path
+        AND (o.metadata->>'size')::BIGINT = post_attachments.size_bytes
+        AND o.metadata->>'mimetype' = post_attachments.mime_type
+    )
+  );
+
+CREATE POLICY post_attachments_delete_own ON post_attachments
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM posts p
+      WHERE p.id = post_attachments.post_id AND p.author_id = (SELECT auth.uid())
+    )
+  );
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TABLE post_attachments IS 'Document attachments of posts, validated and stored by /api/attachments';
+COMMENT ON COLUMN post_attachments.storage_path IS 'Object name in the post-attachments bucket (<user_id>/...)';
+COMMENT ON COLUMN post_attachments.size_bytes IS 'File size in bytes, as stored';
@@ -0,0 +1,187 @@
+-- Migration: Add Quote Reposts
+-- Purpose: Let members share a post into their own feed, with or without
+-- commentary. A quote post references the original through
+-- posts.quoted_post_id; the original keeps a denormalized repost_count and
+-- its author is notified (new_repost).
+--
+-- Deleting the original sets quoted_post_id to NULL but keeps is_quote, so
+-- the quote can still say that the original is gone. Hidden and unpublished
+-- originals are filtered out by the posts RLS policies when embedded.
+
+-- ============================================
+-- notification_type: new_repost
+-- ============================================
+-- Only referenced inside function bodies below, so it is safe to add in the
+-- same migration.
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'new_repost' AFTER 'new_like';
+
+-- ============================================
+-- posts: quoted_post_id / is_quote / repost_count
+-- ============================================
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS quoted_post_id BIGINT REFERENCES posts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_quote BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS repost_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE posts
+  ADD CONSTRAINT posts_quoted_post_is_quote
+  CHECK (quoted_post_id IS NULL OR is_quote);
+
+-- A plain repost has no commentary of its own
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS content_not_empty;
+ALTER TABLE posts
+  ADD CONSTRAINT content_not_empty
+  CHECK (is_quote OR length(trim(content)) > 0);
+
+CREATE INDEX IF NOT EXISTS posts_quoted_post_id_idx
+  ON posts (quoted_post_id)
+  WHERE quoted_post_id IS NOT NULL;
+
+-- ============================================
+-- Trigger function: quote validation
+-- ============================================
+-- Only published, visible posts can be quoted, and the quoted post is fixed
+-- once the quote exists (the ON DELETE SET NULL cascade is the one change
+-- allowed).
+
+CREATE OR REPLACE FUNCTION handle_post_quote()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_quote := NEW.quoted_post_id IS NOT NULL;
+
+    IF NEW.quoted_post_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM posts
+      WHERE id = NEW.quoted_post_id
+        AND status = 'published'
+        AND is_hidden = false
+    ) THEN
+      RAISE EXCEPTION 'This post cannot be quoted';
+    END IF;
+  ELSE
+    IF NEW.quoted_post_id IS NOT NULL
+      AND NEW.quoted_post_id IS DISTINCT FROM OLD.quoted_post_id THEN
+      RAISE EXCEPTION 'The quoted post of a quote cannot be changed';
+    END IF;
+
+    NEW.is_quote := OLD.is_quote;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_quote_trigger ON posts;
+
+CREATE TRIGGER posts_quote_trigger
+  BEFORE INSERT OR UPDATE OF quoted_post_id, is_quote ON posts
+  FOR EACH ROW EXECUTE FUNCTION handle_post_quote();
+
+-- ============================================
+-- Trigger function: repost counts
+-- ============================================
+-- Counts published quotes; a scheduled quote counts once it goes live.
+
+CREATE OR REPLACE FUNCTION update_repost_count()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.quoted_post_id IS NOT NULL AND NEW.status = 'published' THEN
+      UPDATE posts SET repost_count = repost_count + 1 WHERE id = NEW.quoted_post_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.quoted_post_id IS NOT NULL
+      AND NEW.status = 'published'
+      AND OLD.status <> 'published' THEN
+      UPDATE posts SET repost_count = repost_count + 1 WHERE id = NEW.quoted_post_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.quoted_post_id IS NOT NULL AND OLD.status = 'published' THEN
+      UPDATE posts SET repost_count = GREATEST(0, repost_count - 1) WHERE id = OLD.quoted_post_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_repost_count_trigger ON posts;
+
+CREATE TRIGGER posts_repost_count_trigger
+  AFTER INSERT OR UPDATE OF status OR DELETE ON posts
+  FOR EACH ROW EXECUTE FUNCTION update_repost_count();
+
+-- ============================================
+-- Trigger function: new_repost notification
+-- ============================================
+-- One notification per quote, sent when the quote is published. Nobody is
+-- notified about quoting their own post.
+
+CREATE OR REPLACE FUNCTION handle_repost_notification()
+RETURNS trigger AS $$
+DECLARE
+  reposter_name TEXT;
+  original_author_id UUID;
+BEGIN
+  -- Already published before this update: notified back then
+  IF TG_OP = 'UPDATE' AND OLD.status = 'published' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT author_id INTO original_author_id
+  FROM posts WHERE id = NEW.quoted_post_id;
+
+  IF original_author_id IS NULL OR original_author_id = NEW.author_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(full_name, 'Someone') INTO reposter_name
+  FROM profiles WHERE id = NEW.author_id;
+
+  INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+  VALUES (
+    original_author_id,
+    'new_repost',
+    CASE
+      WHEN length(trim(NEW.content)) > 0 THEN reposter_name || ' quoted your post'
+      ELSE reposter_name || ' reposted your post'
+    END,
+    NULLIF(left(NEW.content, 100), ''),
+    'post',
+    NEW.id::text,
+    jsonb_build_object(
+      'actor_id', NEW.author_id,
+      'post_id', NEW.id,
+      'quoted_post_id', NEW.quoted_post_id,
+      'link', '/thread/' || NEW.id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_repost_notification_trigger ON posts;
+
+CREATE TRIGGER posts_repost_notification_trigger
+  AFTER INSERT OR UPDATE OF status ON posts
+  FOR EACH ROW
+  WHEN (
+    NEW.quoted_post_id IS NOT NULL
+    AND NEW.status = 'published'
+  )
+  EXECUTE FUNCTION handle_repost_notification();
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON COLUMN posts.quoted_post_id IS 'Post this post quotes (NULL when not a quote or the original was deleted)';
+COMMENT ON COLUMN posts.is_quote IS 'Whether the post was created as a quote; stays true after the original is deleted';
+COMMENT ON COLUMN posts.repost_count IS 'Number of published quotes of this post (maintained by trigger)';
+COMMENT ON FUNCTION handle_post_quote() IS 'Sets is_quote and only allows quoting published, visible posts';
+COMMENT ON FUNCTION update_repost_count() IS 'Maintains denormalized repost counts on posts';
+COMMENT ON FUNCTION handle_repost_notification() IS 'Notifies the original author when a quote of their post is published';
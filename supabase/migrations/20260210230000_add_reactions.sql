@@ -0,0 +1,181 @@
+-- Migration: Add Emoji Reactions
+-- Purpose: Turn likes into reactions. Each like row now carries a reaction
+-- (👍 ❤️ 🎉 💡 🙏 😂); a member still has at most one reaction per post or
+-- comment and can switch it in place. Posts and comments keep like_count as
+-- the total number of reactions and gain reaction_counts with the count per
+-- reaction, both maintained by trigger.
+--
+-- Existing likes become 'like' (👍). The like notification trigger keeps
+-- working unchanged since reactions are still rows in likes.
+
+-- ============================================
+-- ENUM: reaction_type
+-- ============================================
+
+CREATE TYPE reaction_type AS ENUM (
+  'like',
+  'love',
+  'celebrate',
+  'insightful',
+  'thanks',
+  'funny'
+);
+
+-- ============================================
+-- likes.reaction
+-- ============================================
+
+ALTER TABLE likes
+  ADD COLUMN IF NOT EXISTS reaction reaction_type NOT NULL DEFAULT 'like';
+
+-- Members may switch their reaction, but not move it to another target
+CREATE POLICY likes_update_own ON likes
+  FOR UPDATE TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+REVOKE UPDATE ON likes FROM authenticated;
+GRANT UPDATE (reaction) ON likes TO authenticated;
+
+-- ============================================
+-- posts / comments: reaction_counts
+-- ============================================
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS reaction_counts JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS reaction_counts JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================
+-- Function: adjust_reaction_counts
+-- ============================================
+-- Adds delta to one reaction in a reaction_counts object; reactions that
+-- drop to zero are removed so the object only lists reactions in use.
+
+CREATE OR REPLACE FUNCTION adjust_reaction_counts(
+  p_counts JSONB,
+  p_reaction reaction_type,
+  p_delta INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  v_count := GREATEST(0, COALESCE((p_counts ->> p_reaction::text)::INTEGER, 0) + p_delta);
+
+  IF v_count = 0 THEN
+    RETURN p_counts - p_reaction::text;
+  END IF;
+
+  RETURN p_counts || jsonb_build_object(p_reaction::text, v_count);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- ============================================
+-- Trigger function: like and reaction counts
+-- ============================================
+-- Replaces the version from 20260204150203. like_count stays the total;
+-- switching a reaction moves one count between reactions.
+
+CREATE OR REPLACE FUNCTION update_like_count()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.likeable_type = 'post' THEN
+      UPDATE posts
+      SET like_count = like_count + 1,
+          reaction_counts = adjust_reaction_counts(reaction_counts, NEW.reaction, 1)
+      WHERE id = NEW.likeable_id;
+    ELSIF NEW.likeable_type = 'comment' THEN
+      UPDATE comments
+      SET like_count = like_count + 1,
+          reaction_counts = adjust_reaction_counts(reaction_counts, NEW.reaction, 1)
+      WHERE id = NEW.likeable_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.reaction IS DISTINCT FROM OLD.reaction THEN
+      IF NEW.likeable_type = 'post' THEN
+        UPDATE posts
+        SET reaction_counts = adjust_reaction_counts(
+          adjust_reaction_counts(reaction_counts, OLD.reaction, -1), NEW.reaction, 1
+        )
+        WHERE id = NEW.likeable_id;
+      ELSIF NEW.likeable_type = 'comment' THEN
+        UPDATE comments
+        SET reaction_counts = adjust_reaction_counts(
+          adjust_reaction_counts(reaction_counts, OLD.reaction, -1), NEW.reaction, 1
+        )
+        WHERE id = NEW.likeable_id;
+      END IF;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.likeable_type = 'post' THEN
+      UPDATE posts
+      SET like_count = GREATEST(0, like_count - 1),
+          reaction_counts = adjust_reaction_counts(reaction_counts, OLD.reaction, -1)
+      WHERE id = OLD.likeable_id;
+    ELSIF OLD.likeable_type = 'comment' THEN
+      UPDATE comments
+      SET like_count = GREATEST(0, like_count - 1),
+          reaction_counts = adjust_reaction_counts(reaction_counts, OLD.reaction, -1)
+      WHERE id = OLD.likeable_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS likes_count_trigger ON likes;
+
+CREATE TRIGGER likes_count_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF reaction ON likes
+  FOR EACH ROW EXECUTE FUNCTION update_like_count();
+
+-- ============================================
+-- Backfill: counts from the likes table
+-- ============================================
+-- Also corrects any drift in like_count.
+
+UPDATE posts p
+SET like_count = COALESCE(agg.total, 0),
+    reaction_counts = COALESCE(agg.counts, '{}'::jsonb)
+FROM (
+  SELECT likeable_id, sum(n)::INTEGER AS total, jsonb_object_agg(reaction, n) AS counts
+  FROM (
+    SELECT likeable_id, reaction, count(*) AS n
+    FROM likes
+    WHERE likeable_type = 'post'
+    GROUP BY likeable_id, reaction
+  ) per_reaction
+  GROUP BY likeable_id
+) agg
+WHERE agg.likeable_id = p.id;
+
+UPDATE comments c
+SET like_count = COALESCE(agg.total, 0),
+    reaction_counts = COALESCE(agg.counts, '{}'::jsonb)
+FROM (
+  SELECT likeable_id, sum(n)::INTEGER AS total, jsonb_object_agg(reaction, n) AS counts
+  FROM (
+    SELECT likeable_id, reaction, count(*) AS n
+    FROM likes
+    WHERE likeable_type = 'comment'
+    GROUP BY likeable_id, reaction
+  ) per_reaction
+  GROUP BY likeable_id
+) agg
+WHERE agg.likeable_id = c.id;
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON TYPE reaction_type IS 'Emoji reactions: like 👍, love ❤️, celebrate 🎉, insightful 💡, thanks 🙏, funny 😂';
+COMMENT ON COLUMN likes.reaction IS 'Reaction chosen by the member (one per post or comment)';
+COMMENT ON COLUMN posts.reaction_counts IS 'Reactions in use with their counts, e.g. {"like": 3, "love": 1} (maintained by trigger)';
+COMMENT ON COLUMN comments.reaction_counts IS 'Reactions in use with their counts, e.g. {"like": 3, "love": 1} (maintained by trigger)';
+COMMENT ON FUNCTION adjust_reaction_counts(JSONB, reaction_type, INTEGER) IS 'Adds a delta to one reaction in a reaction_counts object, dropping zero counts';
+COMMENT ON FUNCTION update_like_count() IS 'Maintains like_count (all reactions) and reaction_counts on posts and comments';
@@ -0,0 +1,107 @@
+-- Migration: Add Comment Editing and Soft Delete
+-- Purpose: Let authors edit their comments (marked with edited_at) and delete
+-- them without breaking the thread. Deleting keeps the row as a placeholder so
+-- replies stay attached through parent_id; the content is cleared and the
+-- comment no longer counts towards posts.comment_count.
+
+-- ============================================
+-- comments.edited_at / comments.deleted_at
+-- ============================================
+-- updated_at is also bumped by the like count trigger, so it cannot be used to
+-- tell whether the author actually changed the comment.
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Deleted comments have their content cleared
+ALTER TABLE comments
+  DROP CONSTRAINT IF EXISTS comments_content_not_empty;
+
+ALTER TABLE comments
+  ADD CONSTRAINT comments_content_not_empty
+  CHECK (deleted_at IS NOT NULL OR length(trim(content)) > 0);
+
+-- ============================================
+-- Trigger: edits and soft deletes
+-- ============================================
+-- edited_at and deleted_at are only set here, so clients cannot backdate
+-- them. Deleted comments are final: their content cannot be changed and they
+-- cannot be restored. Clearing the content also removes their mentions
+-- through sync_comment_mentions_trigger.
+
+CREATE OR REPLACE FUNCTION handle_comment_update()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.content IS DISTINCT FROM OLD.content
+      OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+      RAISE EXCEPTION 'Deleted comments cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS comments_edit_trigger ON comments;
+
+CREATE TRIGGER comments_edit_trigger
+  BEFORE UPDATE ON comments
+  FOR EACH ROW EXECUTE FUNCTION handle_comment_update();
+
+-- ============================================
+-- Trigger function: comment counts
+-- ============================================
+-- Replaces the version from 20260204150203. Soft deleted comments no longer
+-- count; hard deletes (admins, cascades) only decrement for live comments.
+-- Runs as definer so members can update the count on other members' posts.
+
+CREATE OR REPLACE FUNCTION update_comment_count()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE posts SET comment_count = comment_count + 1 WHERE id = NEW.post_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      UPDATE posts SET comment_count = GREATEST(0, comment_count - 1) WHERE id = NEW.post_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NULL THEN
+      UPDATE posts SET comment_count = GREATEST(0, comment_count - 1) WHERE id = OLD.post_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS comments_count_trigger ON comments;
+
+CREATE TRIGGER comments_count_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at ON comments
+  FOR EACH ROW EXECUTE FUNCTION update_comment_count();
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+COMMENT ON COLUMN comments.edited_at IS 'Timestamp of the last content edit by the author (NULL if never edited)';
+COMMENT ON COLUMN comments.deleted_at IS 'Set when the author deleted the comment; the row stays as a placeholder for its replies';
+COMMENT ON FUNCTION handle_comment_update() IS 'Sets edited_at on content edits, clears the content of deleted comments and keeps deleted comments final';
+COMMENT ON FUNCTION update_comment_count() IS 'Maintains denormalized comment count on posts (excluding deleted comments)';
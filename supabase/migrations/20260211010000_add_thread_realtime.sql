@@ -0,0 +1,29 @@
+-- Migration: Add Thread Realtime
+-- Purpose: Stream comment changes and post counters to the thread detail page
+-- (useRealtimeThread). Comment inserts, edits, soft deletes and reaction
+-- counts arrive as comments changes; like, comment and repost counts of the
+-- post arrive as posts updates.
+--
+-- Hard deletes only need the id, which the default replica identity already
+-- includes, so no REPLICA IDENTITY change is required.
+
+-- ============================================
+-- Realtime: comments and posts
+-- ============================================
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH v_table IN ARRAY ARRAY['comments', 'posts'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+      END IF;
+    END LOOP;
+  END IF;
+END;
+$$;
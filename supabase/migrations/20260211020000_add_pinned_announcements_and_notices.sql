@@ -0,0 +1,75 @@
+-- Migration: Add Pinned Announcements and Notices
+-- Purpose: Give pins an optional expiry and let admins publish notices.
+-- Pinned posts are shown in an announcements region at the top of the feed
+-- until pinned_until passes (NULL keeps them pinned until unpinned). Notices
+-- are posts written by an admin and flagged is_notice; they carry a badge in
+-- the feed and feed the notice summary on the home page.
+--
+-- Only admins may change is_pinned, pinned_until and is_notice. The
+-- posts_update_own policy lets authors update their whole row, so this is
+-- enforced by trigger.
+
+-- ============================================
+-- posts.pinned_until / posts.is_notice
+-- ============================================
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS pinned_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS is_notice BOOLEAN NOT NULL DEFAULT false;
+
+-- Latest notices, for the home page summary
+CREATE INDEX IF NOT EXISTS posts_notice_idx
+  ON posts (created_at DESC)
+  WHERE is_notice = true AND is_hidden = false;
+
+COMMENT ON COLUMN posts.pinned_until IS 'When the pin expires (NULL if pinned until unpinned, always NULL when not pinned)';
+COMMENT ON COLUMN posts.is_notice IS 'Admin-authored notice shown with a badge and in the home notice summary';
+
+-- ============================================
+-- Trigger function: announcement fields
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_post_announcement_fields()
+RETURNS trigger AS $$
+BEGIN
+  IF (
+    TG_OP = 'INSERT'
+    AND (NEW.is_pinned OR NEW.pinned_until IS NOT NULL OR NEW.is_notice)
+  ) OR (
+    TG_OP = 'UPDATE'
+    AND (
+      NEW.is_pinned IS DISTINCT FROM OLD.is_pinned
+      OR NEW.pinned_until IS DISTINCT FROM OLD.pinned_until
+      OR NEW.is_notice IS DISTINCT FROM OLD.is_notice
+    )
+  ) THEN
+    -- Jobs and the service role run without a user
+    IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can pin posts or mark them as notices';
+    END IF;
+
+    IF NEW.is_notice AND (TG_OP = 'INSERT' OR NOT OLD.is_notice) AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = NEW.author_id
+      AND role = 'admin'
+    ) THEN
+      RAISE EXCEPTION 'Only posts written by an admin can be notices';
+    END IF;
+  END IF;
+
+  -- An unpinned post has no expiry
+  IF NOT NEW.is_pinned THEN
+    NEW.pinned_until := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_announcement_trigger ON posts;
+
+CREATE TRIGGER posts_announcement_trigger
+  BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION handle_post_announcement_fields();
+
+COMMENT ON FUNCTION handle_post_announcement_fields() IS 'Restricts pins and notices to admins, notices to admin-authored posts, and clears the expiry of unpinned posts';
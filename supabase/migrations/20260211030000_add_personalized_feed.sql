@@ -0,0 +1,131 @@
+-- Migration: Add Personalized Feed
+-- Purpose: Rank the "For you" feed for the signed-in member using the profile
+-- collected at onboarding and the member's own activity. Posts from authors
+-- in the same industry or business stage, and from authors the member has
+-- engaged with before, are boosted over the time-decayed engagement score.
+--
+-- The function returns every factor of the score next to the score itself so
+-- the client can explain why a post was recommended.
+
+-- ============================================
+-- FUNCTION: get_personalized_post_ids
+-- ============================================
+-- Returns one page of visible post ids ordered by (score DESC, id DESC).
+-- Pass the score and id of the last row of the previous page as the cursor,
+-- and the same p_as_of for every page.
+--
+-- score = base_score * industry_boost * stage_boost * engagement_boost
+--
+--   base_score        (1 + likes + 2 * comments) / (age in hours + 2)^1.5;
+--                     the extra 1 lets the boosts lift new posts that have
+--                     no engagement yet
+--   industry_boost    1.5 when the author shares the member's industry
+--   stage_boost       1.3 when the author shares the member's business stage
+--   engagement_boost  1 + 0.1 per reaction or comment the member gave the
+--                     author in the 90 days before p_as_of, up to 2
+--
+-- The member's own posts and anonymous visitors get no boosts (all 1).
+-- Runs as SECURITY INVOKER so the posts RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION get_personalized_post_ids(
+  p_as_of TIMESTAMPTZ DEFAULT now(),
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  score DOUBLE PRECISION,
+  base_score DOUBLE PRECISION,
+  industry_boost DOUBLE PRECISION,
+  stage_boost DOUBLE PRECISION,
+  engagement_boost DOUBLE PRECISION
+) AS $$
+DECLARE
+  v_viewer_id UUID := auth.uid();
+  v_industry TEXT;
+  v_stage TEXT;
+BEGIN
+  SELECT pr.industry, pr.business_stage
+  INTO v_industry, v_stage
+  FROM profiles pr
+  WHERE pr.id = v_viewer_id;
+
+  RETURN QUERY
+  WITH engaged AS (
+    SELECT interaction.author_id, count(*) AS interactions
+    FROM (
+      -- Reactions to the author's posts
+      SELECT p.author_id
+      FROM likes l
+      JOIN posts p ON p.id = l.likeable_id
+      WHERE l.user_id = v_viewer_id
+        AND l.likeable_type = 'post'
+        AND l.created_at > p_as_of - INTERVAL '90 days'
+
+      UNION ALL
+
+      -- Reactions to the author's comments
+      SELECT c.author_id
+      FROM likes l
+      JOIN comments c ON c.id = l.likeable_id
+      WHERE l.user_id = v_viewer_id
+        AND l.likeable_type = 'comment'
+        AND l.created_at > p_as_of - INTERVAL '90 days'
+
+      UNION ALL
+
+      -- Comments on the author's posts
+      SELECT p.author_id
+      FROM comments c
+      JOIN posts p ON p.id = c.post_id
+      WHERE c.author_id = v_viewer_id
+        AND c.deleted_at IS NULL
+        AND c.created_at > p_as_of - INTERVAL '90 days'
+    ) interaction
+    WHERE interaction.author_id <> v_viewer_id
+    GROUP BY interaction.author_id
+  ),
+  factors AS (
+    SELECT
+      p.id,
+      (1 + p.like_count + 2 * p.comment_count)::DOUBLE PRECISION
+        / power(
+            GREATEST(EXTRACT(EPOCH FROM (p_as_of - p.created_at)) / 3600.0, 0) + 2,
+            1.5
+          ) AS base,
+      CASE
+        WHEN p.author_id <> v_viewer_id AND v_industry IS NOT NULL AND a.industry = v_industry
+          THEN 1.5
+        ELSE 1
+      END::DOUBLE PRECISION AS industry,
+      CASE
+        WHEN p.author_id <> v_viewer_id AND v_stage IS NOT NULL AND a.business_stage = v_stage
+          THEN 1.3
+        ELSE 1
+      END::DOUBLE PRECISION AS stage,
+      (1 + LEAST(COALESCE(e.interactions, 0), 10) * 0.1)::DOUBLE PRECISION AS engagement
+    FROM posts p
+    JOIN profiles a ON a.id = p.author_id
+    LEFT JOIN engaged e ON e.author_id = p.author_id
+    WHERE p.is_hidden = false
+      AND p.status = 'published'
+      AND p.created_at <= p_as_of
+  ),
+  ranked AS (
+    SELECT f.*, f.base * f.industry * f.stage * f.engagement AS rank_score
+    FROM factors f
+  )
+  SELECT r.id, r.rank_score, r.base, r.industry, r.stage, r.engagement
+  FROM ranked r
+  WHERE p_cursor_id IS NULL
+    OR r.rank_score < p_cursor_score
+    OR (r.rank_score = p_cursor_score AND r.id < p_cursor_id)
+  ORDER BY r.rank_score DESC, r.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+COMMENT ON FUNCTION get_personalized_post_ids(TIMESTAMPTZ, DOUBLE PRECISION, BIGINT, INTEGER) IS 'Keyset-paginated post ids for the For you feed, with the factors of each score';
+
+GRANT EXECUTE ON FUNCTION get_personalized_post_ids(TIMESTAMPTZ, DOUBLE PRECISION, BIGINT, INTEGER) TO authenticated;
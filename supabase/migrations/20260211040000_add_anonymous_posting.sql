@@ -0,0 +1,973 @@
+-- Migration: Add Anonymous Posting
+-- Purpose: Let founders ask sensitive questions (failed fundraising,
+-- co-founder conflict, layoffs) without their name attached.
+--
+-- An anonymous post or comment is stored with author_id NULL. The real
+-- author is kept in anonymous_authors, which only admins (and the author
+-- themselves) can read. Within a thread every anonymous participant keeps a
+-- stable pseudonym number: 0 for the original poster, then 1, 2, ... in the
+-- order people first commented anonymously. Comments may only be anonymous
+-- in anonymous threads.
+--
+-- Clients insert anonymous content with their own author_id as usual; the
+-- trigger below records them in anonymous_authors and clears author_id.
+-- Anonymous posts are published right away (drafts are listed by
+-- author_id), and the number of anonymous posts and comments per member is
+-- rate limited. They may carry a poll, but no images or document
+-- attachments: both are stored under the uploader's id, which shows up in
+-- media_urls and post_attachments.storage_path.
+
+-- ============================================
+-- posts / comments: anonymous flag
+-- ============================================
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS is_anonymous BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE posts
+  ALTER COLUMN author_id DROP NOT NULL;
+
+ALTER TABLE posts
+  ADD CONSTRAINT posts_anonymous_author
+  CHECK ((author_id IS NULL) = is_anonymous);
+
+-- Image paths start with the uploader's id
+ALTER TABLE posts
+  ADD CONSTRAINT posts_anonymous_no_media
+  CHECK (NOT is_anonymous OR COALESCE(cardinality(media_urls), 0) = 0);
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS anonymous_number INTEGER;
+
+ALTER TABLE comments
+  ALTER COLUMN author_id DROP NOT NULL;
+
+ALTER TABLE comments
+  ADD CONSTRAINT comments_anonymous_author
+  CHECK ((author_id IS NULL) = is_anonymous AND (anonymous_number IS NOT NULL) = is_anonymous);
+
+-- Anonymous posts and comments keep their mentions, without an author
+ALTER TABLE mentions
+  ALTER COLUMN author_id DROP NOT NULL;
+
+COMMENT ON COLUMN posts.is_anonymous IS 'Posted anonymously: author_id is NULL and the author is in anonymous_authors';
+COMMENT ON COLUMN comments.is_anonymous IS 'Commented anonymously: author_id is NULL and the author is in anonymous_authors';
+COMMENT ON COLUMN comments.anonymous_number IS 'Pseudonym number of the anonymous author within the thread (0 = original poster)';
+
+-- ============================================
+-- TABLE: anonymous_authors
+-- ============================================
+-- One row per anonymous post (comment_id NULL) or anonymous comment.
+-- The foreign keys are deferred because the row is written by the BEFORE
+-- INSERT trigger, before the post or comment itself exists.
+
+CREATE TABLE anonymous_authors (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  post_id BIGINT NOT NULL REFERENCES posts(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  comment_id BIGINT REFERENCES comments(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  pseudonym_number INTEGER NOT NULL CHECK (pseudonym_number >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX anonymous_authors_post_unique_idx
+  ON anonymous_authors (post_id)
+  WHERE comment_id IS NULL;
+
+CREATE UNIQUE INDEX anonymous_authors_comment_unique_idx
+  ON anonymous_authors (comment_id)
+  WHERE comment_id IS NOT NULL;
+
+-- Pseudonym lookup within a thread
+CREATE INDEX anonymous_authors_thread_idx
+  ON anonymous_authors (post_id, author_id);
+
+-- Rate limits
+CREATE INDEX anonymous_authors_author_idx
+  ON anonymous_authors (author_id, created_at DESC);
+
+COMMENT ON TABLE anonymous_authors IS 'Real authors of anonymous posts and comments, visible to admins only';
+COMMENT ON COLUMN anonymous_authors.post_id IS 'The anonymous post, or the thread of the anonymous comment';
+COMMENT ON COLUMN anonymous_authors.pseudonym_number IS 'Stable number of the author within the thread (0 = original poster)';
+
+-- ============================================
+-- RLS: anonymous_authors
+-- ============================================
+-- Rows are written only by handle_anonymous_author().
+
+ALTER TABLE anonymous_authors ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Admins see everyone; authors see their own rows (to manage their
+-- anonymous posts and comments)
+CREATE POLICY anonymous_authors_select ON anonymous_authors
+  FOR SELECT TO authenticated
+  USING (
+    (SELECT is_admin())
+    OR author_id = (SELECT auth.uid())
+  );
+
+COMMENT ON POLICY anonymous_authors_select ON anonymous_authors IS 'Admins can see the authors of all anonymous content, members only their own';
+
+-- ============================================
+-- FUNCTION: anonymous_author_id
+-- ============================================
+-- Real author of an anonymous post (p_comment_id NULL) or comment, for the
+-- notification triggers. Not exposed to clients.
+
+CREATE OR REPLACE FUNCTION anonymous_author_id(p_post_id BIGINT, p_comment_id BIGINT DEFAULT NULL)
+RETURNS UUID AS $$
+  SELECT author_id
+  FROM anonymous_authors
+  WHERE post_id = p_post_id
+    AND comment_id IS NOT DISTINCT FROM p_comment_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION anonymous_author_id(BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION anonymous_author_id(BIGINT, BIGINT) IS 'Real author of an anonymous post or comment (internal use by triggers)';
+
+-- ============================================
+-- Trigger function: record anonymous authors
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_anonymous_author()
+RETURNS trigger AS $$
+DECLARE
+  v_author_id UUID := NEW.author_id;
+  v_number INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.is_anonymous IS DISTINCT FROM OLD.is_anonymous
+      OR NEW.author_id IS DISTINCT FROM OLD.author_id THEN
+      RAISE EXCEPTION 'The author of a post or comment cannot be changed';
+    END IF;
+    IF TG_TABLE_NAME = 'comments' AND NEW.anonymous_number IS DISTINCT FROM OLD.anonymous_number THEN
+      RAISE EXCEPTION 'The author of a post or comment cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT NEW.is_anonymous THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_author_id IS NULL OR v_author_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Anonymous content must be written by the signed-in member';
+  END IF;
+
+  IF TG_TABLE_NAME = 'posts' THEN
+    IF NEW.status <> 'published' THEN
+      RAISE EXCEPTION 'Anonymous posts cannot be saved as drafts or scheduled';
+    END IF;
+
+    -- Rate limit: 3 anonymous posts per 24 hours
+    IF (
+      SELECT count(*) FROM anonymous_authors
+      WHERE author_id = v_author_id
+        AND comment_id IS NULL
+        AND created_at > now() - INTERVAL '24 hours'
+    ) >= 3 THEN
+      RAISE EXCEPTION 'anonymous_rate_limit: Too many anonymous posts, try again later';
+    END IF;
+
+    INSERT INTO anonymous_authors (post_id, author_id, pseudonym_number)
+    VALUES (NEW.id, v_author_id, 0);
+  ELSE
+    IF NOT EXISTS (
+      SELECT 1 FROM posts WHERE id = NEW.post_id AND is_anonymous
+    ) THEN
+      RAISE EXCEPTION 'Comments can only be anonymous in anonymous threads';
+    END IF;
+
+    -- Rate limit: 20 anonymous comments per hour
+    IF (
+      SELECT count(*) FROM anonymous_authors
+      WHERE author_id = v_author_id
+        AND comment_id IS NOT NULL
+        AND created_at > now() - INTERVAL '1 hour'
+    ) >= 20 THEN
+      RAISE EXCEPTION 'anonymous_rate_limit: Too many anonymous comments, try again later';
+    END IF;
+
+    -- Serialize pseudonym numbering within the thread
+    PERFORM 1 FROM posts WHERE id = NEW.post_id FOR UPDATE;
+
+    SELECT pseudonym_number INTO v_number
+    FROM anonymous_authors
+    WHERE post_id = NEW.post_id AND author_id = v_author_id
+    LIMIT 1;
+
+    IF v_number IS NULL THEN
+      SELECT COALESCE(max(pseudonym_number), 0) + 1 INTO v_number
+      FROM anonymous_authors
+      WHERE post_id = NEW.post_id;
+    END IF;
+
+    INSERT INTO anonymous_authors (post_id, comment_id, author_id, pseudonym_number)
+    VALUES (NEW.post_id, NEW.id, v_author_id, v_number);
+
+    NEW.anonymous_number := v_number;
+  END IF;
+
+  NEW.author_id := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_anonymous_author_trigger ON posts;
+
+CREATE TRIGGER posts_anonymous_author_trigger
+  BEFORE INSERT OR UPDATE OF author_id, is_anonymous ON posts
+  FOR EACH ROW EXECUTE FUNCTION handle_anonymous_author();
+
+DROP TRIGGER IF EXISTS comments_anonymous_author_trigger ON comments;
+
+CREATE TRIGGER comments_anonymous_author_trigger
+  BEFORE INSERT OR UPDATE OF author_id, is_anonymous, anonymous_number ON comments
+  FOR EACH ROW EXECUTE FUNCTION handle_anonymous_author();
+
+COMMENT ON FUNCTION handle_anonymous_author() IS 'Moves the author of anonymous posts and comments to anonymous_authors, assigns thread pseudonyms and enforces the anonymous rate limits';
+
+-- ============================================
+-- Trigger function: deleted accounts
+-- ============================================
+-- Posts and comments are deleted with their author's profile. Anonymous ones
+-- have no author_id, so follow the anonymous_authors cascade instead.
+
+CREATE OR REPLACE FUNCTION handle_anonymous_author_deleted()
+RETURNS trigger AS $$
+BEGIN
+  -- Only when the profile itself was deleted, not the post or comment
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = OLD.author_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF OLD.comment_id IS NOT NULL THEN
+    DELETE FROM comments WHERE id = OLD.comment_id;
+  ELSE
+    DELETE FROM posts WHERE id = OLD.post_id;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS anonymous_authors_deleted_trigger ON anonymous_authors;
+
+CREATE TRIGGER anonymous_authors_deleted_trigger
+  AFTER DELETE ON anonymous_authors
+  FOR EACH ROW EXECUTE FUNCTION handle_anonymous_author_deleted();
+
+COMMENT ON FUNCTION handle_anonymous_author_deleted() IS 'Deletes the anonymous posts and comments of deleted profiles';
+
+-- ============================================
+-- RLS: posts and comments
+-- ============================================
+-- The checks run after the trigger has cleared author_id. Anonymous rows can
+-- only get there through handle_anonymous_author(), which verified the
+-- author; updates and deletes go through anonymous_authors.
+
+DROP POLICY IF EXISTS posts_insert ON posts;
+CREATE POLICY posts_insert ON posts
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (author_id = (SELECT auth.uid()) OR (is_anonymous AND author_id IS NULL))
+    AND (SELECT is_approved_member())
+  );
+
+CREATE POLICY posts_update_anonymous_own ON posts
+  FOR UPDATE TO authenticated
+  USING (
+    is_anonymous AND EXISTS (
+      SELECT 1 FROM anonymous_authors aa
+      WHERE aa.post_id = posts.id
+        AND aa.comment_id IS NULL
+        AND aa.author_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY posts_delete_anonymous_own ON posts
+  FOR DELETE TO authenticated
+  USING (
+    is_anonymous AND EXISTS (
+      SELECT 1 FROM anonymous_authors aa
+      WHERE aa.post_id = posts.id
+        AND aa.comment_id IS NULL
+        AND aa.author_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS comments_insert ON comments;
+CREATE POLICY comments_insert ON comments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (author_id = (SELECT auth.uid()) OR (is_anonymous AND author_id IS NULL))
+    AND (SELECT is_approved_member())
+  );
+
+CREATE POLICY comments_update_anonymous_own ON comments
+  FOR UPDATE TO authenticated
+  USING (
+    is_anonymous AND EXISTS (
+      SELECT 1 FROM anonymous_authors aa
+      WHERE aa.comment_id = comments.id
+        AND aa.author_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY comments_delete_anonymous_own ON comments
+  FOR DELETE TO authenticated
+  USING (
+    is_anonymous AND EXISTS (
+      SELECT 1 FROM anonymous_authors aa
+      WHERE aa.comment_id = comments.id
+        AND aa.author_id = (SELECT auth.uid())
+    )
+  );
+
+COMMENT ON POLICY posts_insert ON posts IS 'Approved members can create posts, anonymous ones through handle_anonymous_author()';
+COMMENT ON POLICY posts_update_anonymous_own ON posts IS 'Authors can update their own anonymous posts';
+COMMENT ON POLICY posts_delete_anonymous_own ON posts IS 'Authors can delete their own anonymous posts';
+COMMENT ON POLICY comments_insert ON comments IS 'Approved members can comment, anonymously in anonymous threads';
+COMMENT ON POLICY comments_update_anonymous_own ON comments IS 'Authors can update their own anonymous comments';
+COMMENT ON POLICY comments_delete_anonymous_own ON comments IS 'Authors can delete their own anonymous comments';
+
+-- ============================================
+-- RLS: polls on anonymous posts
+-- ============================================
+-- Replace the versions from 20260210180000, which only accept the post's
+-- author_id (the vote_count conditions are unchanged).
+-- post_attachments_insert_own keeps requiring author_id, so anonymous posts
+-- can't take attachments (see posts_anonymous_no_media).
+
+DROP POLICY IF EXISTS polls_insert_own ON polls;
+CREATE POLICY polls_insert_own ON polls
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM posts p
+      WHERE p.id = polls.post_id
+        AND (
+          p.author_id = (SELECT auth.uid())
+          OR (p.is_anonymous AND EXISTS (
+            SELECT 1 FROM anonymous_authors aa
+            WHERE aa.post_id = p.id
+              AND aa.comment_id IS NULL
+              AND aa.author_id = (SELECT auth.uid())
+          ))
+        )
+    )
+  );
+
+DROP POLICY IF EXISTS poll_options_insert_own ON poll_options;
+CREATE POLICY poll_options_insert_own ON poll_options
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    vote_count = 0
+    AND EXISTS (
+      SELECT 1 FROM polls pl
+      JOIN posts p ON p.id = pl.post_id
+      WHERE pl.id = poll_options.poll_id
+        AND (
+          p.author_id = (SELECT auth.uid())
+          OR (p.is_anonymous AND EXISTS (
+            SELECT 1 FROM anonymous_authors aa
+            WHERE aa.post_id = p.id
+              AND aa.comment_id IS NULL
+              AND aa.author_id = (SELECT auth.uid())
+          ))
+        )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM poll_options o
+      WHERE o.poll_id = poll_options.poll_id AND o.vote_count > 0
+    )
+  );
+
+COMMENT ON POLICY polls_insert_own ON polls IS 'Post authors, anonymous ones included, can attach a poll';
+COMMENT ON POLICY poll_options_insert_own ON poll_options IS 'Post authors, anonymous ones included, can add poll options';
+
+-- ============================================
+-- Notifications: resolve anonymous authors
+-- ============================================
+-- Replace the versions from 20260210130000, 20260210140000 and
+-- 20260210220000. Anonymous authors still get notified about activity on
+-- their content, but notifications about activity by anonymous authors
+-- carry no name and no actor_id.
+
+CREATE OR REPLACE FUNCTION handle_comment_notification()
+RETURNS trigger AS $$
+DECLARE
+  commenter_id UUID;
+  commenter_name TEXT;
+  post_author_id UUID;
+  parent_author_id UUID;
+  comment_preview TEXT;
+BEGIN
+  IF NEW.is_anonymous THEN
+    commenter_id := anonymous_author_id(NEW.post_id, NEW.id);
+    commenter_name := 'An anonymous member';
+  ELSE
+    commenter_id := NEW.author_id;
+    SELECT COALESCE(full_name, 'Someone') INTO commenter_name
+    FROM profiles WHERE id = NEW.author_id;
+  END IF;
+
+  SELECT COALESCE(author_id, anonymous_author_id(id)) INTO post_author_id
+  FROM posts WHERE id = NEW.post_id;
+
+  comment_preview := left(NEW.content, 100);
+
+  -- Reply: notify the author of the parent comment
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT COALESCE(author_id, anonymous_author_id(post_id, id)) INTO parent_author_id
+    FROM comments WHERE id = NEW.parent_id;
+
+    IF parent_author_id IS NOT NULL AND parent_author_id IS DISTINCT FROM commenter_id THEN
+      INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+      VALUES (
+        parent_author_id,
+        'new_reply',
+        commenter_name || ' replied to your comment',
+        comment_preview,
+        'comment',
+        NEW.id::text,
+        jsonb_build_object(
+          'actor_id', NEW.author_id,
+          'post_id', NEW.post_id,
+          'parent_id', NEW.parent_id,
+          'link', '/thread/' || NEW.post_id
+        )
+      );
+    END IF;
+  END IF;
+
+  -- Comment: notify the post author, unless they commented themselves or
+  -- already got a reply notification for this comment
+  IF post_author_id IS NOT NULL
+    AND post_author_id IS DISTINCT FROM commenter_id
+    AND post_author_id IS DISTINCT FROM parent_author_id THEN
+    INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+    VALUES (
+      post_author_id,
+      'new_comment',
+      commenter_name || ' commented on your post',
+      comment_preview,
+      'comment',
+      NEW.id::text,
+      jsonb_build_object(
+        'actor_id', NEW.author_id,
+        'post_id', NEW.post_id,
+        'link', '/thread/' || NEW.post_id
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION handle_like_notification()
+RETURNS trigger AS $$
+DECLARE
+  like_row likes%ROWTYPE;
+  target_author_id UUID;
+  target_post_id BIGINT;
+  target_label TEXT;
+  target_preview TEXT;
+  actor_id UUID;
+  actor_name TEXT;
+  liker_count INTEGER;
+  notification_title TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    like_row := OLD;
+  ELSE
+    like_row := NEW;
+  END IF;
+
+  -- Resolve the liked target
+  IF like_row.likeable_type = 'post' THEN
+    SELECT COALESCE(author_id, anonymous_author_id(id)), id, left(content, 100)
+    INTO target_author_id, target_post_id, target_preview
+    FROM posts WHERE id = like_row.likeable_id;
+    target_label := 'post';
+  ELSE
+    SELECT COALESCE(author_id, anonymous_author_id(post_id, id)), post_id, left(content, 100)
+    INTO target_author_id, target_post_id, target_preview
+    FROM comments WHERE id = like_row.likeable_id;
+    target_label := 'comment';
+  END IF;
+
+  -- Target gone (cascade delete) or self-like: nothing to do
+  IF target_author_id IS NULL OR target_author_id = like_row.user_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT count(*) INTO liker_count
+  FROM likes
+  WHERE likeable_type = like_row.likeable_type
+    AND likeable_id = like_row.likeable_id
+    AND user_id <> target_author_id;
+
+  IF TG_OP = 'DELETE' AND liker_count = 0 THEN
+    DELETE FROM notifications
+    WHERE type = 'new_like'
+      AND user_id = target_author_id
+      AND reference_type = target_label
+      AND reference_id = like_row.likeable_id::text;
+    RETURN NULL;
+  END IF;
+
+  -- Actor: the liker on insert, the most recent remaining liker on delete
+  IF TG_OP = 'INSERT' THEN
+    actor_id := like_row.user_id;
+  ELSE
+    SELECT user_id INTO actor_id
+    FROM likes
+    WHERE likeable_type = like_row.likeable_type
+      AND likeable_id = like_row.likeable_id
+      AND user_id <> target_author_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(full_name, 'Someone') INTO actor_name
+  FROM profiles WHERE id = actor_id;
+
+  IF liker_count = 1 THEN
+    notification_title := actor_name || ' liked your ' || target_label;
+  ELSIF liker_count = 2 THEN
+    notification_title := actor_name || ' and 1 other liked your ' || target_label;
+  ELSE
+    notification_title := actor_name || ' and ' || (liker_count - 1) || ' others liked your ' || target_label;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+    VALUES (
+      target_author_id,
+      'new_like',
+      notification_title,
+      target_preview,
+      target_label,
+      like_row.likeable_id::text,
+      jsonb_build_object(
+        'actor_id', actor_id,
+        'actor_count', liker_count,
+        'post_id', target_post_id,
+        'link', '/thread/' || target_post_id
+      )
+    )
+    ON CONFLICT (user_id, reference_type, reference_id) WHERE type = 'new_like'
+    DO UPDATE SET
+      title = EXCLUDED.title,
+      body = EXCLUDED.body,
+      metadata = EXCLUDED.metadata,
+      is_read = false,
+      read_at = NULL,
+      created_at = now();
+  ELSE
+    UPDATE notifications
+    SET
+      title = notification_title,
+      metadata = metadata || jsonb_build_object('actor_id', actor_id, 'actor_count', liker_count)
+    WHERE type = 'new_like'
+      AND user_id = target_author_id
+      AND reference_type = target_label
+      AND reference_id = like_row.likeable_id::text;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION handle_mention_notification()
+RETURNS trigger AS $$
+DECLARE
+  author_id UUID := NEW.author_id;
+  author_name TEXT;
+  target_label TEXT;
+  target_post_id BIGINT;
+  target_content TEXT;
+BEGIN
+  IF NEW.comment_id IS NOT NULL THEN
+    SELECT post_id, content INTO target_post_id, target_content
+    FROM comments WHERE id = NEW.comment_id;
+    target_label := 'comment';
+  ELSE
+    SELECT id, content INTO target_post_id, target_content
+    FROM posts WHERE id = NEW.post_id;
+    target_label := 'post';
+  END IF;
+
+  IF NEW.author_id IS NULL THEN
+    author_id := anonymous_author_id(target_post_id, NEW.comment_id);
+    author_name := 'An anonymous member';
+  ELSE
+    SELECT COALESCE(full_name, 'Someone') INTO author_name
+    FROM profiles WHERE id = NEW.author_id;
+  END IF;
+
+  IF NEW.mentioned_user_id = author_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.comment_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM notifications
+    WHERE user_id = NEW.mentioned_user_id
+      AND type IN ('new_comment', 'new_reply')
+      AND reference_type = 'comment'
+      AND reference_id = NEW.comment_id::text
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+  VALUES (
+    NEW.mentioned_user_id,
+    'mention',
+    author_name || ' mentioned you in a ' || target_label,
+    left(target_content, 100),
+    target_label,
+    COALESCE(NEW.comment_id, NEW.post_id)::text,
+    jsonb_build_object(
+      'actor_id', NEW.author_id,
+      'post_id', target_post_id,
+      'link', '/thread/' || target_post_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION handle_repost_notification()
+RETURNS trigger AS $$
+DECLARE
+  reposter_id UUID;
+  reposter_name TEXT;
+  original_author_id UUID;
+BEGIN
+  -- Already published before this update: notified back then
+  IF TG_OP = 'UPDATE' AND OLD.status = 'published' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(author_id, anonymous_author_id(id)) INTO original_author_id
+  FROM posts WHERE id = NEW.quoted_post_id;
+
+  IF NEW.is_anonymous THEN
+    reposter_id := anonymous_author_id(NEW.id);
+    reposter_name := 'An anonymous member';
+  ELSE
+    reposter_id := NEW.author_id;
+    SELECT COALESCE(full_name, 'Someone') INTO reposter_name
+    FROM profiles WHERE id = NEW.author_id;
+  END IF;
+
+  IF original_author_id IS NULL OR original_author_id = reposter_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+  VALUES (
+    original_author_id,
+    'new_repost',
+    CASE
+      WHEN length(trim(NEW.content)) > 0 THEN reposter_name || ' quoted your post'
+      ELSE reposter_name || ' reposted your post'
+    END,
+    NULLIF(left(NEW.content, 100), ''),
+    'post',
+    NEW.id::text,
+    jsonb_build_object(
+      'actor_id', NEW.author_id,
+      'post_id', NEW.id,
+      'quoted_post_id', NEW.quoted_post_id,
+      'link', '/thread/' || NEW.id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Moderation: resolve anonymous authors
+-- ============================================
+-- Replace the versions from 20260210170000, so the report queue shows the
+-- real author of anonymous posts and comments (admins can read
+-- anonymous_authors anyway) and hiding them notifies that author.
+
+CREATE OR REPLACE FUNCTION get_report_queue(p_status report_status DEFAULT 'pending')
+RETURNS TABLE (
+  target_type report_target_type,
+  target_id TEXT,
+  report_count BIGINT,
+  reasons report_reason[],
+  details TEXT[],
+  first_reported_at TIMESTAMPTZ,
+  last_reported_at TIMESTAMPTZ,
+  target_author_id UUID,
+  target_author_name TEXT,
+  target_preview TEXT,
+  target_is_hidden BOOLEAN,
+  target_link TEXT
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the report queue';
+  END IF;
+
+  RETURN QUERY
+  WITH grouped AS (
+    SELECT
+      r.target_type,
+      r.target_id,
+      count(*) AS report_count,
+      array_agg(DISTINCT r.reason) AS reasons,
+      array_remove(array_agg(r.details ORDER BY r.created_at), NULL) AS details,
+      min(r.created_at) AS first_reported_at,
+      max(r.created_at) AS last_reported_at
+    FROM reports r
+    WHERE r.status = p_status
+    GROUP BY r.target_type, r.target_id
+  ),
+  targets AS (
+    SELECT
+      g.*,
+      CASE g.target_type
+        WHEN 'post' THEN (SELECT COALESCE(p.author_id, anonymous_author_id(p.id)) FROM posts p WHERE p.id::text = g.target_id)
+        WHEN 'comment' THEN (SELECT COALESCE(c.author_id, anonymous_author_id(c.post_id, c.id)) FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN (SELECT e.author_id FROM user_events e WHERE e.id::text = g.target_id)
+        WHEN 'expert_profile' THEN (SELECT ep.user_id FROM expert_profiles ep WHERE ep.id::text = g.target_id)
+      END AS author_id,
+      CASE g.target_type
+        WHEN 'post' THEN (SELECT left(p.content, 200) FROM posts p WHERE p.id::text = g.target_id)
+        WHEN 'comment' THEN (SELECT left(c.content, 200) FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN (SELECT e.title FROM user_events e WHERE e.id::text = g.target_id)
+        WHEN 'expert_profile' THEN (SELECT ep.business_name FROM expert_profiles ep WHERE ep.id::text = g.target_id)
+      END AS preview,
+      CASE g.target_type
+        WHEN 'post' THEN (SELECT p.is_hidden FROM posts p WHERE p.id::text = g.target_id)
+        WHEN 'comment' THEN (SELECT c.is_hidden FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN (SELECT e.is_hidden FROM user_events e WHERE e.id::text = g.target_id)
+        WHEN 'expert_profile' THEN (SELECT ep.is_hidden FROM expert_profiles ep WHERE ep.id::text = g.target_id)
+      END AS is_hidden,
+      CASE g.target_type
+        WHEN 'post' THEN '/thread/' || g.target_id
+        WHEN 'comment' THEN (SELECT '/thread/' || c.post_id FROM comments c WHERE c.id::text = g.target_id)
+        WHEN 'event' THEN '/events'
+        WHEN 'expert_profile' THEN '/experts/' || g.target_id
+      END AS link
+    FROM grouped g
+  )
+  SELECT
+    t.target_type,
+    t.target_id,
+    t.report_count,
+    t.reasons,
+    t.details,
+    t.first_reported_at,
+    t.last_reported_at,
+    t.author_id,
+    pr.full_name,
+    t.preview,
+    COALESCE(t.is_hidden, false),
+    t.link
+  FROM targets t
+  LEFT JOIN profiles pr ON pr.id = t.author_id
+  ORDER BY t.report_count DESC, t.last_reported_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION moderate_report_target(
+  p_target_type report_target_type,
+  p_target_id TEXT,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_author_id UUID;
+  v_post_id BIGINT;
+  v_label TEXT;
+  v_closed INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can moderate reports';
+  END IF;
+
+  IF p_action NOT IN ('resolve', 'dismiss', 'hide') THEN
+    RAISE EXCEPTION 'Unsupported moderation action: %', p_action;
+  END IF;
+
+  IF p_action = 'hide' THEN
+    CASE p_target_type
+      WHEN 'post' THEN
+        UPDATE posts
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING COALESCE(author_id, anonymous_author_id(id)), id INTO v_author_id, v_post_id;
+        v_label := 'post';
+      WHEN 'comment' THEN
+        UPDATE comments
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING COALESCE(author_id, anonymous_author_id(post_id, id)), post_id INTO v_author_id, v_post_id;
+        v_label := 'comment';
+      WHEN 'event' THEN
+        UPDATE user_events
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING author_id INTO v_author_id;
+        v_label := 'event';
+      WHEN 'expert_profile' THEN
+        UPDATE expert_profiles
+        SET is_hidden = true, hidden_reason = p_note, hidden_by = v_admin_id
+        WHERE id::text = p_target_id
+        RETURNING user_id INTO v_author_id;
+        v_label := 'expert profile';
+    END CASE;
+
+    IF v_author_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+      VALUES (
+        v_author_id,
+        'content_hidden',
+        'Your ' || v_label || ' was hidden by a moderator',
+        p_note,
+        p_target_type::text,
+        p_target_id,
+        jsonb_build_object(
+          'actor_id', v_admin_id,
+          'post_id', v_post_id,
+          'link', CASE WHEN v_post_id IS NOT NULL THEN '/thread/' || v_post_id END
+        )
+      );
+    END IF;
+  END IF;
+
+  UPDATE reports
+  SET
+    status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'resolved' END::report_status,
+    resolved_by = v_admin_id,
+    resolved_at = now(),
+    resolution_note = p_note
+  WHERE target_type = p_target_type
+    AND target_id = p_target_id
+    AND status = 'pending';
+
+  GET DIAGNOSTICS v_closed = ROW_COUNT;
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- FUNCTION: get_personalized_post_ids (anonymous posts)
+-- ============================================
+-- Same as the version from 20260211030000, except that anonymous posts are
+-- kept (LEFT JOIN on the author) and never boosted, so the ranking reveals
+-- nothing about their author.
+
+CREATE OR REPLACE FUNCTION get_personalized_post_ids(
+  p_as_of TIMESTAMPTZ DEFAULT now(),
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  score DOUBLE PRECISION,
+  base_score DOUBLE PRECISION,
+  industry_boost DOUBLE PRECISION,
+  stage_boost DOUBLE PRECISION,
+  engagement_boost DOUBLE PRECISION
+) AS $$
+DECLARE
+  v_viewer_id UUID := auth.uid();
+  v_industry TEXT;
+  v_stage TEXT;
+BEGIN
+  SELECT pr.industry, pr.business_stage
+  INTO v_industry, v_stage
+  FROM profiles pr
+  WHERE pr.id = v_viewer_id;
+
+  RETURN QUERY
+  WITH engaged AS (
+    SELECT interaction.author_id, count(*) AS interactions
+    FROM (
+      -- Reactions to the author's posts
+      SELECT p.author_id
+      FROM likes l
+      JOIN posts p ON p.id = l.likeable_id
+      WHERE l.user_id = v_viewer_id
+        AND l.likeable_type = 'post'
+        AND l.created_at > p_as_of - INTERVAL '90 days'
+
+      UNION ALL
+
+      -- Reactions to the author's comments
+      SELECT c.author_id
+      FROM likes l
+      JOIN comments c ON c.id = l.likeable_id
+      WHERE l.user_id = v_viewer_id
+        AND l.likeable_type = 'comment'
+        AND l.created_at > p_as_of - INTERVAL '90 days'
+
+      UNION ALL
+
+      -- Comments on the author's posts
+      SELECT p.author_id
+      FROM comments c
+      JOIN posts p ON p.id = c.post_id
+      WHERE c.author_id = v_viewer_id
+        AND c.deleted_at IS NULL
+        AND c.created_at > p_as_of - INTERVAL '90 days'
+    ) interaction
+    WHERE interaction.author_id <> v_viewer_id
+    GROUP BY interaction.author_id
+  ),
+  factors AS (
+    SELECT
+      p.id,
+      (1 + p.like_count + 2 * p.comment_count)::DOUBLE PRECISION
+        / power(
+            GREATEST(EXTRACT(EPOCH FROM (p_as_of - p.created_at)) / 3600.0, 0) + 2,
+            1.5
+          ) AS base,
+      CASE
+        WHEN p.author_id <> v_viewer_id AND v_industry IS NOT NULL AND a.industry = v_industry
+          THEN 1.5
+        ELSE 1
+      END::DOUBLE PRECISION AS industry,
+      CASE
+        WHEN p.author_id <> v_viewer_id AND v_stage IS NOT NULL AND a.business_stage = v_stage
+          THEN 1.3
+        ELSE 1
+      END::DOUBLE PRECISION AS stage,
+      (1 + LEAST(COALESCE(e.interactions, 0), 10) * 0.1)::DOUBLE PRECISION AS engagement
+    FROM posts p
+    LEFT JOIN profiles a ON a.id = p.author_id
+    LEFT JOIN engaged e ON e.author_id = p.author_id
+    WHERE p.is_hidden = false
+      AND p.status = 'published'
+      AND p.created_at <= p_as_of
+  ),
+  ranked AS (
+    SELECT f.*, f.base * f.industry * f.stage * f.engagement AS rank_score
+    FROM factors f
+  )
+  SELECT r.id, r.rank_score, r.base, r.industry, r.stage, r.engagement
+  FROM ranked r
+  WHERE p_cursor_id IS NULL
+    OR r.rank_score < p_cursor_score
+    OR (r.rank_score = p_cursor_score AND r.id < p_cursor_id)
+  ORDER BY r.rank_score DESC, r.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
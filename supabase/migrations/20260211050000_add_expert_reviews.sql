@@ -0,0 +1,240 @@
+-- Migration: Add Expert Reviews
+-- Purpose: Give members a quality signal on expert profiles. A member whose
+-- collaboration or coffee chat request was accepted can leave one 1-5 star
+-- review with text for that request; the expert can post a public reply.
+--
+-- expert_profiles gains rating_average and review_count, maintained by
+-- trigger so the expert list can be sorted by rating. Clients cannot write
+-- these columns directly.
+
+-- ============================================
+-- TABLE: expert_reviews
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS expert_reviews (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+
+  -- One review per accepted request
+  collaboration_request_id BIGINT NOT NULL UNIQUE
+    REFERENCES collaboration_requests(id) ON DELETE CASCADE,
+  expert_profile_id UUID NOT NULL REFERENCES expert_profiles(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  -- Review
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  content TEXT NOT NULL CHECK (char_length(btrim(content)) BETWEEN 1 AND 2000),
+
+  -- Public reply from the expert
+  expert_reply TEXT CHECK (
+    expert_reply IS NULL OR char_length(btrim(expert_reply)) BETWEEN 1 AND 2000
+  ),
+  replied_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Reviews on an expert profile, newest first
+CREATE INDEX IF NOT EXISTS expert_reviews_expert_idx
+  ON expert_reviews (expert_profile_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS expert_reviews_reviewer_idx
+  ON expert_reviews (reviewer_id);
+
+CREATE TRIGGER expert_reviews_updated_at
+  BEFORE UPDATE ON expert_reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- expert_profiles: rating aggregate
+-- ============================================
+
+ALTER TABLE expert_profiles
+  ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2),
+  ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+-- Sort by rating: best rated first, unrated last
+CREATE INDEX IF NOT EXISTS expert_profiles_rating_idx
+  ON expert_profiles (rating_average DESC NULLS LAST, review_count DESC)
+  WHERE status = 'approved';
+
+-- ============================================
+-- Trigger function: guard review updates
+-- ============================================
+-- The reviewer may edit the rating and text, the expert only the reply.
+-- Which request, expert and reviewer a review belongs to never changes.
+
+CREATE OR REPLACE FUNCTION guard_expert_review_update()
+RETURNS trigger AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_is_expert BOOLEAN;
+BEGIN
+  IF NEW.collaboration_request_id <> OLD.collaboration_request_id
+    OR NEW.expert_profile_id <> OLD.expert_profile_id
+    OR NEW.reviewer_id <> OLD.reviewer_id THEN
+    RAISE EXCEPTION 'Reviews cannot be moved to another request';
+  END IF;
+
+  -- Service role and admins are not restricted
+  IF v_user_id IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM expert_profiles
+    WHERE id = NEW.expert_profile_id AND user_id = v_user_id
+  ) INTO v_is_expert;
+
+  IF v_user_id <> OLD.reviewer_id
+    AND (NEW.rating <> OLD.rating OR NEW.content <> OLD.content) THEN
+    RAISE EXCEPTION 'Only the reviewer can edit a review';
+  END IF;
+
+  IF NEW.expert_reply IS DISTINCT FROM OLD.expert_reply THEN
+    IF NOT v_is_expert THEN
+      RAISE EXCEPTION 'Only the expert can reply to a review';
+    END IF;
+    NEW.replied_at := CASE WHEN NEW.expert_reply IS NULL THEN NULL ELSE now() END;
+  ELSE
+    NEW.replied_at := OLD.replied_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER expert_reviews_guard_trigger
+  BEFORE UPDATE ON expert_reviews
+  FOR EACH ROW EXECUTE FUNCTION guard_expert_review_update();
+
+-- ============================================
+-- Trigger function: rating aggregate
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_expert_rating()
+RETURNS trigger AS $$
+DECLARE
+  v_expert_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_expert_id := OLD.expert_profile_id;
+  ELSE
+    v_expert_id := NEW.expert_profile_id;
+  END IF;
+
+  UPDATE expert_profiles ep
+  SET rating_average = agg.rating_average,
+      review_count = agg.review_count
+  FROM (
+    SELECT round(avg(rating), 2) AS rating_average, count(*)::INTEGER AS review_count
+    FROM expert_reviews
+    WHERE expert_profile_id = v_expert_id
+  ) agg
+  WHERE ep.id = v_expert_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER expert_reviews_rating_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF rating ON expert_reviews
+  FOR EACH ROW EXECUTE FUNCTION update_expert_rating();
+
+-- ============================================
+-- Trigger function: protect rating aggregate
+-- ============================================
+-- Experts may update their own profile, but not their rating. Direct
+-- updates (trigger depth 1) keep the stored values; the aggregate trigger
+-- above runs one level deeper and passes through.
+
+CREATE OR REPLACE FUNCTION protect_expert_rating()
+RETURNS trigger AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.rating_average := OLD.rating_average;
+    NEW.review_count := OLD.review_count;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER expert_profiles_protect_rating_trigger
+  BEFORE UPDATE OF rating_average, review_count ON expert_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_expert_rating();
+
+-- ============================================
+-- RLS: expert_reviews
+-- ============================================
+
+ALTER TABLE expert_reviews ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Reviews are public to approved members
+CREATE POLICY expert_reviews_select ON expert_reviews
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT is_approved_member())
+    OR reviewer_id = (SELECT auth.uid())
+    OR (SELECT is_admin())
+  );
+
+-- INSERT: The sender of an accepted request to this expert
+CREATE POLICY expert_reviews_insert ON expert_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    reviewer_id = (SELECT auth.uid())
+    AND expert_reply IS NULL
+    AND EXISTS (
+      SELECT 1 FROM collaboration_requests cr
+      WHERE cr.id = collaboration_request_id
+        AND cr.sender_id = (SELECT auth.uid())
+        AND cr.expert_profile_id = expert_reviews.expert_profile_id
+        AND cr.status = 'accepted'
+    )
+  );
+
+-- UPDATE: The reviewer (rating, text) and the expert (reply); see the guard trigger
+CREATE POLICY expert_reviews_update ON expert_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (
+    reviewer_id = (SELECT auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+REVOKE UPDATE ON expert_reviews FROM authenticated;
+GRANT UPDATE (rating, content, expert_reply) ON expert_reviews TO authenticated;
+
+-- DELETE: The reviewer or admins
+CREATE POLICY expert_reviews_delete ON expert_reviews
+  FOR DELETE
+  TO authenticated
+  USING (
+    reviewer_id = (SELECT auth.uid())
+    OR (SELECT is_admin())
+  );
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+
+COMMENT ON TABLE expert_reviews IS 'Star ratings and reviews left after accepted collaboration requests, with an optional expert reply';
+COMMENT ON COLUMN expert_reviews.collaboration_request_id IS 'Accepted request the review is for (one review per request)';
+COMMENT ON COLUMN expert_reviews.rating IS 'Star rating from 1 to 5';
+COMMENT ON COLUMN expert_reviews.expert_reply IS 'Public reply from the expert';
+COMMENT ON COLUMN expert_reviews.replied_at IS 'When the expert last changed their reply (set by trigger)';
+COMMENT ON COLUMN expert_profiles.rating_average IS 'Average review rating, NULL without reviews (maintained by trigger)';
+COMMENT ON COLUMN expert_profiles.review_count IS 'Number of reviews (maintained by trigger)';
+COMMENT ON FUNCTION guard_expert_review_update() IS 'Lets reviewers edit rating and text and experts edit their reply';
+COMMENT ON FUNCTION update_expert_rating() IS 'Recomputes rating_average and review_count of an expert profile';
+COMMENT ON FUNCTION protect_expert_rating() IS 'Keeps clients from writing rating_average and review_count directly';
+COMMENT ON POLICY expert_reviews_select ON expert_reviews IS 'Approved members can read reviews';
+COMMENT ON POLICY expert_reviews_insert ON expert_reviews IS 'Senders of accepted requests can review the expert once per request';
+COMMENT ON POLICY expert_reviews_update ON expert_reviews IS 'Reviewers can edit their review, experts can reply';
+COMMENT ON POLICY expert_reviews_delete ON expert_reviews IS 'Reviewers and admins can delete reviews';
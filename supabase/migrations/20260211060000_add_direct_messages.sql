@@ -0,0 +1,517 @@
+-- Migration: Add Direct Messages
+-- Purpose: 1:1 conversations between two members. A conversation opens
+-- automatically when a collaboration or coffee chat request is accepted and
+-- starts with the request message and the expert's response.
+--
+-- Only the two participants can read a conversation and its messages.
+-- Conversations are created and maintained by triggers; clients only send
+-- messages and mark conversations as read (read receipts). Image attachments
+-- live in the private message-attachments bucket.
+
+-- ============================================
+-- TABLE: conversations
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+
+  -- Participants, stored in a fixed order so each pair has one conversation
+  user_one_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_two_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  -- Latest accepted request that opened (or reopened) the conversation
+  collaboration_request_id BIGINT
+    REFERENCES collaboration_requests(id) ON DELETE SET NULL,
+
+  -- Read receipts: each participant has read everything up to this time
+  user_one_last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_two_last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- Inbox order
+  last_message_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT conversations_participants_ordered CHECK (user_one_id < user_two_id),
+  CONSTRAINT conversations_participants_unique UNIQUE (user_one_id, user_two_id)
+);
+
+CREATE INDEX IF NOT EXISTS conversations_user_one_idx
+  ON conversations (user_one_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS conversations_user_two_idx
+  ON conversations (user_two_id, last_message_at DESC);
+
+CREATE TRIGGER conversations_updated_at
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- TABLE: messages
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS messages (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  conversation_id BIGINT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  -- Text, an image attachment or both
+  content TEXT CHECK (content IS NULL OR char_length(btrim(content)) BETWEEN 1 AND 4000),
+  image_path TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT messages_not_empty CHECK (content IS NOT NULL OR image_path IS NOT NULL)
+);
+
+-- Messages of a conversation, newest first
+CREATE INDEX IF NOT EXISTS messages_conversation_idx
+  ON messages (conversation_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS messages_sender_idx
+  ON messages (sender_id);
+
+-- ============================================
+-- Helper: conversation membership
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_conversation_participant(p_conversation_id BIGINT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE id = p_conversation_id
+      AND auth.uid() IN (user_one_id, user_two_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_conversation_participant(BIGINT) TO authenticated;
+
+-- ============================================
+-- Trigger function: new message
+-- ============================================
+-- Moves the conversation to the top of both inboxes. Sending a message
+-- also means the sender has read the conversation.
+
+CREATE OR REPLACE FUNCTION handle_new_message()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE conversations
+  SET last_message_at = GREATEST(last_message_at, NEW.created_at),
+      user_one_last_read_at = CASE
+        WHEN user_one_id = NEW.sender_id THEN GREATEST(user_one_last_read_at, NEW.created_at)
+        ELSE user_one_last_read_at
+      END,
+      user_two_last_read_at = CASE
+        WHEN user_two_id = NEW.sender_id THEN GREATEST(user_two_last_read_at, NEW.created_at)
+        ELSE user_two_last_read_at
+      END
+  WHERE id = NEW.conversation_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER messages_new_message_trigger
+  AFTER INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION handle_new_message();
+
+-- ============================================
+-- Trigger function: open conversation on accept
+-- ============================================
+-- When an expert accepts a collaboration or coffee chat request, the pair
+-- gets a conversation (or their existing one is reused) seeded with the
+-- request message and the expert's response.
+
+CREATE OR REPLACE FUNCTION open_conversation_on_accept()
+RETURNS trigger AS $$
+DECLARE
+  v_conversation_id BIGINT;
+  v_accepted_at TIMESTAMPTZ := COALESCE(NEW.responded_at, now());
+BEGIN
+  IF NEW.status <> 'accepted' OR OLD.status = 'accepted' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.sender_id = NEW.recipient_id THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO conversations (user_one_id, user_two_id, collaboration_request_id)
+  VALUES (
+    LEAST(NEW.sender_id, NEW.recipient_id),
+    GREATEST(NEW.sender_id, NEW.recipient_id),
+    NEW.id
+  )
+  ON CONFLICT (user_one_id, user_two_id) DO UPDATE
+    SET collaboration_request_id = EXCLUDED.collaboration_request_id
+  RETURNING id INTO v_conversation_id;
+
+  -- The request itself, as sent
+  INSERT INTO messages (conversation_id, sender_id, content, created_at)
+  VALUES (
+    v_conversation_id,
+    NEW.sender_id,
+    left(NEW.subject || E'\n\n' || NEW.message, 4000),
+    LEAST(NEW.created_at, v_accepted_at)
+  );
+
+  -- The expert's response, if they wrote one
+  IF NULLIF(btrim(NEW.response_message), '') IS NOT NULL THEN
+    INSERT INTO messages (conversation_id, sender_id, content, created_at)
+    VALUES (
+      v_conversation_id,
+      NEW.recipient_id,
+      left(NEW.response_message, 4000),
+      v_accepted_at
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER collaboration_requests_open_conversation_trigger
+  AFTER UPDATE OF status ON collaboration_requests
+  FOR EACH ROW EXECUTE FUNCTION open_conversation_on_accept();
+
+-- ============================================
+-- Accepted request notification: link to the conversation
+-- ============================================
+-- Same as 20260206000001_add_collaboration_notification_triggers.sql, except
+-- that the accepted notification now opens the conversation with the expert
+-- instead of the expert list.
+
+CREATE OR REPLACE FUNCTION handle_collaboration_request_notification()
+RETURNS trigger AS $$
+DECLARE
+  sender_name TEXT;
+  recipient_name TEXT;
+  type_label TEXT;
+  notification_title TEXT;
+  notification_body TEXT;
+  target_user_id UUID;
+  notification_type_value notification_type;
+BEGIN
+  -- Determine the human-readable type label
+  IF NEW.type = 'coffee_chat' THEN
+    type_label := 'coffee chat';
+  ELSE
+    type_label := 'collaboration proposal';
+  END IF;
+
+  -- ON INSERT: Notify the recipient about the new request
+  IF TG_OP = 'INSERT' THEN
+    -- Get sender name
+    SELECT COALESCE(full_name, 'Someone') INTO sender_name
+    FROM profiles WHERE id = NEW.sender_id;
+
+    notification_title := sender_name || ' sent you a ' || type_label || ' request';
+    notification_body := NEW.subject;
+    target_user_id := NEW.recipient_id;
+    notification_type_value := 'new_collaboration_request';
+
+    INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+    VALUES (
+      target_user_id,
+      notification_type_value,
+      notification_title,
+      notification_body,
+      'collaboration_request',
+      NEW.id::text,
+      jsonb_build_object('sender_id', NEW.sender_id, 'type', NEW.type::text, 'link', '/experts')
+    );
+
+    RETURN NEW;
+  END IF;
+
+  -- ON UPDATE: Notify the sender when status changes to accepted or declined
+  IF TG_OP = 'UPDATE' THEN
+    -- Only trigger on status change
+    IF OLD.status = NEW.status THEN
+      RETURN NEW;
+    END IF;
+
+    -- Get recipient name (the expert who responded)
+    SELECT COALESCE(full_name, 'Someone') INTO recipient_name
+    FROM profiles WHERE id = NEW.recipient_id;
+
+    IF NEW.status = 'accepted' THEN
+      notification_title := recipient_name || ' accepted your ' || type_label || ' request';
+      notification_body := NEW.response_message;
+      target_user_id := NEW.sender_id;
+      notification_type_value := 'collaboration_accepted';
+
+      INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+      VALUES (
+        target_user_id,
+        notification_type_value,
+        notification_title,
+        notification_body,
+        'collaboration_request',
+        NEW.id::text,
+        jsonb_build_object(
+          'recipient_id', NEW.recipient_id,
+          'type', NEW.type::text,
+          'link', '/messages?with=' || NEW.recipient_id::text
+        )
+      );
+
+    ELSIF NEW.status = 'declined' THEN
+      notification_title := recipient_name || ' declined your ' || type_label || ' request';
+      notification_body := NEW.response_message;
+      target_user_id := NEW.sender_id;
+      notification_type_value := 'collaboration_declined';
+
+      INSERT INTO notifications (user_id, type, title, body, reference_type, reference_id, metadata)
+      VALUES (
+        target_user_id,
+        notification_type_value,
+        notification_title,
+        notification_body,
+        'collaboration_request',
+        NEW.id::text,
+        jsonb_build_object('recipient_id', NEW.recipient_id, 'type', NEW.type::text, 'link', '/experts')
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RPC: mark_conversation_read
+-- ============================================
+-- Moves the caller's read pointer to now. The other participant sees the
+-- change as a conversations UPDATE (read receipt).
+
+CREATE OR REPLACE FUNCTION mark_conversation_read(p_conversation_id BIGINT)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE conversations
+  SET user_one_last_read_at = CASE
+        WHEN user_one_id = v_user_id THEN now() ELSE user_one_last_read_at
+      END,
+      user_two_last_read_at = CASE
+        WHEN user_two_id = v_user_id THEN now() ELSE user_two_last_read_at
+      END
+  WHERE id = p_conversation_id
+    AND v_user_id IN (user_one_id, user_two_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_conversation_read(BIGINT) TO authenticated;
+
+-- ============================================
+-- RPC: get_conversations
+-- ============================================
+-- The caller's inbox: the other participant, the latest message and the
+-- number of unread messages, most recent conversation first.
+
+CREATE OR REPLACE FUNCTION get_conversations()
+RETURNS TABLE (
+  id BIGINT,
+  collaboration_request_id BIGINT,
+  other_user_id UUID,
+  other_user_name TEXT,
+  other_user_avatar_url TEXT,
+  other_user_company TEXT,
+  other_last_read_at TIMESTAMPTZ,
+  last_message_content TEXT,
+  last_message_has_image BOOLEAN,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMPTZ,
+  unread_count INTEGER
+) AS $$
+  WITH mine AS (
+    SELECT
+      c.*,
+      CASE WHEN c.user_one_id = auth.uid() THEN c.user_two_id ELSE c.user_one_id END AS other_id,
+      CASE WHEN c.user_one_id = auth.uid() THEN c.user_one_last_read_at ELSE c.user_two_last_read_at END AS my_last_read_at,
+      CASE WHEN c.user_one_id = auth.uid() THEN c.user_two_last_read_at ELSE c.user_one_last_read_at END AS their_last_read_at
+    FROM conversations c
+    WHERE auth.uid() IN (c.user_one_id, c.user_two_id)
+  )
+  SELECT
+    m.id,
+    m.collaboration_request_id,
+    m.other_id,
+    p.full_name,
+    p.avatar_url,
+    p.company_name,
+    m.their_last_read_at,
+    last_msg.content,
+    last_msg.image_path IS NOT NULL,
+    last_msg.sender_id,
+    m.last_message_at,
+    (
+      SELECT count(*)::INTEGER FROM messages msg
+      WHERE msg.conversation_id = m.id
+        AND msg.sender_id <> auth.uid()
+        AND msg.created_at > m.my_last_read_at
+    )
+  FROM mine m
+  LEFT JOIN profiles p ON p.id = m.other_id
+  LEFT JOIN LATERAL (
+    SELECT msg.content, msg.image_path, msg.sender_id
+    FROM messages msg
+    WHERE msg.conversation_id = m.id
+    ORDER BY msg.created_at DESC, msg.id DESC
+    LIMIT 1
+  ) last_msg ON true
+  ORDER BY m.last_message_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_conversations() TO authenticated;
+
+-- ============================================
+-- RPC: get_unread_message_count
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_unread_message_count()
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM conversations c
+  JOIN messages msg ON msg.conversation_id = c.id
+  WHERE auth.uid() IN (c.user_one_id, c.user_two_id)
+    AND msg.sender_id <> auth.uid()
+    AND msg.created_at > CASE
+      WHEN c.user_one_id = auth.uid() THEN c.user_one_last_read_at
+      ELSE c.user_two_last_read_at
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_unread_message_count() TO authenticated;
+
+-- ============================================
+-- RLS: conversations
+-- ============================================
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: The two participants
+CREATE POLICY conversations_select ON conversations
+  FOR SELECT
+  TO authenticated
+  USING ((SELECT auth.uid()) IN (user_one_id, user_two_id));
+
+-- No INSERT/UPDATE/DELETE policies: conversations are opened by trigger and
+-- read receipts go through mark_conversation_read()
+
+-- ============================================
+-- RLS: messages
+-- ============================================
+
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: The two participants
+CREATE POLICY messages_select ON messages
+  FOR SELECT
+  TO authenticated
+  USING ((SELECT is_conversation_participant(conversation_id)));
+
+-- INSERT: Participants send messages as themselves
+CREATE POLICY messages_insert ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = (SELECT auth.uid())
+    AND (SELECT is_conversation_participant(conversation_id))
+  );
+
+-- created_at is always the server's: a client-picked time could pin the
+-- conversation to the top of the other inbox or slip in behind its read
+-- pointer. The accept trigger still seeds messages with their request times.
+REVOKE INSERT ON messages FROM authenticated;
+GRANT INSERT (conversation_id, sender_id, content, image_path) ON messages TO authenticated;
+
+-- ============================================
+-- Realtime: messages and conversations
+-- ============================================
+-- New messages stream into open conversations and the unread badge;
+-- conversation updates carry read receipts and inbox order.
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH v_table IN ARRAY ARRAY['messages', 'conversations'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+      END IF;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- Storage: message-attachments
+-- ============================================
+-- Private bucket; files live under {conversation_id}/{user_id}/ and are
+-- shown through signed URLs.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,  -- Private: participants only
+  5242880,  -- 5MB limit
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- SELECT: Participants of the conversation
+CREATE POLICY "Participants can view message attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'message-attachments'
+  AND (SELECT is_conversation_participant(((storage.foldername(name))[1])::BIGINT))
+);
+
+-- INSERT: Participants upload to their own folder of the conversation
+CREATE POLICY "Participants can upload message attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'message-attachments'
+  AND (storage.foldername(name))[2] = (SELECT auth.uid())::text
+  AND (SELECT is_conversation_participant(((storage.foldername(name))[1])::BIGINT))
+);
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+
+COMMENT ON TABLE conversations IS '1:1 conversations, opened when a collaboration or coffee chat request is accepted';
+COMMENT ON COLUMN conversations.user_one_id IS 'Participant with the smaller id (user_one_id < user_two_id)';
+COMMENT ON COLUMN conversations.collaboration_request_id IS 'Latest accepted request between the participants';
+COMMENT ON COLUMN conversations.user_one_last_read_at IS 'user_one has read all messages up to this time';
+COMMENT ON COLUMN conversations.user_two_last_read_at IS 'user_two has read all messages up to this time';
+COMMENT ON COLUMN conversations.last_message_at IS 'Time of the latest message (maintained by trigger)';
+COMMENT ON TABLE messages IS 'Messages of 1:1 conversations with optional image attachment';
+COMMENT ON COLUMN messages.image_path IS 'Path in the private message-attachments bucket';
+COMMENT ON FUNCTION is_conversation_participant(BIGINT) IS 'Returns true if the current user takes part in the conversation';
+COMMENT ON FUNCTION handle_new_message() IS 'Updates last_message_at and the sender''s read pointer';
+COMMENT ON FUNCTION open_conversation_on_accept() IS 'Opens a conversation seeded with the request when it is accepted';
+COMMENT ON FUNCTION mark_conversation_read(BIGINT) IS 'Marks a conversation as read for the current user';
+COMMENT ON FUNCTION get_conversations() IS 'Inbox of the current user with last message and unread count';
+COMMENT ON FUNCTION get_unread_message_count() IS 'Number of unread messages across all conversations of the current user';
+COMMENT ON POLICY conversations_select ON conversations IS 'Participants can read their conversations';
+COMMENT ON POLICY messages_select ON messages IS 'Participants can read messages of their conversations';
+COMMENT ON POLICY messages_insert ON messages IS 'Participants can send messages as themselves';
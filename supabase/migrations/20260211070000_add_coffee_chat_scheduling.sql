@@ -0,0 +1,320 @@
+-- Migration: Add Coffee Chat Scheduling
+-- Purpose: Experts publish weekly availability and blackout dates, and coffee
+-- chat requests book a concrete 30-minute slot instead of a coarse preferred
+-- time in free text.
+--
+-- All availability is wall-clock time in Asia/Seoul (no DST). A slot is only
+-- booked when the expert accepts the request; an exclusion constraint makes
+-- the accept atomic, so two requests for overlapping slots can never both be
+-- accepted. Pending requests may target the same slot; whichever is accepted
+-- first wins.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist SCHEMA public;
+
+-- ============================================
+-- TABLE: expert_availability
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS expert_availability (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  expert_profile_id UUID NOT NULL REFERENCES expert_profiles(id) ON DELETE CASCADE,
+
+  -- Day of week as in EXTRACT(DOW): 0 = Sunday ... 6 = Saturday
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+
+  -- Wall-clock window in Asia/Seoul
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT expert_availability_window_valid CHECK (end_time > start_time),
+  CONSTRAINT expert_availability_window_unique UNIQUE (expert_profile_id, weekday, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS expert_availability_expert_idx
+  ON expert_availability (expert_profile_id, weekday);
+
+-- ============================================
+-- TABLE: expert_blackout_dates
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS expert_blackout_dates (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  expert_profile_id UUID NOT NULL REFERENCES expert_profiles(id) ON DELETE CASCADE,
+
+  -- Calendar date in Asia/Seoul
+  date DATE NOT NULL,
+  reason TEXT CHECK (reason IS NULL OR char_length(reason) <= 200),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT expert_blackout_dates_unique UNIQUE (expert_profile_id, date)
+);
+
+-- ============================================
+-- COLUMNS: collaboration_requests
+-- ============================================
+
+ALTER TABLE collaboration_requests
+  ADD COLUMN IF NOT EXISTS meeting_format TEXT
+    CHECK (meeting_format IN ('video_call', 'phone', 'in_person')),
+  ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS scheduled_end TIMESTAMPTZ;
+
+ALTER TABLE collaboration_requests
+  ADD CONSTRAINT collaboration_requests_schedule_valid CHECK (
+    (scheduled_start IS NULL AND scheduled_end IS NULL)
+    OR (
+      scheduled_start IS NOT NULL
+      AND scheduled_end > scheduled_start
+      AND type = 'coffee_chat'
+      AND expert_profile_id IS NOT NULL
+    )
+  );
+
+-- No two accepted requests may hold overlapping slots of the same expert.
+-- Accepting a request whose slot is already taken fails with exclusion_violation.
+ALTER TABLE collaboration_requests
+  ADD CONSTRAINT collaboration_requests_no_double_booking
+  EXCLUDE USING gist (
+    expert_profile_id WITH =,
+    tstzrange(scheduled_start, scheduled_end, '[)') WITH &&
+  )
+  WHERE (status = 'accepted' AND scheduled_start IS NOT NULL);
+
+-- ============================================
+-- FUNCTION: validate the requested slot
+-- ============================================
+
+CREATE OR REPLACE FUNCTION validate_coffee_chat_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_local_start TIMESTAMP;
+  v_local_end TIMESTAMP;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.scheduled_start IS DISTINCT FROM OLD.scheduled_start
+       OR NEW.scheduled_end IS DISTINCT FROM OLD.scheduled_end
+       OR NEW.meeting_format IS DISTINCT FROM OLD.meeting_format THEN
+      RAISE EXCEPTION 'The scheduled slot of a request cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.scheduled_start IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.scheduled_start <= now() THEN
+    RAISE EXCEPTION 'The requested slot is in the past';
+  END IF;
+
+  IF NEW.scheduled_end - NEW.scheduled_start <> INTERVAL '30 minutes' THEN
+    RAISE EXCEPTION 'Coffee chat slots are 30 minutes long';
+  END IF;
+
+  v_local_start := NEW.scheduled_start AT TIME ZONE 'Asia/Seoul';
+  v_local_end := NEW.scheduled_end AT TIME ZONE 'Asia/Seoul';
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM expert_availability a
+    WHERE a.expert_profile_id = NEW.expert_profile_id
+      AND a.weekday = EXTRACT(DOW FROM v_local_start)
+      AND v_local_start::DATE = v_local_end::DATE
+      AND v_local_start::TIME >= a.start_time
+      AND v_local_end::TIME <= a.end_time
+  ) THEN
+    RAISE EXCEPTION 'The expert is not available at the requested time';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM expert_blackout_dates b
+    WHERE b.expert_profile_id = NEW.expert_profile_id
+      AND b.date = v_local_start::DATE
+  ) THEN
+    RAISE EXCEPTION 'The expert is not available on the requested date';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM collaboration_requests cr
+    WHERE cr.expert_profile_id = NEW.expert_profile_id
+      AND cr.status = 'accepted'
+      AND tstzrange(cr.scheduled_start, cr.scheduled_end, '[)')
+        && tstzrange(NEW.scheduled_start, NEW.scheduled_end, '[)')
+  ) THEN
+    RAISE EXCEPTION 'The requested slot is already booked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collaboration_requests_validate_slot_trigger ON collaboration_requests;
+
+CREATE TRIGGER collaboration_requests_validate_slot_trigger
+  BEFORE INSERT OR UPDATE OF scheduled_start, scheduled_end, meeting_format
+  ON collaboration_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_coffee_chat_slot();
+
+-- ============================================
+-- RPC: get_available_slots
+-- ============================================
+
+-- Free 30-minute slots of an expert between two Seoul calendar dates
+-- (inclusive, at most 62 days). Runs as definer because accepted requests of
+-- other members are not visible to the caller.
+CREATE OR REPLACE FUNCTION get_available_slots(
+  p_expert_profile_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (
+  slot_start TIMESTAMPTZ,
+  slot_end TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(
+      p_from::TIMESTAMP,
+      LEAST(p_to, p_from + 62)::TIMESTAMP,
+      INTERVAL '1 day'
+    ) AS d
+  ),
+  candidates AS (
+    SELECT DISTINCT s.local_start AT TIME ZONE 'Asia/Seoul' AS slot_start
+    FROM days
+    JOIN expert_availability a
+      ON a.expert_profile_id = p_expert_profile_id
+     AND a.weekday = EXTRACT(DOW FROM days.day)
+    CROSS JOIN LATERAL generate_series(
+      days.day + a.start_time,
+      days.day + a.end_time - INTERVAL '30 minutes',
+      INTERVAL '30 minutes'
+    ) AS s(local_start)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM expert_blackout_dates b
+      WHERE b.expert_profile_id = p_expert_profile_id
+        AND b.date = days.day
+    )
+  )
+  SELECT c.slot_start, c.slot_start + INTERVAL '30 minutes' AS slot_end
+  FROM candidates c
+  WHERE auth.uid() IS NOT NULL
+    AND c.slot_start > now()
+    AND NOT EXISTS (
+      SELECT 1
+      FROM collaboration_requests cr
+      WHERE cr.expert_profile_id = p_expert_profile_id
+        AND cr.status = 'accepted'
+        AND tstzrange(cr.scheduled_start, cr.scheduled_end, '[)')
+          && tstzrange(c.slot_start, c.slot_start + INTERVAL '30 minutes', '[)')
+    )
+  ORDER BY c.slot_start;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_available_slots(UUID, DATE, DATE) TO authenticated;
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+
+ALTER TABLE expert_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expert_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Approved members see availability; experts always see their own
+CREATE POLICY expert_availability_select ON expert_availability
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT is_approved_member())
+    OR EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- INSERT/UPDATE/DELETE: Only the expert who owns the profile
+CREATE POLICY expert_availability_manage ON expert_availability
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY expert_blackout_dates_select ON expert_blackout_dates
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT is_approved_member())
+    OR EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY expert_blackout_dates_manage ON expert_blackout_dates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE expert_availability IS 'Weekly availability windows of experts for coffee chats';
+COMMENT ON COLUMN expert_availability.weekday IS 'Day of week, 0 = Sunday ... 6 = Saturday';
+COMMENT ON COLUMN expert_availability.start_time IS 'Window start, wall-clock time in Asia/Seoul';
+COMMENT ON COLUMN expert_availability.end_time IS 'Window end, wall-clock time in Asia/Seoul';
+COMMENT ON TABLE expert_blackout_dates IS 'Dates on which an expert takes no coffee chats';
+COMMENT ON COLUMN expert_blackout_dates.date IS 'Calendar date in Asia/Seoul';
+COMMENT ON COLUMN collaboration_requests.meeting_format IS 'Requested meeting format: video_call, phone or in_person';
+COMMENT ON COLUMN collaboration_requests.scheduled_start IS 'Start of the requested coffee chat slot';
+COMMENT ON COLUMN collaboration_requests.scheduled_end IS 'End of the requested coffee chat slot';
+COMMENT ON CONSTRAINT collaboration_requests_no_double_booking ON collaboration_requests IS 'Accepted coffee chats of an expert never overlap';
+COMMENT ON FUNCTION validate_coffee_chat_slot() IS 'Checks a requested slot against availability, blackout dates and bookings; slots are immutable';
+COMMENT ON FUNCTION get_available_slots(UUID, DATE, DATE) IS 'Free 30-minute coffee chat slots of an expert between two Seoul dates';
+COMMENT ON POLICY expert_availability_select ON expert_availability IS 'Approved members can read expert availability';
+COMMENT ON POLICY expert_availability_manage ON expert_availability IS 'Experts manage their own availability';
+COMMENT ON POLICY expert_blackout_dates_select ON expert_blackout_dates IS 'Approved members can read expert blackout dates';
+COMMENT ON POLICY expert_blackout_dates_manage ON expert_blackout_dates IS 'Experts manage their own blackout dates';
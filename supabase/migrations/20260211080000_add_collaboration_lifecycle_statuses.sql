@@ -0,0 +1,9 @@
+-- Migration: Add Collaboration Lifecycle Statuses
+-- Purpose: Accepted collaboration requests move on through in_progress,
+-- completed and disputed. The values are added in their own migration
+-- because the next one uses them in constraints and policies, and a new enum
+-- value cannot be used in the transaction that adds it.
+
+ALTER TYPE collaboration_status ADD VALUE IF NOT EXISTS 'in_progress' AFTER 'accepted';
+ALTER TYPE collaboration_status ADD VALUE IF NOT EXISTS 'completed' AFTER 'in_progress';
+ALTER TYPE collaboration_status ADD VALUE IF NOT EXISTS 'disputed' AFTER 'completed';
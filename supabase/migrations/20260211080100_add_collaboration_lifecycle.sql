@@ -0,0 +1,490 @@
+-- Migration: Add Collaboration Lifecycle
+-- Purpose: Collaboration requests no longer stop at accepted. Work moves
+-- through in_progress to completed, and either side can raise a dispute.
+-- Scope, budget and timeline become structured fields that both sides can
+-- propose while the request is being negotiated, and every status change and
+-- proposal is recorded with the member who made it.
+--
+-- Allowed transitions (enforced by trigger):
+--   pending     -> accepted, declined (recipient), cancelled (sender)
+--   accepted    -> in_progress, cancelled (either side)
+--   in_progress -> completed, disputed (either side)
+--   disputed    -> in_progress, completed (either side)
+--   declined, cancelled and completed are final.
+
+-- ============================================
+-- COLUMNS: collaboration_requests
+-- ============================================
+
+ALTER TABLE collaboration_requests
+  ADD COLUMN IF NOT EXISTS scope TEXT
+    CHECK (scope IS NULL OR char_length(scope) <= 2000),
+  ADD COLUMN IF NOT EXISTS budget_min BIGINT CHECK (budget_min IS NULL OR budget_min >= 0),
+  ADD COLUMN IF NOT EXISTS budget_max BIGINT CHECK (budget_max IS NULL OR budget_max >= 0),
+  ADD COLUMN IF NOT EXISTS timeline_start DATE,
+  ADD COLUMN IF NOT EXISTS timeline_end DATE,
+  -- Who made the current proposal and when (maintained by trigger)
+  ADD COLUMN IF NOT EXISTS proposed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS proposal_updated_at TIMESTAMPTZ;
+
+ALTER TABLE collaboration_requests
+  ADD CONSTRAINT collaboration_requests_budget_range CHECK (
+    budget_min IS NULL OR budget_max IS NULL OR budget_max >= budget_min
+  ),
+  ADD CONSTRAINT collaboration_requests_timeline_range CHECK (
+    timeline_start IS NULL OR timeline_end IS NULL OR timeline_end >= timeline_start
+  );
+
+-- ============================================
+-- TABLE: collaboration_request_events
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS collaboration_request_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  collaboration_request_id BIGINT NOT NULL
+    REFERENCES collaboration_requests(id) ON DELETE CASCADE,
+
+  -- Member who made the change; NULL for system changes
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+
+  kind TEXT NOT NULL CHECK (kind IN ('created', 'status_changed', 'proposal_updated')),
+  from_status collaboration_status,
+  to_status collaboration_status NOT NULL,
+
+  -- Response message for accept/decline, proposal snapshot for proposals
+  note TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS collaboration_request_events_request_idx
+  ON collaboration_request_events (collaboration_request_id, created_at);
+
+-- ============================================
+-- FUNCTION: status transitions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_valid_collaboration_transition(
+  p_from collaboration_status,
+  p_to collaboration_status,
+  p_is_sender BOOLEAN,
+  p_is_recipient BOOLEAN
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_from = 'pending' AND p_to IN ('accepted', 'declined') THEN p_is_recipient
+    WHEN p_from = 'pending' AND p_to = 'cancelled' THEN p_is_sender
+    WHEN p_from = 'accepted' AND p_to IN ('in_progress', 'cancelled') THEN p_is_sender OR p_is_recipient
+    WHEN p_from = 'in_progress' AND p_to IN ('completed', 'disputed') THEN p_is_sender OR p_is_recipient
+    WHEN p_from = 'disputed' AND p_to IN ('in_progress', 'completed') THEN p_is_sender OR p_is_recipient
+    ELSE FALSE
+  END;
+$$;
+
+-- ============================================
+-- TRIGGER: enforce transitions and proposals
+-- ============================================
+-- Runs for client updates only; updates made by other triggers (one level
+-- deeper) and by the service role pass through.
+
+CREATE OR REPLACE FUNCTION enforce_collaboration_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_proposal_changed BOOLEAN;
+BEGIN
+  IF pg_trigger_depth() > 1 OR v_uid IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT is_valid_collaboration_transition(
+       OLD.status,
+       NEW.status,
+       v_uid = OLD.sender_id,
+       v_uid = OLD.recipient_id
+     ) THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_proposal_changed :=
+    NEW.scope IS DISTINCT FROM OLD.scope
+    OR NEW.budget_min IS DISTINCT FROM OLD.budget_min
+    OR NEW.budget_max IS DISTINCT FROM OLD.budget_max
+    OR NEW.timeline_start IS DISTINCT FROM OLD.timeline_start
+    OR NEW.timeline_end IS DISTINCT FROM OLD.timeline_end;
+
+  IF v_proposal_changed THEN
+    IF OLD.status NOT IN ('pending', 'accepted') THEN
+      RAISE EXCEPTION 'The proposal can only be changed before work starts'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.proposed_by := v_uid;
+    NEW.proposal_updated_at := now();
+  ELSE
+    NEW.proposed_by := OLD.proposed_by;
+    NEW.proposal_updated_at := OLD.proposal_updated_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collaboration_requests_lifecycle_trigger ON collaboration_requests;
+
+CREATE TRIGGER collaboration_requests_lifecycle_trigger
+  BEFORE UPDATE ON collaboration_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_collaboration_lifecycle();
+
+-- The initial proposal belongs to the sender
+CREATE OR REPLACE FUNCTION set_initial_collaboration_proposal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.scope IS NOT NULL OR NEW.budget_min IS NOT NULL OR NEW.budget_max IS NOT NULL
+     OR NEW.timeline_start IS NOT NULL OR NEW.timeline_end IS NOT NULL THEN
+    NEW.proposed_by := NEW.sender_id;
+    NEW.proposal_updated_at := now();
+  ELSE
+    NEW.proposed_by := NULL;
+    NEW.proposal_updated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collaboration_requests_initial_proposal_trigger ON collaboration_requests;
+
+CREATE TRIGGER collaboration_requests_initial_proposal_trigger
+  BEFORE INSERT ON collaboration_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION set_initial_collaboration_proposal();
+
+-- ============================================
+-- TRIGGER: record events
+-- ============================================
+
+CREATE OR REPLACE FUNCTION record_collaboration_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO collaboration_request_events (
+      collaboration_request_id, actor_id, kind, to_status, created_at
+    )
+    VALUES (NEW.id, NEW.sender_id, 'created', NEW.status, NEW.created_at);
+
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO collaboration_request_events (
+      collaboration_request_id, actor_id, kind, from_status, to_status, note
+    )
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      'status_changed',
+      OLD.status,
+      NEW.status,
+      CASE WHEN NEW.status IN ('accepted', 'declined') THEN NEW.response_message END
+    );
+  END IF;
+
+  IF NEW.proposal_updated_at IS DISTINCT FROM OLD.proposal_updated_at THEN
+    INSERT INTO collaboration_request_events (
+      collaboration_request_id, actor_id, kind, from_status, to_status, metadata
+    )
+    VALUES (
+      NEW.id,
+      NEW.proposed_by,
+      'proposal_updated',
+      OLD.status,
+      NEW.status,
+      jsonb_build_object(
+        'scope', NEW.scope,
+        'budget_min', NEW.budget_min,
+        'budget_max', NEW.budget_max,
+        'timeline_start', NEW.timeline_start,
+        'timeline_end', NEW.timeline_end
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collaboration_requests_record_event_trigger ON collaboration_requests;
+
+CREATE TRIGGER collaboration_requests_record_event_trigger
+  AFTER INSERT OR UPDATE ON collaboration_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION record_collaboration_event();
+
+-- ============================================
+-- BACKFILL: events of existing requests
+-- ============================================
+
+INSERT INTO collaboration_request_events (
+  collaboration_request_id, actor_id, kind, to_status, created_at
+)
+SELECT id, sender_id, 'created', 'pending', created_at
+FROM collaboration_requests;
+
+INSERT INTO collaboration_request_events (
+  collaboration_request_id, actor_id, kind, from_status, to_status, note, created_at
+)
+SELECT
+  id,
+  CASE WHEN status = 'cancelled' THEN sender_id ELSE recipient_id END,
+  'status_changed',
+  'pending',
+  status,
+  CASE WHEN status IN ('accepted', 'declined') THEN response_message END,
+  COALESCE(responded_at, updated_at)
+FROM collaboration_requests
+WHERE status <> 'pending';
+
+-- ============================================
+-- Booked slots and reviews cover the whole lifecycle
+-- ============================================
+-- A coffee chat keeps its slot once accepted, and requests the expert took on
+-- stay reviewable after they move past accepted.
+
+ALTER TABLE collaboration_requests
+  DROP CONSTRAINT IF EXISTS collaboration_requests_no_double_booking;
+
+ALTER TABLE collaboration_requests
+  ADD CONSTRAINT collaboration_requests_no_double_booking
+  EXCLUDE USING gist (
+    expert_profile_id WITH =,
+    tstzrange(scheduled_start, scheduled_end, '[)') WITH &&
+  )
+  WHERE (
+    status IN ('accepted', 'in_progress', 'completed', 'disputed')
+    AND scheduled_start IS NOT NULL
+  );
+
+CREATE OR REPLACE FUNCTION validate_coffee_chat_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_local_start TIMESTAMP;
+  v_local_end TIMESTAMP;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.scheduled_start IS DISTINCT FROM OLD.scheduled_start
+       OR NEW.scheduled_end IS DISTINCT FROM OLD.scheduled_end
+       OR NEW.meeting_format IS DISTINCT FROM OLD.meeting_format THEN
+      RAISE EXCEPTION 'The scheduled slot of a request cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.scheduled_start IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.scheduled_start <= now() THEN
+    RAISE EXCEPTION 'The requested slot is in the past';
+  END IF;
+
+  IF NEW.scheduled_end - NEW.scheduled_start <> INTERVAL '30 minutes' THEN
+    RAISE EXCEPTION 'Coffee chat slots are 30 minutes long';
+  END IF;
+
+  v_local_start := NEW.scheduled_start AT TIME ZONE 'Asia/Seoul';
+  v_local_end := NEW.scheduled_end AT TIME ZONE 'Asia/Seoul';
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM expert_availability a
+    WHERE a.expert_profile_id = NEW.expert_profile_id
+      AND a.weekday = EXTRACT(DOW FROM v_local_start)
+      AND v_local_start::DATE = v_local_end::DATE
+      AND v_local_start::TIME >= a.start_time
+      AND v_local_end::TIME <= a.end_time
+  ) THEN
+    RAISE EXCEPTION 'The expert is not available at the requested time';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM expert_blackout_dates b
+    WHERE b.expert_profile_id = NEW.expert_profile_id
+      AND b.date = v_local_start::DATE
+  ) THEN
+    RAISE EXCEPTION 'The expert is not available on the requested date';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM collaboration_requests cr
+    WHERE cr.expert_profile_id = NEW.expert_profile_id
+      AND cr.status IN ('accepted', 'in_progress', 'completed', 'disputed')
+      AND tstzrange(cr.scheduled_start, cr.scheduled_end, '[)')
+        && tstzrange(NEW.scheduled_start, NEW.scheduled_end, '[)')
+  ) THEN
+    RAISE EXCEPTION 'The requested slot is already booked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_available_slots(
+  p_expert_profile_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (
+  slot_start TIMESTAMPTZ,
+  slot_end TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(
+      p_from::TIMESTAMP,
+      LEAST(p_to, p_from + 62)::TIMESTAMP,
+      INTERVAL '1 day'
+    ) AS d
+  ),
+  candidates AS (
+    SELECT DISTINCT s.local_start AT TIME ZONE 'Asia/Seoul' AS slot_start
+    FROM days
+    JOIN expert_availability a
+      ON a.expert_profile_id = p_expert_profile_id
+     AND a.weekday = EXTRACT(DOW FROM days.day)
+    CROSS JOIN LATERAL generate_series(
+      days.day + a.start_time,
+      days.day + a.end_time - INTERVAL '30 minutes',
+      INTERVAL '30 minutes'
+    ) AS s(local_start)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM expert_blackout_dates b
+      WHERE b.expert_profile_id = p_expert_profile_id
+        AND b.date = days.day
+    )
+  )
+  SELECT c.slot_start, c.slot_start + INTERVAL '30 minutes' AS slot_end
+  FROM candidates c
+  WHERE auth.uid() IS NOT NULL
+    AND c.slot_start > now()
+    AND NOT EXISTS (
+      SELECT 1
+      FROM collaboration_requests cr
+      WHERE cr.expert_profile_id = p_expert_profile_id
+        AND cr.status IN ('accepted', 'in_progress', 'completed', 'disputed')
+        AND tstzrange(cr.scheduled_start, cr.scheduled_end, '[)')
+          && tstzrange(c.slot_start, c.slot_start + INTERVAL '30 minutes', '[)')
+    )
+  ORDER BY c.slot_start;
+$$;
+
+DROP POLICY IF EXISTS expert_reviews_insert ON expert_reviews;
+
+CREATE POLICY expert_reviews_insert ON expert_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    reviewer_id = (SELECT auth.uid())
+    AND expert_reply IS NULL
+    AND EXISTS (
+      SELECT 1 FROM collaboration_requests cr
+      WHERE cr.id = collaboration_request_id
+        AND cr.sender_id = (SELECT auth.uid())
+        AND cr.expert_profile_id = expert_reviews.expert_profile_id
+        AND cr.status IN ('accepted', 'in_progress', 'completed', 'disputed')
+    )
+  );
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+
+-- UPDATE: Both parties while the request is open; the lifecycle trigger
+-- decides which changes are allowed
+DROP POLICY IF EXISTS collab_requests_update ON collaboration_requests;
+
+CREATE POLICY collab_requests_update ON collaboration_requests
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (recipient_id = (SELECT auth.uid()) OR sender_id = (SELECT auth.uid()))
+    AND status IN ('pending', 'accepted', 'in_progress', 'disputed')
+  );
+
+-- Clients change the status, the response and the proposal only
+REVOKE UPDATE ON collaboration_requests FROM authenticated;
+GRANT UPDATE (
+  status,
+  response_message,
+  responded_at,
+  scope,
+  budget_min,
+  budget_max,
+  timeline_start,
+  timeline_end
+) ON collaboration_requests TO authenticated;
+
+ALTER TABLE collaboration_request_events ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Both parties of the request and admins; written by trigger only
+CREATE POLICY collaboration_request_events_select ON collaboration_request_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM collaboration_requests cr
+      WHERE cr.id = collaboration_request_id
+        AND (cr.sender_id = (SELECT auth.uid()) OR cr.recipient_id = (SELECT auth.uid()))
+    )
+    OR (SELECT is_admin())
+  );
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN collaboration_requests.scope IS 'Proposed scope of work';
+COMMENT ON COLUMN collaboration_requests.budget_min IS 'Proposed budget lower bound in KRW';
+COMMENT ON COLUMN collaboration_requests.budget_max IS 'Proposed budget upper bound in KRW';
+COMMENT ON COLUMN collaboration_requests.timeline_start IS 'Proposed start date';
+COMMENT ON COLUMN collaboration_requests.timeline_end IS 'Proposed end date';
+COMMENT ON COLUMN collaboration_requests.proposed_by IS 'Party who made the current proposal (maintained by trigger)';
+COMMENT ON COLUMN collaboration_requests.proposal_updated_at IS 'When the current proposal was made (maintained by trigger)';
+COMMENT ON TABLE collaboration_request_events IS 'Timeline of status changes and proposals of collaboration requests';
+COMMENT ON COLUMN collaboration_request_events.actor_id IS 'Member who made the change, NULL for system changes';
+COMMENT ON COLUMN collaboration_request_events.metadata IS 'Proposal snapshot for proposal_updated events';
+COMMENT ON FUNCTION is_valid_collaboration_transition(collaboration_status, collaboration_status, BOOLEAN, BOOLEAN) IS 'Whether a party may move a request between two statuses';
+COMMENT ON FUNCTION enforce_collaboration_lifecycle() IS 'Rejects invalid status transitions and late proposals, and records the proposer';
+COMMENT ON FUNCTION set_initial_collaboration_proposal() IS 'Attributes the proposal of a new request to its sender';
+COMMENT ON FUNCTION record_collaboration_event() IS 'Records creation, status changes and proposals in collaboration_request_events';
+COMMENT ON POLICY collab_requests_update ON collaboration_requests IS 'Involved parties can update open requests within the lifecycle rules';
+COMMENT ON POLICY collaboration_request_events_select ON collaboration_request_events IS 'Parties of a request and admins can read its timeline';
@@ -0,0 +1,122 @@
+-- Migration: Add Expert Profile Editing and Resubmission
+-- Purpose: Let experts edit their profile after review. Material edits to an
+-- approved profile send it back to pending_review, rejected profiles can be
+-- fixed and resubmitted, and admins see what changed since the last review.
+--
+-- Non-material fields (is_available, service_regions) update immediately.
+
+-- ============================================
+-- expert_profiles.reviewed_snapshot
+-- ============================================
+
+ALTER TABLE expert_profiles
+  ADD COLUMN IF NOT EXISTS reviewed_snapshot JSONB;
+
+-- ============================================
+-- Function: material fields of a profile
+-- ============================================
+-- Keep in sync with MATERIAL_EXPERT_PROFILE_FIELDS in
+-- src/lib/expert-profile-changes.ts.
+
+CREATE OR REPLACE FUNCTION expert_profile_material_snapshot(p expert_profiles)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'business_name', p.business_name,
+    'business_registration_number', p.business_registration_number,
+    'category', p.category,
+    'subcategories', to_jsonb(COALESCE(p.subcategories, ARRAY[]::TEXT[])),
+    'specialty', to_jsonb(COALESCE(p.specialty, ARRAY[]::TEXT[])),
+    'service_description', p.service_description,
+    'bio', p.bio,
+    'collaboration_needs', p.collaboration_needs,
+    'experience_years', p.experience_years,
+    'hourly_rate', p.hourly_rate,
+    'price_range_min', p.price_range_min,
+    'price_range_max', p.price_range_max,
+    'portfolio_url', p.portfolio_url,
+    'portfolio_files', to_jsonb(COALESCE(p.portfolio_files, ARRAY[]::TEXT[])),
+    'verification_documents', to_jsonb(COALESCE(p.verification_documents, ARRAY[]::TEXT[]))
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- ============================================
+-- Trigger function: review workflow on update
+-- ============================================
+-- Admins: approving or rejecting stores the reviewed version, so the next
+-- edit can be shown as a diff.
+-- Owners: moderation columns keep their values, status can only move from
+-- draft or rejected to pending_review, and material edits of an approved
+-- profile send it back to pending_review.
+-- Nested updates (e.g. the rating aggregate) and the service role pass
+-- through.
+
+CREATE OR REPLACE FUNCTION handle_expert_profile_update()
+RETURNS trigger AS $$
+DECLARE
+  v_material_changed BOOLEAN;
+BEGIN
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (SELECT is_admin()) THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+      NEW.reviewed_snapshot := expert_profile_material_snapshot(NEW);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Moderation columns are admin-only
+  NEW.user_id := OLD.user_id;
+  NEW.verified_at := OLD.verified_at;
+  NEW.verified_by := OLD.verified_by;
+  NEW.rejection_reason := OLD.rejection_reason;
+  NEW.is_featured := OLD.is_featured;
+  NEW.is_hidden := OLD.is_hidden;
+  NEW.hidden_reason := OLD.hidden_reason;
+  NEW.hidden_by := OLD.hidden_by;
+  NEW.reviewed_snapshot := OLD.reviewed_snapshot;
+
+  v_material_changed :=
+    expert_profile_material_snapshot(NEW) IS DISTINCT FROM expert_profile_material_snapshot(OLD);
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (NEW.status = 'pending_review' AND OLD.status IN ('draft', 'rejected')) THEN
+      RAISE EXCEPTION 'Only admins can change the status of an expert profile';
+    END IF;
+  ELSIF OLD.status = 'approved' AND v_material_changed THEN
+    NEW.status := 'pending_review';
+  END IF;
+
+  -- A resubmission keeps the last rejection reason for the reviewing admin
+  IF NEW.status = 'pending_review' AND OLD.status <> 'pending_review' THEN
+    NEW.submitted_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS expert_profiles_review_trigger ON expert_profiles;
+
+CREATE TRIGGER expert_profiles_review_trigger
+  BEFORE UPDATE ON expert_profiles
+  FOR EACH ROW EXECUTE FUNCTION handle_expert_profile_update();
+
+-- ============================================
+-- Backfill
+-- ============================================
+-- Profiles reviewed before this migration diff against their current values.
+
+UPDATE expert_profiles
+SET reviewed_snapshot = expert_profile_material_snapshot(expert_profiles)
+WHERE status IN ('approved', 'rejected')
+  AND reviewed_snapshot IS NULL;
+
+-- ============================================
+-- Comments
+-- ============================================
+
+COMMENT ON COLUMN expert_profiles.reviewed_snapshot IS 'Material fields as of the last admin approval or rejection, used to show admins what changed on resubmission';
+COMMENT ON FUNCTION expert_profile_material_snapshot(expert_profiles) IS 'Material fields of an expert profile as JSONB; edits to these require admin review';
+COMMENT ON FUNCTION handle_expert_profile_update() IS 'Sends materially edited approved profiles back to review, limits owner status changes to (re)submission and snapshots reviewed versions';
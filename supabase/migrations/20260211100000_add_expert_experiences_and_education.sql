@@ -0,0 +1,323 @@
+-- Migration: Add Expert Work Experience and Education
+-- Purpose: Persist the work history and education shown on expert profiles,
+-- edited by the expert from the profile edit page, and let the expert list
+-- filter by years of experience in a category.
+--
+-- Entries are ordered by sort_order (set by the expert), then most recent
+-- start first. They are part of the reviewed profile: adding, editing or
+-- removing one on an approved profile sends it back to review, like a
+-- material profile edit (20260211090000). Reordering does not.
+
+-- ============================================
+-- TABLE: expert_experiences
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS expert_experiences (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  expert_profile_id UUID NOT NULL REFERENCES expert_profiles(id) ON DELETE CASCADE,
+
+  company TEXT NOT NULL CHECK (char_length(btrim(company)) BETWEEN 1 AND 100),
+  position TEXT NOT NULL CHECK (char_length(btrim(position)) BETWEEN 1 AND 100),
+  location TEXT CHECK (location IS NULL OR char_length(location) <= 100),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 1000),
+
+  -- Category the years count toward; NULL counts toward the profile category
+  category expert_category,
+
+  -- Period; current positions have no end date
+  start_date DATE NOT NULL,
+  end_date DATE,
+  is_current BOOLEAN NOT NULL DEFAULT false,
+
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT expert_experiences_period_valid CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT expert_experiences_end_valid CHECK (is_current = (end_date IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS expert_experiences_expert_idx
+  ON expert_experiences (expert_profile_id, sort_order, start_date DESC);
+
+CREATE TRIGGER expert_experiences_updated_at
+  BEFORE UPDATE ON expert_experiences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- TABLE: expert_education
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS expert_education (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  expert_profile_id UUID NOT NULL REFERENCES expert_profiles(id) ON DELETE CASCADE,
+
+  institution TEXT NOT NULL CHECK (char_length(btrim(institution)) BETWEEN 1 AND 100),
+  degree TEXT NOT NULL CHECK (char_length(btrim(degree)) BETWEEN 1 AND 100),
+  field TEXT CHECK (field IS NULL OR char_length(field) <= 100),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 1000),
+
+  -- A missing or future end date means still enrolled (expected graduation)
+  start_date DATE NOT NULL,
+  end_date DATE,
+
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT expert_education_period_valid CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS expert_education_expert_idx
+  ON expert_education (expert_profile_id, sort_order, start_date DESC);
+
+CREATE TRIGGER expert_education_updated_at
+  BEFORE UPDATE ON expert_education
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- FUNCTION: get_experts_by_experience
+-- ============================================
+-- Expert profiles with at least p_min_years of work experience, optionally in
+-- one category. Overlapping periods count once and current positions count up
+-- to today; keep in sync with getExperienceYears() in
+-- src/lib/expert-experience.ts. Experts without work history entries fall
+-- back to their self-reported experience_years.
+--
+-- Returns profile rows so the expert list applies its other filters, sorting
+-- and paging to the result in the same request. Runs as SECURITY INVOKER so
+-- the expert_profiles and expert_experiences RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION get_experts_by_experience(
+  p_min_years NUMERIC,
+  p_category expert_category DEFAULT NULL
+)
+RETURNS SETOF expert_profiles AS $$
+  SELECT ep.*
+  FROM expert_profiles ep
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) AS entry_count,
+      range_agg(
+        daterange(
+          e.start_date,
+          GREATEST(e.start_date, LEAST(COALESCE(e.end_date, CURRENT_DATE), CURRENT_DATE))
+        )
+      ) FILTER (
+        WHERE p_category IS NULL
+          OR e.category = p_category
+          OR (e.category IS NULL AND ep.category = p_category)
+      ) AS worked
+    FROM expert_experiences e
+    WHERE e.expert_profile_id = ep.id
+  ) history
+  WHERE CASE
+    WHEN history.entry_count > 0 THEN (
+      SELECT COALESCE(sum(upper(r) - lower(r)), 0)
+      FROM unnest(history.worked) AS r
+    ) >= p_min_years * 365.25
+    ELSE (p_category IS NULL OR ep.category = p_category)
+      AND COALESCE(ep.experience_years, 0) >= p_min_years
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_experts_by_experience(NUMERIC, expert_category) TO authenticated;
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+
+ALTER TABLE expert_experiences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expert_education ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Approved members and admins; experts always see their own
+CREATE POLICY expert_experiences_select ON expert_experiences
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT is_approved_member())
+    OR (SELECT is_admin())
+    OR EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- INSERT/UPDATE/DELETE: Only the expert who owns the profile (changes to an
+-- approved profile send it back to review, see below)
+CREATE POLICY expert_experiences_manage ON expert_experiences
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY expert_education_select ON expert_education
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT is_approved_member())
+    OR (SELECT is_admin())
+    OR EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY expert_education_manage ON expert_education
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM expert_profiles ep
+      WHERE ep.id = expert_profile_id
+        AND ep.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- ============================================
+-- Review: entries are material
+-- ============================================
+-- Replace the version from 20260211090000: the snapshot also holds the
+-- entries (without their display order), so admins see them in the diff.
+-- Keep in sync with getHistoryChanges() in src/lib/expert-profile-changes.ts.
+
+CREATE OR REPLACE FUNCTION expert_profile_material_snapshot(p expert_profiles)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'business_name', p.business_name,
+    'business_registration_number', p.business_registration_number,
+    'category', p.category,
+    'subcategories', to_jsonb(COALESCE(p.subcategories, ARRAY[]::TEXT[])),
+    'specialty', to_jsonb(COALESCE(p.specialty, ARRAY[]::TEXT[])),
+    'service_description', p.service_description,
+    'bio', p.bio,
+    'collaboration_needs', p.collaboration_needs,
+    'experience_years', p.experience_years,
+    'hourly_rate', p.hourly_rate,
+    'price_range_min', p.price_range_min,
+    'price_range_max', p.price_range_max,
+    'portfolio_url', p.portfolio_url,
+    'portfolio_files', to_jsonb(COALESCE(p.portfolio_files, ARRAY[]::TEXT[])),
+    'verification_documents', to_jsonb(COALESCE(p.verification_documents, ARRAY[]::TEXT[])),
+    'experiences', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'company', e.company,
+          'position', e.position,
+          'location', e.location,
+          'description', e.description,
+          'category', e.category,
+          'start_date', e.start_date,
+          'end_date', e.end_date
+        )
+        ORDER BY e.start_date DESC, e.id
+      )
+      FROM expert_experiences e
+      WHERE e.expert_profile_id = p.id
+    ), '[]'::jsonb),
+    'education', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'institution', ed.institution,
+          'degree', ed.degree,
+          'field', ed.field,
+          'description', ed.description,
+          'start_date', ed.start_date,
+          'end_date', ed.end_date
+        )
+        ORDER BY ed.start_date DESC, ed.id
+      )
+      FROM expert_education ed
+      WHERE ed.expert_profile_id = p.id
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Owners' changes to the entries of an approved profile send it back to
+-- pending_review. The nested profile update passes through
+-- handle_expert_profile_update(). Admins, the service role and cascades from
+-- a deleted profile pass through.
+
+CREATE OR REPLACE FUNCTION handle_expert_history_change()
+RETURNS trigger AS $$
+DECLARE
+  v_expert_profile_id UUID;
+BEGIN
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL OR (SELECT is_admin()) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_expert_profile_id := OLD.expert_profile_id;
+  ELSE
+    v_expert_profile_id := NEW.expert_profile_id;
+  END IF;
+
+  -- Reordering is not a change to review
+  IF TG_OP = 'UPDATE'
+    AND to_jsonb(NEW) - 'sort_order' - 'updated_at' = to_jsonb(OLD) - 'sort_order' - 'updated_at' THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE expert_profiles
+  SET status = 'pending_review', submitted_at = now()
+  WHERE id = v_expert_profile_id
+    AND status = 'approved';
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS expert_experiences_review_trigger ON expert_experiences;
+
+CREATE TRIGGER expert_experiences_review_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON expert_experiences
+  FOR EACH ROW EXECUTE FUNCTION handle_expert_history_change();
+
+DROP TRIGGER IF EXISTS expert_education_review_trigger ON expert_education;
+
+CREATE TRIGGER expert_education_review_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON expert_education
+  FOR EACH ROW EXECUTE FUNCTION handle_expert_history_change();
+
+-- ============================================
+-- Comments for documentation
+-- ============================================
+
+COMMENT ON TABLE expert_experiences IS 'Work history entries shown on expert profiles';
+COMMENT ON COLUMN expert_experiences.category IS 'Category the experience counts toward; NULL counts toward the profile category';
+COMMENT ON COLUMN expert_experiences.is_current IS 'Current position; such entries have no end date';
+COMMENT ON COLUMN expert_experiences.sort_order IS 'Display order chosen by the expert (ascending)';
+COMMENT ON TABLE expert_education IS 'Education entries shown on expert profiles';
+COMMENT ON COLUMN expert_education.end_date IS 'Graduation date; NULL or a future date means still enrolled';
+COMMENT ON COLUMN expert_education.sort_order IS 'Display order chosen by the expert (ascending)';
+COMMENT ON FUNCTION get_experts_by_experience(NUMERIC, expert_category) IS 'Expert profiles with at least the given years of work experience (or experience_years without work history), optionally in one category';
+COMMENT ON FUNCTION expert_profile_material_snapshot(expert_profiles) IS 'Material fields, work history and education of an expert profile as JSONB; edits to these require admin review';
+COMMENT ON FUNCTION handle_expert_history_change() IS 'Sends approved expert profiles back to review when their owner changes work history or education';
+COMMENT ON POLICY expert_experiences_select ON expert_experiences IS 'Approved members can read expert work history';
+COMMENT ON POLICY expert_experiences_manage ON expert_experiences IS 'Experts manage their own work history';
+COMMENT ON POLICY expert_education_select ON expert_education IS 'Approved members can read expert education';
+COMMENT ON POLICY expert_education_manage ON expert_education IS 'Experts manage their own education';